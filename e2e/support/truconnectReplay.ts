@@ -0,0 +1,29 @@
+import type { Page } from '@playwright/test';
+
+/**
+ * Point the weighing screens at a replayed TruConnect session instead of live hardware.
+ * Must run before the first navigation (it seeds localStorage via an init script), e.g.
+ *
+ *   await useTruConnectReplay(page, { scenario: 'mobile-6c', speed: 4 });
+ *   await page.goto(`/${orgSlug}/weighing/mobile`);
+ *
+ * `scenario` names come from SYNTHETIC_SCENARIOS (src/lib/truconnect/scenarios.ts); `url` loads a
+ * JSONL recording served by the app (e.g. from public/). See src/lib/truconnect/replay.ts.
+ * Production builds ignore the replay config, so point BASE_URL at a dev server (`npm run dev`).
+ */
+export async function useTruConnectReplay(
+  page: Page,
+  config: {
+    scenario?: string;
+    url?: string;
+    speed?: number;
+    loop?: boolean;
+    noiseKg?: number;
+    instability?: number;
+    seed?: number;
+  },
+): Promise<void> {
+  await page.addInitScript((value) => {
+    window.localStorage.setItem('truload_truconnect_replay', value);
+  }, JSON.stringify(config));
+}
@@ -0,0 +1,60 @@
+import { test, expect, request as pwRequest } from '@playwright/test';
+
+import { useTruConnectReplay } from './support/truconnectReplay';
+
+/**
+ * Weighing screens driven by a replayed TruConnect session — no scale hardware needed.
+ *
+ * Logs in against the deployed backend, seeds the session the way the login page does, then
+ * opens the multideck screen on the `multideck-3d` synthetic scenario (decks of 7,000 / 16,500 /
+ * 24,000 kg) and checks the replayed deck weights reach the screen.
+ *
+ * Replay is disabled in production builds, so this runs against a dev server only:
+ *   BASE_URL=http://localhost:3000 E2E_PASSWORD=... npx playwright test truconnect-replay
+ *
+ * Env: BASE_URL (required), TRULOAD_API_URL (default https://truloadapi.codevertexafrica.com),
+ *      E2E_EMAIL, E2E_PASSWORD, E2E_ORG_SLUG (KURA).
+ */
+const API = process.env.TRULOAD_API_URL || 'https://truloadapi.codevertexafrica.com';
+const ORG = process.env.E2E_ORG_SLUG || 'KURA';
+const EMAIL = process.env.E2E_EMAIL || 'gadmin@masterspace.co.ke';
+const PASSWORD = process.env.E2E_PASSWORD || '';
+
+async function login() {
+  const ctx = await pwRequest.newContext({ baseURL: API });
+  const res = await ctx.post('/api/v1/auth/login', {
+    data: { email: EMAIL, password: PASSWORD, organizationCode: ORG, stationCode: 'KURA-HQ' },
+  });
+  expect(res.ok(), `login should succeed (got ${res.status()})`).toBeTruthy();
+  const body = await res.json();
+  await ctx.dispose();
+  return body as { accessToken: string; refreshToken: string; expiresIn: number; user: unknown };
+}
+
+test.describe('TruConnect replay', () => {
+  test.skip(!PASSWORD, 'set E2E_PASSWORD to run the replay E2E');
+  test.skip(!process.env.BASE_URL, 'set BASE_URL to a dev server — production builds ignore replay');
+
+  test.beforeEach(async ({ page }) => {
+    const session = await login();
+    // Same keys setTokens() and the persisted auth store write after an interactive login.
+    await page.addInitScript((s) => {
+      const expiresAt = Math.floor(Date.now() / 1000) + s.expiresIn;
+      window.localStorage.setItem('truload_access_token', s.accessToken);
+      window.localStorage.setItem('truload_refresh_token', s.refreshToken);
+      window.localStorage.setItem('truload_token_expiry', String(expiresAt));
+      window.localStorage.setItem(
+        'truload-auth-storage',
+        JSON.stringify({ state: { user: s.user, isAuthenticated: true }, version: 0 }),
+      );
+    }, session);
+  });
+
+  test('multideck screen shows the replayed deck weights', async ({ page }) => {
+    await useTruConnectReplay(page, { scenario: 'multideck-3d', speed: 4, loop: true });
+    await page.goto(`/${ORG}/weighing/multideck`);
+
+    await expect(page.getByText('47,500').first()).toBeVisible({ timeout: 30_000 });
+    await expect(page.getByText('24,000').first()).toBeVisible();
+  });
+});
@@ -2,24 +2,30 @@
  * Parity test for the offline CHARGES engine (computeProvisionalCharges).
  * Replays real prosecution_cases through the engine and compares gvwFeeKes + totalFeeKes
  * against the server-stored values. Run:
- *   node scripts/offline-charges-parity.mjs <prosecutions.json> <feeSchedules.json>
+ *   node scripts/offline-charges-parity.mjs <prosecutions.json> <feeSchedules.json> [axleTypeFees.json]
+ * With the axle-type fee schedules, rows carrying `groups: [{ groupLabel, axleType, overloadKg }]`
+ * have their EAC axle fee computed by computeAxleTypeFees instead of read from `axleFeeUsd`.
  */
 import { readFileSync } from 'node:fs';
-import { computeProvisionalCharges } from '../src/lib/offline/compliance.ts';
+import { computeProvisionalCharges, computeAxleTypeFees } from '../src/lib/offline/compliance.ts';
 
 const prosecutions = JSON.parse(readFileSync(process.argv[2], 'utf8')) ?? [];
 const feeSchedules = JSON.parse(readFileSync(process.argv[3], 'utf8')) ?? [];
+const axleTypeFees = process.argv[4] ? JSON.parse(readFileSync(process.argv[4], 'utf8')) ?? [] : null;
 
 let pass = 0, fail = 0;
 const failures = [];
 for (const p of prosecutions) {
+  const axleFeeUsd = axleTypeFees && p.groups
+    ? computeAxleTypeFees(p.groups, p.fw, axleTypeFees).totalAxleFeeUsd
+    : p.axleFeeUsd ?? 0;
   const r = computeProvisionalCharges({
     gvwOverloadKg: p.gvwOverloadKg,
     legalFramework: p.fw,
     priorConvictionCount: p.offenseCount, // conviction tier derives from this
     feeSchedules,
     forexRate: 130,
-    axleFeeUsd: p.axleFeeUsd ?? 0,
+    axleFeeUsd,
   });
   const okGvw = Number(r.gvwFeeKes) === Number(p.gvwFeeKes);
   const okTotal = Number(r.totalFeeKes) === Number(p.totalFeeKes);
@@ -6,11 +6,25 @@
  * transaction. This is how we keep the offline engine in lockstep with the backend.
  *
  * Usage (Node 22.6+ strips TS types):
- *   node scripts/offline-compliance-parity.mjs <dataFile1.json> [dataFile2.json ...]
+ *   node scripts/offline-compliance-parity.mjs [--axle-type-fees=<fees.json>] [--demerit=<demerit.json>] <dataFile1.json> [dataFile2.json ...]
  * Each JSON file is an array of: { id, fw, perm, meas, overload, gvwtol, axles:[{axleNumber,measuredWeightKg,permissibleWeightKg,axleGrouping}] }
+ * Optional per-row fields, checked when present:
+ *   permit: { axleExtensionKg, gvwExtensionKg }  — the active permit the backend applied
+ *   groups: [{ label, overload, feeUsd? }]        — server group overloads (+ EAC axle fees)
+ *   axleFeeUsd, demeritPoints                      — server totals (need the matching --flag file)
  */
 import { readFileSync } from 'node:fs';
-import { computeProvisionalCompliance } from '../src/lib/offline/compliance.ts';
+import {
+  computeProvisionalCompliance,
+  computeAxleTypeFees,
+  computeDemeritPoints,
+} from '../src/lib/offline/compliance.ts';
+
+const args = process.argv.slice(2);
+const flag = (name) => args.find((a) => a.startsWith(`--${name}=`))?.split('=')[1];
+const readJson = (file) => (file ? JSON.parse(readFileSync(file, 'utf8')) ?? [] : null);
+const AXLE_TYPE_FEES = readJson(flag('axle-type-fees'));
+const DEMERIT = readJson(flag('demerit'));
 
 // Cached tolerance settings (mirror of tolerance_settings in kuraweigh).
 const TOLERANCE_SETTINGS = [
@@ -28,7 +42,7 @@ const TOLERANCE_SETTINGS = [
 let pass = 0, fail = 0;
 const failures = [];
 
-for (const file of process.argv.slice(2)) {
+for (const file of args.filter((a) => !a.startsWith('--'))) {
   const rows = JSON.parse(readFileSync(file, 'utf8')) ?? [];
   for (const w of rows) {
     if (!w.axles?.length) continue;
@@ -38,10 +52,31 @@ for (const file of process.argv.slice(2)) {
       gvwConfigToleranceKg: w.gvwtol, // the override the backend resolved
       legalFramework: w.fw,
       toleranceSettings: TOLERANCE_SETTINGS,
+      permit: w.permit ?? null,
     });
     const okMeas = result.gvwMeasuredKg === w.meas;
     const okOverload = result.gvwOverloadKg === w.overload;
-    if (okMeas && okOverload) {
+    const mismatch = {};
+
+    if (w.groups) {
+      const fees = AXLE_TYPE_FEES ? computeAxleTypeFees(result.groupResults, w.fw, AXLE_TYPE_FEES) : null;
+      for (const g of w.groups) {
+        const got = result.groupResults.find((r) => r.groupLabel === g.label);
+        if (got?.overloadKg !== g.overload) mismatch[`group${g.label}`] = [got?.overloadKg, g.overload];
+        const fee = fees?.groupFees.find((f) => f.groupLabel === g.label)?.feeUsd;
+        if (fees && g.feeUsd != null && Number(fee) !== Number(g.feeUsd)) mismatch[`fee${g.label}`] = [fee, g.feeUsd];
+      }
+    }
+    if (AXLE_TYPE_FEES && w.axleFeeUsd != null) {
+      const total = computeAxleTypeFees(result.groupResults, w.fw, AXLE_TYPE_FEES).totalAxleFeeUsd;
+      if (Number(total) !== Number(w.axleFeeUsd)) mismatch.axleFeeUsd = [total, w.axleFeeUsd];
+    }
+    if (DEMERIT && w.demeritPoints != null) {
+      const points = computeDemeritPoints(result, w.fw, DEMERIT).totalPoints;
+      if (points !== w.demeritPoints) mismatch.demeritPoints = [points, w.demeritPoints];
+    }
+
+    if (okMeas && okOverload && Object.keys(mismatch).length === 0) {
       pass++;
     } else {
       fail++;
@@ -49,6 +84,7 @@ for (const file of process.argv.slice(2)) {
         id: w.id,
         meas: [result.gvwMeasuredKg, w.meas, okMeas],
         gvwOverload: [result.gvwOverloadKg, w.overload, okOverload],
+        ...mismatch,
       });
     }
   }
@@ -60,4 +96,4 @@ if (failures.length) {
   for (const f of failures) console.log(JSON.stringify(f));
   process.exit(1);
 }
-console.log('✓ Offline engine matches server-computed GVW overload + measured sum on all sampled weighings.');
+console.log('✓ Offline engine matches server-computed GVW overload + measured sum (and any sampled group overloads, axle fees, demerit points) on all sampled weighings.');
@@ -49,6 +49,7 @@ import {
 import { useCaseDocuments } from '@/hooks/queries/useCaseDocumentQueries';
 import { useOrgSlug } from '@/hooks/useOrgSlug';
 import { useHasPermission } from '@/hooks/useAuth';
+import { CaseTransitionError } from '@/lib/case-workflow';
 import {
     Activity,
     AlertTriangle,
@@ -178,8 +179,8 @@ export default function CaseManagementDetailPage() {
       toast.success('Case closed successfully');
       setShowCloseModal(false);
       refetch();
-    } catch {
-      toast.error('Failed to close case');
+    } catch (e) {
+      toast.error(e instanceof CaseTransitionError ? e.message : 'Failed to close case');
     }
   }, [caseId, closeDispositionId, closeReason, closeCaseMutation, refetch]);
 
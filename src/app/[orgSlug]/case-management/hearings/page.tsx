@@ -0,0 +1,400 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { AppShell } from '@/components/layout/AppShell';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    useCourts,
+    useHearingCalendarFeed,
+    useHearingsByCaseId,
+    useHearingsInRange,
+} from '@/hooks/queries';
+import { useUser } from '@/hooks/useAuth';
+import { useOrgSlug } from '@/hooks/useOrgSlug';
+import { getHearingsInRange, type CourtHearingDto } from '@/lib/api/courtHearing';
+import { fetchUsers } from '@/lib/api/setup';
+import {
+    buildAdjournmentChains,
+    buildHearingsICalendar,
+    calendarDays,
+    conflictsByHearing,
+    findHearingConflicts,
+    groupHearingsByDay,
+    HEARING_ROLE_LABELS,
+    hearingDay,
+    shiftAnchor,
+    type CalendarView,
+    type HearingConflict,
+} from '@/lib/court-calendar';
+import { downloadBlob } from '@/lib/export';
+import { QUERY_KEYS, QUERY_OPTIONS } from '@/lib/query/config';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import {
+    AlertTriangle,
+    ArrowRight,
+    CalendarDays,
+    ChevronLeft,
+    ChevronRight,
+    Copy,
+    Download,
+    Gavel,
+    Loader2,
+} from 'lucide-react';
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+/** How far ahead a downloaded .ics file reaches. */
+const ICS_EXPORT_DAYS = 180;
+
+const VIEWS: { value: CalendarView; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+];
+
+const dayLabel = (day: string, pattern: string) => format(new Date(`${day}T00:00:00`), pattern);
+
+const involves = (h: CourtHearingDto, personId: string) =>
+  h.prosecutorId === personId || h.investigatingOfficerId === personId;
+
+/**
+ * Court hearing calendar: hearings of every case by day / week / month, filtered by court or by
+ * prosecutor / investigating officer, with double-bookings flagged, adjournment chains, and
+ * iCalendar export per user. Per-case scheduling stays on the case's Hearings tab.
+ */
+export default function HearingCalendarPage() {
+  const orgSlug = useOrgSlug();
+  const { user } = useUser();
+  const [view, setView] = useState<CalendarView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [courtId, setCourtId] = useState('all');
+  const [personId, setPersonId] = useState('all');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const days = useMemo(() => calendarDays(view, anchor), [view, anchor]);
+  // Always the whole range: a clash in another court only shows if both hearings are loaded.
+  const { data: rangeHearings = [], isLoading } = useHearingsInRange({ from: days[0], to: days[days.length - 1] });
+  const { data: courts = [] } = useCourts();
+  const { data: usersData } = useQuery({
+    queryKey: [...QUERY_KEYS.USERS, 'list', 500],
+    queryFn: () => fetchUsers({ pageNumber: 1, pageSize: 500 }),
+    ...QUERY_OPTIONS.semiStatic,
+  });
+  const users = usersData?.items ?? [];
+
+  const conflicts = useMemo(() => findHearingConflicts(rangeHearings), [rangeHearings]);
+  const conflictIndex = useMemo(() => conflictsByHearing(conflicts), [conflicts]);
+  const hearings = useMemo(
+    () => rangeHearings.filter((h) =>
+      (courtId === 'all' || h.courtId === courtId) && (personId === 'all' || involves(h, personId))),
+    [rangeHearings, courtId, personId],
+  );
+  const byDay = useMemo(() => groupHearingsByDay(hearings), [hearings]);
+  const visibleConflicts = conflicts.filter((c) => c.hearingIds.some((id) => hearings.some((h) => h.id === id)));
+  const hearingById = useMemo(() => new Map(rangeHearings.map((h) => [h.id, h])), [rangeHearings]);
+
+  const selected = selectedId ? hearingById.get(selectedId) : undefined;
+  const { data: caseHearings = [], isLoading: chainLoading } = useHearingsByCaseId(selected?.caseRegisterId);
+  const selectedChain = useMemo(
+    () => (selected ? buildAdjournmentChains(caseHearings).find((c) => c.some((h) => h.id === selected.id)) : undefined),
+    [caseHearings, selected],
+  );
+  const rangeChains = useMemo(
+    () => buildAdjournmentChains(hearings).filter((c) => c.length > 1),
+    [hearings],
+  );
+
+  // Calendar export is for one person: the filtered prosecutor / officer, else the signed-in user.
+  const calendarUserId = personId !== 'all' ? personId : user?.id;
+  const calendarUserName = users.find((u) => u.id === calendarUserId)?.fullName ?? user?.fullName ?? 'My';
+  const { data: feed } = useHearingCalendarFeed(calendarUserId);
+
+  const handleExportIcs = async () => {
+    if (!calendarUserId) return;
+    setExporting(true);
+    try {
+      const from = new Date();
+      const to = new Date(from.getTime() + ICS_EXPORT_DAYS * 86_400_000);
+      const upcoming = await getHearingsInRange({ from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd') });
+      const mine = upcoming.filter((h) => involves(h, calendarUserId));
+      const ics = buildHearingsICalendar(mine, { calendarName: `${calendarUserName} – court hearings` });
+      downloadBlob(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), `hearings_${format(from, 'yyyy-MM-dd')}.ics`);
+      toast.success(`${mine.length} hearing${mine.length === 1 ? '' : 's'} exported`);
+    } catch {
+      toast.error('Failed to export hearings');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleCopyFeed = async () => {
+    if (!feed?.url) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast.success('Calendar feed link copied — add it as a subscribed calendar on your phone');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const rangeLabel = view === 'day'
+    ? dayLabel(days[0], 'EEEE d MMMM yyyy')
+    : view === 'week'
+      ? `${dayLabel(days[0], 'd MMM')} – ${dayLabel(days[6], 'd MMM yyyy')}`
+      : format(anchor, 'MMMM yyyy');
+
+  const renderHearing = (h: CourtHearingDto, compact: boolean) => {
+    const clashes = conflictIndex.get(h.id);
+    return (
+      <button
+        key={h.id}
+        type="button"
+        onClick={() => setSelectedId(h.id)}
+        className={`w-full text-left rounded border px-2 py-1 text-xs hover:bg-muted ${
+          clashes ? 'border-red-300 bg-red-50' : 'bg-background'
+        } ${selectedId === h.id ? 'ring-2 ring-primary' : ''}`}
+      >
+        <div className="flex items-center gap-1 font-medium">
+          {clashes && <AlertTriangle className="h-3 w-3 text-red-600 shrink-0" />}
+          <span>{h.hearingTime?.slice(0, 5) ?? 'AM'}</span>
+          <span className="truncate">{h.caseNo}</span>
+        </div>
+        {!compact && (
+          <div className="text-muted-foreground truncate">
+            {h.courtName ?? 'No court'}{h.prosecutorName ? ` · ${h.prosecutorName}` : ''}
+          </div>
+        )}
+      </button>
+    );
+  };
+
+  const describeConflict = (c: HearingConflict) => {
+    const [a, b] = c.hearingIds.map((id) => hearingById.get(id));
+    return `${c.personName ?? 'Unnamed'} (${HEARING_ROLE_LABELS[c.role].toLowerCase()}) is due at ${a?.courtName ?? '—'} for ${a?.caseNo} and ${b?.courtName ?? '—'} for ${b?.caseNo} on ${a ? dayLabel(hearingDay(a), 'd MMM') : ''}`;
+  };
+
+  return (
+    <ProtectedRoute requiredPermissions={['case.read']}>
+      <AppShell title="Hearing calendar" subtitle="Court hearings across all cases, by court and by prosecutor">
+        <div className="space-y-6">
+          {/* Toolbar */}
+          <Card>
+            <CardContent className="pt-4 flex flex-wrap items-end gap-4">
+              <div className="flex items-center gap-1">
+                {VIEWS.map((v) => (
+                  <Button
+                    key={v.value}
+                    size="sm"
+                    variant={view === v.value ? 'default' : 'outline'}
+                    onClick={() => setView(v.value)}
+                  >
+                    {v.label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button size="icon" variant="outline" onClick={() => setAnchor((a) => shiftAnchor(view, a, -1))}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setAnchor(new Date())}>Today</Button>
+                <Button size="icon" variant="outline" onClick={() => setAnchor((a) => shiftAnchor(view, a, 1))}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+                <span className="ml-2 font-medium">{rangeLabel}</span>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Court</Label>
+                <Select value={courtId} onValueChange={setCourtId}>
+                  <SelectTrigger className="w-[200px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All courts</SelectItem>
+                    {courts.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Prosecutor / officer</Label>
+                <Select value={personId} onValueChange={setPersonId}>
+                  <SelectTrigger className="w-[220px]"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Everyone</SelectItem>
+                    {users.map((u) => <SelectItem key={u.id} value={u.id}>{u.fullName || u.email}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="ml-auto flex items-center gap-2">
+                <Button variant="outline" size="sm" onClick={handleExportIcs} disabled={!calendarUserId || exporting}>
+                  {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                  Export .ics
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleCopyFeed} disabled={!feed?.url}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  Copy feed link
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Double bookings */}
+          {visibleConflicts.length > 0 && (
+            <div className="rounded-lg border border-red-200 bg-red-50 p-4 space-y-1">
+              <p className="flex items-center gap-2 font-medium text-red-900">
+                <AlertTriangle className="h-4 w-4" />
+                {visibleConflicts.length} double booking{visibleConflicts.length === 1 ? '' : 's'}
+              </p>
+              {visibleConflicts.map((c) => (
+                <button
+                  key={`${c.role}-${c.personId}-${c.hearingIds.join('-')}`}
+                  type="button"
+                  className="block text-left text-sm text-red-800 hover:underline"
+                  onClick={() => setSelectedId(c.hearingIds[0])}
+                >
+                  {describeConflict(c)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            {/* Calendar */}
+            <Card className="lg:col-span-3">
+              <CardContent className="pt-4">
+                {isLoading ? (
+                  <div className="flex justify-center py-12"><Loader2 className="h-6 w-6 animate-spin" /></div>
+                ) : view === 'day' ? (
+                  <div className="space-y-2">
+                    {(byDay.get(days[0]) ?? []).map((h) => renderHearing(h, false))}
+                    {!byDay.get(days[0]) && <p className="text-sm text-muted-foreground py-8 text-center">No hearings</p>}
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-7 gap-1">
+                    {days.slice(0, 7).map((d) => (
+                      <div key={`head-${d}`} className="text-xs font-medium text-muted-foreground text-center pb-1">
+                        {dayLabel(d, 'EEE')}
+                      </div>
+                    ))}
+                    {days.map((d) => {
+                      const dayHearings = byDay.get(d) ?? [];
+                      const outside = view === 'month' && new Date(`${d}T00:00:00`).getMonth() !== anchor.getMonth();
+                      return (
+                        <div
+                          key={d}
+                          className={`rounded border p-1 space-y-1 ${view === 'month' ? 'min-h-[96px]' : 'min-h-[240px]'} ${
+                            outside ? 'bg-muted/40' : ''
+                          }`}
+                        >
+                          <button
+                            type="button"
+                            className="text-xs font-medium hover:underline"
+                            onClick={() => { setView('day'); setAnchor(new Date(`${d}T00:00:00`)); }}
+                          >
+                            {dayLabel(d, 'd')}
+                          </button>
+                          {dayHearings.slice(0, view === 'month' ? 3 : undefined).map((h) => renderHearing(h, view === 'month'))}
+                          {view === 'month' && dayHearings.length > 3 && (
+                            <p className="text-[11px] text-muted-foreground">+{dayHearings.length - 3} more</p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Selected hearing + adjournment chains */}
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-base">
+                    <Gavel className="h-4 w-4" />
+                    {selected ? selected.caseNo : 'Hearing'}
+                  </CardTitle>
+                  {!selected && <CardDescription>Select a hearing to see its details and adjournments.</CardDescription>}
+                </CardHeader>
+                {selected && (
+                  <CardContent className="space-y-3 text-sm">
+                    <div>
+                      <p>{dayLabel(hearingDay(selected), 'EEE d MMM yyyy')} {selected.hearingTime?.slice(0, 5) ?? '(morning session)'}</p>
+                      <p className="text-muted-foreground">{selected.courtName ?? 'No court'}</p>
+                      {selected.hearingTypeName && <Badge variant="outline" className="mt-1">{selected.hearingTypeName}</Badge>}
+                    </div>
+                    <div className="text-muted-foreground">
+                      <p>Prosecutor: {selected.prosecutorName ?? '—'}</p>
+                      <p>Investigating officer: {selected.investigatingOfficerName ?? '—'}</p>
+                    </div>
+                    {conflictIndex.get(selected.id)?.map((c) => (
+                      <p key={c.hearingIds.join('-') + c.role} className="text-red-700 text-xs">{describeConflict(c)}</p>
+                    ))}
+                    <div>
+                      <p className="font-medium mb-1">Adjournments</p>
+                      {chainLoading ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : selectedChain ? (
+                        <ol className="space-y-1 border-l pl-3">
+                          {selectedChain.map((h) => (
+                            <li key={h.id} className={h.id === selected.id ? 'font-medium' : 'text-muted-foreground'}>
+                              {dayLabel(hearingDay(h), 'd MMM yyyy')}
+                              {h.adjournmentReason && <span className="block text-xs">Adjourned: {h.adjournmentReason}</span>}
+                            </li>
+                          ))}
+                        </ol>
+                      ) : (
+                        <p className="text-muted-foreground text-xs">Not adjourned</p>
+                      )}
+                    </div>
+                    <Button asChild size="sm" variant="outline" className="w-full">
+                      <Link href={`/${orgSlug}/case-management/${selected.caseRegisterId}?tab=hearings`}>
+                        Open case hearings
+                        <ArrowRight className="h-4 w-4 ml-2" />
+                      </Link>
+                    </Button>
+                  </CardContent>
+                )}
+              </Card>
+
+              {rangeChains.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2 text-base">
+                      <CalendarDays className="h-4 w-4" />
+                      Adjourned in this period
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    {rangeChains.map((chain) => (
+                      <button
+                        key={chain[0].id}
+                        type="button"
+                        className="block w-full text-left hover:underline"
+                        onClick={() => setSelectedId(chain[chain.length - 1].id)}
+                      >
+                        <span className="font-medium">{chain[0].caseNo}</span>
+                        <span className="block text-xs text-muted-foreground">
+                          {chain.map((h) => dayLabel(hearingDay(h), 'd MMM')).join(' → ')}
+                        </span>
+                      </button>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        </div>
+      </AppShell>
+    </ProtectedRoute>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { CaseAssignmentLog, CaseOverviewCards, ConvictionHistory, DocumentsTab, EscalateCaseModal, EscalateChooserModal, ProsecutionSection } from '@/components/case';
+import { CaseAssignmentLog, CaseOverviewCards, CaseWorkflowPanel, ConvictionHistory, DocumentsTab, EscalateCaseModal, EscalateChooserModal, ProsecutionSection } from '@/components/case';
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { AppShell } from '@/components/layout/AppShell';
 import { Badge } from '@/components/ui/badge';
@@ -33,8 +33,10 @@ import {
     useReleaseTypes,
     useSpecialReleasesByCase,
 } from '@/hooks/queries';
+import { useCaseWorkflow } from '@/hooks/useCaseWorkflow';
 import { useOrgSlug } from '@/hooks/useOrgSlug';
 import { fetchUsers } from '@/lib/api/setup';
+import { CaseTransitionError } from '@/lib/case-workflow';
 import { useQuery } from '@tanstack/react-query';
 import { downloadProhibitionOrderPdf, downloadSpecialReleaseCertificate } from '@/lib/api/caseRegister';
 import { downloadWeightTicketPdf } from '@/lib/api/weighing';
@@ -44,7 +46,6 @@ import {
     ArrowLeft,
     ArrowRight,
     Briefcase,
-    Calendar,
     FileText,
     Gavel,
     Loader2,
@@ -70,7 +71,7 @@ import { toast } from 'sonner';
  * Actions available here:
  *  - Request Special Release
  *  - Escalate to Case Manager
- *  - Close Case
+ *  - Close Case (only once the case workflow allows it — see lib/case-workflow)
  */
 export default function CaseDetailPage() {
   const params = useParams();
@@ -81,6 +82,7 @@ export default function CaseDetailPage() {
   // Queries
   const { data: caseData, isLoading, error, refetch } = useCaseById(caseId);
   const { data: specialReleases = [] } = useSpecialReleasesByCase(caseId);
+  const workflow = useCaseWorkflow(caseData);
   const { data: dispositionTypes = [] } = useDispositionTypes();
   const { data: releaseTypes = [] } = useReleaseTypes();
   const { data: usersData } = useQuery({
@@ -134,8 +136,8 @@ export default function CaseDetailPage() {
       toast.success('Case closed successfully');
       setShowCloseModal(false);
       refetch();
-    } catch {
-      toast.error('Failed to close case');
+    } catch (e) {
+      toast.error(e instanceof CaseTransitionError ? e.message : 'Failed to close case');
     }
   }, [caseId, closeDispositionId, closeReason, closeCaseMutation, refetch]);
 
@@ -265,10 +267,17 @@ export default function CaseDetailPage() {
                         Escalate
                       </Button>
                     )}
-                    <Button variant="destructive" onClick={() => setShowCloseModal(true)}>
-                      <XCircle className="mr-2 h-4 w-4" />
-                      Close Case
-                    </Button>
+                    {/* Disabled buttons don't show a title, so the reason sits on the wrapper */}
+                    <span title={workflow.blockedReason('close')}>
+                      <Button
+                        variant="destructive"
+                        onClick={() => setShowCloseModal(true)}
+                        disabled={!workflow.can('close')}
+                      >
+                        <XCircle className="mr-2 h-4 w-4" />
+                        Close Case
+                      </Button>
+                    </span>
                   </>
                 )}
               </div>
@@ -356,42 +365,8 @@ export default function CaseDetailPage() {
 
               {/* Right Column – Sidebar */}
               <div className="space-y-6">
-                {/* Timeline */}
-                <Card>
-                  <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Calendar className="h-5 w-5 text-gray-500" />
-                      Timeline
-                    </CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <div className="flex items-start gap-3">
-                      <div className="w-2 h-2 rounded-full bg-blue-500 mt-2" />
-                      <div>
-                        <p className="text-sm font-medium">Created</p>
-                        <p className="text-sm text-gray-500">{formatDate(caseData.createdAt)}</p>
-                        <p className="text-xs text-gray-400">by {caseData.createdByName || 'System'}</p>
-                      </div>
-                    </div>
-                    <div className="flex items-start gap-3">
-                      <div className="w-2 h-2 rounded-full bg-gray-300 mt-2" />
-                      <div>
-                        <p className="text-sm font-medium">Last Updated</p>
-                        <p className="text-sm text-gray-500">{formatDate(caseData.updatedAt)}</p>
-                      </div>
-                    </div>
-                    {caseData.closedAt && (
-                      <div className="flex items-start gap-3">
-                        <div className="w-2 h-2 rounded-full bg-green-500 mt-2" />
-                        <div>
-                          <p className="text-sm font-medium">Closed</p>
-                          <p className="text-sm text-gray-500">{formatDate(caseData.closedAt)}</p>
-                          <p className="text-xs text-gray-400">by {caseData.closedByName}</p>
-                        </div>
-                      </div>
-                    )}
-                  </CardContent>
-                </Card>
+                {/* Workflow: stage, SLA, available transitions and history */}
+                <CaseWorkflowPanel caseData={caseData} workflow={workflow} />
 
                 {/* Officers */}
                 <Card>
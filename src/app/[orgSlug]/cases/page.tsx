@@ -19,6 +19,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Pagination } from '@/components/ui/pagination';
 import { PermissionActionButton } from '@/components/ui/permission-action-button';
+import { ExportDialog } from '@/components/shared/ExportDialog';
 import {
     Select,
     SelectContent,
@@ -41,11 +42,14 @@ import {
     useViolationTypes,
 } from '@/hooks/queries';
 import { useAuth } from '@/hooks/useAuth';
-import { CaseRegisterDto, CaseSearchParams, hardDeleteCase } from '@/lib/api/caseRegister';
+import { useOverdueCaseAutoEscalation } from '@/hooks/useCaseWorkflow';
+import { CaseRegisterDto, CaseSearchParams, hardDeleteCase, searchCases } from '@/lib/api/caseRegister';
+import { CASES_EXPORT_VIEW } from '@/lib/export';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import {
     AlertCircle,
     ArrowUpRight,
+    Download,
     Eye,
     FileText,
     Filter,
@@ -76,6 +80,9 @@ export default function CaseRegisterPage() {
   const [drawerCaseId, setDrawerCaseId] = useState<string | null>(null);
   const [escalateCaseId, setEscalateCaseId] = useState<string | null>(null);
 
+  // Hands open cases past their SLA to the default case manager, when switched on in settings.
+  useOverdueCaseAutoEscalation();
+
   const hardDeleteMutation = useMutation({
     mutationFn: (id: string) => hardDeleteCase(id),
     onSuccess: () => {
@@ -94,6 +101,7 @@ export default function CaseRegisterPage() {
   const [searchTerm, setSearchTerm] = useState('');
   const [vehicleRegTerm, setVehicleRegTerm] = useState('');
   const [showFilters, setShowFilters] = useState(false);
+  const [showExport, setShowExport] = useState(false);
 
   // Query hooks
   const { data: statistics, isLoading: isLoadingStats } = useCaseStatistics(filters.stationId);
@@ -272,6 +280,15 @@ export default function CaseRegisterPage() {
                     <RefreshCcw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
                     Refresh
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowExport(true)}
+                    disabled={!casesResult?.totalCount}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
                   {/* Cases are created through the weighing workflow (violations), not manually */}
                 </div>
               </div>
@@ -518,6 +535,16 @@ export default function CaseRegisterPage() {
           }}
         />
 
+        {/* Export (current page or all matching the filters) */}
+        <ExportDialog
+          open={showExport}
+          onOpenChange={setShowExport}
+          view={CASES_EXPORT_VIEW}
+          currentRows={casesResult?.items ?? []}
+          fetchPage={(pageNumber, pageSize) => searchCases({ ...filters, pageNumber, pageSize })}
+          totalCount={casesResult?.totalCount}
+        />
+
         {/* Escalation chooser (Escalate) */}
         {escalateCaseId && (
           <EscalateChooserModal
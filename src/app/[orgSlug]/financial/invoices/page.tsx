@@ -53,13 +53,15 @@ import {
     useUpdateInvoiceStatus,
     useVoidInvoice,
 } from '@/hooks/queries/useInvoiceQueries';
+import { ExportDialog } from '@/components/shared/ExportDialog';
 import { PdfPreviewDialog } from '@/components/shared/PdfPreviewDialog';
 import { useDocumentPreview } from '@/hooks/useDocumentPreview';
 import { useAuth, useHasPermission } from '@/hooks/useAuth';
 import { useCurrency } from '@/hooks/useCurrency';
 import { createPesaflowInvoice } from '@/lib/api/integration';
 import type { InvoiceDto, InvoiceSearchCriteria } from '@/lib/api/invoice';
-import { downloadInvoicePdf, hardDeleteInvoice } from '@/lib/api/invoice';
+import { downloadInvoicePdf, hardDeleteInvoice, searchInvoices } from '@/lib/api/invoice';
+import { INVOICES_EXPORT_VIEW } from '@/lib/export';
 import { useQueryClient } from '@tanstack/react-query';
 import {
     AlertCircle,
@@ -103,6 +105,7 @@ export default function InvoicesPage() {
   const [showTreasuryReconcile, setShowTreasuryReconcile] = useState(false);
   const [isGeneratingLink, setIsGeneratingLink] = useState(false);
   const [voidReason, setVoidReason] = useState('');
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   // Queries
   const { data: invoices, isLoading: isLoadingInvoices, refetch: refetchInvoices } = useInvoiceSearch(searchCriteria);
@@ -276,6 +279,10 @@ export default function InvoicesPage() {
                 {isCommercial ? 'Manage weighing invoices and payments' : 'Manage prosecution invoices, payments, and billing'}
               </p>
             </div>
+            <Button variant="outline" onClick={() => setShowExportDialog(true)} disabled={!invoices?.totalCount}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
           </div>
 
           {/* Statistics Cards */}
@@ -665,6 +672,16 @@ export default function InvoicesPage() {
             </SheetContent>
           </Sheet>
 
+          {/* Export Dialog */}
+          <ExportDialog
+            open={showExportDialog}
+            onOpenChange={setShowExportDialog}
+            view={INVOICES_EXPORT_VIEW}
+            currentRows={invoices?.items ?? []}
+            fetchPage={(pageNumber, pageSize) => searchInvoices({ ...searchCriteria, pageNumber, pageSize })}
+            totalCount={invoices?.totalCount}
+          />
+
           {/* Hard Delete Dialog (superuser only) */}
           <Dialog open={showHardDeleteDialog} onOpenChange={setShowHardDeleteDialog}>
             <DialogContent>
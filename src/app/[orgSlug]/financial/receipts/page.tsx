@@ -47,12 +47,14 @@ import {
     useReceiptStatistics,
     useVoidReceipt,
 } from '@/hooks/queries/useReceiptQueries';
+import { ExportDialog } from '@/components/shared/ExportDialog';
 import { PdfPreviewDialog } from '@/components/shared/PdfPreviewDialog';
 import { useDocumentPreview } from '@/hooks/useDocumentPreview';
 import { useAuth, useHasPermission } from '@/hooks/useAuth';
 import { useCurrency } from '@/hooks/useCurrency';
 import type { ReceiptDto, ReceiptSearchCriteria } from '@/lib/api/receipt';
-import { downloadReceiptPdf, hardDeleteReceipt } from '@/lib/api/receipt';
+import { downloadReceiptPdf, hardDeleteReceipt, searchReceipts } from '@/lib/api/receipt';
+import { RECEIPTS_EXPORT_VIEW } from '@/lib/export';
 import {
     AlertCircle,
     CreditCard,
@@ -85,6 +87,7 @@ export default function ReceiptsPage() {
   const [showVoidDialog, setShowVoidDialog] = useState(false);
   const [showHardDeleteDialog, setShowHardDeleteDialog] = useState(false);
   const [voidReason, setVoidReason] = useState('');
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   // Queries
   const { data: receipts, isLoading: isLoadingReceipts, refetch: refetchReceipts } = useReceiptSearch(searchCriteria);
@@ -223,6 +226,10 @@ export default function ReceiptsPage() {
                 View and manage payment receipts
               </p>
             </div>
+            <Button variant="outline" onClick={() => setShowExportDialog(true)} disabled={!receipts?.totalCount}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
           </div>
 
           {/* Statistics Cards */}
@@ -533,6 +540,16 @@ export default function ReceiptsPage() {
             </SheetContent>
           </Sheet>
 
+          {/* Export Dialog */}
+          <ExportDialog
+            open={showExportDialog}
+            onOpenChange={setShowExportDialog}
+            view={RECEIPTS_EXPORT_VIEW}
+            currentRows={receipts?.items ?? []}
+            fetchPage={(pageNumber, pageSize) => searchReceipts({ ...searchCriteria, pageNumber, pageSize })}
+            totalCount={receipts?.totalCount}
+          />
+
           {/* Hard Delete Dialog (superuser only) */}
           <Dialog open={showHardDeleteDialog} onOpenChange={setShowHardDeleteDialog}>
             <DialogContent>
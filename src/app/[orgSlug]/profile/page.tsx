@@ -10,6 +10,7 @@ import { TwoFactorCodeInput } from '@/components/auth/TwoFactorCodeInput';
 import { AppShell } from '@/components/layout/AppShell';
 import { OfflineSyncPanel } from '@/components/offline/OfflineSyncPanel';
 import { OfflinePinSettings } from '@/components/offline/OfflinePinSettings';
+import { LanguageSelect } from '@/components/shared/LanguageSelect';
 import { Avatar } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -23,13 +24,73 @@ import {
     useEnable2FA,
     useGenerate2FASetup,
 } from '@/hooks/queries/useTwoFactorQueries';
+import { useTranslation } from '@/contexts/LocaleContext';
 import { useUser } from '@/hooks/useAuth';
 import { changePassword } from '@/lib/auth/api';
+import { buildMissingKeyReport, getCatalogCoverage, SUPPORTED_LOCALES } from '@/lib/i18n';
+import { exportToCSV } from '@/lib/utils/export';
 import { useAuthStore } from '@/stores/auth.store';
-import { AlertTriangle, Building, Calendar, CheckCircle2, KeyRound, Loader2, Mail, Phone, Shield, ShieldCheck, Smartphone, User } from 'lucide-react';
+import { AlertTriangle, Building, Calendar, CheckCircle2, Download, KeyRound, Languages, Loader2, Mail, Phone, Shield, ShieldCheck, Smartphone, User } from 'lucide-react';
 import { useState } from 'react';
 import { toast } from 'sonner';
 
+function LanguageCard() {
+  const { t } = useTranslation();
+
+  const handleDownloadReport = () => {
+    const rows = buildMissingKeyReport();
+    if (rows.length === 0) {
+      toast.success(t('language.reportEmpty'));
+      return;
+    }
+    exportToCSV(
+      rows.map((r) => ({ ...r })),
+      [
+        { header: 'Locale', accessor: 'locale' },
+        { header: 'Key', accessor: 'key' },
+        { header: 'English', accessor: 'english' },
+        { header: 'Fallbacks this session', accessor: 'hits' },
+      ],
+      'truload_missing_translations'
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Languages className="h-5 w-5" />
+          {t('language.title')}
+        </CardTitle>
+        <CardDescription>{t('language.description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="language">{t('language.label')}</Label>
+          <LanguageSelect id="language" />
+        </div>
+        <div className="flex flex-col gap-3 rounded-lg border border-gray-200 p-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <p className="text-sm font-medium">{t('language.reportTitle')}</p>
+            <p className="text-xs text-gray-500">{t('language.reportDescription')}</p>
+            <div className="mt-2 flex flex-wrap gap-1.5">
+              {SUPPORTED_LOCALES.filter((l) => l.code !== 'en').map((l) => (
+                <Badge key={l.code} variant="outline" className="text-xs">
+                  {l.nativeName}: {Math.round(getCatalogCoverage(l.code) * 100)}%
+                </Badge>
+              ))}
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleDownloadReport} className="shrink-0">
+            <Download className="mr-2 h-4 w-4" />
+            {t('language.reportDownload')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function ChangePasswordCard() {
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -468,6 +529,7 @@ export default function ProfilePage() {
                 </div>
               </CardContent>
             </Card>
+            <LanguageCard />
           </TabsContent>
 
           <TabsContent value="security" className="space-y-6 pt-4">
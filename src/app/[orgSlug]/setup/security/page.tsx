@@ -38,6 +38,7 @@ import { Controller, useForm } from 'react-hook-form';
 import { toast } from 'sonner';
 import { BackupSettingsForm } from '@/components/settings/BackupSettingsForm';
 import { BackupDestinationForm } from '@/components/settings/BackupDestinationForm';
+import { OfflineActivityLog } from '@/components/offline/OfflineActivityLog';
 
 interface PasswordPolicyForm {
   minLength: number;
@@ -714,6 +715,8 @@ export default function SecurityPage() {
                   </div>
                 )}
               </Card>
+
+              <OfflineActivityLog formatTimestamp={formatTimestamp} />
             </TabsContent>
 
             {/* Shift Settings Tab */}
@@ -3,6 +3,7 @@
 import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
 import { AppShell } from '@/components/layout/AppShell';
 import { CalibrationConfigTab } from '@/components/settings/CalibrationConfigTab';
+import { CalibrationDriftTab } from '@/components/weighing/CalibrationDriftTab';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -31,6 +32,7 @@ import {
     Scale,
     Server,
     Signal,
+    TrendingUp,
     Wifi,
     WifiOff,
     XCircle,
@@ -207,7 +209,7 @@ function TechnicalContent() {
 
       {/* Tabs (Calibration moved from Integrations to Technical per Section 19) */}
       <Tabs defaultValue={isPlatformUser ? "services" : "scale-test"} className="space-y-6">
-        <TabsList className={`grid w-full ${isPlatformUser ? 'grid-cols-4' : 'grid-cols-2'}`}>
+        <TabsList className={`grid w-full ${isPlatformUser ? 'grid-cols-5' : 'grid-cols-3'}`}>
           {/* Services — platform users only */}
           {isPlatformUser && (
             <TabsTrigger value="services" className="flex items-center gap-2">
@@ -223,6 +225,10 @@ function TechnicalContent() {
             <Scale className="h-4 w-4" />
             <span className="hidden sm:inline">Calibration</span>
           </TabsTrigger>
+          <TabsTrigger value="drift" className="flex items-center gap-2">
+            <TrendingUp className="h-4 w-4" />
+            <span className="hidden sm:inline">Drift</span>
+          </TabsTrigger>
           {/* Network — platform users only */}
           {isPlatformUser && (
             <TabsTrigger value="network" className="flex items-center gap-2">
@@ -436,6 +442,11 @@ function TechnicalContent() {
           <CalibrationConfigTab canEdit={canEdit} />
         </TabsContent>
 
+        {/* Calibration drift analytics (scale test deviation trends) */}
+        <TabsContent value="drift" className="space-y-6">
+          <CalibrationDriftTab />
+        </TabsContent>
+
         {/* Network Tab — platform users only */}
         {isPlatformUser && <TabsContent value="network" className="space-y-6">
           <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
@@ -0,0 +1,433 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { AppShell } from '@/components/layout/AppShell';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ContractProgressBar } from '@/components/weighing/CommercialContractPanel';
+import { CommercialContractModal, type ModalMode } from '@/components/weighing/modals';
+import {
+  useCloseCommercialContract,
+  useCommercialContractDeliveries,
+  useCommercialContracts,
+  useCreateCommercialContract,
+  useUpdateCommercialContract,
+} from '@/hooks/queries';
+import { useHasPermission } from '@/hooks/useAuth';
+import { downloadAndSavePdf, getCommercialContractStatementPdf } from '@/lib/api/weighing';
+import { getContractProgress } from '@/lib/commercial-contracts';
+import { formatWeight } from '@/lib/weighing-utils';
+import type { CommercialContract, CommercialContractRequest, CommercialContractStatus } from '@/types/weighing';
+import { CheckCircle2, FileDown, FileSignature, Lock, Pencil, Plus, Search, Truck } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+function formatDate(iso?: string) {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleDateString('en-KE', { day: '2-digit', month: 'short', year: 'numeric' });
+}
+
+function formatDateTime(iso?: string) {
+  if (!iso) return '—';
+  return new Date(iso).toLocaleString('en-KE', {
+    day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit',
+  });
+}
+
+function formatMoney(amount: number, currency: string) {
+  return `${currency} ${amount.toLocaleString('en-KE', { maximumFractionDigits: 2 })}`;
+}
+
+async function downloadStatement(contract: CommercialContract) {
+  try {
+    await downloadAndSavePdf(
+      () => getCommercialContractStatementPdf(contract.id),
+      `ContractStatement_${contract.contractNo}.pdf`
+    );
+  } catch {
+    toast.error('Failed to generate contract statement');
+  }
+}
+
+// ─── Contract Detail Dialog ───────────────────────────────────────────────────
+
+interface ContractDetailDialogProps {
+  contract: CommercialContract | null;
+  open: boolean;
+  onClose: () => void;
+}
+
+function ContractDetailDialog({ contract, open, onClose }: ContractDetailDialogProps) {
+  const { data: deliveries, isLoading } = useCommercialContractDeliveries(open ? contract?.id : undefined);
+  if (!contract) return null;
+  const progress = getContractProgress(contract);
+  const flagged = deliveries?.filter((d) => d.overDelivery).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !v && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contract {contract.contractNo}</DialogTitle>
+          <DialogDescription>
+            {contract.customerName}
+            {contract.cargoType && ` · ${contract.cargoType}`}
+            {contract.transporterName && ` · ${contract.transporterName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+          <div>
+            <p className="text-xs text-muted-foreground">Delivered</p>
+            <p className="font-semibold">{formatWeight(progress.deliveredKg)} kg</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Remaining</p>
+            <p className="font-semibold">{formatWeight(progress.remainingKg)} kg</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Trips</p>
+            <p className="font-semibold">{contract.tripCount}</p>
+          </div>
+          <div>
+            <p className="text-xs text-muted-foreground">Value delivered</p>
+            <p className="font-semibold">{formatMoney(progress.value, contract.currency)}</p>
+          </div>
+        </div>
+        <ContractProgressBar contract={contract} />
+        {flagged > 0 && (
+          <p className="text-xs text-amber-700">{flagged} trip(s) flagged as over-delivery.</p>
+        )}
+
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ticket</TableHead>
+                <TableHead>Vehicle</TableHead>
+                <TableHead>Weighed</TableHead>
+                <TableHead className="text-right">Net (kg)</TableHead>
+                <TableHead className="text-right">Cumulative (kg)</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading && Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  {Array.from({ length: 5 }).map((__, j) => (
+                    <TableCell key={j}><Skeleton className="h-4 w-full" /></TableCell>
+                  ))}
+                </TableRow>
+              ))}
+              {!isLoading && (!deliveries || deliveries.length === 0) && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">No deliveries yet.</TableCell>
+                </TableRow>
+              )}
+              {deliveries?.map((d) => (
+                <TableRow key={d.transactionId}>
+                  <TableCell className="font-mono text-sm">
+                    {d.ticketNumber}
+                    {d.overDelivery && (
+                      <Badge className="ml-2 bg-amber-100 text-amber-800 hover:bg-amber-100">Over</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="font-mono text-sm">{d.vehicleRegNo}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{formatDateTime(d.weighedAt)}</TableCell>
+                  <TableCell className="text-right">{formatWeight(d.netWeightKg)}</TableCell>
+                  <TableCell className="text-right font-medium">{formatWeight(d.cumulativeKg)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => downloadStatement(contract)}>
+            <FileDown className="h-4 w-4 mr-1" />
+            Statement
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// ─── Main Page ────────────────────────────────────────────────────────────────
+
+export default function CommercialContractsPage() {
+  const canEdit = useHasPermission('weighing.create');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+  const [status, setStatus] = useState<CommercialContractStatus | 'all'>('open');
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => setDebouncedSearch(search), 300);
+    return () => { if (debounceRef.current) clearTimeout(debounceRef.current); };
+  }, [search]);
+
+  const { data: contracts = [], isLoading } = useCommercialContracts({
+    status: status === 'all' ? undefined : status,
+    search: debouncedSearch || undefined,
+  });
+  const createContract = useCreateCommercialContract();
+  const updateContract = useUpdateCommercialContract();
+  const closeContract = useCloseCommercialContract();
+
+  const [modal, setModal] = useState<{ mode: ModalMode; contract: CommercialContract | null } | null>(null);
+  const [detailTarget, setDetailTarget] = useState<CommercialContract | null>(null);
+  const [closeTarget, setCloseTarget] = useState<CommercialContract | null>(null);
+
+  const handleSave = async (payload: CommercialContractRequest) => {
+    try {
+      if (modal?.mode === 'edit' && modal.contract) {
+        await updateContract.mutateAsync({ id: modal.contract.id, payload });
+        toast.success(`Contract ${payload.contractNo} updated`);
+      } else {
+        await createContract.mutateAsync(payload);
+        toast.success(`Contract ${payload.contractNo} created`);
+      }
+      setModal(null);
+    } catch {
+      toast.error('Failed to save contract');
+    }
+  };
+
+  const handleClose = () => {
+    if (!closeTarget) return;
+    closeContract.mutate(closeTarget.id, {
+      onSuccess: async (closed) => {
+        toast.success(`Contract ${closed.contractNo} closed`);
+        setCloseTarget(null);
+        await downloadStatement(closed);
+      },
+      onError: () => toast.error('Failed to close contract'),
+    });
+  };
+
+  const open = contracts.filter((c) => c.status === 'open');
+  const stats = [
+    { label: 'Open Contracts', value: open.length, icon: FileSignature, color: 'text-blue-600', bg: 'bg-blue-50' },
+    {
+      label: 'Remaining on Open (t)',
+      value: (open.reduce((sum, c) => sum + getContractProgress(c).remainingKg, 0) / 1000).toLocaleString('en-KE', { maximumFractionDigits: 1 }),
+      icon: Truck,
+      color: 'text-amber-600',
+      bg: 'bg-amber-50',
+    },
+    {
+      label: 'Target Reached',
+      value: open.filter((c) => c.deliveredKg >= c.targetQuantityKg).length,
+      icon: CheckCircle2,
+      color: 'text-green-600',
+      bg: 'bg-green-50',
+    },
+  ];
+
+  return (
+    <AppShell title="Contracts" subtitle="Orders delivered over many trips">
+      <ProtectedRoute requiredPermissions={['weighing.read']} moduleKey="commercial_contracts">
+        <div className="space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Contracts</h1>
+              <p className="text-sm text-muted-foreground">
+                Track delivered quantities against customer orders. Weighings are attached to a contract on the capture step.
+              </p>
+            </div>
+            {canEdit && (
+              <Button onClick={() => setModal({ mode: 'create', contract: null })}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Contract
+              </Button>
+            )}
+          </div>
+
+          {/* Stats */}
+          <div className="grid grid-cols-3 gap-4">
+            {stats.map((stat) => (
+              <Card key={stat.label}>
+                <CardContent className="pt-6">
+                  <div className="flex items-center gap-3">
+                    <div className={`rounded-full p-2 ${stat.bg}`}>
+                      <stat.icon className={`h-5 w-5 ${stat.color}`} />
+                    </div>
+                    <div>
+                      <p className="text-2xl font-bold">{stat.value}</p>
+                      <p className="text-xs text-muted-foreground">{stat.label}</p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Table Card */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="relative flex-1 min-w-[180px] max-w-xs">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    className="pl-9"
+                    placeholder="Search by contract, customer…"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                </div>
+                <Select value={status} onValueChange={(v) => setStatus(v as CommercialContractStatus | 'all')}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="open">Open</SelectItem>
+                    <SelectItem value="closed">Closed</SelectItem>
+                    <SelectItem value="all">All</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Contract</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Cargo</TableHead>
+                    <TableHead className="min-w-[220px]">Delivered</TableHead>
+                    <TableHead className="text-right">Trips</TableHead>
+                    <TableHead className="text-right">Price / t</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading && Array.from({ length: 6 }).map((_, i) => (
+                    <TableRow key={i}>
+                      {Array.from({ length: 8 }).map((__, j) => (
+                        <TableCell key={j}><Skeleton className="h-4 w-full" /></TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  {!isLoading && contracts.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center py-10 text-muted-foreground">
+                        No contracts found.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {!isLoading && contracts.map((contract) => (
+                    <TableRow key={contract.id} className="cursor-pointer" onClick={() => setDetailTarget(contract)}>
+                      <TableCell className="font-mono font-semibold">{contract.contractNo}</TableCell>
+                      <TableCell className="text-sm">{contract.customerName}</TableCell>
+                      <TableCell className="text-sm">{contract.cargoType ?? '—'}</TableCell>
+                      <TableCell>
+                        <ContractProgressBar contract={contract} />
+                      </TableCell>
+                      <TableCell className="text-right">{contract.tripCount}</TableCell>
+                      <TableCell className="text-right text-sm">{formatMoney(contract.pricePerTonne, contract.currency)}</TableCell>
+                      <TableCell>
+                        {contract.status === 'open' ? (
+                          <Badge variant="default">Open</Badge>
+                        ) : (
+                          <Badge variant="outline" title={`Closed ${formatDate(contract.closedAt)}`}>Closed</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
+                        <div className="flex items-center justify-end gap-2">
+                          {contract.status === 'open' && canEdit ? (
+                            <>
+                              <Button size="sm" variant="outline" onClick={() => setModal({ mode: 'edit', contract })}>
+                                <Pencil className="h-3.5 w-3.5 mr-1" />
+                                Edit
+                              </Button>
+                              <Button size="sm" onClick={() => setCloseTarget(contract)}>
+                                <Lock className="h-3.5 w-3.5 mr-1" />
+                                Close
+                              </Button>
+                            </>
+                          ) : (
+                            <Button size="sm" variant="outline" onClick={() => downloadStatement(contract)}>
+                              <FileDown className="h-3.5 w-3.5 mr-1" />
+                              Statement
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </div>
+
+        <CommercialContractModal
+          open={!!modal}
+          onOpenChange={(v) => !v && setModal(null)}
+          mode={modal?.mode ?? 'create'}
+          contract={modal?.contract}
+          onSave={handleSave}
+          isSaving={createContract.isPending || updateContract.isPending}
+        />
+        <ContractDetailDialog
+          contract={detailTarget}
+          open={!!detailTarget}
+          onClose={() => setDetailTarget(null)}
+        />
+        <AlertDialog open={!!closeTarget} onOpenChange={(v) => !v && setCloseTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Close contract {closeTarget?.contractNo}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {closeTarget && (
+                  <>
+                    {formatWeight(closeTarget.deliveredKg)} kg delivered of {formatWeight(closeTarget.targetQuantityKg)} kg
+                    over {closeTarget.tripCount} trip(s). No further weighings can be attached once closed. The contract
+                    statement will be downloaded.
+                  </>
+                )}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleClose} disabled={closeContract.isPending}>
+                {closeContract.isPending ? 'Closing…' : 'Close & Generate Statement'}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </ProtectedRoute>
+    </AppShell>
+  );
+}
@@ -0,0 +1,621 @@
+"use client";
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { AppShell } from '@/components/layout/AppShell';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCreateWeighingTransaction, useMyStation, usePermitByNo } from '@/hooks/queries';
+import { useMiddleware } from '@/hooks/useMiddleware';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useWeightStability } from '@/hooks/useWeightStability';
+import {
+  captureWeights,
+  downloadAndSavePdf,
+  downloadConvoyTicketPdf,
+  saveConvoySegments,
+  type AxleConfiguration,
+  type WeighingResult,
+  type WeighingTransaction,
+} from '@/lib/api/weighing';
+import {
+  CONVOY_SEGMENT_KIND_LABELS,
+  evaluateConvoy,
+  MAX_CONVOY_SEGMENTS,
+  nextConvoyCapture,
+  type ConvoySegment,
+  type ConvoySegmentKind,
+} from '@/lib/convoy-weighing';
+import { formatWeight } from '@/lib/formatters';
+import type { ToleranceSettingRef } from '@/lib/offline/compliance';
+import { clearConvoyProgress, getActiveConvoyProgress, saveConvoyProgress } from '@/lib/offline/convoyProgress';
+import { cacheComplianceReferenceData, getCachedAxleConfigs, getCachedTolerances } from '@/lib/offline/referenceCache';
+import { cn } from '@/lib/utils';
+import {
+  AlertTriangle,
+  CheckCircle2,
+  FileText,
+  Link2,
+  Loader2,
+  Plus,
+  Printer,
+  Scale,
+  Trash2,
+  Wifi,
+  WifiOff,
+  XCircle,
+} from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+const kg = (n: number) => formatWeight(n, { unit: true });
+
+type Phase = 'plan' | 'capture' | 'review' | 'done';
+
+const segmentName = (s: Pick<ConvoySegment, 'kind' | 'regNo'>, i: number) =>
+  `${i + 1}. ${CONVOY_SEGMENT_KIND_LABELS[s.kind]}${s.regNo ? ` · ${s.regNo}` : ''}`;
+
+/**
+ * Convoy Weighing Page
+ *
+ * Weighs a combination — prime mover plus dollies / trailers — one segment after another on the
+ * mobile scale, each against its own axle configuration, and checks the joined configuration
+ * against the special permit (see lib/convoy-weighing). The whole combination is one weighing
+ * transaction with one ticket; the ticket lists every segment.
+ */
+export default function ConvoyWeighingPage() {
+  const isOnline = useOnlineStatus();
+  const { data: currentStation } = useMyStation();
+  const createTransaction = useCreateWeighingTransaction();
+  const stability = useWeightStability(currentStation?.code);
+
+  // Reference data comes from the offline cache so the combination can be checked while offline
+  const [configs, setConfigs] = useState<AxleConfiguration[]>([]);
+  const [tolerances, setTolerances] = useState<Record<string, ToleranceSettingRef[]>>({});
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      if (isOnline) await cacheComplianceReferenceData();
+      const cached = ((await getCachedAxleConfigs()) ?? []).filter((c) => c.isActive !== false && (c.weightReferences?.length ?? 0) > 0);
+      const byFramework: Record<string, ToleranceSettingRef[]> = {};
+      for (const fw of new Set(cached.map((c) => c.legalFramework || 'TRAFFIC_ACT'))) {
+        byFramework[fw] = ((await getCachedTolerances(fw)) ?? []) as ToleranceSettingRef[];
+      }
+      if (!cancelled) {
+        setConfigs(cached.sort((a, b) => a.axleNumber - b.axleNumber || a.axleCode.localeCompare(b.axleCode)));
+        setTolerances(byFramework);
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [isOnline]);
+
+  // Permit
+  const [permitNo, setPermitNo] = useState('');
+  const [permitLookup, setPermitLookup] = useState<string>();
+  const { data: permit, isFetching: isFetchingPermit } = usePermitByNo(permitLookup);
+
+  // Segments
+  const [phase, setPhase] = useState<Phase>('plan');
+  const [segments, setSegments] = useState<ConvoySegment[]>([]);
+  const [newKind, setNewKind] = useState<ConvoySegmentKind>('prime-mover');
+  const [newRegNo, setNewRegNo] = useState('');
+  const [newConfigId, setNewConfigId] = useState<string>();
+  const [newCoupled, setNewCoupled] = useState(false);
+
+  useEffect(() => {
+    if (permit && segments.length === 0 && !newRegNo) setNewRegNo(permit.vehicleRegNo);
+  }, [permit, segments.length, newRegNo]);
+
+  const handleAddSegment = () => {
+    const config = configs.find((c) => c.id === newConfigId);
+    if (!config) return;
+    setSegments((prev) => [
+      ...prev,
+      {
+        kind: newKind,
+        regNo: newRegNo.trim().toUpperCase() || undefined,
+        axleConfig: config,
+        coupled: prev.length > 0 && newCoupled,
+        axleWeightsKg: [],
+      },
+    ]);
+    setNewKind(segments.length === 0 ? 'trailer' : newKind);
+    setNewRegNo('');
+    setNewConfigId(undefined);
+  };
+
+  // Capture
+  const [transaction, setTransaction] = useState<WeighingTransaction | null>(null);
+  const [liveWeight, setLiveWeight] = useState(0);
+  const middleware = useMiddleware({
+    stationCode: currentStation?.code || '',
+    mode: 'mobile',
+    onWeightUpdate: (weight) => {
+      if (weight.mode === 'mobile') {
+        setLiveWeight(weight.weight || 0);
+        stability.push(weight.weight || 0);
+      }
+    },
+  });
+  const step = nextConvoyCapture(segments);
+  const primeMoverReg = segments[0]?.regNo;
+
+  // Pick up a convoy left mid-capture by a reload or a closed tab, so its transaction isn't orphaned
+  const stationId = currentStation?.id;
+  useEffect(() => {
+    if (!stationId) return;
+    let cancelled = false;
+    getActiveConvoyProgress(stationId)
+      .then((saved) => {
+        if (cancelled || !saved) return;
+        setTransaction(saved.transaction);
+        setSegments(saved.segments);
+        if (saved.permitNo) {
+          setPermitNo(saved.permitNo);
+          setPermitLookup(saved.permitNo);
+        }
+        setPhase(saved.phase);
+        toast.info(`Resumed convoy ${saved.transaction.ticketNumber}`, {
+          description: `${saved.segments.length} segment(s) for ${saved.transaction.vehicleRegNumber}.`,
+        });
+      })
+      .catch(() => { /* nothing to resume */ });
+    return () => { cancelled = true; };
+  }, [stationId]);
+
+  useEffect(() => {
+    if (!stationId || !transaction || (phase !== 'capture' && phase !== 'review')) return;
+    saveConvoyProgress(stationId, { transaction, segments, permitNo: permitLookup, phase }).catch(() => {
+      toast.warning('Could not save convoy progress on this device.', { id: 'convoy-progress' });
+    });
+  }, [stationId, transaction, segments, permitLookup, phase]);
+
+  const handleStart = async () => {
+    if (!currentStation?.id || !primeMoverReg) return;
+    try {
+      const created = await createTransaction.mutateAsync({
+        stationId: currentStation.id,
+        vehicleRegNo: primeMoverReg,
+        weighingType: 'mobile',
+      });
+      setTransaction(created);
+      middleware.resetSession();
+      stability.reset();
+      setPhase('capture');
+    } catch {
+      toast.error('Failed to start the convoy weighing');
+    }
+  };
+
+  const handleCapture = () => {
+    if (!step) return;
+    if (liveWeight <= 0) {
+      toast.error('No weight reading from scale. Check scale connection.');
+      return;
+    }
+    const segment = segments[step.segmentIndex];
+    if (!stability.state.settled) {
+      stability.rejectCapture({
+        target: `Segment ${step.segmentIndex + 1} axle ${step.segmentAxleNumber}`,
+        transactionId: transaction?.id,
+        vehiclePlate: segment.regNo ?? primeMoverReg ?? '',
+      });
+      toast.warning('Weight is still settling.');
+      return;
+    }
+
+    middleware.captureAxle(step.passAxleNumber, liveWeight, segment.axleConfig.id);
+    const updated = segments.map((s, i) =>
+      i === step.segmentIndex ? { ...s, axleWeightsKg: [...s.axleWeightsKg, liveWeight] } : s,
+    );
+    setSegments(updated);
+    setTimeout(() => setLiveWeight(0), 500);
+
+    const next = nextConvoyCapture(updated);
+    if (!next) {
+      setPhase('review');
+    } else if (next.startsPass) {
+      // The next unit is weighed on its own: the middleware starts counting axles again
+      middleware.resetSession();
+      stability.reset();
+      toast.info(`Segment ${step.segmentIndex + 1} complete`, {
+        description: `Bring ${segmentName(updated[next.segmentIndex], next.segmentIndex)} onto the scale.`,
+      });
+    }
+  };
+
+  // Review
+  const complete = segments.length > 0 && !step;
+  const evaluation = useMemo(() => {
+    if (!complete) return null;
+    const framework = segments[0].axleConfig.legalFramework || 'TRAFFIC_ACT';
+    return evaluateConvoy(segments, {
+      permit: permitLookup ? permit : null,
+      toleranceSettings: tolerances[framework] ?? [],
+    });
+  }, [complete, segments, permit, permitLookup, tolerances]);
+
+  const [result, setResult] = useState<WeighingResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    if (!transaction || !evaluation) return;
+    setIsSubmitting(true);
+    try {
+      await saveConvoySegments(transaction.id, {
+        permitNo: permit?.permitNo,
+        combinedAxleCode: evaluation.joined.configCode,
+        segments: evaluation.segments.map((s) => ({
+          sequence: s.segmentIndex + 1,
+          kind: s.kind,
+          regNo: s.regNo,
+          axleConfigurationId: segments[s.segmentIndex].axleConfig.id,
+          axleCode: s.axleCode,
+          firstAxleNumber: s.firstAxleNumber,
+          axleCount: s.lastAxleNumber - s.firstAxleNumber + 1,
+          measuredWeightKg: s.weightKg,
+          coupled: segments[s.segmentIndex].coupled,
+        })),
+      });
+      const weighed = await captureWeights(transaction.id, {
+        axles: evaluation.joined.axles.map((a) => ({
+          axleNumber: a.axleNumber,
+          measuredWeightKg: a.measuredWeightKg,
+          axleConfigurationId: a.axleConfigurationId,
+        })),
+      });
+      middleware.completeVehicle({
+        transactionId: transaction.id,
+        totalAxles: evaluation.joined.axles.length,
+        axleWeights: evaluation.joined.axles.map((a) => a.measuredWeightKg),
+        gvw: evaluation.compliance.gvwMeasuredKg,
+        axleConfigurationCode: evaluation.joined.configCode,
+      });
+      if (stationId) clearConvoyProgress(stationId, transaction.id).catch(() => {});
+      setResult(weighed);
+      setPhase('done');
+      toast.success(`Convoy weighed — ticket ${weighed.ticketNumber}`);
+    } catch {
+      toast.error('Failed to submit the convoy weighing');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePrintTicket = async () => {
+    if (!transaction) return;
+    try {
+      const blob = await downloadConvoyTicketPdf(transaction.id);
+      const printWindow = window.open(window.URL.createObjectURL(blob), '_blank');
+      if (printWindow) printWindow.focus();
+      else await downloadAndSavePdf(() => Promise.resolve(blob), `ConvoyTicket_${result?.ticketNumber ?? transaction.ticketNumber}.pdf`);
+    } catch {
+      toast.error('Failed to generate the convoy ticket');
+    }
+  };
+
+  const handleNew = () => {
+    middleware.resetSession();
+    stability.reset();
+    setSegments([]);
+    setTransaction(null);
+    setResult(null);
+    setPermitNo('');
+    setPermitLookup(undefined);
+    setNewKind('prime-mover');
+    setPhase('plan');
+  };
+
+  const status = result ? result.overallStatus : evaluation?.compliance.overallStatus;
+
+  return (
+    <AppShell title="Convoy Weighing" subtitle="Combinations and abnormal loads under a special permit">
+      <ProtectedRoute requiredPermissions={['weighing.create']}>
+        <div className="space-y-4">
+          {/* Scale */}
+          <Card>
+            <CardContent className="flex flex-wrap items-center justify-between gap-4 py-4">
+              <div className="flex items-center gap-3">
+                {middleware.connected ? <Wifi className="h-5 w-5 text-green-600" /> : <WifiOff className="h-5 w-5 text-red-500" />}
+                <div>
+                  <p className="text-sm font-semibold">{middleware.connected ? 'Scale connected' : 'Scale disconnected'}</p>
+                  <p className="text-xs text-gray-500">{currentStation?.name ?? 'No station'}</p>
+                </div>
+              </div>
+              <div className="text-right">
+                <p className="text-xs text-gray-500">Live axle weight</p>
+                <p className={cn('font-mono text-2xl font-bold', stability.state.settled ? 'text-gray-900' : 'text-amber-600')}>
+                  {kg(liveWeight)}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 gap-4 lg:grid-cols-2">
+            {/* Plan */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Combination</CardTitle>
+                <CardDescription>Permit and the units in the order they cross the scale.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-1.5">
+                  <Label htmlFor="convoy-permit">Special permit no.</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="convoy-permit"
+                      value={permitNo}
+                      onChange={(e) => setPermitNo(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === 'Enter' && setPermitLookup(permitNo.trim() || undefined)}
+                      disabled={phase !== 'plan'}
+                      className="font-mono"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => setPermitLookup(permitNo.trim() || undefined)}
+                      disabled={phase !== 'plan' || permitNo.trim().length < 3}
+                    >
+                      {isFetchingPermit ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Look up'}
+                    </Button>
+                  </div>
+                  {permitLookup && !isFetchingPermit && (
+                    permit ? (
+                      <p className="text-xs text-gray-600">
+                        {permit.permitTypeName} · {permit.vehicleRegNo} · valid {permit.validFrom.slice(0, 10)} – {permit.validTo.slice(0, 10)}
+                        {' · '}+{kg(permit.axleExtensionKg ?? 0)} per group, +{kg(permit.gvwExtensionKg ?? 0)} GVW
+                      </p>
+                    ) : (
+                      <p className="text-xs text-red-600">Permit {permitLookup} not found</p>
+                    )
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {segments.map((s, i) => (
+                    <div key={i} className="flex items-center justify-between rounded border border-gray-200 px-3 py-2 text-sm">
+                      <div className="flex items-center gap-2">
+                        {s.coupled && <Link2 className="h-3.5 w-3.5 text-gray-400" />}
+                        <span className="font-medium">{segmentName(s, i)}</span>
+                        <Badge variant="outline" className="font-mono">{s.axleConfig.axleCode}</Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500">
+                        {s.axleWeightsKg.length}/{s.axleConfig.axleNumber} axles
+                        {phase === 'plan' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setSegments((prev) => prev.filter((_, j) => j !== i))}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {phase === 'plan' && segments.length < MAX_CONVOY_SEGMENTS && (
+                  <div className="space-y-3 rounded border border-dashed border-gray-300 p-3">
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="space-y-1.5">
+                        <Label>Unit</Label>
+                        <Select value={newKind} onValueChange={(v) => setNewKind(v as ConvoySegmentKind)}>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(CONVOY_SEGMENT_KIND_LABELS) as ConvoySegmentKind[]).map((k) => (
+                              <SelectItem key={k} value={k}>{CONVOY_SEGMENT_KIND_LABELS[k]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1.5">
+                        <Label htmlFor="convoy-reg">Registration no.{segments.length === 0 && ' *'}</Label>
+                        <Input
+                          id="convoy-reg"
+                          value={newRegNo}
+                          onChange={(e) => setNewRegNo(e.target.value.toUpperCase())}
+                          className="font-mono"
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-1.5">
+                      <Label>Axle configuration</Label>
+                      <Select value={newConfigId ?? ''} onValueChange={setNewConfigId}>
+                        <SelectTrigger><SelectValue placeholder={configs.length ? 'Select configuration' : 'No cached configurations'} /></SelectTrigger>
+                        <SelectContent>
+                          {configs.map((c) => (
+                            <SelectItem key={c.id} value={c.id}>
+                              {c.axleCode} — {c.axleName} ({c.axleNumber} axles, {kg(c.gvwPermissibleKg)})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {segments.length > 0 && (
+                      <div className="flex items-center gap-2">
+                        <Switch id="convoy-coupled" checked={newCoupled} onCheckedChange={setNewCoupled} />
+                        <Label htmlFor="convoy-coupled" className="text-sm font-normal">
+                          Coupled — crosses the scale in the same pass as the unit before
+                        </Label>
+                      </div>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleAddSegment}
+                      disabled={!newConfigId || (segments.length === 0 && !newRegNo.trim())}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Unit
+                    </Button>
+                  </div>
+                )}
+
+                {phase === 'plan' && (
+                  <Button
+                    className="w-full"
+                    onClick={handleStart}
+                    disabled={segments.length < 2 || !currentStation?.id || createTransaction.isPending}
+                  >
+                    {createTransaction.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Start Weighing ({segments.reduce((s, seg) => s + seg.axleConfig.axleNumber, 0)} axles)
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Capture / result */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {phase === 'review' || phase === 'done' ? 'Combination Check' : 'Capture'}
+                </CardTitle>
+                {transaction && (
+                  <CardDescription>Ticket {result?.ticketNumber ?? transaction.ticketNumber}</CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {phase === 'plan' && (
+                  <p className="text-sm text-gray-500">
+                    Add the prime mover and at least one more unit, then start. Each unit is weighed
+                    axle by axle against its own configuration.
+                  </p>
+                )}
+
+                {phase === 'capture' && step && (
+                  <>
+                    <div className="rounded-lg border border-blue-200 bg-blue-50 p-4 text-center">
+                      <p className="text-sm text-blue-700">{segmentName(segments[step.segmentIndex], step.segmentIndex)}</p>
+                      <p className="mt-1 text-2xl font-bold text-blue-900">
+                        Axle {step.segmentAxleNumber} of {segments[step.segmentIndex].axleConfig.axleNumber}
+                      </p>
+                      <p className="text-xs text-blue-600">Axle {step.axleNumber} of the combination</p>
+                    </div>
+                    <Button className="w-full" size="lg" onClick={handleCapture} disabled={liveWeight <= 0}>
+                      <Scale className="h-5 w-5 mr-2" />
+                      Capture {kg(liveWeight)}
+                    </Button>
+                    <Table>
+                      <TableBody>
+                        {segments[step.segmentIndex].axleWeightsKg.map((w, i) => (
+                          <TableRow key={i}>
+                            <TableCell>Axle {i + 1}</TableCell>
+                            <TableCell className="text-right font-mono">{kg(w)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+
+                {evaluation && (phase === 'review' || phase === 'done') && (
+                  <>
+                    <div
+                      className={cn(
+                        'flex items-start gap-2 rounded border p-3 text-sm',
+                        status === 'OVERLOAD' ? 'border-red-200 bg-red-50 text-red-800'
+                          : status === 'WARNING' ? 'border-yellow-200 bg-yellow-50 text-yellow-800'
+                            : 'border-green-200 bg-green-50 text-green-800',
+                      )}
+                    >
+                      {status === 'OVERLOAD' ? <XCircle className="h-4 w-4 mt-0.5" /> : <CheckCircle2 className="h-4 w-4 mt-0.5" />}
+                      <div>
+                        <p className="font-semibold">
+                          {evaluation.joined.configCode} · GVW {kg(result?.gvwMeasuredKg ?? evaluation.compliance.gvwMeasuredKg)}
+                          {' '}/ {kg(result?.gvwEffectiveLimitKg ?? evaluation.compliance.gvwEffectiveLimitKg)}
+                        </p>
+                        <p className="text-xs">
+                          {evaluation.permitApplied ? `Permit ${permit?.permitNo} limits applied` : 'Legal limits'}
+                          {!result && ' · provisional until submitted'}
+                        </p>
+                      </div>
+                    </div>
+
+                    {evaluation.permitIssues.map((issue) => (
+                      <div key={issue} className="flex items-start gap-2 text-xs text-amber-700">
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                        {issue}
+                      </div>
+                    ))}
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Unit</TableHead>
+                          <TableHead>Axles</TableHead>
+                          <TableHead className="text-right">Weight</TableHead>
+                          <TableHead>Over</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {evaluation.segments.map((s) => (
+                          <TableRow key={s.segmentIndex}>
+                            <TableCell className="text-sm">{segmentName(s, s.segmentIndex)}</TableCell>
+                            <TableCell className="font-mono text-xs">
+                              {s.axleCode} · {s.firstAxleNumber}–{s.lastAxleNumber}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{kg(s.weightKg)}</TableCell>
+                            <TableCell>
+                              {s.overloadedGroups.length > 0 ? (
+                                <Badge className="bg-red-100 text-red-700 hover:bg-red-100">{s.overloadedGroups.join(', ')}</Badge>
+                              ) : (
+                                <span className="text-xs text-gray-400">—</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Group</TableHead>
+                          <TableHead className="text-right">Measured</TableHead>
+                          <TableHead className="text-right">Limit</TableHead>
+                          <TableHead className="text-right">Overload</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {evaluation.compliance.groupResults.map((g) => (
+                          <TableRow key={g.groupLabel}>
+                            <TableCell className="font-mono">{g.groupLabel}</TableCell>
+                            <TableCell className="text-right font-mono">{kg(g.groupWeightKg)}</TableCell>
+                            <TableCell className="text-right font-mono">{kg(g.effectiveLimitKg)}</TableCell>
+                            <TableCell className={cn('text-right font-mono', g.overloadKg > 0 && 'text-red-600 font-semibold')}>
+                              {g.overloadKg > 0 ? kg(g.overloadKg) : '—'}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+
+                    {phase === 'review' ? (
+                      <Button className="w-full" onClick={handleSubmit} disabled={isSubmitting}>
+                        {isSubmitting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+                        Submit Weighing
+                      </Button>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button className="flex-1" onClick={handlePrintTicket}>
+                          <Printer className="h-4 w-4 mr-2" />
+                          Print Ticket
+                        </Button>
+                        <Button variant="outline" onClick={handleNew}>New Convoy</Button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </ProtectedRoute>
+    </AppShell>
+  );
+}
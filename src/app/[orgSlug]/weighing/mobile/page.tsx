@@ -12,6 +12,8 @@ import {
     CommercialWeighingStepper,
     DriverModal,
     OriginDestinationModal,
+    PlateReviewModal,
+    PreWeighRiskPanel,
     SCALE_TEST_SUCCESS_DESCRIPTION,
     SCALE_TEST_SUCCESS_MESSAGE,
     TransporterModal,
@@ -37,20 +39,25 @@ import {
     useMyStation,
     usePendingWeighings,
     useProsecutionDefaults,
+    useScaleDriftGate,
     useUpdateProsecutionDefaults,
     useUpdateVehicle,
     useVehicleByRegNo,
     useWeighingAxleConfigurations
 } from '@/hooks/queries';
 import { useToleranceSettings } from '@/hooks/queries/useActQueries';
+import { useAnprEvidence } from '@/hooks/useAnprEvidence';
 import { useHasPermission } from '@/hooks/useAuth';
 import { useGeolocation } from '@/hooks/useGeolocation';
 import { useMiddleware } from '@/hooks/useMiddleware';
 import { useOrgSlug } from '@/hooks/useOrgSlug';
+import { useQueueHandoff } from '@/hooks/useQueueHandoff';
 import { useWeighing } from '@/hooks/useWeighing';
 import { useWeighingUI } from '@/hooks/useWeighingUI';
+import { useWeightStability } from '@/hooks/useWeightStability';
 import { downloadAndSavePdf, downloadWeightTicketPdf, ScaleTest, UpdateWeighingRequest, WeighingTransaction } from '@/lib/api/weighing';
 import { createVehicleTag, createYardEntry, fetchTagCategories } from '@/lib/api/yard';
+import type { AxleMatchInput } from '@/lib/axle-config-matcher';
 import { calculateOverallStatus, validateRequiredFields } from '@/lib/weighing-utils';
 import { useModuleAccess } from '@/hooks/useModuleAccess';
 import {
@@ -249,6 +256,7 @@ export default function MobileWeighingPage() {
     transaction: weighingTransaction,
     complianceResult,
     reweighCycleNo,
+    maxReweighCycles,
     isWeightConfirmed,
     isLoading: isWeighingLoading,
     isUpdatingDetails,
@@ -277,7 +285,10 @@ export default function MobileWeighingPage() {
 
   // Derive captured state from hook or local state
   const capturedAxles = weighingSession?.capturedAxles.map(a => a.axleNumber) || [];
-  const capturedWeights = weighingSession?.capturedAxles.map(a => a.weightKg) || localCapturedWeights;
+  const capturedWeights = useMemo(
+    () => weighingSession?.capturedAxles.map(a => a.weightKg) || localCapturedWeights,
+    [weighingSession?.capturedAxles, localCapturedWeights],
+  );
   const currentAxle = hookCurrentAxle || localCurrentAxle;
   const setCurrentAxle = (axle: number) => {
     setHookCurrentAxle(axle);
@@ -286,6 +297,16 @@ export default function MobileWeighingPage() {
 
   const [autoAcquire, setAutoAcquire] = useState(false);
 
+  // Client-side stabilisation — capture is refused until the axle reading has settled
+  const stability = useWeightStability(currentStation?.code);
+
+  // Every ANPR / camera frame of this weighing, hashed; low-confidence reads need a plate review
+  const anprEvidence = useAnprEvidence({
+    stationCode: currentStation?.code,
+    bound: currentBound,
+    transactionId: weighingSession?.transactionId,
+  });
+
   // Middleware hook - handles WebSocket connection to local scale bridge
   const middleware = useMiddleware({
     stationCode: currentStation?.code || '',
@@ -294,6 +315,7 @@ export default function MobileWeighingPage() {
     onWeightUpdate: (weight) => {
       if (weight.mode === 'mobile') {
         setCurrentAxleWeight(weight.weight || 0);
+        stability.push(weight.weight || 0);
       }
       setIsSimulationMode(weight.simulation || false);
       if (weight.connection?.connected !== undefined) {
@@ -320,6 +342,15 @@ export default function MobileWeighingPage() {
         };
       }));
     },
+    onPlateDetected: (plate) => {
+      // Only reads for this bound, while a plate can still be taken
+      const plateBound = plate.bound === 'B' ? currentStation?.boundBCode || 'B' : currentStation?.boundACode || 'A';
+      if (currentStep !== 'capture' || isPlateDisabled || (plate.bound && plateBound !== currentBound)) return;
+      if (plate.anprImagePath) setFrontViewImage(plate.anprImagePath);
+      if (plate.overviewImagePath) setOverviewImage(plate.overviewImagePath);
+      const { needsReview } = anprEvidence.recordRead(plate);
+      if (!needsReview) setVehiclePlate(plate.plateNumber.toUpperCase());
+    },
     onConnectionModeChange: (mode) => {
       setMiddlewareConnected(mode !== 'disconnected');
     },
@@ -330,6 +361,15 @@ export default function MobileWeighingPage() {
     setMiddlewareConnected(middleware.connected);
   }, [middleware.connected]);
 
+  // Captured / uploaded front and overview images are kept as evidence too
+  const { recordFrame: recordEvidenceFrame } = anprEvidence;
+  useEffect(() => {
+    recordEvidenceFrame('front', frontViewImage);
+  }, [frontViewImage, recordEvidenceFrame]);
+  useEffect(() => {
+    recordEvidenceFrame('overview', overviewImage);
+  }, [overviewImage, recordEvidenceFrame]);
+
   // Weight confirmation modal state
   const [isCapturingWeight, setIsCapturingWeight] = useState(false);
 
@@ -396,6 +436,7 @@ export default function MobileWeighingPage() {
 
   // Scale test status from TanStack Query (same source as multideck; banner and message shared)
   const { data: scaleTestStatus } = useMyScaleTestStatus(currentBound);
+  const { gate: scaleDrift } = useScaleDriftGate(currentStation?.id, currentBound);
 
   // Set bound when station loads
   useEffect(() => {
@@ -453,6 +494,7 @@ export default function MobileWeighingPage() {
   const [trailerNo, setTrailerNo] = useState('');
   const [comment, setComment] = useState('');
   const [reliefVehicleReg, setReliefVehicleReg] = useState('');
+  const [isRiskInspectionPending, setIsRiskInspectionPending] = useState(false);
 
   // Auto-lookup vehicle by registration number (using debounced value)
   const { data: existingVehicle } = useVehicleByRegNo(debouncedPlate.length >= 5 ? debouncedPlate : undefined);
@@ -460,15 +502,35 @@ export default function MobileWeighingPage() {
   // Mutations
   const updateVehicleMutation = useUpdateVehicle();
 
+  // Queue handoff (?queueEntry=<id>): pre-fill plate, bound and check-in details from the queue board
+  const queueHandoff = useQueueHandoff({
+    stationId: currentStation?.id,
+    mode: 'mobile',
+    ready: axleConfigurations.length > 0,
+    onPrefill: (entry) => {
+      setVehiclePlate(entry.plateNumber);
+      if (currentStation?.supportsBidirectional) setCurrentBoundState(entry.bound);
+      if (entry.axleConfigCode && axleConfigurations.some(c => c.axleCode === entry.axleConfigCode)) {
+        setSelectedConfig(entry.axleConfigCode);
+        setAxleConfig(entry.axleConfigCode);
+      }
+      if (entry.driverId) setSelectedDriverId(entry.driverId);
+      if (entry.transporterId) setSelectedTransporterId(entry.transporterId);
+      if (entry.cargoId) setSelectedCargoId(entry.cargoId);
+      if (entry.trailerNo) setTrailerNo(entry.trailerNo);
+      if (entry.notes) setComment(entry.notes);
+    },
+  });
+
   // Update selected vehicle when lookup returns
   useEffect(() => {
     if (existingVehicle?.id) {
       setSelectedVehicleId(existingVehicle.id);
-      // Auto-populate fields from existing vehicle
-      if (existingVehicle.transporterId) {
+      // Auto-populate fields from existing vehicle; details recorded at a queue check-in take precedence
+      if (existingVehicle.transporterId && !queueHandoff.entry?.transporterId) {
         setSelectedTransporterId(existingVehicle.transporterId);
       }
-      if (existingVehicle.axleConfigurationId) {
+      if (existingVehicle.axleConfigurationId && !queueHandoff.entry?.axleConfigCode) {
         const config = axleConfigurations.find((c: any) => c.id === existingVehicle.axleConfigurationId);
         if (config) {
           setSelectedConfig(config.axleCode);
@@ -484,7 +546,7 @@ export default function MobileWeighingPage() {
     } else {
       setSelectedVehicleId(undefined);
     }
-  }, [existingVehicle, axleConfigurations]);
+  }, [existingVehicle, axleConfigurations, queueHandoff.entry]);
 
   // Prefill vehicle details form from transaction when we land on vehicle step (e.g. after create or resume)
   const lastPrefilledTransactionIdRef = useRef<string | null>(null);
@@ -675,7 +737,8 @@ export default function MobileWeighingPage() {
   const loadError = stationError || axleConfigError || weighingError;
 
   // Scale test helpers (aligned with multideck: same card, same message)
-  const isScaleTestCompleted = scaleTestStatus?.hasValidTest ?? false;
+  // A scale out of calibration tolerance (measured or by drift trend) voids today's pass
+  const isScaleTestCompleted = (scaleTestStatus?.hasValidTest ?? false) && !scaleDrift?.blocked;
   const lastScaleTestAt = scaleTestStatus?.latestTest ? new Date(scaleTestStatus.latestTest.carriedAt) : undefined;
 
   // Get total axles from the actual config object (not hardcoded)
@@ -684,6 +747,23 @@ export default function MobileWeighingPage() {
     return config?.axleNumber || 0;
   }, [selectedConfig, axleConfigurations]);
 
+  // Config registered on the vehicle record — the axle-config matcher warns when the measurement disagrees
+  const registeredConfigCode = useMemo(() => {
+    if (!existingVehicle?.axleConfigurationId) return null;
+    return axleConfigurations.find(c => c.id === existingVehicle.axleConfigurationId)?.axleCode ?? null;
+  }, [existingVehicle, axleConfigurations]);
+
+  // Matched as the axles come in, but only once the axle count is known — reported by the scale
+  // (spacings) or the capture is complete. Until then a partial capture would only fit configs of
+  // its current size and flag the vehicle's registered config as a mismatch.
+  const axleSpacingsM = middleware.weights?.axleSpacingsM;
+  const axleMatch = useMemo<AxleMatchInput | undefined>(() => {
+    const axleCount = axleSpacingsM?.length ? axleSpacingsM.length + 1 : undefined;
+    const captureComplete = totalAxles > 0 && capturedWeights.length === totalAxles;
+    if (axleCount === undefined && !captureComplete) return undefined;
+    return { axleWeightsKg: capturedWeights, axleCount, axleSpacingsM, registeredConfigCode };
+  }, [axleSpacingsM, totalAxles, capturedWeights, registeredConfigCode]);
+
   // Build local compliance group results from weight references and captured weights (preview before backend submission)
   const localGroupResults: AxleGroupResult[] = useMemo(() => {
     // Map captured weights by axle number for easy lookup
@@ -972,6 +1052,18 @@ export default function MobileWeighingPage() {
       return;
     }
 
+    if (!stability.state.settled) {
+      stability.rejectCapture({
+        target: `Axle ${currentAxle}`,
+        transactionId: weighingSession.transactionId,
+        vehiclePlate,
+      });
+      toast.warning('Weight is still settling.', {
+        description: `Hold the axle still on the pads (±${stability.state.deviationKg.toLocaleString()} kg, ${Math.round(stability.state.progress * 100)}% settled).`,
+      });
+      return;
+    }
+
     const weight = currentAxleWeight;
 
     // Capture via useWeighing hook (persists locally, submitted to backend on confirm)
@@ -996,7 +1088,7 @@ export default function MobileWeighingPage() {
     } else {
       toast.error(`Failed to capture axle ${currentAxle}. Please try again.`);
     }
-  }, [capturedAxles, captureAxleWeight, currentAxle, currentAxleWeight, totalAxles, middleware, weighingSession, selectedConfigId]);
+  }, [capturedAxles, captureAxleWeight, currentAxle, currentAxleWeight, totalAxles, middleware, weighingSession, selectedConfigId, stability, vehiclePlate]);
 
   // Edit plate handler (logs event)
   const handleEditPlate = () => {
@@ -1135,6 +1227,7 @@ export default function MobileWeighingPage() {
     if (middleware.connected) {
       middleware.sendPlate(vehiclePlate);
     }
+    anprEvidence.confirmPlate(vehiclePlate);
 
     // Initialize transaction via useWeighing hook
     // Use selected config, or fallback to first available config from loaded configurations
@@ -1184,6 +1277,7 @@ export default function MobileWeighingPage() {
     // Explicitly reset middleware and frontend session
     middleware.resetSession();
     resetSession();
+    anprEvidence.reset();
 
     // Reset local UI state
     setLocalCapturedWeights([]);
@@ -1205,6 +1299,7 @@ export default function MobileWeighingPage() {
     setVehicleMake('');
     setComment('');
     setReliefVehicleReg('');
+    queueHandoff.release();
     toast.success('Weighing cancelled.');
   };
 
@@ -1387,12 +1482,14 @@ export default function MobileWeighingPage() {
     await handleProceedToDecision();
 
     // Navigate to special release page with transaction context
+    queueHandoff.complete();
     router.push(`/${orgSlug}/weighing/special-release?transactionId=${weighingSession.transactionId}`);
-  }, [weighingSession, router, orgSlug, handleProceedToDecision]);
+  }, [weighingSession, router, orgSlug, handleProceedToDecision, queueHandoff]);
 
   // Finish & Exit: end session, reset middleware, redirect to capture (no print). Always available on decision screen.
   const handleFinishOnly = useCallback(() => {
     resetSession();
+    anprEvidence.reset();
     if (middleware.connected) {
       middleware.resetSession();
     }
@@ -1421,8 +1518,9 @@ export default function MobileWeighingPage() {
     hasShownSentToYardToast.current = false;
     setCompletedSteps([]);
     setCurrentStep('capture');
+    queueHandoff.complete();
     toast.success('Session ended. Ready for next vehicle.');
-  }, [resetSession, middleware, queryClient, setVehiclePlate, setIsPlateDisabled, setFrontViewImage, setOverviewImage, setComment, setReliefVehicleReg, setCurrentStep, setCompletedSteps]);
+  }, [resetSession, middleware, queryClient, setVehiclePlate, setIsPlateDisabled, setFrontViewImage, setOverviewImage, setComment, setReliefVehicleReg, setCurrentStep, setCompletedSteps, queueHandoff, anprEvidence]);
 
   // Finish & Print Ticket: print then finish (for compliant vehicles). Calls handleFinishOnly after print.
   const handleFinishAndNew = useCallback(async () => {
@@ -1463,8 +1561,8 @@ export default function MobileWeighingPage() {
   const canProceedFromCapture = useMemo(() => {
     const isPlateValid = vehiclePlate.length >= 5;
     const isScaleTestValid = scaleTestRequired ? isScaleTestCompleted : true;
-    return isPlateValid && isScaleTestValid && !isWeighingLoading;
-  }, [vehiclePlate, scaleTestRequired, isScaleTestCompleted, isWeighingLoading]);
+    return isPlateValid && isScaleTestValid && !scaleDrift?.blocked && !isWeighingLoading && !anprEvidence.pendingReview;
+  }, [vehiclePlate, scaleTestRequired, isScaleTestCompleted, scaleDrift?.blocked, isWeighingLoading, anprEvidence.pendingReview]);
   const canProceedFromVehicle = selectedConfig !== '' && !!complianceResult;
 
   // Derive station display name
@@ -1558,6 +1656,7 @@ export default function MobileWeighingPage() {
                 isScalesConnected={isScalesConnected}
                 isScaleTestCompleted={isScaleTestCompleted}
                 lastScaleTestAt={lastScaleTestAt}
+                scaleDrift={scaleDrift}
                 weighingType="mobile"
                 isSimulationMode={middleware.simulation}
                 handleResumeTransaction={handleResumeTransaction}
@@ -1604,6 +1703,7 @@ export default function MobileWeighingPage() {
                 currentAxle={currentAxle}
                 onAxleSelect={setCurrentAxle}
                 weightReferences={weightReferences}
+                axleMatch={axleMatch}
                 onConfigChange={(config) => {
                   const configObj = axleConfigurations.find(c => c.axleCode === config);
                   setSelectedConfig(config);
@@ -1630,7 +1730,7 @@ export default function MobileWeighingPage() {
                 reweighCycleNo={reweighCycleNo}
                 handlePrevStep={handlePrevStep}
                 handleProceedToDecision={handleProceedToDecision}
-                isProceedDisabled={!allAxlesCaptured || !isWeightConfirmed}
+                isProceedDisabled={!allAxlesCaptured || !isWeightConfirmed || isRiskInspectionPending}
                 isWeighingLoading={isWeighingLoading}
                 handleCancelWeighing={handleCancelWeighing}
                 vehicleDetailsProps={{
@@ -1681,6 +1781,13 @@ export default function MobileWeighingPage() {
                   showPermitSection: true,
                 }}
               >
+                <PreWeighRiskPanel
+                  vehiclePlate={debouncedPlate}
+                  driverId={selectedDriverId || undefined}
+                  transporterId={selectedTransporterId || undefined}
+                  transactionId={weighingSession?.transactionId ?? undefined}
+                  onInspectionPendingChange={setIsRiskInspectionPending}
+                />
                 <WeightCaptureCard
                   currentAxle={currentAxle}
                   totalAxles={totalAxles}
@@ -1688,6 +1795,7 @@ export default function MobileWeighingPage() {
                   capturedAxles={capturedAxles}
                   currentWeight={currentAxleWeight}
                   onCaptureAxle={handleCaptureAxle}
+                  stability={stability.state}
                   scaleAStatus={middleware.scaleStatus?.scaleA?.status === 'connected' ? 'connected' : 'disconnected'}
                   scaleBStatus={middleware.scaleStatus?.scaleB?.status === 'connected' ? 'connected' : 'disconnected'}
                 />
@@ -1701,6 +1809,7 @@ export default function MobileWeighingPage() {
                 overallStatus={overallStatus}
                 gvwMeasured={gvwMeasured}
                 reweighCycleNo={reweighCycleNo}
+                maxReweighCycles={maxReweighCycles}
                 totalFeeUsd={complianceResult?.totalFeeUsd ?? 0}
                 totalFeeKes={complianceResult?.totalFeeKes}
                 chargingCurrency={complianceResult?.chargingCurrency}
@@ -1787,6 +1896,16 @@ export default function MobileWeighingPage() {
               missingFields={validationResult.missingFields}
             />
 
+            <PlateReviewModal
+              review={anprEvidence.pendingReview}
+              minConfidence={anprEvidence.minConfidence}
+              onResolve={(plate, reason) => {
+                anprEvidence.resolveReview(plate, reason);
+                setVehiclePlate(plate);
+              }}
+              onDismiss={anprEvidence.dismissReview}
+            />
+
             {/* Entity Modals */}
             <DriverModal
               open={isDriverModalOpen}
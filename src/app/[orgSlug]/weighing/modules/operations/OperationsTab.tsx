@@ -24,10 +24,13 @@ import {
   AlertTriangle,
   Calendar,
   CheckCircle2,
+  Container,
   Download,
   Filter,
   Gauge,
+  ListOrdered,
   Loader2,
+  Radio,
   RefreshCw,
   Scale,
   Search,
@@ -262,8 +265,44 @@ export default function OperationsTab() {
                     <h3 className="text-sm font-bold text-gray-900">Multideck Weighing</h3>
                     <p className="text-[10px] text-gray-500 text-center mt-0.5">4-deck platform system</p>
                   </button>
+                  <button
+                    onClick={() => router.push(`/${orgSlug}/weighing/wim`)}
+                    className="col-span-2 flex items-center justify-center gap-3 py-3 px-4 rounded-lg border border-gray-200 bg-white hover:border-red-300 hover:bg-red-50/50 hover:shadow-sm transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 active:scale-[0.98]"
+                  >
+                    <div className="h-8 w-8 rounded-full bg-red-100 flex items-center justify-center">
+                      <Radio className="h-5 w-5 text-red-600" />
+                    </div>
+                    <div className="text-left">
+                      <h3 className="text-sm font-bold text-gray-900">WIM Screening</h3>
+                      <p className="text-[10px] text-gray-500">Weigh-in-motion pre-selection for static re-weigh</p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => router.push(`/${orgSlug}/weighing/convoy`)}
+                    className="col-span-2 flex items-center justify-center gap-3 py-3 px-4 rounded-lg border border-gray-200 bg-white hover:border-amber-300 hover:bg-amber-50/50 hover:shadow-sm transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 active:scale-[0.98]"
+                  >
+                    <div className="h-8 w-8 rounded-full bg-amber-100 flex items-center justify-center">
+                      <Container className="h-5 w-5 text-amber-600" />
+                    </div>
+                    <div className="text-left">
+                      <h3 className="text-sm font-bold text-gray-900">Convoy Weighing</h3>
+                      <p className="text-[10px] text-gray-500">Prime mover with dollies / trailers under a special permit</p>
+                    </div>
+                  </button>
                 </>
               )}
+              <button
+                onClick={() => router.push(`/${orgSlug}/weighing/queue`)}
+                className="col-span-2 flex items-center justify-center gap-3 py-3 px-4 rounded-lg border border-gray-200 bg-white hover:border-sky-300 hover:bg-sky-50/50 hover:shadow-sm transition-all duration-150 focus:outline-none focus:ring-2 focus:ring-sky-500 focus:ring-offset-2 active:scale-[0.98]"
+              >
+                <div className="h-8 w-8 rounded-full bg-sky-100 flex items-center justify-center">
+                  <ListOrdered className="h-5 w-5 text-sky-600" />
+                </div>
+                <div className="text-left">
+                  <h3 className="text-sm font-bold text-gray-900">Station Queue</h3>
+                  <p className="text-[10px] text-gray-500">Vehicles waiting per bound, wait and service times</p>
+                </div>
+              </button>
             </div>
           </CardContent>
         </Card>
@@ -10,7 +10,7 @@ import {
   useWeighingStatistics,
   useDownloadWeightTicket,
 } from '@/hooks/queries/useWeighingQueries';
-import { getCommercialTicketPdf, approveToleranceException } from '@/lib/api/weighing';
+import { getCommercialTicketPdf, approveToleranceException, searchWeighingTransactions } from '@/lib/api/weighing';
 import type { SearchWeighingParams, WeighingTransaction } from '@/lib/api/weighing';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { QUERY_KEYS } from '@/lib/query/config';
@@ -25,6 +25,8 @@ import TicketsImageView from './TicketsImageView';
 import TicketsLineView from './TicketsLineView';
 import TicketDetailSheet from './TicketDetailSheet';
 import { PdfPreviewDialog } from '@/components/shared/PdfPreviewDialog';
+import { ExportDialog } from '@/components/shared/ExportDialog';
+import { TICKETS_EXPORT_VIEW } from '@/lib/export';
 
 /**
  * Weight Tickets Tab — Orchestrator
@@ -175,25 +177,20 @@ export default function TicketsTab() {
     queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WEIGHING_TRANSACTIONS });
   }, [queryClient]);
 
-  const handleExport = useCallback(() => {
-    if (!tickets.length) return;
-    const headers = ['Ticket No', 'Vehicle Reg', 'GVW Measured (kg)', 'GVW Permissible (kg)', 'Overload (kg)', 'Status', 'Station', 'Weighed At'];
-    const rows = tickets.map(t => [
-      t.ticketNumber, t.vehicleRegNumber, t.gvwMeasuredKg, t.gvwPermissibleKg,
-      t.overloadKg, t.controlStatus, t.stationName ?? '', t.weighedAt,
-    ]);
-    const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `weight-tickets-${new Date().toISOString().slice(0, 10)}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
-    toast.success('Tickets exported to CSV');
-  }, [tickets]);
+  // Export: current page or every ticket matching the filter, fetched page by page
+  const [exportOpen, setExportOpen] = useState(false);
+  const handleExport = useCallback(() => setExportOpen(true), []);
+  const fetchExportPage = useCallback(
+    (exportPage: number, exportPageSize: number) =>
+      searchWeighingTransactions({ ...searchParams, pageNumber: exportPage, pageSize: exportPageSize }),
+    [searchParams]
+  );
+  const exportFiltersSummary = [
+    dateFrom || dateTo ? `Period: ${dateFrom || '…'} to ${dateTo || '…'}` : null,
+    statusFilter !== 'all' ? `Status: ${statusFilter}` : null,
+    stateFilter !== 'all' ? `State: ${stateFilter}` : null,
+    appliedSearchReg ? `Vehicle: ${appliedSearchReg}` : null,
+  ].filter(Boolean).join(' · ') || undefined;
 
   // View / Print / Preview handlers
   const [selectedTicket, setSelectedTicket] = useState<WeighingTransaction | null>(null);
@@ -347,6 +344,18 @@ export default function TicketsTab() {
         isApprovingTolerance={approveToleranceMutation.isPending}
       />
 
+      {/* Export Dialog */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        view={TICKETS_EXPORT_VIEW}
+        currentRows={tickets}
+        fetchPage={fetchExportPage}
+        totalCount={totalItems}
+        filtersSummary={exportFiltersSummary}
+        defaultPresetId={isCommercial ? 'commercial' : 'enforcement'}
+      />
+
       {/* PDF Preview Dialog */}
       <PdfPreviewDialog
         open={previewOpen}
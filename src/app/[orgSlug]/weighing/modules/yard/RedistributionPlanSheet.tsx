@@ -0,0 +1,317 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Sheet, SheetBody, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLatestReweigh, useWeighingCompliance } from '@/hooks/queries';
+import type { ComplianceResult } from '@/lib/api/weighing';
+import type { YardEntryDto } from '@/lib/api/yard';
+import {
+  compareReweighToPlan,
+  planRedistribution,
+  type PlanOutcome,
+  type RedistributionPlan,
+} from '@/lib/load-redistribution';
+import { cn } from '@/lib/utils';
+import { ArrowRight, CheckCircle2, Loader2, PackageMinus, Printer, Shuffle, Weight, XCircle } from 'lucide-react';
+import { useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+const OUTCOME_LABELS: Record<PlanOutcome, { title: string; className: string }> = {
+  compliant: { title: 'Already within limits — no change needed', className: 'bg-green-50 border-green-200 text-green-800' },
+  redistribute: { title: 'Redistribute load — no offloading required', className: 'bg-blue-50 border-blue-200 text-blue-800' },
+  offload: { title: 'Offload required', className: 'bg-red-50 border-red-200 text-red-800' },
+  redistribute_and_offload: { title: 'Offload and redistribute', className: 'bg-red-50 border-red-200 text-red-800' },
+};
+
+const kg = (n: number) => `${n.toLocaleString()} kg`;
+
+function planFromCompliance(compliance: ComplianceResult, marginKg: number): RedistributionPlan {
+  return planRedistribution({
+    groups: compliance.groupResults.map((g) => ({
+      groupLabel: g.groupLabel,
+      measuredKg: g.groupWeightKg,
+      limitKg: g.effectiveLimitKg || g.groupPermissibleKg,
+    })),
+    gvwLimitKg: compliance.gvwEffectiveLimitKg ?? compliance.gvwPermissibleKg,
+    marginKg,
+  });
+}
+
+interface RedistributionPlanSheetProps {
+  entry: YardEntryDto;
+  canReweigh: boolean;
+  isStartingReweigh: boolean;
+  onStartReweigh: (entry: YardEntryDto) => void;
+  onClose: () => void;
+}
+
+/**
+ * Redistribution Plan Sheet
+ *
+ * Proposes the smallest load shift between axle groups (and the offload, when shifting alone
+ * can't fix a GVW overload) for a vehicle held in the yard, prints it for the driver, and checks
+ * the re-weigh against the plan once it has been captured.
+ */
+export function RedistributionPlanSheet({ entry, canReweigh, isStartingReweigh, onStartReweigh, onClose }: RedistributionPlanSheetProps) {
+  const [marginInput, setMarginInput] = useState('100');
+  const marginKg = Math.max(0, parseInt(marginInput, 10) || 0);
+
+  const { data: compliance, isLoading } = useWeighingCompliance(entry.weighingId);
+  const { data: reweigh } = useLatestReweigh(entry.weighingId, entry.vehicleRegNumber);
+  const { data: reweighCompliance } = useWeighingCompliance(reweigh?.id);
+
+  const plan = useMemo(
+    () => (compliance?.groupResults?.length ? planFromCompliance(compliance, marginKg) : null),
+    [compliance, marginKg],
+  );
+  const comparison = useMemo(
+    () => plan && reweighCompliance
+      ? compareReweighToPlan(plan, reweighCompliance.groupResults.map((g) => ({ groupLabel: g.groupLabel, measuredKg: g.groupWeightKg })))
+      : null,
+    [plan, reweighCompliance],
+  );
+
+  const handlePrint = () => {
+    if (!plan) return;
+    const win = window.open('', '_blank', 'width=800,height=900');
+    if (!win) {
+      toast.error('Allow pop-ups to print the plan');
+      return;
+    }
+    win.document.write(buildPlanHtml(plan, entry, marginKg));
+    win.document.close();
+    win.focus();
+    win.print();
+  };
+
+  return (
+    <Sheet open onOpenChange={(value) => (!value ? onClose() : undefined)}>
+      <SheetContent className="sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Shuffle className="h-4 w-4" />
+            Load Redistribution Plan
+          </SheetTitle>
+          <SheetDescription>
+            {entry.vehicleRegNumber || '-'} · Ticket {entry.ticketNumber || '-'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <SheetBody className="space-y-5">
+          {isLoading ? (
+            <div className="py-10 text-center text-gray-500">
+              <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+              Loading axle group results...
+            </div>
+          ) : !plan ? (
+            <p className="py-10 text-center text-sm text-gray-500">
+              No axle group results recorded for this weighing.
+            </p>
+          ) : (
+            <>
+              <div className={cn('rounded-lg border p-3', OUTCOME_LABELS[plan.outcome].className)}>
+                <p className="text-sm font-semibold">{OUTCOME_LABELS[plan.outcome].title}</p>
+                {plan.offloadKg > 0 && (
+                  <p className="text-xs mt-1">
+                    Offload at least <span className="font-mono font-bold">{kg(plan.offloadKg)}</span>
+                    {plan.offloadReason === 'gvw'
+                      ? ` — GVW ${kg(plan.gvwMeasuredKg)} exceeds the ${kg(plan.gvwLimitKg)} limit; shifting load cannot reduce GVW.`
+                      : ' — the axle groups cannot carry this load between them.'}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Label htmlFor="plan-margin" className="text-xs text-gray-500">Safety margin below limits (kg)</Label>
+                <Input
+                  id="plan-margin"
+                  type="number"
+                  min={0}
+                  step={50}
+                  value={marginInput}
+                  onChange={(e) => setMarginInput(e.target.value)}
+                  className="h-8 w-24"
+                />
+              </div>
+
+              {plan.transfers.length > 0 && (
+                <div>
+                  <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">Moves</p>
+                  <div className="space-y-1.5">
+                    {plan.transfers.map((t, i) => (
+                      <div key={i} className="flex items-center gap-2 rounded-lg bg-gray-50 px-3 py-2 text-sm">
+                        <span className="font-mono font-bold">{t.fromGroup}</span>
+                        <ArrowRight className="h-4 w-4 text-gray-400" />
+                        <span className="font-mono font-bold">{t.toGroup}</span>
+                        <span className="ml-auto font-mono">{kg(t.kg)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">Axle Groups</p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Group</TableHead>
+                      <TableHead className="text-right">Measured</TableHead>
+                      <TableHead className="text-right">Limit</TableHead>
+                      <TableHead className="text-right">Offload</TableHead>
+                      <TableHead className="text-right">Planned</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.groups.map((g) => (
+                      <TableRow key={g.groupLabel}>
+                        <TableCell className="font-mono font-bold">{g.groupLabel}</TableCell>
+                        <TableCell className={cn('text-right font-mono', g.measuredKg > g.limitKg && 'text-red-600')}>
+                          {g.measuredKg.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right font-mono text-gray-500">{g.limitKg.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{g.offloadKg ? `-${g.offloadKg.toLocaleString()}` : '-'}</TableCell>
+                        <TableCell className="text-right font-mono font-semibold">{g.plannedKg.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="bg-gray-50">
+                      <TableCell className="font-semibold">GVW</TableCell>
+                      <TableCell className={cn('text-right font-mono', plan.gvwMeasuredKg > plan.gvwLimitKg && 'text-red-600')}>
+                        {plan.gvwMeasuredKg.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-gray-500">{plan.gvwLimitKg.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-mono">{plan.offloadKg ? `-${plan.offloadKg.toLocaleString()}` : '-'}</TableCell>
+                      <TableCell className="text-right font-mono font-semibold">{plan.gvwPlannedKg.toLocaleString()}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* Re-weigh vs plan */}
+              <div>
+                <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">Re-weigh vs Plan</p>
+                {!reweigh ? (
+                  <p className="text-sm text-gray-500">No re-weigh captured yet.</p>
+                ) : !comparison ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                ) : (
+                  <div className="space-y-2">
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant="outline">Re-weigh #{reweigh.reweighCycleNo} · {reweigh.ticketNumber}</Badge>
+                      <Badge className={comparison.compliant ? 'bg-green-100 text-green-700 hover:bg-green-100' : 'bg-red-100 text-red-700 hover:bg-red-100'}>
+                        {comparison.compliant ? <CheckCircle2 className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
+                        {comparison.compliant ? 'Within limits' : 'Still overloaded'}
+                      </Badge>
+                      <Badge variant="outline" className={comparison.followedPlan ? 'text-green-700' : 'text-amber-700'}>
+                        {comparison.followedPlan ? 'Plan followed' : 'Differs from plan'}
+                      </Badge>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Group</TableHead>
+                          <TableHead className="text-right">Planned</TableHead>
+                          <TableHead className="text-right">Re-weigh</TableHead>
+                          <TableHead className="text-right">Δ</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.groups.map((g) => (
+                          <TableRow key={g.groupLabel}>
+                            <TableCell className="font-mono font-bold">{g.groupLabel}</TableCell>
+                            <TableCell className="text-right font-mono">{g.plannedKg.toLocaleString()}</TableCell>
+                            <TableCell className={cn('text-right font-mono', !g.withinLimit && 'text-red-600')}>
+                              {g.reweighKg.toLocaleString()}
+                            </TableCell>
+                            <TableCell className={cn('text-right font-mono', g.deltaKg > 0 ? 'text-amber-700' : 'text-gray-500')}>
+                              {g.deltaKg > 0 ? '+' : ''}{g.deltaKg.toLocaleString()}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow className="bg-gray-50">
+                          <TableCell className="font-semibold">GVW</TableCell>
+                          <TableCell className="text-right font-mono">{comparison.gvwPlannedKg.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-mono">{comparison.gvwReweighKg.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {comparison.gvwDeltaKg > 0 ? '+' : ''}{comparison.gvwDeltaKg.toLocaleString()}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </SheetBody>
+
+        <SheetFooter>
+          <Button variant="outline" onClick={onClose}>Close</Button>
+          <Button variant="outline" onClick={handlePrint} disabled={!plan}>
+            <Printer className="mr-1 h-4 w-4" />
+            Print Plan
+          </Button>
+          {canReweigh && (entry.status === 'pending' || entry.status === 'processing') && (
+            <Button onClick={() => onStartReweigh(entry)} disabled={isStartingReweigh}>
+              {isStartingReweigh ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Weight className="mr-1 h-4 w-4" />}
+              Start Re-weigh
+            </Button>
+          )}
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// ============================================================================
+// Printable plan
+// ============================================================================
+
+const escapeHtml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function buildPlanHtml(plan: RedistributionPlan, entry: YardEntryDto, marginKg: number): string {
+  const rows = plan.groups
+    .map((g) => `<tr><td>${escapeHtml(g.groupLabel)}</td><td>${kg(g.measuredKg)}</td><td>${kg(g.limitKg)}</td><td>${g.offloadKg ? kg(g.offloadKg) : '-'}</td><td><b>${kg(g.plannedKg)}</b></td></tr>`)
+    .join('');
+  const moves = plan.transfers.length
+    ? `<ol>${plan.transfers.map((t) => `<li>Move <b>${kg(t.kg)}</b> from group <b>${escapeHtml(t.fromGroup)}</b> to group <b>${escapeHtml(t.toGroup)}</b></li>`).join('')}</ol>`
+    : '<p>No load needs to be moved between axle groups.</p>';
+  const offload = plan.offloadKg > 0
+    ? `<p class="warn">Offload at least <b>${kg(plan.offloadKg)}</b> before re-weighing.</p>`
+    : '';
+
+  return `<!doctype html><html><head><title>Redistribution Plan ${escapeHtml(entry.ticketNumber ?? '')}</title>
+<style>
+  body { font-family: Arial, sans-serif; margin: 32px; color: #111; }
+  h1 { font-size: 20px; margin-bottom: 4px; }
+  .meta { color: #555; font-size: 13px; margin-bottom: 16px; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; font-size: 13px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  .warn { border: 1px solid #e11d48; background: #fff1f2; padding: 8px; }
+  .sign { margin-top: 48px; display: flex; gap: 48px; font-size: 13px; }
+  .sign div { flex: 1; border-top: 1px solid #111; padding-top: 4px; }
+</style></head><body>
+<h1>Axle Load Redistribution Plan</h1>
+<div class="meta">
+  Vehicle <b>${escapeHtml(entry.vehicleRegNumber ?? '-')}</b> · Ticket ${escapeHtml(entry.ticketNumber ?? '-')} ·
+  ${escapeHtml(entry.stationName ?? '')} · ${new Date().toLocaleString('en-KE')}
+</div>
+${offload}
+<h3>Moves</h3>
+${moves}
+<table>
+  <thead><tr><th>Group</th><th>Measured</th><th>Limit</th><th>Offload</th><th>Target</th></tr></thead>
+  <tbody>${rows}
+    <tr><td><b>GVW</b></td><td>${kg(plan.gvwMeasuredKg)}</td><td>${kg(plan.gvwLimitKg)}</td><td>${plan.offloadKg ? kg(plan.offloadKg) : '-'}</td><td><b>${kg(plan.gvwPlannedKg)}</b></td></tr>
+  </tbody>
+</table>
+<p class="meta">Targets keep ${kg(marginKg)} below each limit. Present the vehicle for re-weighing once the load has been adjusted.</p>
+<div class="sign"><div>Driver</div><div>Officer</div></div>
+</body></html>`;
+}
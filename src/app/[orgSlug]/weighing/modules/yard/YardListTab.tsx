@@ -10,15 +10,21 @@ import { Pagination, usePagination } from '@/components/ui/pagination';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Textarea } from '@/components/ui/textarea';
+import { ExportDialog } from '@/components/shared/ExportDialog';
 import { SearchInput, StatusBadge, SummaryCard } from '@/components/weighing';
+import { useAllSettings, useInitiateReweigh } from '@/hooks/queries';
 import { useHasPermission } from '@/hooks/useAuth';
+import { useOrgSlug } from '@/hooks/useOrgSlug';
 import {
   useReleaseYardEntry,
   useUpdateYardEntryStatus,
   useYardEntries,
   YARD_QUERY_KEYS,
 } from '@/hooks/queries/useYardQueries';
-import type { YardEntryDto } from '@/lib/api/yard';
+import { getReweighChain } from '@/lib/api/weighing';
+import { searchYardEntries, type SearchYardEntriesParams, type YardEntryDto } from '@/lib/api/yard';
+import { YARD_EXPORT_VIEW } from '@/lib/export';
+import { resolveMaxReweighCycles } from '@/lib/reweigh';
 import { formatFee } from '@/lib/weighing-utils';
 import { useQueryClient } from '@tanstack/react-query';
 import {
@@ -26,17 +32,22 @@ import {
   ArrowRightFromLine,
   ArrowUpRight,
   Clock,
+  Download,
   Eye,
   FileCheck,
   Filter,
+  GitCompare,
   Loader2,
   Package,
   RefreshCcw,
+  Shuffle,
   Truck,
   Weight,
 } from 'lucide-react';
+import Link from 'next/link';
 import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
+import { RedistributionPlanSheet } from './RedistributionPlanSheet';
 
 const YARD_REASON_LABELS: Record<string, string> = {
   redistribution: 'Redistribution',
@@ -64,7 +75,9 @@ export default function YardListTab() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [reasonFilter, setReasonFilter] = useState<string>('all');
   const [viewingEntry, setViewingEntry] = useState<YardEntryDto | null>(null);
+  const [planningEntry, setPlanningEntry] = useState<YardEntryDto | null>(null);
   const [releaseDialogOpen, setReleaseDialogOpen] = useState(false);
+  const [exportOpen, setExportOpen] = useState(false);
   const [selectedEntry, setSelectedEntry] = useState<YardEntryDto | null>(null);
 
   const { page, pageNumber, pageSize, setPage, setPageSize, reset: resetPagination } = usePagination();
@@ -76,6 +89,8 @@ export default function YardListTab() {
   const canRead = useHasPermission('yard.read');
   const canUpdate = useHasPermission('yard.update');
   const canEscalate = useHasPermission('yard.escalate');
+  const orgSlug = useOrgSlug();
+  const { data: settings } = useAllSettings();
 
   // Debounce search input
   useEffect(() => {
@@ -92,7 +107,7 @@ export default function YardListTab() {
   }, [statusFilter, reasonFilter, resetPagination]);
 
   // Fetch yard entries with server-side filtering and pagination
-  const { data: yardResult, isLoading, isFetching, refetch: _refetch } = useYardEntries({
+  const yardSearchParams: SearchYardEntriesParams = {
     vehicleRegNo: debouncedSearch || undefined,
     status: statusFilter !== 'all' ? statusFilter : undefined,
     reason: reasonFilter !== 'all' ? reasonFilter : undefined,
@@ -100,11 +115,13 @@ export default function YardListTab() {
     pageSize,
     sortBy: 'EnteredAt',
     sortOrder: 'desc',
-  });
+  };
+  const { data: yardResult, isLoading, isFetching, refetch: _refetch } = useYardEntries(yardSearchParams);
 
   // Mutations
   const releaseMutation = useReleaseYardEntry();
   const updateStatusMutation = useUpdateYardEntryStatus();
+  const reweighMutation = useInitiateReweigh();
 
   const entries = yardResult?.items ?? [];
   const totalCount = yardResult?.totalCount ?? 0;
@@ -184,6 +201,27 @@ export default function YardListTab() {
     }
   };
 
+  const handleStartReweigh = async (entry: YardEntryDto) => {
+    try {
+      if (entry.vehicleRegNumber) {
+        const chain = await getReweighChain(entry.weighingId, entry.vehicleRegNumber);
+        const maxCycles = resolveMaxReweighCycles(chain[0]?.reweighLimit, settings);
+        if ((chain[chain.length - 1]?.reweighCycleNo ?? 0) >= maxCycles) {
+          toast.error(`Re-weigh limit reached (${maxCycles})`, {
+            description: 'Settle the case from the re-weigh workspace.',
+          });
+          return;
+        }
+      }
+      const reweigh = await reweighMutation.mutateAsync({ originalWeighingId: entry.weighingId });
+      toast.success(`Re-weigh ${reweigh.ticketNumber} created`, {
+        description: 'Resume it from the weighing screen to capture the new weights.',
+      });
+    } catch {
+      toast.error('Failed to start re-weigh');
+    }
+  };
+
   const handleRefresh = () => {
     queryClient.invalidateQueries({ queryKey: YARD_QUERY_KEYS.YARD_ENTRIES });
   };
@@ -255,6 +293,9 @@ export default function YardListTab() {
             <Button variant="outline" size="icon" onClick={handleRefresh} disabled={isFetching}>
               <RefreshCcw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
             </Button>
+            <Button variant="outline" size="icon" onClick={() => setExportOpen(true)} disabled={totalCount === 0} title="Export">
+              <Download className="h-4 w-4" />
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -343,6 +384,18 @@ export default function YardListTab() {
                             <Eye className="h-4 w-4" />
                           </Button>
                         )}
+                        {canRead && entry.status !== 'released' && (
+                          <Button variant="ghost" size="sm" onClick={() => setPlanningEntry(entry)} title="Redistribution Plan">
+                            <Shuffle className="h-4 w-4 text-blue-600" />
+                          </Button>
+                        )}
+                        {canRead && (
+                          <Button variant="ghost" size="sm" asChild title="Re-weigh Workspace">
+                            <Link href={`/${orgSlug}/weighing/reweigh?weighingId=${entry.weighingId}`}>
+                              <GitCompare className="h-4 w-4 text-violet-600" />
+                            </Link>
+                          </Button>
+                        )}
                         {entry.status === 'pending' && canUpdate && (
                           <Button
                             variant="outline"
@@ -365,7 +418,11 @@ export default function YardListTab() {
                           </Button>
                         )}
                         {(entry.status === 'pending' || entry.status === 'processing') && canReweigh && (
-                          <Button size="sm">
+                          <Button
+                            size="sm"
+                            onClick={() => handleStartReweigh(entry)}
+                            disabled={reweighMutation.isPending}
+                          >
                             <Weight className="mr-1 h-4 w-4" />
                             Reweigh
                           </Button>
@@ -424,6 +481,29 @@ export default function YardListTab() {
         <ViewEntryDialog entry={viewingEntry} onClose={() => setViewingEntry(null)} />
       )}
 
+      {/* Redistribution Plan */}
+      {planningEntry && (
+        <RedistributionPlanSheet
+          entry={planningEntry}
+          canReweigh={canReweigh}
+          isStartingReweigh={reweighMutation.isPending}
+          onStartReweigh={handleStartReweigh}
+          onClose={() => setPlanningEntry(null)}
+        />
+      )}
+
+      {/* Export */}
+      <ExportDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        view={YARD_EXPORT_VIEW}
+        currentRows={entries}
+        fetchPage={(exportPage, exportPageSize) =>
+          searchYardEntries({ ...yardSearchParams, pageNumber: exportPage, pageSize: exportPageSize })
+        }
+        totalCount={totalCount}
+      />
+
       {/* Release Dialog */}
       {selectedEntry && (
         <ReleaseDialog
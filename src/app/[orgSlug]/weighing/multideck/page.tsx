@@ -25,6 +25,8 @@ import {
     ImageCaptureCard,
     MultideckWeightsCard,
     OriginDestinationModal,
+    PlateReviewModal,
+    PreWeighRiskPanel,
     SCALE_TEST_SUCCESS_DESCRIPTION,
     SCALE_TEST_SUCCESS_MESSAGE,
     TransporterModal,
@@ -34,9 +36,11 @@ import {
     WeighingStepper,
     WeightConfirmationModal,
 } from '@/components/weighing';
+import { DeckDiagnosticsDialog } from '@/components/weighing/DeckDiagnosticsDialog';
 import { MissingFieldsWarningModal } from '@/components/weighing/MissingFieldsWarningModal';
 import { ScaleInfo } from '@/components/weighing/ScaleHealthPanel';
 import { ScaleTestModal } from '@/components/weighing/ScaleTestModal';
+import { TrafficControlPanel } from '@/components/weighing/TrafficControlPanel';
 import { WeighingCaptureStep } from '@/components/weighing/steps/WeighingCaptureStep';
 import { WeighingDecisionStep } from '@/components/weighing/steps/WeighingDecisionStep';
 import {
@@ -48,19 +52,27 @@ import {
     useMyScaleTestStatus,
     useMyStation,
     usePendingWeighings,
+    useScaleDriftGate,
     useUpdateVehicle,
     useVehicleByRegNo,
     useWeighingAxleConfigurations,
 } from '@/hooks/queries';
 import { useToleranceSettings } from '@/hooks/queries/useActQueries';
+import { useAnprEvidence } from '@/hooks/useAnprEvidence';
 import { useHasPermission } from '@/hooks/useAuth';
 import { useGeolocation } from '@/hooks/useGeolocation';
+import { useDeckDiagnostics } from '@/hooks/useDeckDiagnostics';
 import { useMiddleware } from '@/hooks/useMiddleware';
 import { useOrgSlug } from '@/hooks/useOrgSlug';
+import { useQueueHandoff } from '@/hooks/useQueueHandoff';
+import { useTrafficControl } from '@/hooks/useTrafficControl';
 import { useWeighing } from '@/hooks/useWeighing';
 import { useWeighingUI } from '@/hooks/useWeighingUI';
+import { useWeightStability } from '@/hooks/useWeightStability';
+import { getReweighQueue, WIM_HANDOFF_PARAM } from '@/lib/offline/wimScreening';
 import { downloadWeightTicketPdf, UpdateWeighingRequest, WeighingTransaction } from '@/lib/api/weighing';
 import { createYardEntry } from '@/lib/api/yard';
+import type { AxleMatchInput } from '@/lib/axle-config-matcher';
 import { calculateOverallStatus, validateRequiredFields } from '@/lib/weighing-utils';
 import { useModuleAccess } from '@/hooks/useModuleAccess';
 import {
@@ -187,8 +199,10 @@ export default function MultideckWeighingPage() {
     data: scaleTestStatus,
     isLoading: isLoadingScaleTest,
   } = useMyScaleTestStatus(currentBound);
+  const { gate: scaleDrift } = useScaleDriftGate(currentStation?.id, currentBound);
 
-  const isScaleTestCompleted = scaleTestStatus?.hasValidTest ?? false;
+  // A scale out of calibration tolerance (measured or by drift trend) voids today's pass
+  const isScaleTestCompleted = (scaleTestStatus?.hasValidTest ?? false) && !scaleDrift?.blocked;
   const lastScaleTestAt = scaleTestStatus?.latestTest ? new Date(scaleTestStatus.latestTest.carriedAt) : undefined;
 
   // Combined loading state
@@ -215,6 +229,7 @@ export default function MultideckWeighingPage() {
     transaction: weighingTransaction,
     complianceResult,
     reweighCycleNo,
+    maxReweighCycles,
     isLoading: isWeighingLoading,
     error: weighingError,
   } = weighingHook;
@@ -243,6 +258,20 @@ export default function MultideckWeighingPage() {
 
   const { position: geoPosition, refresh: refreshGeolocation, isSupported: isGeolocationSupported } = useGeolocation({ enableHighAccuracy: true, timeout: 10000 });
 
+  // Client-side stabilisation of the GVW — "Take Weight" is refused until it has settled
+  const stability = useWeightStability(currentStation?.code);
+
+  // Per-deck diagnostics recorder (opened from the indicator card)
+  const deckDiagnostics = useDeckDiagnostics({ stationCode: currentStation?.code, bound: currentBound });
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+
+  // Every ANPR / camera frame of this weighing, hashed; low-confidence reads need a plate review
+  const anprEvidence = useAnprEvidence({
+    stationCode: currentStation?.code,
+    bound: currentBound,
+    transactionId: weighingSession?.transactionId,
+  });
+
   // useMiddleware hook
   const middleware = useMiddleware({
     stationCode: currentStation?.code || 'DEFAULT',
@@ -252,6 +281,7 @@ export default function MultideckWeighingPage() {
     clientName: `TruLoad Frontend - ${currentStation?.name || 'Multideck'}`,
     clientType: 'truload-frontend',
     onWeightUpdate: (weight) => {
+      deckDiagnostics.push(weight);
       if (weight.mode === 'multideck') {
         setLiveDeckWeights([
           { deck: 1, weight: weight.deck1 ?? 0, status: weight.stable ? 'stable' : 'unstable' },
@@ -259,6 +289,7 @@ export default function MultideckWeighingPage() {
           { deck: 3, weight: weight.deck3 ?? 0, status: weight.stable ? 'stable' : 'unstable' },
           { deck: 4, weight: weight.deck4 ?? 0, status: weight.stable ? 'stable' : 'unstable' },
         ]);
+        stability.push(weight.gvw ?? (weight.deck1 ?? 0) + (weight.deck2 ?? 0) + (weight.deck3 ?? 0) + (weight.deck4 ?? 0));
       } else {
         setLiveDeckWeights([
           { deck: 1, weight: 0, status: 'stable' },
@@ -272,6 +303,15 @@ export default function MultideckWeighingPage() {
         setIsIndicatorConnected(weight.connection.connected);
       }
     },
+    onPlateDetected: (plate) => {
+      // Only reads for this bound, while a plate can still be taken
+      const plateBound = plate.bound === 'B' ? currentStation?.boundBCode || 'B' : currentStation?.boundACode || 'A';
+      if (currentStep !== 'capture' || isPlateDisabled || (plate.bound && plateBound !== currentBound)) return;
+      if (plate.anprImagePath) setFrontViewImage(plate.anprImagePath);
+      if (plate.overviewImagePath) setOverviewImage(plate.overviewImagePath);
+      const { needsReview } = anprEvidence.recordRead(plate);
+      if (!needsReview) setVehiclePlate(plate.plateNumber.toUpperCase());
+    },
     onScaleStatusChange: (status) => {
       setIsIndicatorConnected(status.connected);
       setIsSimulationMode(status.simulation || false);
@@ -286,6 +326,22 @@ export default function MultideckWeighingPage() {
     setMiddlewareConnected(middleware.connected);
   }, [middleware.connected]);
 
+  // Captured / uploaded front and overview images are kept as evidence too
+  const { recordFrame: recordEvidenceFrame } = anprEvidence;
+  useEffect(() => {
+    recordEvidenceFrame('front', frontViewImage);
+  }, [frontViewImage, recordEvidenceFrame]);
+  useEffect(() => {
+    recordEvidenceFrame('overview', overviewImage);
+  }, [overviewImage, recordEvidenceFrame]);
+
+  // Approach lights sequenced from deck occupancy; ENTER waits for a plate on the capture step
+  const traffic = useTrafficControl({
+    stationCode: currentStation?.code,
+    middleware,
+    armed: currentStep === 'capture' && vehiclePlate.trim().length >= 5,
+  });
+
   // Vehicle state
   const [selectedConfig, setSelectedConfig] = useState<string>('');
   const [ticketNumber, setTicketNumber] = useState('');
@@ -300,6 +356,46 @@ export default function MultideckWeighingPage() {
     }
   }, [axleConfigurations, selectedConfig]);
 
+  // WIM handoff (?wimPassage=<id>): pre-fill plate + screened axle config from the re-weigh queue
+  const wimHandoffAppliedRef = useRef(false);
+  useEffect(() => {
+    if (wimHandoffAppliedRef.current || !currentStation?.id || axleConfigurations.length === 0) return;
+    const passageId = new URLSearchParams(window.location.search).get(WIM_HANDOFF_PARAM);
+    if (!passageId) return;
+    wimHandoffAppliedRef.current = true;
+    const item = getReweighQueue(currentStation.id).find(i => i.passageId === passageId);
+    if (!item) {
+      toast.error('WIM passage not found in the re-weigh queue.');
+      return;
+    }
+    if (item.plateNumber) setVehiclePlate(item.plateNumber);
+    if (item.axleConfigCode && axleConfigurations.some(c => c.axleCode === item.axleConfigCode)) {
+      setSelectedConfig(item.axleConfigCode);
+    }
+    toast.info(`Static re-weigh for ${item.plateNumber ?? 'WIM passage'}`, {
+      description: `WIM screened +${item.maxOverloadKg.toLocaleString()} kg over (${item.axleConfigCode ?? 'config unknown'}). Confirm details and weigh.`,
+    });
+  }, [currentStation?.id, axleConfigurations, setVehiclePlate]);
+
+  // Queue handoff (?queueEntry=<id>): pre-fill plate, bound and check-in details from the queue board
+  const queueHandoff = useQueueHandoff({
+    stationId: currentStation?.id,
+    mode: 'multideck',
+    ready: axleConfigurations.length > 0,
+    onPrefill: (entry) => {
+      setVehiclePlate(entry.plateNumber);
+      if (currentStation?.supportsBidirectional) setCurrentBoundState(entry.bound);
+      if (entry.axleConfigCode && axleConfigurations.some(c => c.axleCode === entry.axleConfigCode)) {
+        setSelectedConfig(entry.axleConfigCode);
+      }
+      if (entry.driverId) setSelectedDriverId(entry.driverId);
+      if (entry.transporterId) setSelectedTransporterId(entry.transporterId);
+      if (entry.cargoId) setSelectedCargoId(entry.cargoId);
+      if (entry.trailerNo) setTrailerNo(entry.trailerNo);
+      if (entry.notes) setComment(entry.notes);
+    },
+  });
+
   // Weight references
   const selectedConfigId = useMemo(() => {
     if (!selectedConfig || axleConfigurations.length === 0) return undefined;
@@ -315,8 +411,9 @@ export default function MultideckWeighingPage() {
   useEffect(() => {
     if (existingVehicle?.id) {
       setSelectedVehicleId(existingVehicle.id);
-      if (existingVehicle.transporterId) setSelectedTransporterId(existingVehicle.transporterId);
-      if (existingVehicle.axleConfigurationId) {
+      // Details recorded at a queue check-in take precedence over the vehicle register
+      if (existingVehicle.transporterId && !queueHandoff.entry?.transporterId) setSelectedTransporterId(existingVehicle.transporterId);
+      if (existingVehicle.axleConfigurationId && !queueHandoff.entry?.axleConfigCode) {
         const config = axleConfigurations.find(c => c.id === existingVehicle.axleConfigurationId);
         if (config) setSelectedConfig(config.axleCode);
       }
@@ -324,7 +421,7 @@ export default function MultideckWeighingPage() {
     } else {
       setSelectedVehicleId(undefined);
     }
-  }, [existingVehicle, axleConfigurations]);
+  }, [existingVehicle, axleConfigurations, queueHandoff.entry]);
 
   // Prefill vehicle details form from transaction when we land on vehicle step (e.g. after create or resume)
   const lastPrefilledTransactionIdRef = useRef<string | null>(null);
@@ -472,6 +569,7 @@ export default function MultideckWeighingPage() {
   const [isMissingFieldsModalOpen, setIsMissingFieldsModalOpen] = useState(false);
   const [isFinishExitMissingModalOpen, setIsFinishExitMissingModalOpen] = useState(false);
   const [highlightMissingVehicleFields, setHighlightMissingVehicleFields] = useState<string[]>([]);
+  const [isRiskInspectionPending, setIsRiskInspectionPending] = useState(false);
   const [isCapturingWeight, setIsCapturingWeight] = useState(false);
   const [isFlushingVehicleDetails, setIsFlushingVehicleDetails] = useState(false);
 
@@ -481,6 +579,20 @@ export default function MultideckWeighingPage() {
   const canSpecialRelease = useHasPermission('case.special_release');
 
   const deckWeights: DeckWeight[] = liveDeckWeights;
+
+  // Config registered on the vehicle record — the axle-config matcher warns when the measurement disagrees
+  const registeredConfigCode = useMemo(() => {
+    if (!existingVehicle?.axleConfigurationId) return null;
+    return axleConfigurations.find(c => c.id === existingVehicle.axleConfigurationId)?.axleCode ?? null;
+  }, [existingVehicle, axleConfigurations]);
+
+  const axleSpacingsM = middleware.weights?.axleSpacingsM;
+  const axleMatch = useMemo<AxleMatchInput>(() => ({
+    groupWeightsKg: deckWeights.map((d) => d.weight),
+    axleSpacingsM,
+    registeredConfigCode,
+  }), [deckWeights, axleSpacingsM, registeredConfigCode]);
+
   const isMultideckWeights = middleware.weights?.mode === 'multideck';
   const totalGVW = isMultideckWeights && middleware.weights?.gvw != null
     ? middleware.weights.gvw
@@ -730,6 +842,7 @@ export default function MultideckWeighingPage() {
     }
     resetSession();
     middleware.resetSession();
+    anprEvidence.reset();
 
     // Clear weighing-related TanStack Query caches to prevent stale data
     queryClient.removeQueries({ queryKey: ['weighingTransactions'] });
@@ -753,8 +866,9 @@ export default function MultideckWeighingPage() {
     setSelectedVehicleId(undefined);
     setSelectedActId(undefined);
     setComment('');
+    queueHandoff.complete();
     toast.success('Transaction completed.');
-  }, [weighingSession, resetSession, middleware, queryClient, handleProceedToDecision]);
+  }, [weighingSession, resetSession, middleware, queryClient, handleProceedToDecision, queueHandoff, anprEvidence]);
 
   const handleSendToYard = useCallback(async () => {
     if (!weighingSession?.transactionId || !currentStation?.id) return;
@@ -777,8 +891,9 @@ export default function MultideckWeighingPage() {
     if (!weighingSession?.transactionId) return;
     // Flush details before special release
     await handleProceedToDecision();
+    queueHandoff.complete();
     router.push(`/${orgSlug}/weighing/special-release?transactionId=${weighingSession?.transactionId}`);
-  }, [weighingSession, router, orgSlug, handleProceedToDecision]);
+  }, [weighingSession, router, orgSlug, handleProceedToDecision, queueHandoff]);
 
   const handleReweigh = useCallback(async () => {
     await initiateReweigh();
@@ -812,6 +927,7 @@ export default function MultideckWeighingPage() {
     // Explicitly reset middleware and frontend session
     middleware.resetSession();
     resetSession();
+    anprEvidence.reset();
     
     setIsCaptured(false);
     setVehiclePlate('');
@@ -830,8 +946,9 @@ export default function MultideckWeighingPage() {
     setPermitNo('');
     setTrailerNo('');
     setReliefVehicleReg('');
+    queueHandoff.release();
     toast.success('Weighing cancelled.');
-  }, [weighingSession, resetSession, middleware, deleteWeighingMutation]);
+  }, [weighingSession, resetSession, middleware, deleteWeighingMutation, queueHandoff, anprEvidence]);
 
   const handleResumeTransaction = useCallback((txn: WeighingTransaction) => {
     resetSession();
@@ -927,6 +1044,17 @@ export default function MultideckWeighingPage() {
     }
   }, [handleCapture, confirmWeight, isCaptured, localGroupResults, gvwMeasured, weighingSession?.transactionId, selectedConfig, middleware]);
 
+  const handleCaptureRejected = useCallback(() => {
+    stability.rejectCapture({
+      target: 'Multideck GVW',
+      transactionId: weighingSession?.transactionId,
+      vehiclePlate,
+    });
+    toast.warning('Weight is still settling.', {
+      description: 'Wait for the vehicle to come to rest on the decks before taking the weight.',
+    });
+  }, [stability, weighingSession?.transactionId, vehiclePlate]);
+
   const getTotalAxles = useCallback((config: string): number => {
     const configObj = axleConfigurations.find(c => c.axleCode === config);
     return configObj?.axleNumber || 2;
@@ -947,6 +1075,7 @@ export default function MultideckWeighingPage() {
     if (middleware.connected) {
       middleware.sendPlate(vehiclePlate);
     }
+    anprEvidence.confirmPlate(vehiclePlate);
 
     const configToUse = selectedConfig || axleConfigurations[0]?.axleCode || '6C';
     const transaction = await initializeTransaction(vehiclePlate, configToUse, {
@@ -971,10 +1100,10 @@ export default function MultideckWeighingPage() {
     } else {
       toast.error('Could not create transaction. Please check your connection and try again.');
     }
-  }, [existingVehicle, vehiclePlate, createVehicleMutation, middleware, selectedConfig, axleConfigurations, initializeTransaction, currentStation, currentBound, getTotalAxles, handleNextStep]);
+  }, [existingVehicle, vehiclePlate, createVehicleMutation, middleware, anprEvidence, selectedConfig, axleConfigurations, initializeTransaction, currentStation, currentBound, getTotalAxles, handleNextStep]);
 
-  const canProceedFromCapture = vehiclePlate.length >= 5;
-  const canProceedFromVehicle = selectedConfig !== '' && !!complianceResult;
+  const canProceedFromCapture = vehiclePlate.length >= 5 && !scaleDrift?.blocked && !anprEvidence.pendingReview;
+  const canProceedFromVehicle = selectedConfig !== '' && !!complianceResult && !isRiskInspectionPending;
   const stationDisplayName = currentStation ? `${currentStation.name} (${currentBound || 'A'})` : 'Loading...';
 
 
@@ -1028,6 +1157,9 @@ export default function MultideckWeighingPage() {
                 isScalesConnected={isIndicatorConnected}
                 isScaleTestCompleted={isScaleTestCompleted}
                 lastScaleTestAt={lastScaleTestAt}
+                scaleDrift={scaleDrift}
+                onOpenDiagnostics={() => setIsDiagnosticsOpen(true)}
+                diagnosticsRecording={!!deckDiagnostics.active}
                 weighingType="multideck"
                 isSimulationMode={isSimulationMode}
                 isCommercial={isCommercial}
@@ -1064,7 +1196,9 @@ export default function MultideckWeighingPage() {
                   deckWeights={deckWeights}
                   totalGVW={totalGVW}
                   vehicleOnDeck={vehiclePlate.length > 0}
+                  stability={stability.state}
                 />
+                <TrafficControlPanel traffic={traffic} />
                 </WeighingCaptureStep>
               </div>
             )}
@@ -1085,6 +1219,14 @@ export default function MultideckWeighingPage() {
                   </CardContent>
                 </Card>
 
+                <PreWeighRiskPanel
+                  vehiclePlate={debouncedPlate}
+                  driverId={selectedDriverId || undefined}
+                  transporterId={selectedTransporterId || undefined}
+                  transactionId={weighingSession?.transactionId ?? undefined}
+                  onInspectionPendingChange={setIsRiskInspectionPending}
+                />
+
                 <div className="rounded-xl border border-gray-200 bg-gray-50/30 p-4 shadow-sm md:p-5 flex flex-col min-h-0">
                   {/* MULTIDECK card at top (read-only display of deck weights / GVW) */}
                   <div className="mb-4 md:mb-5 shrink-0">
@@ -1108,6 +1250,7 @@ export default function MultideckWeighingPage() {
                         capturedAxles={[]}
                         currentAxle={0}
                         weightReferences={weightReferences}
+                        match={isCaptured ? undefined : axleMatch}
                       />
                       <div className="overflow-hidden rounded-lg border border-gray-200 bg-white shadow-sm">
                         <ImageCaptureCard
@@ -1227,6 +1370,7 @@ export default function MultideckWeighingPage() {
                  totalFeeKes={complianceResult?.totalFeeKes}
                  chargingCurrency={complianceResult?.chargingCurrency}
                  reweighCycleNo={reweighCycleNo}
+                 maxReweighCycles={maxReweighCycles}
                  isValid={validationResult.isValid}
                  missingFields={validationResult.missingFields}
                  onFinishOnly={handleFinishExit}
@@ -1271,6 +1415,8 @@ export default function MultideckWeighingPage() {
             result: gvwOverload > 0 ? 'Overload' : 'Legal',
           }}
           isLoading={isCapturingWeight}
+          stability={isCaptured ? undefined : stability.state}
+          onCaptureRejected={handleCaptureRejected}
         />
 
         <MissingFieldsWarningModal
@@ -1302,6 +1448,22 @@ export default function MultideckWeighingPage() {
           middlewareConnected={middlewareConnected}
         />
 
+        <DeckDiagnosticsDialog
+          open={isDiagnosticsOpen}
+          onOpenChange={setIsDiagnosticsOpen}
+          diagnostics={deckDiagnostics}
+        />
+
+        <PlateReviewModal
+          review={anprEvidence.pendingReview}
+          minConfidence={anprEvidence.minConfidence}
+          onResolve={(plate, reason) => {
+            anprEvidence.resolveReview(plate, reason);
+            setVehiclePlate(plate);
+          }}
+          onDismiss={anprEvidence.dismissReview}
+        />
+
         <DriverModal open={isDriverModalOpen} onOpenChange={setIsDriverModalOpen} onSave={handleSaveDriver} isSaving={isSavingEntity} mode="create" />
         <TransporterModal open={isTransporterModalOpen} onOpenChange={setIsTransporterModalOpen} onSave={handleSaveTransporter} isSaving={isSavingEntity} mode="create" />
         <OriginDestinationModal open={isLocationModalOpen} onOpenChange={setIsLocationModalOpen} onSave={handleSaveLocation} isSaving={isSavingEntity} mode="create" />
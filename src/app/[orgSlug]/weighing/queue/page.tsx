@@ -0,0 +1,343 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { AppShell } from '@/components/layout/AppShell';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { WantedVehicleAlert } from '@/components/weighing/WantedVehicleAlert';
+import { QueueCheckInModal } from '@/components/weighing/modals';
+import { useMyStation } from '@/hooks/queries';
+import { useMiddleware, type PlateDetectedData } from '@/hooks/useMiddleware';
+import { useModuleAccess } from '@/hooks/useModuleAccess';
+import { useOrgSlug } from '@/hooks/useOrgSlug';
+import {
+  enqueueArrival,
+  getBoundQueueStats,
+  getStationQueue,
+  getWaiting,
+  isStationQueueEvent,
+  normalizePlate,
+  prescreenVehicle,
+  QUEUE_HANDOFF_PARAM,
+  setQueueEntryFlags,
+  updateQueueEntryStatus,
+  type QueueArrival,
+  type StationQueueEntry,
+} from '@/lib/offline/stationQueue';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowRight, Camera, Clock, ListOrdered, Plus, RefreshCw, UserCheck, Wifi, WifiOff, X } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+/** How often wait times on screen are refreshed. */
+const TICK_MS = 15_000;
+
+type WeighingScreen = 'multideck' | 'mobile';
+
+function formatDuration(ms: number | null): string {
+  if (ms == null) return '—';
+  const minutes = Math.max(0, Math.round(ms / 60_000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${String(minutes % 60).padStart(2, '0')} min`;
+}
+
+/**
+ * Station Queue Page
+ *
+ * Live board of vehicles waiting at the weighbridge, per bound. Vehicles join from ANPR reads at
+ * the approach (TruConnect `plate-detected`) or a manual check-in, and are pre-screened for open
+ * tags, unreleased yard entries and expired permits. "Weigh" hands the vehicle to the weighing
+ * screen, which pre-fills the vehicle details and marks the entry done when the weighing completes
+ * (see lib/offline/stationQueue).
+ */
+export default function StationQueuePage() {
+  const router = useRouter();
+  const orgSlug = useOrgSlug();
+  const { isCommercial } = useModuleAccess();
+  const { data: currentStation } = useMyStation();
+  const stationId = currentStation?.id;
+
+  const bounds = useMemo(() => {
+    const a = currentStation?.boundACode || 'A';
+    return currentStation?.supportsBidirectional ? [a, currentStation.boundBCode || 'B'] : [a];
+  }, [currentStation]);
+
+  const [entries, setEntries] = useState<StationQueueEntry[]>([]);
+  const [now, setNow] = useState(() => new Date());
+  const [screen, setScreen] = useState<WeighingScreen>('multideck');
+  const [isCheckInOpen, setIsCheckInOpen] = useState(false);
+  const [lastArrival, setLastArrival] = useState<QueueArrival | null>(null);
+
+  useEffect(() => {
+    if (!stationId) return;
+    setEntries(getStationQueue(stationId));
+    // The weighing screens update the queue from other tabs
+    const onStorage = (e: StorageEvent) => {
+      if (isStationQueueEvent(e, stationId)) setEntries(getStationQueue(stationId));
+    };
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, [stationId]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Tags, yard and permits are enforcement records; commercial stations queue without them.
+  const prescreen = useCallback(async (entry: StationQueueEntry) => {
+    if (!stationId || isCommercial) return;
+    try {
+      const flags = await prescreenVehicle(entry.plateNumber);
+      setEntries(setQueueEntryFlags(stationId, entry.id, flags));
+      if (flags.length > 0) {
+        toast.warning(`${entry.plateNumber}: ${flags.map((f) => f.label).join(' · ')}`);
+      }
+    } catch {
+      /* offline — stays unscreened, can be re-screened from the board */
+    }
+  }, [stationId, isCommercial]);
+
+  const handleArrival = useCallback((arrival: QueueArrival) => {
+    if (!stationId) return;
+    setLastArrival(arrival);
+    const plate = normalizePlate(arrival.plateNumber);
+    const before = getStationQueue(stationId);
+    const next = enqueueArrival(stationId, arrival);
+    setEntries(next);
+    const isNew = !before.some((e) => normalizePlate(e.plateNumber) === plate && (e.status === 'waiting' || e.status === 'weighing'));
+    const entry = next.find((e) => normalizePlate(e.plateNumber) === plate && e.status === 'waiting');
+    if (isNew && entry) void prescreen(entry);
+  }, [stationId, prescreen]);
+
+  const handlePlateDetected = useCallback((plate: PlateDetectedData) => {
+    handleArrival({
+      plateNumber: plate.plateNumber,
+      // Cameras report A/B; the board uses the station's bound codes
+      bound: plate.bound === 'B' && bounds[1] ? bounds[1] : bounds[0],
+      source: 'anpr',
+      confidence: plate.confidence,
+      anprImagePath: plate.anprImagePath,
+      arrivedAt: plate.timestamp,
+    });
+  }, [handleArrival, bounds]);
+
+  const middleware = useMiddleware({
+    stationCode: currentStation?.code || '',
+    mode: 'queue',
+    clientName: `TruLoad Frontend - ${currentStation?.name || 'Queue'}`,
+    clientType: 'truload-frontend',
+    onPlateDetected: handlePlateDetected,
+  });
+
+  const handleCheckIn = useCallback((arrival: QueueArrival) => {
+    handleArrival(arrival);
+    setIsCheckInOpen(false);
+    toast.success(`${arrival.plateNumber} checked in`);
+  }, [handleArrival]);
+
+  const handleTake = useCallback((entry: StationQueueEntry) => {
+    router.push(`/${orgSlug}/weighing/${screen}?${QUEUE_HANDOFF_PARAM}=${encodeURIComponent(entry.id)}`);
+  }, [router, orgSlug, screen]);
+
+  const handleLeft = useCallback((entry: StationQueueEntry) => {
+    if (!stationId) return;
+    setEntries(updateQueueEntryStatus(stationId, entry.id, 'left'));
+  }, [stationId]);
+
+  const stats = useMemo(() => bounds.map((b) => ({ bound: b, ...getBoundQueueStats(entries, b, now) })), [bounds, entries, now]);
+  const inService = entries.filter((e) => e.status === 'weighing');
+
+  return (
+    <AppShell title="Station Queue" subtitle={currentStation?.name ?? 'Weighbridge Queue'}>
+      <ProtectedRoute requiredPermissions={['weighing.create']}>
+        <div className="space-y-4">
+          {/* Status row */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm">
+              {middleware.connected ? (
+                <Wifi className="h-4 w-4 text-green-600" />
+              ) : (
+                <WifiOff className="h-4 w-4 text-red-500" />
+              )}
+              <span className="text-gray-600">
+                {middleware.connected ? 'ANPR arrivals live' : 'ANPR disconnected — use manual check-in'}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-gray-500">Weigh on</span>
+              <Select value={screen} onValueChange={(v) => setScreen(v as WeighingScreen)}>
+                <SelectTrigger className="h-9 w-[150px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="multideck">Multideck</SelectItem>
+                  <SelectItem value="mobile">Mobile scale</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button size="sm" onClick={() => setIsCheckInOpen(true)} className="gap-1" disabled={!stationId}>
+                <Plus className="h-4 w-4" />
+                Check-in
+              </Button>
+            </div>
+          </div>
+
+          {/* Per-bound stats */}
+          <div className={cn('grid gap-3', bounds.length > 1 ? 'lg:grid-cols-2' : '')}>
+            {stats.map((s) => (
+              <Card key={s.bound} className="border-gray-200">
+                <CardContent className="p-4 grid grid-cols-2 sm:grid-cols-5 gap-3">
+                  <div>
+                    <p className="text-xs text-gray-500">{bounds.length > 1 ? `Bound ${s.bound}` : 'Queue'}</p>
+                    <p className="text-2xl font-bold text-gray-900">{s.waiting}</p>
+                    <p className="text-xs text-gray-500">waiting · {s.inService} on scale</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Longest wait</p>
+                    <p className={cn('text-lg font-semibold', s.longestWaitMs > 30 * 60_000 ? 'text-red-600' : 'text-gray-900')}>
+                      {s.waiting ? formatDuration(s.longestWaitMs) : '—'}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Avg wait</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatDuration(s.avgWaitMs)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Avg service</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatDuration(s.avgServiceMs)}</p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-gray-500">Est. wait if joining</p>
+                    <p className="text-lg font-semibold text-gray-900">{formatDuration(s.estimatedWaitMs)}</p>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* On the scale */}
+          {inService.length > 0 && (
+            <Card className="border-blue-200 bg-blue-50/40">
+              <CardContent className="p-3 flex flex-wrap items-center gap-3 text-sm">
+                <span className="font-medium text-blue-800">On the scale:</span>
+                {inService.map((e) => (
+                  <span key={e.id} className="flex items-center gap-1.5">
+                    <span className="font-mono font-semibold">{e.plateNumber}</span>
+                    <span className="text-xs text-gray-500">
+                      {bounds.length > 1 && `${e.bound} · `}{e.weighingMode} · {formatDuration(now.getTime() - new Date(e.takenAt!).getTime())}
+                    </span>
+                  </span>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Lanes */}
+          <div className={cn('grid gap-4', bounds.length > 1 ? 'lg:grid-cols-2' : '')}>
+            {bounds.map((bound) => {
+              const waiting = getWaiting(entries, bound);
+              return (
+                <Card key={bound} className="border-gray-200">
+                  <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-sm font-semibold flex items-center gap-2">
+                      <ListOrdered className="h-4 w-4 text-blue-600" />
+                      {bounds.length > 1 ? `Bound ${bound}` : 'Waiting'}
+                      <Badge variant="outline">{waiting.length}</Badge>
+                    </CardTitle>
+                    <Button size="sm" className="gap-1" disabled={waiting.length === 0} onClick={() => handleTake(waiting[0])}>
+                      Take next
+                      <ArrowRight className="h-3.5 w-3.5" />
+                    </Button>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {waiting.length === 0 ? (
+                      <p className="text-sm text-gray-500 py-6 text-center">No vehicles waiting.</p>
+                    ) : (
+                      waiting.map((entry, i) => (
+                        <div
+                          key={entry.id}
+                          className={cn(
+                            'rounded-lg border p-3',
+                            entry.flags.length > 0 ? 'border-red-200 bg-red-50/50' : 'border-gray-200'
+                          )}
+                        >
+                          <div className="flex items-center justify-between gap-2">
+                            <div className="flex items-center gap-2">
+                              <span className="text-xs text-gray-400 w-5">{i + 1}</span>
+                              <span className="font-mono font-bold">{entry.plateNumber}</span>
+                              {entry.source === 'anpr' ? (
+                                <Badge variant="outline" className="gap-1 text-xs">
+                                  <Camera className="h-3 w-3" />
+                                  ANPR{entry.confidence != null && ` ${Math.round(entry.confidence * 100)}%`}
+                                </Badge>
+                              ) : (
+                                <Badge variant="outline" className="gap-1 text-xs">
+                                  <UserCheck className="h-3 w-3" />
+                                  Check-in
+                                </Badge>
+                              )}
+                            </div>
+                            <span className="flex items-center gap-1 text-xs text-gray-500" title={format(new Date(entry.arrivedAt), 'HH:mm:ss')}>
+                              <Clock className="h-3 w-3" />
+                              {formatDuration(now.getTime() - new Date(entry.arrivedAt).getTime())}
+                            </span>
+                          </div>
+                          {(entry.flags.length > 0 || (!entry.prescreenedAt && !isCommercial)) && (
+                            <div className="mt-2 flex flex-wrap items-center gap-1.5">
+                              {entry.flags.map((flag) => (
+                                <Badge key={`${flag.kind}-${flag.label}`} variant="destructive" className="gap-1" title={flag.detail}>
+                                  <AlertTriangle className="h-3 w-3" />
+                                  {flag.label}
+                                </Badge>
+                              ))}
+                              {!entry.prescreenedAt && !isCommercial && (
+                                <Button variant="ghost" size="sm" className="h-6 gap-1 text-xs text-gray-500" onClick={() => void prescreen(entry)}>
+                                  <RefreshCw className="h-3 w-3" />
+                                  Not screened — retry
+                                </Button>
+                              )}
+                            </div>
+                          )}
+                          {entry.notes && <p className="mt-1 text-xs text-gray-600">{entry.notes}</p>}
+                          <div className="mt-2 flex gap-2">
+                            <Button size="sm" variant={i === 0 ? 'default' : 'outline'} className="flex-1 gap-1" onClick={() => handleTake(entry)}>
+                              Weigh
+                              <ArrowRight className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => handleLeft(entry)} title="Left without weighing">
+                              <X className="h-3.5 w-3.5" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        </div>
+
+        <QueueCheckInModal
+          open={isCheckInOpen}
+          onOpenChange={setIsCheckInOpen}
+          bounds={bounds}
+          defaultBound={bounds[0]}
+          onSave={handleCheckIn}
+        />
+
+        {/* Every arrival is checked against the warrant watch-list */}
+        {!isCommercial && lastArrival && (
+          <WantedVehicleAlert
+            source={lastArrival.source === 'anpr' ? 'ANPR' : 'Queue check-in'}
+            subject={{ vehicleRegNumber: lastArrival.plateNumber }}
+          />
+        )}
+      </ProtectedRoute>
+    </AppShell>
+  );
+}
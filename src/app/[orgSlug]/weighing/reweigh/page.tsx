@@ -0,0 +1,513 @@
+"use client";
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { AppShell } from '@/components/layout/AppShell';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useAllSettings,
+  useCaseByWeighingId,
+  useCreateCaseFromWeighing,
+  useInitiateReweigh,
+  useReweighChain,
+  useWeighingCompliance,
+  useWeighingTransaction,
+  useYardEntries,
+} from '@/hooks/queries';
+import { useHasPermission } from '@/hooks/useAuth';
+import { useOrgSlug } from '@/hooks/useOrgSlug';
+import type { ComplianceResult, WeighingTransaction } from '@/lib/api/weighing';
+import { formatDateTime, formatWeight } from '@/lib/formatters';
+import { compareReweighToPlan, planRedistribution } from '@/lib/load-redistribution';
+import {
+  capturedWeighings,
+  compareWeighings,
+  defaultAuthoritativeWeighing,
+  resolveMaxReweighCycles,
+  reweighsRemaining,
+  type CompareWeighingInput,
+  type GroupDeltaStatus,
+} from '@/lib/reweigh';
+import { cn } from '@/lib/utils';
+import {
+  AlertCircle,
+  ArrowLeft,
+  CheckCircle2,
+  FileText,
+  GitCompare,
+  Loader2,
+  PackageMinus,
+  RefreshCw,
+  Shuffle,
+  XCircle,
+} from 'lucide-react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Suspense, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+const kg = (n: number) => formatWeight(n, { unit: true });
+const signedKg = (n: number) => `${n > 0 ? '+' : ''}${kg(n)}`;
+
+const GROUP_STATUS: Record<GroupDeltaStatus, { label: string; className: string }> = {
+  cleared: { label: 'Cleared', className: 'bg-green-100 text-green-800 border-green-200' },
+  'still-over': { label: 'Still over', className: 'bg-red-100 text-red-800 border-red-200' },
+  'new-over': { label: 'Now over', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  within: { label: 'Within', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+};
+
+function toCompareInput(compliance: ComplianceResult): CompareWeighingInput {
+  return {
+    groups: compliance.groupResults.map((g) => ({
+      groupLabel: g.groupLabel,
+      measuredKg: g.groupWeightKg,
+      limitKg: g.effectiveLimitKg || g.groupPermissibleKg,
+    })),
+    gvwMeasuredKg: compliance.gvwMeasuredKg,
+    gvwLimitKg: compliance.gvwEffectiveLimitKg ?? compliance.gvwPermissibleKg,
+  };
+}
+
+const weighingLabel = (t: WeighingTransaction) =>
+  `${t.reweighCycleNo > 0 ? `Re-weigh #${t.reweighCycleNo}` : 'Original'} · ${t.ticketNumber}`;
+
+/**
+ * Re-weigh Workspace
+ *
+ * Puts a weighing and its re-weighs side by side: axle-group results with per-group deltas, the
+ * load moved against the yard entry's redistribution / offload plan, and the final compliance
+ * decision. Further re-weighs are started here up to the weighing's limit, and the case is
+ * created on the weighing chosen as authoritative.
+ */
+export default function ReweighWorkspacePage() {
+  return (
+    <Suspense fallback={
+      <AppShell title="Re-weigh Workspace" subtitle="Compare a weighing with its re-weighs">
+        <div className="flex items-center justify-center min-h-[400px]">
+          <Loader2 className="h-8 w-8 animate-spin text-blue-500" />
+        </div>
+      </AppShell>
+    }>
+      <ReweighWorkspaceContent />
+    </Suspense>
+  );
+}
+
+function ReweighWorkspaceContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const orgSlug = useOrgSlug();
+  const weighingId = searchParams.get('weighingId') ?? undefined;
+  const canReweigh = useHasPermission('weighing.create');
+  const canCreateCase = useHasPermission('case.update');
+
+  const { data: transaction, isLoading: isLoadingTransaction } = useWeighingTransaction(weighingId);
+  const { data: chain = [], isLoading: isLoadingChain } = useReweighChain(weighingId, transaction?.vehicleRegNumber);
+  const { data: settings } = useAllSettings();
+
+  const original = chain[0];
+  const latest = chain[chain.length - 1];
+  const captured = useMemo(() => capturedWeighings(chain), [chain]);
+  const defaultAuthoritative = useMemo(() => defaultAuthoritativeWeighing(chain), [chain]);
+  const maxCycles = resolveMaxReweighCycles(original?.reweighLimit, settings);
+  const remaining = reweighsRemaining(latest?.reweighCycleNo ?? 0, maxCycles);
+  const hasUncapturedReweigh = !!latest && latest.id !== original?.id && latest.gvwMeasuredKg <= 0;
+
+  // Comparison: original against the latest captured re-weigh unless the officer picks others
+  const [beforePick, setBeforePick] = useState<string>();
+  const [afterPick, setAfterPick] = useState<string>();
+  const beforeId = beforePick ?? original?.id;
+  const afterId = afterPick ?? defaultAuthoritative?.id;
+  const { data: beforeCompliance, isLoading: isLoadingBefore } = useWeighingCompliance(beforeId);
+  const { data: afterCompliance, isLoading: isLoadingAfter } = useWeighingCompliance(afterId);
+  const comparison = useMemo(
+    () => beforeCompliance && afterCompliance && beforeId !== afterId
+      ? compareWeighings(toCompareInput(beforeCompliance), toCompareInput(afterCompliance))
+      : null,
+    [beforeCompliance, afterCompliance, beforeId, afterId],
+  );
+
+  // Yard entry the vehicle was held on, and what the redistribution plan asked for
+  const { data: yardPage } = useYardEntries(
+    { vehicleRegNo: transaction?.vehicleRegNumber, pageNumber: 1, pageSize: 20 },
+    !!transaction?.vehicleRegNumber,
+  );
+  const yardEntry = useMemo(() => {
+    const ids = new Set(chain.map((t) => t.id));
+    return yardPage?.items.find((e) => ids.has(e.weighingId));
+  }, [yardPage, chain]);
+  const { data: originalCompliance } = useWeighingCompliance(original?.id);
+  const plan = useMemo(() => {
+    if (!originalCompliance?.groupResults?.length) return null;
+    const { groups, gvwLimitKg } = toCompareInput(originalCompliance);
+    return planRedistribution({ groups, gvwLimitKg });
+  }, [originalCompliance]);
+  const followedPlan = useMemo(
+    () => plan && afterCompliance && afterId !== original?.id
+      ? compareReweighToPlan(plan, afterCompliance.groupResults.map((g) => ({ groupLabel: g.groupLabel, measuredKg: g.groupWeightKg }))).followedPlan
+      : null,
+    [plan, afterCompliance, afterId, original?.id],
+  );
+
+  // Final decision: the authoritative weighing and the case resting on it
+  const { data: existingCase } = useCaseByWeighingId(original?.id);
+  const [authoritativePick, setAuthoritativePick] = useState<string>();
+  const [authoritativeReason, setAuthoritativeReason] = useState('');
+  const authoritativeId = authoritativePick ?? defaultAuthoritative?.id;
+  const authoritative = chain.find((t) => t.id === authoritativeId);
+  const needsReason = !!authoritativeId && authoritativeId !== defaultAuthoritative?.id;
+
+  const reweighMutation = useInitiateReweigh();
+  const createCaseMutation = useCreateCaseFromWeighing();
+
+  const handleStartReweigh = async () => {
+    if (!original) return;
+    try {
+      const reweigh = await reweighMutation.mutateAsync({ originalWeighingId: original.id });
+      toast.success(`Re-weigh ${reweigh.ticketNumber} created`, {
+        description: 'Resume it from the weighing screen to capture the new weights.',
+      });
+    } catch {
+      toast.error('Failed to start re-weigh');
+    }
+  };
+
+  const handleCreateCase = async () => {
+    if (!original || !authoritative) return;
+    if (needsReason && !authoritativeReason.trim()) {
+      toast.error('Give a reason for not using the latest weighing.');
+      return;
+    }
+    try {
+      const created = await createCaseMutation.mutateAsync({
+        weighingId: original.id,
+        authoritativeWeighingId: authoritative.id,
+        authoritativeReason: needsReason ? authoritativeReason.trim() : undefined,
+      });
+      toast.success(`Case ${created.caseNo} created on ${authoritative.ticketNumber}`);
+    } catch {
+      toast.error('Failed to create case');
+    }
+  };
+
+  if (!weighingId) {
+    return (
+      <AppShell title="Re-weigh Workspace" subtitle="Compare a weighing with its re-weighs">
+        <ProtectedRoute requiredPermissions={['weighing.read']}>
+          <div className="flex items-center justify-center min-h-[400px]">
+            <Card className="max-w-md">
+              <CardContent className="pt-6 text-center">
+                <AlertCircle className="h-12 w-12 mx-auto text-yellow-500 mb-4" />
+                <p className="text-gray-600 mb-4">No weighing specified.</p>
+                <Link href={`/${orgSlug}/weighing`}>
+                  <Button>
+                    <ArrowLeft className="h-4 w-4 mr-2" />
+                    Back to Weighing
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          </div>
+        </ProtectedRoute>
+      </AppShell>
+    );
+  }
+
+  const isLoading = isLoadingTransaction || isLoadingChain;
+  const authoritativeCompliant = authoritative ? authoritative.isCompliant : undefined;
+
+  return (
+    <AppShell title="Re-weigh Workspace" subtitle="Compare a weighing with its re-weighs">
+      <ProtectedRoute requiredPermissions={['weighing.read']}>
+        <div className="space-y-6">
+          <div>
+            <Button variant="ghost" onClick={() => router.back()}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center min-h-[400px]">
+              <div className="text-center">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-blue-500 mb-4" />
+                <p className="text-gray-500">Loading weighings...</p>
+              </div>
+            </div>
+          ) : !original ? (
+            <Card>
+              <CardContent className="py-10 text-center text-sm text-gray-500">Weighing not found.</CardContent>
+            </Card>
+          ) : (
+            <>
+              {/* Chain */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <div className="flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        <GitCompare className="h-5 w-5" />
+                        {original.vehicleRegNumber}
+                      </CardTitle>
+                      <CardDescription>
+                        {chain.length - 1} of {maxCycles} re-weighs used
+                        {remaining === 0 && ' — limit reached'}
+                      </CardDescription>
+                    </div>
+                    {canReweigh && (
+                      <Button
+                        onClick={handleStartReweigh}
+                        disabled={remaining === 0 || hasUncapturedReweigh || reweighMutation.isPending || !!existingCase}
+                        title={hasUncapturedReweigh ? 'Capture the open re-weigh first' : undefined}
+                      >
+                        {reweighMutation.isPending ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                        )}
+                        Start Re-weigh
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-wrap gap-2">
+                    {chain.map((t) => (
+                      <div
+                        key={t.id}
+                        className={cn(
+                          'rounded-lg border px-3 py-2 text-sm',
+                          t.id === authoritativeId ? 'border-blue-400 bg-blue-50' : 'border-gray-200',
+                        )}
+                      >
+                        <div className="font-medium">{weighingLabel(t)}</div>
+                        <div className="text-xs text-gray-500">
+                          {t.gvwMeasuredKg > 0 ? (
+                            <>
+                              {kg(t.gvwMeasuredKg)} · {t.isCompliant ? 'Compliant' : `Over ${kg(t.overloadKg)}`}
+                            </>
+                          ) : (
+                            'Not captured yet'
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-400">{formatDateTime(t.weighedAt)}</div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              {/* Side-by-side axle groups */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-lg">Axle Group Comparison</CardTitle>
+                  <div className="grid gap-3 sm:grid-cols-2 pt-2 max-w-2xl">
+                    {([['Compare', beforeId, setBeforePick], ['With', afterId, setAfterPick]] as const).map(([label, value, set]) => (
+                      <div key={label} className="space-y-1.5">
+                        <Label>{label}</Label>
+                        <Select value={value ?? ''} onValueChange={set}>
+                          <SelectTrigger><SelectValue placeholder="Select weighing" /></SelectTrigger>
+                          <SelectContent>
+                            {captured.map((t) => (
+                              <SelectItem key={t.id} value={t.id}>{weighingLabel(t)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+                </CardHeader>
+                <CardContent className="p-0 overflow-x-auto">
+                  {isLoadingBefore || isLoadingAfter ? (
+                    <div className="py-8 text-center text-gray-500">
+                      <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+                    </div>
+                  ) : !comparison ? (
+                    <p className="py-8 text-center text-sm text-gray-500">
+                      {captured.length < 2 ? 'No captured re-weigh to compare yet.' : 'Pick two different weighings.'}
+                    </p>
+                  ) : (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="pl-6">Group</TableHead>
+                          <TableHead className="text-right">Limit</TableHead>
+                          <TableHead className="text-right">Before</TableHead>
+                          <TableHead className="text-right">After</TableHead>
+                          <TableHead className="text-right">Delta</TableHead>
+                          <TableHead className="pr-6">Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {comparison.groups.map((g) => (
+                          <TableRow key={g.groupLabel}>
+                            <TableCell className="pl-6 font-mono font-semibold">{g.groupLabel}</TableCell>
+                            <TableCell className="text-right font-mono">{kg(g.limitKg)}</TableCell>
+                            <TableCell className={cn('text-right font-mono', g.beforeOverKg > 0 && 'text-red-600')}>
+                              {g.beforeKg != null ? kg(g.beforeKg) : '—'}
+                            </TableCell>
+                            <TableCell className={cn('text-right font-mono', g.afterOverKg > 0 && 'text-red-600')}>
+                              {g.afterKg != null ? kg(g.afterKg) : '—'}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">{signedKg(g.deltaKg)}</TableCell>
+                            <TableCell className="pr-6">
+                              <Badge variant="outline" className={GROUP_STATUS[g.status].className}>
+                                {GROUP_STATUS[g.status].label}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow className="bg-gray-50 font-semibold">
+                          <TableCell className="pl-6">GVW</TableCell>
+                          <TableCell className="text-right font-mono">{kg(comparison.gvwLimitKg)}</TableCell>
+                          <TableCell className="text-right font-mono">{kg(comparison.gvwBeforeKg)}</TableCell>
+                          <TableCell className="text-right font-mono">{kg(comparison.gvwAfterKg)}</TableCell>
+                          <TableCell className="text-right font-mono">{signedKg(comparison.gvwDeltaKg)}</TableCell>
+                          <TableCell className="pr-6">
+                            {comparison.compliantAfter ? (
+                              <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Compliant</Badge>
+                            ) : (
+                              <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">Overloaded</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  )}
+                  {comparison && !comparison.sameConfiguration && (
+                    <p className="px-6 py-3 text-xs text-amber-700">
+                      The axle groups differ between the two weighings, so load shifted between groups can&apos;t be worked out.
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+                {/* Load moved */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Load Moved</CardTitle>
+                    <CardDescription>
+                      {yardEntry ? (
+                        <>Yard entry: {yardEntry.reason.replace(/_/g, ' ')} · {yardEntry.status}</>
+                      ) : (
+                        'No yard entry found for this vehicle.'
+                      )}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 text-gray-600"><Shuffle className="h-4 w-4" />Shifted between groups</span>
+                      <span className="font-mono font-semibold">
+                        {comparison ? kg(comparison.shiftedKg) : '—'}
+                        {plan && <span className="ml-2 text-xs text-gray-400">planned {kg(plan.shiftKg)}</span>}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="flex items-center gap-2 text-gray-600"><PackageMinus className="h-4 w-4" />Offloaded</span>
+                      <span className="font-mono font-semibold">
+                        {comparison ? kg(comparison.offloadedKg) : '—'}
+                        {plan && <span className="ml-2 text-xs text-gray-400">planned {kg(plan.offloadKg)}</span>}
+                      </span>
+                    </div>
+                    {followedPlan != null && (
+                      <p className={cn('text-xs', followedPlan ? 'text-green-700' : 'text-amber-700')}>
+                        {followedPlan
+                          ? 'The re-weigh matches the redistribution plan.'
+                          : 'The re-weigh does not match the redistribution plan.'}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {/* Final decision */}
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-lg">Final Decision</CardTitle>
+                    <CardDescription>The case rests on the authoritative weighing.</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4 text-sm">
+                    {existingCase ? (
+                      <div className="space-y-2">
+                        <p>
+                          Case <span className="font-mono font-semibold">{existingCase.caseNo}</span> rests on{' '}
+                          <span className="font-mono">{existingCase.authoritativeTicketNo || existingCase.weighingTicketNo}</span>.
+                        </p>
+                        <Link href={`/${orgSlug}/cases/${existingCase.id}`}>
+                          <Button variant="outline" size="sm">
+                            <FileText className="h-4 w-4 mr-2" />
+                            Open Case
+                          </Button>
+                        </Link>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="space-y-1.5">
+                          <Label>Authoritative weighing</Label>
+                          <Select value={authoritativeId ?? ''} onValueChange={setAuthoritativePick}>
+                            <SelectTrigger><SelectValue placeholder="Select weighing" /></SelectTrigger>
+                            <SelectContent>
+                              {captured.map((t) => (
+                                <SelectItem key={t.id} value={t.id}>
+                                  {weighingLabel(t)}{t.id === defaultAuthoritative?.id ? ' (latest)' : ''}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {needsReason && (
+                          <div className="space-y-1.5">
+                            <Label htmlFor="authoritative-reason">Reason for not using the latest weighing *</Label>
+                            <Textarea
+                              id="authoritative-reason"
+                              rows={2}
+                              value={authoritativeReason}
+                              onChange={(e) => setAuthoritativeReason(e.target.value)}
+                            />
+                          </div>
+                        )}
+                        {authoritative && (
+                          <div
+                            className={cn(
+                              'flex items-start gap-2 rounded-lg border p-3',
+                              authoritativeCompliant ? 'border-green-200 bg-green-50 text-green-800' : 'border-red-200 bg-red-50 text-red-800',
+                            )}
+                          >
+                            {authoritativeCompliant ? (
+                              <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            ) : (
+                              <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                            )}
+                            <span>
+                              {authoritativeCompliant
+                                ? 'Compliant — no case needed; release the vehicle from the yard.'
+                                : `Overloaded by ${kg(authoritative.overloadKg)} — charge on ${authoritative.ticketNumber}.`}
+                            </span>
+                          </div>
+                        )}
+                        {canCreateCase && authoritative && !authoritativeCompliant && (
+                          <Button
+                            onClick={handleCreateCase}
+                            disabled={createCaseMutation.isPending || hasUncapturedReweigh || (needsReason && !authoritativeReason.trim())}
+                          >
+                            {createCaseMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                            Create Case
+                          </Button>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            </>
+          )}
+        </div>
+      </ProtectedRoute>
+    </AppShell>
+  );
+}
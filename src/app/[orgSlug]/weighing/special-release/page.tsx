@@ -30,12 +30,14 @@ import {
 import { useWeighingTransaction } from '@/hooks/queries/useWeighingQueries';
 import { useOrgSlug } from '@/hooks/useOrgSlug';
 import { downloadSpecialReleaseCertificate, SpecialReleaseDto } from '@/lib/api/caseRegister';
+import { downloadEvidencePack } from '@/lib/offline/anprEvidence';
 import {
     AlertCircle,
     ArrowLeft,
     CheckCircle2,
     Clock,
     Download,
+    FileArchive,
     FileCheck,
     FileText,
     Loader2,
@@ -89,6 +91,7 @@ function SpecialReleaseContent() {
   const [isCreatingCase, setIsCreatingCase] = useState(false);
   const [rejectionReason, setRejectionReason] = useState('');
   const [showRejectModal, setShowRejectModal] = useState(false);
+  const [packReleaseId, setPackReleaseId] = useState<string | null>(null);
   const [selectedReleaseId, setSelectedReleaseId] = useState<string | null>(null);
 
   // Queries
@@ -207,6 +210,32 @@ function SpecialReleaseContent() {
       title: `Special Release ${certificateNo}`,
     }), [openPreview]);
 
+  // Certificate bundled with the weighing's photo evidence and its hash manifest
+  const handleEvidencePack = useCallback(async (releaseId: string, certificateNo: string) => {
+    if (!transactionId) return;
+    setPackReleaseId(releaseId);
+    try {
+      const { manifest, documentIncluded } = await downloadEvidencePack(
+        transactionId,
+        {
+          title: `Special Release ${certificateNo}`,
+          fileName: `SpecialRelease_${certificateNo}.pdf`,
+          load: () => downloadSpecialReleaseCertificate(releaseId),
+        },
+        `EvidencePack_${certificateNo}`,
+      );
+      const { frames, mismatched, missing } = manifest.summary;
+      if (!documentIncluded) toast.warning('Certificate could not be fetched; the pack has the evidence only.');
+      if (mismatched > 0) toast.error(`${mismatched} of ${frames} images no longer match their capture hash.`);
+      else toast.success(`Evidence pack downloaded (${frames - missing} of ${frames} images).`);
+    } catch (err) {
+      console.error('Failed to build evidence pack:', err);
+      toast.error('Failed to build evidence pack.');
+    } finally {
+      setPackReleaseId(null);
+    }
+  }, [transactionId]);
+
   // Get status badge for release
   const getStatusBadge = (release: SpecialReleaseDto) => {
     if (release.isApproved) {
@@ -518,6 +547,21 @@ function SpecialReleaseContent() {
                                   Certificate
                                 </Button>
                               )}
+                              {release.isApproved && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleEvidencePack(release.id, release.certificateNo)}
+                                  disabled={packReleaseId === release.id}
+                                >
+                                  {packReleaseId === release.id ? (
+                                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                  ) : (
+                                    <FileArchive className="h-4 w-4 mr-1" />
+                                  )}
+                                  Evidence Pack
+                                </Button>
+                              )}
                               {!release.isApproved && !release.isRejected && (
                                 <>
                                   <Button
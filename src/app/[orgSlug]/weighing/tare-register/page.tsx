@@ -34,11 +34,18 @@ import {
   useVehicleTareHistory,
 } from '@/hooks/queries';
 import { useAuth } from '@/hooks/useAuth';
+import { getCurrentOrganization } from '@/lib/api/setup';
 import { hardDeleteTare } from '@/lib/api/weighing';
+import {
+  evaluateTareCandidates,
+  getReTareStatus,
+  resolveTarePolicy,
+  type TarePolicy,
+} from '@/lib/tare-policy';
 import type { Vehicle, VehicleTareHistory } from '@/types/weighing';
-import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { AlertTriangle, CheckCircle2, Clock, History, Plus, Search, Trash2, Truck, X } from 'lucide-react';
-import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, CalendarClock, CheckCircle2, Clock, History, Plus, Search, Trash2, Truck, X } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { toast } from 'sonner';
 
 function formatDate(iso?: string) {
@@ -53,15 +60,21 @@ function formatDateTime(iso?: string) {
   });
 }
 
-function getTareStatus(vehicle: Vehicle): { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' } {
-  if (!vehicle.lastTareWeighedAt) return { label: 'No Tare', variant: 'outline' };
-  if (!vehicle.tareExpiryDays) return { label: 'Active', variant: 'default' };
-  const weighedAt = new Date(vehicle.lastTareWeighedAt);
-  const expiresAt = new Date(weighedAt.getTime() + vehicle.tareExpiryDays * 86_400_000);
-  const daysLeft = Math.ceil((expiresAt.getTime() - Date.now()) / 86_400_000);
-  if (daysLeft <= 0) return { label: 'Expired', variant: 'destructive' };
-  if (daysLeft <= 7) return { label: `Expires in ${daysLeft}d`, variant: 'secondary' };
-  return { label: 'Active', variant: 'default' };
+function getTareStatus(
+  vehicle: Vehicle,
+  policy: TarePolicy
+): { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' } {
+  const reTare = getReTareStatus(vehicle, policy);
+  switch (reTare.status) {
+    case 'no-tare':
+      return { label: 'No Tare', variant: 'outline' };
+    case 'overdue':
+      return { label: 'Expired', variant: 'destructive' };
+    case 'due-soon':
+      return { label: `Expires in ${reTare.daysLeft}d`, variant: 'secondary' };
+    default:
+      return { label: 'Active', variant: 'default' };
+  }
 }
 
 // ─── Record Tare Dialog ───────────────────────────────────────────────────────
@@ -176,12 +189,19 @@ function RecordTareDialog({ vehicle, open, onClose }: RecordTareDialogProps) {
 
 interface TareHistoryDialogProps {
   vehicle: Vehicle | null;
+  policy: TarePolicy;
   open: boolean;
   onClose: () => void;
 }
 
-function TareHistoryDialog({ vehicle, open, onClose }: TareHistoryDialogProps) {
+function TareHistoryDialog({ vehicle, policy, open, onClose }: TareHistoryDialogProps) {
   const { data: history, isLoading } = useVehicleTareHistory(vehicle?.id);
+  const evaluations = useMemo(
+    () => new Map(
+      vehicle && history ? evaluateTareCandidates(vehicle, history, policy).map((e) => [e.id, e]) : []
+    ),
+    [vehicle, history, policy]
+  );
   const { user } = useAuth();
   const isPlatformOwner = user?.isSuperUser === true;
   const queryClient = useQueryClient();
@@ -255,6 +275,12 @@ function TareHistoryDialog({ vehicle, open, onClose }: TareHistoryDialogProps) {
                     <p className="text-xs text-muted-foreground">Station: {entry.stationName}</p>
                   )}
                   {entry.notes && <p className="text-xs text-gray-600 italic">{entry.notes}</p>}
+                  {evaluations.get(entry.id)?.status === 'anomalous' && (
+                    <p className="flex items-center gap-1 text-xs text-red-600">
+                      <AlertTriangle className="h-3 w-3" />
+                      Anomalous: {evaluations.get(entry.id)!.reason}
+                    </p>
+                  )}
                 </>
               )}
             </div>
@@ -293,6 +319,28 @@ export default function TareRegisterPage() {
     scopeToOrg: true,
   });
 
+  const { data: org } = useQuery({
+    queryKey: ['organization', 'current'],
+    queryFn: getCurrentOrganization,
+    staleTime: 5 * 60 * 1000,
+  });
+  const policy = useMemo(() => resolveTarePolicy(org), [org]);
+
+  // Re-tare due list covers the whole fleet, not just the visible page.
+  const { data: fleet, isLoading: isFleetLoading } = useVehiclesPaged({
+    page: 1,
+    pageSize: 500,
+    scopeToOrg: true,
+  });
+  const dueForReTare = useMemo(
+    () =>
+      (fleet?.items ?? [])
+        .map((vehicle) => ({ vehicle, reTare: getReTareStatus(vehicle, policy) }))
+        .filter(({ reTare }) => reTare.status === 'overdue' || reTare.status === 'due-soon')
+        .sort((a, b) => (a.reTare.daysLeft ?? 0) - (b.reTare.daysLeft ?? 0)),
+    [fleet, policy]
+  );
+
   const [recordTarget, setRecordTarget] = useState<Vehicle | null>(null);
   const [historyTarget, setHistoryTarget] = useState<Vehicle | null>(null);
 
@@ -325,14 +373,14 @@ export default function TareRegisterPage() {
               },
               {
                 label: 'Active Tares',
-                value: vehicles.filter((v) => getTareStatus(v).label === 'Active').length,
+                value: vehicles.filter((v) => getTareStatus(v, policy).label === 'Active').length,
                 icon: CheckCircle2,
                 color: 'text-green-600',
                 bg: 'bg-green-50',
               },
               {
                 label: 'Expired / No Tare',
-                value: vehicles.filter((v) => ['Expired', 'No Tare'].includes(getTareStatus(v).label)).length,
+                value: vehicles.filter((v) => ['Expired', 'No Tare'].includes(getTareStatus(v, policy).label)).length,
                 icon: AlertTriangle,
                 color: 'text-amber-600',
                 bg: 'bg-amber-50',
@@ -354,6 +402,72 @@ export default function TareRegisterPage() {
             ))}
           </div>
 
+          {/* Due for re-tare */}
+          <Card>
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <CalendarClock className="h-4 w-4 text-amber-600" />
+                <h2 className="text-base font-semibold">Due for Re-tare</h2>
+                {dueForReTare.length > 0 && <Badge variant="secondary">{dueForReTare.length}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Vehicles whose tare has passed, or is within a week of, the organisation&apos;s tare expiry or their
+                vehicle type&apos;s re-tare interval.
+              </p>
+            </CardHeader>
+            <CardContent className="p-0">
+              {isFleetLoading ? (
+                <div className="space-y-2 px-6 pb-6">
+                  {Array.from({ length: 3 }).map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+                </div>
+              ) : dueForReTare.length === 0 ? (
+                <p className="px-6 pb-6 text-sm text-muted-foreground">No vehicles are due for re-tare.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Reg No</TableHead>
+                      <TableHead>Vehicle Type</TableHead>
+                      <TableHead className="text-right">Stored Tare (kg)</TableHead>
+                      <TableHead>Last Weighed</TableHead>
+                      <TableHead>Interval</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dueForReTare.map(({ vehicle, reTare }) => (
+                      <TableRow key={vehicle.id}>
+                        <TableCell className="font-mono font-semibold">{vehicle.regNo}</TableCell>
+                        <TableCell className="text-sm">{vehicle.vehicleType ?? '—'}</TableCell>
+                        <TableCell className="text-right font-medium">
+                          {vehicle.lastTareWeightKg?.toLocaleString() ?? '—'}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(vehicle.lastTareWeighedAt)}</TableCell>
+                        <TableCell className="text-sm">{reTare.intervalDays} days</TableCell>
+                        <TableCell>
+                          {reTare.status === 'overdue' ? (
+                            <Badge variant="destructive">
+                              Overdue {Math.abs(reTare.daysLeft ?? 0)}d
+                            </Badge>
+                          ) : (
+                            <Badge variant="secondary">In {reTare.daysLeft}d</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button size="sm" onClick={() => setRecordTarget(vehicle)}>
+                            <Plus className="h-3.5 w-3.5 mr-1" />
+                            Record
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Table Card */}
           <Card>
             <CardHeader>
@@ -406,7 +520,7 @@ export default function TareRegisterPage() {
                     </TableRow>
                   )}
                   {!isLoading && vehicles.map((vehicle) => {
-                    const status = getTareStatus(vehicle);
+                    const status = getTareStatus(vehicle, policy);
                     return (
                       <TableRow key={vehicle.id}>
                         <TableCell className="font-mono font-semibold">{vehicle.regNo}</TableCell>
@@ -477,6 +591,7 @@ export default function TareRegisterPage() {
         />
         <TareHistoryDialog
           vehicle={historyTarget}
+          policy={policy}
           open={!!historyTarget}
           onClose={() => setHistoryTarget(null)}
         />
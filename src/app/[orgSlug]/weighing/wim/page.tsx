@@ -0,0 +1,282 @@
+'use client';
+
+import { ProtectedRoute } from '@/components/auth/ProtectedRoute';
+import { AppShell } from '@/components/layout/AppShell';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useMyStation } from '@/hooks/queries';
+import { useMiddleware, type WimPassageData } from '@/hooks/useMiddleware';
+import { useOrgSlug } from '@/hooks/useOrgSlug';
+import {
+  enqueueReweigh,
+  getReweighQueue,
+  screenWimPassage,
+  updateReweighStatus,
+  WIM_HANDOFF_PARAM,
+  type WimReweighItem,
+  type WimScreeningResult,
+  type WimVerdict,
+} from '@/lib/offline/wimScreening';
+import { cn } from '@/lib/utils';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowRight, Gauge, Radio, Wifi, WifiOff, X } from 'lucide-react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+/** Passages kept on screen; older ones are dropped (suspected ones live on in the queue). */
+const MAX_PASSAGES = 100;
+
+const VERDICT_STYLES: Record<WimVerdict, { label: string; className: string }> = {
+  clear: { label: 'Clear', className: 'bg-green-100 text-green-700 hover:bg-green-100' },
+  borderline: { label: 'Borderline', className: 'bg-yellow-100 text-yellow-800 hover:bg-yellow-100' },
+  suspected: { label: 'Suspected Overload', className: 'bg-red-100 text-red-700 hover:bg-red-100' },
+  unscreened: { label: 'Unscreened', className: 'bg-gray-100 text-gray-600 hover:bg-gray-100' },
+};
+
+/**
+ * WIM Screening Page
+ *
+ * Screens the continuous stream of weigh-in-motion passages from TruConnect against the cached
+ * axle configurations using the offline compliance engine (see lib/offline/wimScreening).
+ * Suspected overloads are queued for a static re-weigh; "Re-weigh" hands the passage to the
+ * multideck screen, which pre-fills the plate and axle configuration.
+ *
+ * WIM loads are indicative only — no ticket, charge or case is ever raised from this screen.
+ */
+export default function WimScreeningPage() {
+  const router = useRouter();
+  const orgSlug = useOrgSlug();
+  const { data: currentStation } = useMyStation();
+  const stationId = currentStation?.id;
+
+  const [passages, setPassages] = useState<WimScreeningResult[]>([]);
+  const [queue, setQueue] = useState<WimReweighItem[]>([]);
+  const [marginPct, setMarginPct] = useState('10');
+
+  // Screening options are read from a ref so a margin change doesn't reconnect the middleware.
+  const marginRef = useRef(10);
+  useEffect(() => {
+    const n = parseFloat(marginPct);
+    marginRef.current = Number.isFinite(n) && n >= 0 && n < 50 ? n : 10;
+  }, [marginPct]);
+
+  useEffect(() => {
+    if (stationId) setQueue(getReweighQueue(stationId));
+  }, [stationId]);
+
+  const handlePassage = useCallback(async (passage: WimPassageData) => {
+    const result = await screenWimPassage(passage, { marginPct: marginRef.current });
+    setPassages((prev) => [result, ...prev.filter((p) => p.passage.passageId !== passage.passageId)].slice(0, MAX_PASSAGES));
+    if (result.verdict === 'suspected' && stationId) {
+      setQueue(enqueueReweigh(stationId, result));
+      toast.warning(`Suspected overload: ${passage.plate?.plateNumber ?? 'unread plate'}`, {
+        description: `+${result.maxOverloadKg.toLocaleString()} kg after WIM margin — queued for static re-weigh.`,
+      });
+    }
+  }, [stationId]);
+
+  const middleware = useMiddleware({
+    stationCode: currentStation?.code || '',
+    mode: 'wim',
+    clientName: `TruLoad Frontend - ${currentStation?.name || 'WIM'}`,
+    clientType: 'truload-frontend',
+    onWimPassage: (passage) => {
+      void handlePassage(passage);
+    },
+  });
+
+  const handleHandoff = useCallback((item: WimReweighItem) => {
+    if (!stationId) return;
+    setQueue(updateReweighStatus(stationId, item.passageId, 'handed-off'));
+    router.push(`/${orgSlug}/weighing/multideck?${WIM_HANDOFF_PARAM}=${encodeURIComponent(item.passageId)}`);
+  }, [stationId, orgSlug, router]);
+
+  const handleDismiss = useCallback((item: WimReweighItem) => {
+    if (!stationId) return;
+    setQueue(updateReweighStatus(stationId, item.passageId, 'dismissed'));
+  }, [stationId]);
+
+  const handleManualQueue = useCallback((result: WimScreeningResult) => {
+    if (!stationId) return;
+    setQueue(enqueueReweigh(stationId, result));
+    toast.info(`${result.passage.plate?.plateNumber ?? 'Passage'} queued for static re-weigh`);
+  }, [stationId]);
+
+  const pending = queue.filter((i) => i.status === 'pending');
+  const counts = passages.reduce<Record<WimVerdict, number>>(
+    (acc, p) => ({ ...acc, [p.verdict]: acc[p.verdict] + 1 }),
+    { clear: 0, borderline: 0, suspected: 0, unscreened: 0 },
+  );
+
+  return (
+    <AppShell title="WIM Screening" subtitle={currentStation?.name ?? 'Weigh-in-Motion'}>
+      <ProtectedRoute requiredPermissions={['weighing.create']}>
+        <div className="space-y-4">
+          {/* Status row */}
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            <Card className="border-gray-200">
+              <CardContent className="p-4 flex items-center gap-3">
+                {middleware.connected ? (
+                  <Wifi className="h-5 w-5 text-green-600" />
+                ) : (
+                  <WifiOff className="h-5 w-5 text-red-500" />
+                )}
+                <div>
+                  <p className="text-xs text-gray-500">WIM Sensors</p>
+                  <p className="text-sm font-semibold">{middleware.connected ? 'Receiving passages' : 'Disconnected'}</p>
+                </div>
+              </CardContent>
+            </Card>
+            {(['clear', 'borderline', 'suspected', 'unscreened'] as WimVerdict[]).map((v) => (
+              <Card key={v} className="border-gray-200">
+                <CardContent className="p-4">
+                  <p className="text-xs text-gray-500">{VERDICT_STYLES[v].label}</p>
+                  <p className="text-2xl font-bold text-gray-900">{counts[v]}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <div className="grid gap-4 lg:grid-cols-3">
+            {/* Passage stream */}
+            <Card className="border-gray-200 lg:col-span-2">
+              <CardHeader className="pb-2 flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-sm font-semibold flex items-center gap-2">
+                  <Radio className="h-4 w-4 text-blue-600" />
+                  Passages
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="wim-margin" className="text-xs text-gray-500">WIM margin (%)</Label>
+                  <Input
+                    id="wim-margin"
+                    type="number"
+                    min={0}
+                    max={49}
+                    value={marginPct}
+                    onChange={(e) => setMarginPct(e.target.value)}
+                    className="h-8 w-20"
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Plate</TableHead>
+                      <TableHead className="text-right">Speed</TableHead>
+                      <TableHead>Config</TableHead>
+                      <TableHead className="text-right">GVW (kg)</TableHead>
+                      <TableHead className="text-right">Overload</TableHead>
+                      <TableHead>Result</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {passages.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-sm text-gray-500 py-10">
+                          Waiting for passages…
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      passages.map((r) => (
+                        <TableRow key={r.passage.passageId} className={r.verdict === 'suspected' ? 'bg-red-50/60' : undefined}>
+                          <TableCell className="text-xs text-gray-600">
+                            {format(new Date(r.passage.timestamp), 'HH:mm:ss')}
+                          </TableCell>
+                          <TableCell className="font-mono font-semibold">
+                            {r.passage.plate?.plateNumber ?? <span className="text-gray-400">—</span>}
+                          </TableCell>
+                          <TableCell className="text-right text-xs">{r.passage.speedKmh} km/h</TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {r.axleConfigCode ?? `${r.passage.axleLoadsKg.length} axles`}
+                            {r.candidateCount > 1 && (
+                              <span className="text-gray-400"> (of {r.candidateCount})</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">{r.passage.gvwKg.toLocaleString()}</TableCell>
+                          <TableCell className={cn('text-right font-mono', r.maxOverloadKg > 0 && 'text-red-600')}>
+                            {r.maxOverloadKg > 0 ? `+${r.maxOverloadKg.toLocaleString()}` : '-'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-1">
+                              <Badge className={VERDICT_STYLES[r.verdict].className}>{VERDICT_STYLES[r.verdict].label}</Badge>
+                              {r.lowConfidence && (
+                                <span title={r.note}>
+                                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                                </span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {r.verdict !== 'suspected' && r.verdict !== 'unscreened' && (
+                              <Button variant="ghost" size="sm" onClick={() => handleManualQueue(r)}>
+                                Queue
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            {/* Re-weigh queue */}
+            <Card className="border-gray-200">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-semibold flex items-center gap-2">
+                  <Gauge className="h-4 w-4 text-red-600" />
+                  Static Re-weigh Queue
+                  <Badge variant="outline" className="ml-auto">{pending.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {pending.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-6 text-center">No vehicles waiting.</p>
+                ) : (
+                  pending.map((item) => (
+                    <div key={item.passageId} className="rounded-lg border border-red-200 bg-red-50/50 p-3">
+                      <div className="flex items-center justify-between">
+                        <span className="font-mono font-bold">{item.plateNumber ?? 'Unread plate'}</span>
+                        <span className="text-xs text-gray-500">{format(new Date(item.passedAt), 'HH:mm')}</span>
+                      </div>
+                      <p className="text-xs text-gray-600 mt-1">
+                        {item.axleConfigCode ?? '—'} · {item.gvwKg.toLocaleString()} kg ·{' '}
+                        <span className="text-red-600 font-medium">+{item.maxOverloadKg.toLocaleString()} kg</span>
+                        {item.lowConfidence && <span className="text-amber-600"> · low confidence</span>}
+                      </p>
+                      <div className="mt-2 flex gap-2">
+                        <Button size="sm" className="flex-1 gap-1" onClick={() => handleHandoff(item)}>
+                          Re-weigh at Multideck
+                          <ArrowRight className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleDismiss(item)} title="Dismiss">
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </ProtectedRoute>
+    </AppShell>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Portal Drivers Page
  *
- * Driver list with performance metrics.
+ * Driver list with performance metrics and each driver's offender risk score.
  */
 
 'use client';
@@ -19,11 +19,18 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { usePortalDrivers, usePortalDriverPerformance, usePortalSubscription } from '@/hooks/queries/usePortalQueries';
+import { RiskSummary } from '@/components/shared/RiskScore';
+import {
+  usePortalDrivers,
+  usePortalDriverPerformance,
+  usePortalFleetRisk,
+  usePortalSubscription,
+} from '@/hooks/queries/usePortalQueries';
+import { resolveRiskPolicy, scoreRisk } from '@/lib/risk-score';
 import type { PortalDriver } from '@/types/portal';
 import { Eye, Lock, Users } from 'lucide-react';
 import Link from 'next/link';
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 
 function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
   if (value === null || value === undefined || value === '') return null;
@@ -105,6 +112,13 @@ export default function PortalDriversPage() {
   const { data: drivers, isLoading } = usePortalDrivers();
   const { data: subscription } = usePortalSubscription();
   const [selectedDriver, setSelectedDriver] = useState<PortalDriver | null>(null);
+  const { data: fleetRisk } = usePortalFleetRisk();
+
+  const driverRisk = useMemo(() => {
+    if (!fleetRisk) return null;
+    const policy = resolveRiskPolicy(fleetRisk.settings);
+    return new Map(fleetRisk.drivers.map((d) => [d.driverId, scoreRisk(d.evidence, policy)]));
+  }, [fleetRisk]);
 
   const maxDrivers = subscription?.maxDrivers ?? 5;
   const driverCount = drivers?.length ?? 0;
@@ -141,6 +155,7 @@ export default function PortalDriversPage() {
                 <TableHead className="text-xs font-semibold text-gray-700 h-10">License</TableHead>
                 <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Trips</TableHead>
                 <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right hidden lg:table-cell">Avg. Payload (kg)</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10">Risk</TableHead>
                 <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -148,7 +163,7 @@ export default function PortalDriversPage() {
               {isLoading ? (
                 Array.from({ length: 5 }).map((_, i) => (
                   <TableRow key={i}>
-                    {Array.from({ length: 6 }).map((__, j) => (
+                    {Array.from({ length: 7 }).map((__, j) => (
                       <TableCell key={j}>
                         <Skeleton className="h-4 w-full" />
                       </TableCell>
@@ -157,7 +172,7 @@ export default function PortalDriversPage() {
                 ))
               ) : !drivers || drivers.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                  <TableCell colSpan={7} className="text-center text-gray-500 py-8">
                     <Users className="h-8 w-8 mx-auto mb-2 opacity-50" />
                     No drivers found
                   </TableCell>
@@ -178,6 +193,9 @@ export default function PortalDriversPage() {
                     </TableCell>
                     <TableCell className="text-xs text-right font-mono font-semibold">{d.tripCount.toLocaleString()}</TableCell>
                     <TableCell className="text-xs text-right font-mono hidden lg:table-cell">{d.avgPayloadKg.toLocaleString()}</TableCell>
+                    <TableCell>
+                      <RiskSummary risk={driverRisk?.get(d.id)} />
+                    </TableCell>
                     <TableCell className="text-right">
                       {driverReportsLocked ? (
                         <Link href="/portal/subscription" title="Upgrade to view driver performance">
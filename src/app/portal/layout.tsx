@@ -8,10 +8,13 @@
 
 'use client';
 
+import { LanguageSelect } from '@/components/shared/LanguageSelect';
 import { Button } from '@/components/ui/button';
 import { SubscriptionBanner } from '@/components/subscription/subscription-banner';
 import { UserProfileDropdown } from '@/components/auth/UserProfileDropdown';
+import { useTranslation } from '@/contexts/LocaleContext';
 import { usePortalAuth } from '@/hooks/usePortalAuth';
+import type { MessageKey } from '@/lib/i18n';
 import type { LucideIcon } from 'lucide-react';
 import {
   BarChart3,
@@ -34,18 +37,18 @@ import { useAuthStore } from '@/stores/auth.store';
 
 interface PortalMenuItem {
   href: string;
-  label: string;
+  label: MessageKey;
   icon: LucideIcon;
 }
 
 const portalMenuItems: PortalMenuItem[] = [
-  { href: '/portal/dashboard', label: 'Dashboard', icon: LayoutDashboard },
-  { href: '/portal/weighings', label: 'Weighings', icon: Scale },
-  { href: '/portal/vehicles', label: 'Vehicles', icon: Truck },
-  { href: '/portal/drivers', label: 'Drivers', icon: Users },
-  { href: '/portal/reports', label: 'Reports', icon: BarChart3 },
-  { href: '/portal/subscription', label: 'Subscription', icon: CreditCard },
-  { href: '/portal/settings/team', label: 'Team', icon: UserPlus },
+  { href: '/portal/dashboard', label: 'portal.nav.dashboard', icon: LayoutDashboard },
+  { href: '/portal/weighings', label: 'portal.nav.weighings', icon: Scale },
+  { href: '/portal/vehicles', label: 'portal.nav.vehicles', icon: Truck },
+  { href: '/portal/drivers', label: 'portal.nav.drivers', icon: Users },
+  { href: '/portal/reports', label: 'portal.nav.reports', icon: BarChart3 },
+  { href: '/portal/subscription', label: 'portal.nav.subscription', icon: CreditCard },
+  { href: '/portal/settings/team', label: 'portal.nav.team', icon: UserPlus },
 ];
 
 function PortalSidebar({
@@ -58,6 +61,7 @@ function PortalSidebar({
   const pathname = usePathname();
   const router = useRouter();
   const { logout } = useAuthStore();
+  const { t } = useTranslation();
 
   const handleLogout = async () => {
     try {
@@ -96,7 +100,7 @@ function PortalSidebar({
       {/* Portal Badge */}
       <div className="px-6 py-3 border-b border-gray-100">
         <span className="inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
-          Transporter Portal
+          {t('portal.badge')}
         </span>
       </div>
 
@@ -119,7 +123,7 @@ function PortalSidebar({
               }}
             >
               <Icon className="h-5 w-5" />
-              <span>{item.label}</span>
+              <span>{t(item.label)}</span>
             </Link>
           );
         })}
@@ -129,7 +133,7 @@ function PortalSidebar({
       <div className="border-t border-gray-200 px-4 py-4">
         <Button variant="outline" className="w-full justify-start" onClick={handleLogout}>
           <LogOut className="h-4 w-4 mr-2" />
-          Logout
+          {t('common.logout')}
         </Button>
       </div>
     </>
@@ -161,6 +165,7 @@ function PortalSidebar({
 export default function PortalLayout({ children }: { children: ReactNode }) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { user, isAuthenticated, isLoading, transporterName } = usePortalAuth();
+  const { t } = useTranslation();
   const pathname = usePathname();
 
   // Close mobile menu on route change
@@ -173,7 +178,7 @@ export default function PortalLayout({ children }: { children: ReactNode }) {
       <div className="flex min-h-screen items-center justify-center bg-gray-50">
         <div className="text-center">
           <div className="h-12 w-12 animate-spin rounded-full border-4 border-blue-500 border-t-transparent mx-auto" />
-          <p className="mt-4 text-sm text-gray-600">Loading portal...</p>
+          <p className="mt-4 text-sm text-gray-600">{t('portal.loading')}</p>
         </div>
       </div>
     );
@@ -215,11 +220,12 @@ export default function PortalLayout({ children }: { children: ReactNode }) {
                   {transporterName}
                 </h1>
                 <p className="text-[11px] text-gray-400 truncate leading-tight">
-                  Transporter Portal
+                  {t('portal.badge')}
                 </p>
               </div>
             </div>
             <div className="flex items-center gap-1.5 lg:gap-2 flex-shrink-0">
+              <LanguageSelect compact />
               <UserProfileDropdown />
             </div>
           </div>
@@ -235,7 +241,7 @@ export default function PortalLayout({ children }: { children: ReactNode }) {
         {/* Footer */}
         <footer className="shrink-0 border-t border-gray-200 bg-white px-6 py-3">
           <div className="flex items-center justify-between text-[11px] text-gray-400">
-            <p>&copy; {new Date().getFullYear()} TruLoad. All rights reserved.</p>
+            <p>&copy; {new Date().getFullYear()} TruLoad. {t('portal.rights')}</p>
             <span className="font-mono bg-gray-50 px-1.5 py-0.5 rounded border border-gray-100">
               Portal
             </span>
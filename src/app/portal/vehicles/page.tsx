@@ -1,7 +1,8 @@
 /**
  * Portal Vehicles Page
  *
- * Transporter's vehicle fleet with tare weights, trip counts, and weight trend charts.
+ * Transporter's vehicle fleet with tare weights, trip counts, weight trend charts, and the
+ * offender risk score enforcement sees for each vehicle and for the transporter.
  */
 
 'use client';
@@ -20,11 +21,19 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { ChartWrapper } from '@/components/charts';
-import { usePortalVehicles, usePortalVehicleTrends, usePortalSubscription, useImportVehiclesCsv } from '@/hooks/queries/usePortalQueries';
+import { RiskFactorList, RiskScoreBadge, RiskSummary } from '@/components/shared/RiskScore';
+import {
+  usePortalVehicles,
+  usePortalVehicleTrends,
+  usePortalSubscription,
+  useImportVehiclesCsv,
+  usePortalFleetRisk,
+} from '@/hooks/queries/usePortalQueries';
+import { resolveRiskPolicy, scoreRisk } from '@/lib/risk-score';
 import type { PortalVehicle } from '@/types/portal';
-import { Eye, Lock, Loader2, Upload, Truck } from 'lucide-react';
+import { Eye, Lock, Loader2, ShieldAlert, Upload, Truck } from 'lucide-react';
 import Link from 'next/link';
-import { useRef, useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { toast } from 'sonner';
 import { useQueryClient } from '@tanstack/react-query';
 import { PORTAL_QUERY_KEYS } from '@/hooks/queries/usePortalQueries';
@@ -77,6 +86,16 @@ export default function PortalVehiclesPage() {
   const importMutation = useImportVehiclesCsv();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedVehicle, setSelectedVehicle] = useState<PortalVehicle | null>(null);
+  const { data: fleetRisk } = usePortalFleetRisk();
+
+  const risk = useMemo(() => {
+    if (!fleetRisk) return null;
+    const policy = resolveRiskPolicy(fleetRisk.settings);
+    return {
+      transporter: scoreRisk(fleetRisk.transporter, policy),
+      vehicles: new Map(fleetRisk.vehicles.map((v) => [v.vehicleId, scoreRisk(v.evidence, policy)])),
+    };
+  }, [fleetRisk]);
 
   const handleImportClick = () => {
     fileInputRef.current?.click();
@@ -153,6 +172,24 @@ export default function PortalVehiclesPage() {
         </div>
       </div>
 
+      {risk && (
+        <Card className="border border-gray-200 rounded-xl">
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+              <ShieldAlert className="h-4 w-4 text-gray-500" />
+              Your offender risk
+              <RiskScoreBadge risk={risk.transporter} className="text-[10px]" />
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            <RiskFactorList risk={risk.transporter} className="max-w-md" />
+            <p className="text-[11px] text-gray-500">
+              Weighbridges see this score when your vehicles arrive. Settling invoices and closing tags lowers it.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="border border-gray-200 rounded-xl">
         <CardContent className="p-0 overflow-x-auto">
           <Table>
@@ -164,6 +201,7 @@ export default function PortalVehiclesPage() {
                 <TableHead className="text-xs font-semibold text-gray-700 h-10 hidden md:table-cell">Tare Date</TableHead>
                 <TableHead className="text-xs font-semibold text-gray-700 h-10">Tare Status</TableHead>
                 <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Total Trips</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10">Risk</TableHead>
                 <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -171,7 +209,7 @@ export default function PortalVehiclesPage() {
               {isLoading ? (
                 Array.from({ length: 5 }).map((_, i) => (
                   <TableRow key={i}>
-                    {Array.from({ length: 7 }).map((__, j) => (
+                    {Array.from({ length: 8 }).map((__, j) => (
                       <TableCell key={j}>
                         <Skeleton className="h-4 w-full" />
                       </TableCell>
@@ -180,7 +218,7 @@ export default function PortalVehiclesPage() {
                 ))
               ) : !vehicles || vehicles.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                  <TableCell colSpan={8} className="text-center text-gray-500 py-8">
                     <Truck className="h-8 w-8 mx-auto mb-2 opacity-50" />
                     No vehicles found
                   </TableCell>
@@ -210,6 +248,9 @@ export default function PortalVehiclesPage() {
                     <TableCell className="text-xs text-right font-mono font-semibold">
                       {v.totalTrips.toLocaleString()}
                     </TableCell>
+                    <TableCell>
+                      <RiskSummary risk={risk?.vehicles.get(v.id)} />
+                    </TableCell>
                     <TableCell className="text-right">
                       {vehicleTrendsLocked ? (
                         <Link href="/portal/subscription" title="Upgrade to view trends">
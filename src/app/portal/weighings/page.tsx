@@ -24,7 +24,9 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Pagination, usePagination } from '@/components/ui/pagination';
+import { useTranslation } from '@/contexts/LocaleContext';
 import { usePortalWeighings, useDownloadPortalTicket, useBulkDownloadTickets } from '@/hooks/queries/usePortalQueries';
+import { formatDateTime, formatWeight } from '@/lib/formatters';
 import type { PortalWeighing, PortalWeighingFilters } from '@/types/portal';
 import { AlertTriangle, Archive, Download, Eye, FileText, Loader2, Search, X } from 'lucide-react';
 import { useCallback, useMemo, useState } from 'react';
@@ -32,25 +34,16 @@ import { toast } from 'sonner';
 import Link from 'next/link';
 import { usePortalSubscription } from '@/hooks/queries/usePortalQueries';
 
-function formatDateTime(dateStr: string) {
-  return new Date(dateStr).toLocaleString('en-KE', {
-    year: 'numeric',
-    month: '2-digit',
-    day: '2-digit',
-    hour: '2-digit',
-    minute: '2-digit',
-  });
-}
-
-function formatWeight(kg: number) {
-  return `${kg.toLocaleString()} kg`;
-}
-
 function StatusBadge({ status }: { status: string }) {
+  const { t } = useTranslation();
   const variant =
     status === 'completed' ? 'default' : status === 'first_weight' ? 'secondary' : 'destructive';
   const label =
-    status === 'completed' ? 'Completed' : status === 'first_weight' ? 'Pending 2nd' : 'Voided';
+    status === 'completed'
+      ? t('portal.weighings.status.completed')
+      : status === 'first_weight'
+        ? t('portal.weighings.status.pendingSecond')
+        : t('portal.weighings.status.voided');
   return <Badge variant={variant}>{label}</Badge>;
 }
 
@@ -65,6 +58,7 @@ function DetailRow({ label, value }: { label: string; value: React.ReactNode })
 }
 
 export default function PortalWeighingsPage() {
+  const { t } = useTranslation();
   const { page, pageNumber, pageSize, setPage, setPageSize } = usePagination();
 
   // Filters
@@ -105,7 +99,7 @@ export default function PortalWeighingsPage() {
 
   const handleBulkDownload = useCallback(async () => {
     if (!dateFrom || !dateTo) {
-      toast.error('Please select both a From Date and To Date before downloading a ZIP');
+      toast.error(t('portal.weighings.zipNeedsRange'));
       return;
     }
     try {
@@ -118,11 +112,11 @@ export default function PortalWeighingsPage() {
       link.click();
       document.body.removeChild(link);
       window.URL.revokeObjectURL(url);
-      toast.success('Ticket ZIP downloaded');
+      toast.success(t('portal.weighings.zipDownloaded'));
     } catch {
-      toast.error('Failed to download ticket ZIP — check your subscription or try a smaller date range');
+      toast.error(t('portal.weighings.zipFailed'));
     }
-  }, [bulkDownloadMutation, dateFrom, dateTo]);
+  }, [bulkDownloadMutation, dateFrom, dateTo, t]);
 
   const handleDownloadPdf = useCallback(
     async (weighingId: string) => {
@@ -136,12 +130,12 @@ export default function PortalWeighingsPage() {
         link.click();
         document.body.removeChild(link);
         window.URL.revokeObjectURL(url);
-        toast.success('Ticket PDF downloaded');
+        toast.success(t('portal.weighings.pdfDownloaded'));
       } catch {
-        toast.error('Failed to download ticket PDF');
+        toast.error(t('portal.weighings.pdfFailed'));
       }
     },
-    [downloadMutation]
+    [downloadMutation, t]
   );
 
   const tickets = data?.items ?? [];
@@ -150,8 +144,8 @@ export default function PortalWeighingsPage() {
   return (
     <div className="space-y-4">
       <div>
-        <h2 className="text-lg font-semibold text-gray-900">Weighing History</h2>
-        <p className="text-sm text-gray-500">All your weighing tickets across organizations</p>
+        <h2 className="text-lg font-semibold text-gray-900">{t('portal.weighings.title')}</h2>
+        <p className="text-sm text-gray-500">{t('portal.weighings.subtitle')}</p>
       </div>
 
       {/* Subscription history limit notice */}
@@ -159,19 +153,18 @@ export default function PortalWeighingsPage() {
         <div className="flex items-start gap-2 rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
           <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
           <span>
-            Showing weighings from the last <strong>{subscription.historyMonths} months</strong> on
-            your <strong className="capitalize">{subscription.tier}</strong> plan.{' '}
+            {t('portal.weighings.historyLimit', { months: subscription.historyMonths, tier: subscription.tier })}{' '}
             {subscription.tier === 'basic' && (
               <Link href="/portal/subscription" className="underline font-medium hover:text-amber-900">
-                Upgrade to Standard
+                {t('portal.weighings.upgradeStandard')}
               </Link>
             )}{' '}
             {subscription.tier === 'standard' && (
               <Link href="/portal/subscription" className="underline font-medium hover:text-amber-900">
-                Upgrade to Premium
+                {t('portal.weighings.upgradePremium')}
               </Link>
             )}{' '}
-            for full history access.
+            {t('portal.weighings.forFullHistory')}
           </span>
         </div>
       )}
@@ -181,15 +174,15 @@ export default function PortalWeighingsPage() {
         <CardContent className="pt-4">
           <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-5">
             <div className="space-y-2">
-              <Label>From Date</Label>
+              <Label>{t('portal.weighings.fromDate')}</Label>
               <Input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
             </div>
             <div className="space-y-2">
-              <Label>To Date</Label>
+              <Label>{t('portal.weighings.toDate')}</Label>
               <Input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
             </div>
             <div className="space-y-2">
-              <Label>Vehicle Reg</Label>
+              <Label>{t('portal.weighings.vehicleReg')}</Label>
               <Input
                 placeholder="e.g. KBZ 123A"
                 value={vehicleSearch}
@@ -200,11 +193,11 @@ export default function PortalWeighingsPage() {
             <div className="flex items-end gap-2">
               <Button onClick={handleSearch} size="sm" className="h-9">
                 <Search className="h-4 w-4 mr-1" />
-                Search
+                {t('common.search')}
               </Button>
               <Button onClick={handleClear} variant="outline" size="sm" className="h-9">
                 <X className="h-4 w-4 mr-1" />
-                Clear
+                {t('common.clear')}
               </Button>
               {subscription?.features?.dataExport && (
                 <Button
@@ -213,14 +206,14 @@ export default function PortalWeighingsPage() {
                   size="sm"
                   className="h-9"
                   disabled={bulkDownloadMutation.isPending}
-                  title="Download all tickets in date range as ZIP"
+                  title={t('portal.weighings.downloadZipHint')}
                 >
                   {bulkDownloadMutation.isPending ? (
                     <Loader2 className="h-4 w-4 mr-1 animate-spin" />
                   ) : (
                     <Archive className="h-4 w-4 mr-1" />
                   )}
-                  Download ZIP
+                  {t('portal.weighings.downloadZip')}
                 </Button>
               )}
             </div>
@@ -234,16 +227,16 @@ export default function PortalWeighingsPage() {
           <Table>
             <TableHeader>
               <TableRow className="hover:bg-transparent border-b border-gray-200 bg-gray-50">
-                <TableHead className="text-xs font-semibold text-gray-700 h-10">Ticket #</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10">Date</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10">Vehicle</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10 hidden md:table-cell">Org / Weighbridge</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Tare (kg)</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Gross (kg)</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Net (kg)</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10 hidden lg:table-cell">Cargo</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10">Status</TableHead>
-                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">Actions</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10">{t('portal.weighings.col.ticket')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10">{t('portal.weighings.col.date')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10">{t('common.vehicle')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10 hidden md:table-cell">{t('portal.weighings.col.orgStation')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">{t('portal.weighings.col.tare')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">{t('portal.weighings.col.gross')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">{t('portal.weighings.col.net')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10 hidden lg:table-cell">{t('portal.weighings.col.cargo')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10">{t('portal.weighings.col.status')}</TableHead>
+                <TableHead className="text-xs font-semibold text-gray-700 h-10 text-right">{t('portal.weighings.col.actions')}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -261,29 +254,29 @@ export default function PortalWeighingsPage() {
                 <TableRow>
                   <TableCell colSpan={10} className="text-center text-gray-500 py-8">
                     <FileText className="h-8 w-8 mx-auto mb-2 opacity-50" />
-                    No weighing records found
+                    {t('portal.weighings.empty')}
                   </TableCell>
                 </TableRow>
               ) : (
-                tickets.map((t) => (
-                  <TableRow key={t.id} className="hover:bg-gray-50/50">
-                    <TableCell className="text-xs font-mono text-blue-600">{t.ticketNumber}</TableCell>
+                tickets.map((ticket) => (
+                  <TableRow key={ticket.id} className="hover:bg-gray-50/50">
+                    <TableCell className="text-xs font-mono text-blue-600">{ticket.ticketNumber}</TableCell>
                     <TableCell className="text-xs text-gray-600 whitespace-nowrap">
-                      {formatDateTime(t.weighedAt)}
+                      {formatDateTime(ticket.weighedAt)}
                     </TableCell>
-                    <TableCell className="text-xs font-mono font-semibold">{t.vehicleRegNumber}</TableCell>
+                    <TableCell className="text-xs font-mono font-semibold">{ticket.vehicleRegNumber}</TableCell>
                     <TableCell className="text-xs text-gray-600 hidden md:table-cell">
-                      <div className="truncate max-w-[140px]">{t.organizationName}</div>
-                      <div className="text-[10px] text-gray-400">{t.stationName}</div>
+                      <div className="truncate max-w-[140px]">{ticket.organizationName}</div>
+                      <div className="text-[10px] text-gray-400">{ticket.stationName}</div>
                     </TableCell>
-                    <TableCell className="text-xs text-right font-mono">{t.tareWeightKg.toLocaleString()}</TableCell>
-                    <TableCell className="text-xs text-right font-mono">{t.grossWeightKg.toLocaleString()}</TableCell>
-                    <TableCell className="text-xs text-right font-mono font-semibold">{t.netWeightKg.toLocaleString()}</TableCell>
+                    <TableCell className="text-xs text-right font-mono">{formatWeight(ticket.tareWeightKg)}</TableCell>
+                    <TableCell className="text-xs text-right font-mono">{formatWeight(ticket.grossWeightKg)}</TableCell>
+                    <TableCell className="text-xs text-right font-mono font-semibold">{formatWeight(ticket.netWeightKg)}</TableCell>
                     <TableCell className="text-xs text-gray-600 hidden lg:table-cell">
-                      <div className="truncate max-w-[100px]">{t.cargoType ?? '--'}</div>
+                      <div className="truncate max-w-[100px]">{ticket.cargoType ?? '--'}</div>
                     </TableCell>
                     <TableCell>
-                      <StatusBadge status={t.status} />
+                      <StatusBadge status={ticket.status} />
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-0.5">
@@ -291,19 +284,19 @@ export default function PortalWeighingsPage() {
                           variant="ghost"
                           size="sm"
                           className="h-7 w-7 p-0"
-                          title="View Details"
-                          onClick={() => setSelectedWeighing(t)}
+                          title={t('portal.weighings.viewDetails')}
+                          onClick={() => setSelectedWeighing(ticket)}
                         >
                           <Eye className="h-3.5 w-3.5" />
                         </Button>
-                        {t.pdfAvailable && (
+                        {ticket.pdfAvailable && (
                           <Button
                             variant="ghost"
                             size="sm"
                             className="h-7 w-7 p-0"
-                            title="Download PDF"
+                            title={t('portal.weighings.downloadPdf')}
                             disabled={downloadMutation.isPending}
-                            onClick={() => handleDownloadPdf(t.id)}
+                            onClick={() => handleDownloadPdf(ticket.id)}
                           >
                             {downloadMutation.isPending ? (
                               <Loader2 className="h-3.5 w-3.5 animate-spin" />
@@ -346,7 +339,7 @@ export default function PortalWeighingsPage() {
           {selectedWeighing && (
             <>
               <DialogHeader>
-                <DialogTitle>Ticket #{selectedWeighing.ticketNumber}</DialogTitle>
+                <DialogTitle>{t('portal.weighings.ticketTitle', { ticket: selectedWeighing.ticketNumber })}</DialogTitle>
                 <DialogDescription>
                   {selectedWeighing.vehicleRegNumber} &mdash;{' '}
                   {formatDateTime(selectedWeighing.weighedAt)}
@@ -354,23 +347,23 @@ export default function PortalWeighingsPage() {
               </DialogHeader>
               <div className="space-y-4 mt-2">
                 <div className="bg-gray-50 rounded-lg p-3">
-                  <DetailRow label="Tare Weight" value={formatWeight(selectedWeighing.tareWeightKg)} />
-                  <DetailRow label="Gross Weight" value={formatWeight(selectedWeighing.grossWeightKg)} />
+                  <DetailRow label={t('portal.weighings.tareWeight')} value={formatWeight(selectedWeighing.tareWeightKg, { unit: true })} />
+                  <DetailRow label={t('portal.weighings.grossWeight')} value={formatWeight(selectedWeighing.grossWeightKg, { unit: true })} />
                   <DetailRow
-                    label="Net Weight"
+                    label={t('portal.weighings.netWeight')}
                     value={
                       <span className="font-bold text-blue-700">
-                        {formatWeight(selectedWeighing.netWeightKg)}
+                        {formatWeight(selectedWeighing.netWeightKg, { unit: true })}
                       </span>
                     }
                   />
                 </div>
                 <div className="bg-gray-50 rounded-lg p-3">
-                  <DetailRow label="Organization" value={selectedWeighing.organizationName} />
-                  <DetailRow label="Weighbridge" value={selectedWeighing.stationName} />
-                  <DetailRow label="Cargo" value={selectedWeighing.cargoType} />
-                  <DetailRow label="Consignment" value={selectedWeighing.consignmentNumber} />
-                  <DetailRow label="Driver" value={selectedWeighing.driverName} />
+                  <DetailRow label={t('portal.weighings.organization')} value={selectedWeighing.organizationName} />
+                  <DetailRow label={t('portal.weighings.weighbridge')} value={selectedWeighing.stationName} />
+                  <DetailRow label={t('portal.weighings.col.cargo')} value={selectedWeighing.cargoType} />
+                  <DetailRow label={t('portal.weighings.consignment')} value={selectedWeighing.consignmentNumber} />
+                  <DetailRow label={t('common.driver')} value={selectedWeighing.driverName} />
                 </div>
                 <div className="flex items-center justify-between">
                   <StatusBadge status={selectedWeighing.status} />
@@ -386,7 +379,7 @@ export default function PortalWeighingsPage() {
                       ) : (
                         <Download className="h-4 w-4 mr-1" />
                       )}
-                      Download PDF
+                      {t('portal.weighings.downloadPdf')}
                     </Button>
                   )}
                 </div>
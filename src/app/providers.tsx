@@ -4,6 +4,7 @@ import { AuthInitializer } from '@/components/auth/AuthInitializer';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { BrandProvider } from '@/contexts/BrandContext';
 import { CurrencyProvider } from '@/contexts/CurrencyContext';
+import { LocaleProvider } from '@/contexts/LocaleContext';
 import { CACHE_TIMES, GC_TIMES } from '@/lib/query/config';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
@@ -63,11 +64,13 @@ export function Providers({ children }: { children: React.ReactNode }) {
     <QueryClientProvider client={queryClient}>
       <AuthInitializer>
         <BrandProvider>
-          <CurrencyProvider>
-            <TooltipProvider>
-              {children}
-            </TooltipProvider>
-          </CurrencyProvider>
+          <LocaleProvider>
+            <CurrencyProvider>
+              <TooltipProvider>
+                {children}
+              </TooltipProvider>
+            </CurrencyProvider>
+          </LocaleProvider>
         </BrandProvider>
         <Toaster position="top-right" richColors />
         <ReactQueryDevtools initialIsOpen={false} />
@@ -0,0 +1,112 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import type { CaseWorkflow } from '@/hooks/useCaseWorkflow';
+import type { CaseRegisterDto } from '@/lib/api/caseRegister';
+import { CASE_STATE_LABELS } from '@/lib/case-workflow';
+import { format, formatDistanceStrict } from 'date-fns';
+import { Bot, Calendar, CheckCircle2, Clock, Lock } from 'lucide-react';
+
+interface Props {
+  caseData: CaseRegisterDto;
+  workflow: CaseWorkflow;
+}
+
+const formatAt = (value: string) => format(new Date(value), 'dd MMM yyyy, HH:mm');
+
+/**
+ * Case lifecycle card: current stage and its SLA, the transitions available now (and what blocks
+ * the others), and the recorded stage history.
+ */
+export function CaseWorkflowPanel({ caseData, workflow }: Props) {
+  const { state, sla, transitions, timeline } = workflow;
+  if (!state) return null;
+  const reachable = transitions.filter((t) => t.available);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5 text-gray-500" />
+          Workflow
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <Badge variant="outline">{CASE_STATE_LABELS[state]}</Badge>
+          {sla && (
+            <span className={`flex items-center gap-1 text-xs ${sla.overdue ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+              <Clock className="h-3 w-3" />
+              {sla.overdue ? 'Overdue by ' : 'Due in '}
+              {formatDistanceStrict(new Date(sla.dueAt), new Date())}
+            </span>
+          )}
+        </div>
+        {sla && <p className="text-xs text-gray-400">SLA due {formatAt(sla.dueAt)}</p>}
+
+        {reachable.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Next steps</p>
+              {reachable.map((t) => (
+                <div key={t.action} className="flex items-start gap-2 text-sm">
+                  {t.allowed
+                    ? <CheckCircle2 className="h-4 w-4 text-green-600 mt-0.5 shrink-0" />
+                    : <Lock className="h-4 w-4 text-gray-400 mt-0.5 shrink-0" />}
+                  <div>
+                    <p className={t.allowed ? '' : 'text-gray-500'}>{t.label}</p>
+                    {t.blockedBy.map((reason) => (
+                      <p key={reason} className="text-xs text-amber-700">{reason}</p>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+
+        <Separator />
+        <div className="space-y-4">
+          <div className="flex items-start gap-3">
+            <div className="w-2 h-2 rounded-full bg-blue-500 mt-2" />
+            <div>
+              <p className="text-sm font-medium">Created</p>
+              <p className="text-sm text-gray-500">{formatAt(caseData.createdAt)}</p>
+              <p className="text-xs text-gray-400">by {caseData.createdByName || 'System'}</p>
+            </div>
+          </div>
+          {timeline.map((t) => (
+            <div key={t.id} className="flex items-start gap-3">
+              <div className={`w-2 h-2 rounded-full mt-2 ${t.toState === 'closed' ? 'bg-green-500' : 'bg-gray-400'}`} />
+              <div>
+                <p className="text-sm font-medium flex items-center gap-1">
+                  {CASE_STATE_LABELS[t.toState] ?? t.toState}
+                  {t.automatic && <Bot className="h-3 w-3 text-gray-400" aria-label="Automatic" />}
+                </p>
+                <p className="text-sm text-gray-500">{formatAt(t.at)}</p>
+                {(t.byName || t.reason) && (
+                  <p className="text-xs text-gray-400">
+                    {[t.byName && `by ${t.byName}`, t.reason].filter(Boolean).join(' — ')}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+          {timeline.length === 0 && caseData.closedAt && (
+            <div className="flex items-start gap-3">
+              <div className="w-2 h-2 rounded-full bg-green-500 mt-2" />
+              <div>
+                <p className="text-sm font-medium">Closed</p>
+                <p className="text-sm text-gray-500">{formatAt(caseData.closedAt)}</p>
+                <p className="text-xs text-gray-400">by {caseData.closedByName}</p>
+              </div>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
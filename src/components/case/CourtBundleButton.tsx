@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/hooks/useAuth';
+import { buildCourtBundle, CHECKSUM_STATUS_LABELS, type CourtBundle } from '@/lib/court-bundle/bundle';
+import { collectCourtBundleSources, type CourtBundleProgress } from '@/lib/court-bundle/sources';
+import { downloadBlob } from '@/lib/export';
+import { AlertTriangle, BookOpen, CheckCircle2, Download, Loader2 } from 'lucide-react';
+
+interface CourtBundleButtonProps {
+  caseId: string;
+}
+
+/**
+ * One-click court bundle: every court document and subfile of the case merged into one
+ * Bates-numbered PDF, built in the browser. Opens a summary of what went in afterwards.
+ */
+export function CourtBundleButton({ caseId }: CourtBundleButtonProps) {
+  const { user } = useAuth();
+  const [progress, setProgress] = useState<CourtBundleProgress | 'assembling' | null>(null);
+  const [result, setResult] = useState<{ bundle: CourtBundle; fileName: string } | null>(null);
+
+  const download = (bundle: CourtBundle, fileName: string) =>
+    downloadBlob(new Blob([bundle.bytes as BlobPart], { type: 'application/pdf' }), fileName);
+
+  const handleBuild = async () => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      const input = await collectCourtBundleSources(caseId, {
+        generatedBy: user?.fullName || user?.email,
+        onProgress: setProgress,
+      });
+      setProgress('assembling');
+      const bundle = await buildCourtBundle(input);
+      const fileName = `${bundle.batesPrefix}court-bundle.pdf`;
+      download(bundle, fileName);
+      setResult({ bundle, fileName });
+    } catch (err) {
+      toast.error(err instanceof Error ? `Court bundle failed: ${err.message}` : 'Court bundle failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const label =
+    progress === 'assembling' ? 'Assembling…'
+      : progress ? (progress.total ? `Fetching ${progress.done}/${progress.total}…` : 'Preparing…')
+        : 'Court bundle';
+
+  const missing = result?.bundle.index.filter((e) => !e.included || e.note) ?? [];
+  const mismatched = result?.bundle.index.filter((e) => e.checksum?.status === 'mismatch') ?? [];
+  const verified = result?.bundle.index.filter((e) => e.checksum?.status === 'verified').length ?? 0;
+  const withChecksum = result?.bundle.index.filter((e) => e.checksum).length ?? 0;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handleBuild} disabled={!!progress} title="Merge all documents into one PDF">
+        {progress ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BookOpen className="h-4 w-4 mr-2" />}
+        {label}
+      </Button>
+
+      <Dialog open={!!result} onOpenChange={(open) => !open && setResult(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Court bundle ready</DialogTitle>
+            <DialogDescription>
+              {result?.bundle.index.length} documents, {result?.bundle.pageCount} pages, numbered{' '}
+              {result && `${result.bundle.batesPrefix}000001`} onwards.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3 text-sm">
+            <div className="flex items-center gap-2">
+              {mismatched.length ? (
+                <AlertTriangle className="h-4 w-4 text-red-600" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              )}
+              <span>
+                {verified} of {withChecksum} subfile checksums verified
+              </span>
+            </div>
+            {mismatched.length > 0 && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-1">
+                <p className="font-medium text-red-800">Checksum mismatch — the file differs from what was uploaded</p>
+                {mismatched.map((e) => (
+                  <p key={e.batesRange} className="text-xs text-red-700">
+                    {e.title} <span className="text-red-500">({e.batesRange})</span>
+                  </p>
+                ))}
+              </div>
+            )}
+            {missing.length > 0 && (
+              <div className="rounded-md border bg-muted/50 p-3 space-y-1">
+                <p className="font-medium">Not included in full</p>
+                {missing.map((e) => (
+                  <div key={e.batesRange} className="text-xs">
+                    <span className="font-medium">{e.title}</span>
+                    {e.checksum && e.checksum.status !== 'verified' && (
+                      <Badge variant="outline" className="ml-2 text-[10px]">
+                        {CHECKSUM_STATUS_LABELS[e.checksum.status]}
+                      </Badge>
+                    )}
+                    <p className="text-muted-foreground">{e.note}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResult(null)}>Close</Button>
+            <Button onClick={() => result && download(result.bundle, result.fileName)}>
+              <Download className="h-4 w-4 mr-2" />
+              Download again
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
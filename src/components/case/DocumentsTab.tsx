@@ -17,6 +17,7 @@ import type { CaseDocumentDto } from '@/lib/api/caseDocuments';
 import { apiClient } from '@/lib/api/client';
 import { PdfPreviewDialog } from '@/components/shared/PdfPreviewDialog';
 import { useDocumentPreview } from '@/hooks/useDocumentPreview';
+import { CourtBundleButton } from './CourtBundleButton';
 import {
   Download,
   FileCheck,
@@ -100,11 +101,12 @@ export function DocumentsTab({ caseId }: DocumentsTabProps) {
 
       {/* Documents Table */}
       <Card>
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle className="text-base flex items-center gap-2">
             <FileText className="h-5 w-5" />
             Case Documents ({documents?.length ?? 0})
           </CardTitle>
+          <CourtBundleButton caseId={caseId} />
         </CardHeader>
         <CardContent>
           {!documents || documents.length === 0 ? (
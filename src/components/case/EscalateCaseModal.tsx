@@ -24,6 +24,7 @@ import { DriverFormFields, type DriverFormValues } from '@/components/weighing/m
 import { TransporterFormFields, type TransporterFormValues } from '@/components/weighing/modals/TransporterFormFields';
 import { useEscalateCase, useUpdateCase } from '@/hooks/queries/useCaseRegisterQueries';
 import type { CaseRegisterDto } from '@/lib/api/caseRegister';
+import { CaseTransitionError } from '@/lib/case-workflow';
 import { fetchStations } from '@/lib/api/setup';
 import { getDriverById, getTransporterById, getVehicleById } from '@/lib/api/weighing';
 import { useQuery } from '@tanstack/react-query';
@@ -222,8 +223,8 @@ export function EscalateCaseModal({
       toast.success('Case escalated successfully');
       onOpenChange(false);
       onSuccess?.();
-    } catch (_e) {
-      toast.error('Failed to escalate case');
+    } catch (e) {
+      toast.error(e instanceof CaseTransitionError ? e.message : 'Failed to escalate case');
     }
   }, [
     caseId,
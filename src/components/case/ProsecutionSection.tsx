@@ -53,6 +53,7 @@ import { useOrgSlug } from '@/hooks/useOrgSlug';
 import { PdfPreviewDialog } from '@/components/shared/PdfPreviewDialog';
 import { downloadInvoicePdf, type InvoiceDto } from '@/lib/api/invoice';
 import { downloadChargeSheetPdf, type ChargeCalculationResult } from '@/lib/api/prosecution';
+import { downloadEvidencePack } from '@/lib/offline/anprEvidence';
 import { downloadReceiptPdf, generateIdempotencyKey } from '@/lib/api/receipt';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { format } from 'date-fns';
@@ -63,6 +64,7 @@ import {
     CreditCard,
     DollarSign,
     Download,
+    FileArchive,
     FileText,
     Globe,
     Loader2,
@@ -166,6 +168,7 @@ export function ProsecutionSection({ caseId, caseNo: _caseNo, weighingId, driver
 
   // Document preview (charge sheet / invoice / receipt open in preview first)
   const { openPreview, previewProps } = useDocumentPreview();
+  const [isBuildingPack, setIsBuildingPack] = useState(false);
 
   // Modal states
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -200,6 +203,29 @@ export function ProsecutionSection({ caseId, caseNo: _caseNo, weighingId, driver
   const { formatAmount: formatCurrency } = useCurrency();
 
   // Handle create prosecution from charges — use real act ID from GET /acts
+  // Charge sheet bundled with the weighing's photo evidence and its hash manifest
+  const handleEvidencePack = useCallback(async () => {
+    if (!prosecution || !weighingId) return;
+    const ref = prosecution.certificateNo || prosecution.id;
+    setIsBuildingPack(true);
+    try {
+      const { manifest, documentIncluded } = await downloadEvidencePack(
+        weighingId,
+        { title: 'Charge Sheet', fileName: `ChargeSheet_${ref}.pdf`, load: () => downloadChargeSheetPdf(prosecution.id) },
+        `EvidencePack_${ref}`,
+      );
+      const { frames, mismatched, missing } = manifest.summary;
+      if (!documentIncluded) toast.warning('Charge sheet could not be fetched; the pack has the evidence only.');
+      if (mismatched > 0) toast.error(`${mismatched} of ${frames} images no longer match their capture hash.`);
+      else toast.success(`Evidence pack downloaded (${frames - missing} of ${frames} images).`);
+    } catch (err) {
+      console.error('Failed to build evidence pack:', err);
+      toast.error('Failed to build evidence pack.');
+    } finally {
+      setIsBuildingPack(false);
+    }
+  }, [prosecution, weighingId]);
+
   const handleCreateProsecution = useCallback(
     async (charges: ChargeCalculationResult) => {
       const actCode = charges.legalFramework === 'EAC_ACT' ? 'EAC_ACT' : 'TRAFFIC_ACT';
@@ -573,6 +599,12 @@ export function ProsecutionSection({ caseId, caseNo: _caseNo, weighingId, driver
                 <Download className="h-4 w-4 mr-2" />
                 Charge Sheet
               </Button>
+              {weighingId && (
+                <Button variant="outline" size="sm" onClick={handleEvidencePack} disabled={isBuildingPack}>
+                  {isBuildingPack ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileArchive className="h-4 w-4 mr-2" />}
+                  Evidence Pack
+                </Button>
+              )}
             </div>
           </div>
         </CardHeader>
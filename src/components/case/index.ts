@@ -9,7 +9,9 @@ export { CaseAssignmentLog } from './CaseAssignmentLog';
 export { ConvictionHistory } from './ConvictionHistory';
 export { CasePartyList } from './CasePartyList';
 export { CaseSubfileList } from './CaseSubfileList';
+export { CaseWorkflowPanel } from './CaseWorkflowPanel';
 export { ClosureChecklistPanel } from './ClosureChecklistPanel';
+export { CourtBundleButton } from './CourtBundleButton';
 export { CourtHearingList } from './CourtHearingList';
 export { EscalateCaseModal } from './EscalateCaseModal';
 export { EscalateChooserModal } from './EscalateChooserModal';
@@ -12,10 +12,12 @@ import type { LucideIcon } from 'lucide-react';
 import {
   BarChart3,
   BookOpen,
+  CalendarDays,
   Clock4,
   Cog,
   CreditCard,
   Database,
+  FileSignature,
   FileText,
   FolderOpen,
   Gavel,
@@ -71,8 +73,10 @@ const menuSections: MenuSection[] = [
       { href: '/dashboard', label: 'Dashboard', icon: LayoutDashboard, permissions: [], moduleKey: 'dashboard' },
       { href: '/weighing', label: 'Weighing', icon: Weight, permissions: ['weighing.read'], moduleKey: 'weighing' },
       { href: '/weighing/tare-register', label: 'Tare Register', icon: Scale, permissions: ['weighing.read'], moduleKey: 'tare_register', commercialOnly: true },
+      { href: '/weighing/contracts', label: 'Contracts', icon: FileSignature, permissions: ['weighing.read'], moduleKey: 'commercial_contracts', commercialOnly: true },
       { href: '/cases', label: 'Case Register', icon: FolderOpen, permissions: ['case.read'], moduleKey: 'cases' },
       { href: '/case-management', label: 'Case management', icon: LayoutList, permissions: ['case.read'], moduleKey: 'case_management' },
+      { href: '/case-management/hearings', label: 'Hearing calendar', icon: CalendarDays, permissions: ['case.read'], moduleKey: 'case_management' },
       { href: '/cases/special-releases', label: 'Special releases', icon: ShieldAlert, permissions: ['case.special_release'], moduleKey: 'special_releases' },
       { href: '/prosecution', label: 'Prosecution', icon: Gavel, permissions: ['prosecution.read'], moduleKey: 'prosecution' },
       { href: '/reporting', label: 'Reporting', icon: BarChart3, permissions: ['analytics.read'], moduleKey: 'reporting' },
@@ -0,0 +1,205 @@
+'use client';
+
+/**
+ * ConflictResolveDialog — three-way merge for a queued update the server rejected with 409/412.
+ *
+ * Shows each field of the offline edit as base (when it was edited) / yours (offline edit) /
+ * server (now), pre-selects the side that changed, and makes the officer pick where both sides
+ * changed. Resubmitting re-queues the merged update against the current server version.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  defaultMergeChoices,
+  getConflict,
+  mergeFields,
+  resolveConflict,
+  type ConflictRecord,
+  type FieldChange,
+  type MergeSide,
+} from '@/lib/offline/conflicts';
+import { cn } from '@/lib/utils';
+import { GitMerge, Loader2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+interface ConflictResolveDialogProps {
+  /** Queued mutation id; null closes the dialog. */
+  mutationId: number | null;
+  onOpenChange: (open: boolean) => void;
+  /** Called after the merged update is re-queued (e.g. to drain immediately). */
+  onResolved?: () => void | Promise<void>;
+}
+
+const CHANGE_BADGE: Record<FieldChange, { label: string; className: string }> = {
+  unchanged: { label: 'Unchanged', className: 'border-gray-200 text-gray-500' },
+  local: { label: 'Your edit', className: 'border-blue-300 text-blue-700' },
+  server: { label: 'Server edit', className: 'border-purple-300 text-purple-700' },
+  same: { label: 'Same edit', className: 'border-green-300 text-green-700' },
+  conflict: { label: 'Conflict', className: 'border-red-300 text-red-700' },
+};
+
+/** "caseManagerId" → "Case Manager" */
+function fieldLabel(field: string): string {
+  return field
+    .replace(/Id$/, '')
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/^./, (c) => c.toUpperCase())
+    .replace(/\bNtac\b/, 'NTAC')
+    .replace(/\bOb\b/, 'OB')
+    .trim();
+}
+
+/** Prefer the record's display name for id fields (courtId → courtName) when the ids match. */
+function displayValue(value: unknown, field: string, ...records: (Record<string, unknown> | null)[]): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field.endsWith('Id')) {
+    const nameField = field.replace(/Id$/, 'Name');
+    for (const r of records) {
+      if (r && r[field] === value && typeof r[nameField] === 'string') return r[nameField] as string;
+    }
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function ConflictResolveDialog({ mutationId, onOpenChange, onResolved }: ConflictResolveDialogProps) {
+  const [conflict, setConflict] = useState<ConflictRecord | null>(null);
+  const [choices, setChoices] = useState<Record<string, MergeSide | undefined>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (mutationId === null) {
+      setConflict(null);
+      return;
+    }
+    let cancelled = false;
+    void getConflict(mutationId).then((c) => {
+      if (cancelled) return;
+      setConflict(c);
+      setChoices(c ? defaultMergeChoices(c.diffs) : {});
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [mutationId]);
+
+  const unresolved = conflict?.diffs.filter((d) => !choices[d.field]).length ?? 0;
+
+  const handleResubmit = async () => {
+    if (!conflict) return;
+    setSaving(true);
+    try {
+      await resolveConflict(conflict.id, mergeFields(conflict.diffs, choices));
+      toast.success('Merged update re-queued');
+      onOpenChange(false);
+      await onResolved?.();
+    } catch {
+      toast.error('Failed to re-queue the merged update');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const sideButton = (field: string, side: MergeSide, text: string, disabled: boolean) => (
+    <button
+      type="button"
+      disabled={disabled}
+      onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+      className={cn(
+        'w-full rounded-md border px-2 py-1 text-left text-xs transition-colors',
+        choices[field] === side
+          ? 'border-primary bg-primary/10 font-medium text-primary'
+          : 'border-gray-200 text-gray-700 hover:bg-gray-50',
+        disabled && 'cursor-default opacity-70 hover:bg-transparent',
+      )}
+    >
+      {text}
+    </button>
+  );
+
+  return (
+    <Dialog open={mutationId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-4 w-4" /> Resolve sync conflict
+          </DialogTitle>
+          <DialogDescription>
+            This record was changed online while your edit was waiting to sync. Choose which value to keep for each
+            field, then resubmit.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!conflict ? (
+          <div className="flex h-32 items-center justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {!conflict.server && (
+              <p className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+                The current server copy couldn&apos;t be loaded. Resubmitting keeps your values and retries.
+              </p>
+            )}
+            <div className="max-h-[55vh] overflow-y-auto rounded-lg border border-gray-200">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[22%]">Field</TableHead>
+                    <TableHead className="w-[22%]">When you edited</TableHead>
+                    <TableHead>Yours</TableHead>
+                    <TableHead>Server now</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {conflict.diffs.map((d) => {
+                    const badge = CHANGE_BADGE[d.change];
+                    const records = [conflict.base, conflict.server];
+                    const locked = d.change === 'unchanged' || d.change === 'same' || !conflict.server;
+                    return (
+                      <TableRow key={d.field} className={d.change === 'conflict' && !choices[d.field] ? 'bg-red-50/60' : ''}>
+                        <TableCell>
+                          <p className="text-sm font-medium">{fieldLabel(d.field)}</p>
+                          <Badge variant="outline" className={cn('mt-1 text-[10px]', badge.className)}>
+                            {badge.label}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs text-gray-500">{displayValue(d.base, d.field, conflict.base)}</TableCell>
+                        <TableCell>{sideButton(d.field, 'local', displayValue(d.local, d.field, ...records), locked)}</TableCell>
+                        <TableCell>
+                          {conflict.server
+                            ? sideButton(d.field, 'server', displayValue(d.server, d.field, conflict.server), locked)
+                            : <span className="text-xs text-gray-400">—</span>}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Later
+          </Button>
+          <Button onClick={handleResubmit} disabled={!conflict || unresolved > 0 || saving} className="gap-1.5">
+            {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitMerge className="h-4 w-4" />}
+            {unresolved > 0 ? `Choose ${unresolved} more` : 'Resubmit merged'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
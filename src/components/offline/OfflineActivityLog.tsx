@@ -0,0 +1,170 @@
+'use client';
+
+/**
+ * OfflineActivityLog — this device's hash-chained offline activity (PIN unlocks, offline
+ * captures, provisional results shown, sync attempts), shown under the server audit log.
+ *
+ * The chain is re-verified on every load; a broken hash or link flags the entry where the log
+ * stops being trustworthy. Upload state shows which entries the server already holds.
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getOfflineActivity, verifyLocalActivityLog, type ChainStatus } from '@/lib/offline/activityLog';
+import type { OfflineActivityEntry, OfflineActivityKind } from '@/lib/offline/db';
+import { CheckCircle2, CloudUpload, Loader2, RefreshCcw, ShieldAlert, ShieldCheck, XCircle } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+
+const KIND_LABELS: Record<OfflineActivityKind, string> = {
+  PIN_UNLOCK: 'PIN unlock',
+  PIN_UNLOCK_FAILED: 'PIN unlock failed',
+  PIN_LOCKOUT: 'PIN lockout',
+  OFFLINE_CAPTURE: 'Offline capture',
+  PROVISIONAL_RESULT_SHOWN: 'Provisional result shown',
+  SYNC_ATTEMPT: 'Sync attempt',
+};
+
+function summarize(entry: OfflineActivityEntry): string {
+  if (!entry.details) return '';
+  try {
+    const d = JSON.parse(entry.details) as Record<string, unknown>;
+    switch (entry.kind) {
+      case 'PIN_UNLOCK_FAILED':
+        return `${d.attemptsRemaining} attempt(s) left`;
+      case 'OFFLINE_CAPTURE':
+        return [d.vehicleRegNumber, d.ticketNumber].filter(Boolean).join(' · ');
+      case 'PROVISIONAL_RESULT_SHOWN':
+        return [d.vehicleRegNumber, d.overallStatus, d.gvwOverloadKg ? `+${Number(d.gvwOverloadKg).toLocaleString()} kg` : null]
+          .filter(Boolean)
+          .join(' · ');
+      case 'SYNC_ATTEMPT':
+        return `${d.synced} of ${d.pending} synced`;
+      default:
+        return '';
+    }
+  } catch {
+    return '';
+  }
+}
+
+interface OfflineActivityLogProps {
+  formatTimestamp: (iso: string) => string;
+}
+
+export function OfflineActivityLog({ formatTimestamp }: OfflineActivityLogProps) {
+  const [entries, setEntries] = useState<OfflineActivityEntry[] | null>(null);
+  const [chain, setChain] = useState<ChainStatus | null>(null);
+
+  const load = useCallback(async () => {
+    const [list, status] = await Promise.all([getOfflineActivity(200), verifyLocalActivityLog()]);
+    setEntries(list);
+    setChain(status);
+  }, []);
+
+  useEffect(() => {
+    void load().catch(() => {
+      setEntries([]);
+      setChain({ status: 'empty' });
+    });
+  }, [load]);
+
+  const brokenAt = chain?.status === 'tampered' ? chain.brokenAtSeq : null;
+
+  return (
+    <Card>
+      <div className="p-6 border-b flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Offline Activity (this device)</h3>
+          <p className="text-sm text-gray-500">PIN unlocks, offline captures and provisional results recorded while offline</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {chain?.status === 'intact' && (
+            <Badge variant="outline" className="border-green-300 text-green-700 gap-1">
+              <ShieldCheck className="h-3.5 w-3.5" /> Chain verified ({chain.checked})
+            </Badge>
+          )}
+          {chain?.status === 'tampered' && (
+            <Badge variant="destructive" className="gap-1">
+              <ShieldAlert className="h-3.5 w-3.5" /> Tampered at #{chain.brokenAtSeq}
+            </Badge>
+          )}
+          <Button variant="outline" size="icon" onClick={() => void load()} title="Re-verify">
+            <RefreshCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Timestamp</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Activity</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="hidden lg:table-cell">Uploaded</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries === null ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-8 text-center">
+                  <Loader2 className="h-5 w-5 animate-spin text-gray-400 inline" />
+                </TableCell>
+              </TableRow>
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell className="text-sm text-gray-500 text-center py-8" colSpan={6}>
+                  No offline activity recorded on this device
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => (
+                <TableRow
+                  key={entry.seq}
+                  className={brokenAt !== null && entry.seq >= brokenAt ? 'bg-red-50' : undefined}
+                >
+                  <TableCell className="font-mono text-xs text-gray-500" title={entry.hash}>
+                    {entry.seq}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatTimestamp(entry.at)}</TableCell>
+                  <TableCell className="text-sm">{entry.userLabel || 'Unknown'}</TableCell>
+                  <TableCell className="text-sm">
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {KIND_LABELS[entry.kind] ?? entry.kind}
+                    </Badge>
+                    <span className="text-gray-500 ml-2">{summarize(entry)}</span>
+                  </TableCell>
+                  <TableCell>
+                    {entry.success ? (
+                      <Badge variant="default" className="bg-green-100 text-green-800 hover:bg-green-100">
+                        <CheckCircle2 className="h-3 w-3 mr-1" />
+                        Success
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">
+                        <XCircle className="h-3 w-3 mr-1" />
+                        Failed
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="hidden lg:table-cell text-sm text-gray-500">
+                    {entry.uploadedAt ? (
+                      formatTimestamp(entry.uploadedAt)
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-amber-700">
+                        <CloudUpload className="h-3.5 w-3.5" /> Pending
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+}
@@ -5,8 +5,9 @@
  *
  * Surfaces pending (auto-retrying) and dead-lettered (needs review) items so
  * offline-captured data is never silently lost. Lets the operator force a sync,
- * retry a failed item, or discard it. Reads from the Dexie offline stores via
- * the sync engine helpers.
+ * retry a failed item, or discard it. Updates that hit a version conflict open a
+ * three-way merge instead of a blind retry. Reads from the Dexie offline stores
+ * via the sync engine helpers.
  */
 
 import { Badge } from '@/components/ui/badge';
@@ -20,14 +21,16 @@ import {
   type DeadLetterItem,
 } from '@/lib/offline/sync';
 import { getSyncStatusCounts } from '@/lib/offline/db';
-import { AlertTriangle, CloudOff, Loader2, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { AlertTriangle, CloudOff, GitMerge, Loader2, RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
 import { useCallback, useEffect, useState } from 'react';
 import { toast } from 'sonner';
+import { ConflictResolveDialog } from './ConflictResolveDialog';
 
 export function OfflineSyncPanel() {
   const [counts, setCounts] = useState({ pending: 0, deadLetter: 0 });
   const [deadLetters, setDeadLetters] = useState<DeadLetterItem[]>([]);
   const [syncing, setSyncing] = useState(false);
+  const [resolvingId, setResolvingId] = useState<number | null>(null);
 
   const refresh = useCallback(async () => {
     const [c, dl] = await Promise.all([getSyncStatusCounts(), getDeadLetterItems()]);
@@ -106,9 +109,15 @@ export function OfflineSyncPanel() {
                   </p>
                 </div>
                 <div className="flex shrink-0 gap-1">
-                  <Button size="icon" variant="ghost" className="h-8 w-8" title="Retry" onClick={() => handleRetry(item)}>
-                    <RotateCcw className="h-4 w-4" />
-                  </Button>
+                  {item.conflict ? (
+                    <Button size="icon" variant="ghost" className="h-8 w-8" title="Resolve conflict" onClick={() => setResolvingId(Number(item.key))}>
+                      <GitMerge className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button size="icon" variant="ghost" className="h-8 w-8" title="Retry" onClick={() => handleRetry(item)}>
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  )}
                   <Button size="icon" variant="ghost" className="h-8 w-8 text-red-600" title="Discard" onClick={() => handleDismiss(item)}>
                     <Trash2 className="h-4 w-4" />
                   </Button>
@@ -124,6 +133,12 @@ export function OfflineSyncPanel() {
           </p>
         )}
       </CardContent>
+
+      <ConflictResolveDialog
+        mutationId={resolvingId}
+        onOpenChange={(open) => !open && setResolvingId(null)}
+        onResolved={handleSyncNow}
+      />
     </Card>
   );
 }
@@ -4,8 +4,10 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { getMediaUrl, uploadMedia } from '@/lib/api/media';
+import { DEFAULT_LOCALE, resolveLocale, SUPPORTED_LOCALES } from '@/lib/i18n';
 import { getCurrentOrganization, updateCurrentOrganizationBranding } from '@/lib/api/setup';
 import type { UpdateOrganizationBrandingRequest } from '@/types/setup';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
@@ -28,6 +30,7 @@ export function BrandSettingsTab({ canEdit }: { canEdit: boolean }) {
   const [loginPageImageUrl, setLoginPageImageUrl] = useState('');
   const [primaryColor, setPrimaryColor] = useState('');
   const [secondaryColor, setSecondaryColor] = useState('');
+  const [defaultLocale, setDefaultLocale] = useState<string>(DEFAULT_LOCALE);
   const [uploading, setUploading] = useState<string | null>(null);
   const logoInputRef = useRef<HTMLInputElement>(null);
   const platformLogoInputRef = useRef<HTMLInputElement>(null);
@@ -40,6 +43,7 @@ export function BrandSettingsTab({ canEdit }: { canEdit: boolean }) {
       setLoginPageImageUrl(org.loginPageImageUrl ?? '');
       setPrimaryColor(org.primaryColor ?? '');
       setSecondaryColor(org.secondaryColor ?? '');
+      setDefaultLocale(resolveLocale(org.defaultLocale) ?? DEFAULT_LOCALE);
     }
   }, [org]);
 
@@ -80,6 +84,7 @@ export function BrandSettingsTab({ canEdit }: { canEdit: boolean }) {
       loginPageImageUrl: loginPageImageUrl.trim() || null,
       primaryColor: primaryColor.trim() || null,
       secondaryColor: secondaryColor.trim() || null,
+      defaultLocale,
     });
   };
 
@@ -89,7 +94,8 @@ export function BrandSettingsTab({ canEdit }: { canEdit: boolean }) {
       (platformLogoUrl !== (org.platformLogoUrl ?? '')) ||
       (loginPageImageUrl !== (org.loginPageImageUrl ?? '')) ||
       (primaryColor !== (org.primaryColor ?? '')) ||
-      (secondaryColor !== (org.secondaryColor ?? '')));
+      (secondaryColor !== (org.secondaryColor ?? '')) ||
+      (defaultLocale !== (resolveLocale(org.defaultLocale) ?? DEFAULT_LOCALE)));
 
   if (isLoading || !org) {
     return (
@@ -235,6 +241,25 @@ export function BrandSettingsTab({ canEdit }: { canEdit: boolean }) {
               </div>
             </div>
           </div>
+          <div>
+            <Label htmlFor="defaultLocale">Default language</Label>
+            <p className="text-xs text-gray-500 mt-0.5">
+              Used for everyone in the organisation unless they pick their own on the profile page.
+            </p>
+            <Select value={defaultLocale} onValueChange={setDefaultLocale} disabled={!canEdit}>
+              <SelectTrigger id="defaultLocale" className="mt-2 w-full sm:w-72">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_LOCALES.map((l) => (
+                  <SelectItem key={l.code} value={l.code}>
+                    {l.nativeName}
+                    {l.nativeName !== l.englishName && ` (${l.englishName})`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           {canEdit && (
             <Button onClick={handleSave} disabled={!hasChanges || updateBranding.isPending}>
               {updateBranding.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
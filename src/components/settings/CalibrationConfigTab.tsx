@@ -4,15 +4,18 @@ import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
     AlertCircle,
     Calendar,
+    Camera,
     CheckCircle2,
     Download,
     Loader2,
     Save,
     Scale,
     Shield,
+    Timer,
+    TrafficCone,
     Upload
 } from 'lucide-react';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { toast } from 'sonner';
 
 import { Button } from '@/components/ui/button';
@@ -37,6 +40,24 @@ import {
 import {
     getActiveAnnualCalibration
 } from '@/lib/api/weighing';
+import { useStations } from '@/hooks/queries/useWeighingQueries';
+import {
+    DEFAULT_DRIFT_WARNING_DAYS,
+    DRIFT_WARNING_DAYS_KEY,
+    SCALE_TEST_MAX_DEVIATION_KEY,
+} from '@/lib/calibration-drift';
+import { anprSettingKey, resolveMinConfidence } from '@/lib/truconnect/anprEvidence';
+import {
+    resolveStabilityConfig,
+    stabilitySettingKey,
+    type StabilityConfig,
+} from '@/lib/truconnect/stability';
+import {
+    expectedDeckCount,
+    resolveTrafficLayout,
+    trafficSettingKey,
+    type TrafficLayout,
+} from '@/lib/truconnect/trafficControl';
 
 // ============================================================================
 // Constants
@@ -52,10 +73,23 @@ const SCALE_TEST_FREQUENCIES = [
 const SETTINGS_KEYS = {
     SCALE_TEST_FREQUENCY: 'ScaleTest.Frequency',
     SCALE_TEST_TARGET_WEIGHT: 'ScaleTest.TargetWeightKg',
-    SCALE_TEST_MAX_DEVIATION: 'ScaleTest.MaxDeviationKg',
+    SCALE_TEST_MAX_DEVIATION: SCALE_TEST_MAX_DEVIATION_KEY,
+    DRIFT_WARNING_DAYS: DRIFT_WARNING_DAYS_KEY,
     ANNUAL_CALIBRATION_REMINDER_DAYS: 'AnnualCalibration.ReminderDays',
 };
 
+/** Station selector value for the org-wide stability / traffic defaults. */
+const ALL_STATIONS = '__default__';
+
+/**
+ * The settings PUT replaces the whole `calibration` service, so every save sends the
+ * existing entries with the edited ones overlaid (keeps per-station stability and traffic keys).
+ */
+function mergeEntries(existing: KeyValueEntry[] | undefined, updates: KeyValueEntry[]): KeyValueEntry[] {
+    const keys = new Set(updates.map((e) => e.key));
+    return [...(existing ?? []).filter((e) => !keys.has(e.key)), ...updates];
+}
+
 // ============================================================================
 // CalibrationConfigTab
 // ============================================================================
@@ -83,6 +117,7 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
     const [targetWeight, setTargetWeight] = useState('18000');
     const [maxDeviation, setMaxDeviation] = useState('50');
     const [reminderDays, setReminderDays] = useState('30');
+    const [driftWarningDays, setDriftWarningDays] = useState(String(DEFAULT_DRIFT_WARNING_DAYS));
 
     // Populate from existing settings
     useEffect(() => {
@@ -94,6 +129,7 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
         setTargetWeight(findVal(SETTINGS_KEYS.SCALE_TEST_TARGET_WEIGHT) ?? '18000');
         setMaxDeviation(findVal(SETTINGS_KEYS.SCALE_TEST_MAX_DEVIATION) ?? '50');
         setReminderDays(findVal(SETTINGS_KEYS.ANNUAL_CALIBRATION_REMINDER_DAYS) ?? '30');
+        setDriftWarningDays(findVal(SETTINGS_KEYS.DRIFT_WARNING_DAYS) ?? String(DEFAULT_DRIFT_WARNING_DAYS));
     }, [settings]);
 
     // Save mutation
@@ -104,8 +140,9 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
                 { key: SETTINGS_KEYS.SCALE_TEST_TARGET_WEIGHT, value: targetWeight },
                 { key: SETTINGS_KEYS.SCALE_TEST_MAX_DEVIATION, value: maxDeviation },
                 { key: SETTINGS_KEYS.ANNUAL_CALIBRATION_REMINDER_DAYS, value: reminderDays },
+                { key: SETTINGS_KEYS.DRIFT_WARNING_DAYS, value: driftWarningDays },
             ];
-            return saveApiSettings('calibration', entries);
+            return saveApiSettings('calibration', mergeEntries(settings, entries));
         },
         onSuccess: () => {
             toast.success('Calibration settings saved successfully.');
@@ -128,8 +165,13 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
             toast.error('Max deviation must be a positive number.');
             return;
         }
+        const dw = parseInt(driftWarningDays, 10);
+        if (isNaN(dw) || dw < 0) {
+            toast.error('Drift warning days must be zero or more.');
+            return;
+        }
         saveMutation.mutate();
-    }, [targetWeight, maxDeviation, saveMutation]);
+    }, [targetWeight, maxDeviation, driftWarningDays, saveMutation]);
 
     if (isLoadingSettings) {
         return (
@@ -255,6 +297,15 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
                 </div>
             </Card>
 
+            {/* Weight Stability (per station) */}
+            <WeightStabilityCard canEdit={canEdit} settings={settings} />
+
+            {/* Traffic Control layout (per station) */}
+            <TrafficLayoutCard canEdit={canEdit} settings={settings} />
+
+            {/* ANPR plate review threshold (per station) */}
+            <AnprReviewCard canEdit={canEdit} settings={settings} />
+
             {/* Scale Test Configuration */}
             <Card className="p-6">
                 <div className="flex items-start gap-4">
@@ -313,7 +364,7 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
                         </div>
 
                         {/* Weight Parameters */}
-                        <div className="grid gap-5 sm:grid-cols-2">
+                        <div className="grid gap-5 sm:grid-cols-3">
                             <div className="space-y-2">
                                 <Label htmlFor="target-weight">Target Weight (kg)</Label>
                                 <Input
@@ -346,6 +397,23 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
                                     Scale test fails if exceeded.
                                 </p>
                             </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="drift-warning-days">Drift Warning (days ahead)</Label>
+                                <Input
+                                    id="drift-warning-days"
+                                    type="number"
+                                    min={0}
+                                    value={driftWarningDays}
+                                    onChange={(e) => setDriftWarningDays(e.target.value)}
+                                    disabled={!canEdit}
+                                    placeholder={String(DEFAULT_DRIFT_WARNING_DAYS)}
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                    Warn operators when the deviation trend is predicted to pass the max deviation
+                                    within this many days. Weighing is blocked once it has.
+                                </p>
+                            </div>
                         </div>
 
                         {/* Active Calibration Reference */}
@@ -387,6 +455,494 @@ export function CalibrationConfigTab({ canEdit }: { canEdit: boolean }) {
     );
 }
 
+// ============================================================================
+// WeightStabilityCard
+// ============================================================================
+
+function WeightStabilityCard({
+    canEdit,
+    settings,
+}: {
+    canEdit: boolean;
+    settings: KeyValueEntry[] | undefined;
+}) {
+    const queryClient = useQueryClient();
+    const { data: stations = [] } = useStations();
+    const [stationCode, setStationCode] = useState(ALL_STATIONS);
+    const scope = stationCode === ALL_STATIONS ? undefined : stationCode;
+
+    // What the selected scope currently resolves to (station → org default → built-in)
+    const effective = useMemo(() => resolveStabilityConfig(settings, scope), [settings, scope]);
+    const [form, setForm] = useState<Record<keyof StabilityConfig, string>>({
+        windowMs: '',
+        maxDeviationKg: '',
+        minDwellMs: '',
+    });
+
+    useEffect(() => {
+        setForm({
+            windowMs: String(effective.windowMs),
+            maxDeviationKg: String(effective.maxDeviationKg),
+            minDwellMs: String(effective.minDwellMs),
+        });
+    }, [effective]);
+
+    const hasStationOverride = !!scope && !!settings?.some((e) => e.key.startsWith(`Stability.${scope}.`));
+
+    const saveMutation = useMutation({
+        mutationFn: async (entries: KeyValueEntry[]) => saveApiSettings('calibration', entries),
+        onSuccess: () => {
+            toast.success('Weight stability settings saved.');
+            queryClient.invalidateQueries({ queryKey: ['api-settings'] });
+        },
+        onError: () => {
+            toast.error('Failed to save weight stability settings.');
+        },
+    });
+
+    const handleSave = useCallback(() => {
+        const fields = Object.keys(form) as (keyof StabilityConfig)[];
+        for (const f of fields) {
+            const n = parseFloat(form[f]);
+            if (isNaN(n) || n <= 0) {
+                toast.error('Stability window, deviation and dwell time must be positive numbers.');
+                return;
+            }
+        }
+        saveMutation.mutate(
+            mergeEntries(settings, fields.map((f) => ({ key: stabilitySettingKey(f, scope), value: form[f] })))
+        );
+    }, [form, scope, settings, saveMutation]);
+
+    const handleClearOverride = useCallback(() => {
+        if (!scope) return;
+        saveMutation.mutate((settings ?? []).filter((e) => !e.key.startsWith(`Stability.${scope}.`)));
+    }, [scope, settings, saveMutation]);
+
+    return (
+        <Card className="p-6">
+            <div className="flex items-start gap-4">
+                <div className="rounded-xl p-3 bg-amber-100 text-amber-600">
+                    <Timer className="h-6 w-6" />
+                </div>
+                <div className="flex-1 space-y-5">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">Weight Stability</h3>
+                        <p className="text-sm text-muted-foreground mt-1">
+                            A reading may only be captured once it has stayed within the maximum deviation
+                            for the minimum dwell time. This is checked in the browser on the live weight
+                            stream, independently of the indicator&apos;s own stable flag. Refused captures
+                            are recorded in the audit log.
+                        </p>
+                    </div>
+
+                    <div className="space-y-2 max-w-md">
+                        <Label htmlFor="stability-station">Applies To</Label>
+                        <Select value={stationCode} onValueChange={setStationCode}>
+                            <SelectTrigger id="stability-station">
+                                <SelectValue placeholder="Select station" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_STATIONS}>All stations (default)</SelectItem>
+                                {stations.filter((st) => st.code).map((st) => (
+                                    <SelectItem key={st.id} value={st.code}>
+                                        {st.name} ({st.code})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {scope && !hasStationOverride && (
+                            <p className="text-xs text-muted-foreground">
+                                Using the organisation defaults. Saving creates an override for this station.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid gap-5 sm:grid-cols-3">
+                        <div className="space-y-2">
+                            <Label htmlFor="stability-window">Window (ms)</Label>
+                            <Input
+                                id="stability-window"
+                                type="number"
+                                min={100}
+                                step={100}
+                                value={form.windowMs}
+                                onChange={(e) => setForm((f) => ({ ...f, windowMs: e.target.value }))}
+                                disabled={!canEdit}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Sliding window the spread is measured over.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="stability-deviation">Max Deviation (kg)</Label>
+                            <Input
+                                id="stability-deviation"
+                                type="number"
+                                min={1}
+                                value={form.maxDeviationKg}
+                                onChange={(e) => setForm((f) => ({ ...f, maxDeviationKg: e.target.value }))}
+                                disabled={!canEdit}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Largest max − min spread inside the window still treated as still.
+                            </p>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="stability-dwell">Minimum Dwell (ms)</Label>
+                            <Input
+                                id="stability-dwell"
+                                type="number"
+                                min={100}
+                                step={100}
+                                value={form.minDwellMs}
+                                onChange={(e) => setForm((f) => ({ ...f, minDwellMs: e.target.value }))}
+                                disabled={!canEdit}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                How long the reading must stay within tolerance before capture.
+                            </p>
+                        </div>
+                    </div>
+
+                    {canEdit && (
+                        <div className="flex justify-end gap-2 pt-2">
+                            {hasStationOverride && (
+                                <Button
+                                    variant="outline"
+                                    onClick={handleClearOverride}
+                                    disabled={saveMutation.isPending}
+                                >
+                                    Use Defaults
+                                </Button>
+                            )}
+                            <Button onClick={handleSave} disabled={saveMutation.isPending} className="gap-2">
+                                {saveMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Save className="h-4 w-4" />
+                                )}
+                                Save Stability
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </Card>
+    );
+}
+
+// ============================================================================
+// TrafficLayoutCard
+// ============================================================================
+
+const TRAFFIC_FIELDS: { field: keyof TrafficLayout; label: string; hint: string; min: number; step?: number }[] = [
+    { field: 'deckCount', label: 'Decks', hint: 'Weighing decks on the platform.', min: 1 },
+    { field: 'deckLengthM', label: 'Deck Length (m)', hint: 'Length of one deck.', min: 1, step: 0.5 },
+    { field: 'vehicleLengthM', label: 'Vehicle Length (m)', hint: 'Typical vehicle length at this station.', min: 1, step: 0.5 },
+    { field: 'axleCount', label: 'Axle Count', hint: 'Typical axle count; caps the decks expected.', min: 2 },
+    { field: 'occupiedKg', label: 'Occupied Above (kg)', hint: 'Deck load that counts as occupied.', min: 1 },
+    { field: 'settleMs', label: 'Settle Time (ms)', hint: 'Occupancy must hold this long before a correction.', min: 100, step: 100 },
+];
+
+function TrafficLayoutCard({
+    canEdit,
+    settings,
+}: {
+    canEdit: boolean;
+    settings: KeyValueEntry[] | undefined;
+}) {
+    const queryClient = useQueryClient();
+    const { data: stations = [] } = useStations();
+    const [stationCode, setStationCode] = useState(ALL_STATIONS);
+    const scope = stationCode === ALL_STATIONS ? undefined : stationCode;
+
+    const effective = useMemo(() => resolveTrafficLayout(settings, scope), [settings, scope]);
+    const [form, setForm] = useState<Record<keyof TrafficLayout, string>>({
+        deckCount: '',
+        deckLengthM: '',
+        vehicleLengthM: '',
+        axleCount: '',
+        occupiedKg: '',
+        settleMs: '',
+    });
+
+    useEffect(() => {
+        setForm({
+            deckCount: String(effective.deckCount),
+            deckLengthM: String(effective.deckLengthM),
+            vehicleLengthM: String(effective.vehicleLengthM),
+            axleCount: String(effective.axleCount),
+            occupiedKg: String(effective.occupiedKg),
+            settleMs: String(effective.settleMs),
+        });
+    }, [effective]);
+
+    const hasStationOverride = !!scope && !!settings?.some((e) => e.key.startsWith(`Traffic.${scope}.`));
+
+    // Preview of what the sequencer will wait for with the values being edited
+    const preview = useMemo(() => {
+        const values = Object.fromEntries(
+            Object.entries(form).map(([k, v]) => [k, parseFloat(v)])
+        ) as Record<keyof TrafficLayout, number>;
+        return Object.values(values).every((n) => n > 0) ? expectedDeckCount(values) : null;
+    }, [form]);
+
+    const saveMutation = useMutation({
+        mutationFn: async (entries: KeyValueEntry[]) => saveApiSettings('calibration', entries),
+        onSuccess: () => {
+            toast.success('Traffic control layout saved.');
+            queryClient.invalidateQueries({ queryKey: ['api-settings'] });
+        },
+        onError: () => {
+            toast.error('Failed to save traffic control layout.');
+        },
+    });
+
+    const handleSave = useCallback(() => {
+        const fields = Object.keys(form) as (keyof TrafficLayout)[];
+        for (const f of fields) {
+            const n = parseFloat(form[f]);
+            if (isNaN(n) || n <= 0) {
+                toast.error('Every traffic control value must be a positive number.');
+                return;
+            }
+        }
+        if (!Number.isInteger(Number(form.deckCount)) || !Number.isInteger(Number(form.axleCount))) {
+            toast.error('Decks and axle count must be whole numbers.');
+            return;
+        }
+        saveMutation.mutate(
+            mergeEntries(settings, fields.map((f) => ({ key: trafficSettingKey(f, scope), value: form[f] })))
+        );
+    }, [form, scope, settings, saveMutation]);
+
+    const handleClearOverride = useCallback(() => {
+        if (!scope) return;
+        saveMutation.mutate((settings ?? []).filter((e) => !e.key.startsWith(`Traffic.${scope}.`)));
+    }, [scope, settings, saveMutation]);
+
+    return (
+        <Card className="p-6">
+            <div className="flex items-start gap-4">
+                <div className="rounded-xl p-3 bg-orange-100 text-orange-600">
+                    <TrafficCone className="h-6 w-6" />
+                </div>
+                <div className="flex-1 space-y-5">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">Traffic Control</h3>
+                        <p className="text-sm text-muted-foreground mt-1">
+                            With auto sequencing on, the multideck screen drives the approach lights from
+                            deck occupancy: ENTER when the scale is clear, MOVE FORWARD or MOVE BACK until
+                            the expected decks are loaded, then STOP. The expected deck count comes from
+                            the layout below.
+                        </p>
+                    </div>
+
+                    <div className="space-y-2 max-w-md">
+                        <Label htmlFor="traffic-station">Applies To</Label>
+                        <Select value={stationCode} onValueChange={setStationCode}>
+                            <SelectTrigger id="traffic-station">
+                                <SelectValue placeholder="Select station" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={ALL_STATIONS}>All stations (default)</SelectItem>
+                                {stations.filter((st) => st.code).map((st) => (
+                                    <SelectItem key={st.id} value={st.code}>
+                                        {st.name} ({st.code})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {scope && !hasStationOverride && (
+                            <p className="text-xs text-muted-foreground">
+                                Using the organisation defaults. Saving creates an override for this station.
+                            </p>
+                        )}
+                    </div>
+
+                    <div className="grid gap-5 sm:grid-cols-3">
+                        {TRAFFIC_FIELDS.map(({ field, label, hint, min, step }) => (
+                            <div key={field} className="space-y-2">
+                                <Label htmlFor={`traffic-${field}`}>{label}</Label>
+                                <Input
+                                    id={`traffic-${field}`}
+                                    type="number"
+                                    min={min}
+                                    step={step}
+                                    value={form[field]}
+                                    onChange={(e) => setForm((f) => ({ ...f, [field]: e.target.value }))}
+                                    disabled={!canEdit}
+                                />
+                                <p className="text-xs text-muted-foreground">{hint}</p>
+                            </div>
+                        ))}
+                    </div>
+
+                    {preview != null && (
+                        <p className="text-sm text-gray-700">
+                            STOP is signalled once <span className="font-semibold">{preview}</span> deck{preview === 1 ? '' : 's'} are loaded.
+                        </p>
+                    )}
+
+                    {canEdit && (
+                        <div className="flex justify-end gap-2 pt-2">
+                            {hasStationOverride && (
+                                <Button
+                                    variant="outline"
+                                    onClick={handleClearOverride}
+                                    disabled={saveMutation.isPending}
+                                >
+                                    Use Defaults
+                                </Button>
+                            )}
+                            <Button onClick={handleSave} disabled={saveMutation.isPending} className="gap-2">
+                                {saveMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Save className="h-4 w-4" />
+                                )}
+                                Save Layout
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </Card>
+    );
+}
+
+// ============================================================================
+// AnprReviewCard
+// ============================================================================
+
+function AnprReviewCard({
+    canEdit,
+    settings,
+}: {
+    canEdit: boolean;
+    settings: KeyValueEntry[] | undefined;
+}) {
+    const queryClient = useQueryClient();
+    const { data: stations = [] } = useStations();
+    const [stationCode, setStationCode] = useState(ALL_STATIONS);
+    const scope = stationCode === ALL_STATIONS ? undefined : stationCode;
+
+    // Stored as 0–1, edited as a percentage
+    const effective = useMemo(() => resolveMinConfidence(settings, scope), [settings, scope]);
+    const [percent, setPercent] = useState('');
+
+    useEffect(() => {
+        setPercent(String(Math.round(effective * 100)));
+    }, [effective]);
+
+    const hasStationOverride = !!scope && !!settings?.some((e) => e.key === anprSettingKey(scope));
+
+    const saveMutation = useMutation({
+        mutationFn: async (entries: KeyValueEntry[]) => saveApiSettings('calibration', entries),
+        onSuccess: () => {
+            toast.success('ANPR review threshold saved.');
+            queryClient.invalidateQueries({ queryKey: ['api-settings'] });
+        },
+        onError: () => {
+            toast.error('Failed to save ANPR review threshold.');
+        },
+    });
+
+    const handleSave = useCallback(() => {
+        const n = parseFloat(percent);
+        if (isNaN(n) || n < 0 || n > 100) {
+            toast.error('Threshold must be between 0 and 100%.');
+            return;
+        }
+        saveMutation.mutate(mergeEntries(settings, [{ key: anprSettingKey(scope), value: String(n / 100) }]));
+    }, [percent, scope, settings, saveMutation]);
+
+    const handleClearOverride = useCallback(() => {
+        if (!scope) return;
+        saveMutation.mutate((settings ?? []).filter((e) => e.key !== anprSettingKey(scope)));
+    }, [scope, settings, saveMutation]);
+
+    return (
+        <Card className="p-6">
+            <div className="flex items-start gap-4">
+                <div className="rounded-xl p-3 bg-violet-100 text-violet-600">
+                    <Camera className="h-6 w-6" />
+                </div>
+                <div className="flex-1 space-y-5">
+                    <div>
+                        <h3 className="text-lg font-semibold text-gray-900">ANPR Plate Review</h3>
+                        <p className="text-sm text-muted-foreground mt-1">
+                            Plate reads below this confidence are shown to the operator to confirm or
+                            correct before the weighing continues. Every correction is recorded with the
+                            weighing&apos;s photo evidence. Set 0% to accept every read.
+                        </p>
+                    </div>
+
+                    <div className="grid gap-5 sm:grid-cols-2 max-w-2xl">
+                        <div className="space-y-2">
+                            <Label htmlFor="anpr-station">Applies To</Label>
+                            <Select value={stationCode} onValueChange={setStationCode}>
+                                <SelectTrigger id="anpr-station">
+                                    <SelectValue placeholder="Select station" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={ALL_STATIONS}>All stations (default)</SelectItem>
+                                    {stations.filter((st) => st.code).map((st) => (
+                                        <SelectItem key={st.id} value={st.code}>
+                                            {st.name} ({st.code})
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {scope && !hasStationOverride && (
+                                <p className="text-xs text-muted-foreground">
+                                    Using the organisation default. Saving creates an override for this station.
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="anpr-min-confidence">Review Below (%)</Label>
+                            <Input
+                                id="anpr-min-confidence"
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={percent}
+                                onChange={(e) => setPercent(e.target.value)}
+                                disabled={!canEdit}
+                            />
+                            <p className="text-xs text-muted-foreground">Reads that report no confidence are reviewed too, unless set to 0%.</p>
+                        </div>
+                    </div>
+
+                    {canEdit && (
+                        <div className="flex justify-end gap-2 pt-2">
+                            {hasStationOverride && (
+                                <Button
+                                    variant="outline"
+                                    onClick={handleClearOverride}
+                                    disabled={saveMutation.isPending}
+                                >
+                                    Use Default
+                                </Button>
+                            )}
+                            <Button onClick={handleSave} disabled={saveMutation.isPending} className="gap-2">
+                                {saveMutation.isPending ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                    <Save className="h-4 w-4" />
+                                )}
+                                Save Threshold
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </Card>
+    );
+}
+
 // ============================================================================
 // Helper Components
 // ============================================================================
@@ -13,12 +13,34 @@ import { Label } from '@/components/ui/label';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Info, Loader2, Save, Scale, CreditCard, Clock, Building2 } from 'lucide-react';
+import { Info, Loader2, Save, Scale, CreditCard, Clock, Building2, Percent, Plus, Trash2, FlaskConical } from 'lucide-react';
+import { DEFAULT_TARE_MEDIAN_WINDOW } from '@/lib/tare-policy';
+import { validateQualityDeductionRules } from '@/lib/quality-deduction';
+import { useCargoTypes } from '@/hooks/queries';
+import type { QualityDeductionRule } from '@/types/weighing';
+import { QualityDeductionRulesEditor } from './QualityDeductionRulesEditor';
 
 interface CommercialSettingsTabProps {
   canEdit: boolean;
 }
 
+interface IntervalRow {
+  vehicleType: string;
+  days: string;
+}
+
+function toIntervalRows(intervals?: Record<string, number> | null): IntervalRow[] {
+  return Object.entries(intervals ?? {}).map(([vehicleType, days]) => ({ vehicleType, days: String(days) }));
+}
+
+function toIntervalMap(rows: IntervalRow[]): Record<string, number> {
+  return Object.fromEntries(
+    rows
+      .filter((r) => r.vehicleType.trim() && r.days !== '')
+      .map((r) => [r.vehicleType.trim(), parseInt(r.days, 10)])
+  );
+}
+
 export function CommercialSettingsTab({ canEdit }: CommercialSettingsTabProps) {
   const queryClient = useQueryClient();
   const { data: org, isLoading } = useQuery({
@@ -29,12 +51,21 @@ export function CommercialSettingsTab({ canEdit }: CommercialSettingsTabProps) {
   const [feeKes, setFeeKes] = useState<string>('');
   const [tareExpiryDays, setTareExpiryDays] = useState<string>('');
   const [businessModel, setBusinessModel] = useState<string>('ThirdPartyWeighbridge');
+  const [maxVariancePct, setMaxVariancePct] = useState<string>('');
+  const [medianWindow, setMedianWindow] = useState<string>('');
+  const [intervalRows, setIntervalRows] = useState<IntervalRow[]>([]);
+  const [qualityRules, setQualityRules] = useState<QualityDeductionRule[]>([]);
+  const { data: cargoTypes = [] } = useCargoTypes();
 
   useEffect(() => {
     if (org) {
       setFeeKes(org.commercialWeighingFeeKes != null ? String(org.commercialWeighingFeeKes) : '');
       setTareExpiryDays(org.defaultTareExpiryDays != null ? String(org.defaultTareExpiryDays) : '');
       setBusinessModel(org.weighingBusinessModel ?? 'ThirdPartyWeighbridge');
+      setMaxVariancePct(org.tareMaxVariancePct != null ? String(org.tareMaxVariancePct) : '');
+      setMedianWindow(org.tareMedianWindow != null ? String(org.tareMedianWindow) : '');
+      setIntervalRows(toIntervalRows(org.tareReTareIntervals));
+      setQualityRules(org.qualityDeductionRules ?? []);
     }
   }, [org]);
 
@@ -44,7 +75,11 @@ export function CommercialSettingsTab({ canEdit }: CommercialSettingsTabProps) {
     org != null &&
     (String(org.commercialWeighingFeeKes ?? '') !== feeKes ||
       String(org.defaultTareExpiryDays ?? '') !== tareExpiryDays ||
-      (org.weighingBusinessModel ?? 'ThirdPartyWeighbridge') !== businessModel);
+      (org.weighingBusinessModel ?? 'ThirdPartyWeighbridge') !== businessModel ||
+      String(org.tareMaxVariancePct ?? '') !== maxVariancePct ||
+      String(org.tareMedianWindow ?? '') !== medianWindow ||
+      JSON.stringify(org.tareReTareIntervals ?? {}) !== JSON.stringify(toIntervalMap(intervalRows)) ||
+      JSON.stringify(org.qualityDeductionRules ?? []) !== JSON.stringify(qualityRules));
 
   const updateMutation = useMutation({
     mutationFn: updateCurrentCommercialSettings,
@@ -67,10 +102,34 @@ export function CommercialSettingsTab({ canEdit }: CommercialSettingsTabProps) {
       toast.error('Tare expiry days must be a non-negative integer');
       return;
     }
+    const varianceValue = maxVariancePct !== '' ? parseFloat(maxVariancePct) : null;
+    if (varianceValue !== null && (isNaN(varianceValue) || varianceValue <= 0)) {
+      toast.error('Tare variance limit must be a positive percentage');
+      return;
+    }
+    const windowValue = medianWindow !== '' ? parseInt(medianWindow, 10) : null;
+    if (windowValue !== null && (isNaN(windowValue) || windowValue < 3)) {
+      toast.error('Median window must be at least 3 tares');
+      return;
+    }
+    const intervals = toIntervalMap(intervalRows);
+    if (Object.values(intervals).some((d) => isNaN(d) || d <= 0)) {
+      toast.error('Re-tare intervals must be positive whole days');
+      return;
+    }
+    const rulesError = validateQualityDeductionRules(qualityRules);
+    if (rulesError) {
+      toast.error(rulesError);
+      return;
+    }
 
     updateMutation.mutate({
       commercialWeighingFeeKes: feeValue,
       defaultTareExpiryDays: expiryValue,
+      tareMaxVariancePct: varianceValue,
+      tareMedianWindow: windowValue,
+      tareReTareIntervals: Object.keys(intervals).length ? intervals : null,
+      qualityDeductionRules: qualityRules.length ? qualityRules : null,
       weighingBusinessModel: businessModel,
     });
   };
@@ -174,6 +233,128 @@ export function CommercialSettingsTab({ canEdit }: CommercialSettingsTabProps) {
           </p>
         </div>
 
+        {/* Tare Variance */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Percent className="h-4 w-4 text-muted-foreground" />
+            <Label htmlFor="tare-variance">Maximum tare variance (%)</Label>
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Input
+              id="tare-variance"
+              type="number"
+              min="0"
+              step="0.5"
+              value={maxVariancePct}
+              onChange={(e) => setMaxVariancePct(e.target.value)}
+              disabled={!canEdit}
+              placeholder="e.g. 5"
+              className="max-w-[240px]"
+            />
+            <Input
+              id="tare-median-window"
+              aria-label="Median window (tares)"
+              type="number"
+              min="3"
+              step="1"
+              value={medianWindow}
+              onChange={(e) => setMedianWindow(e.target.value)}
+              disabled={!canEdit}
+              placeholder={`Median of last ${DEFAULT_TARE_MEDIAN_WINDOW}`}
+              className="max-w-[180px]"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            A stored tare further than this from the median of the vehicle&apos;s recent tares is treated as
+            anomalous and cannot be reused until the vehicle is re-weighed empty. The second field sets how many
+            recent tares form the median. Leave the limit empty to skip the check.
+          </p>
+        </div>
+
+        {/* Re-tare intervals per vehicle type */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            <Label>Required re-tare interval by vehicle type</Label>
+          </div>
+          {intervalRows.length === 0 && (
+            <p className="text-xs text-muted-foreground">No per-type intervals — only the tare expiry above applies.</p>
+          )}
+          <div className="space-y-2">
+            {intervalRows.map((row, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Input
+                  aria-label="Vehicle type"
+                  value={row.vehicleType}
+                  onChange={(e) =>
+                    setIntervalRows((rows) => rows.map((r, j) => (j === i ? { ...r, vehicleType: e.target.value } : r)))
+                  }
+                  disabled={!canEdit}
+                  placeholder="e.g. Tipper"
+                  className="max-w-[240px]"
+                />
+                <Input
+                  aria-label="Interval (days)"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={row.days}
+                  onChange={(e) =>
+                    setIntervalRows((rows) => rows.map((r, j) => (j === i ? { ...r, days: e.target.value } : r)))
+                  }
+                  disabled={!canEdit}
+                  placeholder="Days"
+                  className="max-w-[120px]"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIntervalRows((rows) => rows.filter((_, j) => j !== i))}
+                  disabled={!canEdit}
+                  title="Remove"
+                >
+                  <Trash2 className="h-4 w-4 text-muted-foreground" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setIntervalRows((rows) => [...rows, { vehicleType: '', days: '' }])}
+            disabled={!canEdit}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            Add vehicle type
+          </Button>
+          <p className="text-xs text-muted-foreground">
+            Vehicles of these types must be re-weighed empty at least this often. Their stored tare expires at the
+            interval even if the expiry above is longer; the Tare Register lists vehicles that are due.
+          </p>
+        </div>
+
+        {/* Quality deduction rules */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-muted-foreground" />
+            <Label>Quality deduction rules</Label>
+          </div>
+          <QualityDeductionRulesEditor
+            rules={qualityRules}
+            onChange={setQualityRules}
+            cargoTypes={cargoTypes}
+            disabled={!canEdit}
+          />
+          <p className="text-xs text-muted-foreground">
+            Clerks enter lab readings after the second weight and the deduction is worked out from these rules.
+            Moisture rules shrink the net to the baseline moisture; allowance rules deduct each percentage point over
+            the allowance (times the multiplier); shrink tables deduct the percentage of the band the reading falls in.
+            Rules for a specific cargo replace the &quot;Other cargo&quot; rules.
+          </p>
+        </div>
+
         {/* Payment Gateway (read-only) */}
         {paymentGateway && (
           <div className="space-y-2">
@@ -43,7 +43,8 @@ import { AddCountyModal } from '@/components/settings/prosecution/AddCountyModal
 import { AddCourtModal } from '@/components/settings/prosecution/AddCourtModal';
 import { AddRoadModal } from '@/components/settings/prosecution/AddRoadModal';
 import { AddSubcountyModal } from '@/components/settings/prosecution/AddSubcountyModal';
-import { Info, Loader2, MapPin, Save, Settings2 } from 'lucide-react';
+import { CaseWorkflowSettings } from '@/components/settings/prosecution/CaseWorkflowSettings';
+import { Info, Loader2, MapPin, Save, Settings2, Timer } from 'lucide-react';
 
 /** Role names that are considered case/prosecution related for complainant filter */
 const PROSECUTION_ROLE_KEYWORDS = ['prosecution', 'case', 'court', 'officer', 'inspector'];
@@ -159,7 +160,7 @@ export function ProsecutionSettingsTab() {
   return (
     <div className="space-y-4">
       <Tabs defaultValue="defaults" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="defaults" className="flex items-center gap-2">
             <Settings2 className="h-4 w-4" />
             Prosecution defaults
@@ -168,6 +169,10 @@ export function ProsecutionSettingsTab() {
             <MapPin className="h-4 w-4" />
             Location hierarchy
           </TabsTrigger>
+          <TabsTrigger value="case-workflow" className="flex items-center gap-2">
+            <Timer className="h-4 w-4" />
+            Case workflow
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="defaults" className="mt-4 space-y-4">
@@ -365,6 +370,10 @@ export function ProsecutionSettingsTab() {
             </div>
           </Card>
         </TabsContent>
+
+        <TabsContent value="case-workflow" className="mt-4 space-y-4">
+          <CaseWorkflowSettings users={users} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,230 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CargoType } from '@/lib/api/weighing';
+import { LAB_READING_LABELS } from '@/lib/quality-deduction';
+import type {
+  LabReadingKey,
+  QualityDeductionRule,
+  QualityDeductionRuleKind,
+  ShrinkTableBand,
+} from '@/types/weighing';
+
+const ALL_CARGO = '__all__';
+
+const KIND_LABELS: Record<QualityDeductionRuleKind, string> = {
+  moisture: 'Moisture over baseline',
+  excess: 'Percentage over allowance',
+  'shrink-table': 'Shrink table lookup',
+};
+
+const num = (value: string): number | undefined => (value === '' ? undefined : parseFloat(value));
+
+interface QualityDeductionRulesEditorProps {
+  rules: QualityDeductionRule[];
+  onChange: (rules: QualityDeductionRule[]) => void;
+  cargoTypes: CargoType[];
+  disabled?: boolean;
+}
+
+/**
+ * Editable list of quality deduction rules for CommercialSettingsTab.
+ */
+export function QualityDeductionRulesEditor({ rules, onChange, cargoTypes, disabled }: QualityDeductionRulesEditorProps) {
+  const update = (id: string, patch: Partial<QualityDeductionRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  const updateBand = (rule: QualityDeductionRule, index: number, patch: Partial<ShrinkTableBand>) =>
+    update(rule.id, { bands: (rule.bands ?? []).map((b, i) => (i === index ? { ...b, ...patch } : b)) });
+
+  const addRule = () =>
+    onChange([
+      ...rules,
+      { id: crypto.randomUUID(), cargoId: null, label: 'Moisture', kind: 'moisture', reading: 'moisture', baselinePct: 13.5 },
+    ]);
+
+  return (
+    <div className="space-y-3">
+      {rules.length === 0 && (
+        <p className="text-xs text-muted-foreground">No rules — clerks enter quality deductions by hand.</p>
+      )}
+      {rules.map((rule) => (
+        <div key={rule.id} className="rounded-lg border p-3 space-y-3">
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-4">
+            <div className="space-y-1">
+              <Label className="text-xs">Cargo</Label>
+              <Select
+                value={rule.cargoId ?? ALL_CARGO}
+                onValueChange={(v) => update(rule.id, { cargoId: v === ALL_CARGO ? null : v })}
+                disabled={disabled}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CARGO}>Other cargo</SelectItem>
+                  {cargoTypes.map((c) => (
+                    <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Label</Label>
+              <Input value={rule.label} onChange={(e) => update(rule.id, { label: e.target.value })} disabled={disabled} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Method</Label>
+              <Select
+                value={rule.kind}
+                onValueChange={(v) => {
+                  const kind = v as QualityDeductionRuleKind;
+                  update(rule.id, {
+                    kind,
+                    bands: kind === 'shrink-table' ? rule.bands ?? [{ fromPct: 0, toPct: 100, deductPct: 0 }] : undefined,
+                  });
+                }}
+                disabled={disabled}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_LABELS) as QualityDeductionRuleKind[]).map((k) => (
+                    <SelectItem key={k} value={k}>{KIND_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Lab reading</Label>
+              <Select
+                value={rule.reading}
+                onValueChange={(v) => update(rule.id, { reading: v as LabReadingKey })}
+                disabled={disabled}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(LAB_READING_LABELS) as LabReadingKey[]).map((k) => (
+                    <SelectItem key={k} value={k}>{LAB_READING_LABELS[k]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3">
+            {rule.kind !== 'shrink-table' && (
+              <div className="space-y-1">
+                <Label className="text-xs">{rule.kind === 'moisture' ? 'Baseline (%)' : 'Allowance (%)'}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={rule.baselinePct ?? ''}
+                  onChange={(e) => update(rule.id, { baselinePct: num(e.target.value) })}
+                  disabled={disabled}
+                  className="w-32"
+                />
+              </div>
+            )}
+            {rule.kind === 'excess' && (
+              <div className="space-y-1">
+                <Label className="text-xs">Multiplier</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={rule.multiplier ?? ''}
+                  placeholder="1"
+                  onChange={(e) => update(rule.id, { multiplier: num(e.target.value) })}
+                  disabled={disabled}
+                  className="w-24"
+                />
+              </div>
+            )}
+            {rule.kind === 'shrink-table' && (
+              <div className="space-y-2">
+                <Label className="text-xs">Bands — reading from (incl.) / to (excl.) → deduct %</Label>
+                {(rule.bands ?? []).map((band, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <Input
+                      aria-label="From %"
+                      type="number"
+                      step="0.1"
+                      value={band.fromPct}
+                      onChange={(e) => updateBand(rule, i, { fromPct: num(e.target.value) ?? 0 })}
+                      disabled={disabled}
+                      className="w-24"
+                    />
+                    <span className="text-xs text-muted-foreground">to</span>
+                    <Input
+                      aria-label="To %"
+                      type="number"
+                      step="0.1"
+                      value={band.toPct}
+                      onChange={(e) => updateBand(rule, i, { toPct: num(e.target.value) ?? 0 })}
+                      disabled={disabled}
+                      className="w-24"
+                    />
+                    <span className="text-xs text-muted-foreground">→</span>
+                    <Input
+                      aria-label="Deduct %"
+                      type="number"
+                      step="0.1"
+                      value={band.deductPct}
+                      onChange={(e) => updateBand(rule, i, { deductPct: num(e.target.value) ?? 0 })}
+                      disabled={disabled}
+                      className="w-24"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => update(rule.id, { bands: (rule.bands ?? []).filter((_, j) => j !== i) })}
+                      disabled={disabled}
+                      title="Remove band"
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const last = rule.bands?.[rule.bands.length - 1];
+                    update(rule.id, {
+                      bands: [...(rule.bands ?? []), { fromPct: last?.toPct ?? 0, toPct: (last?.toPct ?? 0) + 1, deductPct: 0 }],
+                    });
+                  }}
+                  disabled={disabled}
+                >
+                  <Plus className="h-3.5 w-3.5 mr-1" />
+                  Add band
+                </Button>
+              </div>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="ml-auto"
+              onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+              disabled={disabled}
+            >
+              <Trash2 className="h-4 w-4 mr-1 text-muted-foreground" />
+              Remove rule
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addRule} disabled={disabled}>
+        <Plus className="h-3.5 w-3.5 mr-1" />
+        Add quality rule
+      </Button>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { useToleranceSettings } from '@/hooks/queries/useActQueries';
 import { updateToleranceSetting } from '@/lib/api/acts';
 import type { ApplicationSettingDto, UpdateSettingsBatchRequest } from '@/lib/api/settings';
 
+import { RiskScoringSettings } from '@/components/settings/weighing/RiskScoringSettings';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -224,6 +225,8 @@ export function WeighingSettingsTab({ isCommercial = false }: { isCommercial?: b
         </div>
       </Card>
 
+      {!isCommercial && <RiskScoringSettings />}
+
       <div className="flex items-start gap-3 rounded-lg bg-blue-50 border border-blue-200 p-4">
         <Info className="h-4 w-4 text-blue-600 mt-0.5 shrink-0" />
         <div className="text-sm text-blue-800">
@@ -0,0 +1,166 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { useAllSettings, useUpdateSettingsBatch } from '@/hooks/queries/useSettingsQueries';
+import type { UpdateSettingsBatchRequest } from '@/lib/api/settings';
+import {
+  AUTO_ESCALATE_KEY,
+  CASE_SLA_KEY_PREFIX,
+  CASE_STATE_LABELS,
+  DEFAULT_CASE_MANAGER_KEY,
+  DEFAULT_CASE_SLA_HOURS,
+  resolveAutoEscalation,
+  resolveCaseSlaHours,
+} from '@/lib/case-workflow';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Info, Loader2, Save } from 'lucide-react';
+
+type SlaState = keyof typeof DEFAULT_CASE_SLA_HOURS;
+const SLA_STATES = Object.keys(DEFAULT_CASE_SLA_HOURS) as SlaState[];
+
+interface Props {
+  /** Users to pick the default case manager from. */
+  users: { id: string; fullName?: string; email?: string }[];
+}
+
+export function CaseWorkflowSettings({ users }: Props) {
+  const { data: settings, isLoading } = useAllSettings();
+  const updateBatch = useUpdateSettingsBatch();
+
+  const saved = useMemo(
+    () => ({ hours: resolveCaseSlaHours(settings), escalation: resolveAutoEscalation(settings) }),
+    [settings],
+  );
+
+  const [slaHours, setSlaHours] = useState<Record<SlaState, string>>(
+    () => Object.fromEntries(SLA_STATES.map((s) => [s, String(DEFAULT_CASE_SLA_HOURS[s])])) as Record<SlaState, string>,
+  );
+  const [autoEscalate, setAutoEscalate] = useState(false);
+  const [caseManagerId, setCaseManagerId] = useState('');
+
+  useEffect(() => {
+    setSlaHours(Object.fromEntries(SLA_STATES.map((s) => [s, String(saved.hours[s])])) as Record<SlaState, string>);
+    setAutoEscalate(saved.escalation.enabled);
+    setCaseManagerId(saved.escalation.caseManagerId ?? '');
+  }, [saved]);
+
+  const hasChanges =
+    SLA_STATES.some((s) => slaHours[s] !== String(saved.hours[s])) ||
+    autoEscalate !== saved.escalation.enabled ||
+    caseManagerId !== (saved.escalation.caseManagerId ?? '');
+  const invalidHours = SLA_STATES.some((s) => !(parseFloat(slaHours[s]) > 0));
+
+  const handleSave = useCallback(async () => {
+    try {
+      const updates: UpdateSettingsBatchRequest['settings'] = [
+        ...SLA_STATES.map((s) => ({ settingKey: `${CASE_SLA_KEY_PREFIX}${s}`, settingValue: slaHours[s] })),
+        { settingKey: AUTO_ESCALATE_KEY, settingValue: autoEscalate.toString() },
+        { settingKey: DEFAULT_CASE_MANAGER_KEY, settingValue: caseManagerId },
+      ];
+      await updateBatch.mutateAsync({ settings: updates });
+      toast.success('Case workflow settings saved');
+    } catch {
+      toast.error('Failed to save settings');
+    }
+  }, [slaHours, autoEscalate, caseManagerId, updateBatch]);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-20 w-full" />
+        <Skeleton className="h-20 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-3 rounded-lg border bg-muted/50 p-4">
+        <Info className="h-4 w-4 text-muted-foreground mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Case workflow</p>
+          <p>
+            How long a case may stay at each stage before it shows as overdue on the case page, and whether open cases
+            past their SLA are handed to a case manager automatically.
+          </p>
+        </div>
+      </div>
+
+      <Card className="p-4 space-y-6">
+        <div className="space-y-3">
+          <Label>SLA per stage (hours)</Label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {SLA_STATES.map((s) => (
+              <div key={s} className="space-y-1">
+                <Label htmlFor={`case-sla-${s}`} className="text-xs text-muted-foreground">
+                  {CASE_STATE_LABELS[s]}
+                </Label>
+                <Input
+                  id={`case-sla-${s}`}
+                  type="number"
+                  min="1"
+                  value={slaHours[s]}
+                  onChange={(e) => setSlaHours((prev) => ({ ...prev, [s]: e.target.value }))}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between space-x-2">
+          <div className="space-y-0.5">
+            <Label htmlFor="case-auto-escalate">Auto-escalate overdue open cases</Label>
+            <p className="text-xs text-muted-foreground">
+              Open cases past their SLA are escalated to the default case manager whenever someone allowed to escalate
+              opens the case register — not on a schedule. Cases without driver and transporter NTAC numbers stay open
+              and overdue until someone records them.
+            </p>
+          </div>
+          <Switch id="case-auto-escalate" checked={autoEscalate} onCheckedChange={setAutoEscalate} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="case-default-manager">Default case manager</Label>
+          <Select value={caseManagerId || 'none'} onValueChange={(v) => setCaseManagerId(v === 'none' ? '' : v)}>
+            <SelectTrigger id="case-default-manager" className="max-w-md">
+              <SelectValue placeholder="Select case manager" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              {users.map((u) => (
+                <SelectItem key={u.id} value={u.id}>
+                  {u.fullName || u.email || u.id}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {autoEscalate && !caseManagerId && (
+            <p className="text-xs text-amber-700">Auto-escalation does nothing until a default case manager is set.</p>
+          )}
+        </div>
+
+        <div className="pt-2">
+          <Button onClick={handleSave} disabled={!hasChanges || invalidHours || updateBatch.isPending}>
+            {updateBatch.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+            Save changes
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
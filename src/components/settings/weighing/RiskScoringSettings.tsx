@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { useAllSettings, useUpdateSettingsBatch } from '@/hooks/queries/useSettingsQueries';
+import type { UpdateSettingsBatchRequest } from '@/lib/api/settings';
+import {
+  RISK_FACTOR_LABELS,
+  RISK_FACTORS,
+  RISK_FULL_INSPECTION_KEY,
+  RISK_HIGH_THRESHOLD_KEY,
+  RISK_LOOKBACK_MONTHS_KEY,
+  RISK_MEDIUM_THRESHOLD_KEY,
+  RISK_WEIGHT_KEY_PREFIX,
+  resolveRiskPolicy,
+  type RiskFactor,
+  type RiskPolicy,
+} from '@/lib/risk-score';
+
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Save, ShieldAlert } from 'lucide-react';
+
+type NumberField = 'mediumThreshold' | 'highThreshold' | 'convictionLookbackMonths';
+
+const NUMBER_FIELDS: { field: NumberField; key: string; label: string }[] = [
+  { field: 'mediumThreshold', key: RISK_MEDIUM_THRESHOLD_KEY, label: 'Medium risk from score' },
+  { field: 'highThreshold', key: RISK_HIGH_THRESHOLD_KEY, label: 'High risk from score' },
+  { field: 'convictionLookbackMonths', key: RISK_LOOKBACK_MONTHS_KEY, label: 'Convictions counted (months)' },
+];
+
+type FormValues = Record<RiskFactor | NumberField, string>;
+
+const toForm = (policy: RiskPolicy): FormValues => ({
+  ...(Object.fromEntries(RISK_FACTORS.map((f) => [f, String(policy.weights[f])])) as Record<RiskFactor, string>),
+  mediumThreshold: String(policy.mediumThreshold),
+  highThreshold: String(policy.highThreshold),
+  convictionLookbackMonths: String(policy.convictionLookbackMonths),
+});
+
+export function RiskScoringSettings() {
+  const { data: settings, isLoading } = useAllSettings();
+  const updateBatch = useUpdateSettingsBatch();
+
+  const saved = useMemo(() => resolveRiskPolicy(settings), [settings]);
+  const [values, setValues] = useState<FormValues>(() => toForm(saved));
+  const [fullInspection, setFullInspection] = useState(false);
+
+  useEffect(() => {
+    setValues(toForm(saved));
+    setFullInspection(saved.fullInspectionForHighRisk);
+  }, [saved]);
+
+  const savedForm = toForm(saved);
+  const fields = Object.keys(values) as (keyof FormValues)[];
+  const hasChanges = fields.some((f) => values[f] !== savedForm[f]) || fullInspection !== saved.fullInspectionForHighRisk;
+  const invalid =
+    fields.some((f) => !(parseFloat(values[f]) >= 0)) ||
+    parseFloat(values.highThreshold) < parseFloat(values.mediumThreshold);
+
+  const handleSave = useCallback(async () => {
+    try {
+      const updates: UpdateSettingsBatchRequest['settings'] = [
+        ...RISK_FACTORS.map((f) => ({ settingKey: `${RISK_WEIGHT_KEY_PREFIX}${f}`, settingValue: values[f] })),
+        ...NUMBER_FIELDS.map(({ field, key }) => ({ settingKey: key, settingValue: values[field] })),
+        { settingKey: RISK_FULL_INSPECTION_KEY, settingValue: fullInspection.toString() },
+      ];
+      await updateBatch.mutateAsync({ settings: updates });
+      toast.success('Risk scoring settings saved');
+    } catch {
+      toast.error('Failed to save settings');
+    }
+  }, [values, fullInspection, updateBatch]);
+
+  if (isLoading) {
+    return <Skeleton className="h-40 w-full" />;
+  }
+
+  const input = (field: keyof FormValues, label: string) => (
+    <div key={field} className="space-y-1">
+      <Label htmlFor={`risk-${field}`} className="text-xs text-muted-foreground">
+        {label}
+      </Label>
+      <Input
+        id={`risk-${field}`}
+        type="number"
+        min="0"
+        value={values[field]}
+        onChange={(e) => setValues((prev) => ({ ...prev, [field]: e.target.value }))}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex items-start gap-3">
+        <ShieldAlert className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+        <div className="text-sm text-muted-foreground">
+          <p className="font-medium text-foreground mb-1">Offender risk scoring</p>
+          <p>
+            Points added to a vehicle&apos;s, driver&apos;s or transporter&apos;s risk score for each item on its record. The score
+            (capped at 100) is shown when a weighing starts and to transporters for their own fleet.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <Label>Points per item</Label>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+          {RISK_FACTORS.map((f) => input(f, RISK_FACTOR_LABELS[f]))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {NUMBER_FIELDS.map(({ field, label }) => input(field, label))}
+      </div>
+      {parseFloat(values.highThreshold) < parseFloat(values.mediumThreshold) && (
+        <p className="text-xs text-red-600">The high-risk score can&apos;t be below the medium-risk score.</p>
+      )}
+
+      <div className="flex items-center justify-between space-x-2">
+        <div className="space-y-0.5">
+          <Label htmlFor="risk-full-inspection">Full inspection for high-risk vehicles</Label>
+          <p className="text-xs text-muted-foreground">
+            A high-risk vehicle can&apos;t proceed to the decision until the operator records a full inspection. The findings go to
+            the audit log.
+          </p>
+        </div>
+        <Switch id="risk-full-inspection" checked={fullInspection} onCheckedChange={setFullInspection} />
+      </div>
+
+      <div className="pt-4 border-t">
+        <Button onClick={handleSave} disabled={!hasChanges || invalid || updateBatch.isPending}>
+          {updateBatch.isPending ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+          Save changes
+        </Button>
+      </div>
+    </Card>
+  );
+}
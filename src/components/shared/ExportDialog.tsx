@@ -0,0 +1,290 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  downloadBlob,
+  EXPORT_FORMAT_LABELS,
+  ExportCancelledError,
+  loadColumnSelection,
+  loadLogoJpeg,
+  pickColumns,
+  runExport,
+  saveColumnSelection,
+  type ExportFormat,
+  type ExportProgress,
+  type ExportViewDefinition,
+  type PagedSource,
+} from '@/lib/export';
+import { getMediaUrl } from '@/lib/api/media';
+import { getCurrentOrganization } from '@/lib/api/setup';
+import { cn } from '@/lib/utils';
+import { useQuery } from '@tanstack/react-query';
+import { Download, FileSpreadsheet, FileText, FileType, Loader2 } from 'lucide-react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+/** Upper bound for "all matching" exports. */
+const MAX_EXPORT_ROWS = 200_000;
+
+const FORMAT_ICONS: Record<ExportFormat, typeof FileText> = {
+  csv: FileText,
+  xlsx: FileSpreadsheet,
+  pdf: FileType,
+};
+
+interface ExportDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  view: ExportViewDefinition<T>;
+  /** Rows currently shown in the list (the "Current page" scope). */
+  currentRows: T[];
+  /** Fetch one page matching the list's active filter. Enables the "All matching" scope. */
+  fetchPage?: PagedSource<T>['fetchPage'];
+  /** Total rows matching the filter, for the scope label. */
+  totalCount?: number;
+  /** Human-readable filter summary printed in the PDF header. */
+  filtersSummary?: string;
+  /** Preset to start from when the user has no remembered selection. */
+  defaultPresetId?: string;
+}
+
+/**
+ * Export Dialog
+ *
+ * Shared export UI for list views: format (CSV, XLSX, branded PDF), scope (current page or every
+ * row matching the filter, fetched page by page with progress and cancel), and column selection
+ * from the view's presets. The chosen columns are remembered per view.
+ */
+export function ExportDialog<T>({
+  open,
+  onOpenChange,
+  view,
+  currentRows,
+  fetchPage,
+  totalCount,
+  filtersSummary,
+  defaultPresetId,
+}: ExportDialogProps<T>) {
+  const defaultPreset = view.presets.find((p) => p.id === defaultPresetId) ?? view.presets[0];
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [scope, setScope] = useState<'page' | 'all'>('page');
+  const [selected, setSelected] = useState<string[]>(() => loadColumnSelection(view.viewId) ?? defaultPreset?.columns ?? []);
+  const [progress, setProgress] = useState<ExportProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Same query as Brand Settings, so the PDF header matches what the org configured.
+  const { data: org } = useQuery({
+    queryKey: ['organization', 'current'],
+    queryFn: getCurrentOrganization,
+    enabled: open && format === 'pdf',
+    staleTime: 10 * 60 * 1000,
+  });
+
+  // Abort a running export if the dialog unmounts.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const activePresetId = useMemo(() => {
+    const match = view.presets.find((p) => p.columns.length === selected.length && p.columns.every((k, i) => selected[i] === k));
+    return match?.id ?? 'custom';
+  }, [view.presets, selected]);
+
+  const isRunning = progress !== null;
+  const scopeCount = scope === 'all' ? Math.min(totalCount ?? 0, MAX_EXPORT_ROWS) : currentRows.length;
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected((prev) => {
+      if (!checked) return prev.filter((k) => k !== key);
+      // Keep catalogue order so toggled columns land where they belong.
+      const next = new Set([...prev, key]);
+      return view.columns.map((c) => c.key).filter((k) => next.has(k));
+    });
+  };
+
+  const handleExport = async () => {
+    const columns = pickColumns(view, selected);
+    if (columns.length === 0) {
+      toast.error('Select at least one column');
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ written: 0, total: scope === 'all' ? totalCount ?? null : currentRows.length });
+    try {
+      const logoPath = org?.logoUrl;
+      const branding = format === 'pdf'
+        ? {
+            orgName: org?.name,
+            primaryColor: org?.primaryColor ?? undefined,
+            logo: await loadLogoJpeg(logoPath?.startsWith('/media') ? getMediaUrl(logoPath) : logoPath),
+          }
+        : undefined;
+      const { blob, rowCount, filename } = await runExport({
+        format,
+        columns,
+        title: view.title,
+        filename: view.filename,
+        subtitle: filtersSummary,
+        branding,
+        source: scope === 'all' && fetchPage ? { fetchPage, maxRows: MAX_EXPORT_ROWS } : { rows: currentRows },
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      downloadBlob(blob, filename);
+      saveColumnSelection(view.viewId, selected);
+      toast.success(`Exported ${rowCount.toLocaleString()} ${rowCount === 1 ? 'row' : 'rows'} to ${EXPORT_FORMAT_LABELS[format]}`);
+      onOpenChange(false);
+    } catch (err) {
+      if (err instanceof ExportCancelledError) toast.info('Export cancelled');
+      else toast.error('Export failed');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const percent = progress?.total ? Math.round((progress.written / progress.total) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => (!isRunning ? onOpenChange(value) : undefined)}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-4 w-4" />
+            Export {view.title}
+          </DialogTitle>
+          <DialogDescription>Choose a format, the rows to include and the columns.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Format */}
+          <div className="space-y-1.5">
+            <Label className="text-xs text-gray-500">Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((f) => {
+                const Icon = FORMAT_ICONS[f];
+                return (
+                  <Button
+                    key={f}
+                    type="button"
+                    variant={format === f ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setFormat(f)}
+                    disabled={isRunning}
+                  >
+                    <Icon className="mr-1.5 h-3.5 w-3.5" />
+                    {EXPORT_FORMAT_LABELS[f]}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div className="space-y-1.5">
+            <Label className="text-xs text-gray-500">Rows</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                type="button"
+                variant={scope === 'page' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScope('page')}
+                disabled={isRunning}
+              >
+                Current page ({currentRows.length.toLocaleString()})
+              </Button>
+              <Button
+                type="button"
+                variant={scope === 'all' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setScope('all')}
+                disabled={isRunning || !fetchPage}
+              >
+                All matching{totalCount !== undefined ? ` (${totalCount.toLocaleString()})` : ''}
+              </Button>
+            </div>
+            {scope === 'all' && (totalCount ?? 0) > MAX_EXPORT_ROWS && (
+              <p className="text-xs text-amber-700">
+                Only the first {MAX_EXPORT_ROWS.toLocaleString()} rows will be exported — narrow the filter for the rest.
+              </p>
+            )}
+          </div>
+
+          {/* Columns */}
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs text-gray-500">Columns ({selected.length})</Label>
+              <Select
+                value={activePresetId}
+                onValueChange={(id) => {
+                  const preset = view.presets.find((p) => p.id === id);
+                  if (preset) setSelected(preset.columns);
+                }}
+                disabled={isRunning}
+              >
+                <SelectTrigger className="h-8 w-[160px]">
+                  <SelectValue placeholder="Preset" />
+                </SelectTrigger>
+                <SelectContent>
+                  {view.presets.map((p) => (
+                    <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                  ))}
+                  <SelectItem value="custom" disabled>Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid max-h-56 grid-cols-2 gap-x-3 gap-y-1.5 overflow-y-auto rounded-lg border border-gray-200 p-3">
+              {view.columns.map((c) => (
+                <label key={c.key} className={cn('flex items-center gap-2 text-sm', isRunning && 'opacity-60')}>
+                  <Checkbox
+                    checked={selected.includes(c.key)}
+                    onCheckedChange={(checked) => toggleColumn(c.key, checked === true)}
+                    disabled={isRunning}
+                  />
+                  <span className="truncate">{c.header}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {isRunning && (
+            <div className="space-y-1">
+              <Progress value={percent} className="h-2" />
+              <p className="text-xs text-gray-500">
+                {progress.written.toLocaleString()}
+                {progress.total !== null ? ` of ${progress.total.toLocaleString()}` : ''} rows written
+              </p>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+              Cancel Export
+            </Button>
+          ) : (
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+          )}
+          <Button onClick={handleExport} disabled={isRunning || scopeCount === 0 || selected.length === 0}>
+            {isRunning ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+            {isRunning ? 'Exporting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+/**
+ * LanguageSelect — the current user's language override. "Organisation default" clears the
+ * override so the user follows the organisation's language again.
+ */
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useTranslation } from '@/contexts/LocaleContext';
+import { getLocaleOption, resolveLocale, SUPPORTED_LOCALES, translate } from '@/lib/i18n';
+import { cn } from '@/lib/utils';
+import { Languages } from 'lucide-react';
+import { toast } from 'sonner';
+
+const ORG_DEFAULT = 'org-default';
+
+interface LanguageSelectProps {
+  id?: string;
+  /** Icon-led trigger for headers. */
+  compact?: boolean;
+  className?: string;
+}
+
+export function LanguageSelect({ id, compact = false, className }: LanguageSelectProps) {
+  const { locale, userLocale, orgLocale, setUserLocale, t } = useTranslation();
+
+  const handleChange = (value: string) => {
+    const next = value === ORG_DEFAULT ? null : resolveLocale(value);
+    setUserLocale(next);
+    toast.success(translate('language.saved', undefined, next ?? orgLocale));
+  };
+
+  return (
+    <Select value={userLocale ?? ORG_DEFAULT} onValueChange={handleChange}>
+      <SelectTrigger
+        id={id}
+        className={cn(compact ? 'h-9 w-auto gap-1.5 border-gray-200 text-xs' : 'w-full sm:w-72', className)}
+        aria-label={t('language.label')}
+      >
+        {compact && <Languages className="h-4 w-4 text-gray-500" />}
+        {compact ? <SelectValue>{getLocaleOption(locale).nativeName}</SelectValue> : <SelectValue />}
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ORG_DEFAULT}>
+          {t('language.orgDefault', { language: getLocaleOption(orgLocale).nativeName })}
+        </SelectItem>
+        {SUPPORTED_LOCALES.map((l) => (
+          <SelectItem key={l.code} value={l.code}>
+            {l.nativeName}
+            {l.nativeName !== l.englishName && <span className="ml-1 text-gray-400">({l.englishName})</span>}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,53 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { RISK_BAND_LABELS, type RiskBand, type RiskScore } from '@/lib/risk-score';
+import { cn } from '@/lib/utils';
+
+const BAND_STYLES: Record<RiskBand, string> = {
+  low: 'bg-green-100 text-green-800 border-green-200',
+  medium: 'bg-amber-100 text-amber-800 border-amber-200',
+  high: 'bg-red-100 text-red-800 border-red-200',
+};
+
+/** Score and band, e.g. "72 · High risk". */
+export function RiskScoreBadge({ risk, className }: { risk: RiskScore; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn('font-semibold', BAND_STYLES[risk.band], className)}>
+      {risk.score} · {RISK_BAND_LABELS[risk.band]}
+    </Badge>
+  );
+}
+
+/** What the score is made of; "No record" when nothing contributes. */
+export function RiskFactorList({ risk, className }: { risk: RiskScore; className?: string }) {
+  if (risk.factors.length === 0) {
+    return <p className={cn('text-xs text-muted-foreground', className)}>No enforcement record</p>;
+  }
+  return (
+    <ul className={cn('space-y-0.5 text-xs', className)}>
+      {risk.factors.map((f) => (
+        <li key={f.factor} className="flex justify-between gap-3">
+          <span>
+            {f.label}: <span className="font-medium">{f.count}</span>
+            {f.detail && <span className="text-muted-foreground"> ({f.detail})</span>}
+          </span>
+          <span className="font-mono text-muted-foreground">+{f.points}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Badge with the factors on one line, for table cells. */
+export function RiskSummary({ risk }: { risk: RiskScore | undefined }) {
+  if (!risk) return <span className="text-xs text-gray-400">--</span>;
+  return (
+    <div className="space-y-0.5">
+      <RiskScoreBadge risk={risk} className="text-[10px]" />
+      {risk.factors.length > 0 && (
+        <p className="text-[10px] text-gray-500">{risk.factors.map((f) => `${f.label} ${f.count}`).join(' · ')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { useAxleConfigMatches } from '@/hooks/useAxleConfigMatches';
+import type { AxleMatchInput, MatchConfidence } from '@/lib/axle-config-matcher';
+import { cn } from '@/lib/utils';
+import { AxleConfiguration } from '@/types/weighing';
+import { AlertTriangle, Sparkles } from 'lucide-react';
+
+interface AxleConfigSuggestionsProps extends AxleMatchInput {
+  axleConfigurations: AxleConfiguration[];
+  selectedConfig: string;
+  onSelect: (configCode: string) => void;
+  className?: string;
+}
+
+const CONFIDENCE_STYLES: Record<MatchConfidence, string> = {
+  high: 'border-green-500 text-green-700 bg-green-50',
+  medium: 'border-yellow-500 text-yellow-700 bg-yellow-50',
+  low: 'border-gray-400 text-gray-600 bg-gray-50',
+};
+
+/**
+ * AxleConfigSuggestions - Ranked configuration matches for the measured axles
+ *
+ * Shows the top candidates from the axle-config matcher with a match score, lets the
+ * operator apply one, and warns when the vehicle's registered configuration does not fit
+ * the measurement. Renders nothing until there is something to match.
+ */
+export function AxleConfigSuggestions({
+  axleConfigurations,
+  selectedConfig,
+  onSelect,
+  className,
+  ...input
+}: AxleConfigSuggestionsProps) {
+  const { candidates, confidence, registeredMismatch, usingCache } = useAxleConfigMatches(axleConfigurations, input);
+
+  if (candidates.length === 0 && !registeredMismatch) return null;
+
+  const top = candidates[0];
+  const selectedIsTop = top?.config.axleCode === selectedConfig;
+
+  return (
+    <div className={cn('rounded-lg border border-blue-100 bg-blue-50/40 p-2.5 space-y-2', className)}>
+      <div className="flex items-center justify-between text-xs">
+        <span className="flex items-center gap-1.5 font-medium text-gray-700">
+          <Sparkles className="h-3.5 w-3.5 text-blue-600" />
+          Suggested configuration
+          {usingCache && <span className="text-gray-400 font-normal">(cached)</span>}
+        </span>
+        {confidence && (
+          <Badge variant="outline" className={cn('text-[10px] uppercase', CONFIDENCE_STYLES[confidence])}>
+            {confidence} confidence
+          </Badge>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        {candidates.map((c) => {
+          const pct = Math.round(c.score * 100);
+          const isSelected = c.config.axleCode === selectedConfig;
+          return (
+            <div key={c.config.axleCode} className="flex items-center gap-2 text-xs">
+              <span className="font-mono font-bold w-14 shrink-0">{c.config.axleCode}</span>
+              <div className="flex-1 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+                <div
+                  className={cn('h-full', c === top ? 'bg-blue-600' : 'bg-blue-300')}
+                  style={{ width: `${pct}%` }}
+                />
+              </div>
+              <span
+                className="w-10 text-right font-mono text-gray-600"
+                title={c.spacingScore !== undefined
+                  ? `Weight profile ${Math.round(c.weightScore * 100)}%, spacing ${Math.round(c.spacingScore * 100)}%`
+                  : `Weight profile ${Math.round(c.weightScore * 100)}%`}
+              >
+                {pct}%
+              </span>
+              {isSelected ? (
+                <span className="w-12 text-center text-[10px] font-medium text-green-700">IN USE</span>
+              ) : (
+                <Button variant="ghost" size="sm" className="h-6 w-12 px-0 text-xs" onClick={() => onSelect(c.config.axleCode)}>
+                  Use
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {top && !selectedIsTop && confidence === 'high' && (
+        <p className="text-[11px] text-blue-700">
+          The measured axles fit <span className="font-mono font-bold">{top.config.axleCode}</span> better than the
+          selected <span className="font-mono font-bold">{selectedConfig || '—'}</span>.
+        </p>
+      )}
+
+      {registeredMismatch && (
+        <div className="flex items-start gap-1.5 rounded border border-amber-200 bg-amber-50 p-2 text-[11px] text-amber-800">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <span>
+            Registered as <span className="font-mono font-bold">{registeredMismatch.registeredConfigCode}</span>
+            {registeredMismatch.registeredScore === null
+              ? ', which has a different number of axles than measured.'
+              : ` (${Math.round(registeredMismatch.registeredScore * 100)}% match).`}{' '}
+            Measurement suggests <span className="font-mono font-bold">{registeredMismatch.suggestedConfigCode}</span> —
+            check the vehicle before weighing.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
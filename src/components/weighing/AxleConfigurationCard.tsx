@@ -9,7 +9,9 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import type { AxleMatchInput } from '@/lib/axle-config-matcher';
 import { AxleConfiguration } from '@/types/weighing';
+import { AxleConfigSuggestions } from './AxleConfigSuggestions';
 import { InteractiveAxleGroupGrid } from './InteractiveAxleGroupGrid';
 
 interface AxleConfigurationCardProps {
@@ -24,6 +26,8 @@ interface AxleConfigurationCardProps {
   /** Weight references for the currently selected configuration (from setup API) */
   weightReferences?: { axlePosition: number; axleGrouping: string; tyreTypeCode?: string; axleLegalWeightKg?: number }[];
   permissibleWeights?: number[];
+  /** Measured weights/spacings (+ registered config) to rank configurations against. */
+  match?: AxleMatchInput;
   className?: string;
 }
 
@@ -34,6 +38,7 @@ interface AxleConfigurationCardProps {
  * - Interactive 4-column grid (A-D) with click-to-cycle tyre types
  * - SVG tyre type icons (Single/Dual/Wide) with capture state colors
  * - Auto-matching: after setting 2+ groups, finds matching config from database
+ * - Measurement-based suggestions with a registered-config mismatch warning
  * - Dropdown fallback for manual selection
  * - Dynamic group rendering from weight references (no hardcoded map)
  * - Mobile responsive
@@ -48,6 +53,7 @@ export function AxleConfigurationCard({
   currentAxle,
   onAxleSelect,
   weightReferences,
+  match,
   className,
 }: AxleConfigurationCardProps) {
   // Resolve selected config object
@@ -78,6 +84,15 @@ export function AxleConfigurationCard({
           onAxleSelect={onAxleSelect}
         />
 
+        {match && (
+          <AxleConfigSuggestions
+            axleConfigurations={axleConfigurations}
+            selectedConfig={selectedConfig}
+            onSelect={onConfigChange}
+            {...match}
+          />
+        )}
+
         {/* Config Dropdown + Ticket Info */}
         <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 pt-2 border-t border-gray-100">
           <div className="flex items-center gap-2 text-xs text-gray-600 flex-wrap">
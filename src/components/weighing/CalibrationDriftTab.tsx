@@ -0,0 +1,286 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Scatter,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { format } from 'date-fns';
+import { AlertTriangle, Ban, CheckCircle2, Loader2, TrendingDown, TrendingUp } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useScaleDrift, useStations } from '@/hooks/queries';
+import { trendValueAt, type DriftAnalysis, type DriftStatus } from '@/lib/calibration-drift';
+import { cn } from '@/lib/utils';
+
+const ALL = 'all';
+const PERIODS = [30, 90, 180, 365];
+
+const STATUS_BADGE: Record<DriftStatus, { label: string; className: string }> = {
+  'insufficient-data': { label: 'Not enough data', className: 'bg-gray-100 text-gray-600' },
+  ok: { label: 'Stable', className: 'bg-emerald-100 text-emerald-700' },
+  warning: { label: 'Breach soon', className: 'bg-amber-100 text-amber-800' },
+  'breach-predicted': { label: 'Drifted out', className: 'bg-red-100 text-red-700' },
+  breached: { label: 'Out of tolerance', className: 'bg-red-600 text-white' },
+};
+
+const STATUS_ORDER: DriftStatus[] = ['breached', 'breach-predicted', 'warning', 'ok', 'insufficient-data'];
+
+/**
+ * CalibrationDriftTab - Scale test deviation trends per station, bound and deck
+ *
+ * Plots each channel's test deviation over time with its fitted drift line and the calibration
+ * tolerance, and predicts when the line will cross it. Channels that are out (or predicted out)
+ * of tolerance block weighing at that station/bound through the ScaleTestBanner gate.
+ */
+export function CalibrationDriftTab() {
+  const [stationFilter, setStationFilter] = useState(ALL);
+  const [days, setDays] = useState(90);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const { data: stations = [], isLoading: stationsLoading } = useStations();
+  const stationIds = useMemo(
+    () => (stationFilter === ALL ? stations.map((s) => s.id) : [stationFilter]),
+    [stations, stationFilter]
+  );
+  const { analyses, isLoading, toleranceKg, warningDays } = useScaleDrift(stationIds, days);
+
+  const sorted = useMemo(
+    () =>
+      [...analyses].sort(
+        (a, b) =>
+          STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+          (a.daysToBreach ?? Infinity) - (b.daysToBreach ?? Infinity)
+      ),
+    [analyses]
+  );
+  const selected = sorted.find((a) => a.key === selectedKey) ?? sorted[0] ?? null;
+
+  const counts = useMemo(() => {
+    const c = { blocked: 0, warning: 0, ok: 0 };
+    for (const a of analyses) {
+      if (a.status === 'breached' || a.status === 'breach-predicted') c.blocked++;
+      else if (a.status === 'warning') c.warning++;
+      else c.ok++;
+    }
+    return c;
+  }, [analyses]);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Calibration Drift</CardTitle>
+          <CardDescription>
+            Scale test deviation over time, fitted per scale or deck since its last recalibration. Tolerance ±
+            {toleranceKg} kg; warnings start {warningDays} days before a predicted breach.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Station</Label>
+              <Select value={stationFilter} onValueChange={(v) => { setStationFilter(v); setSelectedKey(null); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All stations</SelectItem>
+                  {stations.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name} ({s.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={String(days)} onValueChange={(v) => setDays(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIODS.map((p) => (
+                    <SelectItem key={p} value={String(p)}>
+                      Last {p} days
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end gap-2 text-sm">
+              <Badge className="bg-red-100 text-red-700 hover:bg-red-100">{counts.blocked} blocked</Badge>
+              <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{counts.warning} warning</Badge>
+              <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100">{counts.ok} ok</Badge>
+            </div>
+          </div>
+
+          {selected && <DriftChart analysis={selected} toleranceKg={toleranceKg} />}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Station</TableHead>
+                <TableHead>Bound</TableHead>
+                <TableHead>Scale / Deck</TableHead>
+                <TableHead className="text-right">Tests</TableHead>
+                <TableHead className="text-right">Latest (kg)</TableHead>
+                <TableHead className="text-right">Drift (kg/week)</TableHead>
+                <TableHead>Predicted breach</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading || stationsLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center">
+                    <Loader2 className="h-5 w-5 animate-spin text-gray-400 inline" />
+                  </TableCell>
+                </TableRow>
+              ) : sorted.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="py-8 text-center text-sm text-gray-500">
+                    No scale tests with recorded deviations in this period
+                  </TableCell>
+                </TableRow>
+              ) : (
+                sorted.map((a) => (
+                  <TableRow
+                    key={a.key}
+                    onClick={() => setSelectedKey(a.key)}
+                    className={cn('cursor-pointer', selected?.key === a.key && 'bg-blue-50/60')}
+                  >
+                    <TableCell className="text-sm font-medium">{a.stationName}</TableCell>
+                    <TableCell className="text-sm">{a.bound || '—'}</TableCell>
+                    <TableCell className="text-sm">{a.channel}</TableCell>
+                    <TableCell className="text-sm text-right">{a.points.length}</TableCell>
+                    <TableCell className="text-sm text-right font-mono">{signed(a.latestDeviationKg)}</TableCell>
+                    <TableCell className="text-sm text-right font-mono">
+                      {a.trend ? (
+                        <span className="inline-flex items-center gap-1">
+                          {a.trend.slopeKgPerDay >= 0 ? (
+                            <TrendingUp className="h-3.5 w-3.5 text-gray-400" />
+                          ) : (
+                            <TrendingDown className="h-3.5 w-3.5 text-gray-400" />
+                          )}
+                          {signed(a.trend.slopeKgPerDay * 7)}
+                          <span className="text-[10px] text-gray-400">r² {a.trend.r2.toFixed(2)}</span>
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {a.predictedBreachAt
+                        ? a.daysToBreach === 0
+                          ? 'Now'
+                          : `${format(new Date(a.predictedBreachAt), 'dd MMM yyyy')} (${a.daysToBreach}d)`
+                        : '—'}
+                    </TableCell>
+                    <TableCell>
+                      <StatusBadge status={a.status} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: DriftStatus }) {
+  const badge = STATUS_BADGE[status];
+  const Icon = status === 'breached' || status === 'breach-predicted' ? Ban : status === 'warning' ? AlertTriangle : CheckCircle2;
+  return (
+    <Badge className={cn('gap-1 hover:bg-inherit', badge.className)}>
+      <Icon className="h-3 w-3" />
+      {badge.label}
+    </Badge>
+  );
+}
+
+function signed(kg: number | null): string {
+  if (kg === null) return '—';
+  const rounded = Math.round(kg * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}`;
+}
+
+function DriftChart({ analysis, toleranceKg }: { analysis: DriftAnalysis; toleranceKg: number }) {
+  const { points, trend, fittedFrom, predictedBreachAt } = analysis;
+
+  const data = useMemo(() => {
+    const rows: { t: number; deviation?: number; trend?: number }[] = points.map((p) => ({
+      t: Date.parse(p.at),
+      deviation: p.deviationKg,
+    }));
+    if (trend && fittedFrom) {
+      // Trend from the first fitted point to the predicted breach (or today).
+      const start = Date.parse(fittedFrom);
+      const end = predictedBreachAt ? Date.parse(predictedBreachAt) : Date.now();
+      rows.push({ t: start, trend: trendValueAt(trend, start) }, { t: end, trend: trendValueAt(trend, end) });
+    }
+    return rows.sort((a, b) => a.t - b.t);
+  }, [points, trend, fittedFrom, predictedBreachAt]);
+
+  return (
+    <div className="rounded-lg border border-gray-200 p-3">
+      <p className="mb-2 text-sm font-medium text-gray-700">
+        {analysis.stationName}
+        {analysis.bound ? ` · ${analysis.bound}` : ''} · {analysis.channel}
+      </p>
+      <ResponsiveContainer width="100%" height={260}>
+        <ComposedChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="t"
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(t: number) => format(new Date(t), 'dd MMM')}
+          />
+          <YAxis unit=" kg" domain={[(min: number) => Math.min(min, -toleranceKg * 1.2), (max: number) => Math.max(max, toleranceKg * 1.2)]} />
+          <Tooltip
+            labelFormatter={(t) => format(new Date(Number(t)), 'dd MMM yyyy HH:mm')}
+            formatter={(v) => [`${signed(Number(v))} kg`]}
+          />
+          <ReferenceLine y={toleranceKg} stroke="#ef4444" strokeDasharray="4 4" label={{ value: `+${toleranceKg}`, position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={-toleranceKg} stroke="#ef4444" strokeDasharray="4 4" label={{ value: `-${toleranceKg}`, position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <Scatter dataKey="deviation" name="Deviation" fill="#2563eb" />
+          <Line dataKey="trend" name="Trend" stroke="#f59e0b" strokeDasharray="6 3" dot={false} connectNulls />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import { AlertTriangle, FileSignature, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  checkOverDelivery,
+  getContractCeilingKg,
+  getContractIneligibility,
+  getContractProgress,
+  type ContractTripContext,
+} from '@/lib/commercial-contracts';
+import { cn } from '@/lib/utils';
+import { formatWeight } from '@/lib/weighing-utils';
+import type { CommercialContract } from '@/types/weighing';
+
+const NONE = '__none__';
+
+/**
+ * ContractProgressBar - Delivered vs. target, with the pending trip shaded on top
+ */
+export function ContractProgressBar({
+  contract,
+  pendingNetKg = 0,
+  className,
+}: {
+  contract: CommercialContract;
+  pendingNetKg?: number;
+  className?: string;
+}) {
+  const before = getContractProgress(contract);
+  const after = getContractProgress(contract, pendingNetKg);
+  const scale = Math.max(getContractCeilingKg(contract), after.deliveredKg, 1);
+  const targetPct = (contract.targetQuantityKg / scale) * 100;
+  const over = after.deliveredKg > getContractCeilingKg(contract);
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="relative h-2.5 w-full overflow-hidden rounded-full bg-gray-100">
+        <div className="absolute inset-y-0 left-0 bg-emerald-500" style={{ width: `${(before.deliveredKg / scale) * 100}%` }} />
+        {pendingNetKg > 0 && (
+          <div
+            className={cn('absolute inset-y-0', over ? 'bg-red-400' : 'bg-emerald-300')}
+            style={{ left: `${(before.deliveredKg / scale) * 100}%`, width: `${(pendingNetKg / scale) * 100}%` }}
+          />
+        )}
+        {targetPct < 100 && <div className="absolute inset-y-0 w-px bg-gray-500" style={{ left: `${targetPct}%` }} />}
+      </div>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>
+          {formatWeight(after.deliveredKg)} / {formatWeight(contract.targetQuantityKg)} kg ({Math.round(after.percent)}%)
+        </span>
+        <span>
+          {after.overTargetKg > 0
+            ? `${formatWeight(after.overTargetKg)} kg over target`
+            : `${formatWeight(after.remainingKg)} kg remaining`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+interface CommercialContractSelectorProps {
+  contracts: CommercialContract[];
+  trip: ContractTripContext;
+  selectedId: string | null;
+  onSelect: (id: string | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * CommercialContractSelector - Attach the weighing to an open contract (capture step)
+ *
+ * Contracts the vehicle can't deliver against are listed but disabled, with the reason.
+ */
+export function CommercialContractSelector({
+  contracts,
+  trip,
+  selectedId,
+  onSelect,
+  disabled,
+}: CommercialContractSelectorProps) {
+  if (contracts.length === 0) return null;
+  const selected = contracts.find((c) => c.id === selectedId) ?? null;
+  const selectedIssues = selected ? getContractIneligibility(selected, trip) : [];
+
+  return (
+    <Card className="border-gray-200">
+      <CardContent className="p-3 space-y-2">
+        <Label className="flex items-center gap-1.5 text-sm">
+          <FileSignature className="h-4 w-4 text-gray-500" />
+          Contract
+        </Label>
+        <Select value={selectedId ?? NONE} onValueChange={(v) => onSelect(v === NONE ? null : v)} disabled={disabled}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>No contract (single trip)</SelectItem>
+            {contracts.map((c) => {
+              const issues = getContractIneligibility(c, trip);
+              return (
+                <SelectItem key={c.id} value={c.id} disabled={issues.length > 0}>
+                  {c.contractNo} — {c.customerName}
+                  {c.cargoType ? ` · ${c.cargoType}` : ''}
+                  {issues.length > 0 && ` (${issues[0]})`}
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <>
+            <ContractProgressBar contract={selected} />
+            <p className="text-xs text-gray-500">
+              {selected.tripCount} trip{selected.tripCount === 1 ? '' : 's'} so far ·{' '}
+              {selected.currency} {selected.pricePerTonne.toLocaleString()}/t ·{' '}
+              {selected.overDeliveryPolicy === 'block' ? 'over-delivery blocked' : 'over-delivery flagged'}
+              {selected.overDeliveryToleranceKg > 0 && ` above +${formatWeight(selected.overDeliveryToleranceKg)} kg`}
+            </p>
+            {selectedIssues.length > 0 && (
+              <p className="flex items-center gap-1 text-xs text-red-600">
+                <XCircle className="h-3.5 w-3.5" />
+                {selectedIssues.join('; ')}
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * ContractDeliveryCard - Running totals including this trip, and the over-delivery outcome
+ */
+export function ContractDeliveryCard({
+  contract,
+  netKg,
+  action,
+}: {
+  contract: CommercialContract;
+  netKg: number | null;
+  /** e.g. a "Detach contract" button, shown when the trip is blocked */
+  action?: ReactNode;
+}) {
+  const check = netKg != null ? checkOverDelivery(contract, netKg) : null;
+  // Closed while the trip was in progress (someone else's trip filled it, or an admin closed it)
+  const isClosed = contract.status === 'closed';
+  const isBlocked = isClosed || (!!check && !check.allowed);
+  const message = isClosed
+    ? 'This contract was closed after the trip started — detach it to ticket the trip on its own.'
+    : check?.message;
+
+  return (
+    <Card className={cn(isBlocked ? 'border-red-300 bg-red-50' : check?.flagged ? 'border-amber-300 bg-amber-50' : 'border-gray-200')}>
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2 text-sm">
+            <FileSignature className="h-4 w-4 text-gray-500" />
+            <span className="font-semibold">{contract.contractNo}</span>
+            <span className="text-gray-500">{contract.customerName}</span>
+          </div>
+          {isClosed && <Badge variant="destructive">Contract closed</Badge>}
+          {!isClosed && check && !check.allowed && <Badge variant="destructive">Over-delivery blocked</Badge>}
+          {!isClosed && check?.flagged && <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">Over-delivery</Badge>}
+        </div>
+        <ContractProgressBar contract={contract} pendingNetKg={netKg ?? 0} />
+        {message && (
+          <div className="flex items-center justify-between gap-3">
+            <p className={cn('flex items-center gap-1.5 text-sm', isBlocked ? 'text-red-800' : 'text-amber-800')}>
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {message}
+            </p>
+            {isBlocked && action}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
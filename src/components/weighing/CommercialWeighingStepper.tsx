@@ -30,10 +30,14 @@ import { DriverModal } from '@/components/weighing/modals/DriverModal';
 import { OriginDestinationModal } from '@/components/weighing/modals/OriginDestinationModal';
 import { TransporterModal } from '@/components/weighing/modals/TransporterModal';
 import {
+  useCommercialContract,
+  useCommercialContracts,
   useCreateVehicle,
   useMyScaleTestStatus,
   useMyStation,
+  useScaleDriftGate,
   useVehicleByRegNo,
+  useVehicleTareHistory,
 } from '@/hooks/queries';
 import { useMiddleware, WeightData } from '@/hooks/useMiddleware';
 import { useOrgSlug } from '@/hooks/useOrgSlug';
@@ -48,18 +52,29 @@ import {
   getCommercialTicketPdf,
   getInterimTicketPdf,
   getPendingCommercialByPlate,
-  getVehicleTareHistory,
   initiateCommercialWeighing,
+  setCommercialWeighingContract,
   updateQualityDeduction,
   useStoredTare,
 } from '@/lib/api/weighing';
 import { ResumeWeighingDialog } from '@/components/weighing/ResumeWeighingDialog';
 import { getCurrentOrganization } from '@/lib/api/setup';
 import { TreasuryCheckoutDialog } from '@/components/payments/TreasuryCheckoutDialog';
+import { StoredTareCandidates } from '@/components/weighing/StoredTareCandidates';
+import { CommercialContractSelector, ContractDeliveryCard } from '@/components/weighing/CommercialContractPanel';
+import { QualityLabReadings } from '@/components/weighing/QualityLabReadings';
+import {
+  describeQualityDeduction,
+  getRulesForCargo,
+  readQualityBreakdown,
+  withQualityBreakdown,
+  type QualityDeductionBreakdown,
+} from '@/lib/quality-deduction';
+import { checkOverDelivery, getContractIneligibility } from '@/lib/commercial-contracts';
+import { evaluateTareCandidates, resolveTarePolicy, suggestStoredTare } from '@/lib/tare-policy';
 import type {
   CommercialWeighingResult,
   CommercialWeighingStep,
-  VehicleTareHistory,
 } from '@/types/weighing';
 import { cn } from '@/lib/utils';
 import { formatWeight } from '@/lib/weighing-utils';
@@ -87,6 +102,10 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   const canApproveException = useHasPermission('weighing.override');
 
   const { data: currentStation, isLoading: isLoadingStation } = useMyStation();
+  // Commercial weighing runs on the station's first bound (same default as the enforcement screens)
+  const currentBound = currentStation?.boundACode || 'A';
+  // The middleware only knows bounds A and B; any other station code falls back to A.
+  const middlewareBound: 'A' | 'B' = currentBound === 'B' ? 'B' : 'A';
 
   // Workflow state
   const [currentStep, setCurrentStep] = useState<CommercialWeighingStep>('capture');
@@ -111,10 +130,11 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   const [capturedAxleWeights, setCapturedAxleWeights] = useState<number[]>([]); // index = axle-1
   const [currentAxle, setCurrentAxle] = useState(1);
 
-  // Stored tare + tare expiry
-  const [storedTareWeightKg, setStoredTareWeightKg] = useState<number | undefined>();
-  const [isTareExpired, setIsTareExpired] = useState(false);
-  const [tareExpiryDaysLeft, setTareExpiryDaysLeft] = useState<number | null>(null);
+  // Stored tare chosen by the operator (defaults to the policy's suggestion)
+  const [selectedTareId, setSelectedTareId] = useState<string | null>(null);
+
+  // Contract the trip delivers against (commercial contract mode)
+  const [selectedContractId, setSelectedContractId] = useState<string | null>(null);
 
   // Payment modal
   const [showPaymentModal, setShowPaymentModal] = useState(false);
@@ -147,6 +167,9 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   const feeIsConfigured = !isFacilityOwned && (orgData?.commercialWeighingFeeKes ?? 0) > 0 && !!orgData?.paymentGateway;
   const tenantSlug = orgData?.ssoTenantSlug ?? '';
 
+  const queryClient = useQueryClient();
+  const { data: openContracts = [] } = useCommercialContracts({ status: 'open' });
+
   const weighingUI = useWeighingUI({ stationId: currentStation?.id });
   const {
     vehiclePlate, setVehiclePlate, debouncedPlate,
@@ -172,6 +195,34 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   const createVehicleMutation = useCreateVehicle();
   const { data: existingVehicle } = useVehicleByRegNo(debouncedPlate.length >= 5 ? debouncedPlate : undefined);
 
+  // Contract running totals: the trip's net counts once the second weight is in. Once the trip
+  // is attached, read the contract by id — it can fill up or be closed mid-trip and drop out of
+  // the open list, and the over-delivery check must still see it.
+  const attachedContractId = result?.contractId;
+  const {
+    data: attachedContract,
+    isError: isAttachedContractError,
+    isLoading: isAttachedContractLoading,
+  } = useCommercialContract(attachedContractId);
+  const activeContractId = attachedContractId ?? selectedContractId;
+  const activeContract = (attachedContractId
+    ? attachedContract
+    : openContracts.find((c) => c.id === activeContractId)) ?? null;
+  const contractIssues = activeContract && !transactionId
+    ? getContractIneligibility(activeContract, { vehicleRegNo: vehiclePlate, cargoId: selectedCargoId })
+    : [];
+  const tripNetKg = result?.adjustedNetWeightKg ?? result?.netWeightKg ?? null;
+  const contractCheck = activeContract && tripNetKg != null ? checkOverDelivery(activeContract, tripNetKg) : null;
+  const isOverDeliveryBlocked = !!contractCheck && !contractCheck.allowed;
+  const contractBlockMessage = activeContract?.status === 'closed'
+    ? `Contract ${activeContract.contractNo} was closed after the trip started — detach it to complete.`
+    : isOverDeliveryBlocked
+      ? contractCheck?.message ?? 'This trip over-delivers its contract.'
+      : isAttachedContractError
+        ? "The trip's contract couldn't be loaded — detach it or try again to complete."
+        : null;
+  const isContractBlocked = !!contractBlockMessage || isAttachedContractLoading;
+
   // Check for open (first-weight-only) transactions when plate is entered on the capture step
   const { data: pendingTransactions } = useQuery({
     queryKey: ['commercial-pending-by-plate', debouncedPlate],
@@ -189,7 +240,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
 
   const middleware = useMiddleware({
     stationCode: currentStation?.code || 'DEFAULT',
-    bound: 'A',
+    bound: middlewareBound,
     mode,
     autoConnect: true,
     clientName: `TruLoad Frontend - Commercial - ${currentStation?.name || ''}`,
@@ -221,8 +272,9 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   }, [middleware.connected]);
 
   // Scale test status — used by the shared capture step
-  const { data: scaleTestStatus } = useMyScaleTestStatus();
-  const isScaleTestCompleted = !!scaleTestStatus?.latestTest;
+  const { data: scaleTestStatus } = useMyScaleTestStatus(currentBound);
+  const { gate: scaleDrift } = useScaleDriftGate(currentStation?.id, currentBound);
+  const isScaleTestCompleted = !!scaleTestStatus?.latestTest && !scaleDrift?.blocked;
   const lastScaleTestAt = scaleTestStatus?.latestTest?.carriedAt
     ? new Date(scaleTestStatus.latestTest.carriedAt)
     : undefined;
@@ -244,40 +296,21 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     syncType: 'API' as const,
   }], [middlewareConnected, liveWeightKg, mode]);
 
-  // Tare expiry computation
+  // Stored tare candidates, evaluated against the org tare policy
+  const { data: tareHistory } = useVehicleTareHistory(existingVehicle?.id);
+  const tarePolicy = useMemo(() => resolveTarePolicy(orgData), [orgData]);
+  const tareEvaluations = useMemo(
+    () => (existingVehicle ? evaluateTareCandidates(existingVehicle, tareHistory ?? [], tarePolicy) : []),
+    [existingVehicle, tareHistory, tarePolicy]
+  );
+  const suggestedTare = useMemo(() => suggestStoredTare(tareEvaluations), [tareEvaluations]);
+  const selectedTare = tareEvaluations.find((e) => e.id === selectedTareId && e.usable) ?? suggestedTare;
+  const storedTareWeightKg = selectedTare?.tareWeightKg;
+  const hasBlockedTaresOnly = tareEvaluations.length > 0 && !suggestedTare;
+
   useEffect(() => {
-    if (!existingVehicle) {
-      setStoredTareWeightKg(undefined);
-      setIsTareExpired(false);
-      setTareExpiryDaysLeft(null);
-      return;
-    }
-    const tare = existingVehicle.lastTareWeightKg ?? existingVehicle.defaultTareWeightKg;
-    if (tare && tare > 0) {
-      setStoredTareWeightKg(tare);
-    }
-    // Compute tare expiry
-    if (existingVehicle.lastTareWeighedAt) {
-      const expiryDays = existingVehicle.tareExpiryDays ?? 90;
-      const lastWeighed = new Date(existingVehicle.lastTareWeighedAt);
-      const expiryDate = new Date(lastWeighed);
-      expiryDate.setDate(expiryDate.getDate() + expiryDays);
-      const now = new Date();
-      const daysLeft = Math.floor((expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-      setIsTareExpired(daysLeft < 0);
-      setTareExpiryDaysLeft(daysLeft);
-    }
-    // Fall back to tare history
-    if (!existingVehicle.lastTareWeightKg && existingVehicle.id) {
-      getVehicleTareHistory(existingVehicle.id)
-        .then((history: VehicleTareHistory[]) => {
-          if (history.length > 0 && !storedTareWeightKg) {
-            setStoredTareWeightKg(history[0].tareWeightKg);
-          }
-        })
-        .catch(() => {});
-    }
-  }, [existingVehicle?.id, existingVehicle?.lastTareWeightKg, existingVehicle?.lastTareWeighedAt]);
+    setSelectedTareId(null);
+  }, [existingVehicle?.id]);
 
   // Prefill cargo details from result
   useEffect(() => {
@@ -338,6 +371,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   const handleProceedToFirstWeight = useCallback(async () => {
     if (!currentStation?.id) { toast.error('No station assigned.'); return; }
     if (vehiclePlate.length < 5) { toast.error('Enter a valid plate number (at least 5 characters).'); return; }
+    if (contractIssues.length > 0) { toast.error(`Cannot attach contract: ${contractIssues.join('; ')}.`); return; }
 
     setIsLoading(true);
     try {
@@ -351,10 +385,12 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
         stationId: currentStation.id,
         vehicleRegNo: vehiclePlate.trim().toUpperCase(),
         driverId: selectedDriverId || undefined,
-        transporterId: selectedTransporterId || undefined,
-        cargoId: selectedCargoId || undefined,
+        transporterId: selectedTransporterId || activeContract?.transporterId || undefined,
+        cargoId: selectedCargoId || activeContract?.cargoId || undefined,
         originId: selectedOriginId || undefined,
         destinationId: selectedDestinationId || undefined,
+        contractId: activeContract?.id,
+        orderReference: activeContract?.contractNo,
         weighingScaleType: mode,
       });
 
@@ -374,7 +410,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     } finally {
       setIsLoading(false);
     }
-  }, [currentStation, vehiclePlate, existingVehicle, createVehicleMutation, middleware, orgSlug,
+  }, [currentStation, vehiclePlate, existingVehicle, createVehicleMutation, middleware, orgSlug, activeContract, contractIssues,
       selectedDriverId, selectedTransporterId, selectedCargoId, selectedOriginId, selectedDestinationId]);
 
   const handleCaptureFirstWeight = useCallback(async (weightType: 'tare' | 'gross') => {
@@ -427,13 +463,16 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
 
   const handleUseStoredTare = useCallback(async (overrideTareKg?: number) => {
     if (!transactionId) return;
-    if (isTareExpired && !overrideTareKg) {
-      toast.error('Stored tare has expired. Please re-weigh the vehicle or enter a manual tare weight.');
+    if (!selectedTare && !overrideTareKg) {
+      toast.error('No stored tare passes the tare policy. Please re-weigh the vehicle or enter a manual tare weight.');
       return;
     }
+    // The server applies the vehicle's stored tare unless told otherwise.
+    const tareKg = overrideTareKg
+      ?? (selectedTare && selectedTare.tareWeightKg !== existingVehicle?.lastTareWeightKg ? selectedTare.tareWeightKg : undefined);
     setIsLoading(true);
     try {
-      const updated = await useStoredTare(transactionId, { overrideTareWeightKg: overrideTareKg });
+      const updated = await useStoredTare(transactionId, { overrideTareWeightKg: tareKg });
       setResult(updated);
       toast.success(`Stored tare used. Net weight: ${formatWeight(updated.netWeightKg ?? 0)} kg`);
       goToNextStep();
@@ -443,7 +482,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     } finally {
       setIsLoading(false);
     }
-  }, [transactionId, isTareExpired]);
+  }, [transactionId, selectedTare, existingVehicle?.lastTareWeightKg]);
 
   const handleApproveToleranceException = useCallback(async () => {
     if (!transactionId) return;
@@ -461,11 +500,22 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     }
   }, [transactionId]);
 
+  const qualityRules = useMemo(
+    () => getRulesForCargo(orgData?.qualityDeductionRules ?? [], result?.cargoId),
+    [orgData?.qualityDeductionRules, result?.cargoId]
+  );
+  const qualityBreakdown = useMemo(() => readQualityBreakdown(result?.industryMetadata), [result?.industryMetadata]);
+
   const handleApplyQualityDeduction = useCallback(async () => {
     if (!transactionId || qualityDeductionKg <= 0) return;
     setIsApplyingDeduction(true);
     try {
-      const updated = await updateQualityDeduction(transactionId, { qualityDeductionKg, reason: qualityDeductionReason || undefined });
+      const updated = await updateQualityDeduction(transactionId, {
+        qualityDeductionKg,
+        reason: qualityDeductionReason || undefined,
+        // A hand-entered figure replaces any rule-based breakdown
+        industryMetadata: qualityBreakdown ? withQualityBreakdown(result?.industryMetadata, null) : undefined,
+      });
       setResult(updated);
       toast.success('Quality deduction applied.');
     } catch (err) {
@@ -473,7 +523,25 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     } finally {
       setIsApplyingDeduction(false);
     }
-  }, [transactionId, qualityDeductionKg, qualityDeductionReason]);
+  }, [transactionId, qualityDeductionKg, qualityDeductionReason, qualityBreakdown, result?.industryMetadata]);
+
+  const handleApplyLabDeduction = useCallback(async (breakdown: QualityDeductionBreakdown) => {
+    if (!transactionId) return;
+    setIsApplyingDeduction(true);
+    try {
+      const updated = await updateQualityDeduction(transactionId, {
+        qualityDeductionKg: breakdown.totalKg,
+        reason: describeQualityDeduction(breakdown) || 'Lab readings within limits',
+        industryMetadata: withQualityBreakdown(result?.industryMetadata, breakdown),
+      });
+      setResult(updated);
+      toast.success(`Quality deduction of ${formatWeight(breakdown.totalKg)} kg applied.`);
+    } catch (err) {
+      toast.error('Failed to apply quality deduction.');
+    } finally {
+      setIsApplyingDeduction(false);
+    }
+  }, [transactionId, result?.industryMetadata]);
 
   const handlePrintTicket = useCallback(async () => {
     if (!transactionId) return;
@@ -509,11 +577,31 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     }
   }, [transactionId, result?.firstWeightKg, result?.ticketNumber]);
 
+  const handleDetachContract = useCallback(async () => {
+    if (!transactionId) return;
+    setIsLoading(true);
+    try {
+      const updated = await setCommercialWeighingContract(transactionId, null);
+      setResult(updated);
+      setSelectedContractId(null);
+      toast.success('Contract detached. The trip will be ticketed on its own.');
+    } catch (err) {
+      toast.error('Failed to detach contract.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [transactionId]);
+
   const handleComplete = useCallback(async () => {
+    if (isContractBlocked) {
+      toast.error(contractBlockMessage ?? 'Still loading the trip\'s contract.');
+      return;
+    }
     await handlePrintTicket();
+    if (activeContractId) queryClient.invalidateQueries({ queryKey: ['commercial-contracts'] });
     resetSession();
     toast.success('Transaction completed. Ready for next vehicle.');
-  }, [handlePrintTicket]);
+  }, [handlePrintTicket, isContractBlocked, contractBlockMessage, activeContractId, queryClient]);
 
   const resetSession = useCallback(() => {
     setTransactionId(null); setResult(null);
@@ -522,7 +610,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
     setFrontViewImage(undefined); setOverviewImage(undefined);
     setSelectedDriverId(undefined); setSelectedTransporterId(undefined);
     setSelectedCargoId(undefined); setSelectedOriginId(undefined); setSelectedDestinationId(undefined);
-    setQualityDeductionKg(0); setQualityDeductionReason('');
+    setQualityDeductionKg(0); setQualityDeductionReason(''); setSelectedContractId(null);
     setDeckWeights([]); setCapturedAxleWeights([]); setCurrentAxle(1);
     setCargoDetails({ consignmentNo: '', orderReference: '', cargoType: '', origin: '', destination: '', sealNumbers: '', trailerRegNo: '', expectedNetWeightKg: '', remarks: '' });
     setLiveWeightKg(0);
@@ -552,7 +640,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
   }, []);
 
   const stationDisplayName = currentStation?.name ?? 'Loading...';
-  const canProceedFromCapture = vehiclePlate.length >= 5;
+  const canProceedFromCapture = vehiclePlate.length >= 5 && !scaleDrift?.blocked && contractIssues.length === 0;
 
   if (isLoadingStation) {
     return (
@@ -608,20 +696,46 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
         </Card>
       )}
 
-      {/* Tare expiry warning */}
-      {currentStep === 'second-weight' && isTareExpired && storedTareWeightKg && (
+      {/* Tare policy warnings */}
+      {currentStep === 'second-weight' && hasBlockedTaresOnly && (
         <Card className="border-orange-300 bg-orange-50">
           <CardContent className="p-3 flex items-center gap-2 text-orange-800 text-sm">
             <Clock className="h-4 w-4 shrink-0" />
-            Stored tare weight has expired. Re-weigh the vehicle or enter a manual tare override.
+            No stored tare for this vehicle passes the tare policy (expired or anomalous). Re-weigh the vehicle empty.
           </CardContent>
         </Card>
       )}
-      {currentStep === 'second-weight' && !isTareExpired && tareExpiryDaysLeft !== null && tareExpiryDaysLeft <= 7 && (
+      {currentStep === 'second-weight' && selectedTare?.status === 'expiring' && (
         <Card className="border-yellow-300 bg-yellow-50">
           <CardContent className="p-3 flex items-center gap-2 text-yellow-800 text-sm">
             <Clock className="h-4 w-4 shrink-0" />
-            Stored tare expires in {tareExpiryDaysLeft} day{tareExpiryDaysLeft !== 1 ? 's' : ''}.
+            Selected stored tare: {selectedTare.reason?.toLowerCase()}.
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Contract running totals */}
+      {activeContract && currentStep !== 'capture' && (
+        <ContractDeliveryCard
+          contract={activeContract}
+          netKg={tripNetKg}
+          action={
+            <Button size="sm" variant="outline" onClick={handleDetachContract} disabled={isLoading}>
+              Detach contract
+            </Button>
+          }
+        />
+      )}
+      {isAttachedContractError && currentStep !== 'capture' && (
+        <Card className="border-red-300 bg-red-50">
+          <CardContent className="p-3 flex items-center justify-between gap-3 text-red-800 text-sm">
+            <span className="flex items-center gap-2">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {contractBlockMessage}
+            </span>
+            <Button size="sm" variant="outline" onClick={handleDetachContract} disabled={isLoading}>
+              Detach contract
+            </Button>
           </CardContent>
         </Card>
       )}
@@ -656,6 +770,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
             isScalesConnected={middlewareConnected}
             isScaleTestCompleted={isScaleTestCompleted}
             lastScaleTestAt={lastScaleTestAt}
+            scaleDrift={scaleDrift}
             weighingType={mode}
             isSimulationMode={false}
             handleConnectScales={() => middleware.connect()}
@@ -710,16 +825,29 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
               <Card className="border-blue-200 bg-blue-50">
                 <CardContent className="p-3 text-xs space-y-1">
                   <div className="font-medium text-gray-800">{existingVehicle.make} {existingVehicle.model}</div>
-                  {storedTareWeightKg && (
-                    <div className={cn('flex items-center gap-1', isTareExpired ? 'text-orange-600' : 'text-green-600')}>
-                      {isTareExpired ? <Clock className="h-3 w-3" /> : <Check className="h-3 w-3" />}
-                      Stored tare: {formatWeight(storedTareWeightKg)} kg
-                      {isTareExpired ? ' (EXPIRED)' : tareExpiryDaysLeft !== null ? ` (${tareExpiryDaysLeft}d left)` : ''}
+                  {suggestedTare ? (
+                    <div className="flex items-center gap-1 text-green-600">
+                      <Check className="h-3 w-3" />
+                      Suggested stored tare: {formatWeight(suggestedTare.tareWeightKg)} kg
+                      {suggestedTare.expiresInDays !== null ? ` (${suggestedTare.expiresInDays}d left)` : ''}
+                    </div>
+                  ) : hasBlockedTaresOnly && (
+                    <div className="flex items-center gap-1 text-orange-600">
+                      <Clock className="h-3 w-3" />
+                      Stored tare blocked by tare policy: {tareEvaluations[0].reason}
                     </div>
                   )}
                 </CardContent>
               </Card>
             )}
+
+            <CommercialContractSelector
+              contracts={openContracts}
+              trip={{ vehicleRegNo: vehiclePlate, cargoId: selectedCargoId }}
+              selectedId={selectedContractId}
+              onSelect={setSelectedContractId}
+              disabled={isLoading}
+            />
           </WeighingCaptureStep>
         )}
 
@@ -898,17 +1026,38 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
               </div>
             )}
 
+            {result?.firstWeightType === 'gross' && result.netWeightKg == null && (
+              <StoredTareCandidates
+                evaluations={tareEvaluations}
+                suggestedId={suggestedTare?.id ?? null}
+                selectedId={selectedTare?.id ?? null}
+                onSelect={setSelectedTareId}
+                disabled={isLoading}
+              />
+            )}
+
             <CommercialSecondWeightStep
               liveWeightKg={mode === 'mobile' ? axleGvw : liveWeightKg}
               isConnected={middlewareConnected}
               isStable={isStable}
               result={result}
-              storedTareWeightKg={isTareExpired ? undefined : storedTareWeightKg}
+              storedTareWeightKg={storedTareWeightKg}
               isCapturing={isLoading}
               onCaptureSecondWeight={mode === 'mobile' ? (allAxlesCaptured ? handleCaptureSecondWeight : () => toast.error(`Capture all ${totalAxles} axles first.`)) : handleCaptureSecondWeight}
               onUseStoredTare={handleUseStoredTare}
             />
 
+            {result?.netWeightKg != null && qualityRules.length > 0 && (
+              <QualityLabReadings
+                key={result.id}
+                rules={qualityRules}
+                netWeightKg={result.netWeightKg}
+                applied={qualityBreakdown}
+                onApply={handleApplyLabDeduction}
+                isApplying={isApplyingDeduction}
+              />
+            )}
+
             <div className="flex items-center justify-between gap-3 border-t border-gray-200 pt-4">
               <Button variant="outline" onClick={goToPrevStep} className="gap-2">
                 <ChevronLeft className="h-4 w-4" /> Back
@@ -916,7 +1065,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
               {(result?.netWeightKg != null) && (
                 <Button
                   onClick={goToNextStep}
-                  disabled={result.toleranceExceeded && !result.toleranceExceptionApproved}
+                  disabled={(result.toleranceExceeded && !result.toleranceExceptionApproved) || isContractBlocked}
                   className="gap-2"
                 >
                   Next <ChevronRight className="h-4 w-4" />
@@ -938,6 +1087,7 @@ export function CommercialWeighingStepper({ mode = 'multideck', className }: Com
               onQualityDeductionChange={(kg, reason) => { setQualityDeductionKg(kg); setQualityDeductionReason(reason); }}
               onApplyQualityDeduction={handleApplyQualityDeduction}
               isApplyingDeduction={isApplyingDeduction}
+              qualityBreakdown={qualityBreakdown}
               onPrintTicket={handlePrintTicket}
               onComplete={handleComplete}
               onCollectPayment={feeIsConfigured && result.treasuryPaymentUrl ? () => setShowPaymentModal(true) : undefined}
@@ -1,5 +1,7 @@
 "use client";
 
+import { useTranslation } from '@/contexts/LocaleContext';
+import { formatWeight } from '@/lib/formatters';
 import { cn } from '@/lib/utils';
 import { ComplianceStatus } from '@/types/weighing';
 import { AlertTriangle, CheckCircle2, XCircle, Clock } from 'lucide-react';
@@ -39,6 +41,7 @@ export function ComplianceBanner({
   reweighCount = 0,
   className,
 }: ComplianceBannerProps) {
+  const { t } = useTranslation();
   const isPending = status === 'PENDING';
 
   return (
@@ -48,19 +51,19 @@ export function ComplianceBanner({
         {/* Re-weigh Badge - only shown for actual reweighs (cycle >= 1) */}
         {reweighCount > 0 && (
           <span className="bg-gray-800 text-white px-3 py-1 rounded text-sm font-medium">
-            RE-WEIGH: {reweighCount}
+            {t('weighing.banner.reweigh', { count: reweighCount })}
           </span>
         )}
 
         {/* GVW Badge */}
         <span className="bg-gray-800 text-white px-3 py-1 rounded text-sm font-medium">
-          GVW: {gvwMeasured.toLocaleString()} [KG]
+          {t('weighing.banner.gvw', { weight: formatWeight(gvwMeasured) })}
         </span>
 
         {/* Excess AVW Badge */}
         {excessAvw > 0 && (
           <span className="bg-gray-800 text-white px-3 py-1 rounded text-sm font-medium">
-            Excess AVW: {excessAvw.toLocaleString()} [KG]
+            {t('weighing.banner.excessAvw', { weight: formatWeight(excessAvw) })}
           </span>
         )}
       </div>
@@ -70,21 +73,21 @@ export function ComplianceBanner({
         {/* GVW Excess - highlighted */}
         {gvwExcess > 0 && (
           <span className="bg-yellow-400 text-black px-3 py-1 rounded text-sm font-bold">
-            GVW Excess: {gvwExcess.toLocaleString()} [KG]
+            {t('weighing.banner.gvwExcess', { weight: formatWeight(gvwExcess) })}
           </span>
         )}
 
         {/* DIFF Excess - highlighted */}
         {diffExcess > 0 && (
           <span className="bg-red-500 text-white px-3 py-1 rounded text-sm font-bold">
-            DIFF. Excess: {diffExcess.toLocaleString()} [KG]
+            {t('weighing.banner.diffExcess', { weight: formatWeight(diffExcess) })}
           </span>
         )}
 
         {/* Time Taken */}
         {timeTaken && (
           <span className="bg-yellow-400 text-black px-3 py-1 rounded text-sm font-medium">
-            Time Taken: {timeTaken}
+            {t('weighing.banner.timeTaken', { time: timeTaken })}
           </span>
         )}
       </div>
@@ -107,12 +110,12 @@ export function ComplianceBanner({
         {status === 'WARNING' && <AlertTriangle className="h-5 w-5" />}
         {status === 'OVERLOAD' && <XCircle className="h-5 w-5" />}
         {isPending
-          ? 'Pending'
+          ? t('status.pending')
           : status === 'LEGAL'
-            ? 'Legal'
+            ? t('status.legal')
             : status === 'WARNING'
-              ? 'Warning'
-              : 'Overload'}
+              ? t('status.warning')
+              : t('status.overload')}
       </div>
     </div>
   );
@@ -128,6 +131,7 @@ export function CompactComplianceBadge({
   status: ComplianceStatus | 'PENDING';
   className?: string;
 }) {
+  const { t } = useTranslation();
   const isPending = status === 'PENDING';
 
   return (
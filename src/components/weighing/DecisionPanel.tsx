@@ -3,6 +3,8 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import { useTranslation } from '@/contexts/LocaleContext';
+import { DEFAULT_MAX_REWEIGH_CYCLES } from '@/lib/reweigh';
 import { cn } from '@/lib/utils';
 import { formatFee, formatFeeUsd, getDecisionMessage, getStatusColor } from '@/lib/weighing-utils';
 import { ComplianceStatus } from '@/types/weighing';
@@ -26,6 +28,7 @@ interface DecisionPanelProps {
   chargingCurrency?: string;
   demeritPoints?: number;
   reweighCycleNo?: number;
+  maxReweighCycles?: number;
 
   // Required field validation
   requiredFieldsValid?: boolean;
@@ -74,7 +77,7 @@ interface DecisionPanelProps {
  * 1. Finish & Print Ticket (LEGAL/WARNING) - green
  * 2. Send to Yard (OVERLOAD) - red
  * 3. Special Release (OVERLOAD/WARNING) - amber
- * Plus optional Re-weigh button (if cycle < 8)
+ * Plus optional Re-weigh button (while cycle < maxReweighCycles)
  *
  * Blocks actions if required fields (driver, transporter, origin, destination) are missing.
  */
@@ -85,6 +88,7 @@ export function DecisionPanel({
   chargingCurrency,
   demeritPoints = 0,
   reweighCycleNo = 0,
+  maxReweighCycles = DEFAULT_MAX_REWEIGH_CYCLES,
   requiredFieldsValid = true,
   missingFields = [],
   onFinishExit,
@@ -106,6 +110,7 @@ export function DecisionPanel({
   operationalToleranceKg = 200,
   className,
 }: DecisionPanelProps) {
+  const { t, intlLocale } = useTranslation();
   const statusMessage = getDecisionMessage(overallStatus);
   const showFee = !isCommercial && overallStatus === 'OVERLOAD' && (totalFeeUsd > 0 || totalFeeKes > 0);
   const isOverloaded = overallStatus === 'OVERLOAD';
@@ -131,11 +136,11 @@ export function DecisionPanel({
             {isCommercial ? (
               <div className="flex items-center gap-3">
                 <Badge className="px-4 py-2 text-base font-semibold bg-blue-100 text-blue-800 border-blue-300">
-                  Commercial Weighing
+                  {t('weighing.decision.commercial')}
                 </Badge>
                 <span className="text-sm text-gray-600">
-                  Weighing fee:{' '}
-                  <span className="font-bold text-blue-700">KES {commercialWeighingFeeKes.toLocaleString()}</span>
+                  {t('weighing.decision.weighingFee')}{' '}
+                  <span className="font-bold text-blue-700">KES {commercialWeighingFeeKes.toLocaleString(intlLocale)}</span>
                 </span>
               </div>
             ) : (
@@ -147,12 +152,12 @@ export function DecisionPanel({
                 {showFee && (
                   <div className="flex items-center gap-4 text-sm">
                     <span className="text-gray-600">
-                      Fee:{' '}
+                      {t('weighing.decision.fee')}{' '}
                       <span className="font-bold text-red-600">{formatFee(totalFeeUsd, totalFeeKes, chargingCurrency)}</span>
                     </span>
                     {demeritPoints > 0 && (
                       <span className="text-gray-600">
-                        Demerit:{' '}
+                        {t('weighing.decision.demerit')}{' '}
                         <span className="font-bold text-red-600">{demeritPoints}</span>
                       </span>
                     )}
@@ -162,7 +167,7 @@ export function DecisionPanel({
                 {overallStatus === 'WARNING' && (
                   <div className="flex items-center gap-2 text-sm text-yellow-700">
                     <AlertTriangle className="h-4 w-4" />
-                    <span>Within operational tolerance (≤{operationalToleranceKg}kg)</span>
+                    <span>{t('weighing.decision.withinTolerance', { tolerance: operationalToleranceKg })}</span>
                   </div>
                 )}
               </>
@@ -173,7 +178,7 @@ export function DecisionPanel({
           {!isCommercial && canPrint && onPrintTicket && (
             <Button variant="outline" size="sm" onClick={onPrintTicket}>
               <Printer className="mr-2 h-4 w-4" />
-              Print Ticket
+              {t('weighing.decision.printTicket')}
             </Button>
           )}
         </div>
@@ -183,9 +188,9 @@ export function DecisionPanel({
           <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
             <ShieldAlert className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
             <div className="text-sm">
-              <p className="font-medium text-amber-800">Missing required fields</p>
+              <p className="font-medium text-amber-800">{t('weighing.decision.missingFields')}</p>
               <p className="text-amber-700">
-                Please fill in: {missingFields.join(', ')} before taking action.
+                {t('weighing.decision.fillIn', { fields: missingFields.join(', ') })}
               </p>
             </div>
           </div>
@@ -206,7 +211,7 @@ export function DecisionPanel({
               ) : (
                 <LogOut className="mr-2 h-4 w-4" />
               )}
-              {isFinishing ? 'Finishing...' : 'Finish & Exit'}
+              {isFinishing ? t('weighing.decision.finishing') : t('weighing.decision.finishExit')}
             </Button>
           )}
 
@@ -221,7 +226,7 @@ export function DecisionPanel({
                   disabled={actionsDisabled || isFinishing}
                 >
                   <Ticket className="mr-2 h-4 w-4" />
-                  Issue Commercial Ticket
+                  {t('weighing.decision.issueCommercialTicket')}
                 </Button>
               )}
 
@@ -234,7 +239,7 @@ export function DecisionPanel({
                   disabled={actionsDisabled}
                 >
                   <CreditCard className="mr-2 h-4 w-4" />
-                  Collect Payment
+                  {t('weighing.decision.collectPayment')}
                 </Button>
               )}
             </>
@@ -251,7 +256,7 @@ export function DecisionPanel({
                   disabled={actionsDisabled || isFinishing}
                 >
                   <CheckCircle2 className="mr-2 h-4 w-4" />
-                  Finish & Print Ticket
+                  {t('weighing.decision.finishPrint')}
                 </Button>
               )}
 
@@ -268,7 +273,7 @@ export function DecisionPanel({
                   ) : (
                     <Truck className="mr-2 h-4 w-4" />
                   )}
-                  {isSendingToYard ? 'Sending...' : 'Send to Yard'}
+                  {isSendingToYard ? t('weighing.decision.sending') : t('weighing.decision.sendToYard')}
                 </Button>
               )}
 
@@ -276,7 +281,7 @@ export function DecisionPanel({
               {isOverloaded && isSentToYard && (
                 <div className="flex items-center gap-2 p-3 bg-slate-100 border border-slate-200 rounded-lg text-sm text-slate-700">
                   <Truck className="h-4 w-4 text-slate-500" />
-                  <span>Vehicle has been sent to yard</span>
+                  <span>{t('weighing.decision.sentToYard')}</span>
                 </div>
               )}
 
@@ -289,21 +294,21 @@ export function DecisionPanel({
                   disabled={actionsDisabled}
                 >
                   <FileCheck className="mr-2 h-4 w-4" />
-                  Special Release
+                  {t('weighing.decision.specialRelease')}
                 </Button>
               )}
             </>
           )}
 
           {/* Re-weigh - optional, when allowed (both modes) */}
-          {canReweigh && reweighCycleNo < 8 && (
+          {canReweigh && reweighCycleNo < maxReweighCycles && (
             <Button
               variant="outline"
               className="flex-1 sm:flex-initial"
               onClick={onReweigh}
             >
               <RefreshCw className="mr-2 h-4 w-4" />
-              Re-weigh {reweighCycleNo > 0 && `(${reweighCycleNo}/8)`}
+              {t('weighing.decision.reweigh')} {reweighCycleNo > 0 && `(${reweighCycleNo}/${maxReweighCycles})`}
             </Button>
           )}
         </div>
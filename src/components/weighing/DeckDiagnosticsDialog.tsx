@@ -0,0 +1,300 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Activity, AlertTriangle, CheckCircle2, Download, Loader2, Square, Trash2, XCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { useDeckDiagnostics } from '@/hooks/useDeckDiagnostics';
+import type { DiagnosticSessionEntry } from '@/lib/offline/db';
+import { formatFingerprint, type DiagnosticFinding, type DiagnosticReport } from '@/lib/truconnect/diagnostics';
+import { cn } from '@/lib/utils';
+
+const WINDOWS = [
+  { minutes: 1, label: '1 minute' },
+  { minutes: 5, label: '5 minutes' },
+  { minutes: 15, label: '15 minutes' },
+  { minutes: 30, label: '30 minutes' },
+];
+
+const KIND_LABEL: Record<DiagnosticFinding['kind'], string> = {
+  'zero-drift': 'Zero drift',
+  imbalance: 'Imbalance',
+  stuck: 'Stuck reading',
+  connection: 'Connection',
+};
+
+interface DeckDiagnosticsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  diagnostics: ReturnType<typeof useDeckDiagnostics>;
+}
+
+/**
+ * DeckDiagnosticsDialog - Record multideck frames and export the signed vendor bundle
+ *
+ * Opened from ScaleHealthPanel on the multideck screen. Recording keeps running when the dialog
+ * is closed; the panel shows a REC dot until the window ends.
+ */
+export function DeckDiagnosticsDialog({ open, onOpenChange, diagnostics }: DeckDiagnosticsDialogProps) {
+  const { active, sessions, start, stop, exportBundle, remove, keyFingerprint } = diagnostics;
+  const [windowMinutes, setWindowMinutes] = useState('5');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const selected = sessions.find((s) => s.id === selectedId) ?? sessions.find((s) => s.report) ?? null;
+  const report = useMemo<DiagnosticReport | null>(
+    () => (selected?.report ? JSON.parse(selected.report) : null),
+    [selected?.report]
+  );
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await action();
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remainingS = active ? Math.max(0, Math.round((active.endsAt - Date.now()) / 1000)) : 0;
+  const progress = active ? Math.min(100, ((Date.now() - active.startedAt) / (active.endsAt - active.startedAt)) * 100) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-blue-600" />
+            Deck Diagnostics
+          </DialogTitle>
+          <DialogDescription>
+            Records every deck reading, stable flag and connection state from the indicator. Use it
+            with the platform empty and with a test load to catch zero drift, imbalance and stuck load cells.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Recording controls */}
+        <div className="rounded-lg border border-gray-200 p-4 space-y-3">
+          {active ? (
+            <>
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-full bg-red-500 animate-pulse" />
+                  <span className="text-sm font-semibold text-gray-800">Recording</span>
+                  <span className="text-xs text-gray-500">
+                    {active.samples.toLocaleString()} frames · {Math.floor(remainingS / 60)}:
+                    {String(remainingS % 60).padStart(2, '0')} left
+                  </span>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => run('stop', stop)} disabled={busy === 'stop'}>
+                  {busy === 'stop' ? <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" /> : <Square className="mr-1.5 h-3.5 w-3.5" />}
+                  Stop
+                </Button>
+              </div>
+              <div className="h-1.5 w-full rounded-full bg-gray-100 overflow-hidden">
+                <div className="h-full bg-red-500 transition-all" style={{ width: `${progress}%` }} />
+              </div>
+            </>
+          ) : (
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1.5">
+                <Label>Window</Label>
+                <Select value={windowMinutes} onValueChange={setWindowMinutes}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WINDOWS.map((w) => (
+                      <SelectItem key={w.minutes} value={String(w.minutes)}>
+                        {w.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                onClick={() => run('start', () => start(Number(windowMinutes) * 60_000))}
+                disabled={busy === 'start'}
+                className="bg-blue-600 hover:bg-blue-700"
+              >
+                <Activity className="mr-1.5 h-4 w-4" />
+                Start recording
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Recordings */}
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-gray-700">Recordings on this device</p>
+          {sessions.length === 0 ? (
+            <p className="text-sm text-gray-500">No recordings yet.</p>
+          ) : (
+            <div className="divide-y rounded-lg border border-gray-200">
+              {sessions.map((s) => (
+                <SessionRow
+                  key={s.id}
+                  session={s}
+                  selected={selected?.id === s.id}
+                  recording={active?.sessionId === s.id}
+                  busy={busy}
+                  onSelect={() => setSelectedId(s.id)}
+                  onExport={() => run(`export:${s.id}`, () => exportBundle(s.id))}
+                  onDelete={() => run(`delete:${s.id}`, () => remove(s.id))}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Report */}
+        {selected && report && <ReportView session={selected} report={report} />}
+
+        {/* Signing key — the vendor pins this to trust exported bundles */}
+        {keyFingerprint && (
+          <div className="rounded-lg border border-gray-200 bg-gray-50 p-3 text-xs space-y-1">
+            <p className="font-semibold text-gray-700">Device signing key</p>
+            <p className="font-mono text-gray-800 break-all">{formatFingerprint(keyFingerprint)}</p>
+            <p className="text-gray-500">
+              Give this fingerprint to the scale vendor directly (not with the bundle). A bundle whose
+              key fingerprint doesn&apos;t match it wasn&apos;t signed on this device.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function SessionRow({
+  session,
+  selected,
+  recording,
+  busy,
+  onSelect,
+  onExport,
+  onDelete,
+}: {
+  session: DiagnosticSessionEntry;
+  selected: boolean;
+  recording: boolean;
+  busy: string | null;
+  onSelect: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+}) {
+  const report: DiagnosticReport | null = session.report ? JSON.parse(session.report) : null;
+  const faults = report?.findings.filter((f) => f.severity === 'fault').length ?? 0;
+  const warnings = (report?.findings.length ?? 0) - faults;
+
+  return (
+    <div
+      onClick={onSelect}
+      className={cn('flex items-center justify-between gap-3 px-3 py-2 cursor-pointer', selected && 'bg-blue-50/60')}
+    >
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-800">
+          {format(new Date(session.startedAt), 'dd MMM yyyy HH:mm')}
+          {session.bound && <span className="ml-1 text-gray-500">· Bound {session.bound}</span>}
+        </p>
+        <p className="text-xs text-gray-500">
+          {session.sampleCount.toLocaleString()} frames
+          {session.recordedBy && ` · ${session.recordedBy}`}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        {recording ? (
+          <Badge className="bg-red-100 text-red-700 hover:bg-red-100">Recording</Badge>
+        ) : report ? (
+          faults ? (
+            <Badge className="bg-red-100 text-red-700 hover:bg-red-100">{faults} fault(s)</Badge>
+          ) : warnings ? (
+            <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{warnings} warning(s)</Badge>
+          ) : (
+            <Badge className="bg-emerald-100 text-emerald-700 hover:bg-emerald-100">No findings</Badge>
+          )
+        ) : null}
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={recording || busy === `export:${session.id}`}
+          onClick={(e) => { e.stopPropagation(); onExport(); }}
+          title="Export signed bundle for the scale vendor"
+        >
+          {busy === `export:${session.id}` ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Download className="h-3.5 w-3.5" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={recording || busy === `delete:${session.id}`}
+          onClick={(e) => { e.stopPropagation(); onDelete(); }}
+          title="Delete recording"
+        >
+          <Trash2 className="h-3.5 w-3.5 text-gray-500" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ReportView({ session, report }: { session: DiagnosticSessionEntry; report: DiagnosticReport }) {
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-semibold text-gray-700">
+        Report · {format(new Date(session.startedAt), 'dd MMM HH:mm')}
+      </p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        {report.decks.map((d) => (
+          <div key={d.deck} className="rounded-lg border border-gray-200 p-2 text-xs">
+            <p className="font-semibold text-gray-800">Deck {d.deck}</p>
+            <p className="text-gray-500">Range {d.min.toLocaleString()} – {d.max.toLocaleString()} kg</p>
+            <p className="text-gray-500">Empty {d.emptyMean ?? '—'}{d.emptyMean != null && ' kg'}</p>
+            <p className="text-gray-500">Stable {Math.round(d.stableShare * 100)}%</p>
+          </div>
+        ))}
+      </div>
+
+      {report.findings.length === 0 ? (
+        <p className="flex items-center gap-1.5 text-sm text-emerald-700">
+          <CheckCircle2 className="h-4 w-4" />
+          No zero drift, imbalance, stuck readings or dropouts found.
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {report.findings.map((f, i) => (
+            <li key={i} className="flex items-start gap-2 text-sm">
+              {f.severity === 'fault' ? (
+                <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-600" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0 text-amber-600" />
+              )}
+              <span>
+                <span className="font-medium">{KIND_LABEL[f.kind]}:</span> {f.message}
+                <span className="ml-1 text-xs text-gray-400">
+                  {format(new Date(f.from), 'HH:mm:ss')}–{format(new Date(f.to), 'HH:mm:ss')}
+                </span>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
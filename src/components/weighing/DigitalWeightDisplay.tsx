@@ -5,6 +5,42 @@ import { Card, CardContent, CardHeader } from '@/components/ui/card';
 import { DeckWeight, ScaleStatus } from '@/types/weighing';
 import { cn } from '@/lib/utils';
 import { formatWeight } from '@/lib/weighing-utils';
+import type { StabilityState } from '@/lib/truconnect/stability';
+
+// ============================================================================
+// Stability Meter
+// ============================================================================
+
+interface StabilityMeterProps {
+  stability: StabilityState;
+  className?: string;
+}
+
+/**
+ * StabilityMeter - Settling progress from the client-side stability detector
+ *
+ * Fills while the reading stays within the station's max deviation; capture is
+ * refused until it reaches 100% (SETTLED).
+ */
+export function StabilityMeter({ stability, className }: StabilityMeterProps) {
+  const pct = Math.round(stability.progress * 100);
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex items-center justify-between text-[10px] tracking-widest text-gray-400">
+        <span>{stability.settled ? 'SETTLED' : stability.weightKg > 0 ? 'SETTLING' : 'NO LOAD'}</span>
+        <span className="font-mono">
+          {pct}% · ±{formatWeight(stability.deviationKg)} kg
+        </span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-700 overflow-hidden">
+        <div
+          className={cn('h-full transition-all', stability.settled ? 'bg-green-500' : 'bg-yellow-500')}
+          style={{ width: `${pct}%` }}
+        />
+      </div>
+    </div>
+  );
+}
 
 // ============================================================================
 // Mobile Weight Display - Single Axle
@@ -16,6 +52,8 @@ interface MobileWeightDisplayProps {
   totalAxles: number;
   scaleStatus: ScaleStatus;
   isStable?: boolean;
+  /** Client-side stability state; when given it overrides isStable. */
+  stability?: StabilityState;
   className?: string;
 }
 
@@ -33,9 +71,11 @@ export function MobileWeightDisplay({
   currentAxle,
   totalAxles,
   scaleStatus,
-  isStable = true,
+  isStable: middlewareStable = true,
+  stability,
   className,
 }: MobileWeightDisplayProps) {
+  const isStable = stability ? stability.settled : middlewareStable;
   const getWeightColor = () => {
     if (scaleStatus === 'disconnected') return 'text-red-400';
     if (!isStable || scaleStatus === 'unstable') return 'text-yellow-400';
@@ -78,6 +118,7 @@ export function MobileWeightDisplay({
           </div>
           <div className="text-sm text-gray-400 mt-2 tracking-wider">kg</div>
         </div>
+        {stability && <StabilityMeter stability={stability} className="mt-6" />}
       </CardContent>
     </Card>
   );
@@ -91,6 +132,8 @@ interface MultideckWeightDisplayProps {
   deckWeights: DeckWeight[];
   totalGVW: number;
   scaleStatus: ScaleStatus;
+  /** Client-side stability state of the GVW; when given it overrides the per-deck flags. */
+  stability?: StabilityState;
   className?: string;
 }
 
@@ -107,9 +150,10 @@ export function MultideckWeightDisplay({
   deckWeights,
   totalGVW,
   scaleStatus,
+  stability,
   className,
 }: MultideckWeightDisplayProps) {
-  const allStable = deckWeights.every((d) => d.status === 'stable');
+  const allStable = stability ? stability.settled : deckWeights.every((d) => d.status === 'stable');
 
   const getDeckColor = (status: DeckWeight['status']) => {
     switch (status) {
@@ -171,6 +215,7 @@ export function MultideckWeightDisplay({
             <div className="text-xs text-gray-500">kg</div>
           </div>
         </div>
+        {stability && <StabilityMeter stability={stability} className="mt-4" />}
       </CardContent>
     </Card>
   );
@@ -4,6 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
 import { DeckWeight } from '@/types/weighing';
+import type { StabilityState } from '@/lib/truconnect/stability';
+import { StabilityMeter } from './DigitalWeightDisplay';
 
 interface MultideckWeightsCardProps {
   platformName: string;
@@ -13,6 +15,8 @@ interface MultideckWeightsCardProps {
   actualKg?: number;
   onCapture?: () => void;
   isCaptured?: boolean;
+  /** Client-side GVW stability; shows settling progress under the decks. */
+  stability?: StabilityState;
   className?: string;
 }
 
@@ -33,6 +37,7 @@ export function MultideckWeightsCard({
   actualKg,
   onCapture,
   isCaptured = false,
+  stability,
   className,
 }: MultideckWeightsCardProps) {
   return (
@@ -106,6 +111,8 @@ export function MultideckWeightsCard({
             </div>
           </div>
 
+          {stability && <StabilityMeter stability={stability} className="mt-3" />}
+
           {/* Action Row */}
           {onCapture && (
             <div className="mt-4 flex justify-end">
@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'sonner';
+
+import { RiskFactorList, RiskScoreBadge } from '@/components/shared/RiskScore';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { useOffenderRiskEvidence, useVehicleRiskEvidence } from '@/hooks/queries/useProsecutionQueries';
+import { useAllSettings } from '@/hooks/queries/useSettingsQueries';
+import { useMyStation } from '@/hooks/queries/useWeighingQueries';
+import { auditClientEvent } from '@/lib/offline/clientAudit';
+import { requiresFullInspection, resolveRiskPolicy, scoreRisk } from '@/lib/risk-score';
+import { ClipboardCheck, ShieldAlert } from 'lucide-react';
+
+interface PreWeighRiskPanelProps {
+  /** The debounced plate — the panel looks the vehicle up once it's five characters or more. */
+  vehiclePlate: string;
+  driverId?: string;
+  transporterId?: string;
+  transactionId?: string;
+  /** Told whether a required full inspection is still outstanding; the page holds the weighing until it isn't. */
+  onInspectionPendingChange?: (pending: boolean) => void;
+}
+
+/**
+ * Habitual offender risk for the vehicle, driver and transporter at the start of a weighing. When
+ * the policy routes high-risk vehicles to a full inspection, the inspection must be recorded here.
+ * Under that policy the weighing is also held while the vehicle's score is still loading, and if
+ * it can't be loaded the operator must record an inspection to go on — the gate never opens just
+ * because the record was unreachable. Only the vehicle's score gates; driver and transporter
+ * evidence is loaded separately and shown as unavailable when it can't be, without holding anything.
+ */
+export function PreWeighRiskPanel({
+  vehiclePlate,
+  driverId,
+  transporterId,
+  transactionId,
+  onInspectionPendingChange,
+}: PreWeighRiskPanelProps) {
+  const { data: settings } = useAllSettings();
+  const { data: station } = useMyStation();
+  const policy = useMemo(() => resolveRiskPolicy(settings), [settings]);
+  const subject = {
+    vehiclePlate,
+    driverId,
+    transporterId,
+    stationId: station?.id,
+    convictionLookbackMonths: policy.convictionLookbackMonths,
+  };
+  const vehicleQuery = useVehicleRiskEvidence(subject);
+  const offenderQuery = useOffenderRiskEvidence(subject);
+
+  const vehicleRisk = useMemo(
+    () => vehicleQuery.data && scoreRisk(vehicleQuery.data, policy),
+    [vehicleQuery.data, policy],
+  );
+  const scores = useMemo(
+    () => [
+      { title: 'Vehicle', risk: vehicleRisk, isLoading: vehicleQuery.isLoading, isError: vehicleQuery.isError },
+      {
+        title: 'Driver',
+        risk: offenderQuery.data?.driver && scoreRisk(offenderQuery.data.driver, policy),
+        isLoading: offenderQuery.isLoading,
+        isError: offenderQuery.isError && !!driverId,
+      },
+      {
+        title: 'Transporter',
+        risk: offenderQuery.data?.transporter && scoreRisk(offenderQuery.data.transporter, policy),
+        isLoading: offenderQuery.isLoading,
+        isError: offenderQuery.isError && !!transporterId,
+      },
+    ],
+    [vehicleRisk, vehicleQuery.isLoading, vehicleQuery.isError, offenderQuery.data, offenderQuery.isLoading, offenderQuery.isError, driverId, transporterId, policy],
+  );
+
+  const inspectionKey = transactionId ?? vehiclePlate;
+  const [inspectedKey, setInspectedKey] = useState<string | null>(null);
+  const [findings, setFindings] = useState('');
+  // Same threshold as useVehicleRiskEvidence: a shorter plate isn't looked up, so there's no score to wait for.
+  const scoreUnknown = policy.fullInspectionForHighRisk && vehiclePlate.trim().length >= 5 && !vehicleRisk;
+  const inspectionRequired = requiresFullInspection(vehicleRisk, policy) || scoreUnknown;
+  const inspectionPending = inspectionRequired && inspectedKey !== inspectionKey;
+
+  useEffect(() => {
+    onInspectionPendingChange?.(inspectionPending);
+  }, [inspectionPending, onInspectionPendingChange]);
+
+  const recordInspection = () => {
+    void auditClientEvent({
+      action: 'FullInspectionRecorded',
+      resourceType: 'WeighingTransaction',
+      resourceId: transactionId,
+      resourceName: vehiclePlate,
+      success: true,
+      details: {
+        findings: findings.trim(),
+        riskScore: vehicleRisk?.score,
+        riskFactors: vehicleRisk?.factors.map((f) => `${f.label}: ${f.count}`),
+        riskScoreUnavailable: scoreUnknown,
+        stationCode: station?.code,
+      },
+      occurredAt: new Date().toISOString(),
+    });
+    setInspectedKey(inspectionKey);
+    setFindings('');
+    toast.success('Full inspection recorded');
+  };
+
+  if (!vehiclePlate && !driverId && !transporterId) return null;
+
+  return (
+    <Card className={inspectionPending ? 'border-red-300' : 'border-gray-200'}>
+      <CardHeader className="pb-2 pt-4 px-4">
+        <CardTitle className="flex items-center gap-2 text-sm font-semibold">
+          <ShieldAlert className="h-4 w-4 text-gray-500" />
+          Offender risk
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-4 space-y-3">
+        <div className="grid gap-3 sm:grid-cols-3">
+          {scores.map(({ title, risk, isLoading, isError }) => (
+            <div key={title} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium text-gray-600">{title}</span>
+                {risk && <RiskScoreBadge risk={risk} className="text-[10px]" />}
+              </div>
+              {isLoading ? (
+                <Skeleton className="h-8 w-full" />
+              ) : risk ? (
+                <RiskFactorList risk={risk} />
+              ) : isError ? (
+                <p className="text-xs text-muted-foreground">Unavailable — the record couldn&apos;t be loaded</p>
+              ) : (
+                <p className="text-xs text-muted-foreground">Not selected</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {inspectionRequired && scoreUnknown && vehicleQuery.isLoading && inspectionPending ? (
+          <div className="rounded-md border border-amber-200 bg-amber-50 p-3">
+            <p className="text-sm font-medium text-amber-800">
+              Checking the vehicle&apos;s record — the weighing is held until its risk score is known
+            </p>
+          </div>
+        ) : inspectionRequired && (
+          <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-2">
+            <p className="text-sm font-medium text-red-800">
+              {!inspectionPending
+                ? 'Full inspection recorded'
+                : scoreUnknown
+                  ? 'Risk score unavailable — a full inspection is required before the vehicle can proceed'
+                  : 'High-risk vehicle — a full inspection is required before it can proceed'}
+            </p>
+            {inspectionPending && (
+              <>
+                <Label htmlFor="risk-inspection-findings" className="text-xs">Inspection findings</Label>
+                <Textarea
+                  id="risk-inspection-findings"
+                  value={findings}
+                  onChange={(e) => setFindings(e.target.value)}
+                  placeholder="e.g. Cargo matches manifest; seals intact; no concealed axle lifts"
+                  rows={2}
+                  className="bg-white"
+                />
+                <Button size="sm" onClick={recordInspection} disabled={findings.trim().length < 10}>
+                  <ClipboardCheck className="h-4 w-4 mr-2" />
+                  Record full inspection
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useMemo, useState } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  LAB_READING_LABELS,
+  computeQualityDeduction,
+  getRequiredReadings,
+  type LabReadings,
+  type QualityDeductionBreakdown,
+} from '@/lib/quality-deduction';
+import { cn } from '@/lib/utils';
+import { formatWeight } from '@/lib/weighing-utils';
+import type { QualityDeductionRule } from '@/types/weighing';
+
+/**
+ * QualityDeductionBreakdownTable - Rule-by-rule deduction lines and total
+ */
+export function QualityDeductionBreakdownTable({
+  breakdown,
+  className,
+}: {
+  breakdown: QualityDeductionBreakdown;
+  className?: string;
+}) {
+  return (
+    <table className={cn('w-full text-sm', className)}>
+      <thead>
+        <tr className="text-xs text-gray-500 border-b">
+          <th className="text-left font-medium py-1">Rule</th>
+          <th className="text-left font-medium py-1">Basis</th>
+          <th className="text-right font-medium py-1">Deduct</th>
+          <th className="text-right font-medium py-1">kg</th>
+        </tr>
+      </thead>
+      <tbody>
+        {breakdown.lines.map((line) => (
+          <tr key={line.ruleId} className="border-b border-gray-100">
+            <td className="py-1">{line.label}</td>
+            <td className="py-1 text-gray-600">{line.basis}</td>
+            <td className="py-1 text-right font-mono">{Number(line.deductPct.toFixed(2))}%</td>
+            <td className="py-1 text-right font-mono">{formatWeight(line.deductionKg)}</td>
+          </tr>
+        ))}
+        <tr className="font-semibold">
+          <td className="pt-2" colSpan={3}>
+            Total deduction on {formatWeight(breakdown.netWeightKg)} kg net
+          </td>
+          <td className="pt-2 text-right font-mono">{formatWeight(breakdown.totalKg)}</td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
+
+interface QualityLabReadingsProps {
+  /** Rules that apply to this trip's cargo */
+  rules: QualityDeductionRule[];
+  netWeightKg: number;
+  /** Breakdown already stored on the transaction, if any */
+  applied: QualityDeductionBreakdown | null;
+  onApply: (breakdown: QualityDeductionBreakdown) => void;
+  isApplying: boolean;
+}
+
+/**
+ * QualityLabReadings - Enter lab readings after the second weight and apply the computed deduction
+ */
+export function QualityLabReadings({ rules, netWeightKg, applied, onApply, isApplying }: QualityLabReadingsProps) {
+  const readingKeys = useMemo(() => getRequiredReadings(rules), [rules]);
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(Object.entries(applied?.readings ?? {}).map(([k, v]) => [k, String(v)]))
+  );
+
+  const readings: LabReadings = Object.fromEntries(
+    readingKeys.filter((k) => values[k] !== undefined && values[k] !== '').map((k) => [k, parseFloat(values[k])])
+  );
+  const breakdown = computeQualityDeduction(netWeightKg, rules, readings);
+  const allEntered = readingKeys.every((k) => readings[k] != null && !isNaN(readings[k]!) && readings[k]! >= 0);
+  const isApplied =
+    applied != null &&
+    applied.netWeightKg === netWeightKg &&
+    applied.totalKg === breakdown.totalKg &&
+    JSON.stringify(applied.readings) === JSON.stringify(readings);
+
+  return (
+    <Card className="border-gray-200">
+      <CardContent className="p-3 space-y-3">
+        <Label className="flex items-center gap-1.5 text-sm">
+          <FlaskConical className="h-4 w-4 text-gray-500" />
+          Lab readings
+        </Label>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {readingKeys.map((key) => (
+            <div key={key} className="space-y-1">
+              <Label className="text-xs text-gray-500">{LAB_READING_LABELS[key]} (%)</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={values[key] ?? ''}
+                onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                disabled={isApplying}
+              />
+            </div>
+          ))}
+        </div>
+        {breakdown.lines.length > 0 && <QualityDeductionBreakdownTable breakdown={breakdown} />}
+        <div className="flex items-center justify-end gap-3">
+          {isApplied && <span className="text-xs text-green-700">Applied to ticket</span>}
+          <Button size="sm" onClick={() => onApply(breakdown)} disabled={!allEntered || isApplied || isApplying}>
+            {isApplying ? 'Applying...' : `Apply ${formatWeight(breakdown.totalKg)} kg deduction`}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
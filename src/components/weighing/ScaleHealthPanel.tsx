@@ -5,7 +5,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
 import { ScaleStatus } from '@/types/weighing';
-import { AlertCircle, Battery, Clock, RefreshCw, Scale, Signal, Thermometer } from 'lucide-react';
+import { Activity, AlertCircle, Battery, Clock, RefreshCw, Scale, Signal, Thermometer } from 'lucide-react';
 import Image from 'next/image';
 
 function getScaleStatusImage(isConnected: boolean, connectedCount: number, totalCount: number) {
@@ -67,6 +67,10 @@ interface ScaleHealthPanelProps {
   onMoveForward?: () => void;
   onMoveBack?: () => void;
   onStop?: () => void;
+  /** Opens the per-deck diagnostics recorder (multideck) */
+  onOpenDiagnostics?: () => void;
+  /** A diagnostics recording is running - shows a REC dot on the button */
+  diagnosticsRecording?: boolean;
 }
 
 /**
@@ -100,6 +104,8 @@ export function ScaleHealthPanel({
   showOnlyConnectionCard = false,
   middlewareSynced = true,
   simulation = false,
+  onOpenDiagnostics,
+  diagnosticsRecording = false,
 }: ScaleHealthPanelProps) {
   // Derive display labels based on mode
   const isIndicatorMode = displayMode === 'indicator';
@@ -340,20 +346,43 @@ export function ScaleHealthPanel({
           </div>
         </div>
 
-        {/* Action Button */}
-        {onChangeWeighingType && (
-          <Button
-            onClick={onChangeWeighingType}
-            size={compact ? 'sm' : 'default'}
-            variant="outline"
-            className={cn(
-              'relative z-10 font-bold transition-all border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-gray-900 hover:border-gray-300 w-full sm:w-auto shadow-sm active:scale-95',
-              compact ? 'text-[11px] h-8 px-3' : 'text-sm h-10 px-4'
+        {/* Action Buttons */}
+        {(onChangeWeighingType || onOpenDiagnostics) && (
+          <div className="relative z-10 flex w-full sm:w-auto gap-2">
+            {onOpenDiagnostics && (
+              <Button
+                onClick={onOpenDiagnostics}
+                size={compact ? 'sm' : 'default'}
+                variant="outline"
+                title="Record deck readings for the scale vendor"
+                className={cn(
+                  'font-bold transition-all border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-gray-900 hover:border-gray-300 flex-1 sm:flex-none shadow-sm active:scale-95',
+                  compact ? 'text-[11px] h-8 px-3' : 'text-sm h-10 px-4'
+                )}
+              >
+                {diagnosticsRecording ? (
+                  <span className="mr-1.5 h-2 w-2 rounded-full bg-red-500 animate-pulse" />
+                ) : (
+                  <Activity className="mr-1.5 h-3.5 w-3.5" />
+                )}
+                {diagnosticsRecording ? 'REC' : 'Diagnostics'}
+              </Button>
             )}
-          >
-            <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
-            Switch Mode
-          </Button>
+            {onChangeWeighingType && (
+              <Button
+                onClick={onChangeWeighingType}
+                size={compact ? 'sm' : 'default'}
+                variant="outline"
+                className={cn(
+                  'font-bold transition-all border-gray-200 text-gray-700 hover:bg-gray-50 hover:text-gray-900 hover:border-gray-300 flex-1 sm:flex-none shadow-sm active:scale-95',
+                  compact ? 'text-[11px] h-8 px-3' : 'text-sm h-10 px-4'
+                )}
+              >
+                <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
+                Switch Mode
+              </Button>
+            )}
+          </div>
         )}
       </CardContent>
     </Card>
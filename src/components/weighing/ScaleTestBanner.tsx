@@ -2,8 +2,9 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import type { DriftGate } from '@/lib/calibration-drift';
 import { cn } from '@/lib/utils';
-import { AlertTriangle, CheckCircle2, Scale, RefreshCw, Play } from 'lucide-react';
+import { AlertTriangle, Ban, CheckCircle2, Scale, RefreshCw, Play, TrendingUp } from 'lucide-react';
 
 interface ScaleTestBannerProps {
   isScaleTestCompleted: boolean;
@@ -12,6 +13,8 @@ interface ScaleTestBannerProps {
   className?: string;
   /** Compact mode for inline display in 2-column layouts */
   compact?: boolean;
+  /** Calibration drift gate for this station/bound (blocks or warns on top of the daily test) */
+  drift?: DriftGate | null;
 }
 
 /** Same success message for scale test pass on both mobile and multideck */
@@ -26,6 +29,9 @@ export const SCALE_TEST_SUCCESS_DESCRIPTION = 'Weighing operations are now enabl
  *
  * Redesigned for modern, compact appearance with icon, status, and action button.
  * Parent opens ScaleTestModal with weighingMode="mobile" or "multideck" as appropriate.
+ *
+ * When `drift` is blocked (scale out of calibration tolerance, measured or by trend) the banner
+ * shows the block instead of the pass state; a drift warning is shown under the status text.
  */
 export function ScaleTestBanner({
   isScaleTestCompleted,
@@ -33,6 +39,7 @@ export function ScaleTestBanner({
   onStartScaleTest,
   className,
   compact = false,
+  drift,
 }: ScaleTestBannerProps) {
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-US', {
@@ -41,6 +48,43 @@ export function ScaleTestBanner({
     });
   };
 
+  if (drift?.blocked) {
+    return (
+      <Card className={cn('shadow-md overflow-hidden border-red-200 bg-gradient-to-br from-red-50/80 to-white', className)}>
+        <CardContent className={cn('flex items-center justify-between gap-4', compact ? 'p-3' : 'p-4')}>
+          <div className="flex items-center gap-4 min-w-0">
+            <div className={cn(
+              'flex flex-shrink-0 items-center justify-center rounded-xl shadow-sm ring-4 bg-red-100 ring-red-50 text-red-600',
+              compact ? 'w-10 h-10' : 'w-12 h-12'
+            )}>
+              <Ban className={cn(compact ? 'h-5 w-5' : 'h-6 w-6')} />
+            </div>
+            <div className="min-w-0">
+              <h3 className={cn('font-bold tracking-tight mb-0.5 text-red-900', compact ? 'text-sm' : 'text-base')}>
+                Calibration Required
+              </h3>
+              <p className={cn('font-medium text-red-700', compact ? 'text-[10px]' : 'text-xs')}>
+                {drift.message}
+              </p>
+            </div>
+          </div>
+          <Button
+            onClick={onStartScaleTest}
+            size={compact ? 'sm' : 'default'}
+            variant="outline"
+            className={cn(
+              'font-bold shadow-sm border-red-200 bg-white text-red-700 hover:bg-red-50',
+              compact ? 'text-[11px] h-8 px-3' : 'text-sm px-5'
+            )}
+          >
+            <RefreshCw className={cn('mr-1.5 h-3.5 w-3.5', compact ? 'hidden' : 'inline')} />
+            Retest
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   const isCompleted = isScaleTestCompleted && lastTestAt;
 
   return (
@@ -94,6 +138,14 @@ export function ScaleTestBanner({
                   : 'Test scales before weighing for maximum accuracy'}
               </p>
             </div>
+            {drift?.warning && (
+              <div className="mt-1 flex items-start gap-1.5">
+                <TrendingUp className="h-3 w-3 mt-0.5 flex-shrink-0 text-amber-600" />
+                <p className={cn('font-medium text-amber-700', compact ? 'text-[10px]' : 'text-xs')}>
+                  {drift.message}
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,113 @@
+"use client";
+
+import { format } from 'date-fns';
+import { AlertTriangle, Ban, Check, Clock, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { TareEvaluation } from '@/lib/tare-policy';
+import { cn } from '@/lib/utils';
+import { formatWeight } from '@/lib/weighing-utils';
+
+const SOURCE_LABEL: Record<TareEvaluation['source'], string> = {
+  stored: 'Stored',
+  history: 'Tare history',
+  preset: 'Preset',
+};
+
+interface StoredTareCandidatesProps {
+  evaluations: TareEvaluation[];
+  suggestedId: string | null;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * StoredTareCandidates - Pick the stored tare to reuse on the second pass
+ *
+ * Lists the vehicle's tares as evaluated by the organisation's tare policy. Expired and anomalous
+ * tares are shown with the reason but cannot be selected.
+ */
+export function StoredTareCandidates({
+  evaluations,
+  suggestedId,
+  selectedId,
+  onSelect,
+  disabled,
+  className,
+}: StoredTareCandidatesProps) {
+  if (evaluations.length === 0) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">Stored tares</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {evaluations.map((e) => {
+          const selected = e.id === selectedId;
+          return (
+            <button
+              key={e.id}
+              type="button"
+              disabled={disabled || !e.usable}
+              onClick={() => onSelect(e.id)}
+              className={cn(
+                'w-full rounded-lg border p-2.5 text-left transition-colors',
+                !e.usable
+                  ? 'cursor-not-allowed border-red-200 bg-red-50/60'
+                  : selected
+                    ? 'border-blue-500 bg-blue-50'
+                    : 'border-gray-200 hover:border-blue-300'
+              )}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  {e.usable ? (
+                    selected ? <Check className="h-4 w-4 text-blue-600" /> : <span className="h-4 w-4" />
+                  ) : (
+                    <Ban className="h-4 w-4 text-red-600" />
+                  )}
+                  <span className={cn('font-mono font-semibold', !e.usable && 'text-gray-500 line-through')}>
+                    {formatWeight(e.tareWeightKg)} kg
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    {SOURCE_LABEL[e.source]}
+                    {e.weighedAt && ` · ${format(new Date(e.weighedAt), 'dd MMM yyyy')}`}
+                    {e.setAt && ` · set ${format(new Date(e.setAt), 'dd MMM yyyy')}`}
+                    {e.stationName && ` · ${e.stationName}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1.5">
+                  {e.id === suggestedId && (
+                    <Badge className="bg-blue-100 text-blue-700 hover:bg-blue-100">
+                      <Sparkles className="mr-1 h-3 w-3" />
+                      Suggested
+                    </Badge>
+                  )}
+                  {e.status === 'expired' && <Badge variant="destructive">Expired</Badge>}
+                  {e.status === 'anomalous' && <Badge variant="destructive">Anomalous</Badge>}
+                  {e.status === 'expiring' && (
+                    <Badge className="bg-yellow-100 text-yellow-800 hover:bg-yellow-100">Expiring</Badge>
+                  )}
+                </div>
+              </div>
+              {e.reason && (
+                <p
+                  className={cn(
+                    'mt-1 flex items-center gap-1 pl-6 text-xs',
+                    e.usable ? 'text-yellow-700' : 'text-red-700'
+                  )}
+                >
+                  {e.status === 'anomalous' ? <AlertTriangle className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+                  {e.reason}
+                </p>
+              )}
+            </button>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
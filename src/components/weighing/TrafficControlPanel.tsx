@@ -0,0 +1,163 @@
+"use client";
+
+import { format } from 'date-fns';
+import { ArrowLeft, ArrowRight, Play, Square, TrafficCone } from 'lucide-react';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import type { TrafficControl } from '@/hooks/useTrafficControl';
+import { TRAFFIC_SIGNAL_LABELS, type TrafficPhase, type TrafficSignal } from '@/lib/truconnect/trafficControl';
+import { cn } from '@/lib/utils';
+
+const PHASE_LABELS: Record<TrafficPhase, string> = {
+  idle: 'Waiting for vehicle',
+  entering: 'Entering',
+  positioning: 'Positioning',
+  positioned: 'Positioned',
+  done: 'Vehicle left',
+};
+
+const SIGNAL_STYLES: Record<TrafficSignal, string> = {
+  enter: 'text-green-700',
+  'move-forward': 'text-green-700',
+  'move-back': 'text-blue-700',
+  stop: 'text-red-700',
+};
+
+interface TrafficControlPanelProps {
+  traffic: TrafficControl;
+  className?: string;
+}
+
+/**
+ * TrafficControlPanel - Approach lights for the multideck platform
+ *
+ * Shows deck occupancy against the decks the station layout expects, the auto/manual switch,
+ * the four signal buttons (pressing one in auto mode takes over manually) and the timeline of
+ * every signal sent this session.
+ */
+export function TrafficControlPanel({ traffic, className }: TrafficControlPanelProps) {
+  const { mode, phase, occupied, expectedDecks, layout, log, connected } = traffic;
+  const loaded = occupied.filter(Boolean).length;
+  const decks = occupied.length ? occupied : Array<boolean>(layout.deckCount).fill(false);
+
+  return (
+    <Card className={cn('border-gray-200', className)}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <TrafficCone className="h-4 w-4 text-orange-500" />
+            <span className="text-sm font-semibold text-gray-900">Traffic Control</span>
+            {mode === 'auto' ? (
+              <Badge variant="outline" className="border-green-300 bg-green-50 text-green-700 text-[10px]">
+                {PHASE_LABELS[phase]}
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-[10px]">Manual</Badge>
+            )}
+            {!connected && (
+              <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-700 text-[10px]">
+                TruConnect offline
+              </Badge>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="traffic-auto" className="text-xs text-gray-600">Auto sequencing</Label>
+            <Switch
+              id="traffic-auto"
+              checked={mode === 'auto'}
+              onCheckedChange={(on) => traffic.setMode(on ? 'auto' : 'manual')}
+            />
+          </div>
+        </div>
+
+        {/* Deck occupancy: exit deck on the right */}
+        <div className="flex items-center gap-3">
+          <div className="flex gap-1">
+            {decks.map((on, i) => (
+              <div
+                key={i}
+                className={cn(
+                  'h-6 w-10 rounded border text-[10px] font-medium flex items-center justify-center',
+                  on ? 'bg-green-500 border-green-600 text-white' : 'bg-gray-50 border-gray-200 text-gray-400',
+                  i >= expectedDecks && 'border-dashed'
+                )}
+                title={i < expectedDecks ? 'Expected to be loaded' : 'Not expected for this layout'}
+              >
+                D{i + 1}
+              </div>
+            ))}
+          </div>
+          <span className="text-xs text-gray-500">
+            {loaded} of {expectedDecks} expected decks loaded
+          </span>
+        </div>
+
+        <div className="flex flex-wrap gap-1">
+          <Button size="sm" onClick={() => traffic.sendManual('enter')} className="bg-green-600 hover:bg-green-700">
+            <Play className="h-4 w-4 mr-1" />
+            ENTER
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => traffic.sendManual('move-forward')}
+            className="border-green-400 text-green-700 hover:bg-green-50"
+          >
+            <ArrowRight className="h-4 w-4 mr-1" />
+            MOVE FORWARD
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => traffic.sendManual('move-back')}
+            className="border-blue-400 text-blue-700 hover:bg-blue-50"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            MOVE BACK
+          </Button>
+          <Button size="sm" onClick={() => traffic.sendManual('stop')} className="bg-red-600 hover:bg-red-700">
+            <Square className="h-4 w-4 mr-1" />
+            STOP
+          </Button>
+        </div>
+
+        {/* Signal timeline, newest first */}
+        <div className="rounded border border-gray-100">
+          <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-100 bg-gray-50">
+            <span className="text-[11px] font-medium uppercase tracking-wide text-gray-500">Signal timeline</span>
+            {log.length > 0 && (
+              <button type="button" onClick={traffic.clearLog} className="text-[11px] text-gray-500 hover:text-gray-700">
+                Clear
+              </button>
+            )}
+          </div>
+          {log.length === 0 ? (
+            <p className="px-3 py-3 text-xs text-gray-400">No signals sent yet.</p>
+          ) : (
+            <ScrollArea className="h-32">
+              <ul className="divide-y divide-gray-50">
+                {log.map((entry) => (
+                  <li key={entry.id} className="flex items-center gap-3 px-3 py-1.5 text-xs">
+                    <span className="font-mono text-gray-500">{format(entry.at, 'HH:mm:ss')}</span>
+                    <span className={cn('w-24 font-semibold', SIGNAL_STYLES[entry.signal])}>
+                      {TRAFFIC_SIGNAL_LABELS[entry.signal]}
+                    </span>
+                    <span className="font-mono tracking-widest text-gray-600">{entry.occupancy}</span>
+                    <Badge variant="outline" className="text-[10px]">{entry.source === 'auto' ? 'Auto' : 'Operator'}</Badge>
+                    <span className="flex-1 truncate text-gray-500">{entry.reason}</span>
+                    {!entry.delivered && <span className="text-amber-600">not sent (offline)</span>}
+                  </li>
+                ))}
+              </ul>
+            </ScrollArea>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
 } from '@/types/weighing';
 import { AlertCircle, BookOpen, Building2, Car, CheckCircle2, Eye, FileText, Loader2, Locate, MapPin, Package, Pencil, Plus, RefreshCw, Scan, Truck, User } from 'lucide-react';
 import * as React from 'react';
+import { WantedVehicleAlert } from './WantedVehicleAlert';
 
 const VEHICLE_MAKES = [
   'ISUZU', 'HINO', 'SCANIA', 'VOLVO', 'MAN', 'MERCEDES', 'DAF', 'RENAULT',
@@ -455,6 +456,7 @@ export function VehicleDetailsCard({
 
   // Get selected vehicle details for display
   const selectedVehicle = vehicles.find(v => v.id === selectedVehicleId);
+  const selectedDriver = drivers.find(d => d.id === selectedDriverId);
 
   return (
     <Card className={cn('border border-gray-200 rounded-xl', className, fillHeightAndScroll && 'flex flex-col h-full min-h-0')}>
@@ -474,6 +476,18 @@ export function VehicleDetailsCard({
           downloadFileName={`Permit_${foundPermit?.permitNo}.pdf`}
         />
 
+        {/* Warrant watch-list check on the plate and selected driver */}
+        {!isCommercial && !isReadOnly && (
+          <WantedVehicleAlert
+            source="Vehicle details"
+            subject={{
+              vehicleRegNumber: vehiclePlate,
+              driverIdNumber: selectedDriver?.idNumber,
+              driverLicenseNo: selectedDriver?.drivingLicenseNo,
+            }}
+          />
+        )}
+
         {/* Act selection moved to top for visibility */}
         {!isCommercial && acts.length > 0 && onActIdChange && (
           <div className="space-y-2 p-3 bg-blue-50/50 rounded-lg border border-blue-100">
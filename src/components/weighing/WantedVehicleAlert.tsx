@@ -0,0 +1,288 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useExecuteWatchListWarrant, useWarrantWatchList } from '@/hooks/queries/useArrestWarrantQueries';
+import { useMyStation } from '@/hooks/queries/useWeighingQueries';
+import { useAuth } from '@/hooks/useAuth';
+import { useGeolocation } from '@/hooks/useGeolocation';
+import { auditClientEvent } from '@/lib/offline/clientAudit';
+import { matchWarrants, WARRANT_MATCH_LABELS, warrantAlertKey, type WarrantSubject } from '@/lib/warrant-watch';
+import { Gavel, Loader2, ShieldAlert } from 'lucide-react';
+
+/** Alerts already executed or overridden this session, so the same stop doesn't re-alert on every keystroke. */
+const handledAlerts = new Set<string>();
+
+interface WantedVehicleAlertProps {
+  subject: WarrantSubject;
+  /** Where the identifiers came from, recorded with the audit event (e.g. "ANPR", "Vehicle details"). */
+  source: string;
+}
+
+/**
+ * Blocking alert raised when the vehicle or driver at the station is on the warrant watch-list.
+ * Can't be dismissed without either executing the warrant or recording why it doesn't apply.
+ */
+export function WantedVehicleAlert({ subject, source }: WantedVehicleAlertProps) {
+  const { user } = useAuth();
+  const { data: watchList = [] } = useWarrantWatchList();
+  const { data: station } = useMyStation();
+  const { position, refresh: refreshPosition, isSupported: isGeolocationSupported } = useGeolocation();
+  const executeWarrant = useExecuteWatchListWarrant();
+
+  const [handled, setHandled] = useState(0);
+  const [mode, setMode] = useState<'alert' | 'execute' | 'override'>('alert');
+  const [location, setLocation] = useState('');
+  const [details, setDetails] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+  // One Idempotency-Key per warrant shown: a retried or re-submitted execution reuses it.
+  const executionKeyRef = useRef<{ warrantId: string; key: string } | null>(null);
+
+  const { vehicleRegNumber, driverIdNumber, driverLicenseNo } = subject;
+  const match = useMemo(
+    () => matchWarrants(watchList, { vehicleRegNumber, driverIdNumber, driverLicenseNo })
+      .find((m) => !handledAlerts.has(warrantAlertKey(m.warrant.warrantId, { vehicleRegNumber, driverIdNumber, driverLicenseNo }))),
+    // `handled` re-runs the lookup after an alert is closed so the next match (if any) shows.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [watchList, vehicleRegNumber, driverIdNumber, driverLicenseNo, handled],
+  );
+  const warrant = match?.warrant;
+
+  useEffect(() => {
+    setMode('alert');
+    setDetails('');
+    setOverrideReason('');
+  }, [warrant?.warrantId]);
+
+  useEffect(() => {
+    if (!warrant) return;
+    void auditClientEvent({
+      action: 'WantedAlertRaised',
+      resourceType: 'ArrestWarrant',
+      resourceId: warrant.warrantId,
+      resourceName: warrant.warrantNo,
+      success: true,
+      details: { source, matchedOn: match?.matchedOn, ...subject, stationCode: station?.code },
+      occurredAt: new Date().toISOString(),
+    });
+    // Once per warrant shown, not on every subject or station re-render.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [warrant?.warrantId]);
+
+  if (!match || !warrant) return null;
+
+  const close = () => {
+    handledAlerts.add(warrantAlertKey(warrant.warrantId, subject));
+    setHandled((n) => n + 1);
+  };
+
+  const openExecute = () => {
+    setLocation(station ? [station.name, station.location].filter(Boolean).join(', ') : '');
+    if (isGeolocationSupported && station?.latitude == null) refreshPosition();
+    setMode('execute');
+  };
+
+  const handleExecute = async () => {
+    const latitude = station?.latitude ?? position?.latitude;
+    const longitude = station?.longitude ?? position?.longitude;
+    try {
+      if (executionKeyRef.current?.warrantId !== warrant.warrantId) {
+        executionKeyRef.current = { warrantId: warrant.warrantId, key: crypto.randomUUID() };
+      }
+      const { queued } = await executeWarrant.mutateAsync({
+        warrant,
+        idempotencyKey: executionKeyRef.current.key,
+        request: {
+          executionDetails: details.trim(),
+          executionDate: new Date().toISOString(),
+          executionLocation: location.trim(),
+          executedAtStationId: station?.id,
+          executingOfficerId: user?.id,
+          latitude,
+          longitude,
+        },
+      });
+      toast.success(
+        queued
+          ? `Warrant ${warrant.warrantNo} executed — offline, it will sync when the connection is back`
+          : `Warrant ${warrant.warrantNo} executed`,
+      );
+      close();
+    } catch (err) {
+      toast.error(err instanceof Error ? `Could not execute warrant: ${err.message}` : 'Could not execute warrant');
+    }
+  };
+
+  const handleOverride = () => {
+    void auditClientEvent({
+      action: 'WantedAlertOverridden',
+      resourceType: 'ArrestWarrant',
+      resourceId: warrant.warrantId,
+      resourceName: warrant.warrantNo,
+      success: false,
+      denialReason: overrideReason.trim(),
+      details: { source, matchedOn: match.matchedOn, ...subject, stationCode: station?.code },
+      occurredAt: new Date().toISOString(),
+    });
+    close();
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent
+        className="max-w-lg border-red-300"
+        onEscapeKeyDown={(e) => e.preventDefault()}
+      >
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2 text-red-700">
+            <ShieldAlert className="h-5 w-5" />
+            Wanted — active arrest warrant
+          </AlertDialogTitle>
+          <AlertDialogDescription>
+            Matched on{' '}
+            {match.matchedOn.map((f) => (
+              <Badge key={f} variant="destructive" className="mr-1">
+                {WARRANT_MATCH_LABELS[f]}
+              </Badge>
+            ))}
+            . Do not release the vehicle until this is dealt with.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 rounded-md border border-red-200 bg-red-50 p-3 text-sm">
+          <dt className="text-muted-foreground">Warrant no.</dt>
+          <dd className="font-medium">{warrant.warrantNo}</dd>
+          <dt className="text-muted-foreground">Accused</dt>
+          <dd className="font-medium">
+            {warrant.accusedName}
+            {warrant.accusedIdNo && <span className="text-muted-foreground"> · ID {warrant.accusedIdNo}</span>}
+          </dd>
+          {warrant.driverLicenseNo && (
+            <>
+              <dt className="text-muted-foreground">Licence</dt>
+              <dd>{warrant.driverLicenseNo}</dd>
+            </>
+          )}
+          {warrant.vehicleRegNumber && (
+            <>
+              <dt className="text-muted-foreground">Vehicle</dt>
+              <dd>{warrant.vehicleRegNumber}</dd>
+            </>
+          )}
+          {warrant.offenceDescription && (
+            <>
+              <dt className="text-muted-foreground">Offence</dt>
+              <dd>{warrant.offenceDescription}</dd>
+            </>
+          )}
+          <dt className="text-muted-foreground">Issued</dt>
+          <dd>
+            {new Date(warrant.issuedDate).toLocaleDateString('en-KE')}
+            {warrant.issuedBy && ` by ${warrant.issuedBy}`}
+          </dd>
+          {warrant.caseNo && (
+            <>
+              <dt className="text-muted-foreground">Case</dt>
+              <dd>{warrant.caseNo}</dd>
+            </>
+          )}
+        </dl>
+
+        {mode === 'execute' && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="warrant-location">Location of arrest</Label>
+              <Input id="warrant-location" value={location} onChange={(e) => setLocation(e.target.value)} />
+              {(station?.latitude ?? position?.latitude) != null && (
+                <p className="text-xs text-muted-foreground">
+                  GPS {(station?.latitude ?? position?.latitude)?.toFixed(5)}, {(station?.longitude ?? position?.longitude)?.toFixed(5)}
+                </p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label>Executing officer</Label>
+              <p className="text-sm font-medium">{user?.fullName || user?.email || '—'}</p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="warrant-details">Execution details</Label>
+              <Textarea
+                id="warrant-details"
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                placeholder="e.g. Driver detained at the weighbridge and handed over to the station OCS"
+                rows={3}
+              />
+            </div>
+          </div>
+        )}
+
+        {mode === 'override' && (
+          <div className="space-y-1">
+            <Label htmlFor="warrant-override">Why this warrant doesn&apos;t apply</Label>
+            <Textarea
+              id="warrant-override"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+              placeholder="e.g. Vehicle has changed owner; driver's ID checked and differs"
+              rows={3}
+            />
+            <p className="text-xs text-muted-foreground">Recorded in the audit log with your name.</p>
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          {mode === 'alert' && (
+            <>
+              <Button variant="outline" onClick={() => setMode('override')}>
+                Not the wanted person
+              </Button>
+              <Button variant="destructive" onClick={openExecute}>
+                <Gavel className="h-4 w-4 mr-2" />
+                Execute warrant
+              </Button>
+            </>
+          )}
+          {mode === 'execute' && (
+            <>
+              <Button variant="outline" onClick={() => setMode('alert')} disabled={executeWarrant.isPending}>
+                Back
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleExecute}
+                disabled={!location.trim() || !details.trim() || executeWarrant.isPending}
+              >
+                {executeWarrant.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm arrest
+              </Button>
+            </>
+          )}
+          {mode === 'override' && (
+            <>
+              <Button variant="outline" onClick={() => setMode('alert')}>
+                Back
+              </Button>
+              <Button onClick={handleOverride} disabled={overrideReason.trim().length < 10}>
+                Record and continue
+              </Button>
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
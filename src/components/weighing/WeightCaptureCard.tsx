@@ -3,7 +3,9 @@
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { cn } from '@/lib/utils';
+import type { StabilityState } from '@/lib/truconnect/stability';
 import { Scale } from 'lucide-react';
+import { StabilityMeter } from './DigitalWeightDisplay';
 
 interface WeightCaptureCardProps {
   currentWeight: number;
@@ -15,6 +17,8 @@ interface WeightCaptureCardProps {
   scaleAStatus?: 'connected' | 'disconnected';
   scaleBStatus?: 'connected' | 'disconnected';
   weighingMode?: 'static' | 'dynamic';
+  /** Client-side stability of the current reading; capture is refused until settled. */
+  stability?: StabilityState;
   className?: string;
 }
 
@@ -37,6 +41,7 @@ export function WeightCaptureCard({
   scaleAStatus = 'connected',
   scaleBStatus = 'connected',
   weighingMode = 'static',
+  stability,
   className,
 }: WeightCaptureCardProps) {
   const allAxlesCaptured = capturedAxles.length === totalAxles;
@@ -56,6 +61,7 @@ export function WeightCaptureCard({
           <div className="font-mono text-5xl md:text-6xl font-bold text-yellow-400 text-center tracking-wider">
             {currentWeight.toLocaleString()}
           </div>
+          {stability && <StabilityMeter stability={stability} className="mt-4" />}
         </div>
 
         {/* Scale Status Indicators */}
@@ -8,8 +8,10 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
+import type { StabilityState } from '@/lib/truconnect/stability';
 import { cn } from '@/lib/utils';
-import { AlertTriangle, Scale } from 'lucide-react';
+import { AlertTriangle, Loader2, Scale } from 'lucide-react';
+import { StabilityMeter } from './DigitalWeightDisplay';
 
 interface AxleGroup {
   group: string;
@@ -37,6 +39,12 @@ interface WeightConfirmationModalProps {
     result: 'Legal' | 'Overload';
   };
   isLoading?: boolean;
+  /**
+   * Client-side stability of the live reading. When given, "Take Weight" is refused until it
+   * has settled and each refused attempt is reported through onCaptureRejected.
+   */
+  stability?: StabilityState;
+  onCaptureRejected?: () => void;
 }
 
 /**
@@ -55,13 +63,24 @@ export function WeightConfirmationModal({
   axleGroups,
   gvw,
   isLoading = false,
+  stability,
+  onCaptureRejected,
 }: WeightConfirmationModalProps) {
+  const isSettling = stability ? !stability.settled : false;
   const hasOverload = axleGroups.some(g => g.result === 'Overload') || gvw.result === 'Overload';
 
   const formatWeight = (weight: number) => {
     return weight.toLocaleString();
   };
 
+  const handleConfirm = () => {
+    if (isSettling) {
+      onCaptureRejected?.();
+      return;
+    }
+    onConfirm();
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-[700px] md:max-w-[800px] lg:max-w-[900px]">
@@ -170,6 +189,17 @@ export function WeightConfirmationModal({
             </table>
           </div>
 
+          {/* Stability Gate */}
+          {stability && isSettling && (
+            <div className="p-3 bg-gray-900 rounded-lg space-y-2">
+              <div className="flex items-center gap-2 text-sm text-yellow-400">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Weight is still settling — capture is blocked until the reading is stable.
+              </div>
+              <StabilityMeter stability={stability} />
+            </div>
+          )}
+
           {/* Overload Warning */}
           {hasOverload && (
             <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
@@ -194,16 +224,18 @@ export function WeightConfirmationModal({
             Cancel
           </Button>
           <Button
-            onClick={onConfirm}
+            onClick={handleConfirm}
             disabled={isLoading}
             className={cn(
               "flex-1",
-              hasOverload
+              isSettling
+                ? "bg-gray-500 hover:bg-gray-600"
+                : hasOverload
                 ? "bg-amber-600 hover:bg-amber-700"
                 : "bg-green-600 hover:bg-green-700"
             )}
           >
-            {isLoading ? 'Processing...' : 'Yes, Take Weight!'}
+            {isLoading ? 'Processing...' : isSettling ? 'Waiting for Stable Weight...' : 'Yes, Take Weight!'}
           </Button>
         </DialogFooter>
       </DialogContent>
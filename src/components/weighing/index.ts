@@ -9,9 +9,11 @@ export { ComplianceGrid } from './ComplianceGrid';
 export { DecisionPanel } from './DecisionPanel';
 export {
     AxleProgress, MobileWeightDisplay,
-    MultideckWeightDisplay
+    MultideckWeightDisplay, StabilityMeter
 } from './DigitalWeightDisplay';
+export { PreWeighRiskPanel } from './PreWeighRiskPanel';
 export { VehicleDetailsCard } from './VehicleDetailsCard';
+export { WantedVehicleAlert } from './WantedVehicleAlert';
 export { WeighingPageHeader } from './WeighingPageHeader';
 export { WeighingStepper } from './WeighingStepper';
 export { WeighingStepperNav } from './WeighingStepperNav';
@@ -52,6 +54,7 @@ export { DriverModal } from './modals/DriverModal';
 export { EntityModal } from './modals/EntityModal';
 export type { ModalMode } from './modals/EntityModal';
 export { OriginDestinationModal } from './modals/OriginDestinationModal';
+export { PlateReviewModal } from './modals/PlateReviewModal';
 export { TransporterModal } from './modals/TransporterModal';
 export { VehicleMakeModal } from './modals/VehicleMakeModal';
 export { VehicleModelModal } from './modals/VehicleModelModal';
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useCargoTypes, useTransporters } from '@/hooks/queries';
+import { normalizeRegNo } from '@/lib/commercial-contracts';
+import type { CommercialContract, CommercialContractRequest, OverDeliveryPolicy } from '@/types/weighing';
+import { EntityModal, ModalMode } from './EntityModal';
+
+const NONE = '__none__';
+
+interface CommercialContractModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  mode: ModalMode;
+  contract?: CommercialContract | null;
+  onSave: (data: CommercialContractRequest) => Promise<void>;
+  isSaving?: boolean;
+}
+
+/**
+ * CommercialContractModal - Create/Edit a delivery contract
+ *
+ * Quantities are entered in tonnes and stored in kg. Allowed vehicles are one plate per line
+ * (or comma separated); leave empty to accept any vehicle.
+ */
+export function CommercialContractModal({
+  open,
+  onOpenChange,
+  mode,
+  contract,
+  onSave,
+  isSaving = false,
+}: CommercialContractModalProps) {
+  const { data: transporters = [] } = useTransporters();
+  const { data: cargoTypes = [] } = useCargoTypes();
+
+  const [contractNo, setContractNo] = useState('');
+  const [customerName, setCustomerName] = useState('');
+  const [transporterId, setTransporterId] = useState(NONE);
+  const [cargoId, setCargoId] = useState(NONE);
+  const [targetTonnes, setTargetTonnes] = useState('');
+  const [toleranceTonnes, setToleranceTonnes] = useState('0');
+  const [policy, setPolicy] = useState<OverDeliveryPolicy>('block');
+  const [pricePerTonne, setPricePerTonne] = useState('');
+  const [currency, setCurrency] = useState('KES');
+  const [vehicles, setVehicles] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const isViewMode = mode === 'view';
+
+  useEffect(() => {
+    if (!open) return;
+    setContractNo(contract?.contractNo ?? '');
+    setCustomerName(contract?.customerName ?? '');
+    setTransporterId(contract?.transporterId ?? NONE);
+    setCargoId(contract?.cargoId ?? NONE);
+    setTargetTonnes(contract ? String(contract.targetQuantityKg / 1000) : '');
+    setToleranceTonnes(contract ? String(contract.overDeliveryToleranceKg / 1000) : '0');
+    setPolicy(contract?.overDeliveryPolicy ?? 'block');
+    setPricePerTonne(contract ? String(contract.pricePerTonne) : '');
+    setCurrency(contract?.currency ?? 'KES');
+    setVehicles(contract?.allowedVehicleRegNos.join('\n') ?? '');
+    setStartDate(contract?.startDate?.slice(0, 10) ?? '');
+    setEndDate(contract?.endDate?.slice(0, 10) ?? '');
+    setNotes(contract?.notes ?? '');
+  }, [open, contract]);
+
+  const target = parseFloat(targetTonnes);
+  const tolerance = parseFloat(toleranceTonnes || '0');
+  const price = parseFloat(pricePerTonne);
+  const isValid =
+    !!contractNo.trim() &&
+    !!customerName.trim() &&
+    target > 0 &&
+    tolerance >= 0 &&
+    price >= 0 &&
+    (!startDate || !endDate || startDate <= endDate);
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    await onSave({
+      contractNo: contractNo.trim(),
+      customerName: customerName.trim(),
+      transporterId: transporterId === NONE ? undefined : transporterId,
+      cargoId: cargoId === NONE ? undefined : cargoId,
+      targetQuantityKg: Math.round(target * 1000),
+      overDeliveryToleranceKg: Math.round(tolerance * 1000),
+      overDeliveryPolicy: policy,
+      pricePerTonne: price,
+      currency: currency.trim().toUpperCase() || 'KES',
+      allowedVehicleRegNos: Array.from(
+        new Set(vehicles.split(/[\n,]/).map(normalizeRegNo).filter(Boolean))
+      ),
+      startDate: startDate || undefined,
+      endDate: endDate || undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <EntityModal
+      open={open}
+      onOpenChange={onOpenChange}
+      mode={mode}
+      title="Contract"
+      description={mode === 'create' ? 'A customer order delivered over many trips' : undefined}
+      onSave={handleSave}
+      isSaving={isSaving}
+      isValid={isValid}
+      maxWidth="2xl"
+    >
+      <form className="grid grid-cols-1 gap-4 sm:grid-cols-2" onSubmit={(e) => e.preventDefault()}>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-no">Contract / order no. *</Label>
+          <Input id="contract-no" value={contractNo} onChange={(e) => setContractNo(e.target.value)} disabled={isViewMode} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-customer">Customer *</Label>
+          <Input id="contract-customer" value={customerName} onChange={(e) => setCustomerName(e.target.value)} disabled={isViewMode} />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Cargo</Label>
+          <Select value={cargoId} onValueChange={setCargoId} disabled={isViewMode}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Any cargo</SelectItem>
+              {cargoTypes.map((c) => (
+                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Transporter</Label>
+          <Select value={transporterId} onValueChange={setTransporterId} disabled={isViewMode}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Any transporter</SelectItem>
+              {transporters.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-target">Target quantity (t) *</Label>
+          <Input id="contract-target" type="number" min="0" step="0.001" value={targetTonnes} onChange={(e) => setTargetTonnes(e.target.value)} disabled={isViewMode} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-price">Price per tonne *</Label>
+          <div className="flex gap-2">
+            <Input id="contract-price" type="number" min="0" step="0.01" value={pricePerTonne} onChange={(e) => setPricePerTonne(e.target.value)} disabled={isViewMode} />
+            <Input aria-label="Currency" value={currency} onChange={(e) => setCurrency(e.target.value)} disabled={isViewMode} className="w-20" maxLength={3} />
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-tolerance">Over-delivery tolerance (t)</Label>
+          <Input id="contract-tolerance" type="number" min="0" step="0.001" value={toleranceTonnes} onChange={(e) => setToleranceTonnes(e.target.value)} disabled={isViewMode} />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Beyond tolerance</Label>
+          <Select value={policy} onValueChange={(v) => setPolicy(v as OverDeliveryPolicy)} disabled={isViewMode}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="block">Block the trip</SelectItem>
+              <SelectItem value="flag">Accept and flag</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-start">Start date</Label>
+          <Input id="contract-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} disabled={isViewMode} />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="contract-end">End date</Label>
+          <Input id="contract-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} disabled={isViewMode} />
+        </div>
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label htmlFor="contract-vehicles">Allowed vehicles</Label>
+          <Textarea
+            id="contract-vehicles"
+            rows={3}
+            placeholder={'One plate per line, e.g.\nKCA 123A\nKDB 456B'}
+            value={vehicles}
+            onChange={(e) => setVehicles(e.target.value)}
+            disabled={isViewMode}
+          />
+          <p className="text-xs text-muted-foreground">Leave empty to accept any vehicle.</p>
+        </div>
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label htmlFor="contract-notes">Notes</Label>
+          <Textarea id="contract-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} disabled={isViewMode} />
+        </div>
+      </form>
+    </EntityModal>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import type { PendingPlateReview } from '@/hooks/useAnprEvidence';
+import { normalizePlateText } from '@/lib/truconnect/anprEvidence';
+import { EntityModal } from './EntityModal';
+
+interface PlateReviewModalProps {
+  review: PendingPlateReview | null;
+  /** Station threshold (0–1) the read fell below. */
+  minConfidence: number;
+  /** Confirm (same plate) or correct the read; a correction needs a reason. */
+  onResolve: (finalPlate: string, reason?: string) => void;
+  /** Operator discards the read and types the plate on the capture screen instead. */
+  onDismiss: () => void;
+}
+
+const percent = (v?: number) => (v == null ? 'not reported' : `${Math.round(v * 100)}%`);
+
+/**
+ * PlateReviewModal - Low-confidence ANPR read review
+ *
+ * Shows the plate crop next to the read so the operator can confirm or correct it before the
+ * weighing moves on. The outcome is kept with the photo evidence and written to the audit trail.
+ */
+export function PlateReviewModal({ review, minConfidence, onResolve, onDismiss }: PlateReviewModalProps) {
+  const [plate, setPlate] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    setPlate(review?.plateNumber ?? '');
+    setReason('');
+  }, [review?.plateNumber]);
+
+  const corrected = !!review && normalizePlateText(plate) !== normalizePlateText(review.plateNumber);
+  const isValid = normalizePlateText(plate).length >= 5 && (!corrected || reason.trim().length > 0);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onResolve(plate.trim().toUpperCase(), reason.trim() || undefined);
+  };
+
+  return (
+    <EntityModal
+      open={!!review}
+      onOpenChange={(open) => !open && onDismiss()}
+      mode="edit"
+      title="Plate Read"
+      description={`ANPR confidence ${percent(review?.confidence)} is below the station threshold of ${percent(minConfidence)}.`}
+      onSave={handleSave}
+      isValid={isValid}
+      maxWidth="lg"
+    >
+      <form className="space-y-4" onSubmit={(e) => { e.preventDefault(); handleSave(); }}>
+        <div className="grid grid-cols-2 gap-3">
+          {[review?.imagePath, review?.overviewImagePath].map((src, i) => (
+            <div key={i} className="aspect-video overflow-hidden rounded border border-gray-200 bg-gray-50">
+              {src ? (
+                <img src={src} alt={i === 0 ? 'ANPR plate crop' : 'Overview'} className="h-full w-full object-contain" />
+              ) : (
+                <div className="flex h-full items-center justify-center text-xs text-gray-400">
+                  {i === 0 ? 'No plate image' : 'No overview image'}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1.5">
+            <Label>Camera read</Label>
+            <div className="rounded border border-gray-200 bg-gray-50 px-3 py-2 font-mono text-sm">{review?.plateNumber}</div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="plate-review-plate">Registration no. *</Label>
+            <Input
+              id="plate-review-plate"
+              value={plate}
+              onChange={(e) => setPlate(e.target.value.toUpperCase())}
+              className="font-mono"
+              autoFocus
+            />
+          </div>
+        </div>
+        {corrected && (
+          <div className="space-y-1.5">
+            <Label htmlFor="plate-review-reason">Reason for correction *</Label>
+            <Textarea
+              id="plate-review-reason"
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Camera read 0 for O, plate partly obscured"
+            />
+          </div>
+        )}
+        <p className="flex items-start gap-2 text-xs text-gray-500">
+          <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0 text-amber-500" />
+          Your name, the camera read and the plate you enter are kept with the weighing&apos;s photo evidence.
+        </p>
+      </form>
+    </EntityModal>
+  );
+}
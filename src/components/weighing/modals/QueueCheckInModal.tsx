@@ -0,0 +1,170 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useCargoTypes, useDrivers, useTransporters, useWeighingAxleConfigurations } from '@/hooks/queries';
+import { normalizePlate, type QueueArrival } from '@/lib/offline/stationQueue';
+import { EntityModal } from './EntityModal';
+
+const NONE = '__none__';
+
+interface QueueCheckInModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Bound codes of the station; the bound select is hidden when there is only one. */
+  bounds: string[];
+  defaultBound: string;
+  onSave: (arrival: QueueArrival) => void;
+}
+
+/**
+ * QueueCheckInModal - Manual check-in at the gate for vehicles the ANPR camera missed
+ *
+ * Everything but the plate is optional; what is filled in pre-fills the weighing screen.
+ */
+export function QueueCheckInModal({ open, onOpenChange, bounds, defaultBound, onSave }: QueueCheckInModalProps) {
+  const { data: axleConfigurations = [] } = useWeighingAxleConfigurations();
+  const { data: transporters = [] } = useTransporters();
+  const { data: drivers = [] } = useDrivers();
+  const { data: cargoTypes = [] } = useCargoTypes();
+
+  const [plate, setPlate] = useState('');
+  const [bound, setBound] = useState(defaultBound);
+  const [axleConfigCode, setAxleConfigCode] = useState(NONE);
+  const [transporterId, setTransporterId] = useState(NONE);
+  const [driverId, setDriverId] = useState(NONE);
+  const [cargoId, setCargoId] = useState(NONE);
+  const [trailerNo, setTrailerNo] = useState('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (!open) return;
+    setPlate('');
+    setBound(defaultBound);
+    setAxleConfigCode(NONE);
+    setTransporterId(NONE);
+    setDriverId(NONE);
+    setCargoId(NONE);
+    setTrailerNo('');
+    setNotes('');
+  }, [open, defaultBound]);
+
+  const isValid = normalizePlate(plate).length >= 5;
+  const optional = (v: string) => (v === NONE ? undefined : v);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onSave({
+      plateNumber: plate.trim().toUpperCase(),
+      bound,
+      source: 'check-in',
+      axleConfigCode: optional(axleConfigCode),
+      transporterId: optional(transporterId),
+      driverId: optional(driverId),
+      cargoId: optional(cargoId),
+      trailerNo: trailerNo.trim().toUpperCase() || undefined,
+      notes: notes.trim() || undefined,
+    });
+  };
+
+  return (
+    <EntityModal
+      open={open}
+      onOpenChange={onOpenChange}
+      mode="create"
+      title="Check-in"
+      description="Add a vehicle to the weighbridge queue"
+      onSave={handleSave}
+      isValid={isValid}
+      maxWidth="lg"
+    >
+      <form className="grid grid-cols-1 gap-4 sm:grid-cols-2" onSubmit={(e) => e.preventDefault()}>
+        <div className="space-y-1.5">
+          <Label htmlFor="checkin-plate">Registration no. *</Label>
+          <Input
+            id="checkin-plate"
+            value={plate}
+            onChange={(e) => setPlate(e.target.value.toUpperCase())}
+            placeholder="e.g. KCA 123A"
+            className="font-mono"
+            autoFocus
+          />
+        </div>
+        {bounds.length > 1 ? (
+          <div className="space-y-1.5">
+            <Label>Bound</Label>
+            <Select value={bound} onValueChange={setBound}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {bounds.map((b) => (
+                  <SelectItem key={b} value={b}>{b}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div />
+        )}
+        <div className="space-y-1.5">
+          <Label>Axle configuration</Label>
+          <Select value={axleConfigCode} onValueChange={setAxleConfigCode}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>From vehicle register</SelectItem>
+              {axleConfigurations.map((c) => (
+                <SelectItem key={c.id} value={c.axleCode}>{c.axleCode} — {c.axleName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="checkin-trailer">Trailer no.</Label>
+          <Input id="checkin-trailer" value={trailerNo} onChange={(e) => setTrailerNo(e.target.value)} className="font-mono" />
+        </div>
+        <div className="space-y-1.5">
+          <Label>Transporter</Label>
+          <Select value={transporterId} onValueChange={setTransporterId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not recorded</SelectItem>
+              {transporters.map((t) => (
+                <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Driver</Label>
+          <Select value={driverId} onValueChange={setDriverId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not recorded</SelectItem>
+              {drivers.map((d) => (
+                <SelectItem key={d.id} value={d.id}>{d.fullNames} {d.surname}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Cargo</Label>
+          <Select value={cargoId} onValueChange={setCargoId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Not recorded</SelectItem>
+              {cargoTypes.map((c) => (
+                <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5 sm:col-span-2">
+          <Label htmlFor="checkin-notes">Notes</Label>
+          <Textarea id="checkin-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+      </form>
+    </EntityModal>
+  );
+}
@@ -13,3 +13,6 @@ export { TransporterFormFields, type TransporterFormValues } from './Transporter
 export { TransporterModal } from './TransporterModal';
 export { CargoTypeModal } from './CargoTypeModal';
 export { OriginDestinationModal } from './OriginDestinationModal';
+export { CommercialContractModal } from './CommercialContractModal';
+export { QueueCheckInModal } from './QueueCheckInModal';
+export { PlateReviewModal } from './PlateReviewModal';
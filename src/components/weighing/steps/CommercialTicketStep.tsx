@@ -6,6 +6,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { CommercialNetWeightDisplay } from '@/components/weighing/CommercialNetWeightDisplay';
+import { QualityDeductionBreakdownTable } from '@/components/weighing/QualityLabReadings';
+import type { QualityDeductionBreakdown } from '@/lib/quality-deduction';
 import { cn } from '@/lib/utils';
 import { formatWeight } from '@/lib/weighing-utils';
 import type { CommercialWeighingResult } from '@/types/weighing';
@@ -26,6 +28,8 @@ interface CommercialTicketStepProps {
   onApplyQualityDeduction: () => void;
   /** Whether a quality deduction update is in progress */
   isApplyingDeduction: boolean;
+  /** Rule-based deduction from lab readings, printed with the ticket */
+  qualityBreakdown?: QualityDeductionBreakdown | null;
   /** Print ticket callback */
   onPrintTicket: () => void;
   /** Complete transaction callback */
@@ -61,6 +65,7 @@ export function CommercialTicketStep({
   onQualityDeductionChange,
   onApplyQualityDeduction,
   isApplyingDeduction,
+  qualityBreakdown,
   onPrintTicket,
   onComplete,
   onCollectPayment,
@@ -158,6 +163,14 @@ export function CommercialTicketStep({
             </div>
           )}
 
+          {/* Quality deduction breakdown from lab readings */}
+          {qualityBreakdown && result.qualityDeductionKg === qualityBreakdown.totalKg && (
+            <div className="mt-4 p-3 border border-gray-200 rounded-lg space-y-2">
+              <Label className="text-sm font-medium">Quality Deduction Breakdown</Label>
+              <QualityDeductionBreakdownTable breakdown={qualityBreakdown} />
+            </div>
+          )}
+
           {/* Quality deduction */}
           {!showDeductionForm && (
             <Button
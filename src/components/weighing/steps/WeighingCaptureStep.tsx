@@ -2,6 +2,7 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import type { DriftGate } from '@/lib/calibration-drift';
 import { StationDto } from '@/types/setup';
 import { ChevronRight, Edit3, ScanLine } from 'lucide-react';
 import React from 'react';
@@ -21,6 +22,8 @@ interface WeighingCaptureStepProps {
   isScalesConnected?: boolean;
   isScaleTestCompleted?: boolean;
   lastScaleTestAt?: Date;
+  /** Calibration drift gate for the current station/bound */
+  scaleDrift?: DriftGate | null;
   weighingType?: string;
   isSimulationMode?: boolean;
 
@@ -63,6 +66,9 @@ interface WeighingCaptureStepProps {
   onMoveForward?: () => void;
   onMoveBack?: () => void;
   onStop?: () => void;
+  /** Multideck: opens the per-deck diagnostics recorder from the indicator card */
+  onOpenDiagnostics?: () => void;
+  diagnosticsRecording?: boolean;
 
   // Station Bounds
   currentStation?: StationDto | null;
@@ -85,6 +91,7 @@ export function WeighingCaptureStep({
   isScalesConnected = false,
   isScaleTestCompleted = false,
   lastScaleTestAt,
+  scaleDrift,
   weighingType = 'mobile',
   isSimulationMode = false,
   handleResumeTransaction = noop,
@@ -122,6 +129,8 @@ export function WeighingCaptureStep({
   onMoveForward,
   onMoveBack,
   onStop,
+  onOpenDiagnostics,
+  diagnosticsRecording,
 }: WeighingCaptureStepProps) {
   return (
     <div className="space-y-4">
@@ -147,6 +156,7 @@ export function WeighingCaptureStep({
             isScaleTestCompleted={isScaleTestCompleted}
             lastTestAt={lastScaleTestAt}
             onStartScaleTest={handleStartScaleTest}
+            drift={scaleDrift}
             compact
           />
           {scales.length > 0 ? (
@@ -204,6 +214,7 @@ export function WeighingCaptureStep({
             isScaleTestCompleted={isScaleTestCompleted}
             lastTestAt={lastScaleTestAt}
             onStartScaleTest={handleStartScaleTest}
+            drift={scaleDrift}
             compact
           />
           <ScaleHealthPanel
@@ -222,6 +233,8 @@ export function WeighingCaptureStep({
             onMoveForward={onMoveForward}
             onMoveBack={onMoveBack}
             onStop={onStop}
+            onOpenDiagnostics={onOpenDiagnostics}
+            diagnosticsRecording={diagnosticsRecording}
           />
         </div>
       )}
@@ -334,7 +347,7 @@ export function WeighingCaptureStep({
           {!canProceedFromCapture && (
             <div className="px-4 py-2 bg-amber-50 border-t border-amber-200">
               <p className="text-xs text-amber-700 text-center font-medium">
-                {weighingType !== 'multideck' && !isScaleTestCompleted && '⚠ Complete scale test'}
+                {weighingType !== 'multideck' && !isScaleTestCompleted && (scaleDrift?.blocked ? '⚠ Recalibrate scale' : '⚠ Complete scale test')}
                 {weighingType !== 'multideck' && !isScaleTestCompleted && vehiclePlate.length < 5 && ' • '}
                 {vehiclePlate.length < 5 && '⚠ Enter vehicle plate (min 5 chars)'}
               </p>
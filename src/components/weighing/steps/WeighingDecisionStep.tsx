@@ -6,13 +6,17 @@ import { Card, CardContent } from '@/components/ui/card';
 import { DecisionPanel } from '../DecisionPanel';
 import { ComplianceStatus } from '@/types/weighing';
 import { ChevronLeft, WifiOff } from 'lucide-react';
+import { useTranslation } from '@/contexts/LocaleContext';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { formatWeight } from '@/lib/formatters';
 
 interface WeighingDecisionStepProps {
   ticketNumber: string;
   vehiclePlate: string;
   gvwMeasured: number;
   reweighCycleNo: number;
+  /** Re-weighs allowed for this weighing; the Re-weigh button hides once reached. */
+  maxReweighCycles?: number;
   overallStatus: ComplianceStatus;
   totalFeeUsd: number;
   totalFeeKes?: number;
@@ -54,6 +58,7 @@ export function WeighingDecisionStep({
   vehiclePlate,
   gvwMeasured,
   reweighCycleNo,
+  maxReweighCycles,
   overallStatus,
   totalFeeUsd,
   totalFeeKes,
@@ -80,6 +85,7 @@ export function WeighingDecisionStep({
   operationalToleranceKg,
 }: WeighingDecisionStepProps) {
   const isOnline = useOnlineStatus();
+  const { t } = useTranslation();
   return (
     <div className="space-y-4">
       {/* Offline: the compliance result + charges shown here were computed locally from cached
@@ -88,9 +94,8 @@ export function WeighingDecisionStep({
         <div className="flex items-start gap-2 rounded-xl border border-amber-300 bg-amber-50 p-3 text-amber-800">
           <WifiOff className="h-4 w-4 mt-0.5 shrink-0" />
           <p className="text-sm">
-            <span className="font-semibold">Provisional (offline).</span>{' '}
-            Compliance and charges were computed from cached data and queued for sync. Final figures
-            are confirmed once connectivity is restored.
+            <span className="font-semibold">{t('weighing.provisional.title')}</span>{' '}
+            {t('weighing.provisional.body')}
           </p>
         </div>
       )}
@@ -99,22 +104,22 @@ export function WeighingDecisionStep({
         <CardContent className="p-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
           <div className="flex flex-col gap-1">
             <div className="flex items-center gap-4">
-              <span className="text-sm text-gray-500">Vehicle:</span>
+              <span className="text-sm text-gray-500">{t('common.vehicle')}:</span>
               <span className="font-mono font-bold text-lg">{vehiclePlate}</span>
               <span className="text-sm text-gray-400">|</span>
-              <span className="text-sm text-gray-500">Ticket:</span>
+              <span className="text-sm text-gray-500">{t('common.ticket')}:</span>
               <span className="font-mono font-bold text-blue-600">{ticketNumber}</span>
             </div>
             <div className="flex items-center gap-4">
-              <span className="text-sm text-gray-500">GVW:</span>
+              <span className="text-sm text-gray-500">{t('weighing.summary.gvw')}:</span>
               <span className="font-mono font-bold">
-                {gvwMeasured.toLocaleString()} kg
+                {formatWeight(gvwMeasured, { unit: true })}
               </span>
             </div>
           </div>
           {reweighCycleNo > 0 && (
             <span className="text-xs bg-gray-800 text-white px-2 py-1 rounded">
-              Re-weigh: {reweighCycleNo}
+              {t('weighing.summary.reweigh', { cycle: reweighCycleNo })}
             </span>
           )}
         </CardContent>
@@ -128,6 +133,7 @@ export function WeighingDecisionStep({
         chargingCurrency={chargingCurrency}
         demeritPoints={0}
         reweighCycleNo={reweighCycleNo}
+        maxReweighCycles={maxReweighCycles}
         requiredFieldsValid={isValid}
         missingFields={missingFields}
         onFinishExit={onFinishOnly}
@@ -153,7 +159,7 @@ export function WeighingDecisionStep({
         <div className="flex justify-start">
           <Button variant="outline" onClick={onBack} className="gap-2">
             <ChevronLeft className="h-4 w-4" />
-            Back
+            {t('common.back')}
           </Button>
         </div>
       )}
@@ -2,6 +2,7 @@
 
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
+import type { AxleMatchInput } from '@/lib/axle-config-matcher';
 import { AxleConfiguration, ComplianceStatus } from '@/types/weighing';
 import { ChevronLeft, ChevronRight, Scale } from 'lucide-react';
 import React from 'react';
@@ -25,6 +26,8 @@ interface WeighingVehicleStepProps {
   onAxleSelect?: (axle: number) => void;
   /** Weight references for the selected axle config (for dynamic group rendering) */
   weightReferences?: { axlePosition: number; axleGrouping: string; tyreTypeCode?: string; axleLegalWeightKg?: number }[];
+  /** Measured weights (+ registered config) for configuration suggestions */
+  axleMatch?: AxleMatchInput;
   
   // Custom Middle Section (e.g. Mobile WeightCaptureCard or Multideck Weight Results)
   children?: React.ReactNode;
@@ -68,6 +71,7 @@ export function WeighingVehicleStep({
   currentAxle,
   onAxleSelect,
   weightReferences,
+  axleMatch,
   children,
   groupResults,
   gvwPermissible,
@@ -119,6 +123,7 @@ export function WeighingVehicleStep({
             currentAxle={currentAxle}
             onAxleSelect={onAxleSelect}
             weightReferences={weightReferences}
+            match={axleMatch}
           />
 
           {children}
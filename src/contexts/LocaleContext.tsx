@@ -0,0 +1,133 @@
+'use client';
+
+/**
+ * LocaleContext: picks the UI language and exposes `t` to components.
+ *
+ * Precedence: the user's own choice (profile page, saved on their user profile and cached per user
+ * on this device) → the organisation's `defaultLocale` → English. The choice is mirrored into
+ * lib/i18n module state so plain formatters follow it, and into <html lang>.
+ */
+
+import { getCurrentOrganization } from '@/lib/api/setup';
+import { updateProfilePreferences } from '@/lib/auth/api';
+import {
+  DEFAULT_LOCALE,
+  getActiveLocale,
+  getLocaleOption,
+  resolveLocale,
+  setActiveLocale,
+  translate,
+  type AppLocale,
+  type MessageKey,
+  type TranslateVars,
+} from '@/lib/i18n';
+import { useAuthStore } from '@/stores/auth.store';
+import { useQuery } from '@tanstack/react-query';
+import { createContext, useCallback, useContext, useEffect, useMemo, useState, type ReactNode } from 'react';
+
+interface LocaleContextValue {
+  locale: AppLocale;
+  /** BCP 47 tag for Intl. */
+  intlLocale: string;
+  /** The organisation's default, used when the user has no override. */
+  orgLocale: AppLocale;
+  /** The user's own choice, or null when following the organisation. */
+  userLocale: AppLocale | null;
+  /** Set (or with null, clear) the current user's override. */
+  setUserLocale: (locale: AppLocale | null) => void;
+  t: (key: MessageKey, vars?: TranslateVars) => string;
+}
+
+const STORAGE_PREFIX = 'truload_locale_';
+
+function readUserLocale(userId: string | undefined): AppLocale | null {
+  if (typeof window === 'undefined' || !userId) return null;
+  return resolveLocale(localStorage.getItem(STORAGE_PREFIX + userId));
+}
+
+function cacheUserLocale(userId: string, locale: AppLocale | null): void {
+  if (locale) localStorage.setItem(STORAGE_PREFIX + userId, locale);
+  else localStorage.removeItem(STORAGE_PREFIX + userId);
+}
+
+// Outside the provider (isolated component tests) everything renders in English.
+const LocaleContext = createContext<LocaleContextValue>({
+  locale: DEFAULT_LOCALE,
+  intlLocale: getLocaleOption(DEFAULT_LOCALE).intl,
+  orgLocale: DEFAULT_LOCALE,
+  userLocale: null,
+  setUserLocale: () => {},
+  t: (key, vars) => translate(key, vars, DEFAULT_LOCALE),
+});
+
+export function LocaleProvider({ children }: { children: ReactNode }) {
+  const userId = useAuthStore((s) => s.user?.id);
+  // undefined = the profile doesn't carry a preference (older backend); null = follow the organisation
+  const profileLocale = useAuthStore((s) => s.user?.preferredLocale);
+  const isAuthenticated = useAuthStore((s) => s.isAuthenticated);
+
+  const { data: org } = useQuery({
+    queryKey: ['organization', 'current'],
+    queryFn: getCurrentOrganization,
+    enabled: isAuthenticated,
+  });
+
+  const [userLocale, setUserLocaleState] = useState<AppLocale | null>(() => readUserLocale(userId));
+
+  // A different user signs in, or their profile loads: the profile wins over this device's copy.
+  useEffect(() => {
+    if (profileLocale === undefined) {
+      setUserLocaleState(readUserLocale(userId));
+      return;
+    }
+    const fromProfile = resolveLocale(profileLocale);
+    setUserLocaleState(fromProfile);
+    if (userId) cacheUserLocale(userId, fromProfile);
+  }, [userId, profileLocale]);
+
+  const orgLocale = resolveLocale(org?.defaultLocale) ?? DEFAULT_LOCALE;
+  const locale = userLocale ?? orgLocale;
+
+  // Consumers re-render on `appliedLocale`, which only moves once the module state has, so plain
+  // formatters called while they render already use the new locale.
+  const [appliedLocale, setAppliedLocale] = useState<AppLocale>(getActiveLocale);
+  useEffect(() => {
+    setActiveLocale(locale);
+    setAppliedLocale(locale);
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setUserLocale = useCallback(
+    (next: AppLocale | null) => {
+      setUserLocaleState(next);
+      if (!userId) return;
+      cacheUserLocale(userId, next);
+      updateProfilePreferences({ preferredLocale: next })
+        .then(() => {
+          const { user, setUser } = useAuthStore.getState();
+          if (user?.id === userId) setUser({ ...user, preferredLocale: next });
+        })
+        // Offline or rejected: this device keeps the choice; the profile catches up on the next change.
+        .catch((err) => console.warn('Failed to save language to profile', err));
+    },
+    [userId]
+  );
+
+  const value = useMemo<LocaleContextValue>(
+    () => ({
+      locale: appliedLocale,
+      intlLocale: getLocaleOption(appliedLocale).intl,
+      orgLocale,
+      userLocale,
+      setUserLocale,
+      t: (key, vars) => translate(key, vars, appliedLocale),
+    }),
+    [appliedLocale, orgLocale, userLocale, setUserLocale]
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export function useTranslation() {
+  return useContext(LocaleContext);
+}
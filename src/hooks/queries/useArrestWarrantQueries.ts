@@ -1,10 +1,16 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as warrantApi from '@/lib/api/arrestWarrant';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { offlineDb } from '@/lib/offline/db';
+import { cacheWarrantWatchList, getCachedWarrantWatchList, removeCachedWarrant } from '@/lib/offline/referenceCache';
+import { syncHeaders } from '@/lib/offline/sync';
 import { QUERY_OPTIONS } from '@/lib/query/config';
+import { WATCH_LIST_REFRESH_MS } from '@/lib/warrant-watch';
 
 export const ARREST_WARRANT_QUERY_KEYS = {
   warrantsByCase: (caseId: string) => ['arrest-warrants', 'by-case', caseId] as const,
   warrantById: (id: string) => ['arrest-warrants', 'detail', id] as const,
+  watchList: ['arrest-warrants', 'watch-list'] as const,
 };
 
 // ============================================================================
@@ -20,6 +26,23 @@ export function useWarrantsByCaseId(caseId?: string) {
   });
 }
 
+/**
+ * Active warrants for the station watch-list. Online it downloads and re-caches the list; offline
+ * (or when the download fails) it reads the cached copy, so alerts keep working without a link.
+ */
+export function useWarrantWatchList() {
+  return useQuery({
+    queryKey: ARREST_WARRANT_QUERY_KEYS.watchList,
+    queryFn: async () => {
+      const fresh = typeof navigator !== 'undefined' && navigator.onLine ? await cacheWarrantWatchList() : null;
+      return fresh ?? (await getCachedWarrantWatchList()) ?? [];
+    },
+    ...QUERY_OPTIONS.dynamic,
+    networkMode: 'always',
+    refetchInterval: WATCH_LIST_REFRESH_MS,
+  });
+}
+
 // ============================================================================
 // Mutations
 // ============================================================================
@@ -38,6 +61,7 @@ export function useCreateWarrant() {
         ARREST_WARRANT_QUERY_KEYS.warrantById(newWarrant.id),
         newWarrant
       );
+      queryClient.invalidateQueries({ queryKey: ARREST_WARRANT_QUERY_KEYS.watchList });
     },
   });
 }
@@ -58,6 +82,7 @@ export function useExecuteWarrant() {
         queryKey: ARREST_WARRANT_QUERY_KEYS.warrantsByCase(executedWarrant.caseRegisterId),
       });
       queryClient.setQueryData(ARREST_WARRANT_QUERY_KEYS.warrantById(id), executedWarrant);
+      queryClient.invalidateQueries({ queryKey: ARREST_WARRANT_QUERY_KEYS.watchList });
     },
   });
 }
@@ -78,6 +103,52 @@ export function useDropWarrant() {
         queryKey: ARREST_WARRANT_QUERY_KEYS.warrantsByCase(droppedWarrant.caseRegisterId),
       });
       queryClient.setQueryData(ARREST_WARRANT_QUERY_KEYS.warrantById(id), droppedWarrant);
+      queryClient.invalidateQueries({ queryKey: ARREST_WARRANT_QUERY_KEYS.watchList });
+    },
+  });
+}
+
+/**
+ * Execute a warrant from a station alert. Offline, it's queued as EXECUTE_WARRANT and drained
+ * on reconnect; either way the warrant leaves this station's cached watch-list at once. The
+ * caller's Idempotency-Key goes on the queued entry or the online request; passing the same key on
+ * every retry makes a retried execution apply once.
+ */
+export function useExecuteWatchListWarrant() {
+  const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
+
+  return useMutation({
+    mutationFn: async ({
+      warrant,
+      request,
+      idempotencyKey,
+    }: {
+      warrant: warrantApi.WarrantWatchEntryDto;
+      request: warrantApi.ExecuteWarrantRequest;
+      idempotencyKey: string;
+    }): Promise<{ queued: boolean }> => {
+      if (!isOnline) {
+        await offlineDb.mutationQueue.add({
+          type: 'EXECUTE_WARRANT',
+          endpoint: `/case/warrants/${warrant.warrantId}/execute`,
+          method: 'POST',
+          payload: JSON.stringify(request),
+          idempotencyKey,
+          createdAt: new Date().toISOString(),
+          synced: false,
+          attempts: 0,
+        });
+        return { queued: true };
+      }
+      await warrantApi.executeWarrant(warrant.warrantId, request, syncHeaders(idempotencyKey));
+      return { queued: false };
+    },
+    onSuccess: async (_, { warrant }) => {
+      await removeCachedWarrant(warrant.warrantId);
+      queryClient.setQueryData<warrantApi.WarrantWatchEntryDto[]>(ARREST_WARRANT_QUERY_KEYS.watchList, (list) =>
+        list?.filter((w) => w.warrantId !== warrant.warrantId));
+      queryClient.invalidateQueries({ queryKey: ARREST_WARRANT_QUERY_KEYS.warrantsByCase(warrant.caseRegisterId) });
     },
   });
 }
@@ -8,7 +8,21 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as caseApi from '@/lib/api/caseRegister';
 import * as memoApi from '@/lib/api/loadCorrectionMemo';
+import { getSubfileCompletion } from '@/lib/api/caseSubfile';
+import { getChecklist } from '@/lib/api/closureChecklist';
+import { getProsecutionByCaseId } from '@/lib/api/prosecution';
+import { getInvoicesByProsecutionId } from '@/lib/api/invoice';
+import {
+  assertCaseTransition,
+  buildCaseWorkflowFacts,
+  caseUpdateAction,
+  deriveCaseState,
+  type CaseAction,
+} from '@/lib/case-workflow';
 import { QUERY_OPTIONS } from '@/lib/query/config';
+import { offlineDb } from '@/lib/offline/db';
+import { recordVersion } from '@/lib/offline/sync';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 
 // Query key constants
 export const CASE_QUERY_KEYS = {
@@ -25,6 +39,7 @@ export const CASE_QUERY_KEYS = {
   specialReleasesByCase: (caseId: string) => ['special-releases', 'by-case', caseId] as const,
   pendingReleases: (params?: caseApi.PendingSpecialReleasesParams) => ['special-releases', 'pending', params ?? {}] as const,
   releaseTypes: ['release-types'] as const,
+  transitions: (caseId: string) => ['cases', 'transitions', caseId] as const,
   memosByCase: (caseId: string) => ['load-correction-memos', 'by-case', caseId] as const,
   memoByWeighing: (weighingId: string) => ['load-correction-memos', 'by-weighing', weighingId] as const,
 };
@@ -210,17 +225,54 @@ export function useCreateCaseFromProhibition() {
 }
 
 /**
- * Update case details
+ * Update case details.
+ *
+ * The update is sent against the cached case's version. Offline, it's queued as UPDATE_CASE with
+ * that version and the cached case as merge base; if the case changed online meanwhile, the drain
+ * parks it in OfflineSyncPanel for a three-way merge. The cache is only updated optimistically
+ * when the case was cached — otherwise there's nothing to merge onto, so it's refetched instead.
+ * Resolves to null when queued without a cached case.
+ *
+ * An update that moves the case to another stage (caseUpdateAction) is checked like the dedicated
+ * action; it needs a connection, since the check reads the server's case.
  */
 export function useUpdateCase() {
   const queryClient = useQueryClient();
+  const isOnline = useOnlineStatus();
 
   return useMutation({
-    mutationFn: ({ id, request }: { id: string; request: caseApi.UpdateCaseRequest }) =>
-      caseApi.updateCase(id, request),
+    mutationFn: async ({ id, request }: { id: string; request: caseApi.UpdateCaseRequest }) => {
+      const cached = queryClient.getQueryData<caseApi.CaseRegisterDto>(CASE_QUERY_KEYS.caseById(id));
+      const version = recordVersion(cached);
+      if (!isOnline) {
+        const changesStage = cached
+          ? !!caseUpdateAction(cached, request)
+          : !!(request.dispositionTypeId || request.courtId || request.caseManagerId);
+        if (changesStage) throw new Error('Changing the case stage needs a connection');
+        await offlineDb.mutationQueue.add({
+          type: 'UPDATE_CASE',
+          endpoint: `/case/cases/${id}`,
+          method: 'PUT',
+          payload: JSON.stringify(request),
+          idempotencyKey: crypto.randomUUID(),
+          createdAt: new Date().toISOString(),
+          synced: false,
+          attempts: 0,
+          baseVersion: version,
+          baseSnapshot: cached ? JSON.stringify(cached) : undefined,
+        });
+        return cached ? { ...cached, ...request } : null;
+      }
+      await guardCaseUpdate(id, request);
+      return caseApi.updateCase(id, request, version);
+    },
     onSuccess: (updatedCase, { id }) => {
       queryClient.invalidateQueries({ queryKey: CASE_QUERY_KEYS.cases });
-      queryClient.setQueryData(CASE_QUERY_KEYS.caseById(id), updatedCase);
+      if (updatedCase) {
+        queryClient.setQueryData(CASE_QUERY_KEYS.caseById(id), updatedCase);
+      } else {
+        queryClient.invalidateQueries({ queryKey: CASE_QUERY_KEYS.caseById(id) });
+      }
     },
   });
 }
@@ -232,8 +284,10 @@ export function useCloseCase() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, request }: { id: string; request: caseApi.CloseCaseRequest }) =>
-      caseApi.closeCase(id, request),
+    mutationFn: async ({ id, request }: { id: string; request: caseApi.CloseCaseRequest }) => {
+      await guardCaseTransition(id, 'close');
+      return caseApi.closeCase(id, request);
+    },
     onSuccess: (closedCase, { id }) => {
       queryClient.invalidateQueries({ queryKey: CASE_QUERY_KEYS.cases });
       queryClient.invalidateQueries({ queryKey: ['cases', 'statistics'] });
@@ -249,8 +303,29 @@ export function useEscalateCase() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ id, caseManagerId }: { id: string; caseManagerId: string }) =>
-      caseApi.escalateCase(id, caseManagerId),
+    mutationFn: async ({ id, caseManagerId }: { id: string; caseManagerId: string }) => {
+      await guardCaseTransition(id, 'escalate');
+      return caseApi.escalateCase(id, caseManagerId);
+    },
+    onSuccess: (escalatedCase, { id }) => {
+      queryClient.invalidateQueries({ queryKey: CASE_QUERY_KEYS.cases });
+      queryClient.invalidateQueries({ queryKey: ['cases', 'statistics'] });
+      queryClient.setQueryData(CASE_QUERY_KEYS.caseById(id), escalatedCase);
+    },
+  });
+}
+
+/**
+ * Escalate an overdue case to the configured case manager (SLA auto-escalation)
+ */
+export function useAutoEscalateCase() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, request }: { id: string; request: caseApi.AutoEscalateCaseRequest }) => {
+      await guardCaseTransition(id, 'escalate');
+      return caseApi.autoEscalateCase(id, request);
+    },
     onSuccess: (escalatedCase, { id }) => {
       queryClient.invalidateQueries({ queryKey: CASE_QUERY_KEYS.cases });
       queryClient.invalidateQueries({ queryKey: ['cases', 'statistics'] });
@@ -259,6 +334,46 @@ export function useEscalateCase() {
   });
 }
 
+/**
+ * Workflow transition history of a case
+ */
+export function useCaseTransitions(caseId?: string) {
+  return useQuery({
+    queryKey: CASE_QUERY_KEYS.transitions(caseId ?? ''),
+    queryFn: () => caseApi.getCaseTransitions(caseId!),
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!caseId,
+  });
+}
+
+/**
+ * Re-reads the case and its subfiles, checklist and invoices and throws CaseTransitionError
+ * unless the workflow allows `action` now — the server state, not whatever the page has cached.
+ */
+async function guardCaseTransition(id: string, action: CaseAction, current?: caseApi.CaseRegisterDto): Promise<void> {
+  const caseData = current ?? await caseApi.getCaseById(id);
+  const state = deriveCaseState(caseData);
+  const needsDocuments = action === 'close' && (state === 'escalated' || state === 'court');
+  const needsInvoices = action === 'close' && (state === 'prosecution' || state === 'invoiced' || state === 'paid');
+
+  const [subfileCompletion, checklist, invoices] = await Promise.all([
+    needsDocuments ? getSubfileCompletion(id) : undefined,
+    needsDocuments ? getChecklist(id).catch(() => null) : undefined,
+    needsInvoices
+      ? getProsecutionByCaseId(id).then((p) => (p ? getInvoicesByProsecutionId(p.id) : []))
+      : undefined,
+  ]);
+  assertCaseTransition(state, action, buildCaseWorkflowFacts(caseData, { subfileCompletion, checklist, invoices }));
+}
+
+/** Checks an update that amounts to a transition (see caseUpdateAction) like the transition itself. */
+async function guardCaseUpdate(id: string, request: caseApi.UpdateCaseRequest): Promise<void> {
+  if (!request.dispositionTypeId && !request.courtId && !request.caseManagerId) return;
+  const caseData = await caseApi.getCaseById(id);
+  const action = caseUpdateAction(caseData, request);
+  if (action) await guardCaseTransition(id, action, caseData);
+}
+
 /**
  * Assign investigating officer
  */
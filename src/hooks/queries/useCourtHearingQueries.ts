@@ -14,6 +14,8 @@ export const COURT_HEARING_QUERY_KEYS = {
   hearings: ['court-hearings'] as const,
   hearingById: (id: string) => ['court-hearings', 'detail', id] as const,
   hearingsByCase: (caseId: string) => ['court-hearings', 'by-case', caseId] as const,
+  hearingsInRange: (params: courtHearingApi.HearingRangeParams) => ['court-hearings', 'range', params] as const,
+  calendarFeed: (userId: string) => ['court-hearings', 'calendar-feed', userId] as const,
   courts: ['courts'] as const,
   hearingTypes: ['hearing-types'] as const,
   hearingStatuses: ['hearing-statuses'] as const,
@@ -36,6 +38,31 @@ export function useHearingsByCaseId(caseId?: string) {
   });
 }
 
+/**
+ * Get hearings across all cases in a date range (calendar)
+ */
+export function useHearingsInRange(params: courtHearingApi.HearingRangeParams) {
+  return useQuery({
+    queryKey: COURT_HEARING_QUERY_KEYS.hearingsInRange(params),
+    queryFn: () => courtHearingApi.getHearingsInRange(params),
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!params.from && !!params.to,
+  });
+}
+
+/**
+ * Get a user's subscribable hearing calendar feed URL
+ */
+export function useHearingCalendarFeed(userId?: string) {
+  return useQuery({
+    queryKey: COURT_HEARING_QUERY_KEYS.calendarFeed(userId ?? ''),
+    queryFn: () => courtHearingApi.getHearingCalendarFeed(userId!),
+    ...QUERY_OPTIONS.static,
+    enabled: !!userId,
+    retry: false,
+  });
+}
+
 /**
  * Get hearing by ID
  */
@@ -12,6 +12,7 @@ import {
   getVehicleWeightTrends,
   getPortalDrivers,
   getDriverPerformance,
+  getPortalFleetRisk,
   getPortalConsignments,
   getPortalSubscription,
   downloadPortalTicketPdf,
@@ -36,6 +37,7 @@ export const PORTAL_QUERY_KEYS = {
   vehicleTrends: (id: string) => ['portal', 'vehicles', id, 'trends'] as const,
   drivers: ['portal', 'drivers'] as const,
   driverPerformance: (id: string) => ['portal', 'drivers', id, 'performance'] as const,
+  fleetRisk: ['portal', 'fleet-risk'] as const,
   consignments: ['portal', 'consignments'] as const,
   subscription: ['portal', 'subscription'] as const,
   team: ['portal', 'team'] as const,
@@ -97,6 +99,14 @@ export function usePortalDriverPerformance(driverId: string) {
   });
 }
 
+export function usePortalFleetRisk() {
+  return useQuery({
+    queryKey: PORTAL_QUERY_KEYS.fleetRisk,
+    queryFn: getPortalFleetRisk,
+    staleTime: 5 * 60_000,
+  });
+}
+
 export function usePortalConsignments() {
   return useQuery({
     queryKey: PORTAL_QUERY_KEYS.consignments,
@@ -6,8 +6,13 @@
  */
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { searchInvoices } from '@/lib/api/invoice';
+import { fetchPermitsByVehicle } from '@/lib/api/permits';
 import * as prosecutionApi from '@/lib/api/prosecution';
+import { getVehicleByRegNo } from '@/lib/api/weighing';
+import { checkVehicleTags, searchYardEntries } from '@/lib/api/yard';
 import { QUERY_OPTIONS } from '@/lib/query/config';
+import { deriveVehicleRiskEvidence } from '@/lib/risk-score';
 
 // Query key constants
 export const PROSECUTION_QUERY_KEYS = {
@@ -20,8 +25,22 @@ export const PROSECUTION_QUERY_KEYS = {
   convictionHistory: (vehicleId: string) => ['prosecutions', 'conviction-history', vehicleId] as const,
   habitualOffenders: (params: prosecutionApi.HabitualOffendersParams) =>
     ['prosecutions', 'habitual-offenders', params] as const,
+  vehicleRiskEvidence: (plate: string, stationId: string | undefined, convictionLookbackMonths: number) =>
+    ['prosecutions', 'risk-evidence', 'vehicle', plate, stationId ?? '', convictionLookbackMonths] as const,
+  offenderRiskEvidence: (params: prosecutionApi.OffenderRiskEvidenceParams) =>
+    ['prosecutions', 'risk-evidence', 'offender', params] as const,
 };
 
+/** Who is at the scale, for the pre-weigh risk score. */
+export interface RiskEvidenceSubject {
+  vehiclePlate?: string;
+  driverId?: string;
+  transporterId?: string;
+  /** The station weighing; its own unreleased yard entries aren't escapes. */
+  stationId?: string;
+  convictionLookbackMonths: number;
+}
+
 // ============================================================================
 // Prosecution Queries
 // ============================================================================
@@ -201,6 +220,57 @@ export function useHabitualOffenders(params: prosecutionApi.HabitualOffendersPar
   });
 }
 
+async function fetchVehicleRiskEvidence(plate: string, subject: RiskEvidenceSubject) {
+  const [vehicle, tags, invoices, yard] = await Promise.all([
+    getVehicleByRegNo(plate),
+    checkVehicleTags(plate),
+    searchInvoices({ vehicleRegNumber: plate, pageSize: 100 }),
+    searchYardEntries({ vehicleRegNo: plate, pageSize: 100, sortBy: 'enteredAt', sortOrder: 'desc' }),
+  ]);
+  const [convictions, permits] = vehicle?.id
+    ? await Promise.all([prosecutionApi.getConvictionHistory(vehicle.id), fetchPermitsByVehicle(vehicle.id)])
+    : [[], []];
+  return deriveVehicleRiskEvidence(
+    { convictions, tags, invoices: invoices.items, yardEntries: yard.items, permits },
+    { stationId: subject.stationId, convictionLookbackMonths: subject.convictionLookbackMonths },
+  );
+}
+
+/**
+ * Risk evidence for the vehicle at the scale, counted from its own records. Pass the debounced
+ * plate; like the vehicle lookup, shorter than five characters isn't looked up. Kept apart from
+ * the driver/transporter evidence so the vehicle score — the one the inspection gate uses —
+ * doesn't depend on the server-side offender lookup.
+ */
+export function useVehicleRiskEvidence(subject: RiskEvidenceSubject) {
+  const trimmed = subject.vehiclePlate?.trim();
+  const plate = trimmed && trimmed.length >= 5 ? trimmed : undefined;
+  return useQuery({
+    queryKey: PROSECUTION_QUERY_KEYS.vehicleRiskEvidence(plate ?? '', subject.stationId, subject.convictionLookbackMonths),
+    queryFn: () => fetchVehicleRiskEvidence(plate!, subject),
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!plate,
+  });
+}
+
+/**
+ * Risk evidence for the driver and transporter. Theirs spans every vehicle they've been on, so
+ * the server counts it.
+ */
+export function useOffenderRiskEvidence(subject: RiskEvidenceSubject) {
+  const params: prosecutionApi.OffenderRiskEvidenceParams = {
+    driverId: subject.driverId,
+    transporterId: subject.transporterId,
+    convictionLookbackMonths: subject.convictionLookbackMonths,
+  };
+  return useQuery({
+    queryKey: PROSECUTION_QUERY_KEYS.offenderRiskEvidence(params),
+    queryFn: () => prosecutionApi.getOffenderRiskEvidence(params),
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!(subject.driverId || subject.transporterId),
+  });
+}
+
 /**
  * Get prosecution default settings
  */
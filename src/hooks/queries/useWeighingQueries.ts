@@ -6,10 +6,20 @@
  */
 
 import * as permitsApi from '@/lib/api/permits';
+import { fetchApiSettings } from '@/lib/api/setup';
 import * as weighingApi from '@/lib/api/weighing';
+import {
+  analyzeDrift,
+  DEFAULT_DRIFT_WARNING_DAYS,
+  DEFAULT_MAX_DEVIATION_KG,
+  DRIFT_WARNING_DAYS_KEY,
+  getDriftGate,
+  SCALE_TEST_MAX_DEVIATION_KEY,
+} from '@/lib/calibration-drift';
 import { QUERY_KEYS, QUERY_OPTIONS, queryKeys } from '@/lib/query/config';
-import { ExtendPermitRequest, UpdatePermitRequest } from '@/types/weighing';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CommercialContractRequest, ExtendPermitRequest, UpdatePermitRequest } from '@/types/weighing';
+import { useMutation, useQueries, useQuery, useQueryClient, type UseQueryResult } from '@tanstack/react-query';
+import { useMemo } from 'react';
 
 // ============================================================================
 // STATIC LOOKUP DATA HOOKS
@@ -301,6 +311,73 @@ export function useScaleTests(stationId?: string, fromDate?: string, toDate?: st
   });
 }
 
+/**
+ * Calibration tolerance and drift warning window from the calibration settings.
+ * Falls back to the settings-page defaults when the settings can't be read (e.g. no config access).
+ */
+export function useCalibrationDriftSettings() {
+  const { data, isLoading } = useQuery({
+    queryKey: ['api-settings', 'calibration'],
+    queryFn: () => fetchApiSettings('calibration'),
+    ...QUERY_OPTIONS.semiStatic,
+    retry: false,
+  });
+  const value = (key: string, fallback: number) => {
+    const parsed = Number(data?.entries?.find((e) => e.key === key)?.value);
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  };
+  return {
+    toleranceKg: value(SCALE_TEST_MAX_DEVIATION_KEY, DEFAULT_MAX_DEVIATION_KG),
+    warningDays: value(DRIFT_WARNING_DAYS_KEY, DEFAULT_DRIFT_WARNING_DAYS),
+    isLoading,
+  };
+}
+
+// Module-level so useQueries keeps the combined result stable between renders.
+const combineScaleTests = (results: UseQueryResult<weighingApi.ScaleTest[]>[]) => ({
+  tests: results.flatMap((r) => r.data ?? []),
+  isLoading: results.some((r) => r.isLoading),
+});
+
+/**
+ * Drift analysis over the last `days` of scale tests for each station (one range query per station).
+ */
+export function useScaleDrift(stationIds: string[], days = 90) {
+  const { toleranceKg, warningDays } = useCalibrationDriftSettings();
+  // Day-granular range so the query key is stable across renders.
+  const toDate = new Date().toISOString().slice(0, 10);
+  const fromDate = new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+
+  const { tests, isLoading } = useQueries({
+    queries: stationIds.map((stationId) => ({
+      queryKey: [...QUERY_KEYS.SCALE_TESTS, 'station', stationId, 'drift', fromDate, toDate],
+      queryFn: () => weighingApi.getScaleTestsByDateRange(stationId, fromDate, `${toDate}T23:59:59`),
+      ...QUERY_OPTIONS.dynamic,
+    })),
+    combine: combineScaleTests,
+  });
+
+  const analyses = useMemo(
+    () => analyzeDrift(tests, { toleranceKg, warningDays }),
+    [tests, toleranceKg, warningDays]
+  );
+
+  return { analyses, isLoading, toleranceKg, warningDays };
+}
+
+/**
+ * Calibration drift gate for a station/bound — blocks weighing once the tolerance is (or is
+ * predicted to be) exceeded, warns inside the warning window.
+ */
+export function useScaleDriftGate(stationId?: string, bound?: string) {
+  const { analyses, isLoading } = useScaleDrift(stationId ? [stationId] : []);
+  const gate = useMemo(
+    () => (stationId ? getDriftGate(analyses, stationId, bound) : null),
+    [analyses, stationId, bound]
+  );
+  return { gate, isLoading };
+}
+
 /**
  * Fetch recent weighing transactions for dashboard display
  * Cached for 5 minutes (semiStatic) to reduce API calls
@@ -355,6 +432,51 @@ export function useWeighingTransaction(id?: string) {
   });
 }
 
+/**
+ * Fetch the stored compliance result (group results, GVW) for a weighing.
+ * Used by the yard redistribution planner.
+ */
+export function useWeighingCompliance(weighingId?: string) {
+  return useQuery({
+    queryKey: [...queryKeys.transaction(weighingId ?? ''), 'compliance'],
+    queryFn: () => weighingApi.getComplianceResult(weighingId!),
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!weighingId,
+  });
+}
+
+/**
+ * Find the latest captured re-weigh of a weighing (highest reweighCycleNo with a GVW).
+ * Re-weighs carry the original weighing's ID, so they are looked up through the vehicle's
+ * recent transactions.
+ */
+export function useLatestReweigh(originalWeighingId?: string, vehicleRegNo?: string) {
+  return useQuery({
+    queryKey: [...QUERY_KEYS.WEIGHING_TRANSACTIONS, 'reweigh-of', originalWeighingId ?? ''],
+    queryFn: async () => {
+      const result = await weighingApi.searchWeighingTransactions({ vehicleRegNo, pageNumber: 1, pageSize: 20 });
+      const reweighs = result.items
+        .filter((t) => t.originalWeighingId === originalWeighingId && t.id !== originalWeighingId && t.gvwMeasuredKg > 0)
+        .sort((a, b) => b.reweighCycleNo - a.reweighCycleNo);
+      return reweighs[0] ?? null;
+    },
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!originalWeighingId && !!vehicleRegNo,
+  });
+}
+
+/**
+ * The original weighing and every re-weigh of it, original first (see lib/reweigh).
+ */
+export function useReweighChain(weighingId?: string, vehicleRegNo?: string) {
+  return useQuery({
+    queryKey: [...QUERY_KEYS.WEIGHING_TRANSACTIONS, 'reweigh-chain', weighingId ?? ''],
+    queryFn: () => weighingApi.getReweighChain(weighingId!, vehicleRegNo!),
+    ...QUERY_OPTIONS.dynamic,
+    enabled: !!weighingId && !!vehicleRegNo,
+  });
+}
+
 /**
  * Fetch weighing transactions with pagination and filtering
  * Used for the tickets list view
@@ -902,6 +1024,24 @@ export function useUpdateWeighingTransaction() {
   });
 }
 
+/**
+ * Start a re-weigh of an existing weighing (e.g. from the yard).
+ * The new transaction is pending until it is resumed and captured on the weighing screen.
+ */
+export function useInitiateReweigh() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: weighingApi.initiateReweigh,
+    onSuccess: (newTransaction) => {
+      queryClient.invalidateQueries({ queryKey: QUERY_KEYS.WEIGHING_TRANSACTIONS });
+      if (newTransaction.id) {
+        queryClient.setQueryData(queryKeys.transaction(newTransaction.id), newTransaction);
+      }
+    },
+  });
+}
+
 /**
  * Delete/Discard weighing transaction mutation
  */
@@ -1036,3 +1176,66 @@ export function useUpdateToleranceSetting() {
     },
   });
 }
+
+// ============================================================================
+// COMMERCIAL CONTRACT HOOKS
+// ============================================================================
+
+const COMMERCIAL_CONTRACTS_KEY = ['commercial-contracts'] as const;
+
+export function useCommercialContracts(params: weighingApi.CommercialContractListParams = {}) {
+  return useQuery({
+    queryKey: [...COMMERCIAL_CONTRACTS_KEY, 'list', params],
+    queryFn: () => weighingApi.getCommercialContracts(params),
+    staleTime: 30_000,
+  });
+}
+
+export function useCommercialContract(id: string | undefined) {
+  return useQuery({
+    queryKey: [...COMMERCIAL_CONTRACTS_KEY, id],
+    queryFn: () => weighingApi.getCommercialContract(id!),
+    enabled: !!id,
+    staleTime: 30_000,
+  });
+}
+
+export function useCommercialContractDeliveries(contractId: string | undefined) {
+  return useQuery({
+    queryKey: [...COMMERCIAL_CONTRACTS_KEY, contractId, 'deliveries'],
+    queryFn: () => weighingApi.getCommercialContractDeliveries(contractId!),
+    enabled: !!contractId,
+    staleTime: 30_000,
+  });
+}
+
+export function useCreateCommercialContract() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: weighingApi.createCommercialContract,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: COMMERCIAL_CONTRACTS_KEY });
+    },
+  });
+}
+
+export function useUpdateCommercialContract() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ id, payload }: { id: string; payload: CommercialContractRequest }) =>
+      weighingApi.updateCommercialContract(id, payload),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: COMMERCIAL_CONTRACTS_KEY });
+    },
+  });
+}
+
+export function useCloseCommercialContract() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: weighingApi.closeCommercialContract,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: COMMERCIAL_CONTRACTS_KEY });
+    },
+  });
+}
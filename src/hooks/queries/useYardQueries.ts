@@ -21,11 +21,12 @@ export const YARD_QUERY_KEYS = {
 /**
  * Search yard entries with pagination and filtering
  */
-export function useYardEntries(params: yardApi.SearchYardEntriesParams) {
+export function useYardEntries(params: yardApi.SearchYardEntriesParams, enabled = true) {
   return useQuery({
     queryKey: [...YARD_QUERY_KEYS.YARD_ENTRIES, 'search', params],
     queryFn: () => yardApi.searchYardEntries(params),
     ...QUERY_OPTIONS.dynamic,
+    enabled,
     placeholderData: (previousData) => previousData,
   });
 }
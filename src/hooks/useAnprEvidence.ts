@@ -0,0 +1,207 @@
+/**
+ * useAnprEvidence — keeps every ANPR / camera frame of the current weighing as hashed evidence
+ * (lib/offline/anprEvidence) and asks for a plate review when a read is below the station's
+ * confidence threshold.
+ *
+ * Usage:
+ *   const evidence = useAnprEvidence({ stationCode, bound, transactionId });
+ *   useMiddleware({ onPlateDetected: (p) => { if (!evidence.recordRead(p).needsReview) setPlate(p.plateNumber); } });
+ *   <PlateReviewModal review={evidence.pendingReview} onResolve={evidence.resolveReview} onDismiss={evidence.dismissReview} ... />
+ *   // on proceed:        evidence.confirmPlate(vehiclePlate);
+ *   // new weighing:      evidence.reset();
+ *
+ * Frames are linked to the transaction as soon as it exists and go up with the next drain.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { useUser } from '@/hooks/useAuth';
+import type { PlateData } from '@/hooks/useMiddleware';
+import { fetchApiSettings } from '@/lib/api/setup';
+import {
+  linkEvidenceToTransaction,
+  recordEvidenceFrame,
+  recordPlateReview,
+  type RecordFrameInput,
+} from '@/lib/offline/anprEvidence';
+import {
+  needsPlateReview,
+  normalizePlateText,
+  resolveMinConfidence,
+  type EvidenceKind,
+} from '@/lib/truconnect/anprEvidence';
+
+export interface PendingPlateReview {
+  plateNumber: string;
+  confidence?: number;
+  imagePath?: string;
+  overviewImagePath?: string;
+  /** Evidence row of the ANPR frame, once stored. */
+  evidenceId?: string;
+}
+
+interface UseAnprEvidenceOptions {
+  stationCode?: string;
+  bound?: string;
+  transactionId?: string | null;
+}
+
+export function useAnprEvidence({ stationCode, bound, transactionId }: UseAnprEvidenceOptions) {
+  const { user } = useUser();
+  const { data: settings } = useQuery({
+    queryKey: ['api-settings', 'calibration'],
+    queryFn: () => fetchApiSettings('calibration'),
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+  const minConfidence = useMemo(
+    () => resolveMinConfidence(settings?.entries, stationCode),
+    [settings?.entries, stationCode],
+  );
+
+  const [sessionKey, setSessionKey] = useState(() => crypto.randomUUID());
+  const [pendingReview, setPendingReview] = useState<PendingPlateReview | null>(null);
+  const [frameCount, setFrameCount] = useState(0);
+  /** Last plate the camera read and the plate the operator settled on, for confirmPlate. */
+  const lastReadRef = useRef<{ plateNumber: string; confidence?: number; evidenceId?: string } | null>(null);
+  const reviewedPlateRef = useRef<string | null>(null);
+  const actor = user?.fullName || user?.email;
+
+  useEffect(() => {
+    if (transactionId) void linkEvidenceToTransaction(sessionKey, transactionId).catch(() => {});
+  }, [sessionKey, transactionId]);
+
+  const store = useCallback(
+    (frame: Omit<RecordFrameInput, 'sessionKey' | 'stationCode' | 'bound' | 'transactionId' | 'capturedBy'>) =>
+      recordEvidenceFrame({
+        ...frame,
+        sessionKey,
+        stationCode,
+        bound,
+        transactionId: transactionId ?? undefined,
+        capturedBy: actor,
+      })
+        .then((entry) => {
+          setFrameCount((n) => n + 1);
+          return entry;
+        })
+        .catch(() => undefined),
+    [sessionKey, stationCode, bound, transactionId, actor],
+  );
+
+  /** Front / overview capture shown on the capture step. */
+  const recordFrame = useCallback(
+    (kind: EvidenceKind, sourcePath: string | undefined) => {
+      if (sourcePath) void store({ kind, sourcePath });
+    },
+    [store],
+  );
+
+  /**
+   * An ANPR read. Stores its frames and returns whether the operator has to review the plate
+   * before it is used; the caller applies the plate only when no review is needed.
+   */
+  const recordRead = useCallback(
+    (plate: PlateData): { needsReview: boolean } => {
+      const needsReview = needsPlateReview(plate.confidence, minConfidence);
+      lastReadRef.current = { plateNumber: plate.plateNumber, confidence: plate.confidence };
+      reviewedPlateRef.current = null;
+      if (needsReview) {
+        setPendingReview({
+          plateNumber: plate.plateNumber,
+          confidence: plate.confidence,
+          imagePath: plate.anprImagePath,
+          overviewImagePath: plate.overviewImagePath,
+        });
+      }
+      if (plate.anprImagePath) {
+        void store({ kind: 'anpr', sourcePath: plate.anprImagePath, plateNumber: plate.plateNumber, confidence: plate.confidence })
+          .then((entry) => {
+            if (!entry) return;
+            if (lastReadRef.current?.plateNumber === plate.plateNumber) lastReadRef.current.evidenceId = entry.id;
+            setPendingReview((r) => (r && r.plateNumber === plate.plateNumber ? { ...r, evidenceId: entry.id } : r));
+          });
+      }
+      if (plate.overviewImagePath) {
+        void store({ kind: 'overview', sourcePath: plate.overviewImagePath, plateNumber: plate.plateNumber, confidence: plate.confidence });
+      }
+      return { needsReview };
+    },
+    [minConfidence, store],
+  );
+
+  const review = useCallback(
+    (finalPlate: string, reason?: string) => {
+      const read = lastReadRef.current;
+      if (!read) return;
+      reviewedPlateRef.current = normalizePlateText(finalPlate);
+      void recordPlateReview({
+        sessionKey,
+        transactionId: transactionId ?? undefined,
+        evidenceId: read.evidenceId,
+        readPlate: read.plateNumber,
+        finalPlate,
+        confidence: read.confidence,
+        reason,
+        reviewedById: user?.id,
+        reviewedBy: actor,
+        stationCode,
+      }).catch(() => {});
+    },
+    [sessionKey, transactionId, user?.id, actor, stationCode],
+  );
+
+  /** Operator confirmed or corrected the pending low-confidence read. */
+  const resolveReview = useCallback(
+    (finalPlate: string, reason?: string) => {
+      review(finalPlate, reason);
+      setPendingReview(null);
+    },
+    [review],
+  );
+
+  /** Read discarded without a review; the plate is typed by hand and checked by confirmPlate. */
+  const dismissReview = useCallback(() => setPendingReview(null), []);
+
+  /**
+   * Called when the weighing moves past the capture step. A plate typed over an ANPR read without
+   * a review is still recorded as a correction.
+   */
+  const confirmPlate = useCallback(
+    (finalPlate: string) => {
+      const read = lastReadRef.current;
+      if (!read || !finalPlate.trim()) return;
+      const final = normalizePlateText(finalPlate);
+      if (final === normalizePlateText(read.plateNumber) || final === reviewedPlateRef.current) return;
+      review(finalPlate, 'Edited on the capture screen');
+    },
+    [review],
+  );
+
+  const reset = useCallback(() => {
+    setSessionKey(crypto.randomUUID());
+    setPendingReview(null);
+    setFrameCount(0);
+    lastReadRef.current = null;
+    reviewedPlateRef.current = null;
+  }, []);
+
+  return useMemo(
+    () => ({
+      sessionKey,
+      minConfidence,
+      pendingReview,
+      frameCount,
+      recordRead,
+      recordFrame,
+      resolveReview,
+      dismissReview,
+      confirmPlate,
+      reset,
+    }),
+    [sessionKey, minConfidence, pendingReview, frameCount, recordRead, recordFrame, resolveReview, dismissReview, confirmPlate, reset],
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * useAxleConfigMatches — ranks axle configurations against the measured weights/spacings.
+ *
+ * Uses the live configuration list when it has loaded and tops it up from the offline reference
+ * cache (getCachedAxleConfigs), so suggestions keep working with no connection. The live record
+ * wins when both have the same code; cached weight references fill in where the live record
+ * has none. Callers memoize the input arrays; they are compared by reference.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+
+import { rankAxleConfigurations, type AxleMatchInput } from '@/lib/axle-config-matcher';
+import { getCachedAxleConfigs } from '@/lib/offline/referenceCache';
+import type { AxleConfiguration } from '@/types/weighing';
+
+export function useAxleConfigMatches(configs: AxleConfiguration[], input: AxleMatchInput) {
+  const [cached, setCached] = useState<AxleConfiguration[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCachedAxleConfigs()
+      .then((rows) => {
+        if (!cancelled && rows) setCached(rows as AxleConfiguration[]);
+      })
+      .catch(() => { /* keep: no cache yet */ });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const merged = useMemo(() => {
+    const byCode = new Map(cached.map((c) => [c.axleCode, c]));
+    for (const c of configs) {
+      const fromCache = byCode.get(c.axleCode);
+      byCode.set(c.axleCode, c.weightReferences?.length || !fromCache ? c : { ...c, weightReferences: fromCache.weightReferences });
+    }
+    return [...byCode.values()];
+  }, [configs, cached]);
+
+  const { axleWeightsKg, axleCount, groupWeightsKg, axleSpacingsM, registeredConfigCode } = input;
+  const result = useMemo(
+    () => rankAxleConfigurations(merged, { axleWeightsKg, axleCount, groupWeightsKg, axleSpacingsM, registeredConfigCode }),
+    [merged, axleWeightsKg, axleCount, groupWeightsKg, axleSpacingsM, registeredConfigCode],
+  );
+
+  return { ...result, usingCache: configs.length === 0 && cached.length > 0 };
+}
@@ -0,0 +1,149 @@
+/**
+ * useCaseWorkflow — where a case stands in its lifecycle (lib/case-workflow): current state, the
+ * transitions available now and why the others are blocked, the SLA of the current state and the
+ * recorded transition history.
+ *
+ * Usage:
+ *   const workflow = useCaseWorkflow(caseData);
+ *   <Button disabled={!workflow.can('close')} title={workflow.blockedReason('close')}>Close Case</Button>
+ *
+ * useOverdueCaseAutoEscalation() runs on the case register: when auto-escalation is switched on
+ * in settings, open cases past their SLA are escalated to the default case manager. It is
+ * best-effort — a sweep only runs while someone allowed to escalate has the register open — so
+ * cases can sit overdue between visits; the SLA badges still show them.
+ */
+
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  useAllSettings,
+  useAutoEscalateCase,
+  useCaseTransitions,
+  useClosureChecklist,
+  useInvoicesByProsecutionId,
+  useProsecutionByCaseId,
+  useSubfileCompletion,
+} from '@/hooks/queries';
+import { useHasPermission } from '@/hooks/useAuth';
+import { searchCases, type CaseRegisterDto } from '@/lib/api/caseRegister';
+import {
+  buildCaseWorkflowFacts,
+  caseSlaStatus,
+  casesToAutoEscalate,
+  deriveCaseState,
+  evaluateCaseTransitions,
+  resolveAutoEscalation,
+  resolveCaseSlaHours,
+  stateEnteredAt,
+  type CaseAction,
+  type CaseWorkflowState,
+} from '@/lib/case-workflow';
+
+export function useCaseWorkflow(caseData?: CaseRegisterDto) {
+  const caseId = caseData?.id;
+  const { data: settings } = useAllSettings();
+  const { data: history = [] } = useCaseTransitions(caseId);
+  const { data: subfileCompletion } = useSubfileCompletion(caseId);
+  const { data: checklist } = useClosureChecklist(caseId);
+  const { data: prosecution } = useProsecutionByCaseId(caseData?.hasProsecution ? caseId : undefined);
+  const { data: invoices } = useInvoicesByProsecutionId(prosecution?.id);
+
+  // Re-render once a minute so the SLA countdown moves.
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const state = caseData ? deriveCaseState(caseData) : undefined;
+
+  const transitions = useMemo(() => {
+    if (!caseData || !state) return [];
+    return evaluateCaseTransitions(
+      state,
+      buildCaseWorkflowFacts(caseData, { subfileCompletion, checklist, invoices: prosecution === null ? [] : invoices }),
+    );
+  }, [caseData, state, subfileCompletion, checklist, prosecution, invoices]);
+
+  const timeline = useMemo(
+    () => history.map((h) => ({ ...h, fromState: h.fromState as CaseWorkflowState | undefined, toState: h.toState as CaseWorkflowState })),
+    [history],
+  );
+
+  const sla = useMemo(() => {
+    if (!caseData || !state) return null;
+    return caseSlaStatus(state, stateEnteredAt(state, caseData, timeline), resolveCaseSlaHours(settings), now);
+  }, [caseData, state, timeline, settings, now]);
+
+  const option = (action: CaseAction) => transitions.find((t) => t.action === action);
+
+  return {
+    state,
+    transitions,
+    sla,
+    timeline,
+    can: (action: CaseAction) => !!option(action)?.allowed,
+    /** Why `action` is blocked, joined for a tooltip; undefined when allowed. */
+    blockedReason: (action: CaseAction) => {
+      const o = option(action);
+      return o && !o.allowed ? o.blockedBy.join('\n') : undefined;
+    },
+  };
+}
+
+export type CaseWorkflow = ReturnType<typeof useCaseWorkflow>;
+
+/** Minimum gap between sweeps, across page visits. */
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+let lastSweepAt = 0;
+const SWEEP_PAGE_SIZE = 50;
+
+export function useOverdueCaseAutoEscalation() {
+  const { data: settings } = useAllSettings();
+  const canEscalate = useHasPermission('case.escalate');
+  const autoEscalate = useAutoEscalateCase();
+  const mutateRef = useRef(autoEscalate.mutateAsync);
+  mutateRef.current = autoEscalate.mutateAsync;
+
+  useEffect(() => {
+    if (!settings || !canEscalate) return;
+    const policy = resolveAutoEscalation(settings);
+    if (!policy.enabled || !policy.caseManagerId || Date.now() - lastSweepAt < SWEEP_INTERVAL_MS) return;
+    lastSweepAt = Date.now();
+
+    const slaHours = resolveCaseSlaHours(settings);
+    const now = new Date();
+    void (async () => {
+      // Every overdue page is read before escalating, since escalated cases drop out of the search.
+      const items: CaseRegisterDto[] = [];
+      for (let pageNumber = 1; ; pageNumber++) {
+        const page = await searchCases({
+          escalatedToCaseManager: false,
+          createdTo: new Date(now.getTime() - slaHours.open * 3_600_000).toISOString(),
+          pageNumber,
+          pageSize: SWEEP_PAGE_SIZE,
+        });
+        items.push(...page.items);
+        if (page.items.length === 0 || items.length >= page.totalCount) break;
+      }
+      let escalated = 0;
+      for (const c of casesToAutoEscalate(items, slaHours, now)) {
+        try {
+          await mutateRef.current({
+            id: c.id,
+            request: { caseManagerId: policy.caseManagerId!, reason: `Open longer than the ${slaHours.open}h SLA` },
+          });
+          escalated++;
+        } catch {
+          // Left for the next sweep (or a person) — e.g. the case changed since the search.
+        }
+      }
+      if (escalated > 0) toast.info(`${escalated} overdue case${escalated === 1 ? '' : 's'} escalated to the case manager`);
+    })().catch(() => {
+      lastSweepAt = 0;
+    });
+  }, [settings, canEscalate]);
+}
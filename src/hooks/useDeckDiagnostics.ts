@@ -0,0 +1,162 @@
+/**
+ * useDeckDiagnostics — records multideck weight frames into IndexedDB for a chosen window and
+ * exports the signed vendor bundle (lib/truconnect/diagnostics, lib/offline/deckDiagnostics).
+ *
+ * Usage:
+ *   const diagnostics = useDeckDiagnostics({ stationCode, bound });
+ *   useMiddleware({ onWeightUpdate: (w) => diagnostics.push(w) });
+ *   diagnostics.start(5 * 60_000);
+ *
+ * Frames are buffered in memory and written once a second so a 10 Hz indicator doesn't mean ten
+ * IndexedDB transactions a second. Recording stops by itself at the end of the window.
+ */
+
+'use client';
+
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+import type { WeightData } from '@/hooks/useMiddleware';
+import { useUser } from '@/hooks/useAuth';
+import { downloadBlob } from '@/lib/export/engine';
+import { offlineDb, type DiagnosticSessionEntry } from '@/lib/offline/db';
+import {
+  appendDiagnosticSamples,
+  buildDiagnosticBundle,
+  deleteDiagnosticSession,
+  finishDiagnosticSession,
+  getSigningKeyFingerprint,
+  startDiagnosticSession,
+} from '@/lib/offline/deckDiagnostics';
+import { toDiagnosticSample, type DeckDiagnosticSample } from '@/lib/truconnect/diagnostics';
+
+const FLUSH_INTERVAL_MS = 1000;
+
+export interface ActiveDiagnosticRecording {
+  sessionId: string;
+  startedAt: number;
+  endsAt: number;
+  samples: number;
+}
+
+export function useDeckDiagnostics({ stationCode, bound }: { stationCode?: string; bound?: string }) {
+  const { user } = useUser();
+  const [active, setActive] = useState<ActiveDiagnosticRecording | null>(null);
+  const activeRef = useRef<ActiveDiagnosticRecording | null>(null);
+  const bufferRef = useRef<DeckDiagnosticSample[]>([]);
+  const indicatorRef = useRef<{ make?: string; model?: string; capacity?: string } | undefined>(undefined);
+
+  // Shown in the dialog so the vendor can pin the key the bundles are signed with.
+  const [keyFingerprint, setKeyFingerprint] = useState<string | null>(null);
+  useEffect(() => {
+    getSigningKeyFingerprint().then(setKeyFingerprint).catch(() => setKeyFingerprint(null));
+  }, []);
+
+  const sessions = useLiveQuery(
+    () => offlineDb.diagnosticSessions.orderBy('startedAt').reverse().toArray(),
+    [],
+    [] as DiagnosticSessionEntry[],
+  );
+
+  const flush = useCallback(async () => {
+    const current = activeRef.current;
+    const batch = bufferRef.current;
+    if (!current || batch.length === 0) return;
+    bufferRef.current = [];
+    try {
+      await appendDiagnosticSamples(current.sessionId, batch, indicatorRef.current);
+    } catch {
+      // Storage full or blocked: keep the frames for the next attempt rather than lose evidence.
+      bufferRef.current = [...batch, ...bufferRef.current];
+    }
+  }, []);
+
+  const stop = useCallback(async () => {
+    const current = activeRef.current;
+    if (!current) return;
+    await flush();
+    activeRef.current = null;
+    setActive(null);
+    const report = await finishDiagnosticSession(current.sessionId);
+    const faults = report.findings.filter((f) => f.severity === 'fault').length;
+    if (faults) toast.warning(`Diagnostics finished: ${faults} deck fault(s) found`);
+    else toast.success(`Diagnostics finished: ${report.findings.length} finding(s)`);
+  }, [flush]);
+
+  const start = useCallback(
+    async (windowMs: number) => {
+      if (activeRef.current) return;
+      const session = await startDiagnosticSession({
+        stationCode,
+        bound,
+        windowMs,
+        recordedBy: user?.fullName || user?.email,
+      });
+      bufferRef.current = [];
+      indicatorRef.current = undefined;
+      const recording = {
+        sessionId: session.id,
+        startedAt: Date.parse(session.startedAt),
+        endsAt: Date.parse(session.endsAt),
+        samples: 0,
+      };
+      activeRef.current = recording;
+      setActive(recording);
+    },
+    [stationCode, bound, user?.fullName, user?.email],
+  );
+
+  /** Feed every onWeightUpdate frame; ignored unless recording. */
+  const push = useCallback((weight: WeightData) => {
+    const current = activeRef.current;
+    if (!current) return;
+    const sample = toDiagnosticSample(weight);
+    if (!sample) return;
+    bufferRef.current.push(sample);
+    current.samples += 1;
+    const device = weight.connection?.device ?? weight.indicatorInfo;
+    if (device && !indicatorRef.current) indicatorRef.current = { ...device };
+  }, []);
+
+  // Periodic flush + auto-stop at the end of the window.
+  const activeId = active?.sessionId;
+  useEffect(() => {
+    if (!activeId) return;
+    const timer = setInterval(() => {
+      const current = activeRef.current;
+      if (!current) return;
+      if (Date.now() >= current.endsAt) {
+        void stop();
+        return;
+      }
+      void flush();
+      setActive({ ...current });
+    }, FLUSH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeId, flush, stop]);
+
+  // Leaving the page ends the recording with what was captured.
+  useEffect(() => () => void stop(), [stop]);
+
+  const exportBundle = useCallback(async (sessionId: string) => {
+    try {
+      const bundle = await buildDiagnosticBundle(sessionId);
+      const { stationCode: station, startedAt } = bundle.payload.session;
+      const stamp = startedAt.replace(/[:.]/g, '-');
+      downloadBlob(
+        new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }),
+        `deck-diagnostics_${station ?? 'station'}_${stamp}.json`,
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export diagnostics');
+    }
+  }, []);
+
+  const remove = useCallback(async (sessionId: string) => {
+    if (activeRef.current?.sessionId === sessionId) return;
+    await deleteDiagnosticSession(sessionId);
+  }, []);
+
+  return { active, sessions, start, stop, push, exportBundle, remove, keyFingerprint };
+}
@@ -1,6 +1,8 @@
 "use client";
 
 import { ScaleStatus as SharedScaleStatus } from '@/types/weighing';
+import type { MiddlewareTransport, SessionRecorder } from '@/lib/truconnect/replay';
+import { resolveReplayTransport, resolveSessionRecorder } from '@/lib/truconnect/scenarios';
 import { useCallback, useEffect, useRef, useState } from 'react';
 
 /**
@@ -22,6 +24,11 @@ import { useCallback, useEffect, useRef, useState } from 'react';
  *
  * Key Insight: When PWA is installed and running offline, the browser runs
  * locally on the user's machine, so it CAN connect to localhost even without internet!
+ *
+ * Replay: a `transport` (see lib/truconnect/replay.ts) replaces the whole chain above and feeds a
+ * recorded or synthetic session through the same message handler. Without an explicit transport,
+ * the `truload_truconnect_replay` localStorage key / NEXT_PUBLIC_TRUCONNECT_REPLAY selects one
+ * (development and test builds only).
  */
 
 // Types
@@ -54,6 +61,8 @@ export interface WeightData {
   axleWeights?: number[];
   runningTotal?: number;
   runningGvw?: number;  // Alias for runningTotal (API compatibility)
+  /** Gaps between consecutive axles in metres, from indicators with axle detectors (optional). */
+  axleSpacingsM?: number[];
   /**
    * Individual scale weights for mobile mode (PAW/Haenni)
    *
@@ -132,7 +141,7 @@ export interface ScaleStatus {
   scaleB?: ScaleInfo;
 }
 
-export type ConnectionMode = 'backend_ws' | 'local_ws' | 'local_api' | 'disconnected';
+export type ConnectionMode = 'backend_ws' | 'local_ws' | 'local_api' | 'replay' | 'disconnected';
 
 export interface MiddlewareState {
   connected: boolean;
@@ -151,7 +160,7 @@ export interface MiddlewareState {
 export interface UseMiddlewareOptions {
   stationCode: string;
   bound?: 'A' | 'B';
-  mode?: 'mobile' | 'multideck';
+  mode?: 'mobile' | 'multideck' | 'wim' | 'queue';
   autoConnect?: boolean;
   // Client identification (for handshake/connection pool display)
   clientName?: string;        // Friendly name e.g. "TruLoad Frontend", "Nairobi Unit 01"
@@ -165,8 +174,22 @@ export interface UseMiddlewareOptions {
   enablePollingFallback?: boolean; // Fall back to API polling (default: true)
   pollingInterval?: number;   // API polling interval in ms (default: 500)
   reconnectInterval?: number;
+  /**
+   * Replay transport used instead of TruConnect. `undefined` = resolve from the replay config
+   * (normally none → live middleware); `null` = always use the live middleware.
+   */
+  transport?: MiddlewareTransport | null;
+  /**
+   * Records every received message (e.g. to capture a field session as JSONL). Defaults to the
+   * shared console recorder when the `truload_truconnect_record` flag is set.
+   */
+  recorder?: SessionRecorder;
   // Callbacks
   onWeightUpdate?: (weight: WeightData) => void;
+  /** WIM mode: one call per vehicle passage. */
+  onWimPassage?: (passage: WimPassageData) => void;
+  /** ANPR arrivals, e.g. for the station queue board. */
+  onPlateDetected?: (plate: PlateDetectedData) => void;
   onScaleStatusChange?: (status: ScaleStatus) => void;
   onConnectionModeChange?: (mode: ConnectionMode, url: string) => void;
   onError?: (error: string) => void;
@@ -180,6 +203,34 @@ export interface PlateData {
   confidence?: number;
 }
 
+/** ANPR read at the station approach (TruConnect `plate-detected` event). */
+export interface PlateDetectedData extends PlateData {
+  /** Bound the approach camera covers, on bidirectional stations. */
+  bound?: 'A' | 'B';
+  /** ISO time of the read. */
+  timestamp?: string;
+}
+
+/**
+ * One weigh-in-motion passage (TruConnect `wim-passage` event). Loads are dynamic — accuracy
+ * depends on speed and WIM class — so they are for screening only, never for prosecution.
+ */
+export interface WimPassageData {
+  passageId: string;
+  /** ISO time the vehicle crossed the sensors. */
+  timestamp: string;
+  lane?: number;
+  speedKmh: number;
+  /** Spacing between consecutive axles in metres (length = axleLoadsKg.length - 1). */
+  axleSpacingsM: number[];
+  axleLoadsKg: number[];
+  gvwKg: number;
+  /** ANPR read matched to the passage, when the camera produced one. */
+  plate?: PlateData;
+  /** Sensor-reported quality/validity flags (e.g. "OFF_SCALE", "SPEED_CHANGE"). */
+  flags?: string[];
+}
+
 export interface VehicleCompleteData {
   transactionId?: string;
   totalAxles: number;
@@ -261,7 +312,11 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
     enablePollingFallback = true,
     pollingInterval = DEFAULT_POLLING_INTERVAL,
     reconnectInterval = DEFAULT_RECONNECT_INTERVAL,
+    transport,
+    recorder = resolveSessionRecorder(),
     onWeightUpdate,
+    onWimPassage,
+    onPlateDetected,
     onScaleStatusChange,
     onConnectionModeChange,
     onError,
@@ -281,6 +336,12 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
   });
 
   const wsRef = useRef<WebSocket | null>(null);
+  // Resolved once per mount: an explicit transport wins, else the replay config (if any).
+  const transportRef = useRef<MiddlewareTransport | null | undefined>(undefined);
+  if (transportRef.current === undefined) {
+    transportRef.current = transport === null ? null : transport ?? resolveReplayTransport();
+  }
+  const transportActiveRef = useRef(false);
   const reconnectTimer = useRef<NodeJS.Timeout | null>(null);
   const pollingTimer = useRef<NodeJS.Timeout | null>(null);
   const shouldReconnect = useRef(true);
@@ -336,6 +397,10 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
 
   // Send message helper
   const sendMessage = useCallback((event: string, data: Record<string, unknown>) => {
+    if (transportActiveRef.current && transportRef.current) {
+      transportRef.current.send(event, data);
+      return true;
+    }
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({ event, data }));
       return true;
@@ -346,6 +411,7 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
 
   // Handle incoming WebSocket messages
   const handleMessage = useCallback((message: { event: string; data: unknown; timestamp: string }) => {
+    recorder?.record(message);
     switch (message.event) {
       case 'connected':
         setState(s => ({
@@ -443,6 +509,14 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
         onScaleStatusChange?.(statusData);
         break;
 
+      case 'wim-passage':
+        onWimPassage?.(message.data as WimPassageData);
+        break;
+
+      case 'plate-detected':
+        onPlateDetected?.(message.data as PlateDetectedData);
+        break;
+
       case 'plate-ack':
       case 'axle-captured-ack':
       case 'vehicle-complete-ack':
@@ -460,7 +534,7 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
         onError?.(errorData.message);
         break;
     }
-  }, [onWeightUpdate, onScaleStatusChange, onError]);
+  }, [recorder, onWeightUpdate, onWimPassage, onPlateDetected, onScaleStatusChange, onError]);
 
   // Handle API polling response (supports new API format with mode-specific data)
   const handlePollingResponse = useCallback((response: unknown) => {
@@ -582,13 +656,14 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
       weightData = response as WeightData;
     }
 
+    recorder?.record({ event: 'weights', data: weightData });
     setState(s => ({
       ...s,
       weights: weightData,
       simulation: weightData.simulation || false,
     }));
     onWeightUpdate?.(weightData);
-  }, [onWeightUpdate, onScaleStatusChange]);
+  }, [recorder, onWeightUpdate, onScaleStatusChange]);
 
   // Connect to a specific WebSocket URL
   const connectWebSocket = useCallback((url: string, connectionMode: ConnectionMode): Promise<boolean> => {
@@ -960,6 +1035,26 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
   // Main connect function with smart priority chain
   // Only switches connections if the new endpoint is actually reachable
   const connect = useCallback(async () => {
+    // Replay transport replaces the whole connection chain.
+    const replay = transportRef.current;
+    if (replay) {
+      if (transportActiveRef.current) return;
+      transportActiveRef.current = true;
+      shouldReconnect.current = false;
+      replay.start(handleMessage);
+      setState(s => ({
+        ...s,
+        connected: true,
+        connectionMode: 'replay',
+        isLocalFallback: false,
+        error: null,
+      }));
+      onConnectionModeChange?.('replay', replay.label);
+      replay.send('register', { stationCode, bound, mode, clientName, clientType });
+      lastRegisteredRef.current = { stationCode, bound, mode };
+      return;
+    }
+
     // Don't try to connect if already connected via WebSocket
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       return;
@@ -1014,7 +1109,7 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
         scheduleReconnectRef.current?.();
       }
     }
-  }, [state.isOnline, state.connected, backendWsUrl, preferBackend, connectWebSocket, connectToLocal, stopPolling, startPolling]);
+  }, [state.isOnline, state.connected, backendWsUrl, preferBackend, connectWebSocket, connectToLocal, stopPolling, startPolling, handleMessage, onConnectionModeChange, stationCode, bound, mode, clientName, clientType]);
 
   // Schedule reconnection with exponential backoff
   const scheduleReconnect = useCallback(() => {
@@ -1046,6 +1141,11 @@ export function useMiddleware(options: UseMiddlewareOptions): UseMiddlewareRetur
     shouldReconnect.current = false;
     stopPolling();
 
+    if (transportActiveRef.current) {
+      transportRef.current?.stop();
+      transportActiveRef.current = false;
+    }
+
     if (reconnectTimer.current) {
       clearTimeout(reconnectTimer.current);
       reconnectTimer.current = null;
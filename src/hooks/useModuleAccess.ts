@@ -70,6 +70,7 @@ export function useModuleAccess() {
     showSetupSystemConfig: hasModule('setup_system_config'),
     // Commercial-specific modules
     showTareRegister: isCommercial && hasModule('tare_register'),
+    showContracts: isCommercial && hasModule('commercial_contracts'),
     showToleranceSettings: isCommercial && hasModule('setup_tolerance'),
     showCommercialReports: isCommercial && hasModule('reporting'),
     showBilling: isCommercial,
@@ -10,6 +10,11 @@
  *     onOnlineSuccess: (data) => { ... },
  *     onQueued: () => { ... },
  *   });
+ *
+ * Updates to an existing record pass the version they were made against,
+ *   mutate(changes, { version: record.rowVersion ?? record.updatedAt, base: record })
+ * so a replay that finds the record changed online lands in OfflineSyncPanel for a three-way
+ * merge instead of overwriting the server copy.
  */
 
 'use client';
@@ -17,6 +22,7 @@
 import { useCallback, useState } from 'react';
 import { offlineDb, type QueuedMutation } from '@/lib/offline/db';
 import { apiClient } from '@/lib/api/client';
+import { syncHeaders } from '@/lib/offline/sync';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 
 interface UseOfflineMutationOptions<TPayload, TResponse> {
@@ -29,6 +35,13 @@ interface UseOfflineMutationOptions<TPayload, TResponse> {
   transformPayload?: (payload: TPayload) => unknown;
 }
 
+export interface MutationConcurrency {
+  /** Server row version the edit is based on — sent as If-Match. */
+  version?: string;
+  /** The record as loaded when the edit was made (base of a later three-way merge). */
+  base?: unknown;
+}
+
 export function useOfflineMutation<TPayload = unknown, TResponse = unknown>(
   options: UseOfflineMutationOptions<TPayload, TResponse>
 ) {
@@ -36,7 +49,7 @@ export function useOfflineMutation<TPayload = unknown, TResponse = unknown>(
   const [isPending, setIsPending] = useState(false);
 
   const mutate = useCallback(
-    async (payload: TPayload) => {
+    async (payload: TPayload, concurrency?: MutationConcurrency) => {
       setIsPending(true);
 
       const body = options.transformPayload
@@ -46,7 +59,7 @@ export function useOfflineMutation<TPayload = unknown, TResponse = unknown>(
       // Stable idempotency key per logical mutation — sent as a header both online and on
       // replay, so a duplicate submission returns the existing server record (Phase 1 backend).
       const idempotencyKey = crypto.randomUUID();
-      const cfg = { headers: { 'Idempotency-Key': idempotencyKey } };
+      const cfg = { headers: syncHeaders(idempotencyKey, concurrency?.version) };
 
       try {
         if (isOnline) {
@@ -75,6 +88,8 @@ export function useOfflineMutation<TPayload = unknown, TResponse = unknown>(
             createdAt: new Date().toISOString(),
             synced: false,
             attempts: 0,
+            baseVersion: concurrency?.version,
+            baseSnapshot: concurrency?.base ? JSON.stringify(concurrency.base) : undefined,
           });
           options.onQueued?.();
         }
@@ -0,0 +1,86 @@
+/**
+ * useQueueHandoff — takes a vehicle from the station queue board (lib/offline/stationQueue) on a
+ * weighing screen opened with `?queueEntry=<id>`.
+ *
+ * Usage:
+ *   const queueHandoff = useQueueHandoff({ stationId, mode: 'multideck', onPrefill: (entry) => { ... } });
+ *   // after the weighing completes:      queueHandoff.complete();
+ *   // if the weighing is cancelled:      queueHandoff.release();
+ *
+ * The entry is marked as being weighed when the screen picks it up, so a second screen can't take
+ * the same vehicle. The screen sends a heartbeat while it holds the entry; one that goes quiet for
+ * WEIGHING_STALE_MS loses it back to the queue.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+import {
+  getStationQueue,
+  QUEUE_HANDOFF_PARAM,
+  touchQueueEntry,
+  updateQueueEntryStatus,
+  type StationQueueEntry,
+} from '@/lib/offline/stationQueue';
+
+const HEARTBEAT_MS = 60 * 1000;
+
+interface UseQueueHandoffOptions {
+  stationId?: string;
+  mode: 'multideck' | 'mobile';
+  /** Wait until reference data (e.g. axle configurations) is loaded before pre-filling. */
+  ready?: boolean;
+  onPrefill: (entry: StationQueueEntry) => void;
+}
+
+export function useQueueHandoff({ stationId, mode, ready = true, onPrefill }: UseQueueHandoffOptions) {
+  const [entry, setEntry] = useState<StationQueueEntry | null>(null);
+  const appliedRef = useRef(false);
+  const onPrefillRef = useRef(onPrefill);
+  onPrefillRef.current = onPrefill;
+
+  useEffect(() => {
+    if (appliedRef.current || !stationId || !ready) return;
+    const entryId = new URLSearchParams(window.location.search).get(QUEUE_HANDOFF_PARAM);
+    if (!entryId) return;
+    appliedRef.current = true;
+    const found = getStationQueue(stationId).find((e) => e.id === entryId);
+    if (!found || found.status === 'done' || found.status === 'left') {
+      toast.error('Queue entry not found — it may already have been weighed.');
+      return;
+    }
+    // Being weighed on another screen; a stale one was already put back to waiting by getStationQueue.
+    if (found.status === 'weighing' && found.weighingMode !== mode) {
+      toast.error(`${found.plateNumber} is already being weighed on the ${found.weighingMode ?? 'other'} screen.`);
+      return;
+    }
+    updateQueueEntryStatus(stationId, found.id, 'weighing', mode);
+    setEntry(found);
+    onPrefillRef.current(found);
+    toast.info(`Weighing ${found.plateNumber} from the queue`, {
+      description: found.flags.length ? found.flags.map((f) => f.label).join(' · ') : undefined,
+    });
+  }, [stationId, mode, ready]);
+
+  useEffect(() => {
+    if (!stationId || !entry) return;
+    const timer = window.setInterval(() => touchQueueEntry(stationId, entry.id), HEARTBEAT_MS);
+    return () => window.clearInterval(timer);
+  }, [stationId, entry]);
+
+  const complete = useCallback(() => {
+    if (!stationId || !entry) return;
+    updateQueueEntryStatus(stationId, entry.id, 'done');
+    setEntry(null);
+  }, [stationId, entry]);
+
+  const release = useCallback(() => {
+    if (!stationId || !entry) return;
+    updateQueueEntryStatus(stationId, entry.id, 'waiting');
+    setEntry(null);
+  }, [stationId, entry]);
+
+  return { entry, complete, release };
+}
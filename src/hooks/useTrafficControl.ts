@@ -0,0 +1,176 @@
+/**
+ * useTrafficControl — drives the multideck approach lights from deck occupancy
+ * (lib/truconnect/trafficControl) and keeps a timeline of every signal sent.
+ *
+ * Usage:
+ *   const middleware = useMiddleware({ mode: 'multideck', ... });
+ *   const traffic = useTrafficControl({ stationCode, middleware, armed: vehiclePlate.length >= 5 });
+ *   <TrafficControlPanel traffic={traffic} />
+ *
+ * In auto mode the state machine sends ENTER / MOVE FORWARD / MOVE BACK / STOP itself. Pressing a
+ * signal by hand overrides it: the mode drops to manual until the operator turns auto back on.
+ * The chosen mode is remembered per station on this PC.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import type { UseMiddlewareReturn } from '@/hooks/useMiddleware';
+import { fetchApiSettings } from '@/lib/api/setup';
+import {
+  deckOccupancy,
+  expectedDeckCount,
+  formatOccupancy,
+  INITIAL_TRAFFIC_STATE,
+  nextTrafficStep,
+  resolveTrafficLayout,
+  type TrafficLayout,
+  type TrafficPhase,
+  type TrafficSignal,
+} from '@/lib/truconnect/trafficControl';
+
+export type TrafficControlMode = 'auto' | 'manual';
+
+export interface TrafficLogEntry {
+  id: number;
+  at: Date;
+  signal: TrafficSignal;
+  source: 'auto' | 'manual';
+  phase: TrafficPhase;
+  reason?: string;
+  /** Deck occupancy when the signal went out, e.g. "■■□□". */
+  occupancy: string;
+  /** False when TruConnect was not connected, so the light did not change. */
+  delivered: boolean;
+}
+
+const MODE_KEY_PREFIX = 'truload_traffic_mode_';
+const MAX_LOG_ENTRIES = 100;
+
+function readStoredMode(stationCode?: string): TrafficControlMode {
+  if (typeof window === 'undefined' || !stationCode) return 'manual';
+  return window.localStorage.getItem(`${MODE_KEY_PREFIX}${stationCode}`) === 'auto' ? 'auto' : 'manual';
+}
+
+interface UseTrafficControlOptions {
+  stationCode?: string;
+  middleware: Pick<UseMiddlewareReturn, 'connected' | 'weights' | 'sendEnter' | 'sendMoveForward' | 'sendMoveBack' | 'sendStop'>;
+  /** A vehicle is waiting to be weighed (plate captured); ENTER is only sent when armed. */
+  armed: boolean;
+}
+
+export function useTrafficControl({ stationCode, middleware, armed }: UseTrafficControlOptions) {
+  const { data: settings } = useQuery({
+    queryKey: ['api-settings', 'calibration'],
+    queryFn: () => fetchApiSettings('calibration'),
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  const layout: TrafficLayout = useMemo(
+    () => resolveTrafficLayout(settings?.entries, stationCode),
+    [settings?.entries, stationCode],
+  );
+
+  const [mode, setModeState] = useState<TrafficControlMode>('manual');
+  const [phase, setPhase] = useState<TrafficPhase>('idle');
+  const [occupied, setOccupied] = useState<boolean[]>([]);
+  const [log, setLog] = useState<TrafficLogEntry[]>([]);
+  const machineRef = useRef(INITIAL_TRAFFIC_STATE);
+  const occupiedRef = useRef<boolean[]>([]);
+  const logIdRef = useRef(0);
+
+  useEffect(() => {
+    setModeState(readStoredMode(stationCode));
+  }, [stationCode]);
+
+  const { connected, weights, sendEnter, sendMoveForward, sendMoveBack, sendStop } = middleware;
+
+  const send = useCallback(
+    (signal: TrafficSignal, source: 'auto' | 'manual', reason?: string) => {
+      const senders: Record<TrafficSignal, () => void> = {
+        enter: sendEnter,
+        'move-forward': sendMoveForward,
+        'move-back': sendMoveBack,
+        stop: sendStop,
+      };
+      if (connected) senders[signal]();
+      setLog((prev) => [
+        {
+          id: ++logIdRef.current,
+          at: new Date(),
+          signal,
+          source,
+          phase: machineRef.current.phase,
+          reason,
+          occupancy: formatOccupancy(occupiedRef.current),
+          delivered: connected,
+        },
+        ...prev,
+      ].slice(0, MAX_LOG_ENTRIES));
+    },
+    [connected, sendEnter, sendMoveForward, sendMoveBack, sendStop],
+  );
+
+  const setMode = useCallback(
+    (next: TrafficControlMode) => {
+      setModeState(next);
+      // Start from the current occupancy rather than wherever the machine was left.
+      machineRef.current = INITIAL_TRAFFIC_STATE;
+      setPhase('idle');
+      if (stationCode) {
+        try {
+          window.localStorage.setItem(`${MODE_KEY_PREFIX}${stationCode}`, next);
+        } catch { /* storage unavailable — mode just isn't remembered */ }
+      }
+    },
+    [stationCode],
+  );
+
+  // Every frame: update the occupancy display and, in auto mode, step the machine.
+  useEffect(() => {
+    if (!weights || weights.mode !== 'multideck') return;
+    const next = deckOccupancy(weights, layout);
+    occupiedRef.current = next;
+    setOccupied((prev) => (formatOccupancy(prev) === formatOccupancy(next) ? prev : next));
+    // Offline the lights can't change, so don't advance past a signal the driver never saw.
+    if (mode !== 'auto' || !connected) return;
+
+    const step = nextTrafficStep(
+      machineRef.current,
+      { occupied: next, vehicleOnDeck: weights.vehicleOnDeck, armed, at: Date.now() },
+      layout,
+    );
+    machineRef.current = step.state;
+    setPhase(step.state.phase);
+    if (step.signal) send(step.signal, 'auto', step.reason);
+  }, [weights, layout, mode, armed, connected, send]);
+
+  /** Operator pressed a light: send it, log it, and take over from the automation. */
+  const sendManual = useCallback(
+    (signal: TrafficSignal) => {
+      if (mode === 'auto') setMode('manual');
+      send(signal, 'manual');
+    },
+    [mode, setMode, send],
+  );
+
+  const clearLog = useCallback(() => setLog([]), []);
+
+  return {
+    layout,
+    expectedDecks: expectedDeckCount(layout),
+    mode,
+    setMode,
+    phase,
+    occupied,
+    log,
+    connected,
+    sendManual,
+    clearLog,
+  };
+}
+
+export type TrafficControl = ReturnType<typeof useTrafficControl>;
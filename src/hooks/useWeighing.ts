@@ -10,19 +10,23 @@ import {
     WeighingTransaction,
 } from '@/lib/api/weighing';
 import { QUERY_KEYS } from '@/lib/query/config';
+import { useAuthStore } from '@/stores/auth.store';
 import { ComplianceStatus } from '@/types/weighing';
 import { useQueryClient } from '@tanstack/react-query';
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
+    useAllSettings,
     useAxleConfigurations,
     useCreateWeighingTransaction,
     useMyStation,
     useUpdateWeighingTransaction,
 } from './queries';
 import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { recordOfflineActivity } from '@/lib/offline/activityLog';
 import { offlineDb } from '@/lib/offline/db';
 import { computeOfflineCompliance } from '@/lib/offline/offlineCapture';
-import { cacheComplianceReferenceData } from '@/lib/offline/referenceCache';
+import { cacheActivePermit, cacheComplianceReferenceData } from '@/lib/offline/referenceCache';
+import { resolveMaxReweighCycles } from '@/lib/reweigh';
 
 // Storage key for persisting weighing session
 const WEIGHING_SESSION_KEY = 'truload_weighing_session';
@@ -86,6 +90,8 @@ export interface UseWeighingReturn {
 
   // Reweigh & confirmation
   reweighCycleNo: number;
+  /** Re-weighs allowed for this weighing (weighing limit → `weighing.max_reweigh_cycles`). */
+  maxReweighCycles: number;
   isWeightConfirmed: boolean;
 
   // Actions
@@ -144,6 +150,7 @@ export function useWeighing(options: UseWeighingOptions): UseWeighingReturn {
   const createTransactionMutation = useCreateWeighingTransaction();
   const updateTransactionMutation = useUpdateWeighingTransaction();
   const isOnline = useOnlineStatus();
+  const { data: settings } = useAllSettings();
 
   // Warm the offline compliance reference cache (axle configs, tolerances, fee schedules,
   // demerit, convictions) whenever online, so weighing capture can compute provisional
@@ -161,6 +168,18 @@ export function useWeighing(options: UseWeighingOptions): UseWeighingReturn {
   const [currentAxle, setCurrentAxle] = useState(1);
   const [error, setError] = useState<Error | null>(null);
 
+  const maxReweighCycles = resolveMaxReweighCycles(transaction?.reweighLimit, settings);
+
+  // Cache the vehicle's active permit while online so an offline capture of the same vehicle
+  // still applies its axle/GVW extensions.
+  const sessionVehicleId = transaction?.vehicleId || session?.vehicleId;
+  const sessionPlate = session?.vehiclePlate;
+  useEffect(() => {
+    if (isOnline && sessionVehicleId && sessionPlate) {
+      void cacheActivePermit(sessionVehicleId, sessionPlate);
+    }
+  }, [isOnline, sessionVehicleId, sessionPlate]);
+
   // Derived state
   const isInitialized = session !== null && transaction !== null;
   // Blocking load: station, config, or create transaction only (not vehicle-detail updates)
@@ -401,11 +420,32 @@ export function useWeighing(options: UseWeighingOptions): UseWeighingReturn {
           vehicleRegNumber: session.vehiclePlate,
           axles,
         });
+        // The server never sees offline captures or the provisional figures shown to the driver
+        // until sync, so both go on the device's hash-chained activity log.
+        const user = useAuthStore.getState().user;
+        const actor = { userId: user?.id, userLabel: user?.email ?? user?.fullName ?? undefined };
+        const ref = { localWeighingId: session.transactionId, ticketNumber: session.ticketNumber, vehicleRegNumber: session.vehiclePlate };
+        void recordOfflineActivity({
+          kind: 'OFFLINE_CAPTURE',
+          ...actor,
+          details: { ...ref, axleWeightsKg: axles.map(a => a.measuredWeightKg) },
+        });
         if (!provisional) {
           setError(new Error('Offline compliance unavailable — reference data not cached. Reconnect to capture.'));
           return null;
         }
         setComplianceResult(provisional);
+        void recordOfflineActivity({
+          kind: 'PROVISIONAL_RESULT_SHOWN',
+          ...actor,
+          details: {
+            ...ref,
+            overallStatus: provisional.overallStatus,
+            gvwMeasuredKg: provisional.gvwMeasuredKg,
+            gvwOverloadKg: provisional.gvwOverloadKg,
+            totalFeeKes: provisional.totalFeeKes,
+          },
+        });
         return provisional;
       }
 
@@ -535,8 +575,8 @@ export function useWeighing(options: UseWeighingOptions): UseWeighingReturn {
     }
 
     const reweighCycle = session.reweighCycleNo ?? 0;
-    if (reweighCycle >= 8) {
-      setError(new Error('Maximum reweigh limit (8) reached'));
+    if (reweighCycle >= maxReweighCycles) {
+      setError(new Error(`Maximum reweigh limit (${maxReweighCycles}) reached`));
       return null;
     }
 
@@ -581,7 +621,7 @@ export function useWeighing(options: UseWeighingOptions): UseWeighingReturn {
       console.error('Failed to initiate reweigh:', e);
       return null;
     }
-  }, [session, persistSession, queryClient]);
+  }, [session, maxReweighCycles, persistSession, queryClient]);
 
   // Set vehicle plate (before transaction initialization)
   const setVehiclePlate = useCallback((plate: string) => {
@@ -650,6 +690,7 @@ export function useWeighing(options: UseWeighingOptions): UseWeighingReturn {
 
     // Reweigh & confirmation
     reweighCycleNo: session?.reweighCycleNo ?? 0,
+    maxReweighCycles,
     isWeightConfirmed: session?.isWeightConfirmed ?? false,
 
     // Actions
@@ -0,0 +1,93 @@
+/**
+ * useWeightStability — runs the client-side stabilisation engine (lib/truconnect/stability) on
+ * the live weight stream so capture can be refused until the reading has actually settled,
+ * rather than trusting TruConnect's `stable` flag.
+ *
+ * Usage:
+ *   const stability = useWeightStability(station?.code);
+ *   useMiddleware({ onWeightUpdate: (w) => stability.push(w.weight ?? 0) });
+ *   if (!stability.state.settled) stability.rejectCapture({ ... });
+ *
+ * Refused captures are written to the audit trail; offline they go through the mutation queue.
+ */
+
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+
+import { fetchApiSettings } from '@/lib/api/setup';
+import { auditClientEvent } from '@/lib/offline/clientAudit';
+import {
+  createStabilityDetector,
+  IDLE_STABILITY,
+  resolveStabilityConfig,
+  type StabilityConfig,
+  type StabilityState,
+} from '@/lib/truconnect/stability';
+
+export interface RejectedCaptureContext {
+  /** What the operator tried to capture, e.g. "Axle 2" or "Multideck GVW". */
+  target: string;
+  /** Weighing transaction, when one exists. */
+  transactionId?: string | null;
+  vehiclePlate?: string;
+}
+
+export function useWeightStability(stationCode?: string) {
+  const { data: settings } = useQuery({
+    queryKey: ['api-settings', 'calibration'],
+    queryFn: () => fetchApiSettings('calibration'),
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  const config: StabilityConfig = useMemo(
+    () => resolveStabilityConfig(settings?.entries, stationCode),
+    [settings?.entries, stationCode],
+  );
+
+  const detectorRef = useRef(createStabilityDetector(config));
+  const [state, setState] = useState<StabilityState>(IDLE_STABILITY);
+
+  // New thresholds → start measuring again rather than mixing two configs in one window.
+  useEffect(() => {
+    detectorRef.current = createStabilityDetector(config);
+    setState(IDLE_STABILITY);
+  }, [config]);
+
+  const push = useCallback((weightKg: number, at?: number) => {
+    setState(detectorRef.current.push(weightKg, at));
+  }, []);
+
+  const reset = useCallback(() => {
+    detectorRef.current.reset();
+    setState(IDLE_STABILITY);
+  }, []);
+
+  const rejectCapture = useCallback(
+    (context: RejectedCaptureContext) => {
+      const s = state;
+      void auditClientEvent({
+        action: 'WeightCaptureRejected',
+        resourceType: 'WeighingTransaction',
+        resourceId: context.transactionId ?? undefined,
+        resourceName: context.vehiclePlate,
+        success: false,
+        denialReason: `Weight not settled: spread ${s.deviationKg} kg over ${config.windowMs} ms, still for ${s.dwellMs} of ${config.minDwellMs} ms`,
+        details: {
+          target: context.target,
+          stationCode,
+          weightKg: s.weightKg,
+          deviationKg: s.deviationKg,
+          dwellMs: s.dwellMs,
+          ...config,
+        },
+        occurredAt: new Date().toISOString(),
+      });
+    },
+    [config, state, stationCode],
+  );
+
+  return { state, config, push, reset, rejectCapture };
+}
@@ -0,0 +1,88 @@
+/**
+ * Axle configuration matcher: spacing decides between same-count configs, weight share breaks
+ * the rest, and a registered config that doesn't fit the measurement is flagged.
+ */
+import { rankAxleConfigurations } from '../axle-config-matcher';
+import type { AxleConfiguration } from '@/types/weighing';
+
+function config(axleCode: string, legal: number[], grouping: string[], isStandard = true): AxleConfiguration {
+  return {
+    id: axleCode,
+    axleCode,
+    axleName: axleCode,
+    axleNumber: legal.length,
+    gvwPermissibleKg: legal.reduce((s, v) => s + v, 0),
+    isStandard,
+    legalFramework: 'TRAFFIC_ACT',
+    isActive: true,
+    createdAt: '',
+    updatedAt: '',
+    weightReferenceCount: legal.length,
+    weightReferences: legal.map((kg, i) => ({
+      id: `${axleCode}-${i}`,
+      axleConfigurationId: axleCode,
+      axlePosition: i + 1,
+      axleLegalWeightKg: kg,
+      axleGrouping: grouping[i],
+      isActive: true,
+    })),
+  };
+}
+
+// Same axle count, different grouping: rigid 2+tandem vs. tractor + single-axle trailer.
+const TANDEM_3A = config('3A', [8000, 9000, 9000], ['A', 'B', 'B']);
+const SPREAD_2A1 = config('2A1', [8000, 10000, 8000], ['A', 'B', 'C'], false);
+const TWO_AXLE = config('2A', [8000, 10000], ['A', 'B']);
+const CONFIGS = [TANDEM_3A, SPREAD_2A1, TWO_AXLE];
+
+describe('rankAxleConfigurations', () => {
+  it('uses spacing to separate configs with the same axle count', () => {
+    const tandem = rankAxleConfigurations(CONFIGS, { axleWeightsKg: [7000, 9000, 9000], axleSpacingsM: [4.5, 1.3] });
+    expect(tandem.candidates.map((c) => c.config.axleCode)).toEqual(['3A', '2A1']);
+    expect(tandem.confidence).toBe('high');
+
+    const spread = rankAxleConfigurations(CONFIGS, { axleWeightsKg: [7000, 9000, 9000], axleSpacingsM: [4.5, 6.0] });
+    expect(spread.candidates[0].config.axleCode).toBe('2A1');
+  });
+
+  it('matches multideck group weights and ignores configs with another group count', () => {
+    const result = rankAxleConfigurations(CONFIGS, { groupWeightsKg: [7500, 17000] });
+    expect(result.candidates.map((c) => c.config.axleCode)).toEqual(['3A', '2A']);
+  });
+
+  it('flags a registered config that does not fit the measurement', () => {
+    const wrongCount = rankAxleConfigurations(CONFIGS, {
+      axleWeightsKg: [7000, 9000, 9000],
+      axleSpacingsM: [4.5, 1.3],
+      registeredConfigCode: '2A',
+    });
+    expect(wrongCount.registeredMismatch).toEqual({ registeredConfigCode: '2A', registeredScore: null, suggestedConfigCode: '3A' });
+
+    const fits = rankAxleConfigurations(CONFIGS, {
+      axleWeightsKg: [7000, 9000, 9000],
+      axleSpacingsM: [4.5, 1.3],
+      registeredConfigCode: '3A',
+    });
+    expect(fits.registeredMismatch).toBeUndefined();
+  });
+
+  it('keeps a zero-reading axle and matches a partial capture against the counted axles', () => {
+    const lifted = rankAxleConfigurations(CONFIGS, { axleWeightsKg: [7000, 9000, 0] });
+    expect(lifted.candidates.map((c) => c.config.axleCode)).toEqual(['2A1', '3A']);
+
+    const partial = rankAxleConfigurations(CONFIGS, { axleWeightsKg: [7000, 9000], axleCount: 3, axleSpacingsM: [4.5, 1.3] });
+    expect(partial.candidates[0].config.axleCode).toBe('3A');
+    expect(partial.candidates.map((c) => c.config.axleCode)).not.toContain('2A');
+  });
+
+  it('drops empty decks past the vehicle but not under it', () => {
+    expect(rankAxleConfigurations(CONFIGS, { groupWeightsKg: [7500, 17000, 0, 0] }).candidates.map((c) => c.config.axleCode))
+      .toEqual(['3A', '2A']);
+    expect(rankAxleConfigurations(CONFIGS, { groupWeightsKg: [7500, 0, 9000] }).candidates.map((c) => c.config.axleCode))
+      .toEqual(['2A1']);
+  });
+
+  it('returns nothing before any weight is measured', () => {
+    expect(rankAxleConfigurations(CONFIGS, { axleWeightsKg: [0, 0, 0] })).toEqual({ candidates: [], confidence: null });
+  });
+});
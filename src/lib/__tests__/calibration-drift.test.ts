@@ -0,0 +1,106 @@
+/**
+ * Calibration drift: per-deck series, the trend since the last recalibration, breach prediction
+ * and the weighing gate built on top of it.
+ */
+import type { ScaleTest } from '../api/weighing';
+import { analyzeDrift, extractDriftSeries, fitDriftTrend, getDriftGate, sinceLastRecalibration } from '../calibration-drift';
+
+const DAY = 86_400_000;
+const NOW = Date.parse('2026-10-19T08:00:00Z');
+
+function test(daysAgo: number, actual: number, overrides: Partial<ScaleTest> = {}): ScaleTest {
+  const at = new Date(NOW - daysAgo * DAY).toISOString();
+  return {
+    id: `t-${daysAgo}-${overrides.bound ?? ''}`,
+    stationId: 'st-1',
+    stationName: 'Mariakani',
+    bound: 'A',
+    testType: 'calibration_weight',
+    weighingMode: 'mobile',
+    testWeightKg: 18000,
+    actualWeightKg: actual,
+    result: 'pass',
+    carriedAt: at,
+    carriedById: 'u-1',
+    createdAt: at,
+    updatedAt: at,
+    ...overrides,
+  };
+}
+
+/** Drifting +2 kg/day, starting at +4 kg thirty days ago. */
+const drifting = [30, 20, 10, 0].map((d) => test(d, 18000 + 4 + (30 - d) * 2));
+
+describe('fitDriftTrend', () => {
+  it('fits slope and intercept over days', () => {
+    const [series] = extractDriftSeries(drifting);
+    const trend = fitDriftTrend(series.points)!;
+    expect(trend.slopeKgPerDay).toBeCloseTo(2);
+    expect(trend.interceptKg).toBeCloseTo(4);
+    expect(trend.r2).toBeCloseTo(1);
+  });
+});
+
+describe('analyzeDrift', () => {
+  it('predicts the breach date and warns inside the warning window', () => {
+    const [a] = analyzeDrift(drifting, { toleranceKg: 80, warningDays: 14, now: NOW });
+    // At +64 kg today and +2 kg/day, ±80 is reached in 8 days.
+    expect(a.daysToBreach).toBe(8);
+    expect(a.status).toBe('warning');
+    expect(analyzeDrift(drifting, { toleranceKg: 80, warningDays: 5, now: NOW })[0].status).toBe('ok');
+  });
+
+  it('marks a measured out-of-tolerance test as breached', () => {
+    const [a] = analyzeDrift(drifting, { toleranceKg: 50, now: NOW });
+    expect(a.status).toBe('breached');
+  });
+
+  it('needs enough consistent points before trusting a trend', () => {
+    const [a] = analyzeDrift(drifting.slice(-3), { toleranceKg: 80, now: NOW });
+    expect(a.status).toBe('insufficient-data');
+    expect(a.predictedBreachAt).toBeNull();
+  });
+});
+
+describe('sinceLastRecalibration', () => {
+  it('drops points before a recalibration step', () => {
+    const tests = [test(40, 18045), test(35, 18052), ...drifting.slice(1)];
+    const [series] = extractDriftSeries(tests);
+    expect(sinceLastRecalibration(series.points, 50).map((p) => p.deviationKg)).toEqual([24, 44, 64]);
+  });
+});
+
+describe('extractDriftSeries', () => {
+  it('splits multideck tests into one series per deck', () => {
+    const series = extractDriftSeries([
+      test(1, 72040, {
+        weighingMode: 'multideck',
+        testWeightKg: 18000,
+        details: 'Deck readings: 18010, 17990, 18025, 18015 kg',
+      }),
+    ]);
+    expect(series.map((s) => [s.channel, s.points[0].deviationKg])).toEqual([
+      ['Deck 1', 10],
+      ['Deck 2', -10],
+      ['Deck 3', 25],
+      ['Deck 4', 15],
+    ]);
+  });
+});
+
+describe('getDriftGate', () => {
+  it('blocks only the affected bound and lets unbound tests apply everywhere', () => {
+    const analyses = analyzeDrift(drifting, { toleranceKg: 50, now: NOW });
+    expect(getDriftGate(analyses, 'st-1', 'A').blocked).toBe(true);
+    expect(getDriftGate(analyses, 'st-1', 'B').blocked).toBe(false);
+
+    const unbound = analyzeDrift(drifting.map((t) => ({ ...t, bound: undefined })), { toleranceKg: 50, now: NOW });
+    expect(getDriftGate(unbound, 'st-1', 'B').blocked).toBe(true);
+  });
+
+  it('warns without blocking when a breach is only predicted ahead', () => {
+    const gate = getDriftGate(analyzeDrift(drifting, { toleranceKg: 80, now: NOW }), 'st-1', 'A');
+    expect(gate).toMatchObject({ blocked: false, warning: true });
+    expect(gate.message).toMatch(/\+14 kg\/week.*8 day/);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Case workflow: state derived from the case fields, transition preconditions, SLA and the
+ * auto-escalation candidates.
+ */
+import {
+  assertCaseTransition,
+  buildCaseWorkflowFacts,
+  caseSlaStatus,
+  caseUpdateAction,
+  casesToAutoEscalate,
+  CaseTransitionError,
+  deriveCaseState,
+  evaluateCaseTransitions,
+  resolveCaseSlaHours,
+  stateEnteredAt,
+} from '../case-workflow';
+
+const baseCase = {
+  caseStatus: 'OPEN',
+  escalatedToCaseManager: false,
+  createdAt: '2026-10-01T08:00:00Z',
+  updatedAt: '2026-10-01T08:00:00Z',
+};
+
+describe('deriveCaseState', () => {
+  it('folds status, escalation and prosecution status into one state', () => {
+    expect(deriveCaseState(baseCase)).toBe('open');
+    expect(deriveCaseState({ ...baseCase, escalatedToCaseManager: true })).toBe('escalated');
+    expect(deriveCaseState({ ...baseCase, hasProsecution: true, prosecutionStatus: 'pending' })).toBe('prosecution');
+    expect(deriveCaseState({ ...baseCase, hasProsecution: true, prosecutionStatus: 'Paid' })).toBe('paid');
+    expect(deriveCaseState({ ...baseCase, caseStatus: 'closed', hasProsecution: true, prosecutionStatus: 'court' })).toBe('closed');
+  });
+});
+
+describe('evaluateCaseTransitions', () => {
+  const allowed = (options: ReturnType<typeof evaluateCaseTransitions>) =>
+    options.filter((o) => o.allowed).map((o) => o.action);
+
+  it('blocks escalation until both NTAC numbers are recorded', () => {
+    const facts = buildCaseWorkflowFacts({ driverNtacNo: 'N-1' }, {});
+    expect(evaluateCaseTransitions('open', facts).find((o) => o.action === 'escalate')?.blockedBy).toEqual([
+      'Transporter NTAC number is not recorded',
+    ]);
+    expect(allowed(evaluateCaseTransitions('open', { ...facts, hasTransporterNtac: true }))).toEqual([
+      'escalate', 'prosecute', 'close',
+    ]);
+  });
+
+  it('closes an escalated case only with every subfile documented and the checklist approved', () => {
+    const incomplete = buildCaseWorkflowFacts({}, {
+      subfileCompletion: { totalTypes: 10, completedTypes: 7 },
+      checklist: { reviewStatusName: 'Pending' },
+    });
+    expect(() => assertCaseTransition('escalated', 'close', incomplete)).toThrow(CaseTransitionError);
+    expect(evaluateCaseTransitions('escalated', incomplete).find((o) => o.action === 'close')?.blockedBy).toEqual([
+      'Subfiles incomplete (7/10 have documents)',
+      'Closure checklist is not approved',
+    ]);
+
+    const complete = buildCaseWorkflowFacts({}, {
+      subfileCompletion: { totalTypes: 10, completedTypes: 10 },
+      checklist: { reviewStatusName: 'APPROVED' },
+    });
+    expect(() => assertCaseTransition('escalated', 'close', complete)).not.toThrow();
+  });
+
+  it('closes a prosecuted case only once its invoices are paid, ignoring voided ones', () => {
+    const unpaid = buildCaseWorkflowFacts({}, { invoices: [{ status: 'pending', balanceRemaining: 5000 }] });
+    expect(evaluateCaseTransitions('invoiced', unpaid).find((o) => o.action === 'close')?.allowed).toBe(false);
+
+    const paid = buildCaseWorkflowFacts({}, {
+      invoices: [{ status: 'paid', balanceRemaining: 0 }, { status: 'voided', balanceRemaining: 5000 }],
+    });
+    expect(evaluateCaseTransitions('paid', paid).find((o) => o.action === 'close')?.allowed).toBe(true);
+  });
+
+  it('treats an update that sets a court, disposition or case manager as the matching transition', () => {
+    expect(caseUpdateAction(baseCase, { courtId: 'court-1' })).toBe('send-to-court');
+    expect(caseUpdateAction(baseCase, { dispositionTypeId: 'disp-1' })).toBe('close');
+    expect(caseUpdateAction(baseCase, { caseManagerId: 'cm-1' })).toBe('escalate');
+    expect(caseUpdateAction({ ...baseCase, escalatedToCaseManager: true, caseManagerId: 'cm-1' }, { caseManagerId: 'cm-2' })).toBeUndefined();
+    expect(caseUpdateAction({ ...baseCase, courtId: 'court-1' }, { courtId: 'court-1' })).toBeUndefined();
+    expect(caseUpdateAction({ ...baseCase, caseStatus: 'CLOSED' }, { dispositionTypeId: 'disp-2' })).toBeUndefined();
+  });
+
+  it('marks actions that do not exist from the current state as unavailable', () => {
+    const close = evaluateCaseTransitions('closed', buildCaseWorkflowFacts({}, {})).find((o) => o.action === 'close');
+    expect(close).toMatchObject({ available: false, allowed: false, blockedBy: ['Not available at the Closed stage'] });
+  });
+});
+
+describe('SLA', () => {
+  const settings = [{ settingKey: 'case.sla_hours.open', settingValue: '24' }];
+
+  it('uses configured hours and counts from when the state was entered', () => {
+    const hours = resolveCaseSlaHours(settings);
+    expect(hours.open).toBe(24);
+    expect(hours.escalated).toBe(336);
+
+    const entered = stateEnteredAt('escalated', baseCase, [
+      { toState: 'escalated', at: '2026-10-02T08:00:00Z' },
+      { toState: 'escalated', at: '2026-10-05T08:00:00Z' },
+    ]);
+    expect(entered).toBe('2026-10-05T08:00:00Z');
+    expect(caseSlaStatus('escalated', entered, hours, new Date('2026-10-19T09:00:00Z'))).toMatchObject({
+      dueAt: '2026-10-19T08:00:00.000Z',
+      overdue: true,
+    });
+    expect(caseSlaStatus('closed', entered, hours, new Date())).toBeNull();
+  });
+
+  it('auto-escalates only open, overdue cases that can be escalated', () => {
+    const hours = resolveCaseSlaHours(settings);
+    const ntac = { driverNtacNo: 'N-1', transporterNtacNo: 'T-1' };
+    const cases = [
+      { ...baseCase, ...ntac, id: 'overdue' },
+      { ...baseCase, id: 'no-ntac' },
+      { ...baseCase, ...ntac, id: 'fresh', createdAt: '2026-10-02T07:00:00Z' },
+      { ...baseCase, ...ntac, id: 'escalated', escalatedToCaseManager: true },
+    ];
+    expect(casesToAutoEscalate(cases, hours, new Date('2026-10-02T09:00:00Z')).map((c) => c.id)).toEqual(['overdue']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Commercial contracts: eligibility of a trip, running totals and the over-delivery policy.
+ */
+import {
+  checkOverDelivery,
+  getContractIneligibility,
+  getContractProgress,
+} from '../commercial-contracts';
+import type { CommercialContract } from '@/types/weighing';
+
+function contract(overrides: Partial<CommercialContract> = {}): CommercialContract {
+  return {
+    id: 'c-1',
+    contractNo: 'GR-2026-014',
+    customerName: 'Rift Millers',
+    cargoId: 'maize',
+    cargoType: 'Maize',
+    targetQuantityKg: 500_000,
+    overDeliveryToleranceKg: 2_000,
+    overDeliveryPolicy: 'block',
+    pricePerTonne: 1_200,
+    currency: 'KES',
+    allowedVehicleRegNos: ['KCA123A', 'KDB456B'],
+    startDate: '2026-10-01',
+    endDate: '2026-10-31',
+    status: 'open',
+    deliveredKg: 480_000,
+    tripCount: 16,
+    createdAt: '2026-09-30T08:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const AT = Date.parse('2026-10-19T08:00:00.000Z');
+
+describe('getContractIneligibility', () => {
+  it('accepts a listed vehicle regardless of plate formatting', () => {
+    expect(getContractIneligibility(contract(), { vehicleRegNo: 'kca 123a', cargoId: 'maize', at: AT })).toEqual([]);
+  });
+
+  it('rejects unlisted vehicles, other cargo, closed or expired contracts', () => {
+    expect(getContractIneligibility(contract(), { vehicleRegNo: 'KCZ 999Z', cargoId: 'beans', at: AT })).toEqual([
+      'Vehicle is not on the contract',
+      'Contract is for Maize',
+    ]);
+    expect(getContractIneligibility(contract({ status: 'closed' }), { at: AT })).toContain('Contract is closed');
+    expect(getContractIneligibility(contract(), { at: Date.parse('2026-11-02T08:00:00.000Z') })).toContain(
+      'Contract period has ended'
+    );
+  });
+
+  it('rejects a fully delivered contract only when over-delivery is blocked', () => {
+    expect(getContractIneligibility(contract({ deliveredKg: 502_000 }), { at: AT })).toContain(
+      'Contract quantity fully delivered'
+    );
+    expect(getContractIneligibility(contract({ deliveredKg: 502_000, overDeliveryPolicy: 'flag' }), { at: AT })).toEqual([]);
+  });
+});
+
+describe('getContractProgress', () => {
+  it('adds the pending trip to the running totals', () => {
+    expect(getContractProgress(contract(), 12_000)).toEqual({
+      deliveredKg: 492_000,
+      remainingKg: 8_000,
+      overTargetKg: 0,
+      percent: 98.4,
+      value: 590_400,
+    });
+    expect(getContractProgress(contract(), 25_000)).toMatchObject({ remainingKg: 0, overTargetKg: 5_000 });
+  });
+});
+
+describe('checkOverDelivery', () => {
+  it('allows trips within target plus tolerance', () => {
+    expect(checkOverDelivery(contract(), 22_000)).toMatchObject({ allowed: true, flagged: false, excessKg: 0 });
+  });
+
+  it('blocks or flags the excess per contract policy', () => {
+    const blocked = checkOverDelivery(contract(), 25_000);
+    expect(blocked).toMatchObject({ allowed: false, flagged: false, excessKg: 3_000 });
+    expect(blocked.message).toMatch(/over-delivers contract GR-2026-014 by 3,000 kg/);
+    expect(checkOverDelivery(contract({ overDeliveryPolicy: 'flag' }), 25_000)).toMatchObject({
+      allowed: true,
+      flagged: true,
+      excessKg: 3_000,
+    });
+  });
+});
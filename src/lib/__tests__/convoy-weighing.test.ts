@@ -0,0 +1,96 @@
+/**
+ * Convoy weighing: capture sequence across passes, joining segments into one configuration, and
+ * checking the combination against the special permit.
+ */
+import { evaluateConvoy, nextConvoyCapture, type ConvoyAxleConfig, type ConvoySegment } from '../convoy-weighing';
+import type { Permit } from '@/types/weighing';
+
+const config = (id: string, legal: [number, string][], gvwPermissibleKg: number): ConvoyAxleConfig => ({
+  id,
+  axleCode: id,
+  axleNumber: legal.length,
+  gvwPermissibleKg,
+  legalFramework: 'TRAFFIC_ACT',
+  weightReferences: legal.map(([kg, grouping], i) => ({
+    id: `${id}-${i}`,
+    axleConfigurationId: id,
+    axlePosition: i + 1,
+    axleLegalWeightKg: kg,
+    axleGrouping: grouping,
+    isActive: true,
+  })),
+});
+
+const primeMover = config('3A', [[8000, 'A'], [9000, 'B'], [9000, 'B']], 26000);
+const dolly = config('2D', [[9000, 'A'], [9000, 'A']], 18000);
+
+const segment = (axleConfig: ConvoyAxleConfig, axleWeightsKg: number[], extra: Partial<ConvoySegment> = {}): ConvoySegment => ({
+  kind: 'trailer',
+  axleConfig,
+  coupled: false,
+  axleWeightsKg,
+  ...extra,
+});
+
+const permit: Permit = {
+  id: 'p1',
+  permitNo: 'SP-001',
+  vehicleId: 'v1',
+  vehicleRegNo: 'KCA 123A',
+  permitTypeId: 't1',
+  permitTypeName: 'Abnormal load',
+  axleExtensionKg: 1000,
+  gvwExtensionKg: 4000,
+  validFrom: '2026-01-01T00:00:00Z',
+  validTo: '2026-12-31T00:00:00Z',
+  issuingAuthority: 'KeNHA',
+  status: 'active',
+  createdAt: '2026-01-01T00:00:00Z',
+};
+
+describe('nextConvoyCapture', () => {
+  it('numbers axles across the combination and restarts the pass for uncoupled units', () => {
+    expect(nextConvoyCapture([segment(primeMover, [7000]), segment(dolly, [])])).toMatchObject({
+      segmentIndex: 0, segmentAxleNumber: 2, axleNumber: 2, passAxleNumber: 2, startsPass: false,
+    });
+    expect(nextConvoyCapture([segment(primeMover, [7000, 9000, 9000]), segment(dolly, [])])).toMatchObject({
+      segmentIndex: 1, segmentAxleNumber: 1, axleNumber: 4, passAxleNumber: 1, startsPass: true,
+    });
+    expect(
+      nextConvoyCapture([segment(primeMover, [7000, 9000, 9000]), segment(dolly, [], { coupled: true })]),
+    ).toMatchObject({ axleNumber: 4, passAxleNumber: 4, startsPass: false });
+    expect(nextConvoyCapture([segment(primeMover, [7000, 9000, 9000])])).toBeNull();
+  });
+});
+
+describe('evaluateConvoy', () => {
+  const segments = [
+    segment(primeMover, [7500, 9400, 9400], { kind: 'prime-mover', regNo: 'KCA123A' }),
+    segment(dolly, [9800, 9800], { kind: 'dolly', regNo: 'ZD 4411' }),
+  ];
+
+  it('keeps axle groups within their segment and applies the permit extensions', () => {
+    const evaluation = evaluateConvoy(segments, { permit, toleranceSettings: [], at: new Date('2026-06-01') });
+
+    expect(evaluation.joined.configCode).toBe('3A+2D');
+    expect(evaluation.compliance.groupResults.map((g) => [g.groupLabel, g.groupWeightKg, g.groupPermissibleKg])).toEqual([
+      ['1A', 7500, 9000],
+      ['1B', 18800, 19000],
+      ['2A', 19600, 19000],
+    ]);
+    expect(evaluation.permitApplied).toBe(true);
+    expect(evaluation.compliance.gvwPermissibleKg).toBe(48000);
+    expect(evaluation.segments.map((s) => [s.firstAxleNumber, s.lastAxleNumber, s.weightKg, s.overloadedGroups])).toEqual([
+      [1, 3, 26300, []],
+      [4, 5, 19600, ['2A']],
+    ]);
+  });
+
+  it('falls back to the legal limits when the permit has expired', () => {
+    const evaluation = evaluateConvoy(segments, { permit, toleranceSettings: [], at: new Date('2027-02-01') });
+
+    expect(evaluation.permitApplied).toBe(false);
+    expect(evaluation.permitIssues).toEqual(['Permit SP-001 expired on 2026-12-31']);
+    expect(evaluation.compliance.gvwPermissibleKg).toBe(44000);
+  });
+});
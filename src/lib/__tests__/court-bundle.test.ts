@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ *
+ * Court bundle: merging source PDFs (inherited attributes, damaged xref, encryption), Bates
+ * numbering across generated and copied pages, the index and checksum comparison.
+ */
+import { PDFDocument } from 'pdf-lib';
+import { buildCourtBundle, compareChecksum } from '../court-bundle/bundle';
+
+const CONTENT = 'BT /F0 12 Tf 72 700 Td (Charge sheet) Tj ET';
+
+/** Two-page PDF: resources and media box inherited from the page tree, second page rotated. */
+function samplePdf({ brokenXref = false, encrypted = false } = {}): Uint8Array {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /MediaBox [0 0 612 792] /Resources << /Font << /F0 5 0 R >> >> >>',
+    '<< /Type /Page /Parent 2 0 R /Contents 6 0 R >>',
+    '<< /Type /Page /Parent 2 0 R /Rotate 90 /Contents [6 0 R 7 0 R] >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier >>',
+    `<< /Length 8 0 R >>\nstream\n${CONTENT}\nendstream`,
+    '<< /Length 5 >>\nstream\n0 0 m\nendstream',
+    String(CONTENT.length),
+  ];
+  let out = '%PDF-1.4\n';
+  const offsets = objects.map((body, i) => {
+    const at = out.length;
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return at;
+  });
+  const xrefAt = out.length;
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  const encrypt = encrypted ? ' /Encrypt << /Filter /Standard /V 1 /R 2 /O <00> /U <00> /P -4 >>' : '';
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R${encrypt} >>\nstartxref\n${brokenXref ? xrefAt + 400 : xrefAt}\n%%EOF\n`;
+  return Uint8Array.from(out, (c) => c.charCodeAt(0));
+}
+
+describe('buildCourtBundle', () => {
+  const build = (charge: Uint8Array) => buildCourtBundle({
+    caseNo: 'CASE/2026/001',
+    cover: [{ label: 'Court', value: 'Milimani' }, { label: 'OB no.', value: null }],
+    sections: [
+      {
+        title: 'Court documents',
+        documents: [
+          { title: 'Charge sheet', content: { kind: 'pdf', bytes: charge } },
+          { title: 'Court minutes', content: { kind: 'unavailable', reason: 'Download failed (HTTP 404)' } },
+        ],
+      },
+      {
+        title: 'Subfile B — Investigation diary',
+        documents: [
+          {
+            title: 'Diary entry',
+            content: { kind: 'text', text: 'Vehicle detained at Athi River → Mlolongo.' },
+            checksum: { status: 'verified', expected: 'ab12', actual: 'ab12' },
+          },
+        ],
+      },
+    ],
+    generatedAt: new Date('2026-10-19T08:00:00Z'),
+  });
+
+  it('numbers every page, copies source pages and lists each document in the index', async () => {
+    const bundle = await build(samplePdf());
+
+    expect(bundle.batesPrefix).toBe('CASE-2026-001-');
+    expect(bundle.pageCount).toBe(8);
+    expect(bundle.index.map((e) => [e.title, e.batesRange, e.included])).toEqual([
+      ['Charge sheet', 'CASE-2026-001-000004 – CASE-2026-001-000005', true],
+      ['Court minutes', 'CASE-2026-001-000006', false],
+      ['Diary entry', 'CASE-2026-001-000008', true],
+    ]);
+    expect(bundle.index[1].note).toBe('Not included: Download failed (HTTP 404)');
+
+    const merged = await PDFDocument.load(bundle.bytes, { updateMetadata: false });
+    expect(merged.getPageCount()).toBe(8);
+    expect(merged.getTitle()).toBe('Court bundle CASE/2026/001');
+    expect(merged.getProducer()).toBe('TruLoad');
+    expect(merged.getCreationDate()?.toISOString()).toBe('2026-10-19T08:00:00.000Z');
+
+    // Copied pages keep the inherited media box and the second page's rotation.
+    const [first, second] = [merged.getPage(3), merged.getPage(4)];
+    expect(first.getMediaBox()).toEqual({ x: 0, y: 0, width: 612, height: 792 });
+    expect(first.getRotation().angle).toBe(0);
+    expect(second.getRotation().angle).toBe(90);
+    expect(merged.getPage(0).getSize()).toEqual({ width: 595, height: 842 });
+  });
+
+  it('reads a source PDF whose xref offset is wrong', async () => {
+    const bundle = await build(samplePdf({ brokenXref: true }));
+    expect(bundle.index[0].included).toBe(true);
+    expect(bundle.pageCount).toBe(8);
+  });
+
+  it('lists an encrypted PDF as not included and keeps the numbering complete', async () => {
+    const bundle = await build(samplePdf({ encrypted: true }));
+    expect(bundle.index[0]).toMatchObject({
+      included: false,
+      batesRange: 'CASE-2026-001-000004',
+      note: 'Not included: The PDF is encrypted; download the original from the case file',
+    });
+    expect(bundle.pageCount).toBe(7);
+    expect((await PDFDocument.load(bundle.bytes)).getPageCount()).toBe(7);
+  });
+});
+
+describe('compareChecksum', () => {
+  const hex = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+  it('accepts hex in any case, with a prefix, or base64', () => {
+    expect(compareChecksum(hex, `SHA256:${hex.toUpperCase()}`).status).toBe('verified');
+    expect(compareChecksum(hex, '47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=').status).toBe('verified');
+    expect(compareChecksum(hex, hex.replace('e3', 'ff')).status).toBe('mismatch');
+    expect(compareChecksum(hex, '').status).toBe('not-recorded');
+  });
+});
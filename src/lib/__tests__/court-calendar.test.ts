@@ -0,0 +1,95 @@
+/**
+ * Court hearing calendar: view ranges, double-booking detection, adjournment chains and the
+ * iCalendar export.
+ */
+import {
+  buildAdjournmentChains,
+  buildHearingsICalendar,
+  calendarDays,
+  findHearingConflicts,
+} from '../court-calendar';
+import type { CourtHearingDto } from '@/lib/api/courtHearing';
+
+const hearing = (id: string, extra: Partial<CourtHearingDto> = {}): CourtHearingDto => ({
+  id,
+  caseRegisterId: `case-${id}`,
+  caseNo: `CASE-${id}`,
+  hearingDate: '2026-10-20T00:00:00Z',
+  createdAt: '2026-10-01T00:00:00Z',
+  updatedAt: '2026-10-01T00:00:00Z',
+  ...extra,
+});
+
+describe('calendarDays', () => {
+  it('starts weeks on Monday and pads months to whole weeks', () => {
+    const anchor = new Date(2026, 9, 21); // Wednesday 21 Oct 2026
+    expect(calendarDays('day', anchor)).toEqual(['2026-10-21']);
+    expect(calendarDays('week', anchor)).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23', '2026-10-24', '2026-10-25',
+    ]);
+    const month = calendarDays('month', anchor);
+    expect(month[0]).toBe('2026-09-28');
+    expect(month[month.length - 1]).toBe('2026-11-01');
+    expect(month).toHaveLength(35);
+  });
+});
+
+describe('findHearingConflicts', () => {
+  it('flags the same prosecutor in two courts at overlapping times, not within one court', () => {
+    const conflicts = findHearingConflicts([
+      hearing('a', { courtId: 'milimani', hearingTime: '09:00', prosecutorId: 'p1', prosecutorName: 'Achieng' }),
+      hearing('b', { courtId: 'kibera', hearingTime: '09:30', prosecutorId: 'p1', prosecutorName: 'Achieng' }),
+      hearing('c', { courtId: 'milimani', hearingTime: '09:15', prosecutorId: 'p1' }),
+      hearing('d', { courtId: 'kibera', hearingTime: '14:00', prosecutorId: 'p1' }),
+      hearing('e', { courtId: 'makadara', prosecutorId: 'p2', investigatingOfficerId: 'io1' }),
+      hearing('f', { courtId: 'kibera', hearingTime: '11:00', investigatingOfficerId: 'io1' }),
+      hearing('g', { courtId: 'kibera', hearingTime: '09:00', prosecutorId: 'p2', hearingStatusName: 'Cancelled' }),
+    ]);
+
+    expect(conflicts.map((c) => [c.role, c.personId, c.hearingIds])).toEqual([
+      ['prosecutor', 'p1', ['a', 'b']],
+      ['prosecutor', 'p1', ['c', 'b']],
+      ['investigating-officer', 'io1', ['e', 'f']],
+    ]);
+  });
+});
+
+describe('buildAdjournmentChains', () => {
+  it('links hearings by recorded parent or by the adjourned-to date', () => {
+    const chains = buildAdjournmentChains([
+      hearing('h1', { caseRegisterId: 'c1', hearingDate: '2026-09-01', nextHearingDate: '2026-09-15', adjournmentReason: 'Witness absent' }),
+      hearing('h2', { caseRegisterId: 'c1', hearingDate: '2026-09-15', nextHearingDate: '2026-10-06' }),
+      hearing('h3', { caseRegisterId: 'c1', hearingDate: '2026-10-06', adjournedFromHearingId: 'h2' }),
+      hearing('x1', { caseRegisterId: 'c2', hearingDate: '2026-09-10' }),
+    ]);
+
+    expect(chains.map((c) => c.map((h) => h.id))).toEqual([['h1', 'h2', 'h3']]);
+  });
+});
+
+describe('buildHearingsICalendar', () => {
+  it('writes floating local times, escapes text and folds long lines', () => {
+    const ics = buildHearingsICalendar(
+      [
+        hearing('a', {
+          hearingTime: '10:30:00',
+          courtName: 'Milimani Law Courts, Court 4',
+          hearingTypeName: 'Mention',
+          adjournmentReason:
+            'Prosecution sought more time to obtain the weighbridge calibration certificate and the licence '
+            + 'records of the driver; granted until the next mention date',
+        }),
+      ],
+      { calendarName: 'Achieng – court hearings', now: new Date('2026-10-19T06:00:00Z') },
+    );
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics).toContain('DTSTART:20261020T103000\r\n');
+    expect(ics).toContain('DTEND:20261020T113000\r\n');
+    expect(ics).toContain('DTSTAMP:20261019T060000Z\r\n');
+    expect(ics).toContain('LOCATION:Milimani Law Courts\\, Court 4\r\n');
+    expect(ics).toContain('SUMMARY:Hearing: CASE-a (Mention)\r\n');
+    expect(ics.split('\r\n').every((line) => line.length <= 75)).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ *
+ * Export engine: typed cells, CSV/XLSX/PDF writers and the server-paged source. Runs under node
+ * because jsdom has no TextEncoder.
+ */
+import { ExportCancelledError, runExport, type ExportColumn } from '../export';
+import { crc32 } from '../export/zip';
+import { columnLetter, toExcelSerial } from '../export/xlsx';
+
+interface Row {
+  ticket: string;
+  kg: number;
+  at: string;
+}
+
+const columns: ExportColumn<Row>[] = [
+  { key: 'ticket', header: 'Ticket', value: (r) => r.ticket },
+  { key: 'kg', header: 'Weight (kg)', type: 'number', value: (r) => r.kg },
+  { key: 'at', header: 'Weighed At', type: 'datetime', value: (r) => r.at },
+];
+
+const makeRows = (n: number): Row[] =>
+  Array.from({ length: n }, (_, i) => ({ ticket: `T-${i + 1}`, kg: 1000 + i, at: '2026-03-01T08:30:00Z' }));
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, (b) => String.fromCharCode(b)).join('');
+
+describe('helpers', () => {
+  it('computes the standard CRC-32, incrementally too', () => {
+    const data = new TextEncoder().encode('123456789');
+    expect(crc32(data)).toBe(0xcbf43926);
+    expect(crc32(data.slice(4), crc32(data.slice(0, 4)))).toBe(0xcbf43926);
+  });
+
+  it('maps column indexes to spreadsheet letters', () => {
+    expect(columnLetter(0)).toBe('A');
+    expect(columnLetter(25)).toBe('Z');
+    expect(columnLetter(26)).toBe('AA');
+    expect(columnLetter(701)).toBe('ZZ');
+    expect(columnLetter(702)).toBe('AAA');
+  });
+
+  it('converts dates to Excel serial days', () => {
+    expect(toExcelSerial(new Date(Date.UTC(1900, 0, 1)))).toBeCloseTo(2);
+    expect(toExcelSerial(new Date(Date.UTC(2026, 0, 1, 12)))).toBeCloseTo(46023.5);
+  });
+});
+
+describe('runExport', () => {
+  it('writes CSV with escaping and a dated filename', async () => {
+    const rows: Row[] = [{ ticket: 'T-1, "A"', kg: 1200, at: '2026-03-01T08:30:00Z' }];
+    const { blob, rowCount, filename } = await runExport({
+      format: 'csv', columns, title: 'Tickets', filename: 'weight-tickets', source: { rows },
+    });
+    const text = new TextDecoder().decode(await readBytes(blob));
+    expect(rowCount).toBe(1);
+    expect(filename).toMatch(/^weight-tickets_\d{4}-\d{2}-\d{2}\.csv$/);
+    expect(text.split('\n')[0].replace('\uFEFF', '')).toBe('Ticket,Weight (kg),Weighed At');
+    expect(text).toContain('"T-1, ""A""",1200,');
+  });
+
+  it('builds an XLSX zip with numeric cells for number columns', async () => {
+    const { blob } = await runExport({
+      format: 'xlsx', columns, title: 'Tickets', filename: 'tickets', source: { rows: makeRows(3) },
+    });
+    const text = latin1(await readBytes(blob));
+    expect(text.slice(0, 4)).toBe('PK\x03\x04');
+    expect(text).toContain('xl/worksheets/sheet1.xml');
+    expect(text).toContain('<v>1002</v>');
+    expect(text).toContain('PK\x05\x06');
+  });
+
+  it('produces a PDF that repeats pages for long tables', async () => {
+    const { blob } = await runExport({
+      format: 'pdf', columns, title: 'Tickets', filename: 'tickets', source: { rows: makeRows(120) },
+      branding: { orgName: 'KeNHA' },
+    });
+    const text = latin1(await readBytes(blob));
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect((text.match(/\/Type \/Page\b/g) ?? []).length).toBeGreaterThan(1);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+  });
+
+  it('pulls every page from a paged source up to maxRows and reports progress', async () => {
+    const all = makeRows(1200);
+    const fetchPage = jest.fn(async (page: number, size: number) => ({
+      items: all.slice((page - 1) * size, page * size),
+      totalCount: all.length,
+    }));
+    const progress: number[] = [];
+    const { rowCount } = await runExport({
+      format: 'csv', columns, title: 'Tickets', filename: 'tickets',
+      source: { fetchPage, pageSize: 500, maxRows: 1100 },
+      onProgress: (p) => progress.push(p.written),
+    });
+    expect(rowCount).toBe(1100);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(progress).toEqual([500, 1000, 1100]);
+  });
+
+  it('keeps paging when the server caps the page size below the one asked for', async () => {
+    const all = makeRows(250);
+    const fetchPage = jest.fn(async (page: number) => ({
+      items: all.slice((page - 1) * 100, page * 100),
+      totalCount: all.length,
+    }));
+    const { rowCount } = await runExport({
+      format: 'csv', columns, title: 'Tickets', filename: 'tickets',
+      source: { fetchPage, pageSize: 500 },
+    });
+    expect(rowCount).toBe(250);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops with ExportCancelledError once the signal aborts', async () => {
+    const controller = new AbortController();
+    const fetchPage = jest.fn(async (page: number, size: number) => {
+      if (page === 2) controller.abort();
+      return { items: makeRows(size), totalCount: 5000 };
+    });
+    await expect(
+      runExport({
+        format: 'xlsx', columns, title: 'Tickets', filename: 'tickets',
+        source: { fetchPage }, signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(ExportCancelledError);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+});
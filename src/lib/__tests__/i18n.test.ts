@@ -0,0 +1,81 @@
+/**
+ * i18n: lookups fall back to English, every fallback is counted for the translator report, and
+ * the weighing formatters follow the locale they're given.
+ */
+import { formatDate, formatFee, formatWeight } from '../formatters';
+import { buildMissingKeyReport, resetMissingKeys, resolveLocale, translate, type MessageKey } from '../i18n';
+import { en } from '../i18n/messages/en';
+import { fr } from '../i18n/messages/fr';
+import { sw } from '../i18n/messages/sw';
+
+beforeEach(() => resetMissingKeys());
+
+describe('translate', () => {
+  it('uses the locale catalog and fills placeholders', () => {
+    expect(translate('status.overload', undefined, 'sw')).toBe('Uzito kupita kiasi');
+    expect(translate('weighing.summary.reweigh', { cycle: 2 }, 'fr')).toBe('Repesée : 2');
+  });
+
+  it('falls back to English, then to the key, and counts each fallback', () => {
+    jest.isolateModules(() => {
+      // A catalog with a gap, as a locale has between an English key landing and its translation.
+      jest.doMock('../i18n/messages/fr', () => ({ fr: { 'common.back': 'Retour' } }));
+      const i18n: typeof import('../i18n') = jest.requireActual('../i18n');
+      expect(i18n.translate('portal.weighings.zipFailed', undefined, 'fr')).toMatch(/^Failed to download ticket ZIP/);
+      i18n.translate('portal.weighings.zipFailed', undefined, 'fr');
+      expect(i18n.translate('no.such.key' as MessageKey, undefined, 'sw')).toBe('no.such.key');
+
+      const report = i18n.buildMissingKeyReport();
+      expect(report[0]).toMatchObject({ locale: 'fr', key: 'portal.weighings.zipFailed', hits: 2 });
+      expect(report).toContainEqual({ locale: 'en', key: 'no.such.key', english: '', hits: 1 });
+      // Catalog gaps are listed even when nobody has hit them yet.
+      expect(report).toContainEqual(expect.objectContaining({ locale: 'fr', key: 'portal.rights', hits: 0 }));
+      expect(report.some((r) => r.key === 'common.back')).toBe(false);
+    });
+  });
+
+  it('does not count English lookups of known keys', () => {
+    translate('common.back', undefined, 'en');
+    expect(buildMissingKeyReport().some((r) => r.locale === 'en')).toBe(false);
+  });
+});
+
+describe('catalogs', () => {
+  for (const [locale, catalog] of Object.entries({ sw, fr })) {
+    it(`${locale} translates every English key and nothing else`, () => {
+      expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+      expect(Object.values(catalog).every((v) => typeof v === 'string' && v.trim().length > 0)).toBe(true);
+    });
+  }
+
+  it('leaves the translator report empty', () => {
+    expect(buildMissingKeyReport()).toEqual([]);
+  });
+});
+
+describe('resolveLocale', () => {
+  it('accepts region tags and rejects unsupported languages', () => {
+    expect(resolveLocale('sw-KE')).toBe('sw');
+    expect(resolveLocale('FR')).toBe('fr');
+    expect(resolveLocale('de')).toBeNull();
+    expect(resolveLocale(null)).toBeNull();
+  });
+});
+
+describe('locale-aware formatters', () => {
+  it('groups weights per locale', () => {
+    expect(formatWeight(12500, { locale: 'en-KE' })).toBe('12,500');
+    expect(formatWeight(12500, { unit: true, locale: 'fr-FR' }).replace(/\s/g, ' ')).toBe('12 500 kg');
+  });
+
+  it('keeps the Act currency and only changes presentation', () => {
+    expect(formatFee(120, 15500, 'KES', 'en-KE')).toMatch(/^Ksh\s?15,500\.00$/);
+    expect(formatFee(120, undefined, 'USD', 'en-KE')).toBe('$120.00');
+    expect(formatFee(120, undefined, 'USD', 'fr-FR').replace(/\s/g, ' ')).toBe('120,00 $US');
+  });
+
+  it('renders dates in the locale order and guards empty values', () => {
+    expect(formatDate('2026-10-19T09:00:00Z', 'en-KE')).toBe('19/10/2026');
+    expect(formatDate(null)).toBe('—');
+  });
+});
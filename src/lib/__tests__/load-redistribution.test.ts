@@ -0,0 +1,77 @@
+/**
+ * Redistribution planner: shift only the group excess, nearest group first, and offload only
+ * what a GVW (or total capacity) overload makes unavoidable.
+ */
+import { compareReweighToPlan, planRedistribution } from '../load-redistribution';
+
+describe('planRedistribution', () => {
+  it('moves only the excess into the nearest group with spare capacity', () => {
+    const plan = planRedistribution({
+      groups: [
+        { groupLabel: 'A', measuredKg: 6000, limitKg: 8000 },
+        { groupLabel: 'B', measuredKg: 9500, limitKg: 9000 },
+        { groupLabel: 'C', measuredKg: 15000, limitKg: 18000 },
+      ],
+      gvwLimitKg: 35000,
+    });
+    expect(plan.outcome).toBe('redistribute');
+    expect(plan.offloadKg).toBe(0);
+    expect(plan.transfers).toEqual([{ fromGroup: 'B', toGroup: 'A', kg: 500 }]);
+    expect(plan.groups.map((g) => g.plannedKg)).toEqual([6500, 9000, 15000]);
+  });
+
+  it('requires an offload for a GVW overload and takes it from the overloaded group first', () => {
+    const plan = planRedistribution({
+      groups: [
+        { groupLabel: 'A', measuredKg: 7000, limitKg: 8000 },
+        { groupLabel: 'B', measuredKg: 20000, limitKg: 18000 },
+      ],
+      gvwLimitKg: 26000,
+    });
+    expect(plan.outcome).toBe('redistribute_and_offload');
+    expect(plan.offloadReason).toBe('gvw');
+    expect(plan.offloadKg).toBe(1000);
+    expect(plan.groups[1].offloadKg).toBe(1000);
+    expect(plan.transfers).toEqual([{ fromGroup: 'B', toGroup: 'A', kg: 1000 }]);
+    expect(plan.gvwPlannedKg).toBe(26000);
+  });
+
+  it('keeps the safety margin below every limit', () => {
+    const plan = planRedistribution({
+      groups: [
+        { groupLabel: 'A', measuredKg: 7000, limitKg: 8000 },
+        { groupLabel: 'B', measuredKg: 18000, limitKg: 18000 },
+      ],
+      gvwLimitKg: 28000,
+      marginKg: 200,
+    });
+    expect(plan.transfers).toEqual([{ fromGroup: 'B', toGroup: 'A', kg: 200 }]);
+    expect(plan.offloadKg).toBe(0);
+  });
+});
+
+describe('compareReweighToPlan', () => {
+  it('reports whether the re-weigh followed the plan and is legal', () => {
+    const plan = planRedistribution({
+      groups: [
+        { groupLabel: 'A', measuredKg: 6000, limitKg: 8000 },
+        { groupLabel: 'B', measuredKg: 9500, limitKg: 9000 },
+      ],
+      gvwLimitKg: 17000,
+    });
+    const followed = compareReweighToPlan(plan, [
+      { groupLabel: 'A', measuredKg: 6550 },
+      { groupLabel: 'B', measuredKg: 8950 },
+    ]);
+    expect(followed.compliant).toBe(true);
+    expect(followed.followedPlan).toBe(true);
+
+    const ignored = compareReweighToPlan(plan, [
+      { groupLabel: 'A', measuredKg: 6000 },
+      { groupLabel: 'B', measuredKg: 9500 },
+    ]);
+    expect(ignored.compliant).toBe(false);
+    expect(ignored.followedPlan).toBe(false);
+    expect(ignored.groups[1].deltaKg).toBe(500);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Quality deduction rules: rule selection per cargo, the three calculation methods and the
+ * breakdown kept in industryMetadata.
+ */
+import {
+  computeQualityDeduction,
+  describeQualityDeduction,
+  getRulesForCargo,
+  readQualityBreakdown,
+  validateQualityDeductionRules,
+  withQualityBreakdown,
+} from '../quality-deduction';
+import type { QualityDeductionRule } from '@/types/weighing';
+
+const moisture: QualityDeductionRule = {
+  id: 'm', cargoId: 'maize', label: 'Moisture', kind: 'moisture', reading: 'moisture', baselinePct: 13.5,
+};
+const impurity: QualityDeductionRule = {
+  id: 'i', cargoId: 'maize', label: 'Impurities', kind: 'excess', reading: 'impurity', baselinePct: 1, multiplier: 2,
+};
+const shrink: QualityDeductionRule = {
+  id: 's', cargoId: null, label: 'Shrink', kind: 'shrink-table', reading: 'moisture',
+  bands: [
+    { fromPct: 0, toPct: 14, deductPct: 0 },
+    { fromPct: 14, toPct: 16, deductPct: 1.5 },
+    { fromPct: 16, toPct: 20, deductPct: 3 },
+  ],
+};
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+describe('getRulesForCargo', () => {
+  it('uses cargo-specific rules and falls back to the general ones', () => {
+    const rules = [moisture, impurity, shrink];
+    expect(getRulesForCargo(rules, 'maize').map((r) => r.id)).toEqual(['m', 'i']);
+    expect(getRulesForCargo(rules, 'beans').map((r) => r.id)).toEqual(['s']);
+    expect(getRulesForCargo(rules, null).map((r) => r.id)).toEqual(['s']);
+  });
+});
+
+describe('computeQualityDeduction', () => {
+  it('adds up moisture and excess-impurity deductions on the net weight', () => {
+    const result = computeQualityDeduction(30_000, [moisture, impurity], { moisture: 16.5, impurity: 2.5 }, NOW);
+    expect(result.lines.map((l) => [l.ruleId, l.deductionKg])).toEqual([
+      ['m', 1_040],
+      ['i', 900],
+    ]);
+    expect(result.totalKg).toBe(1_940);
+    expect(describeQualityDeduction(result)).toBe(
+      'Moisture 16.5% dried to 13.5% baseline: 1,040 kg; Impurities 2.5% − 1% allowance × 2: 900 kg'
+    );
+  });
+
+  it('looks up the shrink band and deducts nothing within allowances', () => {
+    expect(computeQualityDeduction(20_000, [shrink], { moisture: 15 }, NOW).totalKg).toBe(300);
+    expect(computeQualityDeduction(20_000, [shrink], { moisture: 25 }, NOW).lines[0].basis).toMatch(/outside/);
+    expect(computeQualityDeduction(20_000, [moisture], { moisture: 12 }, NOW).totalKg).toBe(0);
+  });
+});
+
+describe('industryMetadata', () => {
+  it('stores the breakdown alongside existing keys and clears it again', () => {
+    const breakdown = computeQualityDeduction(20_000, [shrink], { moisture: 15 }, NOW);
+    const metadata = withQualityBreakdown('{"grade":"A"}', breakdown);
+    expect(JSON.parse(metadata).grade).toBe('A');
+    expect(readQualityBreakdown(metadata)).toEqual(breakdown);
+    expect(readQualityBreakdown(withQualityBreakdown(metadata, null))).toBeNull();
+    expect(readQualityBreakdown('not json')).toBeNull();
+  });
+});
+
+describe('validateQualityDeductionRules', () => {
+  it('rejects overlapping shrink bands', () => {
+    expect(validateQualityDeductionRules([moisture, impurity, shrink])).toBeNull();
+    expect(
+      validateQualityDeductionRules([{ ...shrink, bands: [...shrink.bands!, { fromPct: 19, toPct: 22, deductPct: 5 }] }])
+    ).toBe('Shrink: shrink-table bands overlap');
+  });
+});
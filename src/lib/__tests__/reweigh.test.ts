@@ -0,0 +1,72 @@
+/**
+ * Re-weigh comparison: rebuilding the chain, the re-weigh limit, per-group deltas and the load
+ * shifted vs offloaded between two weighings.
+ */
+import {
+  buildReweighChain,
+  compareWeighings,
+  DEFAULT_MAX_REWEIGH_CYCLES,
+  defaultAuthoritativeWeighing,
+  resolveMaxReweighCycles,
+} from '../reweigh';
+
+const tx = (id: string, reweighCycleNo: number, originalWeighingId?: string, gvwMeasuredKg = 30000) =>
+  ({ id, reweighCycleNo, originalWeighingId, gvwMeasuredKg });
+
+describe('buildReweighChain', () => {
+  it('collects the chain from any member, whether re-weighs link to the original or the previous re-weigh', () => {
+    const transactions = [
+      tx('r2', 2, 'r1', 0),
+      tx('other', 0),
+      tx('orig', 0),
+      tx('r1', 1, 'orig'),
+    ];
+    expect(buildReweighChain(transactions, 'r2').map((t) => t.id)).toEqual(['orig', 'r1', 'r2']);
+    expect(buildReweighChain(transactions, 'orig').map((t) => t.id)).toEqual(['orig', 'r1', 'r2']);
+    // r2 hasn't been captured yet, so the latest captured weighing is r1
+    expect(defaultAuthoritativeWeighing(buildReweighChain(transactions, 'orig'))?.id).toBe('r1');
+  });
+});
+
+describe('resolveMaxReweighCycles', () => {
+  it('uses the weighing limit, then the org setting, then the default', () => {
+    const settings = [{ settingKey: 'weighing.max_reweigh_cycles', settingValue: '3' }];
+    expect(resolveMaxReweighCycles(2, settings)).toBe(2);
+    expect(resolveMaxReweighCycles(undefined, settings)).toBe(3);
+    expect(resolveMaxReweighCycles(0, [])).toBe(DEFAULT_MAX_REWEIGH_CYCLES);
+  });
+});
+
+describe('compareWeighings', () => {
+  it('separates load shifted between groups from load taken off', () => {
+    const comparison = compareWeighings(
+      {
+        groups: [
+          { groupLabel: 'A', measuredKg: 7000, limitKg: 8000 },
+          { groupLabel: 'B', measuredKg: 19500, limitKg: 18000 },
+          { groupLabel: 'C', measuredKg: 16000, limitKg: 18000 },
+        ],
+        gvwMeasuredKg: 42500,
+        gvwLimitKg: 42000,
+      },
+      {
+        groups: [
+          { groupLabel: 'A', measuredKg: 7800, limitKg: 8000 },
+          { groupLabel: 'B', measuredKg: 17500, limitKg: 18000 },
+          { groupLabel: 'C', measuredKg: 16500, limitKg: 18000 },
+        ],
+        gvwMeasuredKg: 41800,
+        gvwLimitKg: 42000,
+      },
+    );
+    expect(comparison.groups.map((g) => [g.groupLabel, g.deltaKg, g.status])).toEqual([
+      ['A', 800, 'within'],
+      ['B', -2000, 'cleared'],
+      ['C', 500, 'within'],
+    ]);
+    expect(comparison.offloadedKg).toBe(700);
+    expect(comparison.shiftedKg).toBe(1300);
+    expect(comparison.compliantBefore).toBe(false);
+    expect(comparison.compliantAfter).toBe(true);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Offender risk scoring: counting a vehicle's record, weighting it from settings, and banding.
+ */
+import type { InvoiceDto } from '../api/invoice';
+import type { ConvictionRecordDto } from '../api/prosecution';
+import type { VehicleTagDto, YardEntryDto } from '../api/yard';
+import {
+  deriveVehicleRiskEvidence,
+  requiresFullInspection,
+  resolveRiskPolicy,
+  RISK_FULL_INSPECTION_KEY,
+  RISK_HIGH_THRESHOLD_KEY,
+  scoreRisk,
+} from '../risk-score';
+import type { Permit } from '@/types/weighing';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+
+const lookups = {
+  convictions: [
+    { convictionDate: '2026-03-01T00:00:00Z' },
+    { convictionDate: '2025-06-01T00:00:00Z' },
+    { convictionDate: '2022-01-01T00:00:00Z' },
+  ] as ConvictionRecordDto[],
+  tags: [{ status: 'open' }, { status: 'closed' }] as VehicleTagDto[],
+  invoices: [
+    { status: 'pending', balanceRemaining: 50000, currency: 'KES' },
+    { status: 'paid', balanceRemaining: 0, currency: 'KES' },
+    { status: 'pending', balanceRemaining: 1200, currency: 'KES', voidedAt: '2026-05-01T00:00:00Z' },
+  ] as InvoiceDto[],
+  yardEntries: [
+    { status: 'pending', stationId: 'athi-river' },
+    { status: 'pending', stationId: 'mariakani' },
+    { status: 'released', stationId: 'gilgil', releasedAt: '2026-01-01T00:00:00Z' },
+  ] as YardEntryDto[],
+  permits: [{ status: 'revoked' }, { status: 'active' }] as Permit[],
+};
+
+describe('deriveVehicleRiskEvidence', () => {
+  it('counts recent convictions, open tags, unpaid invoices, escapes elsewhere and revoked permits', () => {
+    const evidence = deriveVehicleRiskEvidence(lookups, { stationId: 'mariakani', convictionLookbackMonths: 24, now: NOW });
+    expect(evidence).toEqual({
+      convictions: 2,
+      lastConvictionDate: '2026-03-01T00:00:00Z',
+      openTags: 1,
+      unpaidInvoices: 1,
+      unpaidBalances: { KES: 50000 },
+      yardEscapes: 1,
+      revokedPermits: 1,
+    });
+  });
+});
+
+describe('scoreRisk', () => {
+  const evidence = deriveVehicleRiskEvidence(lookups, { stationId: 'mariakani', convictionLookbackMonths: 24, now: NOW });
+
+  it('adds weighted factors, largest first, with the default policy', () => {
+    const risk = scoreRisk(evidence, resolveRiskPolicy(undefined));
+    expect(risk.score).toBe(2 * 15 + 10 + 8 + 25 + 20);
+    expect(risk.band).toBe('high');
+    expect(risk.factors.map((f) => [f.factor, f.points])).toEqual([
+      ['convictions', 30],
+      ['escapes', 25],
+      ['permits', 20],
+      ['tags', 10],
+      ['invoices', 8],
+    ]);
+    expect(risk.factors.find((f) => f.factor === 'invoices')?.detail).toBe('KES 50,000 outstanding');
+  });
+
+  it('uses weights and thresholds from settings, and caps the score at 100', () => {
+    const policy = resolveRiskPolicy([
+      { settingKey: 'risk.weight.escapes', settingValue: '90' },
+      { settingKey: RISK_HIGH_THRESHOLD_KEY, settingValue: '200' },
+      { settingKey: RISK_FULL_INSPECTION_KEY, settingValue: 'true' },
+    ]);
+    const risk = scoreRisk(evidence, policy);
+    expect(risk.score).toBe(100);
+    expect(risk.band).toBe('medium');
+    expect(requiresFullInspection(risk, policy)).toBe(false);
+    expect(requiresFullInspection(scoreRisk(evidence, { ...policy, highThreshold: 60 }), policy)).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Tare policy: validity from org age / vehicle expiry / re-tare interval, variance against the
+ * rolling median, the stored-tare suggestion and the re-tare schedule.
+ */
+import {
+  evaluateTareCandidates,
+  getReTareStatus,
+  getTareValidityDays,
+  resolveTarePolicy,
+  suggestStoredTare,
+  type TareHistoryLike,
+  type TarePolicySettings,
+} from '../tare-policy';
+
+const NOW = Date.parse('2026-10-19T08:00:00.000Z');
+const daysAgo = (d: number) => new Date(NOW - d * 86_400_000).toISOString();
+
+const settings: TarePolicySettings = {
+  defaultTareExpiryDays: 90,
+  tareMaxVariancePct: 5,
+  tareMedianWindow: 5,
+  tareReTareIntervals: { Tipper: 30 },
+};
+const policy = resolveTarePolicy(settings);
+
+const history: TareHistoryLike[] = [
+  { id: 'h1', tareWeightKg: 12_000, weighedAt: daysAgo(10) },
+  { id: 'h2', tareWeightKg: 12_100, weighedAt: daysAgo(40) },
+  { id: 'h3', tareWeightKg: 11_950, weighedAt: daysAgo(60) },
+  { id: 'h4', tareWeightKg: 12_050, weighedAt: daysAgo(85) },
+];
+
+describe('getTareValidityDays', () => {
+  it('takes the tightest of vehicle expiry, org age and type interval', () => {
+    expect(getTareValidityDays({ vehicleType: 'Truck' }, policy)).toBe(90);
+    expect(getTareValidityDays({ vehicleType: 'tipper ' }, policy)).toBe(30);
+    expect(getTareValidityDays({ vehicleType: 'Truck', tareExpiryDays: 120 }, policy)).toBe(120);
+    expect(getTareValidityDays({}, resolveTarePolicy(null))).toBeNull();
+  });
+});
+
+describe('evaluateTareCandidates', () => {
+  it('marks old tares expired and keeps the stored tare when history does not have it', () => {
+    const evals = evaluateTareCandidates(
+      { lastTareWeightKg: 12_020, lastTareWeighedAt: daysAgo(2), defaultTareWeightKg: 11_800 },
+      [...history, { id: 'h5', tareWeightKg: 12_000, weighedAt: daysAgo(100) }],
+      policy,
+      NOW,
+    );
+    expect(evals.map((e) => e.id)).toEqual(['stored', 'h1', 'h2', 'h3', 'h4', 'h5', 'preset']);
+    expect(evals.find((e) => e.id === 'h5')).toMatchObject({ status: 'expired', usable: false });
+    expect(evals.find((e) => e.id === 'h4')).toMatchObject({ status: 'expiring', expiresInDays: 5, usable: true });
+    expect(suggestStoredTare(evals)?.id).toBe('stored');
+  });
+
+  it('blocks a tare far from the median and suggests the next valid one', () => {
+    const evals = evaluateTareCandidates(
+      {},
+      [{ id: 'bad', tareWeightKg: 14_500, weighedAt: daysAgo(1) }, ...history],
+      policy,
+      NOW,
+    );
+    const bad = evals.find((e) => e.id === 'bad')!;
+    expect(bad).toMatchObject({ status: 'anomalous', usable: false, medianKg: 12_025 });
+    expect(bad.reason).toMatch(/\+20\.6% from the median/);
+    expect(suggestStoredTare(evals)?.id).toBe('h1');
+  });
+
+  it('skips the variance check with too few other tares, and expires the preset with the measured tares', () => {
+    const vehicle = { defaultTareWeightKg: 9_000, vehicleType: 'Tipper' };
+    const expiredHistory = [
+      { id: 'a', tareWeightKg: 15_000, weighedAt: daysAgo(45) },
+      { id: 'b', tareWeightKg: 9_000, weighedAt: daysAgo(50) },
+    ];
+    const evals = evaluateTareCandidates(vehicle, expiredHistory, policy, NOW);
+    expect(evals.every((e) => e.variancePct === null)).toBe(true);
+    expect(evals.filter((e) => e.source === 'history').every((e) => e.status === 'expired')).toBe(true);
+    expect(evals.find((e) => e.id === 'preset')).toMatchObject({ status: 'expired', usable: false });
+    expect(suggestStoredTare(evals)).toBeNull();
+
+    // Still a fallback while a measured tare is usable, or when the policy sets no limits at all.
+    const fresh = evaluateTareCandidates(vehicle, [{ id: 'c', tareWeightKg: 9_050, weighedAt: daysAgo(5) }], policy, NOW);
+    expect(fresh.find((e) => e.id === 'preset')).toMatchObject({ status: 'valid', usable: true });
+    const unlimited = evaluateTareCandidates(vehicle, expiredHistory, resolveTarePolicy(null), NOW);
+    expect(suggestStoredTare(unlimited.filter((e) => e.source === 'preset'))).toMatchObject({ id: 'preset', tareWeightKg: 9_000 });
+  });
+
+  it('ages a preset with no measured tare from when it was set', () => {
+    const preset = (vehicle: object) =>
+      evaluateTareCandidates({ defaultTareWeightKg: 9_000, vehicleType: 'Tipper', ...vehicle }, [], policy, NOW)[0];
+    expect(preset({ defaultTareSetAt: daysAgo(10) })).toMatchObject({ status: 'valid', usable: true, ageDays: 10 });
+    expect(preset({ defaultTareSetAt: daysAgo(40) })).toMatchObject({ status: 'expired', usable: false, reason: 'Set 40 days ago (limit 30 days)' });
+    expect(preset({ updatedAt: daysAgo(40) })).toMatchObject({ status: 'expired', usable: false });
+    expect(preset({})).toMatchObject({ status: 'expired', usable: false });
+    expect(evaluateTareCandidates({ defaultTareWeightKg: 9_000 }, [], resolveTarePolicy(null), NOW)[0].usable).toBe(true);
+  });
+});
+
+describe('getReTareStatus', () => {
+  it('reports overdue, due-soon and unrestricted vehicles', () => {
+    expect(getReTareStatus({ vehicleType: 'Tipper', lastTareWeighedAt: daysAgo(35) }, policy, NOW)).toMatchObject({
+      intervalDays: 30,
+      daysLeft: -5,
+      status: 'overdue',
+    });
+    expect(getReTareStatus({ vehicleType: 'Tipper', lastTareWeighedAt: daysAgo(25) }, policy, NOW).status).toBe('due-soon');
+    expect(getReTareStatus({ lastTareWeighedAt: daysAgo(25) }, resolveTarePolicy(null), NOW).status).toBe('not-required');
+    expect(getReTareStatus({}, policy, NOW).status).toBe('no-tare');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Warrant watch-list: matching the vehicle and driver at the station against active warrants.
+ */
+import type { WarrantWatchEntryDto } from '../api/arrestWarrant';
+import { matchWarrants, warrantAlertKey } from '../warrant-watch';
+
+const warrant = (overrides: Partial<WarrantWatchEntryDto>): WarrantWatchEntryDto => ({
+  warrantId: 'w1',
+  warrantNo: 'WRT/2026/001',
+  caseRegisterId: 'c1',
+  accusedName: 'John Kamau',
+  issuedDate: '2026-09-01T00:00:00Z',
+  ...overrides,
+});
+
+describe('matchWarrants', () => {
+  const list = [
+    warrant({ warrantId: 'w1', vehicleRegNumber: 'KCA 123A' }),
+    warrant({ warrantId: 'w2', vehicleRegNumber: 'KDB 456B', accusedIdNo: '12345678', driverLicenseNo: 'DL-998877' }),
+    warrant({ warrantId: 'w3', vehicleRegNumber: 'N/A', accusedIdNo: '0' }),
+  ];
+
+  it('matches plates and IDs ignoring case, spaces and punctuation, strongest match first', () => {
+    const matches = matchWarrants(list, { vehicleRegNumber: 'kca-123a', driverIdNumber: '12345678', driverLicenseNo: 'dl998877' });
+    expect(matches.map((m) => [m.warrant.warrantId, m.matchedOn])).toEqual([
+      ['w2', ['driver-id', 'licence']],
+      ['w1', ['vehicle']],
+    ]);
+  });
+
+  it('never matches placeholders or identifiers that are too short', () => {
+    expect(matchWarrants(list, { vehicleRegNumber: 'n/a', driverIdNumber: '0' })).toEqual([]);
+    expect(matchWarrants(list, { vehicleRegNumber: '' })).toEqual([]);
+  });
+});
+
+describe('warrantAlertKey', () => {
+  it('is the same for the same warrant and subject however the plate is typed', () => {
+    expect(warrantAlertKey('w1', { vehicleRegNumber: 'KCA 123A' })).toBe(warrantAlertKey('w1', { vehicleRegNumber: 'kca123a' }));
+    expect(warrantAlertKey('w1', { vehicleRegNumber: 'KCA 123A' })).not.toBe(warrantAlertKey('w2', { vehicleRegNumber: 'KCA 123A' }));
+  });
+});
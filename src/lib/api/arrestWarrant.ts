@@ -43,6 +43,32 @@ export interface CreateArrestWarrantRequest {
 export interface ExecuteWarrantRequest {
   executionDetails: string;
   executionDate?: string;
+  /** Where the accused was arrested, e.g. the weighbridge station name. */
+  executionLocation?: string;
+  executedAtStationId?: string;
+  executingOfficerId?: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+/**
+ * Active warrant as pushed to station watch-lists: the accused plus the vehicle and driver
+ * identifiers recorded on the case, so a station can stop them without opening the case.
+ */
+export interface WarrantWatchEntryDto {
+  warrantId: string;
+  warrantNo: string;
+  caseRegisterId: string;
+  caseNo?: string;
+  accusedName: string;
+  accusedIdNo?: string;
+  driverLicenseNo?: string;
+  vehicleRegNumber?: string;
+  offenceDescription?: string;
+  issuedBy?: string;
+  issuedDate: string;
+  warrantStatusName?: string;
+  warrantFileUrl?: string;
 }
 
 export interface DropWarrantRequest {
@@ -62,6 +88,12 @@ export async function getWarrantsByCaseId(caseId: string): Promise<ArrestWarrant
   return data;
 }
 
+/** Every active (issued, not executed, dropped or lifted) warrant, for the station watch-list. */
+export async function getWarrantWatchList(): Promise<WarrantWatchEntryDto[]> {
+  const { data } = await apiClient.get<WarrantWatchEntryDto[]>('/case/warrants/watch-list');
+  return data;
+}
+
 export async function getWarrantById(id: string): Promise<ArrestWarrantDto> {
   const { data } = await apiClient.get<ArrestWarrantDto>(`/case/warrants/${id}`);
   return data;
@@ -74,9 +106,10 @@ export async function createWarrant(request: CreateArrestWarrantRequest): Promis
 
 export async function executeWarrant(
   id: string,
-  request: ExecuteWarrantRequest
+  request: ExecuteWarrantRequest,
+  headers?: Record<string, string>
 ): Promise<ArrestWarrantDto> {
-  const { data } = await apiClient.post<ArrestWarrantDto>(`/case/warrants/${id}/execute`, request);
+  const { data } = await apiClient.post<ArrestWarrantDto>(`/case/warrants/${id}/execute`, request, { headers });
   return data;
 }
 
@@ -58,6 +58,22 @@ export interface AuditLogQueryParams {
   orderBy?: string;
 }
 
+/**
+ * Client-side event the server cannot see on its own (e.g. a capture refused by the
+ * browser before any request was made). Stored alongside the request-level audit entries.
+ */
+export interface ClientAuditEventDto {
+  action: string;
+  resourceType: string;
+  resourceId?: string;
+  resourceName?: string;
+  success: boolean;
+  denialReason?: string;
+  /** Free-form context (readings, thresholds, station). */
+  details?: Record<string, unknown>;
+  occurredAt: string;
+}
+
 // ============================================================================
 // API Functions
 // ============================================================================
@@ -116,6 +132,13 @@ export async function getFailedAuditEntries(userId?: string, hours = 24) {
   return response.data;
 }
 
+/**
+ * Record a client-side audit event.
+ */
+export async function recordClientAuditEvent(event: ClientAuditEventDto) {
+  await apiClient.post('/audit-logs/client-events', event);
+}
+
 // ============================================================================
 // Exported API Object
 // ============================================================================
@@ -127,4 +150,5 @@ export const auditLogApi = {
   getByUser: getAuditLogsByUser,
   getSummary: getAuditLogSummary,
   getFailed: getFailedAuditEntries,
+  recordClientEvent: recordClientAuditEvent,
 };
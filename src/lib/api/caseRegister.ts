@@ -9,6 +9,9 @@ export interface CaseRegisterDto {
   caseNo: string;
   weighingId?: string;
   weighingTicketNo?: string;
+  /** Weighing the charge rests on when the vehicle was re-weighed (defaults to weighingId). */
+  authoritativeWeighingId?: string;
+  authoritativeTicketNo?: string;
   yardEntryId?: string;
   prohibitionOrderId?: string;
   prohibitionNo?: string;
@@ -60,6 +63,8 @@ export interface CaseRegisterDto {
   closedByName?: string;
   closingReason?: string;
   updatedAt: string;
+  /** Optimistic-concurrency token; sent back as If-Match on updates. */
+  rowVersion?: string;
 
   // Overload analysis (populated when case originates from a weighing)
   actualWeightKg?: number;
@@ -175,6 +180,26 @@ export interface DispositionTypeDto {
   isActive: boolean;
 }
 
+/** A recorded case workflow transition (state names as in lib/case-workflow). */
+export interface CaseTransitionDto {
+  id: string;
+  caseRegisterId: string;
+  fromState?: string;
+  toState: string;
+  /** Action that caused it (escalate, close, …); absent for prosecution/invoice driven changes. */
+  action?: string;
+  at: string;
+  byName?: string;
+  reason?: string;
+  /** True for system transitions such as SLA auto-escalation. */
+  automatic?: boolean;
+}
+
+export interface AutoEscalateCaseRequest {
+  caseManagerId: string;
+  reason: string;
+}
+
 // ============================================================================
 // Special Release Types
 // ============================================================================
@@ -281,11 +306,23 @@ export async function createCase(request: CreateCaseRequest): Promise<CaseRegist
   return data;
 }
 
+export interface CreateCaseFromWeighingRequest {
+  weighingId: string;
+  /** Re-weighed vehicles: the weighing in the chain the case rests on. */
+  authoritativeWeighingId?: string;
+  /** Required when the authoritative weighing isn't the latest captured one. */
+  authoritativeReason?: string;
+}
+
 /**
  * Auto-create case from weighing violation
  */
-export async function createCaseFromWeighing(weighingId: string): Promise<CaseRegisterDto> {
-  const { data } = await apiClient.post<CaseRegisterDto>(`/case/cases/from-weighing/${weighingId}`);
+export async function createCaseFromWeighing(request: string | CreateCaseFromWeighingRequest): Promise<CaseRegisterDto> {
+  const { weighingId, ...body } = typeof request === 'string' ? { weighingId: request } : request;
+  const { data } = await apiClient.post<CaseRegisterDto>(
+    `/case/cases/from-weighing/${weighingId}`,
+    body.authoritativeWeighingId ? body : undefined
+  );
   return data;
 }
 
@@ -298,10 +335,12 @@ export async function createCaseFromProhibition(prohibitionOrderId: string): Pro
 }
 
 /**
- * Update case details
+ * Update case details. Pass the loaded record's version to reject the update (409/412) if the
+ * case changed since it was loaded.
  */
-export async function updateCase(id: string, request: UpdateCaseRequest): Promise<CaseRegisterDto> {
-  const { data } = await apiClient.put<CaseRegisterDto>(`/case/cases/${id}`, request);
+export async function updateCase(id: string, request: UpdateCaseRequest, version?: string): Promise<CaseRegisterDto> {
+  const headers = version ? { 'If-Match': `"${version}"` } : undefined;
+  const { data } = await apiClient.put<CaseRegisterDto>(`/case/cases/${id}`, request, { headers });
   return data;
 }
 
@@ -321,6 +360,22 @@ export async function escalateCase(id: string, caseManagerId: string): Promise<C
   return data;
 }
 
+/**
+ * Escalate an overdue case to the case manager on behalf of the system (recorded as automatic)
+ */
+export async function autoEscalateCase(id: string, request: AutoEscalateCaseRequest): Promise<CaseRegisterDto> {
+  const { data } = await apiClient.post<CaseRegisterDto>(`/case/cases/${id}/auto-escalate`, request);
+  return data;
+}
+
+/**
+ * Get the workflow transition history of a case, oldest first
+ */
+export async function getCaseTransitions(id: string): Promise<CaseTransitionDto[]> {
+  const { data } = await apiClient.get<CaseTransitionDto[]>(`/case/cases/${id}/transitions`);
+  return data;
+}
+
 /**
  * Assign investigating officer
  */
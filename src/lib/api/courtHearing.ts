@@ -21,11 +21,30 @@ export interface CourtHearingDto {
   minuteNotes?: string;
   nextHearingDate?: string;
   adjournmentReason?: string;
+  /** Hearing this one was adjourned from, when the server recorded the link. */
+  adjournedFromHearingId?: string;
   presidingOfficer?: string;
+  /** People expected in court, from the case (filled by the range query). */
+  prosecutorId?: string;
+  prosecutorName?: string;
+  investigatingOfficerId?: string;
+  investigatingOfficerName?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface HearingRangeParams {
+  /** Inclusive dates, YYYY-MM-DD. */
+  from: string;
+  to: string;
+}
+
+export interface HearingCalendarFeedDto {
+  userId: string;
+  /** Tokenised iCalendar URL to subscribe to from a phone or desktop calendar. */
+  url: string;
+}
+
 export interface CreateCourtHearingRequest {
   courtId?: string;
   hearingDate: string;
@@ -117,6 +136,22 @@ export async function getHearingsByCaseId(caseId: string): Promise<CourtHearingD
   return data;
 }
 
+/**
+ * Get hearings across all cases between two dates
+ */
+export async function getHearingsInRange(params: HearingRangeParams): Promise<CourtHearingDto[]> {
+  const { data } = await apiClient.get<CourtHearingDto[]>('/hearings', { params });
+  return data;
+}
+
+/**
+ * Get (or create) a user's subscribable hearing calendar feed
+ */
+export async function getHearingCalendarFeed(userId: string): Promise<HearingCalendarFeedDto> {
+  const { data } = await apiClient.get<HearingCalendarFeedDto>(`/hearings/calendar-feed/${userId}`);
+  return data;
+}
+
 /**
  * Get hearing by ID
  */
@@ -13,6 +13,7 @@ import type {
   PortalDashboardStats,
   PortalDriver,
   PortalDriverPerformance,
+  PortalFleetRisk,
   PortalRegistrationRequest,
   PortalRegistrationResponse,
   PortalSubscription,
@@ -113,6 +114,15 @@ export async function getDriverPerformance(driverId: string): Promise<PortalDriv
   return data;
 }
 
+// ============================================================================
+// Fleet Risk
+// ============================================================================
+
+export async function getPortalFleetRisk(): Promise<PortalFleetRisk> {
+  const { data } = await apiClient.get<PortalFleetRisk>('/portal/fleet-risk');
+  return data;
+}
+
 // ============================================================================
 // Consignments
 // ============================================================================
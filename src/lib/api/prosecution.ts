@@ -234,6 +234,34 @@ export interface HabitualOffenderDto {
   totalFinesUsd: number;
 }
 
+/**
+ * Counted enforcement record behind a risk score (see lib/risk-score). Convictions are only those
+ * within the configured lookback window.
+ */
+export interface RiskEvidenceDto {
+  convictions: number;
+  lastConvictionDate?: string;
+  openTags: number;
+  unpaidInvoices: number;
+  /** Outstanding balance per currency. */
+  unpaidBalances?: Record<string, number>;
+  yardEscapes: number;
+  revokedPermits: number;
+}
+
+/** Risk evidence for the driver and transporter at the scale; either is omitted when not asked for. */
+export interface OffenderRiskEvidenceDto {
+  driver?: RiskEvidenceDto;
+  transporter?: RiskEvidenceDto;
+}
+
+export interface OffenderRiskEvidenceParams {
+  driverId?: string;
+  transporterId?: string;
+  /** Only convictions within this many months count (the organisation's risk policy). */
+  convictionLookbackMonths: number;
+}
+
 export interface HabitualOffendersResult {
   items: HabitualOffenderDto[];
   totalCount: number;
@@ -277,6 +305,17 @@ export async function getHabitualOffenders(
   return data;
 }
 
+/**
+ * Get risk evidence for a driver and/or transporter, counted across every vehicle they're linked to
+ */
+export async function getOffenderRiskEvidence(params: OffenderRiskEvidenceParams): Promise<OffenderRiskEvidenceDto> {
+  const { data } = await apiClient.get<OffenderRiskEvidenceDto>(
+    '/prosecutions/habitual-offenders/risk-evidence',
+    { params }
+  );
+  return data;
+}
+
 export interface ProsecutionDefaults {
   defaultCourtId?: string;
   defaultComplainantOfficerId?: string;
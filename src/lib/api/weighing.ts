@@ -1,4 +1,6 @@
 import { apiClient } from '@/lib/api/client';
+import type { ConvoySegmentKind } from '@/lib/convoy-weighing';
+import { buildReweighChain } from '@/lib/reweigh';
 import { AxleWeightReferenceDto } from '@/types/weighing';
 
 // ============================================================================
@@ -20,8 +22,11 @@ export interface Vehicle {
   // Commercial tare management fields
   lastTareWeightKg?: number;
   defaultTareWeightKg?: number;
+  /** When the preset tare was last set. */
+  defaultTareSetAt?: string;
   lastTareWeighedAt?: string;
   tareExpiryDays?: number;
+  updatedAt?: string;
 }
 
 export interface Driver {
@@ -508,6 +513,15 @@ export async function searchWeighingTransactions(
   return data;
 }
 
+/**
+ * A weighing and all its re-weighs, original first. Re-weighs are found through the vehicle's
+ * recent transactions since they only carry a link back to the weighing they repeat.
+ */
+export async function getReweighChain(weighingId: string, vehicleRegNo: string): Promise<WeighingTransaction[]> {
+  const result = await searchWeighingTransactions({ vehicleRegNo, pageNumber: 1, pageSize: 50 });
+  return buildReweighChain(result.items, weighingId);
+}
+
 export async function getWeighingTransaction(id: string): Promise<WeighingTransaction> {
   const { data } = await apiClient.get<WeighingTransaction>(`/weighing-transactions/${id}`);
   return data;
@@ -1003,6 +1017,8 @@ export interface ComplianceResult {
   groupResults: AxleGroupResult[];
   gvwMeasuredKg: number;
   gvwPermissibleKg: number;
+  /** GVW limit including tolerance (falls back to gvwPermissibleKg when absent) */
+  gvwEffectiveLimitKg?: number;
   gvwOverloadKg: number;
   totalAxleFeeUsd: number;
   gvwFeeUsd: number;
@@ -1209,6 +1225,45 @@ export async function downloadWeightTicketPdf(weighingId: string): Promise<Blob>
   return data;
 }
 
+/** Evidence frame stored on the server for a weighing (uploaded by the capturing device). */
+export interface WeighingEvidenceDto {
+  id: string;
+  kind: 'anpr' | 'front' | 'overview';
+  capturedAt: string;
+  capturedBy?: string;
+  plateNumber?: string;
+  confidence?: number;
+  /** SHA-256 recorded at capture time. */
+  sha256?: string;
+  mimeType?: string;
+  url?: string;
+}
+
+/**
+ * Evidence frames for a weighing captured on another device (or since cleared locally)
+ */
+export async function fetchWeighingEvidence(weighingId: string): Promise<WeighingEvidenceDto[]> {
+  const { data } = await apiClient.get<WeighingEvidenceDto[]>(`/weighing-transactions/${weighingId}/evidence`);
+  return data ?? [];
+}
+
+/** ANPR plate review (confirmed as read or corrected) recorded during a weighing. */
+export interface WeighingPlateReviewDto {
+  id: string;
+  readPlate: string;
+  finalPlate: string;
+  confidence?: number;
+  action: 'confirmed' | 'corrected';
+  reason?: string;
+  reviewedBy?: string;
+  reviewedAt: string;
+}
+
+export async function fetchWeighingPlateReviews(weighingId: string): Promise<WeighingPlateReviewDto[]> {
+  const { data } = await apiClient.get<WeighingPlateReviewDto[]>(`/weighing-transactions/${weighingId}/plate-reviews`);
+  return data ?? [];
+}
+
 /**
  * Helper to trigger PDF download in browser
  */
@@ -1227,6 +1282,50 @@ export async function downloadAndSavePdf(
   document.body.removeChild(a);
 }
 
+// ============================================================================
+// Convoy Weighing API
+// ============================================================================
+
+/** One unit of a combination weighed as a convoy (prime mover, dolly, trailer…). */
+export interface ConvoySegmentDto {
+  sequence: number;
+  kind: ConvoySegmentKind;
+  regNo?: string;
+  axleConfigurationId: string;
+  axleCode: string;
+  /** First axle of the segment in the joined configuration (1-based). */
+  firstAxleNumber: number;
+  axleCount: number;
+  measuredWeightKg: number;
+  coupled: boolean;
+}
+
+export interface SaveConvoyRequest {
+  permitNo?: string;
+  /** Joined configuration code, e.g. "3A+2D+3T". */
+  combinedAxleCode: string;
+  segments: ConvoySegmentDto[];
+}
+
+/**
+ * Record the segments of a convoy weighing. Sent before the joined axle weights are captured so
+ * the server checks the combination as one vehicle.
+ */
+export async function saveConvoySegments(weighingId: string, request: SaveConvoyRequest): Promise<ConvoySegmentDto[]> {
+  const { data } = await apiClient.put<ConvoySegmentDto[]>(`/weighing-transactions/${weighingId}/convoy`, request);
+  return data;
+}
+
+/**
+ * Convoy weight ticket PDF: the combination's totals and permit limits with a section per segment.
+ */
+export async function downloadConvoyTicketPdf(weighingId: string): Promise<Blob> {
+  const { data } = await apiClient.get<Blob>(`/weighing-transactions/${weighingId}/convoy/ticket/pdf`, {
+    responseType: 'blob',
+  });
+  return data;
+}
+
 // ============================================================================
 // Commercial Weighing API
 // ============================================================================
@@ -1234,6 +1333,10 @@ export async function downloadAndSavePdf(
 import type {
   CaptureFirstWeightRequest,
   CaptureSecondWeightRequest,
+  CommercialContract,
+  CommercialContractDelivery,
+  CommercialContractRequest,
+  CommercialContractStatus,
   CommercialWeighingResult,
   InitiateCommercialWeighingRequest,
   UpdateQualityDeductionRequest,
@@ -1371,6 +1474,21 @@ export async function updateQualityDeduction(
   return data;
 }
 
+/**
+ * Attach the transaction to a contract, or detach it (contractId null) so it's
+ * ticketed as a standalone trip.
+ */
+export async function setCommercialWeighingContract(
+  id: string,
+  contractId: string | null
+): Promise<CommercialWeighingResult> {
+  const { data } = await apiClient.put<CommercialWeighingResult>(
+    `/commercial-weighing/${id}/contract`,
+    { contractId }
+  );
+  return data;
+}
+
 /**
  * Get tare weight history for a vehicle.
  */
@@ -1429,6 +1547,71 @@ export async function getVehiclesPaged(
   return data;
 }
 
+// ============================================================================
+// Commercial Contracts API
+// ============================================================================
+
+export interface CommercialContractListParams {
+  status?: CommercialContractStatus;
+  search?: string;
+}
+
+export async function getCommercialContracts(
+  params: CommercialContractListParams = {}
+): Promise<CommercialContract[]> {
+  const { data } = await apiClient.get<CommercialContract[]>('/commercial-weighing/contracts', { params });
+  return data;
+}
+
+export async function getCommercialContract(id: string): Promise<CommercialContract> {
+  const { data } = await apiClient.get<CommercialContract>(`/commercial-weighing/contracts/${id}`);
+  return data;
+}
+
+export async function createCommercialContract(
+  payload: CommercialContractRequest
+): Promise<CommercialContract> {
+  const { data } = await apiClient.post<CommercialContract>('/commercial-weighing/contracts', payload);
+  return data;
+}
+
+export async function updateCommercialContract(
+  id: string,
+  payload: CommercialContractRequest
+): Promise<CommercialContract> {
+  const { data } = await apiClient.put<CommercialContract>(`/commercial-weighing/contracts/${id}`, payload);
+  return data;
+}
+
+/**
+ * Close a contract. No further weighings can attach to it; the statement is frozen.
+ */
+export async function closeCommercialContract(id: string): Promise<CommercialContract> {
+  const { data } = await apiClient.post<CommercialContract>(`/commercial-weighing/contracts/${id}/close`);
+  return data;
+}
+
+/**
+ * Completed weighings counted against a contract, oldest first.
+ */
+export async function getCommercialContractDeliveries(id: string): Promise<CommercialContractDelivery[]> {
+  const { data } = await apiClient.get<CommercialContractDelivery[]>(
+    `/commercial-weighing/contracts/${id}/deliveries`
+  );
+  return data;
+}
+
+/**
+ * Contract statement PDF: every delivery, running totals, and the amount due at the contract price.
+ */
+export async function getCommercialContractStatementPdf(id: string): Promise<Blob> {
+  const { data } = await apiClient.get<Blob>(
+    `/commercial-weighing/contracts/${id}/statement/pdf`,
+    { responseType: 'blob' }
+  );
+  return data;
+}
+
 // ============================================================================
 // Commercial Tolerance Settings API
 // ============================================================================
@@ -137,6 +137,17 @@ export async function getCurrentUser(): Promise<User> {
   return data;
 }
 
+/**
+ * Update the current user's own preferences on their profile. `preferredLocale: null` goes back
+ * to the organisation's default language.
+ *
+ * @returns Updated user profile
+ */
+export async function updateProfilePreferences(preferences: { preferredLocale: string | null }): Promise<User> {
+  const { data } = await apiClient.patch<User>('/auth/profile', preferences);
+  return data;
+}
+
 /**
  * Change current user's password.
  */
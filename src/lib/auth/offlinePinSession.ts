@@ -19,10 +19,13 @@ import {
 import { useAuthStore } from '@/stores/auth.store';
 import {
   enableOfflinePin,
+  getOfflinePinUserLabel,
+  OFFLINE_PIN_MAX_ATTEMPTS,
   unlockWithPin,
   type CachedSession,
   type UnlockResult,
 } from '@/lib/offline/offlinePin';
+import { recordOfflineActivity } from '@/lib/offline/activityLog';
 import type { User } from '@/types/auth/types';
 
 export {
@@ -55,7 +58,9 @@ export async function enrollOfflinePin(pin: string): Promise<void> {
 
 /** Verify the PIN and, on success, rehydrate the session into the live auth layer. */
 export async function unlockOfflineSession(pin: string): Promise<UnlockResult> {
+  const userLabel = getOfflinePinUserLabel() ?? undefined; // read first: a lockout wipes it
   const res = await unlockWithPin(pin);
+  await recordUnlockAttempt(res, userLabel);
   if (res.ok) {
     const s = res.session;
     const nowSec = Math.floor(Date.now() / 1000);
@@ -74,3 +79,25 @@ export async function unlockOfflineSession(pin: string): Promise<UnlockResult> {
   }
   return res;
 }
+
+/** Offline activity log entry for an unlock attempt — the server can't see these happen. */
+async function recordUnlockAttempt(res: UnlockResult, userLabel?: string): Promise<void> {
+  if (res.ok) {
+    const user = res.session.user as User;
+    await recordOfflineActivity({
+      kind: 'PIN_UNLOCK',
+      userId: user.id,
+      userLabel: user.email ?? user.fullName ?? undefined,
+      details: { stationId: res.session.stationId ?? null },
+    });
+  } else if (res.reason === 'wrong') {
+    await recordOfflineActivity({
+      kind: 'PIN_UNLOCK_FAILED',
+      success: false,
+      userLabel,
+      details: { attemptsRemaining: res.attemptsRemaining },
+    });
+  } else if (res.reason === 'locked') {
+    await recordOfflineActivity({ kind: 'PIN_LOCKOUT', success: false, userLabel, details: { maxAttempts: OFFLINE_PIN_MAX_ATTEMPTS } });
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Axle configuration matcher
+ *
+ * Ranks AxleConfiguration records against what the scale actually measured, so a wrong manual
+ * pick (which gives wrong group permissibles and wrong fines) is caught before capture. Pure and
+ * synchronous — it runs on the cached configuration list too, so it works offline.
+ *
+ * Evidence used, per candidate with the right axle (or group) count:
+ *  - weight profile: each axle's/group's share of the GVW against its share of the config's legal
+ *    weights (1 − total variation distance, so 1 = identical distribution);
+ *  - spacing (when the middleware reports it): whether each gap between consecutive axles is a
+ *    within-group gap (< GROUP_GAP_M) exactly where the config groups those two axles together.
+ */
+import type { AxleConfiguration } from '@/types/weighing';
+
+/** Axles closer than this are treated as the same group (tandem/tridem spreads are ~1.2-1.8 m). */
+export const GROUP_GAP_M = 2.2;
+
+export interface AxleMatchInput {
+  /** Per-axle weights in axle order (mobile capture / WIM), as far as captured. A zero reading is still an axle. */
+  axleWeightsKg?: number[];
+  /**
+   * Axles the scale counted on the vehicle, when it reports them. With it, a partial capture is
+   * matched against configs of that size on the axles weighed so far; without it the axle weights
+   * are taken to be the whole vehicle.
+   */
+  axleCount?: number;
+  /** Per-group weights in group order (multideck: one deck per group). Used when axle weights are absent. */
+  groupWeightsKg?: number[];
+  /** Gaps between consecutive axles in metres (length = axles − 1). */
+  axleSpacingsM?: number[];
+  /** Config code registered on the vehicle record, if known. */
+  registeredConfigCode?: string | null;
+}
+
+export interface AxleConfigCandidate {
+  config: AxleConfiguration;
+  /** 0-1 combined match score. */
+  score: number;
+  weightScore: number;
+  spacingScore?: number;
+}
+
+export type MatchConfidence = 'high' | 'medium' | 'low';
+
+export interface AxleConfigMatchResult {
+  candidates: AxleConfigCandidate[];
+  confidence: MatchConfidence | null;
+  /** Set when the vehicle's registered config is clearly not what was measured. */
+  registeredMismatch?: {
+    registeredConfigCode: string;
+    /** Score of the registered config, or null when its axle/group count doesn't fit at all. */
+    registeredScore: number | null;
+    suggestedConfigCode: string;
+  };
+}
+
+interface ConfigShape {
+  axleLegalKg: number[];
+  axleGroups: string[];
+  groupLegalKg: number[];
+}
+
+function shapeOf(config: AxleConfiguration): ConfigShape | null {
+  const refs = [...(config.weightReferences ?? [])].sort((a, b) => a.axlePosition - b.axlePosition);
+  if (refs.length === 0) return null;
+  const groupOrder: string[] = [];
+  const groupKg = new Map<string, number>();
+  for (const r of refs) {
+    if (!groupKg.has(r.axleGrouping)) groupOrder.push(r.axleGrouping);
+    groupKg.set(r.axleGrouping, (groupKg.get(r.axleGrouping) ?? 0) + r.axleLegalWeightKg);
+  }
+  return {
+    axleLegalKg: refs.map((r) => r.axleLegalWeightKg),
+    axleGroups: refs.map((r) => r.axleGrouping),
+    groupLegalKg: groupOrder.map((g) => groupKg.get(g)!),
+  };
+}
+
+/** 1 − total variation distance between the two share distributions. */
+function profileSimilarity(measured: number[], legal: number[]): number {
+  const mTotal = measured.reduce((s, v) => s + v, 0);
+  const lTotal = legal.reduce((s, v) => s + v, 0);
+  if (mTotal <= 0 || lTotal <= 0) return 0;
+  const tvd = measured.reduce((s, v, i) => s + Math.abs(v / mTotal - legal[i] / lTotal), 0) / 2;
+  return 1 - tvd;
+}
+
+function spacingSimilarity(spacings: number[], groups: string[]): number {
+  let matched = 0;
+  for (let i = 0; i < spacings.length; i++) {
+    const sameGroupMeasured = spacings[i] < GROUP_GAP_M;
+    const sameGroupConfig = groups[i] === groups[i + 1];
+    if (sameGroupMeasured === sameGroupConfig) matched++;
+  }
+  return spacings.length ? matched / spacings.length : 0;
+}
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function scoreConfig(config: AxleConfiguration, input: AxleMatchInput): AxleConfigCandidate | null {
+  const shape = shapeOf(config);
+  if (!shape) return null;
+
+  const axleWeights = input.axleWeightsKg ?? [];
+  if (axleWeights.some((w) => w > 0)) {
+    const axleCount = Math.max(input.axleCount ?? 0, axleWeights.length);
+    if (shape.axleLegalKg.length !== axleCount) return null;
+    const weightScore = profileSimilarity(axleWeights, shape.axleLegalKg.slice(0, axleWeights.length));
+    const spacings = input.axleSpacingsM;
+    if (spacings && spacings.length === axleCount - 1 && spacings.length > 0) {
+      const spacingScore = spacingSimilarity(spacings, shape.axleGroups);
+      // Spacing is the stronger signal: two configs with the same axle count usually differ in grouping.
+      return { config, score: round3(0.6 * spacingScore + 0.4 * weightScore), weightScore: round3(weightScore), spacingScore: round3(spacingScore) };
+    }
+    return { config, score: round3(weightScore), weightScore: round3(weightScore) };
+  }
+
+  // Empty decks past the end of the vehicle aren't groups; an empty deck under it still is.
+  const decks = input.groupWeightsKg ?? [];
+  const groupWeights = decks.slice(0, decks.findLastIndex((w) => w > 0) + 1);
+  if (groupWeights.length > 0) {
+    if (shape.groupLegalKg.length !== groupWeights.length) return null;
+    const weightScore = profileSimilarity(groupWeights, shape.groupLegalKg);
+    return { config, score: round3(weightScore), weightScore: round3(weightScore) };
+  }
+  return null;
+}
+
+/** Rank the configurations against the measurement; returns the best `limit` candidates. */
+export function rankAxleConfigurations(
+  configs: AxleConfiguration[],
+  input: AxleMatchInput,
+  limit = 3,
+): AxleConfigMatchResult {
+  const all = configs
+    .filter((c) => c.isActive !== false)
+    .map((c) => scoreConfig(c, input))
+    .filter((c): c is AxleConfigCandidate => c !== null)
+    // Equal scores: prefer the standard configuration, then the lower code for a stable order.
+    .sort((a, b) =>
+      b.score - a.score
+      || Number(b.config.isStandard) - Number(a.config.isStandard)
+      || a.config.axleCode.localeCompare(b.config.axleCode));
+
+  if (all.length === 0) return { candidates: [], confidence: null };
+
+  const [top, second] = all;
+  const lead = second ? top.score - second.score : top.score;
+  const confidence: MatchConfidence =
+    top.score >= 0.9 && lead >= 0.05 ? 'high' : top.score >= 0.75 ? 'medium' : 'low';
+
+  const result: AxleConfigMatchResult = { candidates: all.slice(0, limit), confidence };
+
+  const registered = input.registeredConfigCode;
+  if (registered && registered !== top.config.axleCode) {
+    const reg = all.find((c) => c.config.axleCode === registered);
+    // A registered config that doesn't even fit the axle count is always a mismatch; otherwise
+    // only flag it when the measurement clearly prefers another config.
+    if (!reg || top.score - reg.score >= 0.1) {
+      result.registeredMismatch = {
+        registeredConfigCode: registered,
+        registeredScore: reg?.score ?? null,
+        suggestedConfigCode: top.config.axleCode,
+      };
+    }
+  }
+  return result;
+}
@@ -0,0 +1,271 @@
+/**
+ * Calibration drift analytics over scale-test history.
+ *
+ * Every scale test records how far the scale read from the known test load. Plotted over time
+ * per station, bound and channel (the whole scale for mobile tests, each deck for multideck),
+ * those deviations drift as load cells age. A least-squares line through the points since the
+ * last recalibration predicts when the deviation will cross the calibration tolerance
+ * (`ScaleTest.MaxDeviationKg` in the calibration settings).
+ *
+ * The result gates weighing the same way a missing scale test does: a station/bound is blocked
+ * once the latest test is out of tolerance or a reliable trend says the scale already is.
+ */
+
+import type { ScaleTest } from '@/lib/api/weighing';
+
+export const SCALE_TEST_MAX_DEVIATION_KEY = 'ScaleTest.MaxDeviationKg';
+export const DRIFT_WARNING_DAYS_KEY = 'ScaleTest.DriftWarningDays';
+export const DEFAULT_MAX_DEVIATION_KG = 50;
+export const DEFAULT_DRIFT_WARNING_DAYS = 14;
+
+/** A trend needs this many points and this goodness of fit before it may block weighing. */
+const MIN_TREND_POINTS = 4;
+const MIN_TREND_R2 = 0.5;
+/** Predictions further out than this are not reported (the line is meaningless that far). */
+const MAX_HORIZON_DAYS = 365;
+const DAY_MS = 86_400_000;
+
+export interface DriftPoint {
+  testId: string;
+  at: string;
+  deviationKg: number;
+  result: string;
+}
+
+export interface DriftSeries {
+  key: string;
+  stationId: string;
+  stationName: string;
+  bound?: string;
+  /** 'Scale' for mobile / combined tests, 'Deck n' for multideck deck readings. */
+  channel: string;
+  points: DriftPoint[];
+}
+
+export interface DriftTrend {
+  /** Drift rate in kg per day (signed). */
+  slopeKgPerDay: number;
+  /** Fitted deviation at `originMs`. */
+  interceptKg: number;
+  originMs: number;
+  r2: number;
+  n: number;
+}
+
+export type DriftStatus = 'insufficient-data' | 'ok' | 'warning' | 'breach-predicted' | 'breached';
+
+export interface DriftAnalysis extends DriftSeries {
+  /** Points the trend was fitted on (since the last recalibration step). */
+  fittedFrom: string | null;
+  trend: DriftTrend | null;
+  latestDeviationKg: number | null;
+  /** Fitted deviation today. */
+  currentTrendKg: number | null;
+  predictedBreachAt: string | null;
+  daysToBreach: number | null;
+  status: DriftStatus;
+}
+
+export interface DriftOptions {
+  toleranceKg: number;
+  warningDays?: number;
+  now?: number;
+}
+
+// ── Series extraction ────────────────────────────────────────────────────────
+
+/** "Deck readings: 18010, 17990, 18025, 18040 kg" (multideck scale test details). */
+const DECK_READINGS = /Deck readings:\s*([\d.,\s-]+?)\s*kg/i;
+
+function deckDeviations(test: ScaleTest): number[] | null {
+  if (test.weighingMode !== 'multideck' || !test.details || !test.testWeightKg) return null;
+  const match = DECK_READINGS.exec(test.details);
+  if (!match) return null;
+  const readings = match[1].split(',').map((v) => Number(v.trim())).filter((v) => Number.isFinite(v));
+  return readings.length ? readings.map((r) => r - test.testWeightKg!) : null;
+}
+
+function overallDeviation(test: ScaleTest): number | null {
+  if (test.testWeightKg != null && test.actualWeightKg != null) return test.actualWeightKg - test.testWeightKg;
+  return test.deviationKg ?? null;
+}
+
+/** Group tests into per-channel deviation series, oldest point first. */
+export function extractDriftSeries(tests: ScaleTest[]): DriftSeries[] {
+  const series = new Map<string, DriftSeries>();
+  const push = (test: ScaleTest, channel: string, deviationKg: number) => {
+    const key = [test.stationId, test.bound ?? '', channel].join('|');
+    let s = series.get(key);
+    if (!s) {
+      s = {
+        key,
+        stationId: test.stationId,
+        stationName: test.stationName ?? test.stationCode ?? test.stationId,
+        bound: test.bound,
+        channel,
+        points: [],
+      };
+      series.set(key, s);
+    }
+    s.points.push({ testId: test.id, at: test.carriedAt, deviationKg, result: test.result });
+  };
+
+  for (const test of tests) {
+    const decks = deckDeviations(test);
+    if (decks) {
+      decks.forEach((d, i) => push(test, `Deck ${i + 1}`, d));
+      continue;
+    }
+    const d = overallDeviation(test);
+    if (d !== null) push(test, 'Scale', d);
+  }
+
+  for (const s of series.values()) s.points.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+  return [...series.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// ── Trend fitting ────────────────────────────────────────────────────────────
+
+/**
+ * Points since the last recalibration: a drop in |deviation| of at least half the tolerance
+ * between consecutive tests means the scale was adjusted, so older points no longer apply.
+ */
+export function sinceLastRecalibration(points: DriftPoint[], toleranceKg: number): DriftPoint[] {
+  let start = 0;
+  for (let i = 1; i < points.length; i++) {
+    if (Math.abs(points[i - 1].deviationKg) - Math.abs(points[i].deviationKg) >= toleranceKg / 2) start = i;
+  }
+  return points.slice(start);
+}
+
+/** Ordinary least squares of deviation against time (days). Null for fewer than 2 distinct times. */
+export function fitDriftTrend(points: DriftPoint[]): DriftTrend | null {
+  if (points.length < 2) return null;
+  const originMs = Date.parse(points[0].at);
+  const xs = points.map((p) => (Date.parse(p.at) - originMs) / DAY_MS);
+  const ys = points.map((p) => p.deviationKg);
+  const n = points.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanY = ys.reduce((a, b) => a + b, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+    syy += (ys[i] - meanY) ** 2;
+  }
+  if (sxx === 0) return null;
+  const slope = sxy / sxx;
+  const r2 = syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+  return { slopeKgPerDay: slope, interceptKg: meanY - slope * meanX, originMs, r2, n };
+}
+
+export function trendValueAt(trend: DriftTrend, atMs: number): number {
+  return trend.interceptKg + trend.slopeKgPerDay * ((atMs - trend.originMs) / DAY_MS);
+}
+
+/**
+ * When the fitted line crosses ±tolerance on or after `fromMs`; `fromMs` itself when it already
+ * has; null when drifting back toward zero or beyond the prediction horizon.
+ */
+export function predictBreachMs(trend: DriftTrend, toleranceKg: number, fromMs: number): number | null {
+  const current = trendValueAt(trend, fromMs);
+  if (Math.abs(current) >= toleranceKg) return fromMs;
+  if (trend.slopeKgPerDay === 0) return null;
+  const target = Math.sign(trend.slopeKgPerDay) * toleranceKg;
+  const days = (target - current) / trend.slopeKgPerDay;
+  if (days <= 0 || days > MAX_HORIZON_DAYS) return null;
+  return fromMs + days * DAY_MS;
+}
+
+// ── Analysis ─────────────────────────────────────────────────────────────────
+
+export function analyzeDriftSeries(series: DriftSeries, options: DriftOptions): DriftAnalysis {
+  const { toleranceKg, warningDays = DEFAULT_DRIFT_WARNING_DAYS, now = Date.now() } = options;
+  const latest = series.points[series.points.length - 1];
+  const fitted = sinceLastRecalibration(series.points, toleranceKg);
+  const trend = fitDriftTrend(fitted);
+  const reliable = !!trend && trend.n >= MIN_TREND_POINTS && trend.r2 >= MIN_TREND_R2;
+  const breachMs = reliable ? predictBreachMs(trend, toleranceKg, now) : null;
+
+  const base: DriftAnalysis = {
+    ...series,
+    fittedFrom: fitted[0]?.at ?? null,
+    trend,
+    latestDeviationKg: latest?.deviationKg ?? null,
+    currentTrendKg: trend ? trendValueAt(trend, now) : null,
+    predictedBreachAt: breachMs !== null ? new Date(breachMs).toISOString() : null,
+    daysToBreach: breachMs !== null ? Math.max(0, Math.ceil((breachMs - now) / DAY_MS)) : null,
+    status: 'ok',
+  };
+
+  if (latest && Math.abs(latest.deviationKg) > toleranceKg) return { ...base, status: 'breached' };
+  if (!reliable) return { ...base, status: 'insufficient-data' };
+  if (breachMs !== null && breachMs <= now) return { ...base, status: 'breach-predicted' };
+  if (breachMs !== null && breachMs - now <= warningDays * DAY_MS) return { ...base, status: 'warning' };
+  return base;
+}
+
+export function analyzeDrift(tests: ScaleTest[], options: DriftOptions): DriftAnalysis[] {
+  return extractDriftSeries(tests).map((s) => analyzeDriftSeries(s, options));
+}
+
+// ── Weighing gate ────────────────────────────────────────────────────────────
+
+export interface DriftGate {
+  blocked: boolean;
+  /** Set when a breach is predicted within the warning window. */
+  warning: boolean;
+  message: string | null;
+  /** The channel that decided the gate. */
+  worst: DriftAnalysis | null;
+}
+
+const STATUS_RANK: Record<DriftStatus, number> = {
+  'insufficient-data': 0,
+  ok: 0,
+  warning: 1,
+  'breach-predicted': 2,
+  breached: 3,
+};
+
+/** Gate for one station/bound: tests without a bound apply to every bound of the station. */
+export function getDriftGate(analyses: DriftAnalysis[], stationId: string, bound?: string): DriftGate {
+  const relevant = analyses.filter((a) => a.stationId === stationId && (!bound || !a.bound || a.bound === bound));
+  const worst = relevant.reduce<DriftAnalysis | null>(
+    (w, a) => (!w || STATUS_RANK[a.status] > STATUS_RANK[w.status] ? a : w),
+    null,
+  );
+  if (!worst || STATUS_RANK[worst.status] === 0) return { blocked: false, warning: false, message: null, worst };
+
+  const where = worst.channel === 'Scale' ? 'The scale' : worst.channel;
+  switch (worst.status) {
+    case 'breached':
+      return {
+        blocked: true,
+        warning: false,
+        message: `${where} read ${formatSigned(worst.latestDeviationKg!)} kg off the test load — outside calibration tolerance. Recalibrate before weighing.`,
+        worst,
+      };
+    case 'breach-predicted':
+      return {
+        blocked: true,
+        warning: false,
+        message: `${where} has drifted to about ${formatSigned(worst.currentTrendKg!)} kg — past calibration tolerance. Recalibrate before weighing.`,
+        worst,
+      };
+    default:
+      return {
+        blocked: false,
+        warning: true,
+        message: `${where} is drifting ${formatSigned(worst.trend!.slopeKgPerDay * 7)} kg/week and will leave tolerance in about ${worst.daysToBreach} day(s).`,
+        worst,
+      };
+  }
+}
+
+function formatSigned(kg: number): string {
+  const rounded = Math.round(kg * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}`;
+}
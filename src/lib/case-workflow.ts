@@ -0,0 +1,312 @@
+/**
+ * Case lifecycle workflow
+ *
+ * A case's position in its lifecycle is spread over `caseStatus`, `escalatedToCaseManager` and
+ * the linked prosecution's status. This module folds those into one state, defines which
+ * transitions are allowed from each state and what must be true first, and sets an SLA per
+ * state. Pure — callers load the facts (subfile completion, closure checklist, invoices) and the
+ * transition history; the case mutations refuse a transition this module doesn't allow, including
+ * one made by a plain case update (caseUpdateAction).
+ *
+ * Rules:
+ *  - open → escalated needs the driver and transporter NTAC numbers (the case manager files
+ *    against them).
+ *  - open / escalated → prosecution; prosecution → invoiced → paid are driven by the prosecution
+ *    and invoice screens, so they are states here but not actions on the case.
+ *  - prosecution / invoiced → court needs an assigned case manager.
+ *  - Closing an escalated or court case needs every subfile type documented and the closure
+ *    checklist approved; closing a prosecuted case needs the invoice paid. An open case that was
+ *    never escalated (e.g. a warning) can be closed directly.
+ *  - Each state except closed has an SLA in hours; open cases past theirs may be auto-escalated.
+ */
+
+export type CaseWorkflowState = 'open' | 'escalated' | 'prosecution' | 'invoiced' | 'paid' | 'court' | 'closed';
+
+export const CASE_STATE_LABELS: Record<CaseWorkflowState, string> = {
+  open: 'Open',
+  escalated: 'With case manager',
+  prosecution: 'Prosecution',
+  invoiced: 'Invoiced',
+  paid: 'Paid',
+  court: 'In court',
+  closed: 'Closed',
+};
+
+/** The case fields the state is derived from. */
+export interface CaseStateFields {
+  caseStatus: string;
+  escalatedToCaseManager: boolean;
+  hasProsecution?: boolean;
+  prosecutionStatus?: string;
+}
+
+export function deriveCaseState(c: CaseStateFields): CaseWorkflowState {
+  if (c.caseStatus?.toUpperCase() === 'CLOSED') return 'closed';
+  if (c.hasProsecution || c.prosecutionStatus) {
+    switch (c.prosecutionStatus?.toLowerCase()) {
+      case 'paid': return 'paid';
+      case 'court': return 'court';
+      case 'invoiced': return 'invoiced';
+      default: return 'prosecution';
+    }
+  }
+  if (c.escalatedToCaseManager || c.caseStatus?.toUpperCase() === 'ESCALATED') return 'escalated';
+  return 'open';
+}
+
+// ── Transitions ───────────────────────────────────────────────────────────────
+
+export type CaseAction = 'escalate' | 'prosecute' | 'send-to-court' | 'close';
+
+/** What the preconditions are checked against. Undefined = not loaded (treated as not met). */
+export interface CaseWorkflowFacts {
+  hasDriverNtac: boolean;
+  hasTransporterNtac: boolean;
+  hasCaseManager: boolean;
+  /** Subfile types with at least one document, out of all types. */
+  subfiles?: { completed: number; total: number };
+  checklistApproved?: boolean;
+  invoicePaid?: boolean;
+}
+
+/** What the facts are built from: the case plus whatever of its subfiles, checklist and invoices has loaded. */
+export interface CaseWorkflowSources {
+  subfileCompletion?: { totalTypes: number; completedTypes: number };
+  checklist?: { reviewStatusName?: string } | null;
+  /** Invoices of the linked prosecution; voided ones are ignored. */
+  invoices?: { status: string; balanceRemaining: number }[];
+}
+
+export function buildCaseWorkflowFacts(
+  c: { driverNtacNo?: string; transporterNtacNo?: string; caseManagerId?: string },
+  sources: CaseWorkflowSources,
+): CaseWorkflowFacts {
+  const invoices = sources.invoices?.filter((i) => i.status.toLowerCase() !== 'voided');
+  return {
+    hasDriverNtac: !!c.driverNtacNo?.trim(),
+    hasTransporterNtac: !!c.transporterNtacNo?.trim(),
+    hasCaseManager: !!c.caseManagerId,
+    subfiles: sources.subfileCompletion && {
+      completed: sources.subfileCompletion.completedTypes,
+      total: sources.subfileCompletion.totalTypes,
+    },
+    checklistApproved: sources.checklist === undefined
+      ? undefined
+      : sources.checklist?.reviewStatusName?.toLowerCase() === 'approved',
+    invoicePaid: invoices && invoices.length > 0
+      && invoices.every((i) => i.status.toLowerCase() === 'paid' || i.balanceRemaining <= 0),
+  };
+}
+
+interface TransitionRule {
+  action: CaseAction;
+  label: string;
+  from: CaseWorkflowState[];
+  to: CaseWorkflowState;
+  /** Reasons the transition is blocked right now; empty when it may go ahead. */
+  check: (state: CaseWorkflowState, facts: CaseWorkflowFacts) => string[];
+}
+
+const subfilesComplete = (f: CaseWorkflowFacts) =>
+  !!f.subfiles && f.subfiles.total > 0 && f.subfiles.completed >= f.subfiles.total;
+
+export const CASE_TRANSITIONS: TransitionRule[] = [
+  {
+    action: 'escalate',
+    label: 'Escalate to case manager',
+    from: ['open'],
+    to: 'escalated',
+    check: (_, f) => [
+      ...(f.hasDriverNtac ? [] : ['Driver NTAC number is not recorded']),
+      ...(f.hasTransporterNtac ? [] : ['Transporter NTAC number is not recorded']),
+    ],
+  },
+  {
+    action: 'prosecute',
+    label: 'Start prosecution',
+    from: ['open', 'escalated'],
+    to: 'prosecution',
+    check: () => [],
+  },
+  {
+    action: 'send-to-court',
+    label: 'Send to court',
+    from: ['prosecution', 'invoiced'],
+    to: 'court',
+    check: (_, f) => (f.hasCaseManager ? [] : ['No case manager assigned to run the court file']),
+  },
+  {
+    action: 'close',
+    label: 'Close case',
+    from: ['open', 'escalated', 'court', 'paid', 'prosecution', 'invoiced'],
+    to: 'closed',
+    check: (state, f) => {
+      if (state === 'prosecution' || state === 'invoiced' || state === 'paid') {
+        return f.invoicePaid ? [] : ['Invoice is not fully paid'];
+      }
+      if (state === 'open') return [];
+      const reasons: string[] = [];
+      if (!subfilesComplete(f)) {
+        reasons.push(
+          f.subfiles
+            ? `Subfiles incomplete (${f.subfiles.completed}/${f.subfiles.total} have documents)`
+            : 'Subfile completion not loaded',
+        );
+      }
+      if (!f.checklistApproved) reasons.push('Closure checklist is not approved');
+      return reasons;
+    },
+  },
+];
+
+export interface CaseTransitionOption {
+  action: CaseAction;
+  label: string;
+  to: CaseWorkflowState;
+  /** The action exists from the current state (it may still be blocked by a precondition). */
+  available: boolean;
+  allowed: boolean;
+  blockedBy: string[];
+}
+
+/** Every case action, with whether it's allowed from `state` now and, if not, why. */
+export function evaluateCaseTransitions(state: CaseWorkflowState, facts: CaseWorkflowFacts): CaseTransitionOption[] {
+  return CASE_TRANSITIONS.map((rule) => {
+    const available = rule.from.includes(state);
+    const blockedBy = available ? rule.check(state, facts) : [`Not available at the ${CASE_STATE_LABELS[state]} stage`];
+    return { action: rule.action, label: rule.label, to: rule.to, available, allowed: blockedBy.length === 0, blockedBy };
+  });
+}
+
+export class CaseTransitionError extends Error {
+  constructor(
+    public readonly action: CaseAction,
+    public readonly reasons: string[],
+  ) {
+    super(`${CASE_TRANSITIONS.find((r) => r.action === action)?.label ?? action} is blocked: ${reasons.join('; ')}`);
+    this.name = 'CaseTransitionError';
+  }
+}
+
+/** Throws CaseTransitionError unless `action` is allowed from `state`. */
+export function assertCaseTransition(state: CaseWorkflowState, action: CaseAction, facts: CaseWorkflowFacts): void {
+  const option = evaluateCaseTransitions(state, facts).find((o) => o.action === action);
+  if (option && !option.allowed) throw new CaseTransitionError(action, option.blockedBy);
+}
+
+/** Case fields an ordinary update can set that move the case to another stage. */
+export interface CaseStageFields {
+  dispositionTypeId?: string;
+  courtId?: string;
+  caseManagerId?: string;
+}
+
+/**
+ * The transition a case update amounts to, if any: a disposition closes the case, a court sends it
+ * to court and a case manager on an open case escalates it. Such updates must pass the same check
+ * as the dedicated action.
+ */
+export function caseUpdateAction(current: CaseStateFields & CaseStageFields, update: CaseStageFields): CaseAction | undefined {
+  const state = deriveCaseState(current);
+  const changes = (field: keyof CaseStageFields) => !!update[field] && update[field] !== current[field];
+  if (changes('dispositionTypeId') && state !== 'closed') return 'close';
+  if (changes('courtId') && state !== 'court') return 'send-to-court';
+  if (changes('caseManagerId') && state === 'open') return 'escalate';
+  return undefined;
+}
+
+// ── SLA ───────────────────────────────────────────────────────────────────────
+
+export const CASE_SLA_KEY_PREFIX = 'case.sla_hours.';
+export const AUTO_ESCALATE_KEY = 'case.auto_escalate_overdue';
+export const DEFAULT_CASE_MANAGER_KEY = 'case.default_case_manager_id';
+
+/** Hours a case may stay in each state; closed cases have no SLA. */
+export const DEFAULT_CASE_SLA_HOURS: Record<Exclude<CaseWorkflowState, 'closed'>, number> = {
+  open: 48,
+  escalated: 14 * 24,
+  prosecution: 72,
+  invoiced: 7 * 24,
+  paid: 24,
+  court: 90 * 24,
+};
+
+type Settings = { settingKey: string; settingValue: string }[] | undefined;
+
+export function resolveCaseSlaHours(settings: Settings): Record<Exclude<CaseWorkflowState, 'closed'>, number> {
+  const hours = { ...DEFAULT_CASE_SLA_HOURS };
+  for (const state of Object.keys(hours) as (keyof typeof hours)[]) {
+    const n = parseFloat(settings?.find((s) => s.settingKey === `${CASE_SLA_KEY_PREFIX}${state}`)?.settingValue ?? '');
+    if (Number.isFinite(n) && n > 0) hours[state] = n;
+  }
+  return hours;
+}
+
+export interface CaseAutoEscalationPolicy {
+  enabled: boolean;
+  caseManagerId?: string;
+}
+
+export function resolveAutoEscalation(settings: Settings): CaseAutoEscalationPolicy {
+  const get = (key: string) => settings?.find((s) => s.settingKey === key)?.settingValue?.trim();
+  return { enabled: get(AUTO_ESCALATE_KEY) === 'true', caseManagerId: get(DEFAULT_CASE_MANAGER_KEY) || undefined };
+}
+
+export interface CaseSlaStatus {
+  enteredAt: string;
+  dueAt: string;
+  /** Negative once overdue. */
+  remainingMs: number;
+  overdue: boolean;
+}
+
+export function caseSlaStatus(
+  state: CaseWorkflowState,
+  enteredAt: string,
+  slaHours: Record<Exclude<CaseWorkflowState, 'closed'>, number>,
+  now: Date,
+): CaseSlaStatus | null {
+  if (state === 'closed') return null;
+  const due = new Date(enteredAt).getTime() + slaHours[state] * 3_600_000;
+  const remainingMs = due - now.getTime();
+  return { enteredAt, dueAt: new Date(due).toISOString(), remainingMs, overdue: remainingMs < 0 };
+}
+
+// ── History ───────────────────────────────────────────────────────────────────
+
+/** A recorded state change (server history of the case). */
+export interface CaseTransitionRecord {
+  fromState?: CaseWorkflowState;
+  toState: CaseWorkflowState;
+  at: string;
+}
+
+/** When the case entered its current state: the latest matching transition, else the case dates. */
+export function stateEnteredAt(
+  state: CaseWorkflowState,
+  c: { createdAt: string; updatedAt: string; closedAt?: string },
+  history: CaseTransitionRecord[],
+): string {
+  const entered = history
+    .filter((h) => h.toState === state)
+    .reduce<string | undefined>((latest, h) => (!latest || h.at > latest ? h.at : latest), undefined);
+  if (entered) return entered;
+  if (state === 'open') return c.createdAt;
+  if (state === 'closed') return c.closedAt ?? c.updatedAt;
+  return c.updatedAt;
+}
+
+/**
+ * Open cases past their SLA that auto-escalation should hand to the case manager. Only cases
+ * still open qualify, and only those the escalate transition allows (NTAC numbers recorded) —
+ * the rest stay overdue on the list for someone to complete.
+ */
+export function casesToAutoEscalate<
+  T extends CaseStateFields & { createdAt: string; updatedAt: string; driverNtacNo?: string; transporterNtacNo?: string },
+>(cases: T[], slaHours: Record<Exclude<CaseWorkflowState, 'closed'>, number>, now: Date): T[] {
+  return cases.filter((c) => {
+    const state = deriveCaseState(c);
+    if (state !== 'open' || !caseSlaStatus(state, c.createdAt, slaHours, now)?.overdue) return false;
+    return evaluateCaseTransitions(state, buildCaseWorkflowFacts(c, {})).find((o) => o.action === 'escalate')!.allowed;
+  });
+}
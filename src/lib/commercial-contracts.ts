@@ -0,0 +1,110 @@
+/**
+ * Commercial contract arithmetic.
+ *
+ * A contract is delivered over many trips: each completed weighing attached to it adds its net
+ * weight to `deliveredKg`. The stepper uses these helpers to decide which open contracts a
+ * vehicle may deliver against, to show delivered vs. remaining including the trip on the scale,
+ * and to apply the over-delivery policy once the trip's net weight is known:
+ *
+ * - `block` — a trip that takes the contract past target + tolerance can't be completed on it;
+ * - `flag`  — the trip is accepted and marked as an over-delivery on the ticket and statement.
+ */
+
+import type { CommercialContract } from '@/types/weighing';
+
+// ── Eligibility ──────────────────────────────────────────────────────────────
+
+export function normalizeRegNo(regNo: string): string {
+  return regNo.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export interface ContractTripContext {
+  vehicleRegNo?: string;
+  cargoId?: string;
+  at?: number;
+}
+
+/** Reasons the trip can't be attached to the contract; empty when it can. */
+export function getContractIneligibility(contract: CommercialContract, trip: ContractTripContext): string[] {
+  const reasons: string[] = [];
+  const at = trip.at ?? Date.now();
+  if (contract.status !== 'open') reasons.push('Contract is closed');
+  if (contract.startDate && at < Date.parse(contract.startDate)) reasons.push('Contract has not started');
+  if (contract.endDate && at > Date.parse(contract.endDate) + 86_400_000) reasons.push('Contract period has ended');
+  if (trip.vehicleRegNo && contract.allowedVehicleRegNos.length > 0) {
+    const plate = normalizeRegNo(trip.vehicleRegNo);
+    if (!contract.allowedVehicleRegNos.some((r) => normalizeRegNo(r) === plate)) {
+      reasons.push('Vehicle is not on the contract');
+    }
+  }
+  if (contract.cargoId && trip.cargoId && contract.cargoId !== trip.cargoId) {
+    reasons.push(`Contract is for ${contract.cargoType ?? 'a different cargo'}`);
+  }
+  if (contract.overDeliveryPolicy === 'block' && getContractCeilingKg(contract) - contract.deliveredKg <= 0) {
+    reasons.push('Contract quantity fully delivered');
+  }
+  return reasons;
+}
+
+// ── Progress ─────────────────────────────────────────────────────────────────
+
+/** Most the contract accepts before over-delivery applies. */
+export function getContractCeilingKg(contract: CommercialContract): number {
+  return contract.targetQuantityKg + Math.max(0, contract.overDeliveryToleranceKg);
+}
+
+export interface ContractProgress {
+  /** Delivered including the pending trip */
+  deliveredKg: number;
+  remainingKg: number;
+  /** Above target (not ceiling); 0 when under */
+  overTargetKg: number;
+  /** 0–100+, of target */
+  percent: number;
+  /** Delivered quantity at the contract price */
+  value: number;
+}
+
+export function getContractProgress(contract: CommercialContract, pendingNetKg = 0): ContractProgress {
+  const deliveredKg = contract.deliveredKg + Math.max(0, pendingNetKg);
+  const target = contract.targetQuantityKg;
+  return {
+    deliveredKg,
+    remainingKg: Math.max(0, target - deliveredKg),
+    overTargetKg: Math.max(0, deliveredKg - target),
+    percent: target > 0 ? (deliveredKg / target) * 100 : 0,
+    value: (deliveredKg / 1000) * contract.pricePerTonne,
+  };
+}
+
+// ── Over-delivery ────────────────────────────────────────────────────────────
+
+export interface OverDeliveryCheck {
+  /** Trip may be completed on the contract */
+  allowed: boolean;
+  /** Trip exceeds the ceiling and will be marked as an over-delivery */
+  flagged: boolean;
+  /** Amount above target + tolerance */
+  excessKg: number;
+  message: string | null;
+}
+
+export function checkOverDelivery(contract: CommercialContract, netKg: number): OverDeliveryCheck {
+  const excessKg = contract.deliveredKg + netKg - getContractCeilingKg(contract);
+  if (excessKg <= 0) return { allowed: true, flagged: false, excessKg: 0, message: null };
+  const amount = `${Math.round(excessKg).toLocaleString()} kg`;
+  if (contract.overDeliveryPolicy === 'block') {
+    return {
+      allowed: false,
+      flagged: false,
+      excessKg,
+      message: `This trip over-delivers contract ${contract.contractNo} by ${amount}. Offload the excess and re-weigh, or detach the contract.`,
+    };
+  }
+  return {
+    allowed: true,
+    flagged: true,
+    excessKg,
+    message: `This trip over-delivers contract ${contract.contractNo} by ${amount}; it will be flagged on the statement.`,
+  };
+}
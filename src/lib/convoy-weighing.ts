@@ -0,0 +1,211 @@
+/**
+ * Convoy (multi-segment) weighing
+ *
+ * Abnormal loads under a special permit are usually a prime mover plus one or more dollies or
+ * trailers, weighed unit by unit or in several passes over a mobile scale. Each segment is
+ * captured axle by axle against its own axle configuration; this module joins the segments into
+ * one configuration, numbers the axles end to end, and checks the whole combination against the
+ * permit with the offline compliance engine. Pure and synchronous — the convoy page feeds it the
+ * cached axle configurations, tolerance settings and the looked-up permit.
+ *
+ * Rules:
+ *  - Axle groups never span segments: group labels are prefixed with the segment number
+ *    (1A, 1B, 2A…), so a dolly's tandem is not merged with the prime mover's drive group.
+ *  - The combination's permissible GVW is the sum of the segments' configuration GVWs; the
+ *    permit's axle and GVW extensions are then added by the engine, as for a single vehicle.
+ *  - A segment coupled to the one before it rolls over the scale in the same pass, so the
+ *    middleware keeps counting axles; an uncoupled segment starts a fresh pass.
+ */
+import type { AxleConfiguration } from '@/lib/api/weighing';
+import {
+  computeProvisionalCompliance,
+  type CompliantAxleInput,
+  type ProvisionalComplianceResult,
+  type ToleranceSettingRef,
+} from '@/lib/offline/compliance';
+import type { Permit } from '@/types/weighing';
+
+/** Group labels are prefixed with a single digit, so the engine's label sort stays in order. */
+export const MAX_CONVOY_SEGMENTS = 9;
+
+export type ConvoySegmentKind = 'prime-mover' | 'dolly' | 'trailer' | 'semi-trailer';
+
+export const CONVOY_SEGMENT_KIND_LABELS: Record<ConvoySegmentKind, string> = {
+  'prime-mover': 'Prime mover',
+  dolly: 'Dolly',
+  trailer: 'Trailer',
+  'semi-trailer': 'Semi-trailer',
+};
+
+export type ConvoyAxleConfig = Pick<
+  AxleConfiguration,
+  'id' | 'axleCode' | 'axleNumber' | 'gvwPermissibleKg' | 'legalFramework' | 'weightReferences'
+>;
+
+export interface ConvoySegment {
+  kind: ConvoySegmentKind;
+  /** Unit's own registration (trailers and dollies carry their own plates). */
+  regNo?: string;
+  axleConfig: ConvoyAxleConfig;
+  /** Weighed in the same pass as the previous segment (still coupled to it). */
+  coupled: boolean;
+  /** Captured axle weights, in axle order. */
+  axleWeightsKg: number[];
+}
+
+// ── Capture sequence ──────────────────────────────────────────────────────────
+
+export interface ConvoyCaptureStep {
+  segmentIndex: number;
+  /** 1-based axle within the segment. */
+  segmentAxleNumber: number;
+  /** 1-based axle across the whole combination. */
+  axleNumber: number;
+  /** 1-based axle within the current pass — what the middleware is told. */
+  passAxleNumber: number;
+  /** First axle of an uncoupled segment: the middleware session is reset before it. */
+  startsPass: boolean;
+}
+
+/** The next axle to capture, or null once every segment is complete. */
+export function nextConvoyCapture(segments: ConvoySegment[]): ConvoyCaptureStep | null {
+  let axleNumber = 0;
+  let passAxleNumber = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    if (i > 0 && !segment.coupled) passAxleNumber = 0;
+    if (segment.axleWeightsKg.length < segment.axleConfig.axleNumber) {
+      const captured = segment.axleWeightsKg.length;
+      return {
+        segmentIndex: i,
+        segmentAxleNumber: captured + 1,
+        axleNumber: axleNumber + captured + 1,
+        passAxleNumber: passAxleNumber + captured + 1,
+        startsPass: captured === 0 && i > 0 && !segment.coupled,
+      };
+    }
+    axleNumber += segment.axleConfig.axleNumber;
+    passAxleNumber += segment.axleConfig.axleNumber;
+  }
+  return null;
+}
+
+// ── Joined configuration ──────────────────────────────────────────────────────
+
+export interface ConvoyAxle extends CompliantAxleInput {
+  segmentIndex: number;
+  segmentAxleNumber: number;
+  axleConfigurationId: string;
+}
+
+export interface JoinedConvoy {
+  /** e.g. "3A+2D+3T" — the segment configurations in order. */
+  configCode: string;
+  axles: ConvoyAxle[];
+  gvwPermissibleKg: number;
+  legalFramework: string;
+}
+
+export function joinConvoySegments(segments: ConvoySegment[]): JoinedConvoy {
+  const axles: ConvoyAxle[] = [];
+  segments.forEach((segment, segmentIndex) => {
+    const refByPos = new Map((segment.axleConfig.weightReferences ?? []).map((r) => [r.axlePosition, r]));
+    segment.axleWeightsKg.forEach((kg, i) => {
+      const ref = refByPos.get(i + 1);
+      axles.push({
+        axleNumber: axles.length + 1,
+        measuredWeightKg: Math.round(kg),
+        permissibleWeightKg: ref?.axleLegalWeightKg ?? 0,
+        axleGrouping: `${segmentIndex + 1}${ref?.axleGrouping ?? String(i + 1)}`,
+        segmentIndex,
+        segmentAxleNumber: i + 1,
+        axleConfigurationId: segment.axleConfig.id,
+      });
+    });
+  });
+  return {
+    configCode: segments.map((s) => s.axleConfig.axleCode).join('+'),
+    axles,
+    gvwPermissibleKg: segments.reduce((s, seg) => s + seg.axleConfig.gvwPermissibleKg, 0),
+    legalFramework: segments[0]?.axleConfig.legalFramework || 'TRAFFIC_ACT',
+  };
+}
+
+// ── Permit ────────────────────────────────────────────────────────────────────
+
+/** Why the permit can't be relied on for this combination; empty when it can. */
+export function convoyPermitIssues(permit: Permit | null | undefined, regNos: string[], at: Date): string[] {
+  if (!permit) return ['No permit — the combination is checked against the legal limits only'];
+  const issues: string[] = [];
+  if (permit.status !== 'active') issues.push(`Permit ${permit.permitNo} is ${permit.status}`);
+  if (at < new Date(permit.validFrom)) issues.push(`Permit ${permit.permitNo} is not valid until ${permit.validFrom.slice(0, 10)}`);
+  if (at > new Date(permit.validTo)) issues.push(`Permit ${permit.permitNo} expired on ${permit.validTo.slice(0, 10)}`);
+  const norm = (r?: string) => (r ?? '').toUpperCase().replace(/\s+/g, '');
+  if (!regNos.some((r) => norm(r) === norm(permit.vehicleRegNo))) {
+    issues.push(`Permit ${permit.permitNo} is issued to ${permit.vehicleRegNo}, not to any unit in this combination`);
+  }
+  return issues;
+}
+
+// ── Evaluation ────────────────────────────────────────────────────────────────
+
+export interface ConvoySegmentSummary {
+  segmentIndex: number;
+  kind: ConvoySegmentKind;
+  regNo?: string;
+  axleCode: string;
+  firstAxleNumber: number;
+  lastAxleNumber: number;
+  weightKg: number;
+  /** Group labels on this segment that are over their limit. */
+  overloadedGroups: string[];
+}
+
+export interface ConvoyEvaluation {
+  joined: JoinedConvoy;
+  compliance: ProvisionalComplianceResult;
+  segments: ConvoySegmentSummary[];
+  /** Empty when the permit applies; otherwise its extensions are left out. */
+  permitIssues: string[];
+  permitApplied: boolean;
+}
+
+export function evaluateConvoy(
+  segments: ConvoySegment[],
+  options: { permit?: Permit | null; toleranceSettings: ToleranceSettingRef[]; at?: Date },
+): ConvoyEvaluation {
+  const joined = joinConvoySegments(segments);
+  const regNos = segments.map((s) => s.regNo ?? '').filter(Boolean);
+  const permitIssues = convoyPermitIssues(options.permit, regNos, options.at ?? new Date());
+  const permitApplied = !!options.permit && permitIssues.length === 0;
+
+  const compliance = computeProvisionalCompliance({
+    axles: joined.axles,
+    gvwPermissibleKg: joined.gvwPermissibleKg,
+    legalFramework: joined.legalFramework,
+    toleranceSettings: options.toleranceSettings,
+    permit: permitApplied ? options.permit : null,
+  });
+
+  let firstAxleNumber = 1;
+  const summaries = segments.map((segment, segmentIndex): ConvoySegmentSummary => {
+    const axles = joined.axles.filter((a) => a.segmentIndex === segmentIndex);
+    const labels = new Set(axles.map((a) => a.axleGrouping));
+    const summary = {
+      segmentIndex,
+      kind: segment.kind,
+      regNo: segment.regNo,
+      axleCode: segment.axleConfig.axleCode,
+      firstAxleNumber,
+      lastAxleNumber: firstAxleNumber + axles.length - 1,
+      weightKg: axles.reduce((s, a) => s + a.measuredWeightKg, 0),
+      overloadedGroups: compliance.groupResults
+        .filter((g) => labels.has(g.groupLabel) && g.overloadKg > 0)
+        .map((g) => g.groupLabel),
+    };
+    firstAxleNumber += axles.length;
+    return summary;
+  });
+
+  return { joined, compliance, segments: summaries, permitIssues, permitApplied };
+}
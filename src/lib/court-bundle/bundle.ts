@@ -0,0 +1,536 @@
+/**
+ * Court bundle
+ *
+ * One paginated PDF of everything a court needs for a case: a cover sheet with the case
+ * metadata, an index, a divider per section, then each document — source PDFs copied page by
+ * page, scanned images placed on a page, text subfiles typeset — with a Bates number stamped on
+ * every page. No network access; sources.ts fetches the documents in the browser.
+ *
+ * Rules:
+ *  - Bates numbers run from the cover sheet (1) to the last page with no gaps: `<prefix>000001`.
+ *  - Every document gets an index entry and at least one page. A document that can't be read is
+ *    replaced by a page saying so, so the numbering and index stay complete.
+ *  - Checksums are the SHA-256 recorded at upload, compared as hex or base64, case-insensitive,
+ *    with an optional "sha256:" prefix. A mismatch is listed in the index; the file is still
+ *    included so the court can see what was served.
+ *  - Stamps are drawn upright at the visual bottom-right, whatever the page's /Rotate.
+ *  - Encrypted PDFs are not included; the court gets a page saying so and the original stays in
+ *    the case file.
+ *
+ * Reading, copying and writing go through pdf-lib; this module only lays out the generated pages.
+ */
+import {
+  degrees,
+  grayscale,
+  PDFDocument,
+  rgb,
+  StandardFonts,
+  type Color,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from 'pdf-lib';
+
+export type BundleContent =
+  | { kind: 'pdf'; bytes: Uint8Array }
+  | { kind: 'jpeg'; bytes: Uint8Array }
+  | { kind: 'text'; text: string }
+  | { kind: 'unavailable'; reason: string };
+
+export type ChecksumStatus = 'verified' | 'mismatch' | 'not-recorded' | 'not-checked';
+
+export const CHECKSUM_STATUS_LABELS: Record<ChecksumStatus, string> = {
+  verified: 'Verified',
+  mismatch: 'MISMATCH',
+  'not-recorded': 'No checksum recorded',
+  'not-checked': 'Not checked',
+};
+
+export interface BundleChecksum {
+  status: ChecksumStatus;
+  /** As recorded at upload. */
+  expected?: string;
+  /** SHA-256 of the file that went into the bundle, hex. */
+  actual?: string;
+}
+
+export interface BundleDocument {
+  title: string;
+  /** Second index line, e.g. reference number and upload date. */
+  detail?: string;
+  content: BundleContent;
+  /** Only for documents that carry a recorded checksum (subfiles). */
+  checksum?: BundleChecksum;
+}
+
+export interface BundleSection {
+  title: string;
+  documents: BundleDocument[];
+}
+
+export interface CourtBundleInput {
+  caseNo: string;
+  /** Defaults to the case number, upper-cased, punctuation collapsed to '-'. */
+  batesPrefix?: string;
+  /** Cover sheet rows; empty values are left out. */
+  cover: { label: string; value?: string | null }[];
+  sections: BundleSection[];
+  generatedBy?: string;
+  generatedAt?: Date;
+}
+
+export interface BundleIndexEntry {
+  section: string;
+  title: string;
+  firstPage: number;
+  lastPage: number;
+  batesRange: string;
+  included: boolean;
+  /** Why the document is missing or partly missing. */
+  note?: string;
+  checksum?: BundleChecksum;
+}
+
+export interface CourtBundle {
+  bytes: Uint8Array;
+  pageCount: number;
+  batesPrefix: string;
+  index: BundleIndexEntry[];
+}
+
+// ── Checksums ─────────────────────────────────────────────────────────────────
+
+function hexToBase64(hex: string): string {
+  let binary = '';
+  for (let i = 0; i + 1 < hex.length; i += 2) binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  return btoa(binary);
+}
+
+/** Compares a file's SHA-256 (hex) with the checksum recorded for it. */
+export function compareChecksum(actualHex: string, recorded: string | null | undefined): BundleChecksum {
+  const expected = recorded?.trim().replace(/^sha-?256:/i, '');
+  if (!expected) return { status: 'not-recorded', actual: actualHex };
+  const matches =
+    expected.toLowerCase() === actualHex.toLowerCase() ||
+    expected.replace(/=+$/, '') === hexToBase64(actualHex).replace(/=+$/, '');
+  return { status: matches ? 'verified' : 'mismatch', expected: recorded!.trim(), actual: actualHex };
+}
+
+export const defaultBatesPrefix = (caseNo: string) =>
+  `${caseNo.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/^-|-$/g, '')}-`;
+
+export const batesNumber = (prefix: string, page: number) => `${prefix}${String(page).padStart(6, '0')}`;
+
+// ── Layout constants ──────────────────────────────────────────────────────────
+
+const A4: [number, number] = [595, 842];
+const MARGIN = 56;
+const TEXT_SIZE = 10;
+const TEXT_LEADING = 14;
+const TEXT_LINES_PER_PAGE = Math.floor((A4[1] - MARGIN * 2 - 30) / TEXT_LEADING);
+const INDEX_COLUMNS = { bates: 150, document: 230, pages: 35 };
+const INDEX_TOP = A4[1] - MARGIN - 40;
+
+const BLACK = grayscale(0);
+const WHITE = grayscale(1);
+const MUTED = grayscale(0.4);
+const RULE = grayscale(0.6);
+const SHADE = grayscale(0.93);
+const SECTION_SHADE = grayscale(0.96);
+const ALERT = rgb(0.75, 0, 0);
+
+interface TextStyle {
+  bold?: boolean;
+  color?: Color;
+}
+
+// ── Writer ────────────────────────────────────────────────────────────────────
+
+/** The output document with its two fonts, and the text helpers the layout uses. */
+class BundleWriter {
+  private constructor(
+    readonly doc: PDFDocument,
+    private readonly regular: PDFFont,
+    private readonly bold: PDFFont,
+    private readonly charset: Set<number>,
+  ) {}
+
+  static async create(): Promise<BundleWriter> {
+    const doc = await PDFDocument.create({ updateMetadata: false });
+    const regular = await doc.embedFont(StandardFonts.Helvetica);
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+    return new BundleWriter(doc, regular, bold, new Set(regular.getCharacterSet()));
+  }
+
+  get pageCount() {
+    return this.doc.getPageCount();
+  }
+
+  /** The standard fonts are WinAnsi; anything they can't encode prints as '?'. */
+  printable(text: string): string {
+    let out = '';
+    for (const ch of text) {
+      const code = ch.codePointAt(0)!;
+      // Locale formatting uses narrow/thin no-break spaces; print them as plain spaces.
+      out += code === 0x202f || code === 0x2009 ? ' ' : this.charset.has(code) ? ch : '?';
+    }
+    return out;
+  }
+
+  width(text: string, size: number, bold = false): number {
+    return (bold ? this.bold : this.regular).widthOfTextAtSize(this.printable(text), size);
+  }
+
+  fit(text: string, maxWidth: number, size: number, bold = false): string {
+    if (this.width(text, size, bold) <= maxWidth) return text;
+    let s = text;
+    while (s.length > 0 && this.width(`${s}...`, size, bold) > maxWidth) s = s.slice(0, -1);
+    return s.length ? `${s}...` : '';
+  }
+
+  /** Wraps text to the width, breaking inside words only when a word alone is too long. */
+  wrap(text: string, width: number, size: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n')) {
+      let line = '';
+      for (const word of paragraph.split(' ')) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (this.width(candidate, size) <= width) {
+          line = candidate;
+          continue;
+        }
+        if (line) lines.push(line);
+        line = word;
+        while (this.width(line, size) > width) {
+          let cut = line.length - 1;
+          while (cut > 1 && this.width(line.slice(0, cut), size) > width) cut--;
+          lines.push(line.slice(0, cut));
+          line = line.slice(cut);
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  text(page: PDFPage, x: number, y: number, text: string, size: number, style: TextStyle = {}): void {
+    page.drawText(this.printable(text), {
+      x, y, size, font: style.bold ? this.bold : this.regular, color: style.color ?? BLACK,
+    });
+  }
+
+  rect(page: PDFPage, x: number, y: number, width: number, height: number, color: Color): void {
+    page.drawRectangle({ x, y, width, height, color });
+  }
+
+  addPage(label: string, size: [number, number] = A4): PDFPage {
+    const page = this.doc.addPage(size);
+    this.stamp(page, label);
+    return page;
+  }
+
+  /** Stamp drawn upright at the visual bottom-right of the page, whatever its /Rotate. */
+  stamp(page: PDFPage, label: string): void {
+    const rotate = ((page.getRotation().angle % 360) + 360) % 360;
+    const { x: x0, y: y0, width, height } = page.getCropBox();
+    const [x1, y1] = [x0 + width, y0 + height];
+    // Maps visual (unrotated-looking) coordinates to user space.
+    const toUser = (vx: number, vy: number): [number, number] =>
+      rotate === 90 ? [x1 - vy, y0 + vx]
+        : rotate === 180 ? [x1 - vx, y1 - vy]
+          : rotate === 270 ? [x0 + vy, y1 - vx]
+            : [x0 + vx, y0 + vy];
+    const size = 8;
+    const labelWidth = this.width(label, size, true);
+    const x = (rotate % 180 ? height : width) - 18 - labelWidth;
+    const [boxX, boxY] = toUser(x - 3, 9);
+    page.drawRectangle({ x: boxX, y: boxY, width: labelWidth + 6, height: size + 4, color: WHITE, rotate: degrees(rotate) });
+    const [textX, textY] = toUser(x, 12);
+    page.drawText(this.printable(label), { x: textX, y: textY, size, font: this.bold, color: BLACK, rotate: degrees(rotate) });
+  }
+}
+
+// ── Preparation ───────────────────────────────────────────────────────────────
+
+type Prepared =
+  | { kind: 'pdf'; doc: PDFDocument; pageCount: number }
+  | { kind: 'jpeg'; image: PDFImage }
+  | { kind: 'text'; pages: string[][] }
+  | { kind: 'unavailable'; reason: string };
+
+const pageCountOf = (p: Prepared) => (p.kind === 'pdf' ? p.pageCount : p.kind === 'text' ? p.pages.length : 1);
+
+async function prepare(out: BundleWriter, content: BundleContent): Promise<Prepared> {
+  if (content.kind === 'unavailable') return content;
+  if (content.kind === 'text') {
+    const lines = out.wrap(content.text.trim() || '(no text)', A4[0] - MARGIN * 2, TEXT_SIZE);
+    const pages: string[][] = [];
+    for (let i = 0; i < lines.length; i += TEXT_LINES_PER_PAGE) pages.push(lines.slice(i, i + TEXT_LINES_PER_PAGE));
+    return { kind: 'text', pages };
+  }
+  if (content.kind === 'jpeg') {
+    try {
+      return { kind: 'jpeg', image: await out.doc.embedJpg(content.bytes) };
+    } catch {
+      return { kind: 'unavailable', reason: 'The image could not be read' };
+    }
+  }
+  try {
+    // Loaded with encryption ignored only to tell an encrypted file from a damaged one.
+    const doc = await PDFDocument.load(content.bytes, { ignoreEncryption: true, updateMetadata: false });
+    if (doc.isEncrypted) return { kind: 'unavailable', reason: 'The PDF is encrypted; download the original from the case file' };
+    const pageCount = doc.getPageCount();
+    if (!pageCount) return { kind: 'unavailable', reason: 'The PDF has no pages' };
+    return { kind: 'pdf', doc, pageCount };
+  } catch (err) {
+    return { kind: 'unavailable', reason: `The PDF could not be read: ${err instanceof Error ? err.message : String(err)}` };
+  }
+}
+
+// ── Index layout ──────────────────────────────────────────────────────────────
+
+type IndexRow =
+  | { kind: 'section'; title: string; range: string }
+  | { kind: 'document'; entry: BundleIndexEntry; detail?: string };
+
+const rowHeight = (row: IndexRow) => {
+  if (row.kind === 'section') return 22;
+  const checksumLines = row.entry.checksum?.status === 'mismatch' ? 2 : row.entry.checksum?.expected ? 1 : 0;
+  return 16 + (row.detail || row.entry.note ? 10 : 0) + checksumLines * 9 + 4;
+};
+
+function paginateIndex(rows: IndexRow[]): IndexRow[][] {
+  const pages: IndexRow[][] = [[]];
+  let y = INDEX_TOP - 18;
+  for (const row of rows) {
+    const h = rowHeight(row);
+    if (y - h < MARGIN + 20 && pages[pages.length - 1].length) {
+      pages.push([]);
+      y = INDEX_TOP - 18;
+    }
+    pages[pages.length - 1].push(row);
+    y -= h;
+  }
+  return pages;
+}
+
+function drawIndexPage(out: BundleWriter, page: PDFPage, rows: IndexRow[], pageNo: number, pageTotal: number, caseNo: string): void {
+  const left = MARGIN;
+  const docX = left + INDEX_COLUMNS.bates;
+  const pagesX = docX + INDEX_COLUMNS.document;
+  const checkX = pagesX + INDEX_COLUMNS.pages;
+  const right = A4[0] - MARGIN;
+
+  out.text(page, left, A4[1] - MARGIN - 8, 'INDEX', 16, { bold: true });
+  const sub = `${caseNo} · page ${pageNo} of ${pageTotal}`;
+  out.text(page, right - out.width(sub, 9), A4[1] - MARGIN - 8, sub, 9);
+  out.rect(page, left, INDEX_TOP - 4, right - left, 16, SHADE);
+  out.text(page, left + 3, INDEX_TOP + 1, 'Bates range', 8, { bold: true });
+  out.text(page, docX + 3, INDEX_TOP + 1, 'Document', 8, { bold: true });
+  out.text(page, pagesX + 3, INDEX_TOP + 1, 'Pages', 8, { bold: true });
+  out.text(page, checkX + 3, INDEX_TOP + 1, 'Checksum', 8, { bold: true });
+
+  let y = INDEX_TOP - 18;
+  for (const row of rows) {
+    const h = rowHeight(row);
+    if (row.kind === 'section') {
+      out.rect(page, left, y - h + 16, right - left, h - 4, SECTION_SHADE);
+      out.text(page, left + 3, y - 1, out.fit(row.title, INDEX_COLUMNS.bates + INDEX_COLUMNS.document - 6, 10, true), 10, { bold: true });
+      out.text(page, right - 3 - out.width(row.range, 8), y - 1, row.range, 8);
+    } else {
+      const { entry, detail } = row;
+      out.text(page, left + 3, y, out.fit(entry.batesRange, INDEX_COLUMNS.bates - 6, 8), 8);
+      out.text(page, docX + 3, y, out.fit(entry.title, INDEX_COLUMNS.document - 6, 9, !entry.included), 9, { bold: !entry.included });
+      out.text(page, pagesX + 3, y, String(entry.lastPage - entry.firstPage + 1), 8);
+      const status = entry.checksum ? CHECKSUM_STATUS_LABELS[entry.checksum.status] : '—';
+      const mismatch = entry.checksum?.status === 'mismatch';
+      out.text(page, checkX + 3, y, out.fit(status, right - checkX - 6, 8, mismatch), 8, { bold: mismatch, color: mismatch ? ALERT : BLACK });
+
+      let lineY = y - 10;
+      const second = [entry.note, detail].filter(Boolean).join(' · ');
+      if (second) {
+        out.text(page, docX + 3, lineY, out.fit(second, right - docX - 6, 7), 7, { color: MUTED });
+        lineY -= 10;
+      }
+      if (entry.checksum?.expected) {
+        out.text(page, docX + 3, lineY, out.fit(`Recorded SHA-256 ${entry.checksum.expected}`, right - docX - 6, 6.5), 6.5, { color: MUTED });
+        lineY -= 9;
+        if (mismatch && entry.checksum.actual) {
+          out.text(page, docX + 3, lineY, out.fit(`File SHA-256 ${entry.checksum.actual}`, right - docX - 6, 6.5), 6.5, { color: ALERT });
+        }
+      }
+    }
+    y -= h;
+  }
+}
+
+// ── Bundle ────────────────────────────────────────────────────────────────────
+
+export async function buildCourtBundle(input: CourtBundleInput): Promise<CourtBundle> {
+  const prefix = input.batesPrefix ?? defaultBatesPrefix(input.caseNo);
+  const generatedAt = input.generatedAt ?? new Date();
+  const bates = (page: number) => batesNumber(prefix, page);
+  const range = (first: number, last: number) => (first === last ? bates(first) : `${bates(first)} – ${bates(last)}`);
+  const out = await BundleWriter.create();
+
+  // 1. Read every document so page counts are known before numbering.
+  const sections = [];
+  for (const section of input.sections) {
+    const documents = [];
+    for (const document of section.documents) documents.push({ document, prepared: await prepare(out, document.content) });
+    sections.push({ section, documents });
+  }
+
+  // 2. Number pages: cover, index, then a divider and the documents of each section.
+  const rows: IndexRow[] = [];
+  const index: BundleIndexEntry[] = [];
+  const pageCounts: number[] = [];
+  const sectionRows: { row: Extract<IndexRow, { kind: 'section' }>; divider: number; last: number }[] = [];
+  for (const { section, documents } of sections) {
+    const row = { kind: 'section' as const, title: section.title, range: '' };
+    rows.push(row);
+    sectionRows.push({ row, divider: 0, last: 0 });
+    for (const { document, prepared } of documents) {
+      const entry: BundleIndexEntry = {
+        section: section.title,
+        title: document.title,
+        firstPage: 0,
+        lastPage: 0,
+        batesRange: '',
+        included: prepared.kind !== 'unavailable',
+        note: prepared.kind === 'unavailable' ? `Not included: ${prepared.reason}` : undefined,
+        checksum: document.checksum,
+      };
+      index.push(entry);
+      pageCounts.push(pageCountOf(prepared));
+      rows.push({ kind: 'document', entry, detail: document.detail });
+    }
+  }
+  const indexPages = paginateIndex(rows);
+  let page = 2 + indexPages.length;
+  let entryAt = 0;
+  sections.forEach(({ documents }, s) => {
+    sectionRows[s].divider = page++;
+    for (let d = 0; d < documents.length; d++) {
+      const count = pageCounts[entryAt];
+      const entry = index[entryAt++];
+      entry.firstPage = page;
+      entry.lastPage = page + count - 1;
+      entry.batesRange = range(entry.firstPage, entry.lastPage);
+      page += count;
+    }
+    sectionRows[s].last = page - 1;
+    sectionRows[s].row.range = range(sectionRows[s].divider, sectionRows[s].last);
+  });
+  const pageCount = page - 1;
+
+  // 3. Write.
+  const right = A4[0] - MARGIN;
+
+  // Cover sheet
+  const cover = out.addPage(bates(1));
+  let y = A4[1] - MARGIN - 30;
+  out.text(cover, MARGIN, y, 'COURT BUNDLE', 24, { bold: true });
+  y -= 26;
+  out.text(cover, MARGIN, y, input.caseNo, 16, { bold: true });
+  y -= 14;
+  out.rect(cover, MARGIN, y, right - MARGIN, 1, RULE);
+  y -= 24;
+  for (const { label, value } of input.cover) {
+    if (!value) continue;
+    out.text(cover, MARGIN, y, label, 9, { color: MUTED });
+    const lines = out.wrap(value, right - MARGIN - 160, 10);
+    lines.forEach((line, i) => out.text(cover, MARGIN + 160, y - i * 13, line, 10));
+    y -= 8 + lines.length * 13;
+  }
+  const counted = index.filter((e) => e.checksum);
+  const summary: [string, string][] = [
+    ['Documents', `${index.length} in ${sections.length} section${sections.length === 1 ? '' : 's'}${
+      index.some((e) => !e.included) ? `, ${index.filter((e) => !e.included).length} not included` : ''}`],
+    ['Pages', `${pageCount} (${range(1, pageCount)})`],
+    ['Checksums', counted.length
+      ? (['verified', 'mismatch', 'not-recorded', 'not-checked'] as ChecksumStatus[])
+        .map((status) => [status, counted.filter((e) => e.checksum!.status === status).length] as const)
+        .filter(([, n]) => n > 0)
+        .map(([status, n]) => `${n} ${CHECKSUM_STATUS_LABELS[status].toLowerCase()}`)
+        .join(', ')
+      : 'None recorded'],
+    ['Generated', `${generatedAt.toLocaleString('en-KE')}${input.generatedBy ? ` by ${input.generatedBy}` : ''}`],
+  ];
+  y -= 16;
+  out.rect(cover, MARGIN, y + 12, right - MARGIN, 1, RULE);
+  y -= 8;
+  for (const [label, value] of summary) {
+    out.text(cover, MARGIN, y, label, 9, { color: MUTED });
+    out.text(cover, MARGIN + 160, y, out.fit(value, right - MARGIN - 160, 10), 10);
+    y -= 21;
+  }
+  const footnote = out.wrap(
+    'Every page carries a Bates number at the bottom right. The index lists the range for each document and, for '
+    + 'subfiles, whether the file matches the SHA-256 checksum recorded when it was uploaded.',
+    right - MARGIN, 8,
+  );
+  footnote.forEach((line, i) => out.text(cover, MARGIN, MARGIN + 30 - i * 11, line, 8, { color: MUTED }));
+
+  // Index
+  indexPages.forEach((pageRows, i) =>
+    drawIndexPage(out, out.addPage(bates(2 + i)), pageRows, i + 1, indexPages.length, input.caseNo));
+
+  // Sections
+  entryAt = 0;
+  for (const [s, { section, documents }] of sections.entries()) {
+    const divider = out.addPage(bates(sectionRows[s].divider));
+    out.rect(divider, MARGIN, A4[1] / 2 - 40, right - MARGIN, 110, SHADE);
+    out.text(divider, MARGIN + 20, A4[1] / 2 + 30, out.fit(section.title, right - MARGIN - 40, 22, true), 22, { bold: true });
+    out.text(divider, MARGIN + 20, A4[1] / 2, `${documents.length} document${documents.length === 1 ? '' : 's'}`, 11);
+    out.text(divider, MARGIN + 20, A4[1] / 2 - 20, sectionRows[s].row.range, 10);
+
+    for (const { document, prepared } of documents) {
+      const entry = index[entryAt++];
+      const placeholder = (reason: string, pageNo: number) => {
+        const p = out.addPage(bates(pageNo));
+        out.text(p, MARGIN, A4[1] - MARGIN - 30, 'Document not included', 18, { bold: true });
+        out.text(p, MARGIN, A4[1] - MARGIN - 56, out.fit(document.title, right - MARGIN, 11), 11);
+        out.wrap(reason, right - MARGIN, 10).forEach((line, i) => out.text(p, MARGIN, A4[1] - MARGIN - 84 - i * 13, line, 10));
+      };
+
+      if (prepared.kind === 'unavailable') {
+        placeholder(prepared.reason, entry.firstPage);
+      } else if (prepared.kind === 'pdf') {
+        for (let i = 0; i < prepared.pageCount; i++) {
+          const before = out.pageCount;
+          try {
+            const [copied] = await out.doc.copyPages(prepared.doc, [i]);
+            out.stamp(out.doc.addPage(copied), bates(entry.firstPage + i));
+          } catch (err) {
+            if (out.pageCount > before) out.doc.removePage(before);
+            entry.note = `Page ${i + 1} could not be copied`;
+            placeholder(`Page ${i + 1} of this document could not be copied: ${err instanceof Error ? err.message : String(err)}`, entry.firstPage + i);
+          }
+        }
+      } else if (prepared.kind === 'text') {
+        prepared.pages.forEach((lines, i) => {
+          const p = out.addPage(bates(entry.firstPage + i));
+          const heading = `${document.title}${prepared.pages.length > 1 ? ` (${i + 1}/${prepared.pages.length})` : ''}`;
+          out.text(p, MARGIN, A4[1] - MARGIN, out.fit(heading, right - MARGIN, 8), 8, { color: MUTED });
+          lines.forEach((line, l) => out.text(p, MARGIN, A4[1] - MARGIN - 30 - l * TEXT_LEADING, line, TEXT_SIZE));
+        });
+      } else {
+        const { image } = prepared;
+        const size: [number, number] = image.width > image.height ? [A4[1], A4[0]] : A4;
+        const scale = Math.min((size[0] - 72) / image.width, (size[1] - 90) / image.height);
+        const [w, h] = [image.width * scale, image.height * scale];
+        const p = out.doc.addPage(size);
+        p.drawImage(image, { x: (size[0] - w) / 2, y: (size[1] - h) / 2 + 10, width: w, height: h });
+        out.stamp(p, bates(entry.firstPage));
+      }
+    }
+  }
+
+  out.doc.setTitle(`Court bundle ${input.caseNo}`);
+  out.doc.setProducer('TruLoad');
+  out.doc.setCreationDate(generatedAt);
+  out.doc.setModificationDate(generatedAt);
+  const bytes = await out.doc.save();
+  return { bytes, pageCount: out.pageCount, batesPrefix: prefix, index };
+}
@@ -0,0 +1,221 @@
+/**
+ * Court bundle sources
+ *
+ * Gathers what goes into a case's court bundle from documents the user can already download: the
+ * generated court documents listed for the case (charge sheet, weighing ticket, prohibition
+ * order, load correction memos, court minutes) and the A–J subfiles with their uploaded files.
+ * Browser-only — fetches files, hashes them and converts images; bundle.ts does the layout.
+ *
+ * Rules:
+ *  - Court documents come first, in the order a court reads them; then one section per subfile
+ *    type in code order (A–J). Empty subfile types are left out.
+ *  - A subfile's file is hashed exactly as fetched and compared with its recorded checksum;
+ *    text-only subfiles are hashed as UTF-8.
+ *  - PDFs and JPEGs are used as they are; other images are re-encoded as JPEG; anything else is
+ *    listed as not included, with the reason.
+ *  - A file that can't be fetched doesn't stop the bundle; it's listed as not included.
+ */
+import { getCaseById, type CaseRegisterDto } from '@/lib/api/caseRegister';
+import { getCaseDocuments, type CaseDocumentDto } from '@/lib/api/caseDocuments';
+import { fetchSubfileTypes, getSubfilesByCaseId, type CaseSubfileDto } from '@/lib/api/caseSubfile';
+import { apiClient } from '@/lib/api/client';
+import { getMediaUrl } from '@/lib/api/media';
+import { sha256Hex } from '@/lib/utils/hash';
+import { compareChecksum, type BundleContent, type BundleDocument, type BundleSection, type CourtBundleInput } from './bundle';
+
+/** Court document types included, in bundle order. */
+export const COURT_DOCUMENT_ORDER = [
+  'ChargeSheet',
+  'WeightTicket',
+  'ProhibitionOrder',
+  'LoadCorrectionMemo',
+  'ConditionalLoadCorrectionMemo',
+  'OBExtract',
+  'CourtMinutes',
+] as const;
+
+export interface CourtBundleProgress {
+  done: number;
+  total: number;
+  current?: string;
+}
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  if (/^https?:/i.test(url) || url.startsWith('/media')) {
+    const response = await fetch(getMediaUrl(url));
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+  }
+  const { data } = await apiClient.get<ArrayBuffer>(url, { responseType: 'arraybuffer' });
+  return new Uint8Array(data);
+}
+
+async function imageToJpeg(bytes: Uint8Array, mimeType: string): Promise<Uint8Array> {
+  const url = URL.createObjectURL(new Blob([bytes as BlobPart], { type: mimeType }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    // JPEG has no alpha: paint a white background so transparent areas don't turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    if (!blob) throw new Error('The image could not be converted');
+    return new Uint8Array(await blob.arrayBuffer());
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+const errorText = (err: unknown) => (err instanceof Error ? err.message : String(err));
+
+/** What the bytes are, by signature first and declared MIME type second. */
+async function toContent(bytes: Uint8Array, mimeType = ''): Promise<BundleContent> {
+  const head = String.fromCharCode(...bytes.subarray(0, 1024));
+  if (head.includes('%PDF-')) return { kind: 'pdf', bytes };
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return { kind: 'jpeg', bytes };
+  if (mimeType.startsWith('image/')) {
+    try {
+      return { kind: 'jpeg', bytes: await imageToJpeg(bytes, mimeType) };
+    } catch (err) {
+      return { kind: 'unavailable', reason: `The image could not be converted (${errorText(err)})` };
+    }
+  }
+  if (mimeType.startsWith('text/')) return { kind: 'text', text: new TextDecoder().decode(bytes) };
+  return { kind: 'unavailable', reason: `Files of type ${mimeType || 'unknown'} can't be merged; download it from the case file` };
+}
+
+async function courtDocument(doc: CaseDocumentDto): Promise<BundleDocument> {
+  const detail = [doc.referenceNo, new Date(doc.createdAt).toLocaleDateString('en-KE')].filter(Boolean).join(' · ');
+  try {
+    return { title: doc.displayName, detail, content: await toContent(await fetchBytes(doc.downloadUrl), 'application/pdf') };
+  } catch (err) {
+    return { title: doc.displayName, detail, content: { kind: 'unavailable', reason: `Download failed (${errorText(err)})` } };
+  }
+}
+
+async function subfileDocument(subfile: CaseSubfileDto): Promise<BundleDocument> {
+  const title = subfile.subfileName || subfile.documentType || subfile.subfileTypeName || 'Subfile';
+  const detail = [
+    subfile.documentType && subfile.documentType !== title ? subfile.documentType : null,
+    `uploaded ${new Date(subfile.uploadedAt).toLocaleDateString('en-KE')}`,
+    subfile.uploadedByName && `by ${subfile.uploadedByName}`,
+  ].filter(Boolean).join(' · ');
+
+  const source = subfile.fileUrl || subfile.filePath;
+  if (!source) {
+    const text = subfile.content ?? '';
+    return {
+      title,
+      detail,
+      content: { kind: 'text', text },
+      checksum: compareChecksum(await sha256Hex(text), subfile.checksum),
+    };
+  }
+  try {
+    const bytes = await fetchBytes(source);
+    return {
+      title,
+      detail,
+      content: await toContent(bytes, subfile.mimeType),
+      checksum: compareChecksum(await sha256Hex(bytes), subfile.checksum),
+    };
+  } catch (err) {
+    return {
+      title,
+      detail,
+      content: { kind: 'unavailable', reason: `Download failed (${errorText(err)})` },
+      checksum: { status: subfile.checksum ? 'not-checked' : 'not-recorded', expected: subfile.checksum || undefined },
+    };
+  }
+}
+
+const coverRows = (c: CaseRegisterDto): CourtBundleInput['cover'] => [
+  { label: 'Court', value: c.courtName },
+  { label: 'Court case no.', value: c.courtCaseNo },
+  { label: 'Police case file no.', value: c.policeCaseFileNo },
+  { label: 'OB no.', value: c.obNo },
+  { label: 'Vehicle', value: c.vehicleRegNumber },
+  { label: 'Driver', value: [c.driverName, c.driverLicenseNo && `licence ${c.driverLicenseNo}`].filter(Boolean).join(', ') },
+  { label: 'Transporter', value: c.transporterName },
+  { label: 'Violation', value: [c.violationType, c.actName].filter(Boolean).join(' — ') },
+  { label: 'Particulars', value: c.violationDetails },
+  {
+    label: 'Overload',
+    value: c.overloadAfterToleranceKg ? `${c.overloadAfterToleranceKg.toLocaleString('en-KE')} kg after tolerance` : null,
+  },
+  { label: 'Weighing ticket', value: c.authoritativeTicketNo ?? c.weighingTicketNo },
+  { label: 'Prohibition order', value: c.prohibitionNo },
+  { label: 'Prosecutor', value: c.prosecutorName },
+  { label: 'Investigating officer', value: c.investigatingOfficerName },
+  { label: 'Case manager', value: c.caseManagerName },
+  { label: 'Case status', value: c.caseStatus },
+  { label: 'Opened', value: new Date(c.createdAt).toLocaleDateString('en-KE') },
+  { label: 'Next hearing', value: c.nextHearingDate ? new Date(c.nextHearingDate).toLocaleDateString('en-KE') : null },
+];
+
+/** Fetches everything for the bundle. `onProgress` is called after each file. */
+export async function collectCourtBundleSources(
+  caseId: string,
+  options: { generatedBy?: string; onProgress?: (progress: CourtBundleProgress) => void } = {},
+): Promise<CourtBundleInput> {
+  const [caseData, documents, subfiles, subfileTypes] = await Promise.all([
+    getCaseById(caseId),
+    getCaseDocuments(caseId),
+    getSubfilesByCaseId(caseId),
+    fetchSubfileTypes(),
+  ]);
+
+  const courtDocs = documents
+    .filter((d) => d.downloadUrl && (COURT_DOCUMENT_ORDER as readonly string[]).includes(d.documentType))
+    .sort((a, b) =>
+      COURT_DOCUMENT_ORDER.indexOf(a.documentType as (typeof COURT_DOCUMENT_ORDER)[number])
+        - COURT_DOCUMENT_ORDER.indexOf(b.documentType as (typeof COURT_DOCUMENT_ORDER)[number])
+      || a.createdAt.localeCompare(b.createdAt));
+  const types = [...subfileTypes].sort((a, b) => a.code.localeCompare(b.code));
+  const total = courtDocs.length + subfiles.length;
+  let done = 0;
+  const step = async <T>(label: string, work: () => Promise<T>) => {
+    options.onProgress?.({ done, total, current: label });
+    const result = await work();
+    options.onProgress?.({ done: ++done, total });
+    return result;
+  };
+
+  const sections: BundleSection[] = [];
+  if (courtDocs.length) {
+    const docs: BundleDocument[] = [];
+    // Sequential on purpose: files are held in memory until the bundle is written.
+    for (const doc of courtDocs) docs.push(await step(doc.displayName, () => courtDocument(doc)));
+    sections.push({ title: 'Court documents', documents: docs });
+  }
+  for (const type of types) {
+    const ofType = subfiles
+      .filter((s) => s.subfileTypeId === type.id)
+      .sort((a, b) => a.uploadedAt.localeCompare(b.uploadedAt));
+    if (!ofType.length) continue;
+    const docs: BundleDocument[] = [];
+    for (const subfile of ofType) docs.push(await step(subfile.subfileName ?? type.name, () => subfileDocument(subfile)));
+    sections.push({ title: `Subfile ${type.code} — ${type.name}`, documents: docs });
+  }
+  const known = new Set(types.map((t) => t.id));
+  const untyped = subfiles.filter((s) => !known.has(s.subfileTypeId));
+  if (untyped.length) {
+    const docs: BundleDocument[] = [];
+    for (const subfile of untyped) docs.push(await step(subfile.subfileName ?? 'Subfile', () => subfileDocument(subfile)));
+    sections.push({ title: 'Other subfiles', documents: docs });
+  }
+
+  return {
+    caseNo: caseData.caseNo,
+    cover: coverRows(caseData),
+    sections,
+    generatedBy: options.generatedBy,
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Court hearing calendar
+ *
+ * Hearings across every case, laid out by day / week / month, with the clashes that matter to the
+ * people who have to attend: a prosecutor or investigating officer listed in two courts at once.
+ * Also links hearings of a case into adjournment chains and writes iCalendar (RFC 5545) files so
+ * a user's hearings can be imported into a phone calendar. Pure — the calendar page feeds it the
+ * range query results.
+ *
+ * Rules:
+ *  - A hearing without a time occupies the morning session (09:00, three hours); timed hearings
+ *    occupy DEFAULT_HEARING_MINUTES.
+ *  - A clash is the same person on two overlapping hearings in different courts. Matters in the
+ *    same court are called in turn from the cause list, so they never clash.
+ *  - Cancelled or vacated hearings don't take anyone's time.
+ *  - An adjournment chain follows `adjournedFromHearingId` when the server sends it, otherwise the
+ *    case's hearing whose date is the adjourned hearing's `nextHearingDate`.
+ *  - Times are court-local: iCalendar entries are written as floating local times.
+ */
+import type { CourtHearingDto } from '@/lib/api/courtHearing';
+
+export type CalendarView = 'day' | 'week' | 'month';
+
+export const DEFAULT_HEARING_MINUTES = 60;
+const SESSION_START = '09:00';
+const SESSION_MINUTES = 180;
+
+/** Date-only part of an ISO date or date-time ("2026-10-20T00:00:00Z" → "2026-10-20"). */
+export const hearingDay = (h: Pick<CourtHearingDto, 'hearingDate'>) => h.hearingDate.slice(0, 10);
+
+const toDayKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const parseDay = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/** Start (local) and length of the hearing's slot. */
+export function hearingSlot(h: Pick<CourtHearingDto, 'hearingDate' | 'hearingTime'>): { start: Date; end: Date } {
+  const time = h.hearingTime?.slice(0, 5) || SESSION_START;
+  const [hh, mm] = time.split(':').map(Number);
+  const start = parseDay(hearingDay(h));
+  start.setHours(hh || 0, mm || 0, 0, 0);
+  const minutes = h.hearingTime ? DEFAULT_HEARING_MINUTES : SESSION_MINUTES;
+  return { start, end: new Date(start.getTime() + minutes * 60_000) };
+}
+
+const isCancelled = (h: CourtHearingDto) => /cancel|vacat/i.test(h.hearingStatusName ?? '');
+
+// ── Views ─────────────────────────────────────────────────────────────────────
+
+/** Days shown for a view around `anchor`, as YYYY-MM-DD. Weeks start on Monday; months fill whole weeks. */
+export function calendarDays(view: CalendarView, anchor: Date): string[] {
+  const startOfWeek = (d: Date) => {
+    const s = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+    s.setDate(s.getDate() - ((s.getDay() + 6) % 7));
+    return s;
+  };
+  let first: Date;
+  let count: number;
+  if (view === 'day') {
+    first = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+    count = 1;
+  } else if (view === 'week') {
+    first = startOfWeek(anchor);
+    count = 7;
+  } else {
+    first = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    count = Math.ceil((Math.round((last.getTime() - first.getTime()) / 86_400_000) + 1) / 7) * 7;
+  }
+  return Array.from({ length: count }, (_, i) => toDayKey(new Date(first.getFullYear(), first.getMonth(), first.getDate() + i)));
+}
+
+/** Move the anchor one view-length forward (+1) or back (-1). */
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  const d = new Date(anchor);
+  if (view === 'day') d.setDate(d.getDate() + direction);
+  else if (view === 'week') d.setDate(d.getDate() + 7 * direction);
+  else d.setMonth(d.getMonth() + direction, 1);
+  return d;
+}
+
+/** Hearings grouped by day, each day sorted by slot start. */
+export function groupHearingsByDay(hearings: CourtHearingDto[]): Map<string, CourtHearingDto[]> {
+  const byDay = new Map<string, CourtHearingDto[]>();
+  for (const h of hearings) {
+    const list = byDay.get(hearingDay(h)) ?? [];
+    list.push(h);
+    byDay.set(hearingDay(h), list);
+  }
+  for (const list of byDay.values()) {
+    list.sort((a, b) => hearingSlot(a).start.getTime() - hearingSlot(b).start.getTime());
+  }
+  return byDay;
+}
+
+// ── Conflicts ─────────────────────────────────────────────────────────────────
+
+export type HearingRole = 'prosecutor' | 'investigating-officer';
+
+export const HEARING_ROLE_LABELS: Record<HearingRole, string> = {
+  prosecutor: 'Prosecutor',
+  'investigating-officer': 'Investigating officer',
+};
+
+export interface HearingConflict {
+  personId: string;
+  personName?: string;
+  role: HearingRole;
+  /** The two clashing hearings, earlier first. */
+  hearingIds: [string, string];
+}
+
+const attendees = (h: CourtHearingDto) =>
+  [
+    h.prosecutorId && { id: h.prosecutorId, name: h.prosecutorName, role: 'prosecutor' as const },
+    h.investigatingOfficerId && {
+      id: h.investigatingOfficerId,
+      name: h.investigatingOfficerName,
+      role: 'investigating-officer' as const,
+    },
+  ].filter((a): a is { id: string; name: string | undefined; role: HearingRole } => !!a);
+
+export function findHearingConflicts(hearings: CourtHearingDto[]): HearingConflict[] {
+  const byPerson = new Map<string, { hearing: CourtHearingDto; name?: string; role: HearingRole }[]>();
+  for (const hearing of hearings) {
+    if (isCancelled(hearing)) continue;
+    for (const a of attendees(hearing)) {
+      const key = `${a.role}:${a.id}`;
+      byPerson.set(key, [...(byPerson.get(key) ?? []), { hearing, name: a.name, role: a.role }]);
+    }
+  }
+
+  const conflicts: HearingConflict[] = [];
+  for (const [key, entries] of byPerson) {
+    const personId = key.slice(key.indexOf(':') + 1);
+    const sorted = entries
+      .map((e) => ({ ...e, slot: hearingSlot(e.hearing) }))
+      .sort((a, b) => a.slot.start.getTime() - b.slot.start.getTime());
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length && sorted[j].slot.start < sorted[i].slot.end; j++) {
+        const [a, b] = [sorted[i].hearing, sorted[j].hearing];
+        if ((a.courtId ?? a.courtName) === (b.courtId ?? b.courtName)) continue;
+        conflicts.push({ personId, personName: sorted[i].name, role: sorted[i].role, hearingIds: [a.id, b.id] });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/** Conflicts indexed by each hearing they involve. */
+export function conflictsByHearing(conflicts: HearingConflict[]): Map<string, HearingConflict[]> {
+  const map = new Map<string, HearingConflict[]>();
+  for (const c of conflicts) {
+    for (const id of c.hearingIds) map.set(id, [...(map.get(id) ?? []), c]);
+  }
+  return map;
+}
+
+// ── Adjournment chains ────────────────────────────────────────────────────────
+
+/**
+ * Each case's hearings linked through adjournments, oldest first. Only chains with at least one
+ * adjournment are returned; a hearing belongs to at most one chain.
+ */
+export function buildAdjournmentChains(hearings: CourtHearingDto[]): CourtHearingDto[][] {
+  const byCase = new Map<string, CourtHearingDto[]>();
+  for (const h of hearings) byCase.set(h.caseRegisterId, [...(byCase.get(h.caseRegisterId) ?? []), h]);
+
+  const chains: CourtHearingDto[][] = [];
+  for (const caseHearings of byCase.values()) {
+    const sorted = [...caseHearings].sort((a, b) => hearingSlot(a).start.getTime() - hearingSlot(b).start.getTime());
+    const next = new Map<string, CourtHearingDto>();
+    const hasPrevious = new Set<string>();
+    for (const h of sorted) {
+      const successor =
+        sorted.find((s) => s.adjournedFromHearingId === h.id) ??
+        (h.nextHearingDate
+          ? sorted.find((s) => s.id !== h.id && !s.adjournedFromHearingId && !hasPrevious.has(s.id)
+              && hearingDay(s) === h.nextHearingDate!.slice(0, 10))
+          : undefined);
+      if (successor && !hasPrevious.has(successor.id)) {
+        next.set(h.id, successor);
+        hasPrevious.add(successor.id);
+      }
+    }
+    for (const head of sorted) {
+      if (hasPrevious.has(head.id) || !next.has(head.id)) continue;
+      const chain = [head];
+      for (let h = next.get(head.id); h; h = next.get(h.id)) chain.push(h);
+      chains.push(chain);
+    }
+  }
+  return chains.sort((a, b) => hearingSlot(b[b.length - 1]).start.getTime() - hearingSlot(a[a.length - 1]).start.getTime());
+}
+
+// ── iCalendar ─────────────────────────────────────────────────────────────────
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/** Lines longer than 75 characters are folded with CRLF + space (RFC 5545 §3.1). */
+function foldLine(line: string): string {
+  const parts = [line.slice(0, 75)];
+  // Continuation lines start with the space, so they carry 74 characters of content.
+  for (let i = 75; i < line.length; i += 74) parts.push(line.slice(i, i + 74));
+  return parts.join('\r\n ');
+}
+
+const floating = (d: Date) =>
+  `${toDayKey(d).replace(/-/g, '')}T${String(d.getHours()).padStart(2, '0')}${String(d.getMinutes()).padStart(2, '0')}00`;
+
+const utcStamp = (d: Date) => d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export function buildHearingsICalendar(
+  hearings: CourtHearingDto[],
+  options: { calendarName: string; now?: Date },
+): string {
+  const stamp = utcStamp(options.now ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TruLoad//Court hearings//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName)}`,
+  ];
+  for (const h of hearings) {
+    const { start, end } = hearingSlot(h);
+    const description = [
+      h.hearingTypeName && `Type: ${h.hearingTypeName}`,
+      h.presidingOfficer && `Presiding: ${h.presidingOfficer}`,
+      h.prosecutorName && `Prosecutor: ${h.prosecutorName}`,
+      h.investigatingOfficerName && `Investigating officer: ${h.investigatingOfficerName}`,
+      h.adjournmentReason && `Adjourned: ${h.adjournmentReason}`,
+    ].filter(Boolean).join('\n');
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${h.id}@truload-hearings`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${floating(start)}`,
+      `DTEND:${floating(end)}`,
+      `SUMMARY:${escapeText(`Hearing: ${h.caseNo}${h.hearingTypeName ? ` (${h.hearingTypeName})` : ''}`)}`,
+      ...(h.courtName ? [`LOCATION:${escapeText(h.courtName)}`] : []),
+      ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+      `STATUS:${isCancelled(h) ? 'CANCELLED' : 'CONFIRMED'}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
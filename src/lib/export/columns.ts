@@ -0,0 +1,115 @@
+/**
+ * Export column definitions and per-view column presets.
+ *
+ * A list view describes every column it can export once (header, value accessor, cell type); the
+ * export dialog lets the user pick a preset or an ad-hoc column set, which is remembered per view
+ * in localStorage. Cell types drive the writers: XLSX stores numbers and dates as real typed
+ * cells, CSV/PDF format them as text.
+ */
+
+export type ExportCellType = 'text' | 'number' | 'currency' | 'date' | 'datetime';
+
+export type ExportCell = string | number | Date | null;
+
+export interface ExportColumn<T> {
+  key: string;
+  header: string;
+  /** Default 'text'. */
+  type?: ExportCellType;
+  value: (row: T) => string | number | Date | null | undefined;
+  /** Relative width used by the PDF writer (and as the XLSX column width in characters). Default 14. */
+  width?: number;
+}
+
+/** What a writer needs to know about a column. */
+export type ColumnMeta = Pick<ExportColumn<unknown>, 'key' | 'header' | 'type' | 'width'>;
+
+/**
+ * Streaming writer: rows arrive in batches and are encoded immediately into Blob parts, so an
+ * export never holds more than one batch of row objects in memory.
+ */
+export interface ExportWriter {
+  writeRows(rows: ExportCell[][]): void;
+  finish(): Blob;
+}
+
+export interface ColumnPreset {
+  id: string;
+  label: string;
+  /** Column keys, in output order. */
+  columns: string[];
+}
+
+export interface ExportViewDefinition<T> {
+  /** Stable ID used for remembered column selections, e.g. 'tickets'. */
+  viewId: string;
+  /** Document title (PDF heading, XLSX sheet name). */
+  title: string;
+  /** File name stem; the date and extension are appended. */
+  filename: string;
+  columns: ExportColumn<T>[];
+  /** The first preset is the default. */
+  presets: ColumnPreset[];
+}
+
+/** Resolve column keys to definitions, in key order, dropping unknown keys. */
+export function pickColumns<T>(view: ExportViewDefinition<T>, keys: string[]): ExportColumn<T>[] {
+  const byKey = new Map(view.columns.map((c) => [c.key, c]));
+  return keys.map((k) => byKey.get(k)).filter((c): c is ExportColumn<T> => !!c);
+}
+
+/** Coerce an accessor result into a typed cell (numbers from numeric strings, dates from ISO strings). */
+export function toCell(value: unknown, type: ExportCellType = 'text'): ExportCell {
+  if (value === null || value === undefined || value === '') return null;
+  switch (type) {
+    case 'number':
+    case 'currency': {
+      const n = typeof value === 'number' ? value : Number(value);
+      return Number.isFinite(n) ? n : String(value);
+    }
+    case 'date':
+    case 'datetime': {
+      const d = value instanceof Date ? value : new Date(String(value));
+      return Number.isNaN(d.getTime()) ? String(value) : d;
+    }
+    default:
+      return value instanceof Date ? value.toISOString() : String(value);
+  }
+}
+
+/** Text form of a cell for CSV/PDF. */
+export function formatCell(cell: ExportCell, type: ExportCellType = 'text'): string {
+  if (cell === null) return '';
+  if (cell instanceof Date) {
+    return type === 'date'
+      ? cell.toLocaleDateString('en-KE', { year: 'numeric', month: '2-digit', day: '2-digit' })
+      : cell.toLocaleString('en-KE', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+  }
+  if (typeof cell === 'number') {
+    return type === 'currency'
+      ? cell.toLocaleString('en-KE', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+      : cell.toLocaleString('en-KE', { maximumFractionDigits: 3 });
+  }
+  return cell;
+}
+
+// ── Remembered selection ─────────────────────────────────────────────────────
+
+const SELECTION_KEY_PREFIX = 'truload_export_columns_';
+
+export function loadColumnSelection(viewId: string): string[] | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(`${SELECTION_KEY_PREFIX}${viewId}`);
+    const keys = raw ? JSON.parse(raw) : null;
+    return Array.isArray(keys) && keys.every((k) => typeof k === 'string') ? keys : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveColumnSelection(viewId: string, keys: string[]): void {
+  try {
+    window.localStorage.setItem(`${SELECTION_KEY_PREFIX}${viewId}`, JSON.stringify(keys));
+  } catch { /* storage unavailable — selection just isn't remembered */ }
+}
@@ -0,0 +1,32 @@
+/**
+ * CSV writer. UTF-8 with a BOM so Excel opens accented names correctly. Numbers are written raw
+ * (no thousands separators) so they re-import as numbers; dates use their display form.
+ */
+import { formatCell, type ColumnMeta, type ExportCell, type ExportWriter } from './columns';
+
+export function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+export function createCsvWriter(columns: ColumnMeta[]): ExportWriter {
+  const parts: string[] = ['\uFEFF' + columns.map((c) => escapeCsvValue(c.header)).join(',') + '\n'];
+
+  return {
+    writeRows(rows: ExportCell[][]) {
+      if (rows.length === 0) return;
+      parts.push(
+        rows
+          .map((row) => row.map((cell, i) => escapeCsvValue(typeof cell === 'number' ? cell : formatCell(cell, columns[i].type))).join(','))
+          .join('\n') + '\n',
+      );
+    },
+    finish() {
+      return new Blob(parts, { type: 'text/csv;charset=utf-8;' });
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Export engine — turns a list view's rows into a CSV, XLSX or PDF download.
+ *
+ * Rows come either from memory (the page currently shown) or from a server-paged source
+ * ("export all matching the filter"), fetched page by page. Each batch is converted to typed cells
+ * and handed to a streaming writer, then the engine yields to the browser before the next batch,
+ * so a 100k-row export keeps the tab responsive and can be cancelled through an AbortSignal.
+ */
+import { toCell, type ExportColumn, type ExportWriter } from './columns';
+import { createCsvWriter } from './csv';
+import { createPdfWriter, type PdfBranding } from './pdf';
+import { createXlsxWriter } from './xlsx';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  pdf: 'PDF',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = { csv: 'csv', xlsx: 'xlsx', pdf: 'pdf' };
+
+/** Page size for server-paged exports. */
+export const EXPORT_PAGE_SIZE = 500;
+/** In-memory rows are written in batches of this size between yields. */
+const MEMORY_BATCH_SIZE = 1000;
+
+export interface PagedSource<T> {
+  fetchPage: (pageNumber: number, pageSize: number) => Promise<{ items: T[]; totalCount: number }>;
+  pageSize?: number;
+  /** Stop after this many rows even if the server has more. */
+  maxRows?: number;
+}
+
+export type ExportSource<T> = { rows: T[] } | PagedSource<T>;
+
+export interface ExportProgress {
+  written: number;
+  /** Total rows expected; null until the first page reports it. */
+  total: number | null;
+}
+
+export interface RunExportOptions<T> {
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  title: string;
+  filename: string;
+  source: ExportSource<T>;
+  /** PDF: shown in the header band (e.g. active filters). */
+  subtitle?: string;
+  branding?: PdfBranding;
+  onProgress?: (progress: ExportProgress) => void;
+  signal?: AbortSignal;
+}
+
+export class ExportCancelledError extends Error {
+  constructor() {
+    super('Export cancelled');
+    this.name = 'ExportCancelledError';
+  }
+}
+
+const yieldToBrowser = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+function createWriter<T>(options: RunExportOptions<T>): ExportWriter {
+  const meta = options.columns.map(({ key, header, type, width }) => ({ key, header, type, width }));
+  switch (options.format) {
+    case 'xlsx':
+      return createXlsxWriter(meta, options.title);
+    case 'pdf':
+      return createPdfWriter(meta, { title: options.title, subtitle: options.subtitle, branding: options.branding });
+    default:
+      return createCsvWriter(meta);
+  }
+}
+
+/** Produce the export file. Throws ExportCancelledError when the signal aborts. */
+export async function runExport<T>(options: RunExportOptions<T>): Promise<{ blob: Blob; rowCount: number; filename: string }> {
+  const { columns, source, onProgress, signal } = options;
+  const writer = createWriter(options);
+  const toRows = (items: T[]) => items.map((item) => columns.map((c) => toCell(c.value(item), c.type)));
+  const checkAborted = () => {
+    if (signal?.aborted) throw new ExportCancelledError();
+  };
+
+  let written = 0;
+  if ('rows' in source) {
+    const total = source.rows.length;
+    for (let i = 0; i < total; i += MEMORY_BATCH_SIZE) {
+      checkAborted();
+      writer.writeRows(toRows(source.rows.slice(i, i + MEMORY_BATCH_SIZE)));
+      written = Math.min(total, i + MEMORY_BATCH_SIZE);
+      onProgress?.({ written, total });
+      await yieldToBrowser();
+    }
+  } else {
+    const pageSize = source.pageSize ?? EXPORT_PAGE_SIZE;
+    let total: number | null = null;
+    for (let page = 1; ; page++) {
+      checkAborted();
+      const { items, totalCount } = await source.fetchPage(page, pageSize);
+      checkAborted();
+      total = Math.min(totalCount, source.maxRows ?? Infinity);
+      const batch = items.slice(0, Math.max(0, total - written));
+      writer.writeRows(toRows(batch));
+      written += batch.length;
+      onProgress?.({ written, total });
+      // The server may cap the page size below what was asked for, so a short page isn't the end —
+      // only an empty one, or having everything.
+      if (items.length === 0 || written >= total) break;
+      await yieldToBrowser();
+    }
+  }
+
+  checkAborted();
+  const blob = writer.finish();
+  const filename = `${options.filename}_${new Date().toISOString().slice(0, 10)}.${EXTENSIONS[options.format]}`;
+  return { blob, rowCount: written, filename };
+}
+
+/** Trigger a browser download for a generated file. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke after the click has been handled — large files can still be reading from the URL.
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+}
+
+/**
+ * Load the org logo as JPEG bytes for the PDF header. Goes through a canvas so PNG/SVG/WebP logos
+ * work too; returns null when the image can't be loaded or the canvas is tainted (no CORS).
+ */
+export async function loadLogoJpeg(url: string | null | undefined): Promise<PdfBranding['logo']> {
+  if (!url || typeof document === 'undefined') return null;
+  try {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.src = url;
+    await img.decode();
+    const scale = Math.min(1, 160 / Math.max(img.naturalWidth, img.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    // JPEG has no alpha: paint a white background so transparent logos don't turn black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+    if (!blob) return null;
+    return { jpeg: new Uint8Array(await blob.arrayBuffer()), width: canvas.width, height: canvas.height };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Shared export subsystem: column catalogues with presets, streaming CSV/XLSX/PDF writers and the
+ * paged export engine. UI entry point: components/shared/ExportDialog.
+ */
+export * from './columns';
+export * from './engine';
+export * from './views';
+export { escapeCsvValue } from './csv';
+export type { PdfBranding } from './pdf';
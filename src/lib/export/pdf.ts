@@ -0,0 +1,233 @@
+/**
+ * PDF table writer, dependency-free.
+ *
+ * A4 landscape pages with an org-branded header band (logo, organisation name and primary colour
+ * from Brand Settings), the column header repeated on every page, striped rows and a page footer.
+ * Uses the standard Helvetica fonts (WinAnsi), so no font embedding is needed; characters
+ * WinAnsi can't represent print as '?'. Pages are flushed as soon as they fill, so memory stays flat on long exports.
+ */
+import { formatCell, type ColumnMeta, type ExportCell, type ExportWriter } from './columns';
+
+export interface PdfBranding {
+  orgName?: string;
+  /** Hex colour, e.g. '#5B1C4D'. */
+  primaryColor?: string;
+  /** Logo already converted to JPEG (see loadLogoJpeg in the engine). */
+  logo?: { jpeg: Uint8Array; width: number; height: number } | null;
+}
+
+export interface PdfOptions {
+  title: string;
+  /** Second header line, e.g. the active filters. */
+  subtitle?: string;
+  branding?: PdfBranding;
+}
+
+const PAGE_W = 842;
+const PAGE_H = 595;
+const MARGIN = 28;
+const BAND_H = 42;
+const ROW_H = 13;
+const FONT_SIZE = 7;
+const DEFAULT_COLOR = '#5B1C4D';
+
+// Helvetica advance widths (1/1000 em) for the characters that dominate tables; others ≈ 556.
+function charWidth(ch: string): number {
+  if (ch >= '0' && ch <= '9') return 556;
+  if (ch === ' ' || ch === ',' || ch === '.' || ch === ':' || ch === '/' || ch === 'i' || ch === 'l' || ch === 'I') return 278;
+  if (ch === '-' || ch === '(' || ch === ')' || ch === 'r' || ch === 't' || ch === 'f') return 333;
+  if (ch >= 'A' && ch <= 'Z') return 667;
+  if (ch === 'm' || ch === 'w' || ch === 'M' || ch === 'W') return 833;
+  if (ch >= 'a' && ch <= 'z') return 500;
+  return 556;
+}
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let w = 0;
+  for (const ch of text) w += charWidth(ch);
+  return (w * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+// WinAnsi code points for the punctuation that shows up in names, notes and filter summaries.
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x2026: 0x85, 0x2018: 0x91, 0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94,
+  0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97,
+};
+
+/** Map to single-byte WinAnsi and escape for a PDF string literal. */
+export function pdfString(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.charCodeAt(0);
+    const mapped = WIN_ANSI_EXTRAS[code];
+    // Locale formatting uses narrow/thin no-break spaces; print them as plain spaces.
+    const c = mapped ? String.fromCharCode(mapped)
+      : code === 0x202f || code === 0x2009 ? ' ' : code > 255 || code < 32 ? '?' : ch;
+    out += c === '\\' || c === '(' || c === ')' ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let s = text;
+  while (s.length > 0 && textWidth(`${s}...`, size, bold) > maxWidth) s = s.slice(0, -1);
+  return s.length ? `${s}...` : '';
+}
+
+function rgb(hex: string | undefined): string {
+  const m = /^#?([0-9a-f]{6})$/i.exec(hex?.trim() ?? '') ?? /^#?([0-9a-f]{6})$/i.exec(DEFAULT_COLOR)!;
+  const n = parseInt(m[1], 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255].map((v) => (v / 255).toFixed(3)).join(' ');
+}
+
+function latin1(s: string): Uint8Array {
+  const bytes = new Uint8Array(s.length);
+  for (let i = 0; i < s.length; i++) bytes[i] = s.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+export function createPdfWriter(columns: ColumnMeta[], options: PdfOptions): ExportWriter {
+  const { title, subtitle, branding } = options;
+  const brandRgb = rgb(branding?.primaryColor);
+  const logo = branding?.logo ?? null;
+
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let position = 0;
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? latin1(chunk) : chunk;
+    parts.push(bytes as BlobPart);
+    position += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = position;
+    push(`${id} 0 obj\n`);
+  };
+
+  // Fixed objects: 1 catalog, 2 page tree (both written last), 3/4 fonts, 5 logo.
+  const CATALOG = 1;
+  const PAGES = 2;
+  let nextId = logo ? 6 : 5;
+  const pageIds: number[] = [];
+
+  push('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  beginObject(3);
+  push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>\nendobj\n');
+  beginObject(4);
+  push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>\nendobj\n');
+  if (logo) {
+    beginObject(5);
+    push(`<< /Type /XObject /Subtype /Image /Width ${logo.width} /Height ${logo.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${logo.jpeg.length} >>\nstream\n`);
+    push(logo.jpeg);
+    push('\nendstream\nendobj\n');
+  }
+
+  // Column geometry
+  const usable = PAGE_W - MARGIN * 2;
+  const rel = columns.map((c) => c.width ?? 14);
+  const relTotal = rel.reduce((s, v) => s + v, 0) || 1;
+  const widths = rel.map((w) => (w / relTotal) * usable);
+  const lefts = widths.map((_, i) => MARGIN + widths.slice(0, i).reduce((s, v) => s + v, 0));
+  const numeric = columns.map((c) => c.type === 'number' || c.type === 'currency');
+  const generatedAt = new Date().toLocaleString('en-KE');
+
+  let ops: string[] = [];
+  let y = 0;
+  let rowIndex = 0;
+
+  const text = (x: number, ty: number, s: string, size: number, bold = false) =>
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${ty.toFixed(2)} Td ${pdfString(s)} Tj ET`);
+
+  const startPage = () => {
+    ops = [];
+    const top = PAGE_H - MARGIN;
+    // Brand band
+    ops.push(`${brandRgb} rg ${MARGIN} ${top - BAND_H} ${usable} ${BAND_H} re f`);
+    let textX = MARGIN + 10;
+    if (logo) {
+      const h = BAND_H - 10;
+      const w = (logo.width / logo.height) * h;
+      ops.push(`q ${w.toFixed(2)} 0 0 ${h} ${MARGIN + 6} ${top - BAND_H + 5} cm /Im1 Do Q`);
+      textX = MARGIN + 14 + w;
+    }
+    ops.push('1 1 1 rg');
+    text(textX, top - 17, fitText(branding?.orgName || 'TruLoad', usable / 2, 12, true), 12, true);
+    text(textX, top - 32, fitText(title, usable / 2, 9), 9);
+    if (subtitle) {
+      const s = fitText(subtitle, usable / 2 - 20, 7);
+      text(MARGIN + usable - 10 - textWidth(s, 7), top - 32, s, 7);
+    }
+    // Column header
+    const headY = top - BAND_H - 6 - ROW_H;
+    ops.push(`0.93 0.93 0.93 rg ${MARGIN} ${headY} ${usable} ${ROW_H} re f`, '0 0 0 rg');
+    columns.forEach((c, i) => {
+      const label = fitText(c.header, widths[i] - 6, FONT_SIZE, true);
+      const x = numeric[i] ? lefts[i] + widths[i] - 3 - textWidth(label, FONT_SIZE, true) : lefts[i] + 3;
+      text(x, headY + 4, label, FONT_SIZE, true);
+    });
+    y = headY;
+  };
+
+  const flushPage = () => {
+    const pageNo = pageIds.length + 1;
+    ops.push('0.4 0.4 0.4 rg');
+    text(MARGIN, MARGIN - 14, `Generated ${generatedAt}`, 7);
+    const label = `Page ${pageNo}`;
+    text(PAGE_W - MARGIN - textWidth(label, 7), MARGIN - 14, label, 7);
+
+    const content = ops.join('\n');
+    const contentId = nextId++;
+    const pageId = nextId++;
+    beginObject(contentId);
+    push(`<< /Length ${content.length} >>\nstream\n`);
+    push(content);
+    push('\nendstream\nendobj\n');
+    beginObject(pageId);
+    push(
+      `<< /Type /Page /Parent ${PAGES} 0 R /MediaBox [0 0 ${PAGE_W} ${PAGE_H}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >>${logo ? ' /XObject << /Im1 5 0 R >>' : ''} >> ` +
+      `/Contents ${contentId} 0 R >>\nendobj\n`,
+    );
+    pageIds.push(pageId);
+  };
+
+  startPage();
+
+  return {
+    writeRows(rows: ExportCell[][]) {
+      for (const row of rows) {
+        if (y - ROW_H < MARGIN) {
+          flushPage();
+          startPage();
+        }
+        y -= ROW_H;
+        if (rowIndex % 2 === 1) ops.push(`0.97 0.97 0.97 rg ${MARGIN} ${y} ${usable} ${ROW_H} re f`, '0 0 0 rg');
+        row.forEach((cell, i) => {
+          const s = fitText(formatCell(cell, columns[i].type), widths[i] - 6, FONT_SIZE);
+          if (!s) return;
+          const x = numeric[i] ? lefts[i] + widths[i] - 3 - textWidth(s, FONT_SIZE) : lefts[i] + 3;
+          text(x, y + 4, s, FONT_SIZE);
+        });
+        rowIndex++;
+      }
+    },
+    finish() {
+      flushPage();
+      beginObject(PAGES);
+      push(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>\nendobj\n`);
+      beginObject(CATALOG);
+      push(`<< /Type /Catalog /Pages ${PAGES} 0 R >>\nendobj\n`);
+
+      const xrefAt = position;
+      const count = nextId;
+      let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+      for (let id = 1; id < count; id++) {
+        xref += `${String(offsets[id] ?? 0).padStart(10, '0')} 00000 ${offsets[id] === undefined ? 'f' : 'n'} \n`;
+      }
+      push(xref);
+      push(`trailer\n<< /Size ${count} /Root ${CATALOG} 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`);
+      return new Blob(parts, { type: 'application/pdf' });
+    },
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Export column catalogues and presets for the list views (tickets, invoices, receipts, cases,
+ * yard). Keys are stable — remembered column selections refer to them.
+ */
+import type { CaseRegisterDto } from '@/lib/api/caseRegister';
+import type { InvoiceDto } from '@/lib/api/invoice';
+import type { ReceiptDto } from '@/lib/api/receipt';
+import type { WeighingTransaction } from '@/lib/api/weighing';
+import type { YardEntryDto } from '@/lib/api/yard';
+import type { ExportViewDefinition } from './columns';
+
+export const TICKETS_EXPORT_VIEW: ExportViewDefinition<WeighingTransaction> = {
+  viewId: 'tickets',
+  title: 'Weight Tickets',
+  filename: 'weight-tickets',
+  columns: [
+    { key: 'ticketNumber', header: 'Ticket No', value: (t) => t.ticketNumber, width: 16 },
+    { key: 'weighedAt', header: 'Weighed At', type: 'datetime', value: (t) => t.weighedAt, width: 16 },
+    { key: 'vehicleRegNumber', header: 'Vehicle Reg', value: (t) => t.vehicleRegNumber, width: 12 },
+    { key: 'stationName', header: 'Station', value: (t) => t.stationName, width: 16 },
+    { key: 'weighingType', header: 'Weighing Type', value: (t) => t.weighingType, width: 10 },
+    { key: 'axleConfiguration', header: 'Axle Config', value: (t) => t.axleConfiguration, width: 10 },
+    { key: 'gvwMeasuredKg', header: 'GVW Measured (kg)', type: 'number', value: (t) => t.gvwMeasuredKg, width: 12 },
+    { key: 'gvwPermissibleKg', header: 'GVW Permissible (kg)', type: 'number', value: (t) => t.gvwPermissibleKg, width: 12 },
+    { key: 'overloadKg', header: 'Overload (kg)', type: 'number', value: (t) => t.overloadKg, width: 10 },
+    { key: 'controlStatus', header: 'Status', value: (t) => t.controlStatus, width: 10 },
+    { key: 'totalFeeUsd', header: 'Fee (USD)', type: 'currency', value: (t) => t.totalFeeUsd, width: 10 },
+    { key: 'totalFeeKes', header: 'Fee (KES)', type: 'currency', value: (t) => t.totalFeeKes, width: 12 },
+    { key: 'driverName', header: 'Driver', value: (t) => t.driverName, width: 16 },
+    { key: 'transporterName', header: 'Transporter', value: (t) => t.transporterName, width: 18 },
+    { key: 'cargoType', header: 'Cargo', value: (t) => t.cargoType, width: 12 },
+    { key: 'sourceLocation', header: 'Origin', value: (t) => t.sourceLocation, width: 14 },
+    { key: 'destinationLocation', header: 'Destination', value: (t) => t.destinationLocation, width: 14 },
+    { key: 'weighedByUserName', header: 'Weighed By', value: (t) => t.weighedByUserName, width: 14 },
+    { key: 'reweighCycleNo', header: 'Reweigh Cycle', type: 'number', value: (t) => t.reweighCycleNo, width: 8 },
+    { key: 'permitNumber', header: 'Permit No', value: (t) => t.permitNumber, width: 12 },
+    // Commercial
+    { key: 'tareWeightKg', header: 'Tare (kg)', type: 'number', value: (t) => t.tareWeightKg, width: 10 },
+    { key: 'grossWeightKg', header: 'Gross (kg)', type: 'number', value: (t) => t.grossWeightKg, width: 10 },
+    { key: 'netWeightKg', header: 'Net (kg)', type: 'number', value: (t) => t.netWeightKg, width: 10 },
+    { key: 'consignmentNumber', header: 'Consignment', value: (t) => t.consignmentNumber, width: 14 },
+    { key: 'orderReference', header: 'Order Ref', value: (t) => t.orderReference, width: 12 },
+  ],
+  presets: [
+    {
+      id: 'summary',
+      label: 'Summary',
+      columns: ['ticketNumber', 'vehicleRegNumber', 'gvwMeasuredKg', 'gvwPermissibleKg', 'overloadKg', 'controlStatus', 'stationName', 'weighedAt'],
+    },
+    {
+      id: 'enforcement',
+      label: 'Enforcement',
+      columns: [
+        'ticketNumber', 'weighedAt', 'vehicleRegNumber', 'axleConfiguration', 'gvwMeasuredKg', 'gvwPermissibleKg',
+        'overloadKg', 'controlStatus', 'totalFeeUsd', 'totalFeeKes', 'driverName', 'transporterName', 'permitNumber', 'reweighCycleNo',
+      ],
+    },
+    {
+      id: 'commercial',
+      label: 'Commercial',
+      columns: ['ticketNumber', 'weighedAt', 'vehicleRegNumber', 'transporterName', 'tareWeightKg', 'grossWeightKg', 'netWeightKg', 'cargoType', 'consignmentNumber', 'orderReference'],
+    },
+  ],
+};
+
+export const INVOICES_EXPORT_VIEW: ExportViewDefinition<InvoiceDto> = {
+  viewId: 'invoices',
+  title: 'Invoices',
+  filename: 'invoices',
+  columns: [
+    { key: 'invoiceNo', header: 'Invoice No', value: (i) => i.invoiceNo, width: 16 },
+    { key: 'generatedAt', header: 'Generated', type: 'datetime', value: (i) => i.generatedAt, width: 15 },
+    { key: 'dueDate', header: 'Due Date', type: 'date', value: (i) => i.dueDate, width: 11 },
+    { key: 'status', header: 'Status', value: (i) => i.status, width: 9 },
+    { key: 'amountDue', header: 'Amount Due', type: 'currency', value: (i) => i.amountDue, width: 12 },
+    { key: 'currency', header: 'Currency', value: (i) => i.currency, width: 7 },
+    { key: 'vehicleRegNumber', header: 'Vehicle Reg', value: (i) => i.vehicleRegNumber, width: 12 },
+    { key: 'caseNo', header: 'Case No', value: (i) => i.caseNo, width: 16 },
+    { key: 'weighingTicketNo', header: 'Ticket No', value: (i) => i.weighingTicketNo, width: 16 },
+    { key: 'invoiceType', header: 'Type', value: (i) => i.invoiceType, width: 14 },
+    { key: 'pesaflowInvoiceNumber', header: 'eCitizen Invoice', value: (i) => i.pesaflowInvoiceNumber, width: 14 },
+    { key: 'pesaflowPaymentReference', header: 'Payment Ref', value: (i) => i.pesaflowPaymentReference, width: 14 },
+    { key: 'pesaflowSyncStatus', header: 'Sync Status', value: (i) => i.pesaflowSyncStatus, width: 10 },
+  ],
+  presets: [
+    { id: 'summary', label: 'Summary', columns: ['invoiceNo', 'generatedAt', 'vehicleRegNumber', 'amountDue', 'currency', 'status'] },
+    {
+      id: 'finance',
+      label: 'Finance',
+      columns: ['invoiceNo', 'generatedAt', 'dueDate', 'status', 'amountDue', 'currency', 'invoiceType', 'pesaflowInvoiceNumber', 'pesaflowPaymentReference', 'pesaflowSyncStatus'],
+    },
+    { id: 'cases', label: 'Case Linkage', columns: ['invoiceNo', 'caseNo', 'weighingTicketNo', 'vehicleRegNumber', 'amountDue', 'currency', 'status'] },
+  ],
+};
+
+export const RECEIPTS_EXPORT_VIEW: ExportViewDefinition<ReceiptDto> = {
+  viewId: 'receipts',
+  title: 'Receipts',
+  filename: 'receipts',
+  columns: [
+    { key: 'receiptNo', header: 'Receipt No', value: (r) => r.receiptNo, width: 16 },
+    { key: 'paymentDate', header: 'Payment Date', type: 'datetime', value: (r) => r.paymentDate, width: 15 },
+    { key: 'invoiceNo', header: 'Invoice No', value: (r) => r.invoiceNo, width: 16 },
+    { key: 'amountPaid', header: 'Amount Paid', type: 'currency', value: (r) => r.amountPaid, width: 12 },
+    { key: 'currency', header: 'Currency', value: (r) => r.currency, width: 7 },
+    { key: 'paymentMethod', header: 'Method', value: (r) => r.paymentMethod, width: 10 },
+    { key: 'paymentChannel', header: 'Channel', value: (r) => r.paymentChannel, width: 10 },
+    { key: 'transactionReference', header: 'Transaction Ref', value: (r) => r.transactionReference, width: 16 },
+    { key: 'receivedByName', header: 'Received By', value: (r) => r.receivedByName, width: 14 },
+    { key: 'status', header: 'Status', value: (r) => r.status, width: 8 },
+    { key: 'voidReason', header: 'Void Reason', value: (r) => r.voidReason, width: 16 },
+  ],
+  presets: [
+    { id: 'summary', label: 'Summary', columns: ['receiptNo', 'paymentDate', 'invoiceNo', 'amountPaid', 'currency', 'paymentMethod'] },
+    {
+      id: 'reconciliation',
+      label: 'Reconciliation',
+      columns: ['receiptNo', 'paymentDate', 'amountPaid', 'currency', 'paymentMethod', 'paymentChannel', 'transactionReference', 'status', 'voidReason'],
+    },
+  ],
+};
+
+export const CASES_EXPORT_VIEW: ExportViewDefinition<CaseRegisterDto> = {
+  viewId: 'cases',
+  title: 'Case Register',
+  filename: 'cases',
+  columns: [
+    { key: 'caseNo', header: 'Case No', value: (c) => c.caseNo, width: 16 },
+    { key: 'createdAt', header: 'Opened', type: 'datetime', value: (c) => c.createdAt, width: 15 },
+    { key: 'vehicleRegNumber', header: 'Vehicle Reg', value: (c) => c.vehicleRegNumber, width: 12 },
+    { key: 'violationType', header: 'Violation', value: (c) => c.violationType, width: 16 },
+    { key: 'caseStatus', header: 'Status', value: (c) => c.caseStatus, width: 10 },
+    { key: 'dispositionType', header: 'Disposition', value: (c) => c.dispositionType, width: 12 },
+    { key: 'weighingTicketNo', header: 'Ticket No', value: (c) => c.weighingTicketNo, width: 16 },
+    { key: 'driverName', header: 'Driver', value: (c) => c.driverName, width: 16 },
+    { key: 'transporterName', header: 'Transporter', value: (c) => c.transporterName, width: 18 },
+    { key: 'actualWeightKg', header: 'Actual (kg)', type: 'number', value: (c) => c.actualWeightKg, width: 10 },
+    { key: 'permissibleWeightKg', header: 'Permissible (kg)', type: 'number', value: (c) => c.permissibleWeightKg, width: 10 },
+    { key: 'overloadAfterToleranceKg', header: 'Overload (kg)', type: 'number', value: (c) => c.overloadAfterToleranceKg, width: 10 },
+    { key: 'courtName', header: 'Court', value: (c) => c.courtName, width: 14 },
+    { key: 'courtCaseNo', header: 'Court Case No', value: (c) => c.courtCaseNo, width: 12 },
+    { key: 'nextHearingDate', header: 'Next Hearing', type: 'date', value: (c) => c.nextHearingDate, width: 11 },
+    { key: 'caseManagerName', header: 'Case Manager', value: (c) => c.caseManagerName, width: 14 },
+    { key: 'investigatingOfficerName', header: 'Investigating Officer', value: (c) => c.investigatingOfficerName, width: 14 },
+    { key: 'closedAt', header: 'Closed', type: 'datetime', value: (c) => c.closedAt, width: 15 },
+  ],
+  presets: [
+    { id: 'summary', label: 'Summary', columns: ['caseNo', 'createdAt', 'vehicleRegNumber', 'violationType', 'caseStatus', 'dispositionType'] },
+    {
+      id: 'court',
+      label: 'Court',
+      columns: ['caseNo', 'vehicleRegNumber', 'driverName', 'violationType', 'courtName', 'courtCaseNo', 'nextHearingDate', 'caseStatus', 'caseManagerName'],
+    },
+    {
+      id: 'overload',
+      label: 'Overload Analysis',
+      columns: ['caseNo', 'weighingTicketNo', 'vehicleRegNumber', 'transporterName', 'actualWeightKg', 'permissibleWeightKg', 'overloadAfterToleranceKg', 'caseStatus'],
+    },
+  ],
+};
+
+export const YARD_EXPORT_VIEW: ExportViewDefinition<YardEntryDto> = {
+  viewId: 'yard',
+  title: 'Yard Entries',
+  filename: 'yard-entries',
+  columns: [
+    { key: 'ticketNumber', header: 'Ticket No', value: (e) => e.ticketNumber, width: 16 },
+    { key: 'vehicleRegNumber', header: 'Vehicle Reg', value: (e) => e.vehicleRegNumber, width: 12 },
+    { key: 'reason', header: 'Reason', value: (e) => e.reason, width: 12 },
+    { key: 'status', header: 'Status', value: (e) => e.status, width: 10 },
+    { key: 'enteredAt', header: 'Entered', type: 'datetime', value: (e) => e.enteredAt, width: 15 },
+    { key: 'releasedAt', header: 'Released', type: 'datetime', value: (e) => e.releasedAt, width: 15 },
+    { key: 'gvwMeasuredKg', header: 'GVW Measured (kg)', type: 'number', value: (e) => e.gvwMeasuredKg, width: 12 },
+    { key: 'overloadKg', header: 'Overload (kg)', type: 'number', value: (e) => e.overloadKg, width: 10 },
+    { key: 'driverName', header: 'Driver', value: (e) => e.driverName, width: 16 },
+    { key: 'transporterName', header: 'Transporter', value: (e) => e.transporterName, width: 18 },
+    { key: 'stationName', header: 'Station', value: (e) => e.stationName, width: 14 },
+  ],
+  presets: [
+    { id: 'summary', label: 'Summary', columns: ['ticketNumber', 'vehicleRegNumber', 'reason', 'status', 'enteredAt', 'overloadKg'] },
+  ],
+};
@@ -0,0 +1,139 @@
+/**
+ * XLSX writer (Office Open XML spreadsheet), dependency-free.
+ *
+ * One worksheet with a bold, frozen header row. Numbers and amounts are numeric cells, dates are
+ * Excel date serials with a date/date-time format, so the sheet sorts and sums correctly. Text
+ * uses inline strings (no shared-string table) so rows can be streamed straight into the ZIP.
+ */
+import type { ColumnMeta, ExportCell, ExportWriter } from './columns';
+import { createZip } from './zip';
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Style indexes into cellXfs below.
+const STYLE = { default: 0, header: 1, date: 2, datetime: 3, currency: 4 } as const;
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="5">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="14" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '</cellXfs></styleSheet>';
+
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(s: string): string {
+  return s
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Column letters for a 0-based index: 0 → A, 26 → AA. */
+export function columnLetter(index: number): string {
+  let s = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+/** Excel serial date (days since 1899-12-30) in local time. */
+export function toExcelSerial(d: Date): number {
+  return (d.getTime() - d.getTimezoneOffset() * 60_000) / 86_400_000 + 25569;
+}
+
+function cellXml(ref: string, cell: ExportCell, type: ColumnMeta['type']): string {
+  if (cell === null) return '';
+  if (cell instanceof Date) {
+    return `<c r="${ref}" s="${type === 'date' ? STYLE.date : STYLE.datetime}"><v>${toExcelSerial(cell)}</v></c>`;
+  }
+  if (typeof cell === 'number') {
+    return `<c r="${ref}"${type === 'currency' ? ` s="${STYLE.currency}"` : ''}><v>${cell}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+function sheetName(title: string): string {
+  // Sheet names: max 31 chars, none of []:*?/\
+  return title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+}
+
+export function createXlsxWriter(columns: ColumnMeta[], title: string): ExportWriter {
+  const zip = createZip();
+  const letters = columns.map((_, i) => columnLetter(i));
+  let rowNo = 1;
+
+  zip.addEntry('xl/worksheets/sheet1.xml');
+  zip.append(
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<cols>${columns.map((c, i) => `<col min="${i + 1}" max="${i + 1}" width="${Math.max(c.width ?? 14, c.header.length + 2)}" customWidth="1"/>`).join('')}</cols>` +
+    '<sheetData>' +
+    `<row r="1">${columns.map((c, i) => `<c r="${letters[i]}1" t="inlineStr" s="${STYLE.header}"><is><t>${escapeXml(c.header)}</t></is></c>`).join('')}</row>`,
+  );
+
+  return {
+    writeRows(rows: ExportCell[][]) {
+      if (rows.length === 0) return;
+      let xml = '';
+      for (const row of rows) {
+        rowNo++;
+        xml += `<row r="${rowNo}">${row.map((cell, i) => cellXml(`${letters[i]}${rowNo}`, cell, columns[i].type)).join('')}</row>`;
+      }
+      zip.append(xml);
+    },
+    finish() {
+      zip.append('</sheetData></worksheet>');
+
+      zip.addEntry('[Content_Types].xml');
+      zip.append(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        '</Types>',
+      );
+      zip.addEntry('_rels/.rels');
+      zip.append(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>',
+      );
+      zip.addEntry('xl/workbook.xml');
+      zip.append(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        `<sheets><sheet name="${escapeXml(sheetName(title))}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>',
+      );
+      zip.addEntry('xl/_rels/workbook.xml.rels');
+      zip.append(
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+        '</Relationships>',
+      );
+      zip.addEntry('xl/styles.xml');
+      zip.append(STYLES_XML);
+
+      return zip.finish(XLSX_MIME);
+    },
+  };
+}
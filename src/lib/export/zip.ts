@@ -0,0 +1,114 @@
+/**
+ * Minimal ZIP container (stored, no compression) for the XLSX writer.
+ *
+ * Entry data is appended in chunks and its CRC-32 is updated as it goes, so a worksheet can be
+ * streamed in without ever being joined into one string. No ZIP64 — fine for anything a browser
+ * tab can hold.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array, crc = 0): number {
+  let c = (crc ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface ZipEntry {
+  name: Uint8Array;
+  chunks: Uint8Array[];
+  size: number;
+  crc: number;
+}
+
+export interface ZipBuilder {
+  /** Start a new entry; subsequent `append` calls write to it. */
+  addEntry(name: string): void;
+  append(data: string | Uint8Array): void;
+  finish(mimeType: string): Blob;
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+export function createZip(): ZipBuilder {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const { time, date } = dosDateTime(new Date());
+
+  const header = (size: number, signature: number) => {
+    const view = new DataView(new ArrayBuffer(size));
+    view.setUint32(0, signature, true);
+    return view;
+  };
+
+  return {
+    addEntry(name) {
+      entries.push({ name: encoder.encode(name), chunks: [], size: 0, crc: 0 });
+    },
+    append(data) {
+      const entry = entries[entries.length - 1];
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+      entry.chunks.push(bytes);
+      entry.size += bytes.length;
+      entry.crc = crc32(bytes, entry.crc);
+    },
+    finish(mimeType) {
+      const parts: BlobPart[] = [];
+      const central: BlobPart[] = [];
+      let offset = 0;
+      let centralSize = 0;
+
+      for (const e of entries) {
+        const local = header(30, 0x04034b50);
+        local.setUint16(4, 20, true); // version needed
+        local.setUint16(6, 0x0800, true); // UTF-8 names
+        local.setUint16(8, 0, true); // stored
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, e.crc, true);
+        local.setUint32(18, e.size, true);
+        local.setUint32(22, e.size, true);
+        local.setUint16(26, e.name.length, true);
+        parts.push(local.buffer as ArrayBuffer, e.name as BlobPart, ...(e.chunks as BlobPart[]));
+
+        const dir = header(46, 0x02014b50);
+        dir.setUint16(4, 20, true);
+        dir.setUint16(6, 20, true);
+        dir.setUint16(8, 0x0800, true);
+        dir.setUint16(10, 0, true);
+        dir.setUint16(12, time, true);
+        dir.setUint16(14, date, true);
+        dir.setUint32(16, e.crc, true);
+        dir.setUint32(20, e.size, true);
+        dir.setUint32(24, e.size, true);
+        dir.setUint16(28, e.name.length, true);
+        dir.setUint32(42, offset, true);
+        central.push(dir.buffer as ArrayBuffer, e.name as BlobPart);
+
+        offset += 30 + e.name.length + e.size;
+        centralSize += 46 + e.name.length;
+      }
+
+      const end = header(22, 0x06054b50);
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, centralSize, true);
+      end.setUint32(16, offset, true);
+
+      return new Blob([...parts, ...central, end.buffer as ArrayBuffer], { type: mimeType });
+    },
+  };
+}
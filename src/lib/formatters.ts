@@ -1,3 +1,5 @@
+import { getActiveIntlLocale } from '@/lib/i18n/translate';
+
 /**
  * Format large numbers into compact form (e.g., 1500 → "1.5K", 2500000 → "2.5M").
  * Numbers below 10,000 are returned with locale formatting (e.g., "1,500").
@@ -19,3 +21,78 @@ export function formatCompact(value: number): string {
 export function formatFullNumber(value: number): string {
   return value.toLocaleString();
 }
+
+// ── Locale-aware weighing formatters ─────────────────────────────────────────
+// Default to the active UI locale (see lib/i18n); pass `locale` to format for someone else,
+// e.g. a notice printed in the driver's language.
+
+type DateInput = string | number | Date | null | undefined;
+
+/** Kenyan-English output for English so existing tickets and receipts don't change. */
+function currencyLocale(currency: 'USD' | 'KES', locale: string): string {
+  if (!locale.startsWith('en')) return locale;
+  return currency === 'USD' ? 'en-US' : 'en-KE';
+}
+
+function toDate(value: DateInput): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Format a weight in kg with the locale's grouping (e.g. "12,500" / "12 500").
+ * `unit` appends " kg".
+ */
+export function formatWeight(
+  weightKg: number,
+  { unit = false, locale = getActiveIntlLocale() }: { unit?: boolean; locale?: string } = {},
+): string {
+  const text = new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(weightKg);
+  return unit ? `${text} kg` : text;
+}
+
+/** Format an amount in USD or KES. */
+export function formatCurrency(amount: number, currency: 'USD' | 'KES', locale = getActiveIntlLocale()): string {
+  return new Intl.NumberFormat(currencyLocale(currency, locale), {
+    style: 'currency',
+    currency,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+/**
+ * Format a fee in the currency of the Act used: EAC Act → USD, Traffic Act → KES
+ * (falls back to USD when no KES amount was computed).
+ */
+export function formatFee(
+  feeUsd: number,
+  feeKes?: number,
+  chargingCurrency?: string,
+  locale = getActiveIntlLocale(),
+): string {
+  if (chargingCurrency === 'KES' && feeKes != null && feeKes > 0) {
+    return formatCurrency(feeKes, 'KES', locale);
+  }
+  const amount = chargingCurrency !== 'USD' && feeKes != null && feeKes > 0 ? feeKes : feeUsd;
+  return formatCurrency(amount, 'USD', locale);
+}
+
+/** Date only (e.g. "19/10/2026"). Empty or invalid input gives "—". */
+export function formatDate(value: DateInput, locale = getActiveIntlLocale()): string {
+  const date = toDate(value);
+  return date ? date.toLocaleDateString(locale) : '—';
+}
+
+/** Date and time to the minute (e.g. "19/10/2026, 14:05"). Empty or invalid input gives "—". */
+export function formatDateTime(value: DateInput, locale = getActiveIntlLocale()): string {
+  const date = toDate(value);
+  if (!date) return '—';
+  return date.toLocaleString(locale, {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,7 @@
+/**
+ * i18n: locale list, message catalogs (English source + Kiswahili and French) and the
+ * translator. React entry point: contexts/LocaleContext (`useTranslation`).
+ */
+export * from './locales';
+export * from './translate';
+export type { MessageKey } from './messages/en';
@@ -0,0 +1,33 @@
+/**
+ * Supported UI locales. `intl` is the BCP 47 tag handed to Intl for number/date formatting;
+ * Kenyan variants keep Kenyan date order and currency symbols.
+ */
+
+export type AppLocale = 'en' | 'sw' | 'fr';
+
+export interface LocaleOption {
+  code: AppLocale;
+  /** Name in the language itself (what the picker shows). */
+  nativeName: string;
+  englishName: string;
+  intl: string;
+}
+
+export const DEFAULT_LOCALE: AppLocale = 'en';
+
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { code: 'en', nativeName: 'English', englishName: 'English', intl: 'en-KE' },
+  { code: 'sw', nativeName: 'Kiswahili', englishName: 'Swahili', intl: 'sw-KE' },
+  { code: 'fr', nativeName: 'Français', englishName: 'French', intl: 'fr-FR' },
+];
+
+/** Map a stored or server value ('sw', 'sw-KE', 'FR') to a supported locale, or null. */
+export function resolveLocale(value?: string | null): AppLocale | null {
+  if (!value) return null;
+  const base = value.trim().toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LOCALES.some((l) => l.code === base) ? (base as AppLocale) : null;
+}
+
+export function getLocaleOption(code: AppLocale): LocaleOption {
+  return SUPPORTED_LOCALES.find((l) => l.code === code) ?? SUPPORTED_LOCALES[0];
+}
@@ -0,0 +1,120 @@
+/**
+ * English source catalog. Every key lives here first; other locales translate a subset and fall
+ * back to these strings. `{name}` placeholders are filled by `t(key, { name })`.
+ */
+export const en = {
+  // ── Common ────────────────────────────────────────────────────────────────
+  'common.back': 'Back',
+  'common.search': 'Search',
+  'common.clear': 'Clear',
+  'common.logout': 'Logout',
+  'common.loading': 'Loading...',
+  'common.vehicle': 'Vehicle',
+  'common.ticket': 'Ticket',
+  'common.driver': 'Driver',
+  'common.kg': 'kg',
+
+  // ── Language settings ─────────────────────────────────────────────────────
+  'language.title': 'Language',
+  'language.description': 'Language for menus, the weighing screens and driver notices on this account.',
+  'language.label': 'Display language',
+  'language.orgDefault': 'Organisation default ({language})',
+  'language.saved': 'Language updated',
+  'language.reportTitle': 'Translator report',
+  'language.reportDescription': 'Keys with no translation yet, including any the app looked up during this session.',
+  'language.reportDownload': 'Download missing keys',
+  'language.reportEmpty': 'Every key is translated',
+
+  // ── Compliance status (shown to drivers) ─────────────────────────────────
+  'status.legal': 'Legal',
+  'status.warning': 'Warning',
+  'status.overload': 'Overload',
+  'status.pending': 'Pending',
+  'status.decision.legal': 'LEGAL - COMPLIANT',
+  'status.decision.warning': 'WARNING - WITHIN TOLERANCE',
+  'status.decision.overload': 'PROHIBITED - OVERLOADED',
+
+  // ── Weighing flow ─────────────────────────────────────────────────────────
+  'weighing.provisional.title': 'Provisional (offline).',
+  'weighing.provisional.body':
+    'Compliance and charges were computed from cached data and queued for sync. Final figures are confirmed once connectivity is restored.',
+  'weighing.summary.gvw': 'GVW',
+  'weighing.summary.reweigh': 'Re-weigh: {cycle}',
+  'weighing.banner.reweigh': 'RE-WEIGH: {count}',
+  'weighing.banner.gvw': 'GVW: {weight} [KG]',
+  'weighing.banner.excessAvw': 'Excess AVW: {weight} [KG]',
+  'weighing.banner.gvwExcess': 'GVW Excess: {weight} [KG]',
+  'weighing.banner.diffExcess': 'DIFF. Excess: {weight} [KG]',
+  'weighing.banner.timeTaken': 'Time Taken: {time}',
+  'weighing.decision.commercial': 'Commercial Weighing',
+  'weighing.decision.weighingFee': 'Weighing fee:',
+  'weighing.decision.fee': 'Fee:',
+  'weighing.decision.demerit': 'Demerit:',
+  'weighing.decision.withinTolerance': 'Within operational tolerance (≤{tolerance}kg)',
+  'weighing.decision.printTicket': 'Print Ticket',
+  'weighing.decision.missingFields': 'Missing required fields',
+  'weighing.decision.fillIn': 'Please fill in: {fields} before taking action.',
+  'weighing.decision.finishing': 'Finishing...',
+  'weighing.decision.finishExit': 'Finish & Exit',
+  'weighing.decision.issueCommercialTicket': 'Issue Commercial Ticket',
+  'weighing.decision.collectPayment': 'Collect Payment',
+  'weighing.decision.finishPrint': 'Finish & Print Ticket',
+  'weighing.decision.sending': 'Sending...',
+  'weighing.decision.sendToYard': 'Send to Yard',
+  'weighing.decision.sentToYard': 'Vehicle has been sent to yard',
+  'weighing.decision.specialRelease': 'Special Release',
+  'weighing.decision.reweigh': 'Re-weigh',
+
+  // ── Transporter portal ────────────────────────────────────────────────────
+  'portal.badge': 'Transporter Portal',
+  'portal.loading': 'Loading portal...',
+  'portal.rights': 'All rights reserved.',
+  'portal.nav.dashboard': 'Dashboard',
+  'portal.nav.weighings': 'Weighings',
+  'portal.nav.vehicles': 'Vehicles',
+  'portal.nav.drivers': 'Drivers',
+  'portal.nav.reports': 'Reports',
+  'portal.nav.subscription': 'Subscription',
+  'portal.nav.team': 'Team',
+  'portal.weighings.title': 'Weighing History',
+  'portal.weighings.subtitle': 'All your weighing tickets across organizations',
+  'portal.weighings.historyLimit': 'Showing weighings from the last {months} months on your {tier} plan.',
+  'portal.weighings.upgradeStandard': 'Upgrade to Standard',
+  'portal.weighings.upgradePremium': 'Upgrade to Premium',
+  'portal.weighings.forFullHistory': 'for full history access.',
+  'portal.weighings.fromDate': 'From Date',
+  'portal.weighings.toDate': 'To Date',
+  'portal.weighings.vehicleReg': 'Vehicle Reg',
+  'portal.weighings.downloadZip': 'Download ZIP',
+  'portal.weighings.downloadZipHint': 'Download all tickets in date range as ZIP',
+  'portal.weighings.zipNeedsRange': 'Please select both a From Date and To Date before downloading a ZIP',
+  'portal.weighings.zipDownloaded': 'Ticket ZIP downloaded',
+  'portal.weighings.zipFailed': 'Failed to download ticket ZIP — check your subscription or try a smaller date range',
+  'portal.weighings.pdfDownloaded': 'Ticket PDF downloaded',
+  'portal.weighings.pdfFailed': 'Failed to download ticket PDF',
+  'portal.weighings.col.ticket': 'Ticket #',
+  'portal.weighings.col.date': 'Date',
+  'portal.weighings.col.orgStation': 'Org / Weighbridge',
+  'portal.weighings.col.tare': 'Tare (kg)',
+  'portal.weighings.col.gross': 'Gross (kg)',
+  'portal.weighings.col.net': 'Net (kg)',
+  'portal.weighings.col.cargo': 'Cargo',
+  'portal.weighings.col.status': 'Status',
+  'portal.weighings.col.actions': 'Actions',
+  'portal.weighings.empty': 'No weighing records found',
+  'portal.weighings.viewDetails': 'View Details',
+  'portal.weighings.downloadPdf': 'Download PDF',
+  'portal.weighings.ticketTitle': 'Ticket #{ticket}',
+  'portal.weighings.tareWeight': 'Tare Weight',
+  'portal.weighings.grossWeight': 'Gross Weight',
+  'portal.weighings.netWeight': 'Net Weight',
+  'portal.weighings.organization': 'Organization',
+  'portal.weighings.weighbridge': 'Weighbridge',
+  'portal.weighings.consignment': 'Consignment',
+  'portal.weighings.status.completed': 'Completed',
+  'portal.weighings.status.pendingSecond': 'Pending 2nd',
+  'portal.weighings.status.voided': 'Voided',
+} as const;
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
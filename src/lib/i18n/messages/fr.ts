@@ -0,0 +1,116 @@
+import type { MessageCatalog } from './en';
+
+/** Français. Missing keys fall back to English and show up in the translator report. */
+export const fr: MessageCatalog = {
+  // ── Common ────────────────────────────────────────────────────────────────
+  'common.back': 'Retour',
+  'common.search': 'Rechercher',
+  'common.clear': 'Effacer',
+  'common.logout': 'Déconnexion',
+  'common.loading': 'Chargement...',
+  'common.vehicle': 'Véhicule',
+  'common.ticket': 'Ticket',
+  'common.driver': 'Conducteur',
+  'common.kg': 'kg',
+
+  // ── Language settings ─────────────────────────────────────────────────────
+  'language.title': 'Langue',
+  'language.description': 'Langue des menus, des écrans de pesage et des avis aux conducteurs pour ce compte.',
+  'language.label': "Langue d'affichage",
+  'language.orgDefault': "Langue de l'organisation ({language})",
+  'language.saved': 'Langue mise à jour',
+  'language.reportTitle': 'Rapport pour les traducteurs',
+  'language.reportDescription': "Clés sans traduction, y compris celles que l'application a recherchées pendant cette session.",
+  'language.reportDownload': 'Télécharger les clés manquantes',
+  'language.reportEmpty': 'Toutes les clés sont traduites',
+
+  // ── Compliance status (shown to drivers) ─────────────────────────────────
+  'status.legal': 'Conforme',
+  'status.warning': 'Avertissement',
+  'status.overload': 'Surcharge',
+  'status.pending': 'En attente',
+  'status.decision.legal': 'CONFORME',
+  'status.decision.warning': 'AVERTISSEMENT - DANS LA TOLÉRANCE',
+  'status.decision.overload': 'INTERDIT - SURCHARGÉ',
+
+  // ── Weighing flow ─────────────────────────────────────────────────────────
+  'weighing.provisional.title': 'Provisoire (hors ligne).',
+  'weighing.provisional.body':
+    'La conformité et les frais ont été calculés à partir des données en cache et mis en file de synchronisation. Les chiffres définitifs seront confirmés au retour de la connexion.',
+  'weighing.summary.gvw': 'PTAC',
+  'weighing.summary.reweigh': 'Repesée : {cycle}',
+  'weighing.banner.reweigh': 'REPESÉE : {count}',
+  'weighing.banner.gvw': 'PTAC : {weight} [KG]',
+  'weighing.banner.excessAvw': 'Excès par essieu : {weight} [KG]',
+  'weighing.banner.gvwExcess': 'Excès PTAC : {weight} [KG]',
+  'weighing.banner.diffExcess': 'Excès DIFF. : {weight} [KG]',
+  'weighing.banner.timeTaken': 'Durée : {time}',
+  'weighing.decision.commercial': 'Pesage commercial',
+  'weighing.decision.weighingFee': 'Frais de pesage :',
+  'weighing.decision.fee': 'Frais :',
+  'weighing.decision.demerit': 'Points de pénalité :',
+  'weighing.decision.withinTolerance': 'Dans la tolérance opérationnelle (≤{tolerance}kg)',
+  'weighing.decision.printTicket': 'Imprimer le ticket',
+  'weighing.decision.missingFields': 'Champs obligatoires manquants',
+  'weighing.decision.fillIn': 'Veuillez renseigner : {fields} avant de continuer.',
+  'weighing.decision.finishing': 'Finalisation...',
+  'weighing.decision.finishExit': 'Terminer et quitter',
+  'weighing.decision.issueCommercialTicket': 'Émettre le ticket commercial',
+  'weighing.decision.collectPayment': 'Encaisser le paiement',
+  'weighing.decision.finishPrint': 'Terminer et imprimer le ticket',
+  'weighing.decision.sending': 'Envoi...',
+  'weighing.decision.sendToYard': 'Envoyer à la fourrière',
+  'weighing.decision.sentToYard': 'Le véhicule a été envoyé à la fourrière',
+  'weighing.decision.specialRelease': 'Mainlevée spéciale',
+  'weighing.decision.reweigh': 'Repeser',
+
+  // ── Transporter portal ────────────────────────────────────────────────────
+  'portal.badge': 'Portail transporteur',
+  'portal.loading': 'Chargement du portail...',
+  'portal.rights': 'Tous droits réservés.',
+  'portal.nav.dashboard': 'Tableau de bord',
+  'portal.nav.weighings': 'Pesées',
+  'portal.nav.vehicles': 'Véhicules',
+  'portal.nav.drivers': 'Conducteurs',
+  'portal.nav.reports': 'Rapports',
+  'portal.nav.subscription': 'Abonnement',
+  'portal.nav.team': 'Équipe',
+  'portal.weighings.title': 'Historique des pesées',
+  'portal.weighings.subtitle': 'Tous vos tickets de pesée, toutes organisations confondues',
+  'portal.weighings.historyLimit': 'Pesées des {months} derniers mois affichées avec votre offre {tier}.',
+  'portal.weighings.upgradeStandard': 'Passez à Standard',
+  'portal.weighings.upgradePremium': 'Passez à Premium',
+  'portal.weighings.forFullHistory': "pour accéder à tout l'historique.",
+  'portal.weighings.fromDate': 'Du',
+  'portal.weighings.toDate': 'Au',
+  'portal.weighings.vehicleReg': 'Immatriculation',
+  'portal.weighings.downloadZip': 'Télécharger le ZIP',
+  'portal.weighings.downloadZipHint': 'Télécharger tous les tickets de la période au format ZIP',
+  'portal.weighings.zipNeedsRange': 'Veuillez choisir une date de début et une date de fin avant de télécharger le ZIP',
+  'portal.weighings.zipDownloaded': 'ZIP des tickets téléchargé',
+  'portal.weighings.zipFailed': 'Échec du téléchargement du ZIP — vérifiez votre abonnement ou réduisez la période',
+  'portal.weighings.pdfDownloaded': 'PDF du ticket téléchargé',
+  'portal.weighings.pdfFailed': 'Échec du téléchargement du PDF du ticket',
+  'portal.weighings.col.ticket': 'Ticket n°',
+  'portal.weighings.col.date': 'Date',
+  'portal.weighings.col.orgStation': 'Org. / Pont-bascule',
+  'portal.weighings.col.tare': 'Tare (kg)',
+  'portal.weighings.col.gross': 'Brut (kg)',
+  'portal.weighings.col.net': 'Net (kg)',
+  'portal.weighings.col.cargo': 'Marchandise',
+  'portal.weighings.col.status': 'Statut',
+  'portal.weighings.col.actions': 'Actions',
+  'portal.weighings.empty': 'Aucune pesée trouvée',
+  'portal.weighings.viewDetails': 'Voir le détail',
+  'portal.weighings.downloadPdf': 'Télécharger le PDF',
+  'portal.weighings.ticketTitle': 'Ticket n° {ticket}',
+  'portal.weighings.tareWeight': 'Tare',
+  'portal.weighings.grossWeight': 'Poids brut',
+  'portal.weighings.netWeight': 'Poids net',
+  'portal.weighings.organization': 'Organisation',
+  'portal.weighings.weighbridge': 'Pont-bascule',
+  'portal.weighings.consignment': 'Chargement',
+  'portal.weighings.status.completed': 'Terminée',
+  'portal.weighings.status.pendingSecond': '2e pesée en attente',
+  'portal.weighings.status.voided': 'Annulée',
+};
@@ -0,0 +1,116 @@
+import type { MessageCatalog } from './en';
+
+/** Kiswahili. Missing keys fall back to English and show up in the translator report. */
+export const sw: MessageCatalog = {
+  // ── Common ────────────────────────────────────────────────────────────────
+  'common.back': 'Rudi',
+  'common.search': 'Tafuta',
+  'common.clear': 'Futa',
+  'common.logout': 'Toka',
+  'common.loading': 'Inapakia...',
+  'common.vehicle': 'Gari',
+  'common.ticket': 'Tiketi',
+  'common.driver': 'Dereva',
+  'common.kg': 'kg',
+
+  // ── Language settings ─────────────────────────────────────────────────────
+  'language.title': 'Lugha',
+  'language.description': 'Lugha ya menyu, skrini za kupima uzito na taarifa kwa madereva kwenye akaunti hii.',
+  'language.label': 'Lugha ya kuonyesha',
+  'language.orgDefault': 'Chaguo-msingi la shirika ({language})',
+  'language.saved': 'Lugha imebadilishwa',
+  'language.reportTitle': 'Ripoti ya watafsiri',
+  'language.reportDescription': 'Vitufe ambavyo bado havijatafsiriwa, pamoja na vile programu ilivyotafuta katika kipindi hiki.',
+  'language.reportDownload': 'Pakua vitufe visivyotafsiriwa',
+  'language.reportEmpty': 'Vitufe vyote vimetafsiriwa',
+
+  // ── Compliance status (shown to drivers) ─────────────────────────────────
+  'status.legal': 'Halali',
+  'status.warning': 'Onyo',
+  'status.overload': 'Uzito kupita kiasi',
+  'status.pending': 'Inasubiri',
+  'status.decision.legal': 'HALALI - INAKIDHI MASHARTI',
+  'status.decision.warning': 'ONYO - NDANI YA KIWANGO KINACHORUHUSIWA',
+  'status.decision.overload': 'IMEZUIWA - UZITO KUPITA KIASI',
+
+  // ── Weighing flow ─────────────────────────────────────────────────────────
+  'weighing.provisional.title': 'Matokeo ya muda (nje ya mtandao).',
+  'weighing.provisional.body':
+    'Uzingatiaji na tozo zimekokotolewa kutoka data iliyohifadhiwa na zimewekwa kwenye foleni ya kusawazisha. Takwimu za mwisho zitathibitishwa mtandao ukirejea.',
+  'weighing.summary.gvw': 'GVW',
+  'weighing.summary.reweigh': 'Kupima upya: {cycle}',
+  'weighing.banner.reweigh': 'KUPIMA UPYA: {count}',
+  'weighing.banner.gvw': 'GVW: {weight} [KG]',
+  'weighing.banner.excessAvw': 'Ziada ya AVW: {weight} [KG]',
+  'weighing.banner.gvwExcess': 'Ziada ya GVW: {weight} [KG]',
+  'weighing.banner.diffExcess': 'Ziada ya tofauti: {weight} [KG]',
+  'weighing.banner.timeTaken': 'Muda uliotumika: {time}',
+  'weighing.decision.commercial': 'Upimaji wa kibiashara',
+  'weighing.decision.weighingFee': 'Ada ya kupima:',
+  'weighing.decision.fee': 'Tozo:',
+  'weighing.decision.demerit': 'Alama za adhabu:',
+  'weighing.decision.withinTolerance': 'Ndani ya kiwango kinachoruhusiwa (≤{tolerance}kg)',
+  'weighing.decision.printTicket': 'Chapisha tiketi',
+  'weighing.decision.missingFields': 'Sehemu za lazima hazijajazwa',
+  'weighing.decision.fillIn': 'Tafadhali jaza: {fields} kabla ya kuendelea.',
+  'weighing.decision.finishing': 'Inamaliza...',
+  'weighing.decision.finishExit': 'Maliza na utoke',
+  'weighing.decision.issueCommercialTicket': 'Toa tiketi ya kibiashara',
+  'weighing.decision.collectPayment': 'Pokea malipo',
+  'weighing.decision.finishPrint': 'Maliza na uchapishe tiketi',
+  'weighing.decision.sending': 'Inatuma...',
+  'weighing.decision.sendToYard': 'Peleka yadi',
+  'weighing.decision.sentToYard': 'Gari limepelekwa yadi',
+  'weighing.decision.specialRelease': 'Kibali maalum',
+  'weighing.decision.reweigh': 'Pima upya',
+
+  // ── Transporter portal ────────────────────────────────────────────────────
+  'portal.badge': 'Lango la Wasafirishaji',
+  'portal.loading': 'Inapakia lango...',
+  'portal.rights': 'Haki zote zimehifadhiwa.',
+  'portal.nav.dashboard': 'Dashibodi',
+  'portal.nav.weighings': 'Vipimo',
+  'portal.nav.vehicles': 'Magari',
+  'portal.nav.drivers': 'Madereva',
+  'portal.nav.reports': 'Ripoti',
+  'portal.nav.subscription': 'Usajili',
+  'portal.nav.team': 'Timu',
+  'portal.weighings.title': 'Historia ya vipimo',
+  'portal.weighings.subtitle': 'Tiketi zako zote za vipimo katika mashirika yote',
+  'portal.weighings.historyLimit': 'Inaonyesha vipimo vya miezi {months} iliyopita kwenye mpango wako wa {tier}.',
+  'portal.weighings.upgradeStandard': 'Pandisha hadi Standard',
+  'portal.weighings.upgradePremium': 'Pandisha hadi Premium',
+  'portal.weighings.forFullHistory': 'ili kupata historia kamili.',
+  'portal.weighings.fromDate': 'Kuanzia tarehe',
+  'portal.weighings.toDate': 'Hadi tarehe',
+  'portal.weighings.vehicleReg': 'Namba ya gari',
+  'portal.weighings.downloadZip': 'Pakua ZIP',
+  'portal.weighings.downloadZipHint': 'Pakua tiketi zote za kipindi hiki kama ZIP',
+  'portal.weighings.zipNeedsRange': 'Tafadhali chagua tarehe ya kuanzia na ya mwisho kabla ya kupakua ZIP',
+  'portal.weighings.zipDownloaded': 'ZIP ya tiketi imepakuliwa',
+  'portal.weighings.zipFailed': 'Imeshindwa kupakua ZIP ya tiketi — angalia usajili wako au jaribu kipindi kifupi zaidi',
+  'portal.weighings.pdfDownloaded': 'PDF ya tiketi imepakuliwa',
+  'portal.weighings.pdfFailed': 'Imeshindwa kupakua PDF ya tiketi',
+  'portal.weighings.col.ticket': 'Tiketi #',
+  'portal.weighings.col.date': 'Tarehe',
+  'portal.weighings.col.orgStation': 'Shirika / Mizani',
+  'portal.weighings.col.tare': 'Uzito tupu (kg)',
+  'portal.weighings.col.gross': 'Uzito jumla (kg)',
+  'portal.weighings.col.net': 'Uzito halisi (kg)',
+  'portal.weighings.col.cargo': 'Mzigo',
+  'portal.weighings.col.status': 'Hali',
+  'portal.weighings.col.actions': 'Vitendo',
+  'portal.weighings.empty': 'Hakuna rekodi za vipimo',
+  'portal.weighings.viewDetails': 'Angalia maelezo',
+  'portal.weighings.downloadPdf': 'Pakua PDF',
+  'portal.weighings.ticketTitle': 'Tiketi #{ticket}',
+  'portal.weighings.tareWeight': 'Uzito tupu',
+  'portal.weighings.grossWeight': 'Uzito jumla',
+  'portal.weighings.netWeight': 'Uzito halisi',
+  'portal.weighings.organization': 'Shirika',
+  'portal.weighings.weighbridge': 'Mizani',
+  'portal.weighings.consignment': 'Shehena',
+  'portal.weighings.status.completed': 'Imekamilika',
+  'portal.weighings.status.pendingSecond': 'Inasubiri kipimo cha 2',
+  'portal.weighings.status.voided': 'Imebatilishwa',
+};
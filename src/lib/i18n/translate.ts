@@ -0,0 +1,93 @@
+/**
+ * Translator core. The active locale is module state (set by LocaleProvider) so plain helpers
+ * such as the formatters and weighing-utils follow the UI language without a React context.
+ *
+ * Lookups fall back to English, then to the key itself. Every fallback is counted so the
+ * translator report can list what users actually hit, not only what the catalogs lack.
+ */
+
+import { DEFAULT_LOCALE, getLocaleOption, SUPPORTED_LOCALES, type AppLocale } from './locales';
+import { en, type MessageCatalog, type MessageKey } from './messages/en';
+import { fr } from './messages/fr';
+import { sw } from './messages/sw';
+
+export type TranslateVars = Record<string, string | number>;
+
+export interface MissingKeyRow {
+  locale: AppLocale;
+  key: string;
+  english: string;
+  /** Times the key fell back during this session (0 = only missing from the catalog). */
+  hits: number;
+}
+
+const CATALOGS: Record<AppLocale, MessageCatalog> = { en, sw, fr };
+
+let activeLocale: AppLocale = DEFAULT_LOCALE;
+const runtimeMisses = new Map<string, number>();
+
+export function setActiveLocale(locale: AppLocale): void {
+  activeLocale = locale;
+}
+
+export function getActiveLocale(): AppLocale {
+  return activeLocale;
+}
+
+/** BCP 47 tag of the active locale, for Intl. */
+export function getActiveIntlLocale(): string {
+  return getLocaleOption(activeLocale).intl;
+}
+
+function interpolate(template: string, vars?: TranslateVars): string {
+  if (!vars) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in vars ? String(vars[name]) : match));
+}
+
+function recordMiss(locale: AppLocale, key: string): void {
+  const id = `${locale}\u0000${key}`;
+  runtimeMisses.set(id, (runtimeMisses.get(id) ?? 0) + 1);
+}
+
+/** Translate `key` into `locale` (default: the active locale), filling `{name}` placeholders. */
+export function translate(key: MessageKey, vars?: TranslateVars, locale: AppLocale = activeLocale): string {
+  const localized = CATALOGS[locale][key];
+  if (localized !== undefined) return interpolate(localized, vars);
+  const english = (en as Record<string, string>)[key];
+  if (locale !== 'en' || english === undefined) recordMiss(english === undefined ? 'en' : locale, key);
+  return interpolate(english ?? key, vars);
+}
+
+/**
+ * Keys each locale is missing: the catalog diff against English plus any key looked up at
+ * runtime that no catalog has, with how often it fell back this session.
+ */
+export function buildMissingKeyReport(): MissingKeyRow[] {
+  const rows = new Map<string, MissingKeyRow>();
+  for (const { code } of SUPPORTED_LOCALES) {
+    if (code === 'en') continue;
+    for (const key of Object.keys(en) as MessageKey[]) {
+      if (CATALOGS[code][key] === undefined) {
+        rows.set(`${code}\u0000${key}`, { locale: code, key, english: en[key], hits: 0 });
+      }
+    }
+  }
+  for (const [id, hits] of runtimeMisses) {
+    const [locale, key] = id.split('\u0000') as [AppLocale, string];
+    const row = rows.get(id);
+    if (row) row.hits = hits;
+    else rows.set(id, { locale, key, english: (en as Record<string, string>)[key] ?? '', hits });
+  }
+  return [...rows.values()].sort((a, b) => b.hits - a.hits || a.locale.localeCompare(b.locale) || a.key.localeCompare(b.key));
+}
+
+/** Share of English keys each locale translates (0–1). */
+export function getCatalogCoverage(locale: AppLocale): number {
+  const keys = Object.keys(en) as MessageKey[];
+  return keys.filter((k) => CATALOGS[locale][k] !== undefined).length / keys.length;
+}
+
+/** Test hook: forget runtime misses. */
+export function resetMissingKeys(): void {
+  runtimeMisses.clear();
+}
@@ -0,0 +1,189 @@
+/**
+ * Axle load redistribution planner
+ *
+ * For a vehicle held in the yard, works out the smallest load shift between axle groups that
+ * brings every group within its effective limit (permissible + tolerance), and how much has to be
+ * offloaded when redistribution alone cannot fix it. Pure and synchronous — the yard sheet feeds
+ * it the weighing's compliance result and prints the plan for the driver.
+ *
+ * Rules:
+ *  - Shifting load conserves GVW, so a GVW overload (or more load than all groups can carry
+ *    together) always needs an offload. The offload is taken from overloaded groups first, since
+ *    that also removes load that would otherwise have to be moved.
+ *  - The remaining group excess is moved into groups with spare capacity, nearest group first —
+ *    the total kg moved is the same either way, but cargo shifted one group along is easier to
+ *    move than cargo shifted the length of the bed.
+ *  - `marginKg` keeps the planned loads that far below each limit so a small scale difference on
+ *    the re-weigh doesn't fail the vehicle again.
+ */
+
+export interface PlanGroupInput {
+  groupLabel: string;
+  measuredKg: number;
+  /** Limit the group must be brought under — the effective limit (permissible + tolerance). */
+  limitKg: number;
+}
+
+export interface PlanInput {
+  groups: PlanGroupInput[];
+  /** GVW limit including tolerance. */
+  gvwLimitKg: number;
+  /** Head-room kept below every limit. Default 0. */
+  marginKg?: number;
+}
+
+export interface PlannedTransfer {
+  fromGroup: string;
+  toGroup: string;
+  kg: number;
+}
+
+export interface PlannedGroup extends PlanGroupInput {
+  offloadKg: number;
+  plannedKg: number;
+}
+
+export type PlanOutcome = 'compliant' | 'redistribute' | 'offload' | 'redistribute_and_offload';
+
+export interface RedistributionPlan {
+  outcome: PlanOutcome;
+  groups: PlannedGroup[];
+  transfers: PlannedTransfer[];
+  /** Total kg moved between groups. */
+  shiftKg: number;
+  /** Total kg to take off the vehicle. 0 when redistribution alone fixes it. */
+  offloadKg: number;
+  gvwMeasuredKg: number;
+  gvwLimitKg: number;
+  gvwPlannedKg: number;
+  /** Why an offload is needed, for the printed plan. */
+  offloadReason?: 'gvw' | 'capacity';
+}
+
+/** Build the smallest redistribution (and, if needed, offload) plan for the measured groups. */
+export function planRedistribution({ groups, gvwLimitKg, marginKg = 0 }: PlanInput): RedistributionPlan {
+  const targets = groups.map((g) => Math.max(0, g.limitKg - marginKg));
+  const loads = groups.map((g) => Math.round(g.measuredKg));
+  const offloads = groups.map(() => 0);
+  const gvwMeasuredKg = loads.reduce((s, v) => s + v, 0);
+  const gvwTargetKg = Math.max(0, gvwLimitKg - marginKg);
+  const capacityKg = targets.reduce((s, v) => s + v, 0);
+
+  // ── Offload ────────────────────────────────────────────────────────────────
+  const gvwExcess = Math.max(0, gvwMeasuredKg - gvwTargetKg);
+  const capacityExcess = Math.max(0, gvwMeasuredKg - capacityKg);
+  let toOffload = Math.max(gvwExcess, capacityExcess);
+  const offloadReason = toOffload === 0 ? undefined : gvwExcess >= capacityExcess ? 'gvw' as const : 'capacity' as const;
+
+  // Overloaded groups first (largest excess first), then whatever group carries the most load.
+  const byExcess = loads.map((_, i) => i).sort((a, b) => (loads[b] - targets[b]) - (loads[a] - targets[a]));
+  for (const i of byExcess) {
+    if (toOffload === 0) break;
+    const take = Math.min(toOffload, Math.max(0, loads[i] - targets[i]));
+    loads[i] -= take;
+    offloads[i] += take;
+    toOffload -= take;
+  }
+  const byLoad = loads.map((_, i) => i).sort((a, b) => loads[b] - loads[a]);
+  for (const i of byLoad) {
+    if (toOffload === 0) break;
+    const take = Math.min(toOffload, loads[i]);
+    loads[i] -= take;
+    offloads[i] += take;
+    toOffload -= take;
+  }
+
+  // ── Redistribution ─────────────────────────────────────────────────────────
+  const transfers: PlannedTransfer[] = [];
+  for (let from = 0; from < loads.length; from++) {
+    let excess = loads[from] - targets[from];
+    if (excess <= 0) continue;
+    const nearest = loads
+      .map((_, i) => i)
+      .filter((i) => i !== from)
+      .sort((a, b) => Math.abs(a - from) - Math.abs(b - from) || a - b);
+    for (const to of nearest) {
+      if (excess <= 0) break;
+      const spare = targets[to] - loads[to];
+      if (spare <= 0) continue;
+      const kg = Math.min(spare, excess);
+      loads[from] -= kg;
+      loads[to] += kg;
+      excess -= kg;
+      transfers.push({ fromGroup: groups[from].groupLabel, toGroup: groups[to].groupLabel, kg });
+    }
+  }
+
+  const offloadKg = offloads.reduce((s, v) => s + v, 0);
+  const shiftKg = transfers.reduce((s, t) => s + t.kg, 0);
+  const outcome: PlanOutcome =
+    offloadKg > 0 && shiftKg > 0 ? 'redistribute_and_offload'
+      : offloadKg > 0 ? 'offload'
+        : shiftKg > 0 ? 'redistribute'
+          : 'compliant';
+
+  return {
+    outcome,
+    groups: groups.map((g, i) => ({ ...g, offloadKg: offloads[i], plannedKg: loads[i] })),
+    transfers,
+    shiftKg,
+    offloadKg,
+    gvwMeasuredKg,
+    gvwLimitKg,
+    gvwPlannedKg: gvwMeasuredKg - offloadKg,
+    offloadReason,
+  };
+}
+
+// ── Re-weigh comparison ───────────────────────────────────────────────────────
+
+export interface ReweighGroupComparison {
+  groupLabel: string;
+  plannedKg: number;
+  reweighKg: number;
+  /** reweigh − planned; positive means more load than planned was left on the group. */
+  deltaKg: number;
+  limitKg: number;
+  withinLimit: boolean;
+}
+
+export interface ReweighComparison {
+  groups: ReweighGroupComparison[];
+  gvwPlannedKg: number;
+  gvwReweighKg: number;
+  gvwDeltaKg: number;
+  /** Every group and the GVW are within their limits on the re-weigh. */
+  compliant: boolean;
+  /** Every group landed within `toleranceKg` of the plan (or under it). */
+  followedPlan: boolean;
+}
+
+/**
+ * Compare a re-weigh against the plan. Groups are matched by label; a group missing from the
+ * re-weigh (different configuration captured) counts as not following the plan.
+ */
+export function compareReweighToPlan(
+  plan: RedistributionPlan,
+  reweigh: { groupLabel: string; measuredKg: number }[],
+  toleranceKg = 200,
+): ReweighComparison {
+  const byLabel = new Map(reweigh.map((g) => [g.groupLabel, g.measuredKg]));
+  let followedPlan = reweigh.length === plan.groups.length;
+  const groups = plan.groups.map((g) => {
+    const measured = byLabel.get(g.groupLabel);
+    if (measured === undefined) followedPlan = false;
+    const reweighKg = Math.round(measured ?? 0);
+    const deltaKg = reweighKg - g.plannedKg;
+    if (deltaKg > toleranceKg) followedPlan = false;
+    return { groupLabel: g.groupLabel, plannedKg: g.plannedKg, reweighKg, deltaKg, limitKg: g.limitKg, withinLimit: reweighKg <= g.limitKg };
+  });
+  const gvwReweighKg = reweigh.reduce((s, g) => s + Math.round(g.measuredKg), 0);
+  return {
+    groups,
+    gvwPlannedKg: plan.gvwPlannedKg,
+    gvwReweighKg,
+    gvwDeltaKg: gvwReweighKg - plan.gvwPlannedKg,
+    compliant: groups.every((g) => g.withinLimit) && gvwReweighKg <= plan.gvwLimitKg,
+    followedPlan,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment node
+ *
+ * Offline activity log chain: any edit, reorder or deletion must show up as tampering at the
+ * first entry that no longer chains. Runs under node for WebCrypto's SHA-256.
+ */
+import { GENESIS_HASH, hashEntry, verifyActivityChain } from '../activityLog';
+import type { OfflineActivityEntry, OfflineActivityKind } from '../db';
+
+async function buildChain(kinds: OfflineActivityKind[]): Promise<OfflineActivityEntry[]> {
+  const chain: OfflineActivityEntry[] = [];
+  for (const [i, kind] of kinds.entries()) {
+    const fields = {
+      seq: i + 1,
+      deviceId: 'device-1',
+      kind,
+      at: `2026-05-0${i + 1}T10:00:00.000Z`,
+      success: kind !== 'PIN_UNLOCK_FAILED',
+      userLabel: 'officer@kenha.go.ke',
+      details: JSON.stringify({ n: i }),
+      prevHash: chain[i - 1]?.hash ?? GENESIS_HASH,
+    };
+    chain.push({ ...fields, hash: await hashEntry(fields) });
+  }
+  return chain;
+}
+
+const KINDS: OfflineActivityKind[] = ['PIN_UNLOCK_FAILED', 'PIN_UNLOCK', 'OFFLINE_CAPTURE', 'PROVISIONAL_RESULT_SHOWN', 'SYNC_ATTEMPT'];
+
+describe('verifyActivityChain', () => {
+  it('accepts an untouched chain, regardless of upload state', async () => {
+    const chain = await buildChain(KINDS);
+    chain[0].uploadedAt = '2026-05-06T00:00:00.000Z';
+    await expect(verifyActivityChain(chain)).resolves.toEqual({ status: 'intact', checked: 5 });
+    await expect(verifyActivityChain([])).resolves.toEqual({ status: 'empty' });
+  });
+
+  it('flags an edited entry', async () => {
+    const chain = await buildChain(KINDS);
+    chain[2] = { ...chain[2], details: JSON.stringify({ n: 99 }) };
+    await expect(verifyActivityChain(chain)).resolves.toMatchObject({ status: 'tampered', brokenAtSeq: 3 });
+  });
+
+  it('flags a deleted entry in the middle of the chain', async () => {
+    const chain = await buildChain(KINDS);
+    chain.splice(1, 1);
+    await expect(verifyActivityChain(chain)).resolves.toMatchObject({ status: 'tampered', brokenAtSeq: 3 });
+  });
+
+  it('flags a re-hashed edit because the next link no longer matches', async () => {
+    const chain = await buildChain(KINDS);
+    const { hash: _hash, ...fields } = { ...chain[0], success: true };
+    chain[0] = { ...fields, hash: await hashEntry(fields) };
+    await expect(verifyActivityChain(chain)).resolves.toMatchObject({ status: 'tampered', brokenAtSeq: 2 });
+  });
+
+  it('flags a chain that starts after genesis when nothing was uploaded', async () => {
+    const chain = await buildChain(KINDS);
+    await expect(verifyActivityChain(chain.slice(2))).resolves.toMatchObject({ status: 'tampered', brokenAtSeq: 3 });
+  });
+
+  it('accepts a later anchor only once the entries before it were uploaded and pruned', async () => {
+    const chain = await buildChain(KINDS);
+    const pruned = chain.slice(2);
+    pruned[0].uploadedAt = '2026-05-06T00:00:00.000Z';
+    await expect(verifyActivityChain(pruned)).resolves.toEqual({ status: 'intact', checked: 3 });
+
+    const uploadedThrough2 = chain.slice(2);
+    await expect(verifyActivityChain(uploadedThrough2, 2)).resolves.toEqual({ status: 'intact', checked: 3 });
+    await expect(verifyActivityChain(chain.slice(3), 2)).resolves.toMatchObject({ status: 'tampered', brokenAtSeq: 4 });
+  });
+});
@@ -5,7 +5,16 @@
  * backend computed. This locks the offline engine to the server's results in CI — the same
  * assertion the live parity harness (scripts/offline-compliance-parity.mjs) makes against the DB.
  */
-import { computeProvisionalCompliance, computeProvisionalCharges, type ToleranceSettingRef, type FeeScheduleRef } from '../compliance';
+import {
+  computeProvisionalCompliance,
+  computeProvisionalCharges,
+  computeAxleTypeFees,
+  computeDemeritPoints,
+  type ToleranceSettingRef,
+  type FeeScheduleRef,
+  type AxleTypeFeeScheduleRef,
+  type DemeritScheduleRef,
+} from '../compliance';
 
 // Mirror of tolerance_settings in kuraweigh.
 const SETTINGS: ToleranceSettingRef[] = [
@@ -111,3 +120,71 @@ describe('offline charges engine — parity with backend', () => {
     expect(c.totalFeeKes).toBe(20000);
   });
 });
+
+describe('offline engine — permits, axle-type fees, demerit points', () => {
+  const OVERLOADED_EAC = {
+    legalFramework: 'EAC',
+    gvwPermissibleKg: 18000,
+    gvwConfigToleranceKg: null,
+    toleranceSettings: SETTINGS,
+    axles: [
+      { axleNumber: 1, measuredWeightKg: 6500, permissibleWeightKg: 8000, axleGrouping: 'A' },
+      { axleNumber: 2, measuredWeightKg: 13200, permissibleWeightKg: 10000, axleGrouping: 'B' },
+    ],
+  };
+
+  it('classifies groups by axle type (steering, single drive, tandem)', () => {
+    const r = computeProvisionalCompliance({
+      ...OVERLOADED_EAC,
+      axles: [
+        { axleNumber: 1, measuredWeightKg: 6000, permissibleWeightKg: 8000, axleGrouping: 'A' },
+        { axleNumber: 2, measuredWeightKg: 8000, permissibleWeightKg: 10000, axleGrouping: 'B' },
+        { axleNumber: 3, measuredWeightKg: 8000, permissibleWeightKg: 9000, axleGrouping: 'C' },
+        { axleNumber: 4, measuredWeightKg: 8000, permissibleWeightKg: 9000, axleGrouping: 'C' },
+      ],
+    });
+    expect(r.groupResults.map((g) => g.axleType)).toEqual(['Steering', 'SingleDrive', 'Tandem']);
+  });
+
+  it('applies permit axle (per group) and GVW extensions to permissibles', () => {
+    const r = computeProvisionalCompliance({ ...OVERLOADED_EAC, permit: { axleExtensionKg: 3000, gvwExtensionKg: 2000 } });
+    expect(r.hasPermit).toBe(true);
+    expect(r.gvwPermissibleKg).toBe(20000);
+    const b = r.groupResults.find((g) => g.groupLabel === 'B')!;
+    expect(b.groupPermissibleKg).toBe(13000);
+    expect(b.overloadKg).toBe(0); // 13200 - (13000 + 5% = 650)
+  });
+
+  const AXLE_FEES: AxleTypeFeeScheduleRef[] = [
+    { legalFramework: 'EAC', overloadMinKg: 1, overloadMaxKg: 999, steeringAxleFeeUsd: 50, singleDriveAxleFeeUsd: 60, tandemAxleFeeUsd: 80, tridemAxleFeeUsd: 100, quadAxleFeeUsd: 120 },
+    { legalFramework: 'EAC', overloadMinKg: 1000, overloadMaxKg: null, steeringAxleFeeUsd: 150, singleDriveAxleFeeUsd: 200, tandemAxleFeeUsd: 250, tridemAxleFeeUsd: 300, quadAxleFeeUsd: 350 },
+  ];
+
+  it('EAC axle fee uses the band for the group overload and the column for its axle type', () => {
+    const r = computeProvisionalCompliance(OVERLOADED_EAC);
+    const fees = computeAxleTypeFees(r.groupResults, 'EAC', AXLE_FEES);
+    // Group B: single drive, 13200 - (10000 + 500) = 2700kg → 1000+ band → 200 USD.
+    expect(fees.groupFees).toEqual([
+      { groupLabel: 'A', feeUsd: 0 },
+      { groupLabel: 'B', feeUsd: 200 },
+    ]);
+    expect(fees.totalAxleFeeUsd).toBe(200);
+  });
+
+  it('Traffic Act never charges axle-type fees', () => {
+    const r = computeProvisionalCompliance({ ...OVERLOADED_EAC, legalFramework: 'TRAFFIC_ACT' });
+    expect(computeAxleTypeFees(r.groupResults, 'TRAFFIC_ACT', AXLE_FEES).totalAxleFeeUsd).toBe(0);
+  });
+
+  it('demerit points take the most severe of the GVW and axle bands', () => {
+    const schedules: DemeritScheduleRef[] = [
+      { legalFramework: 'EAC', violationType: 'GVW', overloadMinKg: 1, overloadMaxKg: null, points: 2 },
+      { legalFramework: 'EAC', violationType: 'AXLE', overloadMinKg: 1, overloadMaxKg: 1999, points: 1 },
+      { legalFramework: 'EAC', violationType: 'AXLE', overloadMinKg: 2000, overloadMaxKg: null, points: 3 },
+    ];
+    const r = computeProvisionalCompliance(OVERLOADED_EAC);
+    const d = computeDemeritPoints(r, 'EAC', schedules);
+    expect(d.groupPoints.find((g) => g.groupLabel === 'B')!.points).toBe(3);
+    expect(d.totalPoints).toBe(3);
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Offline update conflicts: classify each field of a queued update against the base it was made
+ * on and the current server copy, and only force a choice where both sides changed it.
+ */
+import { defaultMergeChoices, diffThreeWay, mergeFields } from '../conflicts';
+
+const BASE = { obNo: 'OB/1/2026', courtId: 'court-a', courtName: 'Mlolongo', driverNtacNo: '', caseManagerId: 'cm-1' };
+
+describe('diffThreeWay', () => {
+  it('classifies local-only, server-only, identical and conflicting edits', () => {
+    const local = { obNo: 'OB/9/2026', courtId: 'court-a', driverNtacNo: 'NT-55', caseManagerId: 'cm-2' };
+    const server = { ...BASE, courtId: 'court-b', driverNtacNo: 'NT-55', caseManagerId: 'cm-3' };
+    const byField = Object.fromEntries(diffThreeWay(BASE, local, server).map((d) => [d.field, d.change]));
+    expect(byField).toEqual({
+      obNo: 'local',
+      courtId: 'server',
+      driverNtacNo: 'same',
+      caseManagerId: 'conflict',
+    });
+  });
+
+  it('treats empty strings and missing values as the same "not set"', () => {
+    const diffs = diffThreeWay(BASE, { driverNtacNo: undefined as unknown as string }, { ...BASE, driverNtacNo: null });
+    expect(diffs[0].change).toBe('unchanged');
+  });
+
+  it('flags any disagreement as a conflict when the base is unknown', () => {
+    const diffs = diffThreeWay(null, { obNo: 'OB/9', courtId: 'court-a' }, { obNo: 'OB/7', courtId: 'court-a' });
+    expect(diffs.map((d) => d.change)).toEqual(['conflict', 'same']);
+  });
+});
+
+describe('merge', () => {
+  it('pre-selects the changed side and leaves conflicts for the officer', () => {
+    const local = { obNo: 'OB/9/2026', courtId: 'court-a', caseManagerId: 'cm-2' };
+    const server = { ...BASE, courtId: 'court-b', caseManagerId: 'cm-3' };
+    const diffs = diffThreeWay(BASE, local, server);
+    const choices = defaultMergeChoices(diffs);
+    expect(choices).toEqual({ obNo: 'local', courtId: 'server', caseManagerId: undefined });
+
+    expect(mergeFields(diffs, { ...choices, caseManagerId: 'server' })).toEqual({
+      obNo: 'OB/9/2026',
+      courtId: 'court-b',
+      caseManagerId: 'cm-3',
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Station queue: repeated ANPR reads must not queue a vehicle twice, and wait / service times come
+ * from the arrival, take and completion timestamps. A weighing whose screen goes quiet is put back.
+ */
+import type { VehicleTagDto, YardEntryDto } from '@/lib/api/yard';
+import type { Permit } from '@/types/weighing';
+import {
+  derivePrescreenFlags,
+  getBoundQueueStats,
+  getWaiting,
+  withArrival,
+  withStaleWeighingReleased,
+  withStatus,
+} from '../stationQueue';
+
+const at = (hhmm: string) => new Date(`2026-10-19T${hhmm}:00.000Z`);
+
+describe('withArrival', () => {
+  it('ignores repeat ANPR reads but lets a check-in add details', () => {
+    let q = withArrival([], { plateNumber: 'KCA 123A', bound: 'A', source: 'anpr', confidence: 0.9 }, at('08:00'));
+    q = withArrival(q, { plateNumber: 'kca123a', bound: 'A', source: 'anpr' }, at('08:01'));
+    expect(q).toHaveLength(1);
+    q = withArrival(q, { plateNumber: 'KCA-123A', bound: 'A', source: 'check-in', cargoId: 'maize' }, at('08:02'));
+    expect(q).toHaveLength(1);
+    expect(q[0]).toMatchObject({ plateNumber: 'KCA 123A', source: 'anpr', cargoId: 'maize', arrivedAt: at('08:00').toISOString() });
+  });
+
+  it('queues the same plate again once its weighing is done', () => {
+    let q = withArrival([], { plateNumber: 'KCA 123A', bound: 'A', source: 'anpr' }, at('08:00'));
+    q = withStatus(q, q[0].id, 'done', at('08:20'));
+    q = withArrival(q, { plateNumber: 'KCA 123A', bound: 'A', source: 'anpr' }, at('09:00'));
+    expect(getWaiting(q)).toHaveLength(1);
+  });
+});
+
+describe('getBoundQueueStats', () => {
+  it('averages wait and service per bound and estimates the wait for a new arrival', () => {
+    let q = withArrival([], { plateNumber: 'KAA 001A', bound: 'A', source: 'anpr' }, at('08:00'));
+    q = withArrival(q, { plateNumber: 'KAA 002A', bound: 'A', source: 'anpr' }, at('08:05'));
+    q = withArrival(q, { plateNumber: 'KAA 003A', bound: 'A', source: 'anpr' }, at('08:10'));
+    q = withArrival(q, { plateNumber: 'KBB 001B', bound: 'B', source: 'anpr' }, at('08:00'));
+    const [first, second] = getWaiting(q, 'A');
+    q = withStatus(q, first.id, 'weighing', at('08:10'), 'multideck');
+    q = withStatus(q, first.id, 'done', at('08:22'));
+    q = withStatus(q, second.id, 'weighing', at('08:25'));
+
+    const stats = getBoundQueueStats(q, 'A', at('08:30'));
+    expect(stats).toMatchObject({ waiting: 1, inService: 1, longestWaitMs: 20 * 60_000 });
+    expect(stats.avgWaitMs).toBe(15 * 60_000); // 10 and 20 min
+    expect(stats.avgServiceMs).toBe(12 * 60_000);
+    expect(stats.estimatedWaitMs).toBe(12 * 60_000);
+    expect(getBoundQueueStats(q, 'B', at('08:30'))).toMatchObject({ waiting: 1, avgServiceMs: null, estimatedWaitMs: null });
+  });
+
+  it('puts a cancelled weighing back in its place', () => {
+    let q = withArrival([], { plateNumber: 'KAA 001A', bound: 'A', source: 'anpr' }, at('08:00'));
+    q = withArrival(q, { plateNumber: 'KAA 002A', bound: 'A', source: 'anpr' }, at('08:05'));
+    q = withStatus(q, getWaiting(q)[0].id, 'weighing', at('08:10'));
+    q = withStatus(q, q[0].id, 'waiting', at('08:12'));
+    expect(getWaiting(q, 'A').map((e) => e.plateNumber)).toEqual(['KAA 001A', 'KAA 002A']);
+    expect(q[0].takenAt).toBeUndefined();
+  });
+
+  it('puts a weighing back in the queue once its screen stops sending heartbeats', () => {
+    let q = withArrival([], { plateNumber: 'KAA 001A', bound: 'A', source: 'anpr' }, at('08:00'));
+    q = withStatus(q, q[0].id, 'weighing', at('08:10'), 'mobile');
+    q = q.map((e) => ({ ...e, heartbeatAt: at('08:20').toISOString() }));
+    expect(withStaleWeighingReleased(q, at('08:34'))[0].status).toBe('weighing');
+    const released = withStaleWeighingReleased(q, at('08:36'));
+    expect(released[0]).toMatchObject({ status: 'waiting', takenAt: undefined, weighingMode: undefined });
+  });
+});
+
+describe('derivePrescreenFlags', () => {
+  const tag = { status: 'open', tagCategoryName: 'Overload history', reason: 'Repeat offender' } as VehicleTagDto;
+  const yard = { status: 'pending', reason: 'Overload', stationName: 'Mariakani', ticketNumber: 'T-1' } as YardEntryDto;
+  const permit = (validTo: string, status: Permit['status'] = 'active') =>
+    ({ permitNo: 'P-1', status, validFrom: '2026-01-01', validTo }) as Permit;
+
+  it('flags open tags, unreleased yard entries and a lapsed permit', () => {
+    expect(
+      derivePrescreenFlags({ tags: [tag], yardEntries: [yard], permits: [permit('2026-09-30')] }, at('08:00')).map((f) => f.kind)
+    ).toEqual(['open-tag', 'yard', 'permit-expired']);
+  });
+
+  it('stays quiet for closed tags, released vehicles and valid or no permits', () => {
+    const flags = derivePrescreenFlags(
+      { tags: [{ ...tag, status: 'closed' }], yardEntries: [{ ...yard, status: 'released' }], permits: [permit('2026-09-30'), permit('2026-12-31')] },
+      at('08:00')
+    );
+    expect(flags).toEqual([]);
+    expect(derivePrescreenFlags({ tags: [], yardEntries: [], permits: [] }, at('08:00'))).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * WIM screening: the WIM margin and the most-lenient-configuration rule must both be applied
+ * before a passage is called a suspected overload.
+ */
+import type { AxleConfiguration } from '@/lib/api/weighing';
+import type { ToleranceSettingRef } from '../compliance';
+import { screenPassage } from '../wimScreening';
+
+const SETTINGS: ToleranceSettingRef[] = [
+  { code: 'TRAFFIC_ACT_AXLE_TOLERANCE', legalFramework: 'TRAFFIC_ACT', tolerancePercentage: 5, toleranceKg: null, appliesTo: 'AXLE' },
+  { code: 'TRAFFIC_ACT_GVW_TOLERANCE', legalFramework: 'TRAFFIC_ACT', tolerancePercentage: 0, toleranceKg: 3000, appliesTo: 'GVW' },
+  { code: 'OPERATIONAL_ALLOWANCE', legalFramework: 'GLOBAL', tolerancePercentage: 0, toleranceKg: 200, appliesTo: 'BOTH' },
+];
+
+function config(axleCode: string, gvwPermissibleKg: number, legal: number[], grouping: string[]): AxleConfiguration {
+  return {
+    id: axleCode,
+    axleCode,
+    axleName: axleCode,
+    axleNumber: legal.length,
+    gvwPermissibleKg,
+    isStandard: true,
+    legalFramework: 'TRAFFIC_ACT',
+    isActive: true,
+    createdAt: '',
+    updatedAt: '',
+    weightReferenceCount: legal.length,
+    weightReferences: legal.map((kg, i) => ({
+      id: `${axleCode}-${i}`,
+      axleConfigurationId: axleCode,
+      axlePosition: i + 1,
+      axleLegalWeightKg: kg,
+      axleGrouping: grouping[i],
+      isActive: true,
+    })),
+  };
+}
+
+const STRICT_3A = config('3A', 26000, [8000, 9000, 9000], ['A', 'B', 'B']);
+const LENIENT_3B = config('3B', 28000, [8000, 10000, 10000], ['A', 'B', 'B']);
+
+const passage = {
+  passageId: 'p1',
+  timestamp: '2026-03-01T08:00:00Z',
+  speedKmh: 45,
+  axleSpacingsM: [3.6, 1.3],
+  axleLoadsKg: [7000, 11000, 11000],
+  gvwKg: 29000,
+  plate: { plateNumber: 'KDA 123A' },
+};
+
+describe('screenPassage', () => {
+  it('deducts the WIM margin before applying the compliance engine', () => {
+    const raw = screenPassage(passage, [STRICT_3A], () => SETTINGS, { marginPct: 0 });
+    const withMargin = screenPassage(passage, [STRICT_3A], () => SETTINGS, { marginPct: 10 });
+    expect(raw.maxOverloadKg).toBe(3100); // tandem 22000 vs 18000 + 5%
+    expect(withMargin.maxOverloadKg).toBe(900); // tandem 19800 vs 18900
+    expect(withMargin.verdict).toBe('suspected');
+  });
+
+  it('screens against the most lenient configuration with the same axle count', () => {
+    const r = screenPassage(passage, [STRICT_3A, LENIENT_3B], () => SETTINGS, { marginPct: 10 });
+    expect(r.candidateCount).toBe(2);
+    expect(r.axleConfigCode).toBe('3B');
+    expect(r.verdict).toBe('clear');
+  });
+
+  it('leaves passages without a cached configuration unscreened and flags fast passages', () => {
+    const fourAxle = { ...passage, axleLoadsKg: [7000, 9000, 9000, 9000], speedKmh: 95 };
+    const r = screenPassage(fourAxle, [STRICT_3A], () => SETTINGS);
+    expect(r.verdict).toBe('unscreened');
+    expect(r.lowConfidence).toBe(true);
+  });
+});
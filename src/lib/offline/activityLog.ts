@@ -0,0 +1,158 @@
+/**
+ * Offline activity log — append-only, hash-chained record of what happened on this device while
+ * the server couldn't see it: PIN unlocks (and failed attempts / lockouts), offline captures,
+ * provisional results shown to drivers and sync attempts.
+ *
+ * Each entry's hash is SHA-256 over its canonical form, which includes the previous entry's hash
+ * (a zero genesis hash for the first), so editing, reordering or deleting an entry breaks the
+ * chain from that point on. The log is uploaded at
+ * the end of a drain (see ./sync.ts) and stays on the device for the audit viewer's tamper check.
+ * Logging is best-effort: it must never block an unlock, a capture or a sync.
+ */
+
+import { offlineDb, type OfflineActivityEntry, type OfflineActivityKind } from './db';
+import type { Poster } from './sync';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+/** Uploaded entries older than this are pruned (the newest is kept as the chain anchor). */
+const RETENTION_DAYS = 30;
+const DEVICE_ID_KEY = 'activityDeviceId';
+const LAST_UPLOADED_SEQ_KEY = 'activityLastUploadedSeq';
+
+export interface ActivityActor {
+  userId?: string;
+  userLabel?: string;
+}
+
+export interface AppendActivityInput extends ActivityActor {
+  kind: OfflineActivityKind;
+  success?: boolean;
+  details?: Record<string, unknown>;
+}
+
+export type ChainStatus =
+  | { status: 'empty' }
+  | { status: 'intact'; checked: number }
+  | { status: 'tampered'; checked: number; brokenAtSeq: number };
+
+type HashedFields = Omit<OfflineActivityEntry, 'hash' | 'uploadedAt'>;
+
+/** Stable serialization of the hashed fields (fixed key order, absent fields as null). */
+function canonical(e: HashedFields): string {
+  return JSON.stringify([
+    e.seq, e.deviceId, e.kind, e.at, e.success, e.userId ?? null, e.userLabel ?? null, e.details ?? null, e.prevHash,
+  ]);
+}
+
+export async function hashEntry(e: HashedFields): Promise<string> {
+  const bytes = new TextEncoder().encode(canonical(e));
+  const digest = await crypto.subtle.digest('SHA-256', bytes as unknown as BufferSource);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** Stable per-install id, kept in IndexedDB so the page and the service worker agree. */
+async function getDeviceId(): Promise<string> {
+  const existing = await offlineDb.snapshots.get(DEVICE_ID_KEY);
+  if (existing) return existing.data;
+  const id = crypto.randomUUID();
+  await offlineDb.snapshots.put({ key: DEVICE_ID_KEY, data: id, fetchedAt: new Date().toISOString() });
+  return id;
+}
+
+// Appends from one context are serialized so two quick events can't claim the same seq.
+let appendQueue: Promise<unknown> = Promise.resolve();
+
+/** Append an entry to the chain. Never throws. */
+export function recordOfflineActivity(input: AppendActivityInput): Promise<void> {
+  const run = appendQueue.then(async () => {
+    try {
+      const deviceId = await getDeviceId();
+      const last = await offlineDb.activityLog.orderBy('seq').last();
+      const entry: HashedFields = {
+        seq: (last?.seq ?? 0) + 1,
+        deviceId,
+        kind: input.kind,
+        at: new Date().toISOString(),
+        success: input.success ?? true,
+        userId: input.userId,
+        userLabel: input.userLabel,
+        details: input.details ? JSON.stringify(input.details) : undefined,
+        prevHash: last?.hash ?? GENESIS_HASH,
+      };
+      // Hashing is async WebCrypto, so it can't run inside a Dexie transaction. `add` (not `put`)
+      // rejects if another context (the service worker) took this seq meanwhile.
+      await offlineDb.activityLog.add({ ...entry, hash: await hashEntry(entry) });
+    } catch { /* keep: the activity log must never block the action it records */ }
+  });
+  appendQueue = run;
+  return run;
+}
+
+/**
+ * Re-derive every hash and link. The chain must start at the genesis entry unless older entries
+ * were pruned after upload: then the oldest retained entry is accepted as the anchor only if it
+ * was itself uploaded, or directly follows the last seq the server accepted. Everything after the
+ * anchor must chain exactly.
+ */
+export async function verifyActivityChain(
+  entries: OfflineActivityEntry[],
+  lastUploadedSeq?: number,
+): Promise<ChainStatus> {
+  if (entries.length === 0) return { status: 'empty' };
+  const sorted = [...entries].sort((a, b) => a.seq - b.seq);
+  for (let i = 0; i < sorted.length; i++) {
+    const e = sorted[i];
+    const prev = sorted[i - 1];
+    const linked = !prev || (e.seq === prev.seq + 1 && e.prevHash === prev.hash);
+    const anchorOk =
+      prev ||
+      (e.seq === 1 ? e.prevHash === GENESIS_HASH : !!e.uploadedAt || e.seq === (lastUploadedSeq ?? -1) + 1);
+    const { hash, uploadedAt: _uploadedAt, ...fields } = e;
+    if (!linked || !anchorOk || hash !== (await hashEntry(fields))) {
+      return { status: 'tampered', checked: i, brokenAtSeq: e.seq };
+    }
+  }
+  return { status: 'intact', checked: sorted.length };
+}
+
+/** The device's log, newest first. */
+export async function getOfflineActivity(limit = 500): Promise<OfflineActivityEntry[]> {
+  return offlineDb.activityLog.orderBy('seq').reverse().limit(limit).toArray();
+}
+
+/** Verify the whole local chain (the viewer's tamper indicator). */
+export async function verifyLocalActivityLog(): Promise<ChainStatus> {
+  const [entries, lastUploaded] = await Promise.all([
+    offlineDb.activityLog.orderBy('seq').toArray(),
+    offlineDb.snapshots.get(LAST_UPLOADED_SEQ_KEY),
+  ]);
+  return verifyActivityChain(entries, lastUploaded ? Number(lastUploaded.data) : undefined);
+}
+
+/**
+ * Upload entries the server hasn't accepted yet. Entries are sent with their hashes so the
+ * server can re-verify the chain; the seq range makes the request idempotent.
+ */
+export async function uploadOfflineActivity(poster: Poster, nowMs = Date.now()): Promise<number> {
+  const pending = (await offlineDb.activityLog.orderBy('seq').toArray()).filter((e) => !e.uploadedAt);
+  if (pending.length === 0) return 0;
+  const first = pending[0].seq;
+  const last = pending[pending.length - 1].seq;
+  const deviceId = pending[0].deviceId;
+  await poster.post(
+    '/audit-logs/offline-activity',
+    // `details` stays the exact JSON string that was hashed.
+    { deviceId, entries: pending.map(({ uploadedAt: _uploadedAt, ...e }) => e) },
+    `offline-activity:${deviceId}:${first}-${last}`,
+  );
+  const uploadedAt = new Date(nowMs).toISOString();
+  await offlineDb.activityLog.where('seq').between(first, last, true, true).modify({ uploadedAt });
+  await offlineDb.snapshots.put({ key: LAST_UPLOADED_SEQ_KEY, data: String(last), fetchedAt: uploadedAt });
+
+  // Prune old uploaded entries, keeping the newest one as the anchor for the next check.
+  const cutoff = new Date(nowMs - RETENTION_DAYS * 86_400_000).toISOString();
+  const stale = await offlineDb.activityLog.where('at').below(cutoff).filter((e) => !!e.uploadedAt && e.seq < last).primaryKeys();
+  if (stale.length) await offlineDb.activityLog.bulkDelete(stale);
+  return pending.length;
+}
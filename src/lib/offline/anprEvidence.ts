@@ -0,0 +1,325 @@
+/**
+ * ANPR / camera evidence in IndexedDB (the manifest lives in lib/truconnect/anprEvidence, hashing in
+ * lib/utils/hash).
+ *
+ * Frames are stored with their capture-time SHA-256 as soon as the weighing screen sees them, so
+ * they survive a reload and a lost connection. A weighing's frames share a session key until the
+ * transaction exists; they are then linked to it and uploaded by the drain (see ./sync.ts). Offline
+ * weighings upload once their server id is known.
+ */
+
+import {
+  fetchWeighingEvidence,
+  fetchWeighingPlateReviews,
+  type WeighingEvidenceDto,
+} from '@/lib/api/weighing';
+import { downloadBlob } from '@/lib/export/engine';
+import { createZip } from '@/lib/export/zip';
+import {
+  buildEvidenceManifest,
+  type EvidenceItemInput,
+  type EvidenceKind,
+  type EvidenceManifest,
+  type PlateReviewInput,
+} from '@/lib/truconnect/anprEvidence';
+import { sha256Hex } from '@/lib/utils/hash';
+import { offlineDb, type AnprEvidenceEntry, type PlateReviewEntry } from './db';
+import { auditClientEvent } from './clientAudit';
+import type { Poster } from './sync';
+
+/** Uploaded frames older than this are dropped from the device; the server keeps them. */
+const RETENTION_DAYS = 30;
+
+export interface RecordFrameInput {
+  sessionKey: string;
+  transactionId?: string;
+  stationCode?: string;
+  bound?: string;
+  kind: EvidenceKind;
+  sourcePath: string;
+  plateNumber?: string;
+  confidence?: number;
+  capturedBy?: string;
+}
+
+/**
+ * Fetch, hash and store one frame. The same image path is only stored once per weighing (ANPR
+ * frames are also shown as the front / overview images). A frame that can't be fetched is still
+ * recorded, without bytes, so the pack shows it as missing rather than silently dropping it.
+ */
+export async function recordEvidenceFrame(input: RecordFrameInput): Promise<AnprEvidenceEntry> {
+  const existing = await offlineDb.anprEvidence
+    .where('sessionKey')
+    .equals(input.sessionKey)
+    .filter((e) => e.sourcePath === input.sourcePath)
+    .first();
+  if (existing) return existing;
+
+  const entry: AnprEvidenceEntry = {
+    id: crypto.randomUUID(),
+    ...input,
+    capturedAt: new Date().toISOString(),
+  };
+  try {
+    const res = await fetch(input.sourcePath);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const blob = await res.blob();
+    entry.blob = blob;
+    entry.mimeType = blob.type || 'image/jpeg';
+    entry.sha256 = await sha256Hex(await blob.arrayBuffer());
+  } catch (err) {
+    entry.fetchError = err instanceof Error ? err.message : 'Image could not be fetched';
+  }
+  await offlineDb.anprEvidence.add(entry);
+  return entry;
+}
+
+export interface RecordPlateReviewInput {
+  sessionKey: string;
+  transactionId?: string;
+  evidenceId?: string;
+  readPlate: string;
+  finalPlate: string;
+  confidence?: number;
+  reason?: string;
+  reviewedById?: string;
+  reviewedBy?: string;
+  stationCode?: string;
+}
+
+/** Store the review with the evidence and write it to the audit trail (queued when offline). */
+export async function recordPlateReview(input: RecordPlateReviewInput): Promise<PlateReviewEntry> {
+  const { stationCode, ...fields } = input;
+  const review: PlateReviewEntry = {
+    id: crypto.randomUUID(),
+    ...fields,
+    finalPlate: input.finalPlate.trim().toUpperCase(),
+    action: input.finalPlate.trim().toUpperCase() === input.readPlate.trim().toUpperCase() ? 'confirmed' : 'corrected',
+    reviewedAt: new Date().toISOString(),
+  };
+  await offlineDb.plateReviews.add(review);
+  void auditClientEvent({
+    action: review.action === 'corrected' ? 'AnprPlateCorrected' : 'AnprPlateConfirmed',
+    resourceType: 'WeighingTransaction',
+    resourceId: input.transactionId,
+    resourceName: review.finalPlate,
+    success: true,
+    details: {
+      readPlate: review.readPlate,
+      finalPlate: review.finalPlate,
+      confidence: review.confidence,
+      reason: review.reason,
+      reviewedBy: review.reviewedBy,
+      evidenceId: review.evidenceId,
+      stationCode,
+    },
+    occurredAt: review.reviewedAt,
+  });
+  return review;
+}
+
+/** Attach a weighing's frames and reviews to its transaction once it has been created. */
+export async function linkEvidenceToTransaction(sessionKey: string, transactionId: string): Promise<void> {
+  await offlineDb.transaction('rw', offlineDb.anprEvidence, offlineDb.plateReviews, async () => {
+    await offlineDb.anprEvidence.where('sessionKey').equals(sessionKey).modify({ transactionId });
+    await offlineDb.plateReviews.where('sessionKey').equals(sessionKey).modify({ transactionId });
+  });
+}
+
+export async function getSessionEvidence(sessionKey: string): Promise<AnprEvidenceEntry[]> {
+  return offlineDb.anprEvidence.where('sessionKey').equals(sessionKey).sortBy('capturedAt');
+}
+
+// ── Upload ────────────────────────────────────────────────────────────────────
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(s);
+}
+
+/** Server id for a row's transaction: offline weighings map localId → serverId once synced. */
+async function serverTransactionId(transactionId: string): Promise<string | undefined> {
+  const offline = await offlineDb.offlineWeighings.get(transactionId);
+  return offline ? offline.serverId : transactionId;
+}
+
+/**
+ * Upload frames and reviews the server hasn't accepted yet. Runs at the end of a drain; rows whose
+ * weighing hasn't synced yet wait for the next one.
+ */
+export async function uploadAnprEvidence(poster: Poster, nowMs = Date.now()): Promise<number> {
+  const uploadedAt = new Date(nowMs).toISOString();
+  let uploaded = 0;
+
+  const frames = await offlineDb.anprEvidence.filter((e) => !!e.transactionId && !e.uploadedAt).toArray();
+  for (const frame of frames) {
+    const txId = await serverTransactionId(frame.transactionId!);
+    if (!txId) continue;
+    const { blob, sessionKey: _sessionKey, transactionId: _tx, uploadedAt: _u, ...meta } = frame;
+    await poster.post(
+      `/weighing-transactions/${txId}/evidence`,
+      { ...meta, imageBase64: blob ? await blobToBase64(blob) : undefined },
+      `anpr-evidence:${frame.id}`,
+    );
+    await offlineDb.anprEvidence.update(frame.id, { uploadedAt });
+    uploaded++;
+  }
+
+  const reviews = await offlineDb.plateReviews.filter((r) => !!r.transactionId && !r.uploadedAt).toArray();
+  for (const review of reviews) {
+    const txId = await serverTransactionId(review.transactionId!);
+    if (!txId) continue;
+    const { sessionKey: _sessionKey, transactionId: _tx, uploadedAt: _u, ...body } = review;
+    await poster.post(`/weighing-transactions/${txId}/plate-reviews`, body, `plate-review:${review.id}`);
+    await offlineDb.plateReviews.update(review.id, { uploadedAt });
+    uploaded++;
+  }
+
+  const cutoff = new Date(nowMs - RETENTION_DAYS * 86_400_000).toISOString();
+  await offlineDb.anprEvidence.where('capturedAt').below(cutoff).filter((e) => !!e.uploadedAt).delete();
+  await offlineDb.plateReviews.where('reviewedAt').below(cutoff).filter((r) => !!r.uploadedAt).delete();
+  return uploaded;
+}
+
+// ── Evidence pack ─────────────────────────────────────────────────────────────
+
+export interface EvidencePackDocument {
+  title: string;
+  fileName: string;
+  blob: Blob;
+}
+
+const extensionFor = (mime?: string) => (mime === 'image/png' ? 'png' : mime === 'image/webp' ? 'webp' : 'jpg');
+
+/** Frames for the pack: this device's copies, else the server's (fetched and re-hashed). */
+async function collectFrames(transactionId: string): Promise<Array<EvidenceItemInput & { blob?: Blob; mimeType?: string }>> {
+  const local = await offlineDb.anprEvidence.where('transactionId').equals(transactionId).toArray();
+  if (local.length > 0) {
+    return Promise.all(
+      local.map(async (e) => ({
+        id: e.id,
+        kind: e.kind,
+        capturedAt: e.capturedAt,
+        capturedBy: e.capturedBy,
+        plateNumber: e.plateNumber,
+        confidence: e.confidence,
+        recordedSha256: e.sha256,
+        actualSha256: e.blob ? await sha256Hex(await e.blob.arrayBuffer()) : undefined,
+        blob: e.blob,
+        mimeType: e.mimeType,
+      })),
+    );
+  }
+
+  let remote: WeighingEvidenceDto[] = [];
+  try {
+    remote = await fetchWeighingEvidence(transactionId);
+  } catch { /* offline or not uploaded yet — the pack just has no frames */ }
+  return Promise.all(
+    remote.map(async (e) => {
+      let blob: Blob | undefined;
+      try {
+        const res = e.url ? await fetch(e.url) : undefined;
+        blob = res?.ok ? await res.blob() : undefined;
+      } catch { /* shown as missing */ }
+      return {
+        id: e.id,
+        kind: e.kind,
+        capturedAt: e.capturedAt,
+        capturedBy: e.capturedBy,
+        plateNumber: e.plateNumber,
+        confidence: e.confidence,
+        recordedSha256: e.sha256,
+        actualSha256: blob ? await sha256Hex(await blob.arrayBuffer()) : undefined,
+        blob,
+        mimeType: e.mimeType ?? blob?.type,
+      };
+    }),
+  );
+}
+
+async function collectReviews(transactionId: string): Promise<PlateReviewInput[]> {
+  const pick = (r: PlateReviewInput): PlateReviewInput => ({
+    readPlate: r.readPlate,
+    finalPlate: r.finalPlate,
+    confidence: r.confidence,
+    action: r.action,
+    reason: r.reason,
+    reviewedBy: r.reviewedBy,
+    reviewedAt: r.reviewedAt,
+  });
+  const local = await offlineDb.plateReviews.where('transactionId').equals(transactionId).toArray();
+  if (local.length > 0) return local.map(pick);
+  try {
+    return (await fetchWeighingPlateReviews(transactionId)).map(pick);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Zip the document (charge sheet / special-release certificate) with the weighing's evidence
+ * frames, a manifest of every file's SHA-256 with the capture-time check, and the manifest's own
+ * hash in `manifest.sha256`.
+ */
+export async function buildEvidencePack(
+  transactionId: string,
+  document?: EvidencePackDocument,
+): Promise<{ blob: Blob; manifest: EvidenceManifest }> {
+  const [frames, reviews] = await Promise.all([collectFrames(transactionId), collectReviews(transactionId)]);
+  frames.sort((a, b) => a.capturedAt.localeCompare(b.capturedAt));
+
+  const zip = createZip();
+  const items: EvidenceItemInput[] = [];
+  for (const [i, { blob, mimeType, ...frame }] of frames.entries()) {
+    const file = blob
+      ? `evidence/${String(i + 1).padStart(2, '0')}-${frame.kind}.${extensionFor(mimeType)}`
+      : undefined;
+    if (blob && file) {
+      zip.addEntry(file);
+      zip.append(new Uint8Array(await blob.arrayBuffer()));
+    }
+    items.push({ ...frame, file });
+  }
+
+  let documentEntry: EvidenceManifest['document'];
+  if (document) {
+    const bytes = new Uint8Array(await document.blob.arrayBuffer());
+    zip.addEntry(document.fileName);
+    zip.append(bytes);
+    documentEntry = { title: document.title, file: document.fileName, sha256: await sha256Hex(bytes) };
+  }
+
+  const manifest = buildEvidenceManifest({ transactionId, document: documentEntry, evidence: items, plateReviews: reviews });
+  const manifestJson = JSON.stringify(manifest, null, 2);
+  zip.addEntry('manifest.json');
+  zip.append(manifestJson);
+  zip.addEntry('manifest.sha256');
+  zip.append(`${await sha256Hex(manifestJson)}  manifest.json\n`);
+  return { blob: zip.finish('application/zip'), manifest };
+}
+
+/**
+ * Build and download the pack for a document screen. The document is included when it can be
+ * fetched; offline, the pack still goes out with the frames so evidence can be handed over.
+ */
+export async function downloadEvidencePack(
+  transactionId: string,
+  document: { title: string; fileName: string; load: () => Promise<Blob> },
+  packName: string,
+): Promise<{ manifest: EvidenceManifest; documentIncluded: boolean }> {
+  let blob: Blob | undefined;
+  try {
+    blob = await document.load();
+  } catch { /* offline — pack without the document */ }
+  const pack = await buildEvidencePack(
+    transactionId,
+    blob ? { title: document.title, fileName: document.fileName, blob } : undefined,
+  );
+  downloadBlob(pack.blob, `${packName}.zip`);
+  return { manifest: pack.manifest, documentIncluded: !!blob };
+}
@@ -0,0 +1,33 @@
+/**
+ * Client-side audit events that must not be lost offline: sent straight to the audit log when the
+ * API is reachable, otherwise queued as an AUDIT_EVENT mutation and replayed by the drain. Only a
+ * failure a retry can fix (no connection, timeout, rate limit, 5xx) is queued; an event the server
+ * rejects (4xx) is logged at once instead of dead-lettering later.
+ */
+
+import { recordClientAuditEvent, type ClientAuditEventDto } from '@/lib/api/auditLog';
+import { isTerminalSyncError, offlineDb } from './db';
+
+export async function auditClientEvent(event: ClientAuditEventDto): Promise<void> {
+  try {
+    await recordClientAuditEvent(event);
+  } catch (err) {
+    if (isTerminalSyncError(err)) {
+      console.error(`[audit] ${event.action} event rejected by the server`, err);
+      return;
+    }
+    // Offline (or the audit endpoint is down): queue it so the trail is complete after sync.
+    try {
+      await offlineDb.mutationQueue.add({
+        type: 'AUDIT_EVENT',
+        endpoint: '/audit-logs/client-events',
+        method: 'POST',
+        payload: JSON.stringify(event),
+        idempotencyKey: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        synced: false,
+        attempts: 0,
+      });
+    } catch { /* keep: auditing must never block weighing */ }
+  }
+}
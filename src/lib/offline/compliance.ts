@@ -8,6 +8,10 @@
  * the server recomputes authoritatively (and adds fees/conviction-tier/forex) when the
  * weighing syncs.
  *
+ * Beyond overloads it also ports the EAC per-axle-type fee lookup, permit extensions on the
+ * permissible weights, and the demerit-point bands, so the offline result covers the full
+ * WeighingResult the capture UI renders.
+ *
  * IMPORTANT: this must stay in lockstep with the backend. It is validated by a parity test
  * (scripts/offline-compliance-parity.mjs) that replays real weighings through this engine and
  * compares against the server-computed overloads. Do not diverge without re-running parity.
@@ -36,10 +40,21 @@ export interface ComplianceInput {
   gvwConfigToleranceKg?: number | null;
   legalFramework: string; // 'TRAFFIC_ACT' | 'EAC'
   toleranceSettings: ToleranceSettingRef[];
+  /** Active permit extensions (from the cached active-permit lookup). Omit when no permit. */
+  permit?: PermitExtensionRef | null;
+}
+
+/** The permit fields the backend adds onto permissible weights (Permit.axle/gvwExtensionKg). */
+export interface PermitExtensionRef {
+  axleExtensionKg?: number | null;
+  gvwExtensionKg?: number | null;
 }
 
+export type GroupAxleType = 'Steering' | 'SingleDrive' | 'Tandem' | 'Tridem' | 'Quad';
+
 export interface GroupResult {
   groupLabel: string;
+  axleType: GroupAxleType;
   axleCount: number;
   groupWeightKg: number;
   groupPermissibleKg: number;
@@ -59,6 +74,8 @@ export interface ProvisionalComplianceResult {
   gvwEffectiveLimitKg: number;
   gvwOverloadKg: number;
   operationalToleranceKg: number;
+  /** True when permit extensions were added to the group + GVW permissibles. */
+  hasPermit: boolean;
   groupResults: GroupResult[];
 }
 
@@ -214,6 +231,120 @@ export function computeProvisionalCharges(input: ChargesInput): ProvisionalCharg
   };
 }
 
+// ── Axle-type fees (faithful port of CalculateAxleTypeFeesAsync, EAC only) ──────
+
+export interface AxleTypeFeeScheduleRef {
+  legalFramework: string;
+  overloadMinKg: number;
+  overloadMaxKg: number | null;
+  steeringAxleFeeUsd: number;
+  singleDriveAxleFeeUsd: number;
+  tandemAxleFeeUsd: number;
+  tridemAxleFeeUsd: number;
+  quadAxleFeeUsd: number;
+}
+
+export interface GroupFee {
+  groupLabel: string;
+  feeUsd: number;
+}
+
+export interface AxleTypeFees {
+  groupFees: GroupFee[];
+  /** Sum of the group fees — feed into `ChargesInput.axleFeeUsd`. */
+  totalAxleFeeUsd: number;
+}
+
+type AxleFeeColumn = 'steeringAxleFeeUsd' | 'singleDriveAxleFeeUsd' | 'tandemAxleFeeUsd' | 'tridemAxleFeeUsd' | 'quadAxleFeeUsd';
+
+const FEE_BY_AXLE_TYPE: Record<GroupAxleType, AxleFeeColumn> = {
+  Steering: 'steeringAxleFeeUsd',
+  SingleDrive: 'singleDriveAxleFeeUsd',
+  Tandem: 'tandemAxleFeeUsd',
+  Tridem: 'tridemAxleFeeUsd',
+  Quad: 'quadAxleFeeUsd',
+};
+
+/**
+ * Per-group EAC axle fees: each overloaded group looks up the band covering its overload and
+ * takes the column for its axle type. Traffic Act charges on GVW only, so it is always 0.
+ */
+export function computeAxleTypeFees(
+  groupResults: Pick<GroupResult, 'groupLabel' | 'axleType' | 'overloadKg'>[],
+  legalFramework: string,
+  schedules: AxleTypeFeeScheduleRef[],
+): AxleTypeFees {
+  const isEac = up(legalFramework) === 'EAC';
+  const groupFees = groupResults.map((g) => {
+    if (!isEac || g.overloadKg <= 0) return { groupLabel: g.groupLabel, feeUsd: 0 };
+    const band = schedules.find(
+      (s) =>
+        up(s.legalFramework) === up(legalFramework) &&
+        g.overloadKg >= s.overloadMinKg &&
+        (s.overloadMaxKg == null || g.overloadKg <= s.overloadMaxKg),
+    );
+    return { groupLabel: g.groupLabel, feeUsd: band ? band[FEE_BY_AXLE_TYPE[g.axleType]] : 0 };
+  });
+  return { groupFees, totalAxleFeeUsd: groupFees.reduce((s, f) => s + f.feeUsd, 0) };
+}
+
+// ── Demerit points (port of DemeritPointService.CalculatePointsAsync) ────────
+
+export interface DemeritScheduleRef {
+  legalFramework: string;
+  violationType: string; // 'GVW' | 'AXLE'
+  overloadMinKg: number;
+  overloadMaxKg: number | null;
+  points: number;
+}
+
+export interface DemeritResult {
+  gvwPoints: number;
+  groupPoints: { groupLabel: string; points: number }[];
+  /** Points recorded against the driver: the single most severe violation, not a sum. */
+  totalPoints: number;
+}
+
+function demeritBand(schedules: DemeritScheduleRef[], legalFramework: string, violationType: string, overloadKg: number): number {
+  if (overloadKg <= 0) return 0;
+  const band = schedules.find(
+    (s) =>
+      up(s.legalFramework) === up(legalFramework) &&
+      up(s.violationType) === up(violationType) &&
+      overloadKg >= s.overloadMinKg &&
+      (s.overloadMaxKg == null || overloadKg <= s.overloadMaxKg),
+  );
+  return band?.points ?? 0;
+}
+
+export function computeDemeritPoints(
+  compliance: Pick<ProvisionalComplianceResult, 'gvwOverloadKg' | 'groupResults'>,
+  legalFramework: string,
+  schedules: DemeritScheduleRef[],
+): DemeritResult {
+  const gvwPoints = demeritBand(schedules, legalFramework, 'GVW', compliance.gvwOverloadKg);
+  const groupPoints = compliance.groupResults.map((g) => ({
+    groupLabel: g.groupLabel,
+    points: demeritBand(schedules, legalFramework, 'AXLE', g.overloadKg),
+  }));
+  return {
+    gvwPoints,
+    groupPoints,
+    totalPoints: Math.max(gvwPoints, ...groupPoints.map((g) => g.points), 0),
+  };
+}
+
+/**
+ * Axle type of a group, mirroring AxleGroupAggregationService.ResolveAxleType: the group holding
+ * axle 1 is the steering group when it is a single axle; otherwise classify by axle count.
+ */
+function groupAxleType(axles: CompliantAxleInput[]): GroupAxleType {
+  if (axles.length <= 1) return axles[0]?.axleNumber === 1 ? 'Steering' : 'SingleDrive';
+  if (axles.length === 2) return 'Tandem';
+  if (axles.length === 3) return 'Tridem';
+  return 'Quad';
+}
+
 function determineStatus(overloadKg: number, opToleranceKg: number): 'LEGAL' | 'WARNING' | 'OVERLOAD' {
   if (overloadKg <= 0) return 'LEGAL';
   if (overloadKg <= opToleranceKg) return 'WARNING';
@@ -223,6 +354,8 @@ function determineStatus(overloadKg: number, opToleranceKg: number): 'LEGAL' | '
 /** Compute exact overload (GVW + per axle group) offline from cached reference data. */
 export function computeProvisionalCompliance(input: ComplianceInput): ProvisionalComplianceResult {
   const { axles, legalFramework, toleranceSettings } = input;
+  const axleExtensionKg = Math.max(0, input.permit?.axleExtensionKg ?? 0);
+  const gvwExtensionKg = Math.max(0, input.permit?.gvwExtensionKg ?? 0);
 
   const opSetting = getByCode(toleranceSettings, 'OPERATIONAL_ALLOWANCE');
   const operationalToleranceKg = opSetting?.toleranceKg ?? 200;
@@ -239,12 +372,14 @@ export function computeProvisionalCompliance(input: ComplianceInput): Provisiona
     .map((label) => {
       const groupAxles = groupMap.get(label)!;
       const groupWeightKg = groupAxles.reduce((s, a) => s + a.measuredWeightKg, 0);
-      const groupPermissibleKg = groupAxles.reduce((s, a) => s + a.permissibleWeightKg, 0);
+      // Permit axle extension applies once per group (the backend adds it to the group limit).
+      const groupPermissibleKg = groupAxles.reduce((s, a) => s + a.permissibleWeightKg, 0) + axleExtensionKg;
       const toleranceKg = groupToleranceKg(toleranceSettings, legalFramework, groupAxles.length, groupPermissibleKg);
       const effectiveLimitKg = groupPermissibleKg + toleranceKg;
       const overloadKg = Math.max(0, groupWeightKg - effectiveLimitKg);
       return {
         groupLabel: label,
+        axleType: groupAxleType(groupAxles),
         axleCount: groupAxles.length,
         groupWeightKg,
         groupPermissibleKg,
@@ -257,7 +392,7 @@ export function computeProvisionalCompliance(input: ComplianceInput): Provisiona
 
   // ── GVW ──
   const gvwMeasuredKg = axles.reduce((s, a) => s + a.measuredWeightKg, 0);
-  const gvwPermissibleKg = input.gvwPermissibleKg;
+  const gvwPermissibleKg = input.gvwPermissibleKg + gvwExtensionKg;
   // Per-config GVW override (>= 1000kg) wins; else regulatory GVW tolerance.
   const gvwToleranceKg =
     input.gvwConfigToleranceKg != null && input.gvwConfigToleranceKg >= 1000
@@ -279,6 +414,7 @@ export function computeProvisionalCompliance(input: ComplianceInput): Provisiona
     gvwEffectiveLimitKg,
     gvwOverloadKg,
     operationalToleranceKg,
+    hasPermit: axleExtensionKg > 0 || gvwExtensionKg > 0,
     groupResults,
   };
 }
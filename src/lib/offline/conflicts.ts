@@ -0,0 +1,142 @@
+/**
+ * Offline update conflicts — three-way merge for queued updates rejected with 409/412.
+ *
+ * A conflicted row in the generic mutation queue carries three copies of the record:
+ *   - base:   the server record as it was when the officer made the edit offline (baseSnapshot),
+ *   - local:  the queued update payload,
+ *   - server: the record as it is now (conflictServer, re-read when the conflict was detected).
+ * Each field the update touches is classified, the officer picks a side where both changed, and
+ * the merged payload is re-queued against the new server version.
+ */
+
+import { offlineDb, type QueuedMutation } from './db';
+import { recordVersion } from './sync';
+
+export type FieldChange =
+  /** Nobody changed it. */
+  | 'unchanged'
+  /** Only the offline edit changed it. */
+  | 'local'
+  /** Only the server copy changed. */
+  | 'server'
+  /** Both changed it to the same value. */
+  | 'same'
+  /** Both changed it differently — the officer must choose. */
+  | 'conflict';
+
+export type MergeSide = 'local' | 'server';
+
+export interface FieldDiff {
+  field: string;
+  base: unknown;
+  local: unknown;
+  server: unknown;
+  change: FieldChange;
+}
+
+export interface ConflictRecord {
+  id: number;
+  type: QueuedMutation['type'];
+  endpoint: string;
+  createdAt: string;
+  base: Record<string, unknown> | null;
+  local: Record<string, unknown>;
+  server: Record<string, unknown> | null;
+  diffs: FieldDiff[];
+}
+
+// Empty strings and null both mean "not set" in these forms.
+const norm = (v: unknown) => (v === '' || v === undefined ? null : v);
+const same = (a: unknown, b: unknown) => JSON.stringify(norm(a)) === JSON.stringify(norm(b));
+
+/**
+ * Classify every field of the queued update. Fields outside the update payload are left alone —
+ * the update doesn't send them, so whatever the server has stays.
+ */
+export function diffThreeWay(
+  base: Record<string, unknown> | null,
+  local: Record<string, unknown>,
+  server: Record<string, unknown> | null,
+): FieldDiff[] {
+  return Object.keys(local).map((field) => {
+    const b = base?.[field];
+    const l = local[field];
+    const s = server?.[field];
+    // Without a base we can't tell who moved; treat any disagreement as a conflict.
+    const localChanged = base ? !same(b, l) : true;
+    const serverChanged = base ? !!server && !same(b, s) : !!server;
+    let change: FieldChange;
+    if (!localChanged && !serverChanged) change = 'unchanged';
+    else if (!serverChanged) change = 'local';
+    else if (!localChanged) change = 'server';
+    else change = same(l, s) ? 'same' : 'conflict';
+    return { field, base: b, local: l, server: s, change };
+  });
+}
+
+/** Pre-selected side per field; true conflicts are left unset so the officer has to decide. */
+export function defaultMergeChoices(diffs: FieldDiff[]): Record<string, MergeSide | undefined> {
+  const choices: Record<string, MergeSide | undefined> = {};
+  for (const d of diffs) {
+    choices[d.field] = d.change === 'conflict' ? undefined : d.change === 'server' ? 'server' : 'local';
+  }
+  return choices;
+}
+
+/** Build the update payload from the chosen side of each field. */
+export function mergeFields(diffs: FieldDiff[], choices: Record<string, MergeSide | undefined>): Record<string, unknown> {
+  const merged: Record<string, unknown> = {};
+  for (const d of diffs) {
+    merged[d.field] = choices[d.field] === 'server' ? d.server ?? null : d.local;
+  }
+  return merged;
+}
+
+const parse = (json?: string) => {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+};
+
+/** Conflicted queued update with its three copies, or null if it's gone / not in conflict. */
+export async function getConflict(id: number): Promise<ConflictRecord | null> {
+  const m = await offlineDb.mutationQueue.get(id);
+  if (!m?.conflict) return null;
+  const base = parse(m.baseSnapshot);
+  const local = parse(m.payload) ?? {};
+  const server = parse(m.conflictServer);
+  return {
+    id,
+    type: m.type,
+    endpoint: m.endpoint,
+    createdAt: m.createdAt,
+    base,
+    local,
+    server,
+    diffs: diffThreeWay(base, local, server),
+  };
+}
+
+/**
+ * Re-queue a conflicted update with the merged payload. The server copy becomes the new base and
+ * its version the new If-Match, so the resubmit only fails again if the record moves once more.
+ */
+export async function resolveConflict(id: number, merged: Record<string, unknown>): Promise<void> {
+  const m = await offlineDb.mutationQueue.get(id);
+  if (!m) return;
+  await offlineDb.mutationQueue.update(id, {
+    payload: JSON.stringify(merged),
+    baseVersion: m.conflictServerVersion ?? recordVersion(parse(m.conflictServer)) ?? m.baseVersion,
+    baseSnapshot: m.conflictServer ?? m.baseSnapshot,
+    conflict: false,
+    conflictServer: undefined,
+    conflictServerVersion: undefined,
+    deadLetter: false,
+    attempts: 0,
+    nextAttemptAt: undefined,
+    syncError: undefined,
+  } as Partial<QueuedMutation>);
+}
@@ -0,0 +1,51 @@
+/**
+ * In-progress convoy weighings.
+ *
+ * The convoy screen creates its transaction before the first segment is weighed, then captures
+ * segment by segment. Without this a reload (or a closed tab) mid-convoy left that transaction
+ * orphaned. The segments captured so far are kept in the snapshots store keyed by transaction id,
+ * with a per-station pointer to the convoy in progress so the screen can pick it up on mount.
+ * Cleared once the convoy is submitted or abandoned.
+ */
+import type { WeighingTransaction } from '@/lib/api/weighing';
+import type { ConvoySegment } from '@/lib/convoy-weighing';
+import { offlineDb } from './db';
+
+export interface ConvoyProgress {
+  transaction: WeighingTransaction;
+  segments: ConvoySegment[];
+  /** Permit number the combination is being checked against, if one was looked up. */
+  permitNo?: string;
+  phase: 'capture' | 'review';
+}
+
+const progressKey = (transactionId: string) => `convoy:${transactionId}`;
+const activeKey = (stationId: string) => `convoy:active:${stationId}`;
+
+export async function saveConvoyProgress(stationId: string, progress: ConvoyProgress): Promise<void> {
+  const fetchedAt = new Date().toISOString();
+  await offlineDb.snapshots.bulkPut([
+    { key: progressKey(progress.transaction.id), data: JSON.stringify(progress), fetchedAt },
+    { key: activeKey(stationId), data: progress.transaction.id, fetchedAt },
+  ]);
+}
+
+/** The station's convoy in progress, or null when there is none (or it can't be read back). */
+export async function getActiveConvoyProgress(stationId: string): Promise<ConvoyProgress | null> {
+  const pointer = await offlineDb.snapshots.get(activeKey(stationId));
+  if (!pointer) return null;
+  const entry = await offlineDb.snapshots.get(progressKey(pointer.data));
+  if (!entry) return null;
+  try {
+    return JSON.parse(entry.data) as ConvoyProgress;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearConvoyProgress(stationId: string, transactionId: string): Promise<void> {
+  const pointer = await offlineDb.snapshots.get(activeKey(stationId));
+  await offlineDb.snapshots.bulkDelete(
+    pointer?.data === transactionId ? [progressKey(transactionId), activeKey(stationId)] : [progressKey(transactionId)],
+  );
+}
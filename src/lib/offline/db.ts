@@ -99,7 +99,9 @@ export type MutationType =
   | 'CREATE_WEIGHING'
   | 'CREATE_CASE'
   | 'CREATE_PROSECUTION'
-  | 'UPDATE_CASE';
+  | 'UPDATE_CASE'
+  | 'EXECUTE_WARRANT'
+  | 'AUDIT_EVENT';
 
 export interface QueuedMutation extends SyncState {
   id?: number;
@@ -109,6 +111,119 @@ export interface QueuedMutation extends SyncState {
   payload: string; // JSON stringified
   idempotencyKey: string; // sent as Idempotency-Key header
   createdAt: string;
+  /** Server row version the edit was made against — sent as If-Match so a stale update gets 409/412. */
+  baseVersion?: string;
+  /** JSON of the server record as it was when the edit was made (the "base" of a three-way merge). */
+  baseSnapshot?: string;
+  /** Set when the drain hits a version conflict (409/412); the row waits for a manual merge. */
+  conflict?: boolean;
+  /** JSON of the current server record at conflict time (absent if it couldn't be re-read). */
+  conflictServer?: string;
+  conflictServerVersion?: string;
+}
+
+export type OfflineActivityKind =
+  | 'PIN_UNLOCK'
+  | 'PIN_UNLOCK_FAILED'
+  | 'PIN_LOCKOUT'
+  | 'OFFLINE_CAPTURE'
+  | 'PROVISIONAL_RESULT_SHOWN'
+  | 'SYNC_ATTEMPT';
+
+/**
+ * One entry of the append-only offline activity log (see ./activityLog.ts). Each entry's hash
+ * covers its content plus the previous entry's hash, so edits or deletions break the chain.
+ */
+export interface OfflineActivityEntry {
+  seq: number;
+  deviceId: string;
+  kind: OfflineActivityKind;
+  at: string;
+  success: boolean;
+  userId?: string;
+  userLabel?: string;
+  details?: string; // JSON
+  prevHash: string;
+  hash: string;
+  /** Set once the server accepted the entry (not part of the hash). */
+  uploadedAt?: string;
+}
+
+/** A multideck diagnostics recording (see lib/truconnect/diagnostics.ts). */
+export interface DiagnosticSessionEntry {
+  id: string;
+  stationCode?: string;
+  bound?: string;
+  startedAt: string;
+  /** Planned end of the recording window. */
+  endsAt: string;
+  stoppedAt?: string;
+  sampleCount: number;
+  recordedBy?: string;
+  /** JSON of { make, model, capacity } from the indicator, when it reported them. */
+  indicator?: string;
+  /** JSON DiagnosticReport, computed when the recording stops. */
+  report?: string;
+}
+
+export interface DiagnosticSampleEntry {
+  id?: number;
+  sessionId: string;
+  t: number;
+  /** JSON DeckDiagnosticSample. */
+  sample: string;
+}
+
+/** Per-device signing key; CryptoKey is stored by structured clone, never exported. */
+export interface DeviceKeyEntry {
+  id: string;
+  privateKey: CryptoKey;
+  publicKey: JsonWebKey;
+  createdAt: string;
+}
+
+/**
+ * One ANPR / camera frame kept as evidence for a weighing (see lib/offline/anprEvidence.ts).
+ * `sessionKey` groups the frames of one weighing before its transaction exists on the server.
+ */
+export interface AnprEvidenceEntry {
+  id: string;
+  sessionKey: string;
+  transactionId?: string;
+  stationCode?: string;
+  bound?: string;
+  kind: 'anpr' | 'front' | 'overview';
+  /** Where the frame came from (TruConnect image path or capture URL). */
+  sourcePath: string;
+  plateNumber?: string;
+  confidence?: number;
+  capturedAt: string;
+  capturedBy?: string;
+  /** Image bytes; absent when the frame could not be fetched at capture time. */
+  blob?: Blob;
+  mimeType?: string;
+  /** SHA-256 of the bytes at capture time. */
+  sha256?: string;
+  fetchError?: string;
+  /** Set once the server accepted the frame. */
+  uploadedAt?: string;
+}
+
+/** Operator review of a low-confidence (or hand-edited) ANPR read. */
+export interface PlateReviewEntry {
+  id: string;
+  sessionKey: string;
+  transactionId?: string;
+  evidenceId?: string;
+  readPlate: string;
+  finalPlate: string;
+  confidence?: number;
+  action: 'confirmed' | 'corrected';
+  reason?: string;
+  reviewedById?: string;
+  reviewedBy?: string;
+  reviewedAt: string;
+  uploadedAt?: string;
 }
 
 // ── Retry policy (mirrors pos-ui) ────────────────────────────────────────────
@@ -139,6 +254,12 @@ export function nextRetryState(
   };
 }
 
+/** A 4xx (except 408 timeout / 429 rate-limit) is a permanent failure → dead-letter. */
+export function isTerminalSyncError(err: unknown): boolean {
+  const status = (err as { response?: { status?: number } })?.response?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+}
+
 /** Rows that are unsynced, not dead-lettered, and past their backoff window. */
 export function pendingReady<T extends SyncState>(rows: T[], nowMs: number): T[] {
   return rows.filter(
@@ -157,6 +278,12 @@ class TruLoadOfflineDB extends Dexie {
   referenceDataCache!: EntityTable<ReferenceDataEntry, 'key'>;
   snapshots!: EntityTable<SnapshotEntry, 'key'>;
   mutationQueue!: EntityTable<QueuedMutation, 'id'>;
+  activityLog!: EntityTable<OfflineActivityEntry, 'seq'>;
+  diagnosticSessions!: EntityTable<DiagnosticSessionEntry, 'id'>;
+  diagnosticSamples!: EntityTable<DiagnosticSampleEntry, 'id'>;
+  deviceKeys!: EntityTable<DeviceKeyEntry, 'id'>;
+  anprEvidence!: EntityTable<AnprEvidenceEntry, 'id'>;
+  plateReviews!: EntityTable<PlateReviewEntry, 'id'>;
 
   constructor() {
     super('TruLoadOffline');
@@ -184,6 +311,24 @@ class TruLoadOfflineDB extends Dexie {
       snapshots: 'key',
       mutationQueue: '++id, type, synced, deadLetter, createdAt',
     });
+
+    // v4: hash-chained offline activity log (PIN unlocks, provisional results, captures, syncs).
+    this.version(4).stores({
+      activityLog: 'seq, kind, at, uploadedAt',
+    });
+
+    // v5: multideck per-deck diagnostics recordings and the device key that signs their export.
+    this.version(5).stores({
+      diagnosticSessions: 'id, startedAt',
+      diagnosticSamples: '++id, sessionId, [sessionId+t]',
+      deviceKeys: 'id',
+    });
+
+    // v6: ANPR / camera evidence frames with capture-time hashes, and plate reviews.
+    this.version(6).stores({
+      anprEvidence: 'id, sessionKey, transactionId, capturedAt, uploadedAt',
+      plateReviews: 'id, sessionKey, transactionId, reviewedAt, uploadedAt',
+    });
   }
 }
 
@@ -0,0 +1,140 @@
+/**
+ * Multideck diagnostics recordings in IndexedDB.
+ *
+ * A recording is a DiagnosticSessionEntry plus one DiagnosticSampleEntry per weight frame. Frames
+ * are appended in batches while recording; the report is computed once when the session stops
+ * and kept on the session so the list doesn't re-read every sample. Only the newest few sessions
+ * are kept — they are evidence for a vendor call-out, not a long-term archive.
+ */
+
+import {
+  analyzeDeckDiagnostics,
+  DEFAULT_DIAGNOSTIC_THRESHOLDS,
+  DIAGNOSTIC_BUNDLE_FORMAT,
+  generateSigningKey,
+  publicKeyFingerprint,
+  signDiagnosticBundle,
+  type DeckDiagnosticSample,
+  type DiagnosticBundle,
+  type DiagnosticReport,
+} from '@/lib/truconnect/diagnostics';
+import { offlineDb, type DiagnosticSessionEntry } from './db';
+
+const MAX_SESSIONS = 10;
+const SIGNING_KEY_ID = 'deck-diagnostics';
+
+export interface StartDiagnosticSessionInput {
+  stationCode?: string;
+  bound?: string;
+  windowMs: number;
+  recordedBy?: string;
+}
+
+export async function startDiagnosticSession(input: StartDiagnosticSessionInput): Promise<DiagnosticSessionEntry> {
+  const now = Date.now();
+  const session: DiagnosticSessionEntry = {
+    id: crypto.randomUUID(),
+    stationCode: input.stationCode,
+    bound: input.bound,
+    startedAt: new Date(now).toISOString(),
+    endsAt: new Date(now + input.windowMs).toISOString(),
+    sampleCount: 0,
+    recordedBy: input.recordedBy,
+  };
+  await offlineDb.diagnosticSessions.add(session);
+  await pruneDiagnosticSessions();
+  return session;
+}
+
+export async function appendDiagnosticSamples(
+  sessionId: string,
+  samples: DeckDiagnosticSample[],
+  indicator?: { make?: string; model?: string; capacity?: string },
+): Promise<void> {
+  if (samples.length === 0) return;
+  await offlineDb.transaction('rw', offlineDb.diagnosticSessions, offlineDb.diagnosticSamples, async () => {
+    await offlineDb.diagnosticSamples.bulkAdd(
+      samples.map((s) => ({ sessionId, t: s.t, sample: JSON.stringify(s) })),
+    );
+    const session = await offlineDb.diagnosticSessions.get(sessionId);
+    if (!session) return;
+    await offlineDb.diagnosticSessions.update(sessionId, {
+      sampleCount: session.sampleCount + samples.length,
+      ...(indicator && !session.indicator ? { indicator: JSON.stringify(indicator) } : {}),
+    });
+  });
+}
+
+export async function getDiagnosticSamples(sessionId: string): Promise<DeckDiagnosticSample[]> {
+  const rows = await offlineDb.diagnosticSamples
+    .where('[sessionId+t]')
+    .between([sessionId, -Infinity], [sessionId, Infinity])
+    .toArray();
+  return rows.map((r) => JSON.parse(r.sample) as DeckDiagnosticSample);
+}
+
+/** Close a recording and store its report. */
+export async function finishDiagnosticSession(sessionId: string): Promise<DiagnosticReport> {
+  const report = analyzeDeckDiagnostics(await getDiagnosticSamples(sessionId));
+  await offlineDb.diagnosticSessions.update(sessionId, {
+    stoppedAt: new Date().toISOString(),
+    report: JSON.stringify(report),
+  });
+  return report;
+}
+
+export async function deleteDiagnosticSession(sessionId: string): Promise<void> {
+  await offlineDb.transaction('rw', offlineDb.diagnosticSessions, offlineDb.diagnosticSamples, async () => {
+    await offlineDb.diagnosticSamples.where('sessionId').equals(sessionId).delete();
+    await offlineDb.diagnosticSessions.delete(sessionId);
+  });
+}
+
+async function pruneDiagnosticSessions(): Promise<void> {
+  const old = await offlineDb.diagnosticSessions.orderBy('startedAt').reverse().offset(MAX_SESSIONS).primaryKeys();
+  for (const id of old) await deleteDiagnosticSession(id);
+}
+
+async function getSigningKey(): Promise<{ privateKey: CryptoKey; publicKey: JsonWebKey }> {
+  const existing = await offlineDb.deviceKeys.get(SIGNING_KEY_ID);
+  if (existing) return existing;
+  const key = await generateSigningKey();
+  await offlineDb.deviceKeys.put({ id: SIGNING_KEY_ID, ...key, createdAt: new Date().toISOString() });
+  return key;
+}
+
+/**
+ * Fingerprint of this device's signing key (created on first use). The station reads it to the
+ * vendor, who pins it when verifying bundles — the key inside a bundle proves nothing by itself.
+ */
+export async function getSigningKeyFingerprint(): Promise<string> {
+  return publicKeyFingerprint((await getSigningKey()).publicKey);
+}
+
+/** Assemble and sign the vendor bundle for a recording. */
+export async function buildDiagnosticBundle(sessionId: string): Promise<DiagnosticBundle> {
+  const session = await offlineDb.diagnosticSessions.get(sessionId);
+  if (!session) throw new Error('Diagnostic recording not found');
+  const samples = await getDiagnosticSamples(sessionId);
+  const report = session.report ? (JSON.parse(session.report) as DiagnosticReport) : analyzeDeckDiagnostics(samples);
+
+  return signDiagnosticBundle(
+    {
+      format: DIAGNOSTIC_BUNDLE_FORMAT,
+      generatedAt: new Date().toISOString(),
+      session: {
+        id: session.id,
+        stationCode: session.stationCode,
+        bound: session.bound,
+        startedAt: session.startedAt,
+        stoppedAt: session.stoppedAt,
+        recordedBy: session.recordedBy,
+        indicator: session.indicator ? JSON.parse(session.indicator) : undefined,
+      },
+      thresholds: DEFAULT_DIAGNOSTIC_THRESHOLDS,
+      report,
+      samples,
+    },
+    await getSigningKey(),
+  );
+}
@@ -7,7 +7,7 @@
  * errors shaped `{ response: { status, data } }` so sync.ts's terminal-4xx/backoff logic is
  * identical to the page path. Used only when no app window is open to drain the queue itself.
  */
-import type { Poster } from './sync';
+import { syncHeaders, type Poster } from './sync';
 
 const API_PREFIX = '/api/v1';
 
@@ -34,8 +34,8 @@ function baseUrl(): string {
   return `${override && override.length ? override : self.location.origin}${API_PREFIX}`;
 }
 
-async function buildHeaders(idempotencyKey?: string): Promise<Record<string, string>> {
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+async function buildHeaders(idempotencyKey?: string, ifMatch?: string): Promise<Record<string, string>> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', ...syncHeaders(idempotencyKey, ifMatch) };
   const token = await cookie(COOKIE.token);
   if (token) headers['Authorization'] = `Bearer ${token}`;
   const orgId = await cookie(COOKIE.orgId);
@@ -43,7 +43,6 @@ async function buildHeaders(idempotencyKey?: string): Promise<Record<string, str
   // Effective station = explicitly-selected station, else the user's assigned station.
   const stationId = (await cookie(COOKIE.selectedStationId)) ?? (await cookie(COOKIE.stationId));
   if (stationId) headers['X-Station-ID'] = stationId;
-  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
   return headers;
 }
 
@@ -52,11 +51,12 @@ async function send(
   endpoint: string,
   body: unknown,
   idempotencyKey?: string,
+  ifMatch?: string,
 ): Promise<{ data: unknown }> {
   const res = await fetch(`${baseUrl()}${endpoint}`, {
     method,
-    headers: await buildHeaders(idempotencyKey),
-    body: JSON.stringify(body ?? {}),
+    headers: await buildHeaders(idempotencyKey, ifMatch),
+    body: method === 'GET' ? undefined : JSON.stringify(body ?? {}),
     credentials: 'include',
   });
   const text = await res.text();
@@ -70,7 +70,8 @@ async function send(
 }
 
 export const fetchPoster: Poster = {
+  get: (e) => send('GET', e, undefined),
   post: (e, b, k) => send('POST', e, b, k),
-  put: (e, b, k) => send('PUT', e, b, k),
-  patch: (e, b, k) => send('PATCH', e, b, k),
+  put: (e, b, k, v) => send('PUT', e, b, k, v),
+  patch: (e, b, k, v) => send('PATCH', e, b, k, v),
 };
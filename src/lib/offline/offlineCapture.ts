@@ -1,8 +1,9 @@
 /**
  * Offline capture compliance — glue between the cached reference data and the parity-validated
  * compliance engine. Given a weighing's axle config + captured axle weights, derives each axle's
- * permissible weight + grouping from the cached AxleConfiguration weight references, then computes
- * a PROVISIONAL overload result + charges. Returns a WeighingResult-shaped object flagged
+ * permissible weight + grouping from the cached AxleConfiguration weight references, applies any
+ * cached active-permit extensions, then computes a PROVISIONAL overload result, EAC axle-type fees,
+ * demerit points and charges. Returns a WeighingResult-shaped object flagged
  * `provisional` so the existing capture UI can render it; the server recomputes authoritatively on
  * sync. Returns null if the reference data isn't cached (can't compute offline).
  */
@@ -10,14 +11,21 @@ import type { WeighingResult } from '@/lib/api/weighing';
 import {
   computeProvisionalCompliance,
   computeProvisionalCharges,
+  computeAxleTypeFees,
+  computeDemeritPoints,
   type ToleranceSettingRef,
   type FeeScheduleRef,
+  type AxleTypeFeeScheduleRef,
+  type DemeritScheduleRef,
 } from './compliance';
 import {
   getCachedAxleConfigs,
   getCachedTolerances,
   getCachedFeeSchedules,
+  getCachedAxleTypeFees,
+  getCachedDemeritSchedules,
   getCachedRecentConvictions,
+  getCachedActivePermit,
 } from './referenceCache';
 
 export interface OfflineCaptureInput {
@@ -27,7 +35,11 @@ export interface OfflineCaptureInput {
   axles: { axleNumber: number; measuredWeightKg: number }[];
 }
 
-export type ProvisionalWeighingResult = WeighingResult & { provisional: true };
+export type ProvisionalWeighingResult = WeighingResult & {
+  provisional: true;
+  /** Demerit points for the most severe violation (driver licence record). */
+  demeritPoints: number;
+};
 
 function normReg(r: string): string {
   return (r ?? '').toUpperCase().replace(/\s+/g, '');
@@ -44,7 +56,10 @@ export async function computeOfflineCompliance(
   const legalFramework = config.legalFramework || 'TRAFFIC_ACT';
   const tolerances = (await getCachedTolerances(legalFramework)) ?? [];
   const feeSchedules = (await getCachedFeeSchedules(legalFramework)) ?? [];
+  const axleTypeFees = (await getCachedAxleTypeFees(legalFramework)) ?? [];
+  const demeritSchedules = (await getCachedDemeritSchedules(legalFramework)) ?? [];
   const convictions = (await getCachedRecentConvictions()) ?? [];
+  const permit = await getCachedActivePermit(input.vehicleRegNumber);
 
   // Map each captured axle to its weight reference (by axle position) for permissible + grouping.
   const refByPos = new Map(config.weightReferences.map((r) => [r.axlePosition, r]));
@@ -66,18 +81,28 @@ export async function computeOfflineCompliance(
     gvwConfigToleranceKg: (config as { toleranceKg?: number | null }).toleranceKg ?? null,
     legalFramework,
     toleranceSettings: tolerances as ToleranceSettingRef[],
+    permit,
   });
 
+  const axleFees = computeAxleTypeFees(
+    compliance.groupResults,
+    legalFramework,
+    axleTypeFees as AxleTypeFeeScheduleRef[],
+  );
+  const demerit = computeDemeritPoints(compliance, legalFramework, demeritSchedules as DemeritScheduleRef[]);
+
   const priorConvictionCount = convictions.filter(
     (c) => normReg(c.vehicleRegNumber) === normReg(input.vehicleRegNumber),
   ).length;
 
+  const forexRate = 130; // last-known fallback; server reconciles with the live rate on sync
   const charges = computeProvisionalCharges({
     gvwOverloadKg: compliance.gvwOverloadKg,
     legalFramework,
     priorConvictionCount,
     feeSchedules: feeSchedules as FeeScheduleRef[],
-    forexRate: 130, // last-known fallback; server reconciles with the live rate on sync
+    forexRate,
+    axleFeeUsd: axleFees.totalAxleFeeUsd,
   });
 
   return {
@@ -95,23 +120,38 @@ export async function computeOfflineCompliance(
     totalFeeUsd: charges.totalFeeUsd,
     totalFeeKes: charges.totalFeeKes,
     chargingCurrency: legalFramework === 'TRAFFIC_ACT' ? 'KES' : 'USD',
-    hasPermit: false,
+    hasPermit: compliance.hasPermit,
+    demeritPoints: demerit.totalPoints,
     reweighCycleNo: 0,
     weighedAt: new Date().toISOString(),
     operationalToleranceKg: compliance.operationalToleranceKg,
-    groupResults: compliance.groupResults.map((g) => ({
-      groupLabel: g.groupLabel,
-      axleType: '',
-      axleCount: g.axleCount,
-      groupWeightKg: g.groupWeightKg,
-      groupPermissibleKg: g.groupPermissibleKg,
-      toleranceKg: g.toleranceKg,
-      effectiveLimitKg: g.effectiveLimitKg,
-      overloadKg: g.overloadKg,
-      feeUsd: 0,
-      pavementDamageFactor: 0,
-      status: g.status,
-    })) as WeighingResult['groupResults'],
+    groupResults: compliance.groupResults.map((g) => {
+      const feeUsd = axleFees.groupFees.find((f) => f.groupLabel === g.groupLabel)?.feeUsd ?? 0;
+      return {
+        groupLabel: g.groupLabel,
+        axleType: g.axleType,
+        axleCount: g.axleCount,
+        groupWeightKg: g.groupWeightKg,
+        groupPermissibleKg: g.groupPermissibleKg,
+        toleranceKg: g.toleranceKg,
+        effectiveLimitKg: g.effectiveLimitKg,
+        overloadKg: g.overloadKg,
+        feeUsd,
+        feeKes: feeUsd * forexRate,
+        demeritPoints: demerit.groupPoints.find((p) => p.groupLabel === g.groupLabel)?.points ?? 0,
+        pavementDamageFactor: 0,
+        operationalToleranceKg: compliance.operationalToleranceKg,
+        status: g.status,
+        axles: engineAxles
+          .filter((a) => a.axleGrouping === g.groupLabel)
+          .map((a) => ({
+            axleNumber: a.axleNumber,
+            measuredWeightKg: a.measuredWeightKg,
+            permissibleWeightKg: a.permissibleWeightKg,
+            overloadKg: 0,
+          })),
+      };
+    }) as WeighingResult['groupResults'],
     axleCompliance: engineAxles.map((a) => {
       const grp = compliance.groupResults.find((g) => g.groupLabel === a.axleGrouping);
       return {
@@ -2,22 +2,32 @@
  * Offline reference-data cache.
  *
  * On login / when online, downloads the compliance reference data (axle configs + weight refs,
- * tolerance settings, fee schedules, demerit schedules, acts, recent convictions) into IndexedDB
- * so the offline compliance engine (compliance.ts) can compute provisional overload + charges
- * while disconnected. Daily TTL; safe to call repeatedly (overwrites).
+ * tolerance settings, fee schedules, axle-type fee schedules, demerit schedules, acts, recent
+ * convictions) into IndexedDB so the offline compliance engine (compliance.ts) can compute
+ * provisional overload + charges while disconnected. Daily TTL; safe to call repeatedly
+ * (overwrites). Active permits are cached per vehicle as vehicles are looked up online.
+ *
+ * The arrest-warrant watch-list is cached here too, so a wanted vehicle or driver is still
+ * flagged at a station that has lost its connection. It's refreshed more often than the rest.
  */
 import { offlineDb } from './db';
 import { fetchAxleConfigurations, getAxleConfigurationById, type AxleConfiguration } from '@/lib/api/weighing';
 import {
   getToleranceSettings,
   getFeeSchedules,
+  getAxleTypeFeeSchedules,
   getDemeritPointSchedules,
   getAllActs,
   type ToleranceSettingDto,
   type AxleFeeScheduleDto,
+  type AxleTypeOverloadFeeScheduleDto,
+  type DemeritPointScheduleDto,
   type ActDefinitionDto,
 } from '@/lib/api/acts';
+import { fetchActivePermitForVehicle } from '@/lib/api/permits';
+import { getWarrantWatchList, type WarrantWatchEntryDto } from '@/lib/api/arrestWarrant';
 import { apiClient } from '@/lib/api/client';
+import type { Permit } from '@/types/weighing';
 
 const FRAMEWORKS = ['TRAFFIC_ACT', 'EAC'] as const;
 const TTL_MS = 24 * 60 * 60 * 1000;
@@ -62,6 +72,7 @@ export async function cacheComplianceReferenceData(): Promise<void> {
   for (const fw of FRAMEWORKS) {
     try { await put(`tolerances:${fw}`, await getToleranceSettings(fw)); } catch { /* keep */ }
     try { await put(`feeSchedules:${fw}`, await getFeeSchedules(fw)); } catch { /* keep */ }
+    try { await put(`axleTypeFees:${fw}`, await getAxleTypeFeeSchedules(fw)); } catch { /* keep */ }
     try { await put(`demerit:${fw}`, await getDemeritPointSchedules(fw)); } catch { /* keep */ }
   }
 
@@ -73,11 +84,66 @@ export async function cacheComplianceReferenceData(): Promise<void> {
     });
     await put('recentConvictions', data);
   } catch { /* keep */ }
+
+  await cacheWarrantWatchList();
+}
+
+/** Warrants executed on this device whose EXECUTE_WARRANT hasn't reached the server yet. */
+async function getPendingWarrantExecutions(): Promise<Set<string>> {
+  const queued = await offlineDb.mutationQueue.where('type').equals('EXECUTE_WARRANT').filter((m) => !m.synced).toArray();
+  return new Set(queued.map((m) => m.endpoint.match(/\/case\/warrants\/([^/]+)\/execute$/)?.[1]).filter((id): id is string => !!id));
+}
+
+/**
+ * Download + cache the active warrant watch-list. Returns the fresh list, or null when offline.
+ * Warrants with an execution still queued here stay off the list, or the alert would come back
+ * for a vehicle that has already been dealt with.
+ */
+export async function cacheWarrantWatchList(): Promise<WarrantWatchEntryDto[] | null> {
+  try {
+    const [fresh, pending] = await Promise.all([getWarrantWatchList(), getPendingWarrantExecutions()]);
+    const list = fresh.filter((w) => !pending.has(w.warrantId));
+    await put('warrantWatchList', list);
+    return list;
+  } catch {
+    return null; // keep prior cache
+  }
+}
+
+/** Drop a warrant from the cached watch-list once it has been executed here (possibly offline). */
+export async function removeCachedWarrant(warrantId: string): Promise<void> {
+  const list = await getCached<WarrantWatchEntryDto[]>('warrantWatchList');
+  if (list) await put('warrantWatchList', list.filter((w) => w.warrantId !== warrantId));
+}
+
+const permitKey = (regNo: string) => `activePermit:${(regNo ?? '').toUpperCase().replace(/\s+/g, '')}`;
+
+/**
+ * Cache the vehicle's active permit (or the absence of one) under its plate, so an offline capture
+ * of the same vehicle applies the permit extensions. Best-effort; keeps the prior entry on error.
+ */
+export async function cacheActivePermit(vehicleId: string, vehicleRegNumber: string): Promise<void> {
+  try {
+    await put(permitKey(vehicleRegNumber), await fetchActivePermitForVehicle(vehicleId));
+  } catch { /* keep prior cache */ }
+}
+
+/** Cached active permit for a plate; null when none is cached or it has lapsed since caching. */
+export async function getCachedActivePermit(vehicleRegNumber: string): Promise<Permit | null> {
+  const permit = await getCached<Permit | null>(permitKey(vehicleRegNumber));
+  if (!permit || permit.status !== 'active') return null;
+  const now = Date.now();
+  const from = new Date(permit.validFrom).getTime();
+  const to = new Date(permit.validTo).getTime();
+  return now >= from && now <= to ? permit : null;
 }
 
 // ── Cache readers used by the offline compliance helper ───────────────────────
 export const getCachedAxleConfigs = () => getCached<AxleConfiguration[]>('axleConfigs');
 export const getCachedTolerances = (fw: string) => getCached<ToleranceSettingDto[]>(`tolerances:${fw}`);
 export const getCachedFeeSchedules = (fw: string) => getCached<AxleFeeScheduleDto[]>(`feeSchedules:${fw}`);
+export const getCachedAxleTypeFees = (fw: string) => getCached<AxleTypeOverloadFeeScheduleDto[]>(`axleTypeFees:${fw}`);
+export const getCachedDemeritSchedules = (fw: string) => getCached<DemeritPointScheduleDto[]>(`demerit:${fw}`);
 export const getCachedActs = () => getCached<ActDefinitionDto[]>('acts');
 export const getCachedRecentConvictions = () => getCached<RecentConviction[]>('recentConvictions');
+export const getCachedWarrantWatchList = () => getCached<WarrantWatchEntryDto[]>('warrantWatchList');
@@ -0,0 +1,296 @@
+/**
+ * Station weighbridge queue.
+ *
+ * Vehicles join the queue from ANPR reads at the approach (TruConnect `plate-detected`) or a manual
+ * check-in at the gate, per bound. The weighing screen takes the next vehicle with a query
+ * parameter, the same handoff the WIM re-weigh queue uses, and marks the entry done when the
+ * weighing completes. Wait and service times are worked out from those timestamps.
+ *
+ * Kept in localStorage per station. The queue board and the weighing screens run on the station PC,
+ * and the queue must survive a reload while offline. Pre-screen flags are fetched when a vehicle
+ * joins; if that fails the entry stays unscreened and can be screened again.
+ */
+import { getVehicleByRegNo } from '@/lib/api/weighing';
+import { fetchPermitsByVehicle } from '@/lib/api/permits';
+import { checkVehicleTags, searchYardEntries, type VehicleTagDto, type YardEntryDto } from '@/lib/api/yard';
+import type { Permit } from '@/types/weighing';
+
+export type QueueEntrySource = 'anpr' | 'check-in';
+export type QueueEntryStatus = 'waiting' | 'weighing' | 'done' | 'left';
+export type PrescreenFlagKind = 'open-tag' | 'yard' | 'permit-expired';
+
+export interface PrescreenFlag {
+  kind: PrescreenFlagKind;
+  label: string;
+  detail?: string;
+}
+
+/** Details a gate check-in can record; they pre-fill the weighing screen's vehicle details. */
+export interface QueueCheckInDetails {
+  axleConfigCode?: string;
+  driverId?: string;
+  transporterId?: string;
+  cargoId?: string;
+  trailerNo?: string;
+  notes?: string;
+}
+
+export interface StationQueueEntry extends QueueCheckInDetails {
+  id: string;
+  plateNumber: string;
+  bound: string;
+  source: QueueEntrySource;
+  /** ANPR read confidence, 0–1. */
+  confidence?: number;
+  anprImagePath?: string;
+  arrivedAt: string;
+  status: QueueEntryStatus;
+  takenAt?: string;
+  completedAt?: string;
+  /** Weighing screen that took the vehicle. */
+  weighingMode?: 'multideck' | 'mobile';
+  /** Last heartbeat from the screen weighing it (see WEIGHING_STALE_MS). */
+  heartbeatAt?: string;
+  flags: PrescreenFlag[];
+  /** Unset until the pre-screen lookups have succeeded. */
+  prescreenedAt?: string;
+}
+
+export interface QueueArrival extends QueueCheckInDetails {
+  plateNumber: string;
+  bound: string;
+  source: QueueEntrySource;
+  confidence?: number;
+  anprImagePath?: string;
+  arrivedAt?: string;
+}
+
+export interface BoundQueueStats {
+  waiting: number;
+  inService: number;
+  longestWaitMs: number;
+  /** Mean time from arrival to being taken, over vehicles taken in the retention window. */
+  avgWaitMs: number | null;
+  /** Mean time from being taken to completion. */
+  avgServiceMs: number | null;
+  /** Rough wait for a vehicle joining now: queue length × average service time. */
+  estimatedWaitMs: number | null;
+}
+
+const QUEUE_KEY_PREFIX = 'truload_station_queue_';
+/** Completed / departed entries are kept this long for the service-time averages, then dropped. */
+const QUEUE_RETENTION_MS = 12 * 60 * 60 * 1000;
+/**
+ * A vehicle being weighed goes back to waiting after this long without a heartbeat from its
+ * screen, so a closed or abandoned tab doesn't hold it "in service" for good.
+ */
+export const WEIGHING_STALE_MS = 15 * 60 * 1000;
+
+export function normalizePlate(plate: string): string {
+  return (plate ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function queueKey(stationId: string): string {
+  return `${QUEUE_KEY_PREFIX}${stationId}`;
+}
+
+const isActive = (e: StationQueueEntry) => e.status === 'waiting' || e.status === 'weighing';
+
+export function getStationQueue(stationId: string): StationQueueEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(queueKey(stationId));
+    const entries = raw ? (JSON.parse(raw) as StationQueueEntry[]) : [];
+    const cutoff = Date.now() - QUEUE_RETENTION_MS;
+    return withStaleWeighingReleased(
+      entries.filter((e) => isActive(e) || new Date(e.completedAt ?? e.arrivedAt).getTime() >= cutoff),
+    );
+  } catch {
+    return [];
+  }
+}
+
+function saveStationQueue(stationId: string, entries: StationQueueEntry[]): void {
+  try {
+    window.localStorage.setItem(queueKey(stationId), JSON.stringify(entries));
+  } catch { /* storage full/unavailable — queue is best-effort */ }
+}
+
+/** True when the storage event is a change to this station's queue (another tab or screen). */
+export function isStationQueueEvent(event: StorageEvent, stationId: string): boolean {
+  return event.key === queueKey(stationId);
+}
+
+// ── Pure queue operations ─────────────────────────────────────────────────────
+
+/**
+ * Add an arrival. A plate already waiting or being weighed is not queued twice — the approach
+ * camera reads a slow truck several times — but a manual check-in fills in its details.
+ */
+export function withArrival(entries: StationQueueEntry[], arrival: QueueArrival, now: Date = new Date()): StationQueueEntry[] {
+  const plate = normalizePlate(arrival.plateNumber);
+  if (!plate) return entries;
+  const existing = entries.find((e) => isActive(e) && normalizePlate(e.plateNumber) === plate);
+  if (existing) {
+    if (arrival.source !== 'check-in') return entries;
+    const { source: _source, arrivedAt: _arrivedAt, confidence: _confidence, anprImagePath: _image, ...details } = arrival;
+    return entries.map((e) => (e.id === existing.id ? { ...e, ...details, plateNumber: e.plateNumber } : e));
+  }
+  return [
+    ...entries,
+    {
+      ...arrival,
+      id: `${plate}-${now.getTime()}`,
+      plateNumber: arrival.plateNumber.trim().toUpperCase(),
+      arrivedAt: arrival.arrivedAt ?? now.toISOString(),
+      status: 'waiting',
+      flags: [],
+    },
+  ];
+}
+
+export function withStatus(
+  entries: StationQueueEntry[],
+  id: string,
+  status: QueueEntryStatus,
+  now: Date = new Date(),
+  weighingMode?: StationQueueEntry['weighingMode'],
+): StationQueueEntry[] {
+  const at = now.toISOString();
+  return entries.map((e) => {
+    if (e.id !== id) return e;
+    switch (status) {
+      case 'weighing':
+        return { ...e, status, takenAt: at, heartbeatAt: at, weighingMode: weighingMode ?? e.weighingMode };
+      case 'waiting':
+        // Back in the queue (e.g. weighing cancelled) — keeps its place by arrival time.
+        return { ...e, status, takenAt: undefined, heartbeatAt: undefined, weighingMode: undefined };
+      default:
+        return { ...e, status, completedAt: at };
+    }
+  });
+}
+
+/** Puts weighings whose screen has gone quiet for WEIGHING_STALE_MS back in the queue. */
+export function withStaleWeighingReleased(entries: StationQueueEntry[], now: Date = new Date()): StationQueueEntry[] {
+  const cutoff = now.getTime() - WEIGHING_STALE_MS;
+  const stale = entries.filter(
+    (e) => e.status === 'weighing' && new Date(e.heartbeatAt ?? e.takenAt ?? e.arrivedAt).getTime() < cutoff,
+  );
+  return stale.reduce((next, e) => withStatus(next, e.id, 'waiting', now), entries);
+}
+
+/** Waiting entries for a bound, first come first served. */
+export function getWaiting(entries: StationQueueEntry[], bound?: string): StationQueueEntry[] {
+  return entries
+    .filter((e) => e.status === 'waiting' && (bound == null || e.bound === bound))
+    .sort((a, b) => a.arrivedAt.localeCompare(b.arrivedAt));
+}
+
+const mean = (values: number[]) => (values.length ? values.reduce((s, v) => s + v, 0) / values.length : null);
+
+export function getBoundQueueStats(entries: StationQueueEntry[], bound: string, now: Date = new Date()): BoundQueueStats {
+  const forBound = entries.filter((e) => e.bound === bound);
+  const waiting = getWaiting(forBound);
+  const t = now.getTime();
+  const avgWaitMs = mean(
+    forBound.filter((e) => e.takenAt).map((e) => new Date(e.takenAt!).getTime() - new Date(e.arrivedAt).getTime())
+  );
+  const avgServiceMs = mean(
+    forBound
+      .filter((e) => e.status === 'done' && e.takenAt && e.completedAt)
+      .map((e) => new Date(e.completedAt!).getTime() - new Date(e.takenAt!).getTime())
+  );
+  return {
+    waiting: waiting.length,
+    inService: forBound.filter((e) => e.status === 'weighing').length,
+    longestWaitMs: waiting.length ? t - new Date(waiting[0].arrivedAt).getTime() : 0,
+    avgWaitMs,
+    avgServiceMs,
+    estimatedWaitMs: avgServiceMs != null ? waiting.length * avgServiceMs : null,
+  };
+}
+
+// ── Pre-screen ────────────────────────────────────────────────────────────────
+
+const ACTIVE_YARD_STATUSES = ['pending', 'processing', 'escalated'];
+
+/** Flags from the lookups: open tags, a yard entry not yet released, and a lapsed permit. */
+export function derivePrescreenFlags(
+  lookups: { tags: VehicleTagDto[]; yardEntries: YardEntryDto[]; permits: Permit[] },
+  now: Date = new Date(),
+): PrescreenFlag[] {
+  const flags: PrescreenFlag[] = [];
+  for (const tag of lookups.tags.filter((t) => t.status === 'open')) {
+    flags.push({ kind: 'open-tag', label: `Tag: ${tag.tagCategoryName}`, detail: tag.reason });
+  }
+  const inYard = lookups.yardEntries.find((y) => ACTIVE_YARD_STATUSES.includes(y.status));
+  if (inYard) {
+    flags.push({
+      kind: 'yard',
+      label: 'In yard',
+      detail: `${inYard.reason} at ${inYard.stationName}${inYard.ticketNumber ? ` (${inYard.ticketNumber})` : ''}`,
+    });
+  }
+  const t = now.getTime();
+  const isValid = (p: Permit) =>
+    p.status === 'active' && new Date(p.validFrom).getTime() <= t && new Date(p.validTo).getTime() >= t;
+  if (lookups.permits.length > 0 && !lookups.permits.some(isValid)) {
+    const latest = [...lookups.permits]
+      .filter((p) => p.status !== 'revoked')
+      .sort((a, b) => b.validTo.localeCompare(a.validTo))[0];
+    if (latest && new Date(latest.validTo).getTime() < t) {
+      flags.push({ kind: 'permit-expired', label: 'Permit expired', detail: `${latest.permitNo} lapsed ${latest.validTo.slice(0, 10)}` });
+    }
+  }
+  return flags;
+}
+
+/** Look the plate up and derive its flags. Throws when offline so the entry stays unscreened. */
+export async function prescreenVehicle(plateNumber: string): Promise<PrescreenFlag[]> {
+  const [tags, yard, vehicle] = await Promise.all([
+    checkVehicleTags(plateNumber),
+    searchYardEntries({ vehicleRegNo: plateNumber, pageSize: 10, sortBy: 'enteredAt', sortOrder: 'desc' }),
+    getVehicleByRegNo(plateNumber),
+  ]);
+  const permits = vehicle?.id ? await fetchPermitsByVehicle(vehicle.id) : [];
+  return derivePrescreenFlags({ tags, yardEntries: yard.items, permits });
+}
+
+// ── Stored queue ──────────────────────────────────────────────────────────────
+
+export function enqueueArrival(stationId: string, arrival: QueueArrival): StationQueueEntry[] {
+  const next = withArrival(getStationQueue(stationId), arrival);
+  saveStationQueue(stationId, next);
+  return next;
+}
+
+export function updateQueueEntryStatus(
+  stationId: string,
+  id: string,
+  status: QueueEntryStatus,
+  weighingMode?: StationQueueEntry['weighingMode'],
+): StationQueueEntry[] {
+  const next = withStatus(getStationQueue(stationId), id, status, new Date(), weighingMode);
+  saveStationQueue(stationId, next);
+  return next;
+}
+
+/** Heartbeat from the screen weighing the entry; keeps it from going stale. */
+export function touchQueueEntry(stationId: string, id: string): void {
+  const entries = getStationQueue(stationId);
+  if (!entries.some((e) => e.id === id && e.status === 'weighing')) return;
+  const at = new Date().toISOString();
+  saveStationQueue(stationId, entries.map((e) => (e.id === id ? { ...e, heartbeatAt: at } : e)));
+}
+
+export function setQueueEntryFlags(stationId: string, id: string, flags: PrescreenFlag[]): StationQueueEntry[] {
+  const next = getStationQueue(stationId).map((e) =>
+    e.id === id ? { ...e, flags, prescreenedAt: new Date().toISOString() } : e
+  );
+  saveStationQueue(stationId, next);
+  return next;
+}
+
+/** Query parameter the weighing screens read to take a vehicle from the queue. */
+export const QUEUE_HANDOFF_PARAM = 'queueEntry';
@@ -11,6 +11,14 @@
  * replay returns the existing server record instead of creating a duplicate
  * (backed by the Phase 1 backend get-or-create). Failures use exponential backoff
  * + jitter; terminal 4xx (except 408/429) dead-letter for manual review.
+ *
+ * Queued updates carry the server row version they were made against (If-Match). A 409/412
+ * means the record changed online meanwhile: the current server copy is stored on the row and
+ * it waits in review for a field-by-field merge (see ./conflicts.ts) instead of being lost.
+ *
+ * Each drain that had work is recorded in the offline activity log, and any log entries not yet
+ * uploaded are sent at the end of the drain (see ./activityLog.ts), followed by ANPR evidence
+ * frames and plate reviews (see ./anprEvidence.ts).
  */
 
 import { apiClient } from '@/lib/api/client';
@@ -19,9 +27,12 @@ import {
   nextRetryState,
   pendingReady,
   getSyncStatusCounts,
+  isTerminalSyncError,
   type QueuedMutation,
   type SyncState,
 } from './db';
+import { recordOfflineActivity, uploadOfflineActivity } from './activityLog';
+import { uploadAnprEvidence } from './anprEvidence';
 
 let isSyncing = false;
 
@@ -33,23 +44,34 @@ let isSyncing = false;
  *    the terminal-4xx / backoff logic below is identical regardless of transport.
  */
 export interface Poster {
+  get(endpoint: string): Promise<{ data: unknown }>;
   post(endpoint: string, body: unknown, idempotencyKey?: string): Promise<{ data: unknown }>;
-  put(endpoint: string, body: unknown, idempotencyKey?: string): Promise<{ data: unknown }>;
-  patch(endpoint: string, body: unknown, idempotencyKey?: string): Promise<{ data: unknown }>;
+  put(endpoint: string, body: unknown, idempotencyKey?: string, ifMatch?: string): Promise<{ data: unknown }>;
+  patch(endpoint: string, body: unknown, idempotencyKey?: string, ifMatch?: string): Promise<{ data: unknown }>;
+}
+
+/** Request headers for a replayed write: idempotency key plus the optimistic-concurrency version. */
+export function syncHeaders(idempotencyKey?: string, ifMatch?: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+  // ETag syntax wants a quoted value; versions from DTOs (rowVersion/updatedAt) arrive bare.
+  if (ifMatch) headers['If-Match'] = ifMatch.startsWith('"') || ifMatch.startsWith('W/') ? ifMatch : `"${ifMatch}"`;
+  return headers;
 }
 
-const idemCfg = (key?: string) => (key ? { headers: { 'Idempotency-Key': key } } : undefined);
+const cfg = (key?: string, ifMatch?: string) => ({ headers: syncHeaders(key, ifMatch) });
 
 const axiosPoster: Poster = {
-  post: (e, b, k) => apiClient.post(e, b, idemCfg(k)),
-  put: (e, b, k) => apiClient.put(e, b, idemCfg(k)),
-  patch: (e, b, k) => apiClient.patch(e, b, idemCfg(k)),
+  get: (e) => apiClient.get(e),
+  post: (e, b, k) => apiClient.post(e, b, cfg(k)),
+  put: (e, b, k, v) => apiClient.put(e, b, cfg(k, v)),
+  patch: (e, b, k, v) => apiClient.patch(e, b, cfg(k, v)),
 };
 
-/** A 4xx (except 408 timeout / 429 rate-limit) is a permanent failure → dead-letter. */
-function isTerminal(err: unknown): boolean {
+/** 409 Conflict / 412 Precondition Failed — the server row moved on since the edit was queued. */
+function isVersionConflict(err: unknown): boolean {
   const status = (err as { response?: { status?: number } })?.response?.status;
-  return typeof status === 'number' && status >= 400 && status < 500 && status !== 408 && status !== 429;
+  return status === 409 || status === 412;
 }
 
 function errMessage(err: unknown): string {
@@ -76,7 +98,7 @@ async function syncWeighings(nowMs: number, poster: Poster): Promise<number> {
       } as Partial<typeof w>);
       n++;
     } catch (err) {
-      await offlineDb.offlineWeighings.update(w.localId, nextRetryState(w, errMessage(err), isTerminal(err), nowMs) as Partial<typeof w>);
+      await offlineDb.offlineWeighings.update(w.localId, nextRetryState(w, errMessage(err), isTerminalSyncError(err), nowMs) as Partial<typeof w>);
     }
   }
   return n;
@@ -101,7 +123,7 @@ async function syncCases(nowMs: number, poster: Poster): Promise<number> {
       } as Partial<typeof c>);
       n++;
     } catch (err) {
-      await offlineDb.offlineCases.update(c.localId, nextRetryState(c, errMessage(err), isTerminal(err), nowMs) as Partial<typeof c>);
+      await offlineDb.offlineCases.update(c.localId, nextRetryState(c, errMessage(err), isTerminalSyncError(err), nowMs) as Partial<typeof c>);
     }
   }
   return n;
@@ -125,7 +147,7 @@ async function syncProsecutions(nowMs: number, poster: Poster): Promise<number>
       } as Partial<typeof p>);
       n++;
     } catch (err) {
-      await offlineDb.offlineProsecutions.update(p.localId, nextRetryState(p, errMessage(err), isTerminal(err), nowMs) as Partial<typeof p>);
+      await offlineDb.offlineProsecutions.update(p.localId, nextRetryState(p, errMessage(err), isTerminalSyncError(err), nowMs) as Partial<typeof p>);
     }
   }
   return n;
@@ -149,7 +171,7 @@ async function syncInvoices(nowMs: number, poster: Poster): Promise<number> {
       } as Partial<typeof inv>);
       n++;
     } catch (err) {
-      await offlineDb.offlineInvoices.update(inv.localId, nextRetryState(inv, errMessage(err), isTerminal(err), nowMs) as Partial<typeof inv>);
+      await offlineDb.offlineInvoices.update(inv.localId, nextRetryState(inv, errMessage(err), isTerminalSyncError(err), nowMs) as Partial<typeof inv>);
     }
   }
   return n;
@@ -162,11 +184,34 @@ async function processMutation(mutation: QueuedMutation, poster: Poster): Promis
   const key = mutation.idempotencyKey;
   switch (mutation.method) {
     case 'POST': await poster.post(mutation.endpoint, payload, key); break;
-    case 'PUT': await poster.put(mutation.endpoint, payload, key); break;
-    case 'PATCH': await poster.patch(mutation.endpoint, payload, key); break;
+    case 'PUT': await poster.put(mutation.endpoint, payload, key, mutation.baseVersion); break;
+    case 'PATCH': await poster.patch(mutation.endpoint, payload, key, mutation.baseVersion); break;
   }
 }
 
+/** Server-side version of a record: the concurrency token if the DTO has one, else updatedAt. */
+export function recordVersion(record: unknown): string | undefined {
+  const r = record as { rowVersion?: string; updatedAt?: string } | null;
+  return r?.rowVersion ?? r?.updatedAt ?? undefined;
+}
+
+/**
+ * Park a conflicting update for review with the current server copy attached. The 409/412 body
+ * is usually a problem-details object, so the record itself is re-read from the update endpoint.
+ */
+async function recordConflict(m: QueuedMutation, poster: Poster, nowMs: number): Promise<void> {
+  let server: unknown = null;
+  try {
+    server = (await poster.get(m.endpoint)).data;
+  } catch { /* keep null — the review dialog falls back to local-vs-base */ }
+  await offlineDb.mutationQueue.update(m.id!, {
+    ...nextRetryState(m, 'Changed on the server while offline — resolve the conflict', true, nowMs),
+    conflict: true,
+    conflictServer: server ? JSON.stringify(server) : undefined,
+    conflictServerVersion: recordVersion(server),
+  } as Partial<QueuedMutation>);
+}
+
 async function syncMutationQueue(nowMs: number, poster: Poster): Promise<number> {
   let n = 0;
   const all = await offlineDb.mutationQueue.orderBy('createdAt').toArray();
@@ -177,7 +222,11 @@ async function syncMutationQueue(nowMs: number, poster: Poster): Promise<number>
       await offlineDb.mutationQueue.delete(m.id!); // success → remove from queue
       n++;
     } catch (err) {
-      await offlineDb.mutationQueue.update(m.id!, nextRetryState(m, errMessage(err), isTerminal(err), nowMs) as Partial<QueuedMutation>);
+      if ((m.method === 'PUT' || m.method === 'PATCH') && isVersionConflict(err)) {
+        await recordConflict(m, poster, nowMs);
+        continue;
+      }
+      await offlineDb.mutationQueue.update(m.id!, nextRetryState(m, errMessage(err), isTerminalSyncError(err), nowMs) as Partial<QueuedMutation>);
     }
   }
   return n;
@@ -194,11 +243,20 @@ export async function drainMutationQueue(poster: Poster = axiosPoster): Promise<
   const nowMs = Date.now();
   let synced = 0;
   try {
+    const { pending } = await getSyncStatusCounts();
     synced += await syncWeighings(nowMs, poster);
     synced += await syncCases(nowMs, poster);
     synced += await syncProsecutions(nowMs, poster);
     synced += await syncInvoices(nowMs, poster);
     synced += await syncMutationQueue(nowMs, poster);
+    if (pending > 0) {
+      const left = (await getSyncStatusCounts()).pending;
+      await recordOfflineActivity({ kind: 'SYNC_ATTEMPT', success: left === 0, details: { pending, synced, left } });
+    }
+    // The activity log rides along with the drain; if the upload fails it goes with the next one.
+    await uploadOfflineActivity(poster, nowMs).catch(() => 0);
+    // ANPR evidence follows its weighing: frames of weighings synced above go up now.
+    await uploadAnprEvidence(poster, nowMs).catch(() => 0);
   } finally {
     isSyncing = false;
   }
@@ -241,6 +299,8 @@ export interface DeadLetterItem {
   error?: string;
   attempts: number;
   createdAt: string;
+  /** Version conflict awaiting a field-by-field merge (generic-queue updates only). */
+  conflict?: boolean;
 }
 
 /** Every dead-lettered item needing manual review, across all stores. */
@@ -257,7 +317,7 @@ export async function getDeadLetterItems(): Promise<DeadLetterItem[]> {
     ...cases.map((c) => ({ kind: 'case' as const, key: c.localId, label: `Case ${c.vehicleRegNumber}`, error: c.syncError, attempts: c.attempts, createdAt: c.createdAt })),
     ...prosecutions.map((p) => ({ kind: 'prosecution' as const, key: p.localId, label: `Prosecution ${p.localId.slice(0, 8)}`, error: p.syncError, attempts: p.attempts, createdAt: p.createdAt })),
     ...invoices.map((i) => ({ kind: 'invoice' as const, key: i.localId, label: `Invoice ${i.invoiceNo ?? i.localId.slice(0, 8)}`, error: i.syncError, attempts: i.attempts, createdAt: i.createdAt })),
-    ...mutations.map((m) => ({ kind: 'mutation' as const, key: String(m.id), label: m.type, error: m.syncError, attempts: m.attempts, createdAt: m.createdAt })),
+    ...mutations.map((m) => ({ kind: 'mutation' as const, key: String(m.id), label: m.type, error: m.syncError, attempts: m.attempts, createdAt: m.createdAt, conflict: !!m.conflict })),
   ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
 }
 
@@ -0,0 +1,229 @@
+/**
+ * Weigh-in-motion screening.
+ *
+ * A WIM passage (TruConnect `wim-passage`) carries dynamic axle loads, not legal weights, so it is
+ * only used to decide which vehicles to pull in for a static re-weigh at the multideck. Each
+ * passage is run through the same offline compliance engine as a provisional capture, against
+ * every cached axle configuration with the passage's axle count. Two allowances keep screening on
+ * the side of the driver:
+ *   - loads are first reduced by the WIM accuracy margin (`marginPct`), and
+ *   - when several configurations fit, the one giving the SMALLEST overload is used.
+ * Only an overload that survives both is "suspected". The registered configuration is confirmed
+ * at the multideck, where the static weight is authoritative.
+ *
+ * Works entirely from the reference cache (see referenceCache.ts), so screening continues offline.
+ */
+import type { AxleConfiguration } from '@/lib/api/weighing';
+import type { WimPassageData } from '@/hooks/useMiddleware';
+import {
+  computeProvisionalCompliance,
+  type ProvisionalComplianceResult,
+  type ToleranceSettingRef,
+} from './compliance';
+import { getCachedActivePermit, getCachedAxleConfigs, getCachedTolerances } from './referenceCache';
+
+export type WimVerdict = 'clear' | 'borderline' | 'suspected' | 'unscreened';
+
+export interface WimScreeningOptions {
+  /** WIM accuracy allowance deducted from every axle load before screening, in %. Default 10. */
+  marginPct?: number;
+  /** Above this speed the sensors are out of their accuracy class; the result is marked low confidence. Default 80. */
+  maxReliableSpeedKmh?: number;
+}
+
+export interface WimScreeningResult {
+  passage: WimPassageData;
+  verdict: WimVerdict;
+  /** Why the passage could not be screened, or why confidence is low. */
+  note?: string;
+  lowConfidence: boolean;
+  /** Configuration the verdict was computed against (the most lenient fit). */
+  axleConfigCode?: string;
+  /** Number of cached configurations with a matching axle count. */
+  candidateCount: number;
+  compliance?: ProvisionalComplianceResult;
+  /** Largest GVW/group overload after the margin, in kg. */
+  maxOverloadKg: number;
+  screenedAt: string;
+}
+
+const DEFAULT_MARGIN_PCT = 10;
+const DEFAULT_MAX_RELIABLE_SPEED_KMH = 80;
+
+function maxOverloadOf(c: ProvisionalComplianceResult): number {
+  return Math.max(c.gvwOverloadKg, ...c.groupResults.map((g) => g.overloadKg), 0);
+}
+
+/**
+ * Screen one passage against the given configurations. Pure — tolerances are looked up per
+ * legal framework through `tolerancesFor`.
+ */
+export function screenPassage(
+  passage: WimPassageData,
+  configs: AxleConfiguration[],
+  tolerancesFor: (legalFramework: string) => ToleranceSettingRef[],
+  options: WimScreeningOptions & { permit?: { axleExtensionKg?: number | null; gvwExtensionKg?: number | null } | null } = {},
+): WimScreeningResult {
+  const marginPct = options.marginPct ?? DEFAULT_MARGIN_PCT;
+  const maxSpeed = options.maxReliableSpeedKmh ?? DEFAULT_MAX_RELIABLE_SPEED_KMH;
+  const screenedAt = new Date().toISOString();
+  const axleCount = passage.axleLoadsKg.length;
+  const lowConfidence = passage.speedKmh > maxSpeed || (passage.flags?.length ?? 0) > 0;
+  const confidenceNote = passage.speedKmh > maxSpeed
+    ? `Passage at ${passage.speedKmh} km/h is above the ${maxSpeed} km/h accuracy limit`
+    : passage.flags?.length ? `Sensor flags: ${passage.flags.join(', ')}` : undefined;
+
+  const candidates = configs.filter(
+    (c) => c.isActive !== false && c.axleNumber === axleCount && (c.weightReferences?.length ?? 0) > 0,
+  );
+  if (axleCount === 0 || candidates.length === 0) {
+    return {
+      passage,
+      verdict: 'unscreened',
+      note: axleCount === 0 ? 'No axles detected' : `No cached ${axleCount}-axle configuration`,
+      lowConfidence,
+      candidateCount: 0,
+      maxOverloadKg: 0,
+      screenedAt,
+    };
+  }
+
+  const factor = Math.max(0, 1 - marginPct / 100);
+  let best: { config: AxleConfiguration; compliance: ProvisionalComplianceResult; overload: number } | null = null;
+  for (const config of candidates) {
+    const refByPos = new Map(config.weightReferences!.map((r) => [r.axlePosition, r]));
+    const compliance = computeProvisionalCompliance({
+      axles: passage.axleLoadsKg.map((kg, i) => {
+        const ref = refByPos.get(i + 1);
+        return {
+          axleNumber: i + 1,
+          measuredWeightKg: Math.round(kg * factor),
+          permissibleWeightKg: ref?.axleLegalWeightKg ?? 0,
+          axleGrouping: ref?.axleGrouping ?? String(i + 1),
+        };
+      }),
+      gvwPermissibleKg: config.gvwPermissibleKg,
+      gvwConfigToleranceKg: (config as { toleranceKg?: number | null }).toleranceKg ?? null,
+      legalFramework: config.legalFramework || 'TRAFFIC_ACT',
+      toleranceSettings: tolerancesFor(config.legalFramework || 'TRAFFIC_ACT'),
+      permit: options.permit,
+    });
+    const overload = maxOverloadOf(compliance);
+    if (!best || overload < best.overload) best = { config, compliance, overload };
+  }
+
+  const { config, compliance, overload } = best!;
+  const verdict: WimVerdict =
+    compliance.overallStatus === 'OVERLOAD' ? 'suspected' : compliance.overallStatus === 'WARNING' ? 'borderline' : 'clear';
+  return {
+    passage,
+    verdict,
+    note: confidenceNote,
+    lowConfidence,
+    axleConfigCode: config.axleCode,
+    candidateCount: candidates.length,
+    compliance,
+    maxOverloadKg: overload,
+    screenedAt,
+  };
+}
+
+/** Screen a passage from the reference cache (works offline). */
+export async function screenWimPassage(
+  passage: WimPassageData,
+  options: WimScreeningOptions = {},
+): Promise<WimScreeningResult> {
+  const configs = (await getCachedAxleConfigs()) ?? [];
+  const frameworks = [...new Set(configs.map((c) => c.legalFramework || 'TRAFFIC_ACT'))];
+  const tolerances = new Map<string, ToleranceSettingRef[]>();
+  for (const fw of frameworks) {
+    tolerances.set(fw, ((await getCachedTolerances(fw)) ?? []) as ToleranceSettingRef[]);
+  }
+  const permit = passage.plate?.plateNumber ? await getCachedActivePermit(passage.plate.plateNumber) : null;
+  return screenPassage(passage, configs, (fw) => tolerances.get(fw) ?? [], { ...options, permit });
+}
+
+// ── Re-weigh queue ────────────────────────────────────────────────────────────
+//
+// Suspected passages wait here until the multideck operator takes them. Kept in localStorage per
+// station: the WIM screen and the multideck run on the same station PC, and the queue must
+// survive a reload while offline.
+
+export type ReweighStatus = 'pending' | 'handed-off' | 'dismissed';
+
+export interface WimReweighItem {
+  passageId: string;
+  plateNumber?: string;
+  axleConfigCode?: string;
+  gvwKg: number;
+  maxOverloadKg: number;
+  speedKmh: number;
+  lowConfidence: boolean;
+  passedAt: string;
+  queuedAt: string;
+  status: ReweighStatus;
+  /** Set on handoff: the multideck transaction that took over. */
+  handedOffAt?: string;
+}
+
+const QUEUE_KEY_PREFIX = 'truload_wim_reweigh_';
+/** Handed-off / dismissed entries are kept this long for the shift log, then dropped. */
+const QUEUE_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+function queueKey(stationId: string): string {
+  return `${QUEUE_KEY_PREFIX}${stationId}`;
+}
+
+export function getReweighQueue(stationId: string): WimReweighItem[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = window.localStorage.getItem(queueKey(stationId));
+    const items = raw ? (JSON.parse(raw) as WimReweighItem[]) : [];
+    const cutoff = Date.now() - QUEUE_RETENTION_MS;
+    return items.filter((i) => i.status === 'pending' || new Date(i.queuedAt).getTime() >= cutoff);
+  } catch {
+    return [];
+  }
+}
+
+function saveReweighQueue(stationId: string, items: WimReweighItem[]): void {
+  try {
+    window.localStorage.setItem(queueKey(stationId), JSON.stringify(items));
+  } catch { /* storage full/unavailable — queue is best-effort */ }
+}
+
+/** Queue a suspected passage for static re-weigh. Re-queuing the same passage is a no-op. */
+export function enqueueReweigh(stationId: string, result: WimScreeningResult): WimReweighItem[] {
+  const items = getReweighQueue(stationId);
+  if (items.some((i) => i.passageId === result.passage.passageId)) return items;
+  const next = [
+    ...items,
+    {
+      passageId: result.passage.passageId,
+      plateNumber: result.passage.plate?.plateNumber,
+      axleConfigCode: result.axleConfigCode,
+      gvwKg: result.passage.gvwKg,
+      maxOverloadKg: result.maxOverloadKg,
+      speedKmh: result.passage.speedKmh,
+      lowConfidence: result.lowConfidence,
+      passedAt: result.passage.timestamp,
+      queuedAt: new Date().toISOString(),
+      status: 'pending' as const,
+    },
+  ];
+  saveReweighQueue(stationId, next);
+  return next;
+}
+
+export function updateReweighStatus(stationId: string, passageId: string, status: ReweighStatus): WimReweighItem[] {
+  const next = getReweighQueue(stationId).map((i) =>
+    i.passageId === passageId
+      ? { ...i, status, handedOffAt: status === 'handed-off' ? new Date().toISOString() : i.handedOffAt }
+      : i,
+  );
+  saveReweighQueue(stationId, next);
+  return next;
+}
+
+/** Query parameter the multideck screen reads to pre-fill a WIM handoff. */
+export const WIM_HANDOFF_PARAM = 'wimPassage';
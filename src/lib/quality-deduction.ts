@@ -0,0 +1,172 @@
+/**
+ * Quality deduction rules for commercial weighing.
+ *
+ * The organisation configures rules per cargo type (commercial settings); the clerk enters lab
+ * readings on the second-weight step and the deduction is computed here instead of by hand.
+ * Every rule is applied to the measured net weight and the deductions add up. The breakdown is
+ * kept in the transaction's `industryMetadata` under `qualityDeduction` so the ticket can print
+ * how the figure was reached.
+ */
+
+import type {
+  LabReadingKey,
+  QualityDeductionRule,
+  ShrinkTableBand,
+} from '@/types/weighing';
+
+export const LAB_READING_LABELS: Record<LabReadingKey, string> = {
+  moisture: 'Moisture',
+  impurity: 'Impurities / foreign matter',
+  damaged: 'Damaged / broken',
+};
+
+export type LabReadings = Partial<Record<LabReadingKey, number>>;
+
+export interface QualityDeductionLine {
+  ruleId: string;
+  label: string;
+  reading: LabReadingKey;
+  value: number;
+  /** How the figure was reached, e.g. "16.5% vs 13.5% baseline" */
+  basis: string;
+  /** Percentage of net deducted */
+  deductPct: number;
+  deductionKg: number;
+}
+
+export interface QualityDeductionBreakdown {
+  netWeightKg: number;
+  readings: LabReadings;
+  lines: QualityDeductionLine[];
+  totalKg: number;
+  computedAt: string;
+}
+
+/** Rules configured for the cargo; cargo without its own rules falls back to the general ones. */
+export function getRulesForCargo(rules: QualityDeductionRule[], cargoId?: string | null): QualityDeductionRule[] {
+  const specific = cargoId ? rules.filter((r) => r.cargoId === cargoId) : [];
+  return specific.length > 0 ? specific : rules.filter((r) => r.cargoId == null);
+}
+
+/** Readings the clerk needs to enter for these rules, in first-use order. */
+export function getRequiredReadings(rules: QualityDeductionRule[]): LabReadingKey[] {
+  return Array.from(new Set(rules.map((r) => r.reading)));
+}
+
+export function findShrinkBand(bands: ShrinkTableBand[], value: number): ShrinkTableBand | null {
+  return bands.find((b) => value >= b.fromPct && value < b.toPct) ?? null;
+}
+
+const fmt = (n: number) => `${Number(n.toFixed(2))}%`;
+
+function applyRule(rule: QualityDeductionRule, value: number): { deductPct: number; basis: string } {
+  const baseline = rule.baselinePct ?? 0;
+  switch (rule.kind) {
+    case 'moisture': {
+      if (value <= baseline || baseline >= 100) return { deductPct: 0, basis: `${fmt(value)} within ${fmt(baseline)} baseline` };
+      return {
+        deductPct: ((value - baseline) / (100 - baseline)) * 100,
+        basis: `${fmt(value)} dried to ${fmt(baseline)} baseline`,
+      };
+    }
+    case 'excess': {
+      const multiplier = rule.multiplier ?? 1;
+      if (value <= baseline) return { deductPct: 0, basis: `${fmt(value)} within ${fmt(baseline)} allowance` };
+      return {
+        deductPct: (value - baseline) * multiplier,
+        basis: `${fmt(value)} − ${fmt(baseline)} allowance${multiplier !== 1 ? ` × ${multiplier}` : ''}`,
+      };
+    }
+    case 'shrink-table': {
+      const band = findShrinkBand(rule.bands ?? [], value);
+      if (!band) return { deductPct: 0, basis: `${fmt(value)} outside shrink table` };
+      return { deductPct: band.deductPct, basis: `${fmt(value)} in ${fmt(band.fromPct)}–${fmt(band.toPct)} band` };
+    }
+  }
+}
+
+export function computeQualityDeduction(
+  netWeightKg: number,
+  rules: QualityDeductionRule[],
+  readings: LabReadings,
+  now: Date = new Date(),
+): QualityDeductionBreakdown {
+  const lines: QualityDeductionLine[] = [];
+  for (const rule of rules) {
+    const value = readings[rule.reading];
+    if (value == null || isNaN(value)) continue;
+    const { deductPct, basis } = applyRule(rule, value);
+    lines.push({
+      ruleId: rule.id,
+      label: rule.label,
+      reading: rule.reading,
+      value,
+      basis,
+      deductPct,
+      deductionKg: Math.round((netWeightKg * deductPct) / 100),
+    });
+  }
+  const totalKg = Math.min(netWeightKg, lines.reduce((sum, l) => sum + l.deductionKg, 0));
+  return { netWeightKg, readings, lines, totalKg, computedAt: now.toISOString() };
+}
+
+/** One-line reason for the deduction, e.g. "Moisture 16.5% dried to 13.5% baseline: 1,214 kg". */
+export function describeQualityDeduction(breakdown: QualityDeductionBreakdown): string {
+  return breakdown.lines
+    .filter((l) => l.deductionKg > 0)
+    .map((l) => `${l.label} ${l.basis}: ${l.deductionKg.toLocaleString()} kg`)
+    .join('; ');
+}
+
+// ── industryMetadata ─────────────────────────────────────────────────────────
+
+const METADATA_KEY = 'qualityDeduction';
+
+function parseMetadata(metadata?: string | null): Record<string, unknown> {
+  if (!metadata) return {};
+  try {
+    const parsed = JSON.parse(metadata);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Merge the breakdown into the transaction's metadata JSON, keeping other keys. */
+export function withQualityBreakdown(metadata: string | null | undefined, breakdown: QualityDeductionBreakdown | null): string {
+  const next = parseMetadata(metadata);
+  if (breakdown) next[METADATA_KEY] = breakdown;
+  else delete next[METADATA_KEY];
+  return JSON.stringify(next);
+}
+
+export function readQualityBreakdown(metadata?: string | null): QualityDeductionBreakdown | null {
+  const value = parseMetadata(metadata)[METADATA_KEY] as QualityDeductionBreakdown | undefined;
+  return value && Array.isArray(value.lines) ? value : null;
+}
+
+// ── Settings validation ──────────────────────────────────────────────────────
+
+/** First problem with the configured rules, or null when they can be saved. */
+export function validateQualityDeductionRules(rules: QualityDeductionRule[]): string | null {
+  for (const rule of rules) {
+    const name = rule.label.trim() || 'A rule';
+    if (!rule.label.trim()) return 'Every quality rule needs a label';
+    if (rule.kind !== 'shrink-table') {
+      const baseline = rule.baselinePct ?? 0;
+      if (baseline < 0 || baseline >= 100) return `${name}: baseline must be between 0 and 100%`;
+      if (rule.kind === 'excess' && (rule.multiplier ?? 1) <= 0) return `${name}: multiplier must be positive`;
+      continue;
+    }
+    const bands = rule.bands ?? [];
+    if (bands.length === 0) return `${name}: add at least one shrink-table band`;
+    const sorted = [...bands].sort((a, b) => a.fromPct - b.fromPct);
+    for (let i = 0; i < sorted.length; i++) {
+      const band = sorted[i];
+      if (!(band.fromPct < band.toPct)) return `${name}: each band's "from" must be below its "to"`;
+      if (band.deductPct < 0 || band.deductPct > 100) return `${name}: band deductions must be 0–100%`;
+      if (i > 0 && band.fromPct < sorted[i - 1].toPct) return `${name}: shrink-table bands overlap`;
+    }
+  }
+  return null;
+}
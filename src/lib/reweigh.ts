@@ -0,0 +1,177 @@
+/**
+ * Re-weigh comparison
+ *
+ * A re-weigh is a new transaction pointing back at the weighing it repeats (`originalWeighingId`).
+ * This module rebuilds the chain of weighings for a vehicle, compares any two of them axle group
+ * by axle group, works out how much load was shifted between groups or taken off, and decides
+ * which weighing the case should rest on. Pure and synchronous — the re-weigh workspace feeds it
+ * transactions and compliance results.
+ *
+ * Rules:
+ *  - A vehicle may be re-weighed at most `weighing.max_reweigh_cycles` times per weighing; a
+ *    weighing that carries its own `reweighLimit` uses that instead.
+ *  - The latest captured weighing in the chain is authoritative by default: it is the load the
+ *    vehicle actually left with. An officer may pick an earlier one (e.g. a re-weigh on a faulty
+ *    deck) and must give a reason.
+ *  - GVW going down is load taken off; load that moved from one group to another without leaving
+ *    the vehicle is the increase on the groups that gained.
+ */
+
+export const MAX_REWEIGH_CYCLES_KEY = 'weighing.max_reweigh_cycles';
+
+/** Cap used when neither the weighing nor the org settings say otherwise. */
+export const DEFAULT_MAX_REWEIGH_CYCLES = 8;
+
+/** The weighing's own limit → org setting → built-in default. */
+export function resolveMaxReweighCycles(
+  weighingLimit: number | undefined,
+  settings: { settingKey: string; settingValue: string }[] | undefined,
+): number {
+  if (weighingLimit && weighingLimit > 0) return weighingLimit;
+  const n = parseInt(settings?.find((s) => s.settingKey === MAX_REWEIGH_CYCLES_KEY)?.settingValue ?? '', 10);
+  return Number.isFinite(n) && n >= 0 ? n : DEFAULT_MAX_REWEIGH_CYCLES;
+}
+
+/** Re-weighs still allowed after `cycleNo` (0 = the original weighing). */
+export function reweighsRemaining(cycleNo: number, maxCycles: number): number {
+  return Math.max(0, maxCycles - cycleNo);
+}
+
+// ── Chain ─────────────────────────────────────────────────────────────────────
+
+export interface ChainWeighing {
+  id: string;
+  originalWeighingId?: string;
+  reweighCycleNo: number;
+  gvwMeasuredKg: number;
+}
+
+/**
+ * Every weighing linked to `weighingId` through `originalWeighingId`, original first. Works
+ * whether re-weighs point at the first weighing or at the re-weigh before them.
+ */
+export function buildReweighChain<T extends ChainWeighing>(transactions: T[], weighingId: string): T[] {
+  const byId = new Map(transactions.map((t) => [t.id, t]));
+  let root = byId.get(weighingId);
+  const seen = new Set<string>();
+  while (root?.originalWeighingId && root.originalWeighingId !== root.id && !seen.has(root.id)) {
+    seen.add(root.id);
+    const parent = byId.get(root.originalWeighingId);
+    if (!parent) break;
+    root = parent;
+  }
+  if (!root) return [];
+
+  const chain = new Set<string>([root.id]);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const t of transactions) {
+      if (!chain.has(t.id) && t.originalWeighingId && chain.has(t.originalWeighingId)) {
+        chain.add(t.id);
+        grew = true;
+      }
+    }
+  }
+  return transactions
+    .filter((t) => chain.has(t.id))
+    .sort((a, b) => (a.id === root!.id ? -1 : b.id === root!.id ? 1 : a.reweighCycleNo - b.reweighCycleNo));
+}
+
+/** Weighings that have weights on them; a re-weigh that was started but not captured has none. */
+export function capturedWeighings<T extends ChainWeighing>(chain: T[]): T[] {
+  return chain.filter((t) => t.gvwMeasuredKg > 0);
+}
+
+/** Latest captured weighing — the default authoritative weighing for the case. */
+export function defaultAuthoritativeWeighing<T extends ChainWeighing>(chain: T[]): T | undefined {
+  const captured = capturedWeighings(chain);
+  return captured[captured.length - 1];
+}
+
+// ── Comparison ────────────────────────────────────────────────────────────────
+
+export interface CompareGroupInput {
+  groupLabel: string;
+  measuredKg: number;
+  /** Effective limit (permissible + tolerance). */
+  limitKg: number;
+}
+
+export interface CompareWeighingInput {
+  groups: CompareGroupInput[];
+  gvwMeasuredKg: number;
+  gvwLimitKg: number;
+}
+
+/**
+ * cleared — over on the first weighing, within on the second; still-over — over on both;
+ * new-over — within first, over second (load shifted onto it); within — within on both.
+ */
+export type GroupDeltaStatus = 'cleared' | 'still-over' | 'new-over' | 'within';
+
+export interface GroupDelta {
+  groupLabel: string;
+  limitKg: number;
+  /** Undefined when the group wasn't on that weighing (different configuration captured). */
+  beforeKg?: number;
+  afterKg?: number;
+  deltaKg: number;
+  beforeOverKg: number;
+  afterOverKg: number;
+  status: GroupDeltaStatus;
+}
+
+export interface WeighingComparison {
+  groups: GroupDelta[];
+  gvwBeforeKg: number;
+  gvwAfterKg: number;
+  gvwDeltaKg: number;
+  gvwLimitKg: number;
+  /** GVW reduction — load taken off the vehicle. */
+  offloadedKg: number;
+  /** Load moved between groups without leaving the vehicle. */
+  shiftedKg: number;
+  /** Groups matched by label on both weighings; false when the configuration differs. */
+  sameConfiguration: boolean;
+  compliantBefore: boolean;
+  compliantAfter: boolean;
+}
+
+export function compareWeighings(before: CompareWeighingInput, after: CompareWeighingInput): WeighingComparison {
+  const beforeByLabel = new Map(before.groups.map((g) => [g.groupLabel, g]));
+  const afterByLabel = new Map(after.groups.map((g) => [g.groupLabel, g]));
+  const labels = [...before.groups.map((g) => g.groupLabel), ...after.groups.map((g) => g.groupLabel).filter((l) => !beforeByLabel.has(l))];
+
+  const groups = labels.map((groupLabel): GroupDelta => {
+    const b = beforeByLabel.get(groupLabel);
+    const a = afterByLabel.get(groupLabel);
+    const limitKg = a?.limitKg ?? b?.limitKg ?? 0;
+    const beforeKg = b ? Math.round(b.measuredKg) : undefined;
+    const afterKg = a ? Math.round(a.measuredKg) : undefined;
+    const beforeOverKg = Math.max(0, (beforeKg ?? 0) - (b?.limitKg ?? limitKg));
+    const afterOverKg = Math.max(0, (afterKg ?? 0) - limitKg);
+    const status: GroupDeltaStatus =
+      beforeOverKg > 0 ? (afterOverKg > 0 ? 'still-over' : 'cleared') : afterOverKg > 0 ? 'new-over' : 'within';
+    return { groupLabel, limitKg, beforeKg, afterKg, deltaKg: (afterKg ?? 0) - (beforeKg ?? 0), beforeOverKg, afterOverKg, status };
+  });
+
+  const gvwBeforeKg = Math.round(before.gvwMeasuredKg);
+  const gvwAfterKg = Math.round(after.gvwMeasuredKg);
+  const gained = groups.reduce((s, g) => s + Math.max(0, g.deltaKg), 0);
+  const sameConfiguration = before.groups.length === after.groups.length && groups.every((g) => g.beforeKg != null && g.afterKg != null);
+
+  return {
+    groups,
+    gvwBeforeKg,
+    gvwAfterKg,
+    gvwDeltaKg: gvwAfterKg - gvwBeforeKg,
+    gvwLimitKg: after.gvwLimitKg,
+    offloadedKg: Math.max(0, gvwBeforeKg - gvwAfterKg),
+    // Whatever a group gained beyond any GVW increase came off another group
+    shiftedKg: sameConfiguration ? Math.max(0, gained - Math.max(0, gvwAfterKg - gvwBeforeKg)) : 0,
+    sameConfiguration,
+    compliantBefore: gvwBeforeKg <= before.gvwLimitKg && before.groups.every((g) => g.measuredKg <= g.limitKg),
+    compliantAfter: gvwAfterKg <= after.gvwLimitKg && after.groups.every((g) => g.measuredKg <= g.limitKg),
+  };
+}
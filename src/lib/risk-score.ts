@@ -0,0 +1,183 @@
+/**
+ * Habitual offender risk scoring
+ *
+ * Scores a vehicle, driver or transporter from its enforcement record — convictions, open tags,
+ * unpaid invoices, yard escapes and permit misuse — so the weighbridge knows who it is dealing
+ * with before the vehicle is weighed, and a transporter can see where its own fleet stands. Pure —
+ * a vehicle's evidence is counted here from the lookups; drivers, transporters and the portal get
+ * it counted by the server. Weights and thresholds come from application settings.
+ *
+ * Rules:
+ *  - Each factor scores count × its weight; the score is the sum, capped at 100.
+ *  - Only convictions within the lookback window count.
+ *  - Open tags are tags with status "open". Unpaid invoices have a balance left and aren't paid
+ *    or voided.
+ *  - A yard entry at another station that was never released is an escape: the vehicle is back on
+ *    the road. Unreleased entries at this station don't count — it may be here for a re-weigh.
+ *  - A revoked permit counts as permit misuse.
+ *  - Medium and high bands start at configurable scores; a high-risk vehicle can be sent to a
+ *    mandatory full inspection before it's weighed.
+ */
+import type { InvoiceDto } from '@/lib/api/invoice';
+import type { ConvictionRecordDto, RiskEvidenceDto } from '@/lib/api/prosecution';
+import type { VehicleTagDto, YardEntryDto } from '@/lib/api/yard';
+import type { Permit } from '@/types/weighing';
+
+export type RiskFactor = 'convictions' | 'tags' | 'invoices' | 'escapes' | 'permits';
+
+export const RISK_FACTORS: RiskFactor[] = ['convictions', 'tags', 'invoices', 'escapes', 'permits'];
+
+export const RISK_FACTOR_LABELS: Record<RiskFactor, string> = {
+  convictions: 'Convictions',
+  tags: 'Open tags',
+  invoices: 'Unpaid invoices',
+  escapes: 'Yard escapes',
+  permits: 'Revoked permits',
+};
+
+export type RiskBand = 'low' | 'medium' | 'high';
+
+export const RISK_BAND_LABELS: Record<RiskBand, string> = {
+  low: 'Low risk',
+  medium: 'Medium risk',
+  high: 'High risk',
+};
+
+// ── Policy ────────────────────────────────────────────────────────────────────
+
+export const RISK_WEIGHT_KEY_PREFIX = 'risk.weight.';
+export const RISK_MEDIUM_THRESHOLD_KEY = 'risk.medium_threshold';
+export const RISK_HIGH_THRESHOLD_KEY = 'risk.high_threshold';
+export const RISK_LOOKBACK_MONTHS_KEY = 'risk.conviction_lookback_months';
+export const RISK_FULL_INSPECTION_KEY = 'risk.full_inspection_high_risk';
+
+export interface RiskPolicy {
+  /** Points per occurrence of each factor. */
+  weights: Record<RiskFactor, number>;
+  mediumThreshold: number;
+  highThreshold: number;
+  convictionLookbackMonths: number;
+  /** Route high-risk vehicles to a mandatory full inspection. */
+  fullInspectionForHighRisk: boolean;
+}
+
+export const DEFAULT_RISK_POLICY: RiskPolicy = {
+  weights: { convictions: 15, tags: 10, invoices: 8, escapes: 25, permits: 20 },
+  mediumThreshold: 30,
+  highThreshold: 60,
+  convictionLookbackMonths: 24,
+  fullInspectionForHighRisk: false,
+};
+
+type Settings = { settingKey: string; settingValue: string }[] | undefined;
+
+export function resolveRiskPolicy(settings: Settings): RiskPolicy {
+  const get = (key: string) => settings?.find((s) => s.settingKey === key)?.settingValue?.trim() ?? '';
+  const num = (key: string, fallback: number) => {
+    const n = parseFloat(get(key));
+    return Number.isFinite(n) && n >= 0 ? n : fallback;
+  };
+  const weights = { ...DEFAULT_RISK_POLICY.weights };
+  for (const factor of RISK_FACTORS) weights[factor] = num(`${RISK_WEIGHT_KEY_PREFIX}${factor}`, weights[factor]);
+  const mediumThreshold = num(RISK_MEDIUM_THRESHOLD_KEY, DEFAULT_RISK_POLICY.mediumThreshold);
+  return {
+    weights,
+    mediumThreshold,
+    highThreshold: Math.max(mediumThreshold, num(RISK_HIGH_THRESHOLD_KEY, DEFAULT_RISK_POLICY.highThreshold)),
+    convictionLookbackMonths: num(RISK_LOOKBACK_MONTHS_KEY, DEFAULT_RISK_POLICY.convictionLookbackMonths),
+    fullInspectionForHighRisk: get(RISK_FULL_INSPECTION_KEY) === 'true',
+  };
+}
+
+// ── Evidence ──────────────────────────────────────────────────────────────────
+
+const UNPAID_EXCLUDED_STATUSES = ['paid', 'void', 'voided', 'cancelled'];
+
+/** What a vehicle's evidence is counted from (the same lookups the queue pre-screen makes, plus convictions and invoices). */
+export interface VehicleRiskLookups {
+  convictions: ConvictionRecordDto[];
+  tags: VehicleTagDto[];
+  invoices: InvoiceDto[];
+  yardEntries: YardEntryDto[];
+  permits: Permit[];
+}
+
+export function deriveVehicleRiskEvidence(
+  lookups: VehicleRiskLookups,
+  options: { stationId?: string; convictionLookbackMonths: number; now?: Date },
+): RiskEvidenceDto {
+  const since = new Date(options.now ?? new Date());
+  since.setMonth(since.getMonth() - options.convictionLookbackMonths);
+  const convictions = lookups.convictions.filter((c) => new Date(c.convictionDate) >= since);
+  const unpaid = lookups.invoices.filter(
+    (i) => i.balanceRemaining > 0 && !i.voidedAt && !UNPAID_EXCLUDED_STATUSES.includes(i.status.toLowerCase()),
+  );
+  const unpaidBalances: Record<string, number> = {};
+  for (const i of unpaid) unpaidBalances[i.currency] = (unpaidBalances[i.currency] ?? 0) + i.balanceRemaining;
+
+  return {
+    convictions: convictions.length,
+    lastConvictionDate: convictions.map((c) => c.convictionDate).sort().at(-1),
+    openTags: lookups.tags.filter((t) => t.status === 'open').length,
+    unpaidInvoices: unpaid.length,
+    unpaidBalances,
+    yardEscapes: lookups.yardEntries.filter(
+      (y) => y.status !== 'released' && !y.releasedAt && y.stationId !== options.stationId,
+    ).length,
+    revokedPermits: lookups.permits.filter((p) => p.status === 'revoked').length,
+  };
+}
+
+// ── Score ─────────────────────────────────────────────────────────────────────
+
+export interface RiskFactorScore {
+  factor: RiskFactor;
+  label: string;
+  count: number;
+  points: number;
+  detail?: string;
+}
+
+export interface RiskScore {
+  /** 0–100. */
+  score: number;
+  band: RiskBand;
+  /** Contributing factors only, largest first. */
+  factors: RiskFactorScore[];
+}
+
+const FACTOR_COUNTS: Record<RiskFactor, (e: RiskEvidenceDto) => number> = {
+  convictions: (e) => e.convictions,
+  tags: (e) => e.openTags,
+  invoices: (e) => e.unpaidInvoices,
+  escapes: (e) => e.yardEscapes,
+  permits: (e) => e.revokedPermits,
+};
+
+function factorDetail(factor: RiskFactor, e: RiskEvidenceDto): string | undefined {
+  if (factor === 'convictions' && e.lastConvictionDate) {
+    return `last ${new Date(e.lastConvictionDate).toLocaleDateString('en-KE')}`;
+  }
+  if (factor === 'invoices' && e.unpaidBalances) {
+    const owed = Object.entries(e.unpaidBalances).filter(([, amount]) => amount > 0);
+    if (owed.length) return owed.map(([currency, amount]) => `${currency} ${amount.toLocaleString('en-KE')}`).join(' + ') + ' outstanding';
+  }
+  return undefined;
+}
+
+export function scoreRisk(evidence: RiskEvidenceDto, policy: RiskPolicy): RiskScore {
+  const factors = RISK_FACTORS
+    .map((factor): RiskFactorScore => {
+      const count = FACTOR_COUNTS[factor](evidence);
+      return { factor, label: RISK_FACTOR_LABELS[factor], count, points: count * policy.weights[factor], detail: factorDetail(factor, evidence) };
+    })
+    .filter((f) => f.count > 0)
+    .sort((a, b) => b.points - a.points);
+  const score = Math.min(100, Math.round(factors.reduce((sum, f) => sum + f.points, 0)));
+  const band: RiskBand = score >= policy.highThreshold ? 'high' : score >= policy.mediumThreshold ? 'medium' : 'low';
+  return { score, band, factors };
+}
+
+/** Whether this vehicle must have a full inspection before it's weighed. */
+export const requiresFullInspection = (vehicle: RiskScore | undefined, policy: RiskPolicy) =>
+  policy.fullInspectionForHighRisk && vehicle?.band === 'high';
@@ -0,0 +1,251 @@
+/**
+ * Tare policies for commercial weighing.
+ *
+ * A stored tare saves a second pass over the scale, but only while it still describes the empty
+ * vehicle. The organisation's policy decides when it doesn't:
+ *
+ * - maximum age      — `defaultTareExpiryDays` (a vehicle's own `tareExpiryDays` overrides it);
+ * - re-tare interval — per vehicle type, how often the vehicle must be weighed empty again;
+ *                      a stored tare older than the interval is expired too;
+ * - variance         — a tare more than `tareMaxVariancePct` away from the rolling median of the
+ *                      vehicle's other recent tares is anomalous (wrong vehicle, load left on,
+ *                      fuel/body change) and may not be reused until it's re-measured.
+ *
+ * `suggestStoredTare` ranks the vehicle's candidates (current stored tare, tare history, preset)
+ * and returns the newest one the policy allows. A preset was never measured, so under an age or
+ * re-tare limit it expires with the last usable measured tare; with no measured tare at all it
+ * ages from when it was set, and one with no known date isn't usable.
+ */
+
+import type { OrganizationDto } from '@/types/setup';
+
+const DAY_MS = 86_400_000;
+
+export const DEFAULT_TARE_MEDIAN_WINDOW = 5;
+/** Fewer other tares than this and the median isn't trusted for the variance check. */
+const MIN_MEDIAN_SAMPLES = 3;
+/** Tares that expire within this many days are flagged as expiring. */
+export const TARE_EXPIRY_WARNING_DAYS = 7;
+
+export interface TarePolicy {
+  /** Org-wide maximum tare age in days; null = no age limit. */
+  maxAgeDays: number | null;
+  /** Largest allowed deviation from the rolling median, in %; null = not checked. */
+  maxVariancePct: number | null;
+  /** How many of the vehicle's most recent other tares form the median. */
+  medianWindow: number;
+  /** Required re-tare interval in days, keyed by vehicle type (case-insensitive). */
+  reTareIntervals: Record<string, number>;
+}
+
+/** The organisation fields the tare policy is read from. */
+export type TarePolicySettings = Pick<
+  OrganizationDto,
+  'defaultTareExpiryDays' | 'tareMaxVariancePct' | 'tareMedianWindow' | 'tareReTareIntervals'
+>;
+
+export function resolveTarePolicy(org?: TarePolicySettings | null): TarePolicy {
+  return {
+    maxAgeDays: org?.defaultTareExpiryDays ? org.defaultTareExpiryDays : null,
+    maxVariancePct: org?.tareMaxVariancePct ?? null,
+    medianWindow: org?.tareMedianWindow || DEFAULT_TARE_MEDIAN_WINDOW,
+    reTareIntervals: org?.tareReTareIntervals ?? {},
+  };
+}
+
+export function getReTareIntervalDays(vehicleType: string | undefined, policy: TarePolicy): number | null {
+  if (!vehicleType) return null;
+  const key = vehicleType.trim().toLowerCase();
+  const match = Object.entries(policy.reTareIntervals).find(([type]) => type.trim().toLowerCase() === key);
+  return match && match[1] > 0 ? match[1] : null;
+}
+
+/** The tightest of the vehicle's own expiry, the org maximum age and the type's re-tare interval. */
+export function getTareValidityDays(
+  vehicle: { tareExpiryDays?: number; vehicleType?: string },
+  policy: TarePolicy,
+): number | null {
+  const limits = [
+    vehicle.tareExpiryDays ? vehicle.tareExpiryDays : policy.maxAgeDays,
+    getReTareIntervalDays(vehicle.vehicleType, policy),
+  ].filter((d): d is number => d != null && d > 0);
+  return limits.length ? Math.min(...limits) : null;
+}
+
+// ── Candidate evaluation ─────────────────────────────────────────────────────
+
+export type TareCandidateSource = 'stored' | 'history' | 'preset';
+export type TareCandidateStatus = 'valid' | 'expiring' | 'expired' | 'anomalous';
+
+export interface TareCandidate {
+  /** History entry id; 'stored' / 'preset' for the vehicle fields. */
+  id: string;
+  source: TareCandidateSource;
+  tareWeightKg: number;
+  /** When it was measured; presets have no date. */
+  weighedAt?: string;
+  /** Presets only: when it was set (or the vehicle record last updated). */
+  setAt?: string;
+  stationName?: string;
+}
+
+export interface TareEvaluation extends TareCandidate {
+  status: TareCandidateStatus;
+  /** Allowed for reuse (valid or expiring). */
+  usable: boolean;
+  ageDays: number | null;
+  /** Days until expiry (negative once expired); null when the policy sets no limit. */
+  expiresInDays: number | null;
+  medianKg: number | null;
+  variancePct: number | null;
+  reason: string | null;
+}
+
+export interface TareHistoryLike {
+  id: string;
+  tareWeightKg: number;
+  weighedAt: string;
+  stationName?: string;
+}
+
+export interface VehicleTareFields {
+  vehicleType?: string;
+  lastTareWeightKg?: number;
+  lastTareWeighedAt?: string;
+  defaultTareWeightKg?: number;
+  defaultTareSetAt?: string;
+  updatedAt?: string;
+  tareExpiryDays?: number;
+}
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** The vehicle's tare candidates, newest first; the stored tare is dropped when history has it. */
+export function collectTareCandidates(vehicle: VehicleTareFields, history: TareHistoryLike[]): TareCandidate[] {
+  const fromHistory: TareCandidate[] = history.map((h) => ({
+    id: h.id,
+    source: 'history',
+    tareWeightKg: h.tareWeightKg,
+    weighedAt: h.weighedAt,
+    stationName: h.stationName,
+  }));
+  const candidates = [...fromHistory];
+  if (vehicle.lastTareWeightKg && vehicle.lastTareWeightKg > 0) {
+    const duplicate = fromHistory.some(
+      (h) => h.tareWeightKg === vehicle.lastTareWeightKg && h.weighedAt === vehicle.lastTareWeighedAt,
+    );
+    if (!duplicate) {
+      candidates.push({
+        id: 'stored',
+        source: 'stored',
+        tareWeightKg: vehicle.lastTareWeightKg,
+        weighedAt: vehicle.lastTareWeighedAt,
+      });
+    }
+  }
+  if (vehicle.defaultTareWeightKg && vehicle.defaultTareWeightKg > 0) {
+    candidates.push({
+      id: 'preset',
+      source: 'preset',
+      tareWeightKg: vehicle.defaultTareWeightKg,
+      setAt: vehicle.defaultTareSetAt ?? vehicle.updatedAt,
+    });
+  }
+  return candidates.sort((a, b) => (b.weighedAt ? Date.parse(b.weighedAt) : 0) - (a.weighedAt ? Date.parse(a.weighedAt) : 0));
+}
+
+export function evaluateTareCandidates(
+  vehicle: VehicleTareFields,
+  history: TareHistoryLike[],
+  policy: TarePolicy,
+  now: number = Date.now(),
+): TareEvaluation[] {
+  const candidates = collectTareCandidates(vehicle, history);
+  const validityDays = getTareValidityDays(vehicle, policy);
+  const measured = [...history].sort((a, b) => Date.parse(b.weighedAt) - Date.parse(a.weighedAt));
+
+  const evaluations = candidates.map((c): TareEvaluation => {
+    const datedAt = c.weighedAt ?? c.setAt;
+    const ageDays = datedAt ? Math.floor((now - Date.parse(datedAt)) / DAY_MS) : null;
+    const expiresInDays = ageDays != null && validityDays != null ? validityDays - ageDays : null;
+
+    // Median of the vehicle's most recent other measured tares.
+    const others = measured.filter((h) => h.id !== c.id).slice(0, policy.medianWindow).map((h) => h.tareWeightKg);
+    const medianKg = others.length >= MIN_MEDIAN_SAMPLES ? median(others) : null;
+    const variancePct = medianKg ? ((c.tareWeightKg - medianKg) / medianKg) * 100 : null;
+
+    const base = { ...c, ageDays, expiresInDays, medianKg, variancePct };
+    if (policy.maxVariancePct != null && variancePct != null && Math.abs(variancePct) > policy.maxVariancePct) {
+      return {
+        ...base,
+        status: 'anomalous' as const,
+        usable: false,
+        reason: `${variancePct > 0 ? '+' : ''}${variancePct.toFixed(1)}% from the median of ${Math.round(medianKg!).toLocaleString()} kg (limit ±${policy.maxVariancePct}%)`,
+      };
+    }
+    if (expiresInDays != null && expiresInDays < 0) {
+      const verb = c.source === 'preset' ? 'Set' : 'Measured';
+      return { ...base, status: 'expired' as const, usable: false, reason: `${verb} ${ageDays} days ago (limit ${validityDays} days)` };
+    }
+    if (expiresInDays != null && expiresInDays <= TARE_EXPIRY_WARNING_DAYS) {
+      return { ...base, status: 'expiring' as const, usable: true, reason: `Expires in ${expiresInDays} day${expiresInDays === 1 ? '' : 's'}` };
+    }
+    return { ...base, status: 'valid' as const, usable: true, reason: null };
+  });
+
+  // Under an age or re-tare limit a preset only stands in until the vehicle's measured tares run
+  // out — after that it would dodge the re-tare for good. Never measured, it ages from when it was
+  // set (above), and one with no date can't be aged at all.
+  const measuredEvals = evaluations.filter((e) => e.source !== 'preset');
+  if (validityDays == null || measuredEvals.some((e) => e.usable)) return evaluations;
+  const reason = measuredEvals.length > 0
+    ? 'Every measured tare has expired or is anomalous — re-tare the vehicle'
+    : 'The preset has no date to age from — re-tare the vehicle';
+  return evaluations.map((e) =>
+    e.source === 'preset' && e.usable && (measuredEvals.length > 0 || e.ageDays == null)
+      ? { ...e, status: 'expired' as const, usable: false, reason }
+      : e,
+  );
+}
+
+/** Newest usable measured tare; a preset only when it's still usable and no measured tare is. */
+export function suggestStoredTare(evaluations: TareEvaluation[]): TareEvaluation | null {
+  const usable = evaluations.filter((e) => e.usable);
+  return usable.find((e) => e.source !== 'preset') ?? usable[0] ?? null;
+}
+
+// ── Re-tare schedule ─────────────────────────────────────────────────────────
+
+export interface ReTareStatus {
+  /** Days allowed between tares for this vehicle; null = no requirement. */
+  intervalDays: number | null;
+  dueAt: string | null;
+  /** Negative when overdue. */
+  daysLeft: number | null;
+  status: 'no-tare' | 'overdue' | 'due-soon' | 'ok' | 'not-required';
+}
+
+export function getReTareStatus(
+  vehicle: VehicleTareFields,
+  policy: TarePolicy,
+  now: number = Date.now(),
+): ReTareStatus {
+  const intervalDays = getTareValidityDays(vehicle, policy);
+  if (!vehicle.lastTareWeighedAt) {
+    return { intervalDays, dueAt: null, daysLeft: null, status: 'no-tare' };
+  }
+  if (intervalDays == null) return { intervalDays, dueAt: null, daysLeft: null, status: 'not-required' };
+  const dueMs = Date.parse(vehicle.lastTareWeighedAt) + intervalDays * DAY_MS;
+  const daysLeft = Math.ceil((dueMs - now) / DAY_MS);
+  return {
+    intervalDays,
+    dueAt: new Date(dueMs).toISOString(),
+    daysLeft,
+    status: daysLeft <= 0 ? 'overdue' : daysLeft <= TARE_EXPIRY_WARNING_DAYS ? 'due-soon' : 'ok',
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * ANPR evidence: when a read needs a plate review, the per-station threshold, and the integrity
+ * summary of an evidence pack manifest.
+ */
+import {
+  buildEvidenceManifest,
+  DEFAULT_MIN_CONFIDENCE,
+  needsPlateReview,
+  resolveMinConfidence,
+} from '../anprEvidence';
+
+describe('needsPlateReview', () => {
+  it('flags reads below the threshold and reads without a confidence', () => {
+    expect(needsPlateReview(0.7, 0.85)).toBe(true);
+    expect(needsPlateReview(0.9, 0.85)).toBe(false);
+    expect(needsPlateReview(undefined, 0.85)).toBe(true);
+  });
+
+  it('accepts every read when the threshold is 0', () => {
+    expect(needsPlateReview(undefined, 0)).toBe(false);
+    expect(needsPlateReview(0.1, 0)).toBe(false);
+  });
+});
+
+describe('resolveMinConfidence', () => {
+  it('prefers the station override, then the org default, then the built-in', () => {
+    const entries = [
+      { key: 'Anpr.MinConfidence', value: '0.9' },
+      { key: 'Anpr.KURA01.MinConfidence', value: '0.6' },
+      { key: 'Anpr.BAD01.MinConfidence', value: '85' },
+    ];
+    expect(resolveMinConfidence(entries, 'KURA01')).toBe(0.6);
+    expect(resolveMinConfidence(entries, 'OTHER')).toBe(0.9);
+    expect(resolveMinConfidence(entries, 'BAD01')).toBe(0.9); // out of range, ignored
+    expect(resolveMinConfidence(undefined, 'KURA01')).toBe(DEFAULT_MIN_CONFIDENCE);
+  });
+});
+
+describe('buildEvidenceManifest', () => {
+  it('checks each frame against its capture hash and counts corrections', () => {
+    const manifest = buildEvidenceManifest({
+      transactionId: 'tx-1',
+      evidence: [
+        { id: 'b', kind: 'overview', capturedAt: '2026-01-01T08:00:02Z', recordedSha256: 'aa', actualSha256: 'bb' },
+        { id: 'a', kind: 'anpr', capturedAt: '2026-01-01T08:00:01Z', recordedSha256: 'cc', actualSha256: 'cc' },
+        { id: 'c', kind: 'front', capturedAt: '2026-01-01T08:00:03Z', recordedSha256: 'dd' },
+      ],
+      plateReviews: [
+        { readPlate: 'KCA123A', finalPlate: 'KCA128A', action: 'corrected', reviewedAt: '2026-01-01T08:00:05Z' },
+      ],
+      generatedAt: new Date('2026-01-02T00:00:00Z'),
+    });
+
+    expect(manifest.evidence.map((e) => [e.id, e.integrity])).toEqual([
+      ['a', 'verified'],
+      ['b', 'mismatch'],
+      ['c', 'missing'],
+    ]);
+    expect(manifest.summary).toEqual({ frames: 3, verified: 1, mismatched: 1, missing: 1, corrections: 1 });
+    expect(manifest.generatedAt).toBe('2026-01-02T00:00:00.000Z');
+  });
+});
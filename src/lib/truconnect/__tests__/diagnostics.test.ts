@@ -0,0 +1,130 @@
+/**
+ * @jest-environment node
+ *
+ * Deck diagnostics: zero drift on an empty platform, imbalance and negative readings under load,
+ * stuck decks, and the signed bundle. Runs under node for WebCrypto's ECDSA.
+ */
+import {
+  analyzeDeckDiagnostics,
+  DEFAULT_DIAGNOSTIC_THRESHOLDS,
+  DIAGNOSTIC_BUNDLE_FORMAT,
+  formatFingerprint,
+  generateSigningKey,
+  publicKeyFingerprint,
+  signDiagnosticBundle,
+  toDiagnosticSample,
+  verifyDiagnosticBundle,
+  type DeckDiagnosticSample,
+  type DiagnosticBundlePayload,
+} from '../diagnostics';
+
+function frame(t: number, decks: number[], stable = true, connected = true): DeckDiagnosticSample {
+  return {
+    t,
+    gvw: decks.reduce((a, b) => a + b, 0),
+    stable,
+    decks: decks.map((weight, i) => ({ index: i + 1, weight, stable })),
+    connection: { connected },
+  };
+}
+
+describe('toDiagnosticSample', () => {
+  it('reads the deck array, falls back to the flat fields and skips mobile frames', () => {
+    expect(toDiagnosticSample({ mode: 'multideck', deck1: 10, deck2: 20, stable: true, gvw: 30 }, 5)).toMatchObject({
+      t: 5,
+      gvw: 30,
+      decks: [{ index: 1, weight: 10 }, { index: 2, weight: 20 }, { index: 3, weight: 0 }, { index: 4, weight: 0 }],
+    });
+    expect(toDiagnosticSample({ mode: 'mobile', weight: 100, gvw: 100, stable: true })).toBeNull();
+  });
+});
+
+describe('analyzeDeckDiagnostics', () => {
+  it('is quiet for a healthy empty platform', () => {
+    const samples = Array.from({ length: 20 }, (_, i) => frame(i * 100, [0, 5, -5, 0]));
+    const report = analyzeDeckDiagnostics(samples);
+    expect(report.findings).toEqual([]);
+    expect(report.decks[1]).toMatchObject({ deck: 2, emptyMean: 5, stableShare: 1 });
+  });
+
+  it('flags a deck that does not return to zero, and one whose zero moves', () => {
+    const samples = Array.from({ length: 30 }, (_, i) => frame(i * 100, [0, 45, i < 10 ? 0 : 30, 0]));
+    const findings = analyzeDeckDiagnostics(samples).findings.filter((f) => f.kind === 'zero-drift');
+    expect(findings.map((f) => f.deck)).toEqual([2, 3]);
+    expect(findings[0].message).toMatch(/Deck 2 reads 45 kg/);
+    expect(findings[1].message).toMatch(/moved \+30 kg/);
+  });
+
+  it('flags imbalance under an even load and negative readings as faults', () => {
+    const samples = Array.from({ length: 10 }, (_, i) => frame(i * 100, [9000, 9000, 2500, 9000]));
+    samples.push(frame(2000, [9000, -300, 9000, 9000]));
+    const findings = analyzeDeckDiagnostics(samples).findings;
+    expect(findings[0]).toMatchObject({ kind: 'imbalance', deck: 2, severity: 'fault' });
+    expect(findings).toContainEqual(expect.objectContaining({ kind: 'imbalance', deck: 3, severity: 'warning' }));
+  });
+
+  it('flags a deck holding one value while the others move', () => {
+    const samples = Array.from({ length: 15 }, (_, i) => frame(i * 1000, [4000 + i * 100, 6120, 3000 + (i % 3) * 10, 0], false));
+    const stuck = analyzeDeckDiagnostics(samples).findings.filter((f) => f.kind === 'stuck');
+    expect(stuck).toHaveLength(1);
+    expect(stuck[0]).toMatchObject({ deck: 2, samples: 15 });
+  });
+
+  it('reports indicator dropouts', () => {
+    const samples = [frame(0, [0, 0, 0, 0]), frame(100, [0, 0, 0, 0], true, false)];
+    expect(analyzeDeckDiagnostics(samples).findings).toContainEqual(
+      expect.objectContaining({ kind: 'connection', deck: null, severity: 'fault' })
+    );
+  });
+});
+
+describe('signed bundle', () => {
+  it('verifies untouched and rejects edited samples', async () => {
+    const samples = [frame(0, [0, 0, 0, 0]), frame(100, [10, 0, 0, 0])];
+    const bundle = await signDiagnosticBundle(
+      {
+        format: DIAGNOSTIC_BUNDLE_FORMAT,
+        generatedAt: '2026-10-19T08:00:00.000Z',
+        session: { id: 's-1', stationCode: 'MRK', startedAt: '2026-10-19T07:55:00.000Z' },
+        thresholds: DEFAULT_DIAGNOSTIC_THRESHOLDS,
+        report: analyzeDeckDiagnostics(samples),
+        samples,
+      },
+      await generateSigningKey()
+    );
+    expect(bundle.signature.payloadSha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyDiagnosticBundle(bundle)).toBe(true);
+
+    const edited = JSON.parse(JSON.stringify(bundle));
+    edited.payload.samples[1].decks[0].weight = 0;
+    expect(await verifyDiagnosticBundle(edited)).toBe(false);
+  });
+
+  it('rejects a bundle re-signed with another key once the device fingerprint is pinned', async () => {
+    const samples = [frame(0, [0, 0, 0, 0]), frame(100, [10, 0, 0, 0])];
+    const payload: DiagnosticBundlePayload = {
+      format: DIAGNOSTIC_BUNDLE_FORMAT,
+      generatedAt: '2026-10-19T08:00:00.000Z',
+      session: { id: 's-1', stationCode: 'MRK', startedAt: '2026-10-19T07:55:00.000Z' },
+      thresholds: DEFAULT_DIAGNOSTIC_THRESHOLDS,
+      report: analyzeDeckDiagnostics(samples),
+      samples,
+    };
+    const deviceKey = await generateSigningKey();
+    const pinned = formatFingerprint(await publicKeyFingerprint(deviceKey.publicKey));
+    const genuine = await signDiagnosticBundle(payload, deviceKey);
+    expect(genuine.signature.keyFingerprint).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyDiagnosticBundle(genuine, pinned)).toBe(true);
+
+    const forged = await signDiagnosticBundle(
+      { ...payload, samples: [samples[0], frame(100, [0, 0, 0, 0])] },
+      await generateSigningKey()
+    );
+    expect(await verifyDiagnosticBundle(forged)).toBe(true);
+    expect(await verifyDiagnosticBundle(forged, pinned)).toBe(false);
+
+    // Swapping in the device's public key without its private key doesn't pass either.
+    const swapped = { ...forged, signature: { ...forged.signature, publicKey: deviceKey.publicKey, keyFingerprint: genuine.signature.keyFingerprint } };
+    expect(await verifyDiagnosticBundle(swapped, pinned)).toBe(false);
+  });
+});
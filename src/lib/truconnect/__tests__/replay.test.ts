@@ -0,0 +1,121 @@
+/**
+ * Replay transport tests: recording parse/serialise round-trip, original timing (scaled by
+ * speed), TruConnect-style acknowledgements, seeded (reproducible) noise, and the replay config
+ * being ignored in production builds.
+ */
+import {
+  createReplayTransport,
+  parseRecording,
+  perturbWeights,
+  serializeRecording,
+  type MiddlewareMessage,
+  type WeightPayload,
+} from '../replay';
+import { buildMobileScenario, buildMultideckScenario, REPLAY_CONFIG_KEY, resolveReplayTransport } from '../scenarios';
+
+describe('recording format', () => {
+  it('round-trips frames through JSONL and skips blanks/comments', () => {
+    const frames = [
+      { t: 0, event: 'weights', data: { weight: 100 } },
+      { t: 250, event: 'scale-status', data: { connected: true } },
+    ];
+    const text = `# captured at KURA-HQ\n${serializeRecording(frames)}\n`;
+    expect(parseRecording(text)).toEqual(frames);
+  });
+
+  it('derives t from ISO timestamps in raw TruConnect captures', () => {
+    const text = [
+      '{"event":"weights","data":{},"timestamp":"2026-01-01T00:00:01.000Z"}',
+      '{"event":"weights","data":{},"timestamp":"2026-01-01T00:00:01.400Z"}',
+    ].join('\n');
+    expect(parseRecording(text).map((f) => f.t)).toEqual([0, 400]);
+  });
+
+  it('rejects a line without an event', () => {
+    expect(() => parseRecording('{"t":0}')).toThrow(/line 1/);
+  });
+});
+
+describe('replay transport', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('plays frames with their recorded spacing, scaled by speed', () => {
+    const received: MiddlewareMessage[] = [];
+    const transport = createReplayTransport(
+      [
+        { t: 0, event: 'weights', data: { weight: 1 } },
+        { t: 1000, event: 'weights', data: { weight: 2 } },
+      ],
+      { speed: 2 },
+    );
+    transport.start((m) => received.push(m));
+    expect(received.map((m) => m.event)).toEqual(['connected']);
+
+    jest.advanceTimersByTime(0);
+    expect(received).toHaveLength(2);
+    jest.advanceTimersByTime(499);
+    expect(received).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect((received[2].data as { weight: number }).weight).toBe(2);
+    transport.stop();
+  });
+
+  it('acknowledges client events the way TruConnect does and records them', () => {
+    const received: MiddlewareMessage[] = [];
+    const transport = createReplayTransport([]);
+    transport.start((m) => received.push(m));
+    transport.send('plate', { plateNumber: 'KAA123A' });
+    transport.send('vehicle-complete', { gvw: 100 });
+    expect(received.slice(1).map((m) => m.event)).toEqual(['plate-ack', 'vehicle-complete-ack']);
+    expect(transport.sent.map((s) => s.event)).toEqual(['plate', 'vehicle-complete']);
+  });
+});
+
+describe('noise and instability', () => {
+  const seeded = (seed: number) => {
+    let a = seed;
+    return () => ((a = (a * 16807) % 2147483647) / 2147483647);
+  };
+
+  it('is reproducible for the same seed and leaves empty decks at zero', () => {
+    const frame = buildMultideckScenario({ deckWeightsKg: [7000, 0] }).at(-41)!.data as WeightPayload;
+    const a = perturbWeights(frame, seeded(7), { noiseKg: 50 });
+    const b = perturbWeights(frame, seeded(7), { noiseKg: 50 });
+    expect(a).toEqual(b);
+    const decks = a.decks ?? [];
+    expect(decks).toHaveLength(4);
+    expect(decks[1].weight).toBe(0);
+    expect(Math.abs(decks[0].weight - 7000)).toBeLessThanOrEqual(50);
+  });
+
+  it('marks shaken frames unstable and keeps the mobile running total consistent', () => {
+    const frame = buildMobileScenario({ axleWeightsKg: [6000, 8000] })
+      .map((f) => f.data as { weight: number; gvw: number; stable: boolean; axleNumber: number })
+      .find((d) => d.axleNumber === 2 && d.stable && d.weight === 8000)!;
+    const out = perturbWeights(frame, () => 0.01, { noiseKg: 20, instability: 1 });
+    expect(out.stable).toBe(false);
+    expect(out.gvw - out.weight).toBe(6000);
+  });
+});
+
+describe('replay config', () => {
+  const env = process.env as Record<string, string | undefined>;
+  const nodeEnv = env.NODE_ENV;
+
+  afterEach(() => {
+    env.NODE_ENV = nodeEnv;
+    window.localStorage.removeItem(REPLAY_CONFIG_KEY);
+  });
+
+  it('selects the configured scenario outside production', () => {
+    window.localStorage.setItem(REPLAY_CONFIG_KEY, 'mobile-2a');
+    expect(resolveReplayTransport()?.label).toBe('replay:mobile-2a');
+  });
+
+  it('never replaces the live scale in a production build', () => {
+    window.localStorage.setItem(REPLAY_CONFIG_KEY, 'mobile-2a');
+    env.NODE_ENV = 'production';
+    expect(resolveReplayTransport()).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Stability engine: spread over the sliding window, dwell before settling, and per-station
+ * settings resolution.
+ */
+import { createStabilityDetector, resolveStabilityConfig } from '../stability';
+
+const config = { windowMs: 1000, maxDeviationKg: 20, minDwellMs: 2000 };
+
+function feed(readings: number[], stepMs = 100) {
+  const d = createStabilityDetector(config);
+  return readings.map((kg, i) => d.push(kg, i * stepMs));
+}
+
+describe('createStabilityDetector', () => {
+  it('settles only after the reading stays within tolerance for the dwell time', () => {
+    const states = feed(Array(25).fill(8000));
+    expect(states[19].settled).toBe(false); // 1900 ms still
+    expect(states[19].progress).toBeCloseTo(0.95);
+    expect(states[20].settled).toBe(true);
+  });
+
+  it('restarts the dwell when the reading swings beyond the max deviation', () => {
+    const readings = [...Array(15).fill(8000), 8050, ...Array(30).fill(8000)];
+    const states = feed(readings);
+    expect(states[15].dwellMs).toBe(0);
+    // The 8050 spike stays in the 1 s window, so calm resumes only once it has aged out.
+    expect(states[25].dwellMs).toBe(0);
+    expect(states[26].dwellMs).toBe(0);
+    expect(states[27].dwellMs).toBe(100);
+    expect(states[45].settled).toBe(false);
+  });
+
+  it('tolerates jitter within the max deviation and never settles an empty scale', () => {
+    const jitter = feed(Array.from({ length: 25 }, (_, i) => 8000 + (i % 2 ? 10 : -10)));
+    expect(jitter[24].settled).toBe(true);
+    expect(jitter[24].deviationKg).toBe(20);
+    expect(feed(Array(40).fill(0))[39].settled).toBe(false);
+  });
+});
+
+describe('resolveStabilityConfig', () => {
+  it('prefers the station override, then the org default, then built-ins', () => {
+    const entries = [
+      { key: 'Stability.MaxDeviationKg', value: '30' },
+      { key: 'Stability.MinDwellMs', value: '1500' },
+      { key: 'Stability.KURA01.MaxDeviationKg', value: '10' },
+    ];
+    expect(resolveStabilityConfig(entries, 'KURA01')).toEqual({ windowMs: 1500, maxDeviationKg: 10, minDwellMs: 1500 });
+    expect(resolveStabilityConfig(entries, 'OTHER').maxDeviationKg).toBe(30);
+    expect(resolveStabilityConfig(undefined).minDwellMs).toBe(2000);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Traffic-control sequencing: the signals sent as a truck approaches and positions on the decks,
+ * expected decks from the station layout, and per-station settings resolution.
+ */
+import {
+  DEFAULT_TRAFFIC_LAYOUT,
+  expectedDeckCount,
+  INITIAL_TRAFFIC_STATE,
+  nextTrafficStep,
+  resolveTrafficLayout,
+  type TrafficLayout,
+  type TrafficSignal,
+} from '../trafficControl';
+
+// 24 m over four 6 m decks: all four decks expected.
+const layout: TrafficLayout = { ...DEFAULT_TRAFFIC_LAYOUT, vehicleLengthM: 24, settleMs: 1000 };
+const occ = (pattern: string) => pattern.split('').map((c) => c === '1');
+
+/** Runs frames of [occupancy, at ms, armed?] through the machine and collects the signals. */
+function run(frames: [string, number, boolean?][]) {
+  let state = INITIAL_TRAFFIC_STATE;
+  const signals: TrafficSignal[] = [];
+  for (const [pattern, at, armed = true] of frames) {
+    const step = nextTrafficStep(state, { occupied: occ(pattern), armed, at }, layout);
+    state = step.state;
+    if (step.signal) signals.push(step.signal);
+  }
+  return { signals, phase: state.phase };
+}
+
+describe('nextTrafficStep', () => {
+  it('sends ENTER once for a clear scale and STOP as soon as the expected decks are loaded', () => {
+    const { signals, phase } = run([
+      ['0000', 0, false],
+      ['0000', 100],
+      ['0000', 200],
+      ['1000', 300],
+      ['1100', 400],
+      ['1110', 500],
+      ['1111', 600],
+      ['1111', 700],
+    ]);
+    expect(signals).toEqual(['enter', 'stop']);
+    expect(phase).toBe('positioned');
+  });
+
+  it('corrects a truck that settles short or past the exit deck, but not while it is rolling', () => {
+    const short = run([['0000', 0], ['1100', 100], ['1110', 600], ['1110', 1500], ['1110', 1700]]);
+    expect(short.signals).toEqual(['enter', 'move-forward']);
+
+    const long = run([['0000', 0], ['0111', 100], ['0111', 1200], ['0111', 1300], ['1111', 1400]]);
+    expect(long.signals).toEqual(['enter', 'move-back', 'stop']);
+  });
+
+  it('waits for the next vehicle after the weighed one drives off', () => {
+    const { signals, phase } = run([
+      ['0000', 0],
+      ['1111', 100],
+      ['0000', 200],
+      ['0000', 300],
+      ['0000', 400, false],
+      ['0000', 500],
+    ]);
+    expect(signals).toEqual(['enter', 'stop', 'enter']);
+    expect(phase).toBe('entering');
+  });
+});
+
+describe('expectedDeckCount', () => {
+  it('is limited by vehicle length, axle count and the decks on the platform', () => {
+    expect(expectedDeckCount(DEFAULT_TRAFFIC_LAYOUT)).toBe(3); // 18 m over 6 m decks
+    expect(expectedDeckCount({ ...layout, vehicleLengthM: 9, axleCount: 2 })).toBe(2);
+    expect(expectedDeckCount({ ...layout, vehicleLengthM: 30 })).toBe(4);
+    expect(expectedDeckCount({ ...layout, deckCount: 3 })).toBe(3);
+  });
+});
+
+describe('resolveTrafficLayout', () => {
+  it('prefers the station override, then the org default, then built-ins', () => {
+    const entries = [
+      { key: 'Traffic.DeckCount', value: '3' },
+      { key: 'Traffic.KURA01.VehicleLengthM', value: '12' },
+    ];
+    expect(resolveTrafficLayout(entries, 'KURA01')).toMatchObject({ deckCount: 3, vehicleLengthM: 12, axleCount: 6 });
+    expect(resolveTrafficLayout(entries, 'OTHER').vehicleLengthM).toBe(18);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * ANPR photo evidence.
+ *
+ * Every frame a weighing collects — the ANPR plate crop and overview from TruConnect
+ * `plate-detected` reads, and the front / overview captures — is hashed (SHA-256) the moment it is
+ * stored, and the hash travels with the image. When the frames are bundled with the charge sheet
+ * or special-release certificate the images are hashed again and checked against the capture-time
+ * hash, so an image swapped or edited after capture shows up as a mismatch in the manifest.
+ *
+ * A read below the station's confidence threshold must be reviewed before the weighing moves on;
+ * the review (confirmed as read, or corrected) is kept with the evidence.
+ *
+ * The threshold is per station (Settings → Calibration → ANPR Plate Review), stored in the
+ * `calibration` API settings as `Anpr.<StationCode>.MinConfidence` with an org-wide
+ * `Anpr.MinConfidence` default.
+ */
+import type { KeyValueEntry } from '@/lib/api/setup';
+
+export type EvidenceKind = 'anpr' | 'front' | 'overview';
+
+export const EVIDENCE_KIND_LABELS: Record<EvidenceKind, string> = {
+  anpr: 'ANPR plate',
+  front: 'Front view',
+  overview: 'Overview',
+};
+
+/** Reads below this confidence (0–1) need a plate review when the station sets nothing. */
+export const DEFAULT_MIN_CONFIDENCE = 0.85;
+
+export function normalizePlateText(plate: string): string {
+  return (plate ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/** A read without a confidence is treated as unsure — the camera didn't vouch for it. */
+export function needsPlateReview(confidence: number | undefined, minConfidence: number): boolean {
+  if (minConfidence <= 0) return false;
+  return confidence == null || confidence < minConfidence;
+}
+
+// ── Evidence pack manifest ────────────────────────────────────────────────────
+
+export const EVIDENCE_PACK_FORMAT = 'truload-evidence-pack/1';
+
+/** verified — image hashes to what was recorded at capture; mismatch — it doesn't; missing — no image. */
+export type EvidenceIntegrity = 'verified' | 'mismatch' | 'missing';
+
+export interface EvidenceItemInput {
+  id: string;
+  kind: EvidenceKind;
+  capturedAt: string;
+  capturedBy?: string;
+  plateNumber?: string;
+  confidence?: number;
+  /** Hash recorded when the frame was captured. */
+  recordedSha256?: string;
+  /** Hash of the bytes going into the pack (undefined when the image is gone). */
+  actualSha256?: string;
+  /** File name inside the pack. */
+  file?: string;
+}
+
+export interface PlateReviewInput {
+  readPlate: string;
+  finalPlate: string;
+  confidence?: number;
+  action: 'confirmed' | 'corrected';
+  reason?: string;
+  reviewedBy?: string;
+  reviewedAt: string;
+}
+
+export interface EvidenceManifest {
+  format: typeof EVIDENCE_PACK_FORMAT;
+  generatedAt: string;
+  transactionId: string;
+  document?: { title: string; file: string; sha256: string };
+  evidence: Array<Omit<EvidenceItemInput, 'actualSha256'> & { sha256?: string; integrity: EvidenceIntegrity }>;
+  plateReviews: PlateReviewInput[];
+  summary: { frames: number; verified: number; mismatched: number; missing: number; corrections: number };
+}
+
+export function evidenceIntegrity(recordedSha256: string | undefined, actualSha256: string | undefined): EvidenceIntegrity {
+  if (!actualSha256) return 'missing';
+  return recordedSha256 && recordedSha256 === actualSha256 ? 'verified' : 'mismatch';
+}
+
+export function buildEvidenceManifest(input: {
+  transactionId: string;
+  document?: EvidenceManifest['document'];
+  evidence: EvidenceItemInput[];
+  plateReviews: PlateReviewInput[];
+  generatedAt?: Date;
+}): EvidenceManifest {
+  const evidence = [...input.evidence]
+    .sort((a, b) => a.capturedAt.localeCompare(b.capturedAt))
+    .map(({ actualSha256, ...item }) => ({
+      ...item,
+      sha256: actualSha256,
+      integrity: evidenceIntegrity(item.recordedSha256, actualSha256),
+    }));
+  const count = (i: EvidenceIntegrity) => evidence.filter((e) => e.integrity === i).length;
+  return {
+    format: EVIDENCE_PACK_FORMAT,
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+    transactionId: input.transactionId,
+    document: input.document,
+    evidence,
+    plateReviews: [...input.plateReviews].sort((a, b) => a.reviewedAt.localeCompare(b.reviewedAt)),
+    summary: {
+      frames: evidence.length,
+      verified: count('verified'),
+      mismatched: count('mismatch'),
+      missing: count('missing'),
+      corrections: input.plateReviews.filter((r) => r.action === 'corrected').length,
+    },
+  };
+}
+
+// ── Station settings ──────────────────────────────────────────────────────────
+
+/** Settings key for the review threshold; omit stationCode for the org-wide default. */
+export function anprSettingKey(stationCode?: string): string {
+  return stationCode ? `Anpr.${stationCode}.MinConfidence` : 'Anpr.MinConfidence';
+}
+
+/** Station override → org default → built-in default. Stored as 0–1. */
+export function resolveMinConfidence(entries: KeyValueEntry[] | undefined, stationCode?: string): number {
+  const lookup = (key: string) => {
+    const n = Number(entries?.find((e) => e.key === key)?.value);
+    return Number.isFinite(n) && n >= 0 && n <= 1 ? n : undefined;
+  };
+  return (stationCode ? lookup(anprSettingKey(stationCode)) : undefined)
+    ?? lookup(anprSettingKey())
+    ?? DEFAULT_MIN_CONFIDENCE;
+}
@@ -0,0 +1,432 @@
+/**
+ * Per-deck diagnostics for multideck indicators.
+ *
+ * MultideckWeightsCard only ever shows the latest deck1–deck4 readings, so when a load cell
+ * fails there is nothing to hand the scale vendor. A diagnostics session records every
+ * `WeightData` frame (per-deck weight + stable flag, GVW and the connection metadata) for a
+ * chosen window; this module turns those samples into findings:
+ *
+ * - zero drift   — a deck that should read zero with the platform empty doesn't, or its empty
+ *                  reading moves during the session;
+ * - imbalance    — with every deck loaded and stable, one deck keeps reading far from the others
+ *                  (meaningful for test weights / uniform loads), or reads negative under load;
+ * - stuck        — a deck repeats the exact same non-zero value while the other decks move;
+ * - connection   — frames where the indicator reported itself disconnected.
+ *
+ * The export is a JSON bundle signed with a per-device ECDSA P-256 key (WebCrypto), so the
+ * vendor can check the samples weren't edited after they left the weighbridge. That only holds
+ * against the device key's fingerprint, which the vendor pins from the station rather than
+ * trusting the key inside the bundle.
+ */
+import type { WeightData } from '@/hooks/useMiddleware';
+
+export interface DeckReading {
+  index: number;
+  weight: number;
+  stable: boolean;
+}
+
+export interface DeckDiagnosticSample {
+  /** Epoch ms the frame was received. */
+  t: number;
+  gvw: number;
+  stable: boolean;
+  decks: DeckReading[];
+  vehicleOnDeck?: boolean;
+  simulation?: boolean;
+  connection?: {
+    source?: string;
+    protocol?: string;
+    type?: string;
+    connected?: boolean;
+    outputMode?: string;
+  };
+}
+
+export interface DiagnosticThresholds {
+  /** Platform counts as empty below this GVW, in kg. */
+  emptyGvwKg: number;
+  /** Largest acceptable empty-deck reading (or movement of it), in kg. */
+  zeroToleranceKg: number;
+  /** A deck counts as loaded from this reading, in kg. */
+  loadedDeckKg: number;
+  /** Deviation from the mean of the loaded decks that counts as imbalance, in %. */
+  imbalancePct: number;
+  /** Share (0-1) of fully-loaded stable frames that must be imbalanced before it's reported. */
+  imbalanceShare: number;
+  /** A repeated non-zero value this long is a stuck reading, in ms. */
+  stuckMs: number;
+  /** ...provided another deck moved at least this much meanwhile, in kg. */
+  stuckChangeKg: number;
+}
+
+export const DEFAULT_DIAGNOSTIC_THRESHOLDS: DiagnosticThresholds = {
+  emptyGvwKg: 200,
+  zeroToleranceKg: 20,
+  loadedDeckKg: 1000,
+  imbalancePct: 50,
+  imbalanceShare: 0.5,
+  stuckMs: 10_000,
+  stuckChangeKg: 50,
+};
+
+export type DiagnosticFindingKind = 'zero-drift' | 'imbalance' | 'stuck' | 'connection';
+
+export interface DiagnosticFinding {
+  kind: DiagnosticFindingKind;
+  /** Deck index (1-based), or null for the indicator as a whole. */
+  deck: number | null;
+  severity: 'warning' | 'fault';
+  message: string;
+  /** Epoch ms range the finding covers. */
+  from: number;
+  to: number;
+  /** Frames the finding is based on. */
+  samples: number;
+}
+
+export interface DeckSummary {
+  deck: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** Share (0-1) of frames the deck reported stable. */
+  stableShare: number;
+  /** Mean reading with the platform empty, when there were empty frames. */
+  emptyMean: number | null;
+}
+
+export interface DiagnosticReport {
+  samples: number;
+  from: number | null;
+  to: number | null;
+  decks: DeckSummary[];
+  findings: DiagnosticFinding[];
+}
+
+// ── Sampling ─────────────────────────────────────────────────────────────────
+
+/** One diagnostic sample from a multideck frame (null for mobile frames). */
+export function toDiagnosticSample(weight: WeightData, at: number = Date.now()): DeckDiagnosticSample | null {
+  if (weight.mode !== 'multideck') return null;
+  const decks: DeckReading[] = weight.decks?.length
+    ? weight.decks.map((d) => ({ index: d.index, weight: d.weight, stable: d.stable }))
+    : [weight.deck1, weight.deck2, weight.deck3, weight.deck4].map((w, i) => ({
+        index: i + 1,
+        weight: w ?? 0,
+        stable: weight.stable,
+      }));
+  const c = weight.connection;
+  return {
+    t: at,
+    gvw: weight.gvw ?? decks.reduce((s, d) => s + d.weight, 0),
+    stable: weight.stable,
+    decks,
+    vehicleOnDeck: weight.vehicleOnDeck,
+    simulation: weight.simulation,
+    connection: c
+      ? { source: c.source, protocol: c.protocol, type: c.type, connected: c.connected, outputMode: c.outputMode }
+      : undefined,
+  };
+}
+
+// ── Analysis ─────────────────────────────────────────────────────────────────
+
+const round = (kg: number) => Math.round(kg * 10) / 10;
+
+function isEmptyFrame(s: DeckDiagnosticSample, th: DiagnosticThresholds): boolean {
+  if (s.vehicleOnDeck === true) return false;
+  return s.stable && Math.abs(s.gvw) < th.emptyGvwKg;
+}
+
+function zeroDriftFindings(samples: DeckDiagnosticSample[], deckIds: number[], th: DiagnosticThresholds) {
+  const empty = samples.filter((s) => isEmptyFrame(s, th));
+  const findings: DiagnosticFinding[] = [];
+  const means = new Map<number, number>();
+  if (empty.length === 0) return { findings, means };
+
+  const third = Math.max(1, Math.floor(empty.length / 3));
+  for (const deck of deckIds) {
+    const values = empty.map((s) => s.decks.find((d) => d.index === deck)?.weight ?? 0);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    means.set(deck, mean);
+    const range = { from: empty[0].t, to: empty[empty.length - 1].t, samples: empty.length };
+
+    if (Math.abs(mean) > th.zeroToleranceKg) {
+      findings.push({
+        kind: 'zero-drift',
+        deck,
+        severity: Math.abs(mean) > th.zeroToleranceKg * 3 ? 'fault' : 'warning',
+        message: `Deck ${deck} reads ${round(mean)} kg with the platform empty (tolerance ±${th.zeroToleranceKg} kg)`,
+        ...range,
+      });
+      continue;
+    }
+    if (empty.length >= 6) {
+      const avg = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+      const moved = avg(values.slice(-third)) - avg(values.slice(0, third));
+      if (Math.abs(moved) > th.zeroToleranceKg) {
+        findings.push({
+          kind: 'zero-drift',
+          deck,
+          severity: 'warning',
+          message: `Deck ${deck} empty reading moved ${moved > 0 ? '+' : ''}${round(moved)} kg during the session`,
+          ...range,
+        });
+      }
+    }
+  }
+  return { findings, means };
+}
+
+function imbalanceFindings(samples: DeckDiagnosticSample[], deckIds: number[], th: DiagnosticThresholds) {
+  const findings: DiagnosticFinding[] = [];
+  const loadedFrames = samples.filter((s) => s.stable && s.gvw >= th.emptyGvwKg);
+
+  // A negative reading under load is a wiring/cell fault whatever the load shape.
+  for (const deck of deckIds) {
+    const negative = loadedFrames.filter((s) => (s.decks.find((d) => d.index === deck)?.weight ?? 0) < -th.zeroToleranceKg);
+    if (negative.length) {
+      findings.push({
+        kind: 'imbalance',
+        deck,
+        severity: 'fault',
+        message: `Deck ${deck} read negative under load in ${negative.length} frame(s)`,
+        from: negative[0].t,
+        to: negative[negative.length - 1].t,
+        samples: negative.length,
+      });
+    }
+  }
+
+  const full = loadedFrames.filter((s) => s.decks.length > 1 && s.decks.every((d) => d.weight >= th.loadedDeckKg));
+  if (full.length === 0) return findings;
+  for (const deck of deckIds) {
+    let worst = 0;
+    const hits = full.filter((s) => {
+      const mean = s.decks.reduce((a, d) => a + d.weight, 0) / s.decks.length;
+      const w = s.decks.find((d) => d.index === deck)?.weight ?? 0;
+      const pct = ((w - mean) / mean) * 100;
+      if (Math.abs(pct) > th.imbalancePct) {
+        if (Math.abs(pct) > Math.abs(worst)) worst = pct;
+        return true;
+      }
+      return false;
+    });
+    if (hits.length / full.length >= th.imbalanceShare) {
+      findings.push({
+        kind: 'imbalance',
+        deck,
+        severity: 'warning',
+        message: `Deck ${deck} reads up to ${worst > 0 ? '+' : ''}${Math.round(worst)}% off the other decks under load (${hits.length}/${full.length} frames)`,
+        from: hits[0].t,
+        to: hits[hits.length - 1].t,
+        samples: hits.length,
+      });
+    }
+  }
+  return findings;
+}
+
+function stuckFindings(samples: DeckDiagnosticSample[], deckIds: number[], th: DiagnosticThresholds) {
+  const findings: DiagnosticFinding[] = [];
+  for (const deck of deckIds) {
+    const weightOf = (s: DeckDiagnosticSample, idx: number) => s.decks.find((d) => d.index === idx)?.weight ?? 0;
+    let start = 0;
+    const closeRun = (end: number) => {
+      // Run [start, end) of identical readings on this deck.
+      const value = weightOf(samples[start], deck);
+      const duration = samples[end - 1].t - samples[start].t;
+      if (value === 0 || duration < th.stuckMs) return;
+      const run = samples.slice(start, end);
+      const othersMoved = deckIds.some((other) => {
+        if (other === deck) return false;
+        const ws = run.map((s) => weightOf(s, other));
+        return Math.max(...ws) - Math.min(...ws) >= th.stuckChangeKg;
+      });
+      if (!othersMoved) return;
+      findings.push({
+        kind: 'stuck',
+        deck,
+        severity: 'fault',
+        message: `Deck ${deck} held ${value} kg for ${Math.round(duration / 1000)} s while the other decks moved`,
+        from: samples[start].t,
+        to: samples[end - 1].t,
+        samples: run.length,
+      });
+    };
+    for (let i = 1; i <= samples.length; i++) {
+      if (i === samples.length || weightOf(samples[i], deck) !== weightOf(samples[start], deck)) {
+        closeRun(i);
+        start = i;
+      }
+    }
+  }
+  return findings;
+}
+
+function connectionFindings(samples: DeckDiagnosticSample[]): DiagnosticFinding[] {
+  const down = samples.filter((s) => s.connection?.connected === false);
+  if (!down.length) return [];
+  return [
+    {
+      kind: 'connection',
+      deck: null,
+      severity: down.length / samples.length > 0.1 ? 'fault' : 'warning',
+      message: `Indicator reported disconnected in ${down.length} of ${samples.length} frames`,
+      from: down[0].t,
+      to: down[down.length - 1].t,
+      samples: down.length,
+    },
+  ];
+}
+
+export function analyzeDeckDiagnostics(
+  input: DeckDiagnosticSample[],
+  thresholds: DiagnosticThresholds = DEFAULT_DIAGNOSTIC_THRESHOLDS,
+): DiagnosticReport {
+  const samples = [...input].sort((a, b) => a.t - b.t);
+  if (samples.length === 0) return { samples: 0, from: null, to: null, decks: [], findings: [] };
+
+  const deckIds = [...new Set(samples.flatMap((s) => s.decks.map((d) => d.index)))].sort((a, b) => a - b);
+  const zero = zeroDriftFindings(samples, deckIds, thresholds);
+
+  const decks: DeckSummary[] = deckIds.map((deck) => {
+    const readings = samples.map((s) => s.decks.find((d) => d.index === deck)).filter((d): d is DeckReading => !!d);
+    const ws = readings.map((d) => d.weight);
+    return {
+      deck,
+      min: Math.min(...ws),
+      max: Math.max(...ws),
+      mean: round(ws.reduce((a, b) => a + b, 0) / ws.length),
+      stableShare: readings.filter((d) => d.stable).length / readings.length,
+      emptyMean: zero.means.has(deck) ? round(zero.means.get(deck)!) : null,
+    };
+  });
+
+  const findings = [
+    ...zero.findings,
+    ...imbalanceFindings(samples, deckIds, thresholds),
+    ...stuckFindings(samples, deckIds, thresholds),
+    ...connectionFindings(samples),
+  ].sort((a, b) => (a.severity === b.severity ? a.from - b.from : a.severity === 'fault' ? -1 : 1));
+
+  return { samples: samples.length, from: samples[0].t, to: samples[samples.length - 1].t, decks, findings };
+}
+
+// ── Signed bundle ────────────────────────────────────────────────────────────
+
+export const DIAGNOSTIC_BUNDLE_FORMAT = 'truload.deck-diagnostics/1';
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+export interface DiagnosticBundlePayload {
+  format: typeof DIAGNOSTIC_BUNDLE_FORMAT;
+  generatedAt: string;
+  session: {
+    id: string;
+    stationCode?: string;
+    bound?: string;
+    startedAt: string;
+    stoppedAt?: string;
+    recordedBy?: string;
+    indicator?: { make?: string; model?: string; capacity?: string };
+  };
+  thresholds: DiagnosticThresholds;
+  report: DiagnosticReport;
+  samples: DeckDiagnosticSample[];
+}
+
+export interface DiagnosticBundle {
+  payload: DiagnosticBundlePayload;
+  signature: {
+    algorithm: 'ECDSA-P256-SHA256';
+    /** Public half of the device key; the signature covers JSON.stringify(payload). */
+    publicKey: JsonWebKey;
+    /**
+     * SHA-256 JWK thumbprint (RFC 7638) of `publicKey`, hex. The key travels with the bundle, so
+     * only a fingerprint the vendor pinned from the station proves who signed it.
+     */
+    keyFingerprint: string;
+    payloadSha256: string;
+    /** Base64 IEEE P1363 (r || s) signature. */
+    value: string;
+  };
+}
+
+function toHex(buf: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buf), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function toBase64(buf: ArrayBuffer): string {
+  let s = '';
+  new Uint8Array(buf).forEach((b) => (s += String.fromCharCode(b)));
+  return btoa(s);
+}
+
+function fromBase64(b64: string): Uint8Array {
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+/** SHA-256 JWK thumbprint (RFC 7638) of a P-256 public key, hex. */
+export async function publicKeyFingerprint(jwk: JsonWebKey): Promise<string> {
+  const canonicalJwk = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y });
+  return toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJwk) as unknown as BufferSource));
+}
+
+/** Fingerprint for reading out or comparing by eye, e.g. "3F2A 9C10 …" (16 groups of 4). */
+export const formatFingerprint = (hex: string) => hex.toUpperCase().match(/.{1,4}/g)?.join(' ') ?? '';
+
+const normalizeFingerprint = (fingerprint: string) => fingerprint.replace(/[\s:]/g, '').toLowerCase();
+
+/** New device signing key; the private half is not extractable. */
+export async function generateSigningKey(): Promise<{ privateKey: CryptoKey; publicKey: JsonWebKey }> {
+  const pair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, false, ['sign', 'verify']);
+  return { privateKey: pair.privateKey, publicKey: await crypto.subtle.exportKey('jwk', pair.publicKey) };
+}
+
+export async function signDiagnosticBundle(
+  payload: DiagnosticBundlePayload,
+  key: { privateKey: CryptoKey; publicKey: JsonWebKey },
+): Promise<DiagnosticBundle> {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload)) as unknown as BufferSource;
+  const [digest, signature, keyFingerprint] = await Promise.all([
+    crypto.subtle.digest('SHA-256', bytes),
+    crypto.subtle.sign(SIGN_PARAMS, key.privateKey, bytes),
+    publicKeyFingerprint(key.publicKey),
+  ]);
+  return {
+    payload,
+    signature: {
+      algorithm: 'ECDSA-P256-SHA256',
+      publicKey: key.publicKey,
+      keyFingerprint,
+      payloadSha256: toHex(digest),
+      value: toBase64(signature),
+    },
+  };
+}
+
+/**
+ * Check a bundle's signature (what the vendor's tooling does). Against the key it carries alone
+ * this only shows the payload wasn't changed after signing — anyone can re-sign an edited payload
+ * with a fresh key — so pass the device fingerprint pinned from the station (shown in the
+ * diagnostics dialog) to also check who signed it.
+ */
+export async function verifyDiagnosticBundle(bundle: DiagnosticBundle, pinnedFingerprint?: string): Promise<boolean> {
+  try {
+    const fingerprint = await publicKeyFingerprint(bundle.signature.publicKey);
+    if (fingerprint !== bundle.signature.keyFingerprint) return false;
+    if (pinnedFingerprint !== undefined && normalizeFingerprint(pinnedFingerprint) !== fingerprint) return false;
+    const key = await crypto.subtle.importKey('jwk', bundle.signature.publicKey, SIGNING_ALGORITHM, false, ['verify']);
+    const bytes = new TextEncoder().encode(JSON.stringify(bundle.payload)) as unknown as BufferSource;
+    return await crypto.subtle.verify(
+      SIGN_PARAMS,
+      key,
+      fromBase64(bundle.signature.value) as unknown as BufferSource,
+      bytes,
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * TruConnect transports for replaying recorded (or synthetic) weight streams.
+ *
+ * useMiddleware normally talks to a live TruConnect over ws://localhost:3030 or the polling API.
+ * A `MiddlewareTransport` replaces that socket: it feeds messages into the SAME handleMessage
+ * switch (`weights`, `scale-status`, `plate-ack`, `vehicle-complete-ack`, ...) and receives every
+ * client event the hook sends. The replay transport plays back frames with their original timing
+ * (scaled by `speed`), optionally adding seeded noise and instability, and acknowledges client
+ * events the way TruConnect does — so field bugs in CaptureScreen / MultideckWeightsCard can be
+ * reproduced, and Playwright can drive the weighing screens without hardware.
+ *
+ * Recording format is JSONL, one message per line:
+ *   {"t": 0, "event": "weights", "data": { ...WeightData }}
+ * `t` is ms since the first frame. Lines captured straight from TruConnect (with an ISO
+ * `timestamp` and no `t`) are accepted too; `t` is derived from the timestamps.
+ */
+
+export interface MiddlewareMessage {
+  event: string;
+  data: unknown;
+  timestamp: string;
+}
+
+/** Pluggable replacement for the TruConnect WebSocket. */
+export interface MiddlewareTransport {
+  /** Shown as the connection URL in onConnectionModeChange (e.g. "replay:mobile-6c"). */
+  readonly label: string;
+  start(onMessage: (message: MiddlewareMessage) => void): void;
+  send(event: string, data: Record<string, unknown>): void;
+  stop(): void;
+}
+
+export interface RecordedFrame {
+  /** ms offset from the start of the recording. */
+  t: number;
+  event: string;
+  data: unknown;
+}
+
+// ── Recording format ──────────────────────────────────────────────────────────
+
+/** Parse a JSONL recording. Blank lines and `#` comments are skipped; bad lines throw. */
+export function parseRecording(jsonl: string): RecordedFrame[] {
+  const frames: RecordedFrame[] = [];
+  let firstTs: number | null = null;
+  jsonl.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) return;
+    let parsed: { t?: number; event?: string; data?: unknown; timestamp?: string };
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Recording line ${i + 1} is not valid JSON`);
+    }
+    if (!parsed.event) throw new Error(`Recording line ${i + 1} has no event`);
+    let t = parsed.t;
+    if (t == null && parsed.timestamp) {
+      const ts = new Date(parsed.timestamp).getTime();
+      firstTs ??= ts;
+      t = ts - firstTs;
+    }
+    frames.push({ t: t ?? 0, event: parsed.event, data: parsed.data ?? {} });
+  });
+  return frames.sort((a, b) => a.t - b.t);
+}
+
+export function serializeRecording(frames: RecordedFrame[]): string {
+  return frames.map((f) => JSON.stringify(f)).join('\n') + '\n';
+}
+
+export interface SessionRecorder {
+  record(message: Pick<MiddlewareMessage, 'event' | 'data'>): void;
+  frames(): RecordedFrame[];
+  clear(): void;
+  /** Save the recording as a .jsonl file (browser only). */
+  download(filename?: string): void;
+}
+
+/** Records every message useMiddleware receives, relative to the first one. */
+export function createSessionRecorder(now: () => number = () => Date.now()): SessionRecorder {
+  let frames: RecordedFrame[] = [];
+  let startedAt: number | null = null;
+  return {
+    record(message) {
+      const ts = now();
+      startedAt ??= ts;
+      frames.push({ t: ts - startedAt, event: message.event, data: message.data });
+    },
+    frames: () => [...frames],
+    clear() {
+      frames = [];
+      startedAt = null;
+    },
+    download(filename = `truconnect-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`) {
+      const blob = new Blob([serializeRecording(frames)], { type: 'application/x-ndjson' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+// ── Noise + instability ───────────────────────────────────────────────────────
+
+export interface ReplayOptions {
+  /** Playback speed multiplier (2 = twice as fast). Default 1. */
+  speed?: number;
+  /** Restart from the first frame when the recording ends. Default false. */
+  loop?: boolean;
+  /** Max ± noise added to every weight reading, in kg. Default 0. */
+  noiseKg?: number;
+  /** Probability (0-1) that a weight frame is shaken: stable=false and 5x noise. Default 0. */
+  instability?: number;
+  /** PRNG seed so a noisy replay is reproducible. Default 1. */
+  seed?: number;
+}
+
+/** mulberry32 — small, fast, seedable; Math.random can't reproduce a failing run. */
+function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export interface WeightPayload {
+  weight?: number;
+  currentWeight?: number;
+  gvw?: number;
+  runningTotal?: number;
+  runningGvw?: number;
+  deck1?: number;
+  deck2?: number;
+  deck3?: number;
+  deck4?: number;
+  decks?: { index: number; weight: number; stable: boolean }[];
+  stable?: boolean;
+}
+
+const WEIGHT_EVENTS = new Set(['weights', 'weight']);
+
+/** Apply seeded noise/instability to a weight payload. Zero readings stay zero (empty deck). */
+export function perturbWeights<T extends WeightPayload>(data: T, rand: () => number, options: ReplayOptions): T {
+  const noiseKg = options.noiseKg ?? 0;
+  const unstable = (options.instability ?? 0) > 0 && rand() < (options.instability ?? 0);
+  const amplitude = unstable ? noiseKg * 5 : noiseKg;
+  if (amplitude <= 0 && !unstable) return data;
+
+  const jitter = (v: number | undefined) =>
+    v == null || v === 0 ? v : Math.max(0, Math.round(v + (rand() * 2 - 1) * amplitude));
+
+  const out: T = { ...data };
+  const currentBefore = data.weight ?? data.currentWeight ?? 0;
+  if (data.weight != null) out.weight = jitter(data.weight);
+  if (data.currentWeight != null) {
+    out.currentWeight = data.currentWeight === data.weight ? out.weight : jitter(data.currentWeight);
+  }
+  const delta = (out.weight ?? out.currentWeight ?? 0) - currentBefore;
+
+  if (data.decks) {
+    out.decks = data.decks.map((d) => ({ ...d, weight: jitter(d.weight) ?? 0, stable: unstable ? false : d.stable }));
+    // Keep the flat deck1..deck4 fields in step with the array (same order as the polling mapper).
+    out.decks.forEach((d, i) => {
+      (out as WeightPayload)[`deck${i + 1}` as 'deck1'] = d.weight;
+    });
+    out.gvw = out.decks.reduce((s, d) => s + d.weight, 0);
+  } else if (data.deck1 != null && data.weight == null) {
+    out.deck1 = jitter(data.deck1);
+    out.deck2 = jitter(data.deck2);
+    out.deck3 = jitter(data.deck3);
+    out.deck4 = jitter(data.deck4);
+    out.gvw = (out.deck1 ?? 0) + (out.deck2 ?? 0) + (out.deck3 ?? 0) + (out.deck4 ?? 0);
+  } else {
+    // Mobile: the running totals move with the axle currently on the pads.
+    if (data.gvw != null) out.gvw = data.gvw + delta;
+    if (data.runningTotal != null) out.runningTotal = data.runningTotal + delta;
+    if (data.runningGvw != null) out.runningGvw = data.runningGvw + delta;
+  }
+  if (unstable) out.stable = false;
+  return out;
+}
+
+// ── Replay transport ──────────────────────────────────────────────────────────
+
+/** TruConnect's acknowledgement for each client event (what the replay answers with). */
+const ACKS: Record<string, string> = {
+  register: 'register-ack',
+  plate: 'plate-ack',
+  'axle-captured': 'axle-captured-ack',
+  'vehicle-complete': 'vehicle-complete-ack',
+  'transaction-sync': 'transaction-sync-ack',
+  'reset-session': 'session-reset-ack',
+};
+
+export interface ReplayTransport extends MiddlewareTransport {
+  /** Every event the client sent, in order (assert on these in tests). */
+  readonly sent: { event: string; data: Record<string, unknown> }[];
+}
+
+/**
+ * Replay frames through useMiddleware. `source` may be the frames or a loader (e.g. fetching a
+ * JSONL file), resolved on start.
+ */
+export function createReplayTransport(
+  source: RecordedFrame[] | (() => Promise<RecordedFrame[]>),
+  options: ReplayOptions & { label?: string } = {},
+): ReplayTransport {
+  const speed = options.speed && options.speed > 0 ? options.speed : 1;
+  const sent: { event: string; data: Record<string, unknown> }[] = [];
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let emit: ((message: MiddlewareMessage) => void) | null = null;
+  let rand = seededRandom(options.seed ?? 1);
+
+  const deliver = (event: string, data: unknown) => {
+    const payload = WEIGHT_EVENTS.has(event) && data && typeof data === 'object'
+      ? perturbWeights(data as WeightPayload, rand, options)
+      : data;
+    emit?.({ event, data: payload, timestamp: new Date().toISOString() });
+  };
+
+  const play = (frames: RecordedFrame[], index: number) => {
+    if (!emit) return;
+    if (index >= frames.length) {
+      if (options.loop && frames.length > 0) play(frames, 0);
+      return;
+    }
+    const frame = frames[index];
+    const prevT = index === 0 ? frame.t : frames[index - 1].t;
+    timer = setTimeout(() => {
+      timer = null;
+      deliver(frame.event, frame.data);
+      play(frames, index + 1);
+    }, Math.max(0, (frame.t - prevT) / speed));
+  };
+
+  return {
+    label: options.label ?? 'replay',
+    sent,
+    start(onMessage) {
+      emit = onMessage;
+      rand = seededRandom(options.seed ?? 1);
+      emit({ event: 'connected', data: { clientId: 0 }, timestamp: new Date().toISOString() });
+      const begin = (frames: RecordedFrame[]) => play(frames, 0);
+      if (typeof source === 'function') {
+        source()
+          .then(begin)
+          .catch((e) => console.error('[replay] Failed to load recording:', e));
+      } else {
+        begin(source);
+      }
+    },
+    send(event, data) {
+      sent.push({ event, data });
+      const ack = ACKS[event];
+      if (ack && emit) {
+        emit({ event: ack, data: { success: true, ...data }, timestamp: new Date().toISOString() });
+      }
+    },
+    stop() {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      emit = null;
+    },
+  };
+}
@@ -0,0 +1,246 @@
+/**
+ * Synthetic TruConnect sessions for the replay transport (see ./replay.ts).
+ *
+ * Generates the same `weights` payloads TruConnect emits — mobile axle-by-axle on wheel pads,
+ * or a multideck drive-on — at a fixed sample rate with a ramp (unstable) phase and a stable
+ * dwell per axle / deck position. Noise and instability are layered on at replay time.
+ */
+import type { PlateData, WeightData, WimPassageData } from '@/hooks/useMiddleware';
+import {
+  createReplayTransport,
+  createSessionRecorder,
+  parseRecording,
+  type RecordedFrame,
+  type ReplayOptions,
+  type ReplayTransport,
+  type SessionRecorder,
+} from './replay';
+
+export interface MobileScenario {
+  /** Final reading per axle, in kg. */
+  axleWeightsKg: number[];
+  /** Sample interval in ms. Default 100 (10 Hz, TruConnect's broadcast rate). */
+  sampleMs?: number;
+  /** Time to climb onto the pads (readings unstable). Default 800. */
+  rampMs?: number;
+  /** Time the axle sits still on the pads (readings stable). Default 2000. */
+  dwellMs?: number;
+  /** Empty-pad gap while the vehicle moves to the next axle. Default 1000. */
+  gapMs?: number;
+}
+
+export interface MultideckScenario {
+  /** Final settled reading per deck, in kg (1-4 decks). */
+  deckWeightsKg: number[];
+  sampleMs?: number;
+  /** Drive-on time: decks fill front to back (unstable). Default 3000. */
+  driveOnMs?: number;
+  /** Time the vehicle is stationary on the decks. Default 4000. */
+  dwellMs?: number;
+}
+
+const CONNECTION = { source: 'replay', protocol: 'replay', type: 'replay', connected: true };
+
+function mobileFrame(t: number, weight: number, axleNumber: number, captured: number[], stable: boolean): RecordedFrame {
+  const runningGvw = captured.reduce((s, w) => s + w, 0) + weight;
+  const data: WeightData = {
+    mode: 'mobile',
+    weight,
+    currentWeight: weight,
+    deck1: weight,
+    scaleA: Math.round(weight / 2),
+    scaleB: weight - Math.round(weight / 2),
+    scaleWeightMode: 'combined',
+    gvw: runningGvw,
+    runningTotal: runningGvw,
+    runningGvw,
+    axleNumber,
+    axleWeights: captured,
+    stable,
+    simulation: true,
+    source: 'replay',
+    connection: CONNECTION,
+  };
+  return { t, event: 'weights', data };
+}
+
+/** Mobile (wheel-pad) session: each axle ramps on, dwells, and rolls off. */
+export function buildMobileScenario(s: MobileScenario): RecordedFrame[] {
+  const sampleMs = s.sampleMs ?? 100;
+  const rampMs = s.rampMs ?? 800;
+  const dwellMs = s.dwellMs ?? 2000;
+  const gapMs = s.gapMs ?? 1000;
+  const frames: RecordedFrame[] = [];
+  const captured: number[] = [];
+  let t = 0;
+
+  s.axleWeightsKg.forEach((target, i) => {
+    const axleNumber = i + 1;
+    for (let e = 0; e < rampMs; e += sampleMs, t += sampleMs) {
+      frames.push(mobileFrame(t, Math.round(target * (e / rampMs)), axleNumber, [...captured], false));
+    }
+    for (let e = 0; e < dwellMs; e += sampleMs, t += sampleMs) {
+      frames.push(mobileFrame(t, target, axleNumber, [...captured], true));
+    }
+    captured.push(target);
+    for (let e = 0; e < gapMs; e += sampleMs, t += sampleMs) {
+      frames.push(mobileFrame(t, 0, axleNumber + 1, [...captured], true));
+    }
+  });
+  return frames;
+}
+
+function multideckFrame(t: number, decks: number[], stable: boolean, vehicleOnDeck: boolean): RecordedFrame {
+  const padded = [0, 1, 2, 3].map((i) => decks[i] ?? 0);
+  const data: WeightData = {
+    mode: 'multideck',
+    deck1: padded[0],
+    deck2: padded[1],
+    deck3: padded[2],
+    deck4: padded[3],
+    decks: padded.map((weight, i) => ({ index: i + 1, weight, stable })),
+    gvw: padded.reduce((s, w) => s + w, 0),
+    stable,
+    vehicleOnDeck,
+    simulation: true,
+    source: 'replay',
+    connection: CONNECTION,
+  };
+  return { t, event: 'weights', data };
+}
+
+/** Multideck session: empty decks, a front-to-back drive-on, a stationary dwell, drive-off. */
+export function buildMultideckScenario(s: MultideckScenario): RecordedFrame[] {
+  const sampleMs = s.sampleMs ?? 100;
+  const driveOnMs = s.driveOnMs ?? 3000;
+  const dwellMs = s.dwellMs ?? 4000;
+  const n = s.deckWeightsKg.length;
+  const frames: RecordedFrame[] = [];
+  let t = 0;
+
+  for (let e = 0; e < 1000; e += sampleMs, t += sampleMs) frames.push(multideckFrame(t, [], true, false));
+  for (let e = 0; e < driveOnMs; e += sampleMs, t += sampleMs) {
+    const progress = (e / driveOnMs) * n; // deck i fills while progress passes i..i+1
+    const decks = s.deckWeightsKg.map((w, i) => Math.round(w * Math.min(1, Math.max(0, progress - i))));
+    frames.push(multideckFrame(t, decks, false, true));
+  }
+  for (let e = 0; e < dwellMs; e += sampleMs, t += sampleMs) frames.push(multideckFrame(t, s.deckWeightsKg, true, true));
+  for (let e = 0; e < 1000; e += sampleMs, t += sampleMs) frames.push(multideckFrame(t, [], true, false));
+  return frames;
+}
+
+export interface WimScenario {
+  /** One entry per vehicle: axle loads (kg), speed, plate. Spacings default to 3.5 m / 1.3 m. */
+  vehicles: { axleLoadsKg: number[]; speedKmh?: number; plateNumber?: string; axleSpacingsM?: number[] }[];
+  /** Gap between passages, in ms. Default 4000. */
+  intervalMs?: number;
+}
+
+/** WIM lane: one `wim-passage` message per vehicle crossing the sensors. */
+export function buildWimScenario(s: WimScenario): RecordedFrame[] {
+  const intervalMs = s.intervalMs ?? 4000;
+  return s.vehicles.map((v, i) => {
+    const plate: PlateData | undefined = v.plateNumber ? { plateNumber: v.plateNumber, confidence: 0.92 } : undefined;
+    const data: WimPassageData = {
+      passageId: `replay-${i + 1}`,
+      timestamp: new Date(Date.UTC(2026, 0, 1, 8, 0, 0) + i * intervalMs).toISOString(),
+      lane: 1,
+      speedKmh: v.speedKmh ?? 40,
+      axleSpacingsM: v.axleSpacingsM ?? v.axleLoadsKg.slice(1).map((_, j) => (j === 0 ? 3.5 : 1.3)),
+      axleLoadsKg: v.axleLoadsKg,
+      gvwKg: v.axleLoadsKg.reduce((sum, kg) => sum + kg, 0),
+      plate,
+    };
+    return { t: i * intervalMs, event: 'wim-passage', data };
+  });
+}
+
+/** Named scenarios selectable from the replay config (e.g. in a Playwright init script). */
+export const SYNTHETIC_SCENARIOS: Record<string, () => RecordedFrame[]> = {
+  'mobile-2a': () => buildMobileScenario({ axleWeightsKg: [6500, 9800] }),
+  'mobile-3a': () => buildMobileScenario({ axleWeightsKg: [6600, 8700, 9300] }),
+  'mobile-6c': () => buildMobileScenario({ axleWeightsKg: [7200, 9100, 9000, 8200, 8100, 8300] }),
+  'multideck-3d': () => buildMultideckScenario({ deckWeightsKg: [7000, 16500, 24000] }),
+  'multideck-4d': () => buildMultideckScenario({ deckWeightsKg: [6800, 17200, 12500, 14000] }),
+  'wim-lane': () => buildWimScenario({
+    vehicles: [
+      { axleLoadsKg: [6200, 8100], plateNumber: 'KCA 101A' },
+      { axleLoadsKg: [7000, 11000, 11000], plateNumber: 'KDB 202B' },
+      { axleLoadsKg: [6900, 8800, 8700], speedKmh: 92 },
+      { axleLoadsKg: [7200, 9400, 9300, 8500, 8400, 8600], plateNumber: 'KDC 303C' },
+    ],
+  }),
+};
+
+// ── Config ────────────────────────────────────────────────────────────────────
+
+/**
+ * localStorage key (or NEXT_PUBLIC_TRUCONNECT_REPLAY) selecting a replay instead of the live
+ * middleware. Value is a scenario name, or JSON:
+ *   { "scenario": "mobile-6c" } | { "url": "/recordings/station-x.jsonl" }
+ *   plus any ReplayOptions, e.g. { "scenario": "multideck-3d", "noiseKg": 40, "instability": 0.2 }
+ *
+ * Ignored in production builds: replayed weights would otherwise be captured and submitted as
+ * if they came from the scale.
+ */
+export const REPLAY_CONFIG_KEY = 'truload_truconnect_replay';
+
+export interface ReplayConfig extends ReplayOptions {
+  scenario?: string;
+  url?: string;
+}
+
+function readReplayConfig(): ReplayConfig | null {
+  if (process.env.NODE_ENV === 'production') return null;
+  let raw: string | null | undefined = null;
+  try {
+    raw = typeof window !== 'undefined' ? window.localStorage.getItem(REPLAY_CONFIG_KEY) : null;
+  } catch { /* storage unavailable */ }
+  raw ||= process.env.NEXT_PUBLIC_TRUCONNECT_REPLAY;
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === 'string' ? { scenario: parsed } : (parsed as ReplayConfig);
+  } catch {
+    return { scenario: raw };
+  }
+}
+
+/** Replay transport from the configured scenario/recording, or null for the live middleware. */
+export function resolveReplayTransport(): ReplayTransport | null {
+  const config = readReplayConfig();
+  if (!config) return null;
+
+  if (config.url) {
+    const url = config.url;
+    return createReplayTransport(
+      () => fetch(url).then((r) => r.text()).then(parseRecording),
+      { ...config, label: `replay:${url}` },
+    );
+  }
+  const build = config.scenario ? SYNTHETIC_SCENARIOS[config.scenario] : undefined;
+  if (!build) {
+    console.warn(`[replay] Unknown TruConnect scenario "${config.scenario}"`);
+    return null;
+  }
+  return createReplayTransport(build(), { ...config, label: `replay:${config.scenario}` });
+}
+
+/**
+ * localStorage key that turns on field recording. When set, the live session is recorded and the
+ * recorder is exposed as `window.__truconnectRecorder`, so support staff can run
+ * `__truconnectRecorder.download()` from the console after reproducing a problem at a station.
+ */
+export const RECORD_FLAG_KEY = 'truload_truconnect_record';
+
+export function resolveSessionRecorder(): SessionRecorder | undefined {
+  if (typeof window === 'undefined') return undefined;
+  try {
+    if (!window.localStorage.getItem(RECORD_FLAG_KEY)) return undefined;
+  } catch {
+    return undefined;
+  }
+  const w = window as unknown as { __truconnectRecorder?: SessionRecorder };
+  w.__truconnectRecorder ??= createSessionRecorder();
+  return w.__truconnectRecorder;
+}
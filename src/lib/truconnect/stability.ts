@@ -0,0 +1,133 @@
+/**
+ * Client-side weight stabilisation.
+ *
+ * TruConnect's `stable` flag is whatever the indicator reports — some indicators raise it after a
+ * single quiet sample, so an operator could lock a weight that was still swinging. This engine
+ * runs on the onWeightUpdate stream instead and only calls a reading settled when, over a sliding
+ * window, the spread (max − min) stays within `maxDeviationKg` for at least `minDwellMs`.
+ *
+ * Thresholds are per station (Settings → Calibration → Weight Stability), stored in the
+ * `calibration` API settings as `Stability.<StationCode>.<Key>` with org-wide `Stability.<Key>`
+ * defaults; see resolveStabilityConfig.
+ */
+import type { KeyValueEntry } from '@/lib/api/setup';
+
+export interface StabilityConfig {
+  /** Sliding window the spread is measured over, in ms. */
+  windowMs: number;
+  /** Largest spread (max − min) inside the window still considered still, in kg. */
+  maxDeviationKg: number;
+  /** How long the window must stay within maxDeviationKg before capture is allowed, in ms. */
+  minDwellMs: number;
+}
+
+export const DEFAULT_STABILITY_CONFIG: StabilityConfig = {
+  windowMs: 1500,
+  maxDeviationKg: 20,
+  minDwellMs: 2000,
+};
+
+export interface StabilityState {
+  settled: boolean;
+  /** 0-1 share of minDwellMs the reading has been still for (1 = settled). */
+  progress: number;
+  /** Current spread inside the window, in kg. */
+  deviationKg: number;
+  /** How long the reading has been within tolerance, in ms. */
+  dwellMs: number;
+  /** Latest reading, in kg. */
+  weightKg: number;
+  /** Samples currently in the window. */
+  samples: number;
+}
+
+export const IDLE_STABILITY: StabilityState = {
+  settled: false,
+  progress: 0,
+  deviationKg: 0,
+  dwellMs: 0,
+  weightKg: 0,
+  samples: 0,
+};
+
+export interface StabilityDetector {
+  /** Feed one reading; returns the updated state. `at` defaults to Date.now(). */
+  push(weightKg: number, at?: number): StabilityState;
+  reset(): void;
+  readonly config: StabilityConfig;
+}
+
+export function createStabilityDetector(config: StabilityConfig = DEFAULT_STABILITY_CONFIG): StabilityDetector {
+  let samples: { at: number; kg: number }[] = [];
+  let calmSince: number | null = null;
+
+  return {
+    config,
+    push(weightKg, at = Date.now()) {
+      samples.push({ at, kg: weightKg });
+      samples = samples.filter((s) => at - s.at <= config.windowMs);
+
+      let min = Infinity;
+      let max = -Infinity;
+      for (const s of samples) {
+        if (s.kg < min) min = s.kg;
+        if (s.kg > max) max = s.kg;
+      }
+      const deviationKg = max - min;
+
+      // An empty scale is "still" but there is nothing to capture.
+      if (deviationKg > config.maxDeviationKg || weightKg <= 0) {
+        calmSince = null;
+      } else {
+        calmSince ??= at;
+      }
+
+      const dwellMs = calmSince == null ? 0 : at - calmSince;
+      const progress = config.minDwellMs > 0 ? Math.min(1, dwellMs / config.minDwellMs) : calmSince == null ? 0 : 1;
+      return {
+        settled: calmSince != null && dwellMs >= config.minDwellMs,
+        progress,
+        deviationKg,
+        dwellMs,
+        weightKg,
+        samples: samples.length,
+      };
+    },
+    reset() {
+      samples = [];
+      calmSince = null;
+    },
+  };
+}
+
+// ── Station settings ──────────────────────────────────────────────────────────
+
+export const STABILITY_SETTING_FIELDS = {
+  windowMs: 'WindowMs',
+  maxDeviationKg: 'MaxDeviationKg',
+  minDwellMs: 'MinDwellMs',
+} as const satisfies Record<keyof StabilityConfig, string>;
+
+/** Settings key for one field; omit stationCode for the org-wide default. */
+export function stabilitySettingKey(field: keyof StabilityConfig, stationCode?: string): string {
+  const suffix = STABILITY_SETTING_FIELDS[field];
+  return stationCode ? `Stability.${stationCode}.${suffix}` : `Stability.${suffix}`;
+}
+
+/** Station override → org default → built-in default, per field. */
+export function resolveStabilityConfig(entries: KeyValueEntry[] | undefined, stationCode?: string): StabilityConfig {
+  const lookup = (key: string) => {
+    const n = Number(entries?.find((e) => e.key === key)?.value);
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
+  };
+  const field = (name: keyof StabilityConfig) =>
+    (stationCode ? lookup(stabilitySettingKey(name, stationCode)) : undefined)
+    ?? lookup(stabilitySettingKey(name))
+    ?? DEFAULT_STABILITY_CONFIG[name];
+
+  return {
+    windowMs: field('windowMs'),
+    maxDeviationKg: field('maxDeviationKg'),
+    minDwellMs: field('minDwellMs'),
+  };
+}
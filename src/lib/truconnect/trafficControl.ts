@@ -0,0 +1,207 @@
+/**
+ * Multideck traffic-control sequencing.
+ *
+ * Operators drive the approach lights by hand (enter / move forward / move back / stop), and a
+ * truck stopped a little short or a little long leaves an axle off the decks — a partial-deck
+ * reading. This state machine reads deck occupancy from the onWeightUpdate stream and works out
+ * which signal the driver needs:
+ *
+ *   idle ──(plate captured, scale empty)──▶ enter ──▶ entering ──(load on decks)──▶ positioning
+ *   positioning ──(expected decks loaded)──▶ stop ──▶ positioned ──(scale empty)──▶ done
+ *   done ──(next vehicle: plate cleared)──▶ idle
+ *
+ * While positioning, a truck that has settled on fewer decks than expected is told to move
+ * forward, or to move back if it is already loading the exit deck. Corrections wait until the
+ * occupancy has been unchanged for `settleMs` so a rolling truck isn't nagged deck by deck; STOP
+ * goes out as soon as the expected decks are loaded.
+ *
+ * The expected deck count comes from the station layout (Settings → Calibration → Traffic
+ * Control), stored in the `calibration` API settings as `Traffic.<StationCode>.<Key>` with
+ * org-wide `Traffic.<Key>` defaults, like the weight stability thresholds.
+ */
+import type { WeightData } from '@/hooks/useMiddleware';
+import type { KeyValueEntry } from '@/lib/api/setup';
+
+export interface TrafficLayout {
+  /** Weighing decks on the platform, entry deck first. */
+  deckCount: number;
+  /** Length of one deck, in metres. */
+  deckLengthM: number;
+  /** Typical vehicle length at this station, in metres. */
+  vehicleLengthM: number;
+  /** Typical axle count; a vehicle cannot load more decks than it has axles. */
+  axleCount: number;
+  /** Load on a deck above which it counts as occupied, in kg. */
+  occupiedKg: number;
+  /** How long occupancy must be unchanged before a forward/back correction is sent, in ms. */
+  settleMs: number;
+}
+
+export const DEFAULT_TRAFFIC_LAYOUT: TrafficLayout = {
+  deckCount: 4,
+  deckLengthM: 6,
+  vehicleLengthM: 18,
+  axleCount: 6,
+  occupiedKg: 200,
+  settleMs: 1500,
+};
+
+export type TrafficSignal = 'enter' | 'move-forward' | 'move-back' | 'stop';
+export type TrafficPhase = 'idle' | 'entering' | 'positioning' | 'positioned' | 'done';
+
+export const TRAFFIC_SIGNAL_LABELS: Record<TrafficSignal, string> = {
+  enter: 'Enter',
+  'move-forward': 'Move forward',
+  'move-back': 'Move back',
+  stop: 'Stop',
+};
+
+export interface TrafficState {
+  phase: TrafficPhase;
+  /** Last signal shown to the driver; the same signal is not sent twice in a row. */
+  lastSignal: TrafficSignal | null;
+  /** Occupancy pattern, e.g. "1100", and when it last changed. */
+  occupancyKey: string;
+  occupancySince: number;
+}
+
+export const INITIAL_TRAFFIC_STATE: TrafficState = {
+  phase: 'idle',
+  lastSignal: null,
+  occupancyKey: '',
+  occupancySince: 0,
+};
+
+export interface TrafficInput {
+  /** Occupied flag per deck, entry deck first. */
+  occupied: boolean[];
+  /** TruConnect's own vehicle-on-deck flag, when the indicator reports it. */
+  vehicleOnDeck?: boolean;
+  /** A vehicle is expected on the approach (plate captured for this weighing). */
+  armed: boolean;
+  at: number;
+}
+
+export interface TrafficStep {
+  state: TrafficState;
+  signal?: TrafficSignal;
+  reason?: string;
+}
+
+/** Decks a vehicle of the layout's length and axle count should load, at least one. */
+export function expectedDeckCount(layout: TrafficLayout): number {
+  const byLength = layout.deckLengthM > 0 ? Math.ceil(layout.vehicleLengthM / layout.deckLengthM) : layout.deckCount;
+  return Math.max(1, Math.min(layout.deckCount, layout.axleCount, byLength));
+}
+
+/** Occupied flag per deck from a multideck frame (the `decks` array, else deck1–deck4). */
+export function deckOccupancy(weight: WeightData, layout: TrafficLayout): boolean[] {
+  const byIndex = new Map<number, number>();
+  if (weight.decks?.length) {
+    for (const d of weight.decks) byIndex.set(d.index, d.weight);
+  } else {
+    [weight.deck1, weight.deck2, weight.deck3, weight.deck4].forEach((w, i) => byIndex.set(i + 1, w ?? 0));
+  }
+  return Array.from({ length: layout.deckCount }, (_, i) => (byIndex.get(i + 1) ?? 0) > layout.occupiedKg);
+}
+
+export function formatOccupancy(occupied: boolean[]): string {
+  return occupied.map((o) => (o ? '■' : '□')).join('');
+}
+
+/**
+ * Advance the machine by one frame. Returns the next state and, when the driver needs a new
+ * instruction, the signal to send with a short reason for the timeline.
+ */
+export function nextTrafficStep(state: TrafficState, input: TrafficInput, layout: TrafficLayout): TrafficStep {
+  const key = input.occupied.map((o) => (o ? '1' : '0')).join('');
+  const since = key === state.occupancyKey ? state.occupancySince : input.at;
+  const base: TrafficState = { ...state, occupancyKey: key, occupancySince: since };
+  const loaded = input.occupied.filter(Boolean).length;
+  const empty = loaded === 0 && input.vehicleOnDeck !== true;
+  const expected = Math.min(expectedDeckCount(layout), input.occupied.length);
+
+  const emit = (phase: TrafficPhase, signal: TrafficSignal, reason: string): TrafficStep =>
+    signal === state.lastSignal
+      ? { state: { ...base, phase } }
+      : { state: { ...base, phase, lastSignal: signal }, signal, reason };
+
+  switch (state.phase) {
+    case 'idle':
+      if (!empty) return position(base, input, layout, emit);
+      return input.armed ? emit('entering', 'enter', 'Scale clear, vehicle waiting') : { state: base };
+
+    case 'entering':
+      return empty ? { state: base } : position(base, input, layout, emit);
+
+    case 'positioning':
+      if (empty) return { state: { ...base, phase: 'entering' } };
+      return position(base, input, layout, emit);
+
+    case 'positioned':
+      if (empty) return { state: { ...base, phase: 'done', lastSignal: null } };
+      // Rolled off a deck after STOP — start correcting again.
+      return loaded < expected ? position(base, input, layout, emit) : { state: base };
+
+    case 'done':
+      return input.armed ? { state: base } : { state: { ...base, phase: 'idle' } };
+  }
+}
+
+function position(
+  base: TrafficState,
+  input: TrafficInput,
+  layout: TrafficLayout,
+  emit: (phase: TrafficPhase, signal: TrafficSignal, reason: string) => TrafficStep,
+): TrafficStep {
+  const loaded = input.occupied.filter(Boolean).length;
+  const expected = Math.min(expectedDeckCount(layout), input.occupied.length);
+  if (loaded >= expected) {
+    return emit('positioned', 'stop', `${loaded} of ${expected} decks loaded`);
+  }
+  if (input.at - base.occupancySince < layout.settleMs) {
+    return { state: { ...base, phase: 'positioning' } };
+  }
+  const onExitDeck = input.occupied[input.occupied.length - 1];
+  return onExitDeck
+    ? emit('positioning', 'move-back', `Past the exit deck with ${loaded} of ${expected} decks loaded`)
+    : emit('positioning', 'move-forward', `Stopped short with ${loaded} of ${expected} decks loaded`);
+}
+
+// ── Station settings ──────────────────────────────────────────────────────────
+
+export const TRAFFIC_SETTING_FIELDS = {
+  deckCount: 'DeckCount',
+  deckLengthM: 'DeckLengthM',
+  vehicleLengthM: 'VehicleLengthM',
+  axleCount: 'AxleCount',
+  occupiedKg: 'OccupiedKg',
+  settleMs: 'SettleMs',
+} as const satisfies Record<keyof TrafficLayout, string>;
+
+/** Settings key for one field; omit stationCode for the org-wide default. */
+export function trafficSettingKey(field: keyof TrafficLayout, stationCode?: string): string {
+  const suffix = TRAFFIC_SETTING_FIELDS[field];
+  return stationCode ? `Traffic.${stationCode}.${suffix}` : `Traffic.${suffix}`;
+}
+
+/** Station override → org default → built-in default, per field. */
+export function resolveTrafficLayout(entries: KeyValueEntry[] | undefined, stationCode?: string): TrafficLayout {
+  const lookup = (key: string) => {
+    const n = Number(entries?.find((e) => e.key === key)?.value);
+    return Number.isFinite(n) && n >= 0 ? n : undefined;
+  };
+  const field = (name: keyof TrafficLayout) =>
+    (stationCode ? lookup(trafficSettingKey(name, stationCode)) : undefined)
+    ?? lookup(trafficSettingKey(name))
+    ?? DEFAULT_TRAFFIC_LAYOUT[name];
+
+  return {
+    deckCount: field('deckCount'),
+    deckLengthM: field('deckLengthM'),
+    vehicleLengthM: field('vehicleLengthM'),
+    axleCount: field('axleCount'),
+    occupiedKg: field('occupiedKg'),
+    settleMs: field('settleMs'),
+  };
+}
@@ -1,23 +1,18 @@
 /**
  * CSV Export Utility
  *
- * Converts arrays of data to CSV and triggers a browser download.
+ * Quick CSV download for small in-memory arrays. Kept for simple callers — list views should use
+ * the export subsystem in `@/lib/export` (XLSX/PDF, column presets, server-paged export).
  */
+import { createCsvWriter } from '@/lib/export/csv';
+import { downloadBlob } from '@/lib/export/engine';
+import { toCell } from '@/lib/export/columns';
 
 interface ColumnDef<T> {
   header: string;
   accessor: keyof T | ((row: T) => string | number | null | undefined);
 }
 
-function escapeCsvValue(value: unknown): string {
-  if (value === null || value === undefined) return '';
-  const str = String(value);
-  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-    return `"${str.replace(/"/g, '""')}"`;
-  }
-  return str;
-}
-
 /**
  * Export data as a CSV file download
  */
@@ -28,30 +23,13 @@ export function exportToCSV<T extends Record<string, unknown>>(
 ): void {
   if (!data.length) return;
 
-  // Header row
-  const headerRow = columns.map(col => escapeCsvValue(col.header)).join(',');
-
-  // Data rows
-  const dataRows = data.map(row =>
-    columns.map(col => {
-      const value = typeof col.accessor === 'function'
-        ? col.accessor(row)
-        : row[col.accessor];
-      return escapeCsvValue(value);
-    }).join(',')
+  const writer = createCsvWriter(columns.map((col, i) => ({ key: String(i), header: col.header })));
+  writer.writeRows(
+    data.map(row =>
+      columns.map(col => toCell(typeof col.accessor === 'function' ? col.accessor(row) : row[col.accessor]))
+    )
   );
-
-  const csvContent = [headerRow, ...dataRows].join('\n');
-  const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
-  const url = URL.createObjectURL(blob);
-
-  const link = document.createElement('a');
-  link.href = url;
-  link.download = `${filename}_${new Date().toISOString().slice(0, 10)}.csv`;
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+  downloadBlob(writer.finish(), `${filename}_${new Date().toISOString().slice(0, 10)}.csv`);
 }
 
 /**
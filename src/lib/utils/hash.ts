@@ -0,0 +1,10 @@
+/**
+ * Hashing helpers (WebCrypto).
+ */
+
+/** SHA-256 of the bytes (a string is hashed as UTF-8), lower-case hex. */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await crypto.subtle.digest('SHA-256', bytes as unknown as BufferSource);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
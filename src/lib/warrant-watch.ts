@@ -0,0 +1,66 @@
+/**
+ * Warrant watch-list matching
+ *
+ * Checks the vehicle and driver in front of a station against the active arrest warrants cached
+ * for it (referenceCache), so a warranted vehicle or driver can't pass unnoticed. Pure — the
+ * watch-list query and the alert dialog feed it.
+ *
+ * Rules:
+ *  - Plates, ID numbers and licence numbers are compared ignoring case, spaces and punctuation
+ *    ("KCA 123A" = "kca-123a").
+ *  - An identifier shorter than MIN_IDENTIFIER_LENGTH never matches, so placeholders like "N/A"
+ *    or a half-typed plate don't raise alerts.
+ *  - The accused's ID number is checked against the driver's ID number, the case's licence
+ *    number against the driver's licence, and the case's vehicle against the plate.
+ *  - Warrants matched on more identifiers come first.
+ */
+import type { WarrantWatchEntryDto } from '@/lib/api/arrestWarrant';
+
+export const MIN_IDENTIFIER_LENGTH = 4;
+
+/** How often a station refreshes its cached watch-list while online. */
+export const WATCH_LIST_REFRESH_MS = 10 * 60 * 1000;
+
+export type WarrantMatchField = 'vehicle' | 'driver-id' | 'licence';
+
+export const WARRANT_MATCH_LABELS: Record<WarrantMatchField, string> = {
+  vehicle: 'Vehicle registration',
+  'driver-id': 'Driver ID number',
+  licence: 'Driving licence',
+};
+
+/** Who is at the station: the plate being weighed and the selected driver. */
+export interface WarrantSubject {
+  vehicleRegNumber?: string | null;
+  driverIdNumber?: string | null;
+  driverLicenseNo?: string | null;
+}
+
+export interface WarrantMatch {
+  warrant: WarrantWatchEntryDto;
+  matchedOn: WarrantMatchField[];
+}
+
+export const normalizeIdentifier = (value: string | null | undefined) =>
+  (value ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const same = (a: string | null | undefined, b: string | null | undefined) => {
+  const x = normalizeIdentifier(a);
+  return x.length >= MIN_IDENTIFIER_LENGTH && x === normalizeIdentifier(b);
+};
+
+export function matchWarrants(watchList: WarrantWatchEntryDto[], subject: WarrantSubject): WarrantMatch[] {
+  const matches: WarrantMatch[] = [];
+  for (const warrant of watchList) {
+    const matchedOn: WarrantMatchField[] = [];
+    if (same(subject.vehicleRegNumber, warrant.vehicleRegNumber)) matchedOn.push('vehicle');
+    if (same(subject.driverIdNumber, warrant.accusedIdNo)) matchedOn.push('driver-id');
+    if (same(subject.driverLicenseNo, warrant.driverLicenseNo)) matchedOn.push('licence');
+    if (matchedOn.length) matches.push({ warrant, matchedOn });
+  }
+  return matches.sort((a, b) => b.matchedOn.length - a.matchedOn.length);
+}
+
+/** Stable key for "this warrant, raised for this subject" — an alert is handled once per pair. */
+export const warrantAlertKey = (warrantId: string, subject: WarrantSubject) =>
+  [warrantId, ...[subject.vehicleRegNumber, subject.driverIdNumber, subject.driverLicenseNo].map(normalizeIdentifier)].join('|');
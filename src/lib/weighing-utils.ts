@@ -5,6 +5,8 @@
  * Based on Kenya Traffic Act Cap 403 and EAC Act 2016 requirements.
  */
 
+import { formatCurrency, formatWeight as formatLocaleWeight } from '@/lib/formatters';
+import { translate } from '@/lib/i18n/translate';
 import { AxleGroupResult, ComplianceStatus, ScaleStatus } from '@/types/weighing';
 
 // ============================================================================
@@ -120,10 +122,10 @@ export function isWithinOperationalTolerance(overloadKg: number, operationalTole
 // ============================================================================
 
 /**
- * Format weight in kg with thousands separator
+ * Format weight in kg with thousands separator (active UI locale)
  */
 export function formatWeight(weightKg: number): string {
-  return weightKg.toLocaleString();
+  return formatLocaleWeight(weightKg);
 }
 
 /**
@@ -131,37 +133,18 @@ export function formatWeight(weightKg: number): string {
  */
 export function formatOverload(overloadKg: number): string {
   if (overloadKg <= 0) return '-';
-  return `+${overloadKg.toLocaleString()}`;
+  return `+${formatLocaleWeight(overloadKg)}`;
 }
 
 /**
  * Format currency (USD)
  */
 export function formatFeeUsd(feeUsd: number): string {
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-  }).format(feeUsd);
+  return formatCurrency(feeUsd, 'USD');
 }
 
-/**
- * Format fee in the appropriate currency based on the Act used.
- * EACT Act → USD ($), Traffic Act → KES.
- */
-export function formatFee(
-  feeUsd: number,
-  feeKes?: number,
-  chargingCurrency?: string,
-): string {
-  if (chargingCurrency === 'USD') {
-    return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(feeUsd);
-  }
-  const amount = feeKes != null && feeKes > 0 ? feeKes : feeUsd;
-  if (chargingCurrency === 'KES' && feeKes != null && feeKes > 0) {
-    return new Intl.NumberFormat('en-KE', { style: 'currency', currency: 'KES', maximumFractionDigits: 2 }).format(feeKes);
-  }
-  return new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(amount);
-}
+/** Fee in the Act's currency (EAC Act → USD, Traffic Act → KES); see lib/formatters. */
+export { formatFee } from '@/lib/formatters';
 
 /**
  * Format PDF value to 2 decimal places
@@ -179,16 +162,16 @@ export function getStatusLabel(status: ComplianceStatus, isPending: boolean = fa
 }
 
 /**
- * Get decision status message
+ * Get decision status message (active UI locale — shown to the driver)
  */
 export function getDecisionMessage(status: ComplianceStatus): string {
   switch (status) {
     case 'LEGAL':
-      return 'LEGAL - COMPLIANT';
+      return translate('status.decision.legal');
     case 'WARNING':
-      return 'WARNING - WITHIN TOLERANCE';
+      return translate('status.decision.warning');
     case 'OVERLOAD':
-      return 'PROHIBITED - OVERLOADED';
+      return translate('status.decision.overload');
   }
 }
 
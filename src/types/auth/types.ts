@@ -36,6 +36,8 @@ export interface User {
   isHqUser?: boolean;
   departmentId?: string;
   lastLoginAt?: string;
+  /** UI language the user chose for themselves; null/absent follows the organisation default. */
+  preferredLocale?: string | null;
 }
 
 export interface LoginResponse {
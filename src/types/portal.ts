@@ -4,6 +4,8 @@
  * Type definitions for the Transporter Portal, matching backend DTOs.
  */
 
+import type { RiskEvidenceDto } from '@/lib/api/prosecution';
+
 // ============================================================================
 // Portal Registration & Auth
 // ============================================================================
@@ -121,6 +123,21 @@ export interface PortalDriverPerformance {
   tripsPerDay: { date: string; count: number }[];
 }
 
+// ============================================================================
+// Portal Fleet Risk
+// ============================================================================
+
+/**
+ * Risk evidence for the transporter's own fleet, with the authority's risk settings so the portal
+ * scores it exactly as the weighbridge does.
+ */
+export interface PortalFleetRisk {
+  settings: { settingKey: string; settingValue: string }[];
+  transporter: RiskEvidenceDto;
+  vehicles: { vehicleId: string; evidence: RiskEvidenceDto }[];
+  drivers: { driverId: string; evidence: RiskEvidenceDto }[];
+}
+
 // ============================================================================
 // Portal Consignment
 // ============================================================================
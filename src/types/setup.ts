@@ -1,3 +1,5 @@
+import type { QualityDeductionRule } from './weighing';
+
 export interface PagedResponse<T> {
   items: T[];
   totalCount: number;
@@ -90,14 +92,28 @@ export interface OrganizationDto {
   // Commercial weighing settings (only populated for CommercialWeighing tenants)
   commercialWeighingFeeKes?: number | null;
   defaultTareExpiryDays?: number | null;
+  /** Largest allowed deviation of a stored tare from the vehicle's rolling median, in %. */
+  tareMaxVariancePct?: number | null;
+  /** How many recent tares form the rolling median (default 5). */
+  tareMedianWindow?: number | null;
+  /** Required re-tare interval in days per vehicle type. */
+  tareReTareIntervals?: Record<string, number> | null;
+  /** Per-cargo rules turning lab readings into a quality deduction. */
+  qualityDeductionRules?: QualityDeductionRule[] | null;
   paymentGateway?: string | null;
   weighingBusinessModel?: string | null;
   ssoTenantSlug?: string | null;
+  /** Default UI language for the organisation ('en' | 'sw' | 'fr'); users can override it. */
+  defaultLocale?: string | null;
 }
 
 export interface UpdateCommercialSettingsRequest {
   commercialWeighingFeeKes?: number | null;
   defaultTareExpiryDays?: number | null;
+  tareMaxVariancePct?: number | null;
+  tareMedianWindow?: number | null;
+  tareReTareIntervals?: Record<string, number> | null;
+  qualityDeductionRules?: QualityDeductionRule[] | null;
   weighingBusinessModel?: string | null;
 }
 
@@ -150,6 +166,7 @@ export interface UpdateOrganizationBrandingRequest {
   loginPageImageUrl?: string | null;
   primaryColor?: string | null;
   secondaryColor?: string | null;
+  defaultLocale?: string | null;
 }
 
 export interface StationDto {
@@ -201,6 +201,8 @@ export interface Vehicle {
   updatedAt: string;
   // Commercial tare fields
   defaultTareWeightKg?: number;
+  /** When the preset tare was last set. */
+  defaultTareSetAt?: string;
   lastTareWeightKg?: number;
   lastTareWeighedAt?: string;
   tareExpiryDays?: number;
@@ -643,6 +645,10 @@ export interface CommercialWeighingResult {
   consignmentNo?: string;
   orderReference?: string;
   expectedNetWeightKg?: number;
+  contractId?: string;
+  contractNo?: string;
+  /** Set when this trip took the contract past its target plus tolerance (flag policy). */
+  contractOverDelivery?: boolean;
   weightDiscrepancyKg?: number;
   sealNumbers?: string;
   remarks?: string;
@@ -698,6 +704,8 @@ export interface InitiateCommercialWeighingRequest {
   consignmentNo?: string;
   orderReference?: string;
   expectedNetWeightKg?: number;
+  /** Open contract the trip delivers against */
+  contractId?: string;
   sealNumbers?: string;
   trailerRegNo?: string;
   remarks?: string;
@@ -706,6 +714,69 @@ export interface InitiateCommercialWeighingRequest {
   weighingScaleType?: 'multideck' | 'mobile';
 }
 
+// ── Commercial contracts ────────────────────────────────────────────────────
+
+export type CommercialContractStatus = 'open' | 'closed';
+/** What happens when a trip takes the contract past target + tolerance */
+export type OverDeliveryPolicy = 'block' | 'flag';
+
+/** A customer order delivered over many trips; each weighing attached to it counts towards the target. */
+export interface CommercialContract {
+  id: string;
+  contractNo: string;
+  customerName: string;
+  transporterId?: string;
+  transporterName?: string;
+  cargoId?: string;
+  cargoType?: string;
+  targetQuantityKg: number;
+  /** Allowed above target before the over-delivery policy applies */
+  overDeliveryToleranceKg: number;
+  overDeliveryPolicy: OverDeliveryPolicy;
+  pricePerTonne: number;
+  currency: string;
+  /** Empty = any vehicle may deliver */
+  allowedVehicleRegNos: string[];
+  startDate?: string;
+  endDate?: string;
+  status: CommercialContractStatus;
+  /** Sum of net weights of completed weighings attached to the contract */
+  deliveredKg: number;
+  tripCount: number;
+  notes?: string;
+  closedAt?: string;
+  closedBy?: string;
+  createdAt: string;
+}
+
+export interface CommercialContractRequest {
+  contractNo: string;
+  customerName: string;
+  transporterId?: string;
+  cargoId?: string;
+  targetQuantityKg: number;
+  overDeliveryToleranceKg: number;
+  overDeliveryPolicy: OverDeliveryPolicy;
+  pricePerTonne: number;
+  currency: string;
+  allowedVehicleRegNos: string[];
+  startDate?: string;
+  endDate?: string;
+  notes?: string;
+}
+
+/** A completed weighing counted against a contract */
+export interface CommercialContractDelivery {
+  transactionId: string;
+  ticketNumber: string;
+  vehicleRegNo: string;
+  netWeightKg: number;
+  /** Running delivered total after this trip */
+  cumulativeKg: number;
+  weighedAt: string;
+  overDelivery: boolean;
+}
+
 /** Request to capture the first weight */
 export interface CaptureFirstWeightRequest {
   weightKg: number;
@@ -732,6 +803,43 @@ export interface UseStoredTareRequest {
 export interface UpdateQualityDeductionRequest {
   qualityDeductionKg: number;
   reason?: string;
+  /** Transaction metadata JSON carrying the rule breakdown (`qualityDeduction`), printed on the ticket */
+  industryMetadata?: string;
+}
+
+// ── Quality deduction rules ─────────────────────────────────────────────────
+
+/** Lab readings a rule can be driven by, in % */
+export type LabReadingKey = 'moisture' | 'impurity' | 'damaged';
+
+/**
+ * - `moisture`     — shrink to the baseline moisture: net × (reading − baseline) / (100 − baseline)
+ * - `excess`       — net × (reading − allowance) / 100 × multiplier
+ * - `shrink-table` — net × the deduction % of the band the reading falls in
+ */
+export type QualityDeductionRuleKind = 'moisture' | 'excess' | 'shrink-table';
+
+export interface ShrinkTableBand {
+  /** Inclusive lower bound, % */
+  fromPct: number;
+  /** Exclusive upper bound, % */
+  toPct: number;
+  deductPct: number;
+}
+
+/** Configured per cargo type in commercial settings */
+export interface QualityDeductionRule {
+  id: string;
+  /** null = applies to cargo with no rules of its own */
+  cargoId: string | null;
+  label: string;
+  kind: QualityDeductionRuleKind;
+  reading: LabReadingKey;
+  /** Baseline moisture (`moisture`) or free allowance (`excess`), % */
+  baselinePct?: number;
+  /** `excess` only; defaults to 1 */
+  multiplier?: number;
+  bands?: ShrinkTableBand[];
 }
 
 /** Vehicle tare weight history entry */